@@ -22,6 +22,11 @@ const MCP_SERVER = {
   source: 'src/servers/mcp-server.ts'
 };
 
+const SYNC_SERVER = {
+  name: 'sync-server',
+  source: 'src/servers/sync-server.ts'
+};
+
 const CONTEXT_GENERATOR = {
   name: 'context-generator',
   source: 'src/services/context-generator.ts'
@@ -56,6 +61,8 @@ async function buildHooks() {
 
     // Generate plugin/package.json for cache directory dependency installation
     // Note: bun:sqlite is a Bun built-in, no external dependencies needed for SQLite
+    // @huggingface/transformers ships native ONNX binaries, so it is installed rather than bundled;
+    // it is optional because only the sqlite vector backend needs it
     console.log('\n📦 Generating plugin package.json...');
     const pluginPackageJson = {
       name: 'claude-mem-plugin',
@@ -63,7 +70,9 @@ async function buildHooks() {
       private: true,
       description: 'Runtime dependencies for claude-mem bundled hooks',
       type: 'module',
-      dependencies: {},
+      optionalDependencies: {
+        '@huggingface/transformers': packageJson.optionalDependencies['@huggingface/transformers']
+      },
       engines: {
         node: '>=18.0.0',
         bun: '>=1.0.0'
@@ -97,7 +106,7 @@ async function buildHooks() {
       outfile: `${hooksDir}/${WORKER_SERVICE.name}.cjs`,
       minify: true,
       logLevel: 'error', // Suppress warnings (import.meta warning is benign)
-      external: ['bun:sqlite'],
+      external: ['bun:sqlite', '@huggingface/transformers'],
       define: {
         '__DEFAULT_PACKAGE_VERSION__': `"${version}"`
       },
@@ -136,6 +145,30 @@ async function buildHooks() {
     const mcpServerStats = fs.statSync(`${hooksDir}/${MCP_SERVER.name}.cjs`);
     console.log(`✓ mcp-server built (${(mcpServerStats.size / 1024).toFixed(2)} KB)`);
 
+    // Build team sync server
+    console.log(`\n🔧 Building sync server...`);
+    await build({
+      entryPoints: [SYNC_SERVER.source],
+      bundle: true,
+      platform: 'node',
+      target: 'node18',
+      format: 'cjs',
+      outfile: `${hooksDir}/${SYNC_SERVER.name}.cjs`,
+      minify: true,
+      logLevel: 'error',
+      external: ['bun:sqlite'],
+      define: {
+        '__DEFAULT_PACKAGE_VERSION__': `"${version}"`
+      },
+      banner: {
+        js: '#!/usr/bin/env bun'
+      }
+    });
+
+    fs.chmodSync(`${hooksDir}/${SYNC_SERVER.name}.cjs`, 0o755);
+    const syncServerStats = fs.statSync(`${hooksDir}/${SYNC_SERVER.name}.cjs`);
+    console.log(`✓ sync-server built (${(syncServerStats.size / 1024).toFixed(2)} KB)`);
+
     // Build context generator
     console.log(`\n🔧 Building context generator...`);
     await build({
@@ -179,6 +212,7 @@ async function buildHooks() {
     console.log(`   Output: ${hooksDir}/`);
     console.log(`   - Worker: worker-service.cjs`);
     console.log(`   - MCP Server: mcp-server.cjs`);
+    console.log(`   - Sync Server: sync-server.cjs`);
     console.log(`   - Context Generator: context-generator.cjs`);
     console.log(`   - Smart Install: smart-install.js`);
 
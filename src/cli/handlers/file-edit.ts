@@ -6,8 +6,10 @@
  */
 
 import type { EventHandler, NormalizedHookInput, HookResult } from '../types.js';
-import { ensureWorkerRunning, getWorkerPort } from '../../shared/worker-utils.js';
+import { ensureWorkerRunning, getWorkerPort, getRedactionConfig } from '../../shared/worker-utils.js';
 import { logger } from '../../utils/logger.js';
+import { redactValue } from '../../utils/secret-redaction.js';
+import { loadPathIgnoreMatcher } from '../../utils/path-privacy.js';
 
 export const fileEditHandler: EventHandler = {
   async execute(input: NormalizedHookInput): Promise<HookResult> {
@@ -32,6 +34,22 @@ export const fileEditHandler: EventHandler = {
       throw new Error(`Missing cwd in FileEdit hook input for session ${sessionId}, file ${filePath}`);
     }
 
+    // Drop edits to paths listed in .claude-mem-ignore
+    if (loadPathIgnoreMatcher(cwd).isIgnored(filePath)) {
+      logger.debug('HOOK', 'FileEdit: Path ignored by .claude-mem-ignore', { filePath });
+      return { continue: true, suppressOutput: true };
+    }
+
+    // Redact secrets from edit contents before anything leaves the hook process
+    const redacted = redactValue({ filePath, edits }, getRedactionConfig());
+    if (redacted.count > 0) {
+      logger.info('HOOK', 'Secrets redacted from file edit', {
+        filePath,
+        count: redacted.count,
+        rules: Object.keys(redacted.byRule).join(',')
+      });
+    }
+
     // Send to worker as an observation with file edit metadata
     // The observation handler on the worker will process this appropriately
     const response = await fetch(`http://127.0.0.1:${port}/api/sessions/observations`, {
@@ -40,8 +58,9 @@ export const fileEditHandler: EventHandler = {
       body: JSON.stringify({
         contentSessionId: sessionId,
         tool_name: 'write_file',
-        tool_input: { filePath, edits },
+        tool_input: redacted.value,
         tool_response: { success: true },
+        redaction_count: redacted.count,
         cwd
       })
       // Note: Removed signal to avoid Windows Bun cleanup issue (libuv assertion)
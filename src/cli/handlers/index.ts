@@ -11,10 +11,12 @@ import { observationHandler } from './observation.js';
 import { summarizeHandler } from './summarize.js';
 import { userMessageHandler } from './user-message.js';
 import { fileEditHandler } from './file-edit.js';
+import { preToolHandler } from './pre-tool.js';
 
 export type EventType =
   | 'context'        // SessionStart - inject context
   | 'session-init'   // UserPromptSubmit - initialize session
+  | 'pre-tool'       // PreToolUse - inject memories about the file
   | 'observation'    // PostToolUse - save observation
   | 'summarize'      // Stop - generate summary
   | 'user-message'   // SessionStart (parallel) - display to user
@@ -23,6 +25,7 @@ export type EventType =
 const handlers: Record<EventType, EventHandler> = {
   'context': contextHandler,
   'session-init': sessionInitHandler,
+  'pre-tool': preToolHandler,
   'observation': observationHandler,
   'summarize': summarizeHandler,
   'user-message': userMessageHandler,
@@ -47,6 +50,7 @@ export function getEventHandler(eventType: EventType): EventHandler {
 // Re-export individual handlers for direct access if needed
 export { contextHandler } from './context.js';
 export { sessionInitHandler } from './session-init.js';
+export { preToolHandler } from './pre-tool.js';
 export { observationHandler } from './observation.js';
 export { summarizeHandler } from './summarize.js';
 export { userMessageHandler } from './user-message.js';
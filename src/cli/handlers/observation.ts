@@ -5,9 +5,11 @@
  */
 
 import type { EventHandler, NormalizedHookInput, HookResult } from '../types.js';
-import { ensureWorkerRunning, getWorkerPort, isProjectIgnored } from '../../shared/worker-utils.js';
+import { ensureWorkerRunning, getWorkerPort, getRedactionConfig, isProjectIgnored } from '../../shared/worker-utils.js';
 import { getProjectContext } from '../../utils/project-name.js';
 import { logger } from '../../utils/logger.js';
+import { redactValue } from '../../utils/secret-redaction.js';
+import { findIgnoredToolInputPath, loadPathIgnoreMatcher } from '../../utils/path-privacy.js';
 
 export const observationHandler: EventHandler = {
   async execute(input: NormalizedHookInput): Promise<HookResult> {
@@ -40,6 +42,26 @@ export const observationHandler: EventHandler = {
       throw new Error(`Missing cwd in PostToolUse hook input for session ${sessionId}, tool ${toolName}`);
     }
 
+    // Drop tool uses that touch paths listed in .claude-mem-ignore
+    const ignoredPath = findIgnoredToolInputPath(toolInput, loadPathIgnoreMatcher(cwd));
+    if (ignoredPath) {
+      logger.debug('HOOK', 'observation: Path ignored by .claude-mem-ignore', { toolName, path: ignoredPath });
+      return { continue: true, suppressOutput: true };
+    }
+
+    // Redact secrets before anything leaves the hook process
+    const redactionConfig = getRedactionConfig();
+    const redactedInput = redactValue(toolInput, redactionConfig);
+    const redactedResponse = redactValue(toolResponse, redactionConfig);
+    const redactionCount = redactedInput.count + redactedResponse.count;
+    if (redactionCount > 0) {
+      logger.info('HOOK', 'Secrets redacted from tool usage', {
+        toolName,
+        count: redactionCount,
+        rules: Object.keys({ ...redactedInput.byRule, ...redactedResponse.byRule }).join(',')
+      });
+    }
+
     // Send to worker - worker handles privacy check and database operations
     const response = await fetch(`http://127.0.0.1:${port}/api/sessions/observations`, {
       method: 'POST',
@@ -47,8 +69,9 @@ export const observationHandler: EventHandler = {
       body: JSON.stringify({
         contentSessionId: sessionId,
         tool_name: toolName,
-        tool_input: toolInput,
-        tool_response: toolResponse,
+        tool_input: redactedInput.value,
+        tool_response: redactedResponse.value,
+        redaction_count: redactionCount,
         cwd
       })
       // Note: Removed signal to avoid Windows Bun cleanup issue (libuv assertion)
@@ -58,6 +81,13 @@ export const observationHandler: EventHandler = {
       throw new Error(`Observation storage failed: ${response.status}`);
     }
 
+    // The worker skips events it won't record (excluded tools, private prompts, queue backpressure)
+    const result = await response.json().catch(() => null) as { status?: string; reason?: string } | null;
+    if (result?.status === 'skipped') {
+      logger.debug('HOOK', 'Observation skipped by worker', { toolName, reason: result.reason });
+      return { continue: true, suppressOutput: true };
+    }
+
     logger.debug('HOOK', 'Observation sent successfully', { toolName });
 
     return { continue: true, suppressOutput: true };
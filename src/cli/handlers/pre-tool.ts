@@ -0,0 +1,103 @@
+/**
+ * Pre-Tool Handler - PreToolUse
+ *
+ * Before Claude edits, writes or reads a file, asks the worker for memories about that file
+ * (gotchas, decisions, past bugfixes) and returns them as additionalContext. The worker skips
+ * memories already injected in this session and caps the context size.
+ *
+ * Never fails the hook: a PreToolUse error exit would block the tool call, so any problem
+ * just means no context.
+ */
+
+import path from 'path';
+import type { EventHandler, NormalizedHookInput, HookResult } from '../types.js';
+import { ensureWorkerRunning, getWorkerPort, isProjectIgnored } from '../../shared/worker-utils.js';
+import { getProjectContext } from '../../utils/project-name.js';
+import { logger } from '../../utils/logger.js';
+import { findIgnoredToolInputPath, loadPathIgnoreMatcher } from '../../utils/path-privacy.js';
+
+// Tools that act on a single file, and the tool_input field holding its path
+const FILE_TOOLS: Record<string, string> = {
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Write: 'file_path',
+  Read: 'file_path',
+  NotebookEdit: 'notebook_path'
+};
+
+const NO_CONTEXT: HookResult = { continue: true, suppressOutput: true };
+
+/**
+ * Path of the file a tool call is about to touch, or null for other tools
+ */
+export function getToolFilePath(toolName: string | undefined, toolInput: unknown): string | null {
+  const field = toolName ? FILE_TOOLS[toolName] : undefined;
+  if (!field || !toolInput || typeof toolInput !== 'object') return null;
+  const value = (toolInput as Record<string, unknown>)[field];
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+/**
+ * Path to look up: relative to the project when inside it, so it matches memories
+ * recorded with either relative or absolute paths
+ */
+export function toLookupPath(filePath: string, cwd: string): string {
+  if (!path.isAbsolute(filePath)) return filePath;
+  const relative = path.relative(cwd, filePath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : filePath;
+}
+
+export const preToolHandler: EventHandler = {
+  async execute(input: NormalizedHookInput): Promise<HookResult> {
+    const { sessionId, cwd, toolName, toolInput } = input;
+
+    const filePath = getToolFilePath(toolName, toolInput);
+    if (!filePath || !cwd) {
+      return NO_CONTEXT;
+    }
+
+    try {
+      const projectContext = getProjectContext(cwd);
+      if (isProjectIgnored(projectContext.allProjects)) {
+        logger.debug('HOOK', 'pre-tool: Project ignored', { project: projectContext.primary });
+        return NO_CONTEXT;
+      }
+
+      const ignoredPath = findIgnoredToolInputPath(toolInput, loadPathIgnoreMatcher(cwd));
+      if (ignoredPath) {
+        logger.debug('HOOK', 'pre-tool: Path ignored by .claude-mem-ignore', { toolName, path: ignoredPath });
+        return NO_CONTEXT;
+      }
+
+      await ensureWorkerRunning();
+
+      const params = new URLSearchParams({
+        filePath: toLookupPath(filePath, cwd),
+        projects: projectContext.allProjects.join(',')
+      });
+      if (sessionId) params.set('contentSessionId', sessionId);
+
+      // Note: Removed AbortSignal.timeout due to Windows Bun cleanup issue (libuv assertion)
+      const response = await fetch(`http://127.0.0.1:${getWorkerPort()}/api/context/file?${params}`);
+      if (!response.ok) {
+        logger.debug('HOOK', 'pre-tool: File context request failed', { status: response.status });
+        return NO_CONTEXT;
+      }
+
+      const { context } = await response.json() as { context: string; observationIds: number[] };
+      if (!context) {
+        return NO_CONTEXT;
+      }
+
+      return {
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          additionalContext: context
+        }
+      };
+    } catch (error) {
+      logger.debug('HOOK', 'pre-tool: No file context', { toolName }, error as Error);
+      return NO_CONTEXT;
+    }
+  }
+};
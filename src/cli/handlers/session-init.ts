@@ -2,6 +2,8 @@
  * Session Init Handler - UserPromptSubmit
  *
  * Extracted from new-hook.ts - initializes session and starts SDK agent.
+ * With prompt-time retrieval enabled, also returns memories related to the prompt
+ * as additionalContext for this turn.
  */
 
 import type { EventHandler, NormalizedHookInput, HookResult } from '../types.js';
@@ -95,6 +97,54 @@ export const sessionInitHandler: EventHandler = {
       sessionId: sessionDbId
     });
 
+    // Cursor can't inject context on prompt submit
+    if (input.platform !== 'cursor') {
+      const additionalContext = await fetchPromptContext(port, sessionId, promptNumber, prompt, projectContext.allProjects);
+      if (additionalContext) {
+        return {
+          hookSpecificOutput: {
+            hookEventName: 'UserPromptSubmit',
+            additionalContext
+          }
+        };
+      }
+    }
+
     return { continue: true, suppressOutput: true };
   }
 };
+
+/**
+ * Ask the worker for memories related to the prompt (empty unless prompt-time retrieval is enabled)
+ * Failures only cost the extra context, never the prompt
+ */
+async function fetchPromptContext(
+  port: number,
+  contentSessionId: string,
+  promptNumber: number,
+  prompt: string,
+  projects: string[]
+): Promise<string> {
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/api/context/prompt`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contentSessionId, promptNumber, prompt, projects })
+      // Note: Removed signal to avoid Windows Bun cleanup issue (libuv assertion)
+    });
+
+    if (!response.ok) {
+      logger.debug('HOOK', 'session-init: Prompt context request failed', { status: response.status });
+      return '';
+    }
+
+    const result = await response.json() as { context: string; injections: Array<{ observationId: number; similarity: number }> };
+    if (result.injections.length > 0) {
+      logger.debug('HOOK', 'session-init: Injecting prompt context', { promptNumber, count: result.injections.length });
+    }
+    return result.context;
+  } catch (error) {
+    logger.debug('HOOK', 'session-init: No prompt context', { promptNumber }, error as Error);
+    return '';
+  }
+}
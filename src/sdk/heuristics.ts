@@ -0,0 +1,281 @@
+/**
+ * Heuristic Extractor Module
+ * Derives minimal observations directly from tool events, without an LLM
+ *
+ * Used by HeuristicAgent when CLAUDE_MEM_EXTRACTION_MODE is 'heuristic', or 'hybrid'
+ * while the LLM providers are unavailable. Tools without a rule produce no observations.
+ */
+
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { ModeManager } from '../services/domain/ModeManager.js';
+import type { ParsedObservation } from './parser.js';
+
+export interface HeuristicToolEvent {
+  tool_name: string;
+  tool_input: unknown;
+  tool_response: unknown;
+  cwd?: string;
+}
+
+type ToolPayload = Record<string, unknown>;
+
+const MAX_SUBTITLE_LENGTH = 80;
+const MAX_COMMAND_LENGTH = 60;
+const MAX_FAILING_TESTS = 5;
+
+const TEST_COMMAND_PATTERN = new RegExp([
+  String.raw`\b(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?test\b`,
+  String.raw`\b(?:jest|vitest|mocha|pytest|rspec|phpunit)\b`,
+  String.raw`\b(?:go|cargo|dotnet)\s+test\b`,
+  String.raw`\bpython3?\s+-m\s+(?:pytest|unittest)\b`,
+  String.raw`\b(?:mvn|gradle|gradlew)\b.*\btest\b`,
+  String.raw`\bmake\s+(?:test|check)\b`,
+].join('|'));
+
+const PASSED_COUNT_PATTERN = /(\d+)\s+(?:pass(?:ed|es|ing)?)\b/gi;
+const FAILED_COUNT_PATTERN = /(\d+)\s+(?:fail(?:ed|s|ing|ures?)?)\b/gi;
+const FAILING_TEST_PATTERN = /^\s*(?:\(fail\)|✗|✕|×|--- FAIL:|FAILED)\s+(.+?)\s*$/gm;
+
+/**
+ * Derive observations from one tool event
+ * Returns an empty array for tools and commands without a rule.
+ */
+export function extractHeuristicObservations(event: HeuristicToolEvent): ParsedObservation[] {
+  const input = toPayload(event.tool_input);
+
+  switch (event.tool_name) {
+    case 'Edit':
+    case 'MultiEdit':
+      return fromEdit(input, event.cwd);
+    case 'Write':
+      return fromWrite(input, toPayload(event.tool_response), event.cwd);
+    case 'NotebookEdit':
+      return fromNotebookEdit(input, event.cwd);
+    case 'Read':
+      return fromRead(input, event.cwd);
+    case 'Bash':
+      return fromBash(input, event.tool_response);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check if a shell command runs a test suite
+ */
+export function isTestCommand(command: string): boolean {
+  return TEST_COMMAND_PATTERN.test(command);
+}
+
+function fromEdit(input: ToolPayload, cwd?: string): ParsedObservation[] {
+  const filePath = stringField(input, 'file_path');
+  if (!filePath) return [];
+
+  const edits = Array.isArray(input.edits)
+    ? (input.edits as unknown[]).map(toPayload)
+    : [input];
+
+  let added: string[] = [];
+  let removed: string[] = [];
+  for (const edit of edits) {
+    const diff = diffLines(stringField(edit, 'old_string') ?? '', stringField(edit, 'new_string') ?? '');
+    added = added.concat(diff.added);
+    removed = removed.concat(diff.removed);
+  }
+
+  const file = displayPath(filePath, cwd);
+  const firstAdded = added.find(line => line.trim());
+  const firstRemoved = removed.find(line => line.trim());
+  const subtitle = firstAdded
+    ? truncate(firstAdded.trim(), MAX_SUBTITLE_LENGTH)
+    : firstRemoved ? `Removed: ${truncate(firstRemoved.trim(), MAX_SUBTITLE_LENGTH)}` : null;
+
+  return [buildObservation('change', 'what-changed', {
+    title: `Edited ${path.basename(file)} (+${added.length} −${removed.length} lines)`,
+    subtitle,
+    facts: [`${file}: ${added.length} lines added, ${removed.length} lines removed`],
+    files_modified: [file]
+  })];
+}
+
+function fromWrite(input: ToolPayload, response: ToolPayload, cwd?: string): ParsedObservation[] {
+  const filePath = stringField(input, 'file_path');
+  if (!filePath) return [];
+
+  const file = displayPath(filePath, cwd);
+  const content = stringField(input, 'content') ?? '';
+  const lineCount = content ? content.split('\n').length : 0;
+  const verb = response.type === 'create' ? 'Created' : response.type === 'update' ? 'Rewrote' : 'Wrote';
+
+  return [buildObservation('change', 'what-changed', {
+    title: `${verb} ${path.basename(file)}`,
+    facts: [`${file}: ${lineCount} lines written`],
+    files_modified: [file]
+  })];
+}
+
+function fromNotebookEdit(input: ToolPayload, cwd?: string): ParsedObservation[] {
+  const notebookPath = stringField(input, 'notebook_path');
+  if (!notebookPath) return [];
+
+  const file = displayPath(notebookPath, cwd);
+  const mode = stringField(input, 'edit_mode') ?? 'replace';
+
+  return [buildObservation('change', 'what-changed', {
+    title: `Edited notebook ${path.basename(file)}`,
+    facts: [`${file}: cell ${mode}`],
+    files_modified: [file]
+  })];
+}
+
+function fromRead(input: ToolPayload, cwd?: string): ParsedObservation[] {
+  const filePath = stringField(input, 'file_path');
+  if (!filePath) return [];
+
+  const file = displayPath(filePath, cwd);
+  return [buildObservation('discovery', 'how-it-works', {
+    title: `Read ${path.basename(file)}`,
+    files_read: [file]
+  })];
+}
+
+function fromBash(input: ToolPayload, rawResponse: unknown): ParsedObservation[] {
+  const command = stringField(input, 'command');
+  if (!command || !isTestCommand(command)) return [];
+
+  const response = toPayload(rawResponse);
+  if (response.interrupted === true) return [];
+
+  const output = typeof rawResponse === 'string'
+    ? rawResponse
+    : [stringField(response, 'stdout'), stringField(response, 'stderr')].filter(Boolean).join('\n');
+
+  const passed = lastCount(output, PASSED_COUNT_PATTERN);
+  const failed = lastCount(output, FAILED_COUNT_PATTERN);
+  const failingTests = Array.from(output.matchAll(FAILING_TEST_PATTERN), match => match[1]).slice(0, MAX_FAILING_TESTS);
+
+  const hasFailures = (failed ?? 0) > 0 || failingTests.length > 0 || (failed === null && passed === null && /\bFAIL(?:ED)?\b/.test(output));
+  const outcome = hasFailures ? 'failed' : (passed !== null ? 'passed' : 'ran');
+  const shortCommand = truncate(command.split('\n')[0].trim(), MAX_COMMAND_LENGTH);
+
+  const facts: string[] = [];
+  if (passed !== null || failed !== null) {
+    facts.push(`${passed ?? 0} passed, ${failed ?? 0} failed`);
+  }
+  facts.push(...failingTests.map(name => `Failing: ${name}`));
+
+  return [buildObservation('discovery', hasFailures ? 'problem-solution' : 'how-it-works', {
+    title: outcome === 'ran' ? `Ran tests: ${shortCommand}` : `Tests ${outcome}: ${shortCommand}`,
+    subtitle: shortCommand,
+    facts
+  })];
+}
+
+/**
+ * Build an observation with a type and concept valid in the active mode
+ * Falls back to the mode's first type (as the XML parser does) and drops unknown concepts.
+ */
+function buildObservation(
+  type: string,
+  concept: string,
+  fields: Partial<Pick<ParsedObservation, 'title' | 'subtitle' | 'facts' | 'files_read' | 'files_modified'>>
+): ParsedObservation {
+  const mode = ModeManager.getInstance().getActiveMode();
+  const validTypes = mode.observation_types.map(t => t.id);
+  const finalType = validTypes.includes(type) ? type : validTypes[0];
+  if (finalType !== type) {
+    logger.debug('PARSER', `Heuristic type "${type}" not in active mode, using "${finalType}"`);
+  }
+  const validConcept = mode.observation_concepts.some(c => c.id === concept);
+
+  return {
+    type: finalType,
+    title: fields.title ?? null,
+    subtitle: fields.subtitle ?? null,
+    facts: fields.facts ?? [],
+    narrative: null,
+    concepts: validConcept ? [concept] : [],
+    files_read: fields.files_read ?? [],
+    files_modified: fields.files_modified ?? [],
+    origin: 'heuristic'
+  };
+}
+
+/**
+ * Lines present in one version but not the other (order-insensitive)
+ */
+function diffLines(before: string, after: string): { added: string[]; removed: string[] } {
+  const beforeLines = before ? before.split('\n') : [];
+  const afterLines = after ? after.split('\n') : [];
+
+  const remaining = new Map<string, number>();
+  for (const line of beforeLines) {
+    remaining.set(line, (remaining.get(line) ?? 0) + 1);
+  }
+
+  const added: string[] = [];
+  for (const line of afterLines) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      added.push(line);
+    }
+  }
+
+  const removed: string[] = [];
+  for (const line of beforeLines) {
+    const count = remaining.get(line) ?? 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+      removed.push(line);
+    }
+  }
+
+  return { added, removed };
+}
+
+/**
+ * Count from the last match of a pattern (test runners print their totals last)
+ */
+function lastCount(output: string, pattern: RegExp): number | null {
+  let count: number | null = null;
+  for (const match of output.matchAll(pattern)) {
+    count = parseInt(match[1], 10);
+  }
+  return count;
+}
+
+/**
+ * Path relative to the working directory when inside it, otherwise unchanged
+ */
+function displayPath(filePath: string, cwd?: string): string {
+  if (!cwd || !path.isAbsolute(filePath)) return filePath;
+  const relative = path.relative(cwd, filePath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : filePath;
+}
+
+/**
+ * Tool payloads arrive as objects, or as JSON strings from some hook integrations
+ */
+function toPayload(value: unknown): ToolPayload {
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' ? parsed as ToolPayload : {};
+    } catch {
+      return {};
+    }
+  }
+  return value && typeof value === 'object' ? value as ToolPayload : {};
+}
+
+function stringField(payload: ToolPayload, key: string): string | null {
+  const value = payload[key];
+  return typeof value === 'string' ? value : null;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
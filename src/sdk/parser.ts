@@ -5,6 +5,8 @@
 
 import { logger } from '../utils/logger.js';
 import { ModeManager } from '../services/domain/ModeManager.js';
+import type { ObservationOrigin } from '../types/database.js';
+import { buildObservationSchema, validateAgainstSchema, type JsonSchema } from './schema.js';
 
 export interface ParsedObservation {
   type: string;
@@ -15,6 +17,10 @@ export interface ParsedObservation {
   concepts: string[];
   files_read: string[];
   files_modified: string[];
+  /** Unset for LLM output; 'heuristic' for observations derived without an LLM */
+  origin?: ObservationOrigin;
+  /** Set by QualityEvaluator before storage */
+  quality_score?: number;
 }
 
 export interface ParsedSummary {
@@ -26,6 +32,12 @@ export interface ParsedSummary {
   notes: string | null;
 }
 
+export interface ParsedDigest {
+  title: string;
+  summary: string;
+  facts: string[];
+}
+
 /**
  * Parse observation XML blocks from SDK response
  * Returns all observations found in the response
@@ -98,6 +110,74 @@ export function parseObservations(text: string, correlationId?: string): ParsedO
   return observations;
 }
 
+export interface StructuredObservationsResult {
+  /** False when the response holds no JSON object (empty, prose or XML output) */
+  found: boolean;
+  /** Observations that passed schema validation */
+  observations: ParsedObservation[];
+  /** Schema violations, prefixed with their JSON path */
+  errors: string[];
+  /** Observations rejected by validation (1 for a response that is not valid JSON) */
+  rejectedCount: number;
+}
+
+/**
+ * Parse observations from a JSON response validated against the active mode's schema
+ *
+ * Unlike parseObservations, invalid types are not coerced: observations that violate
+ * the schema are left out and reported in errors, so the caller can ask for a repair.
+ * JSON is read from a fenced code block, or from the whole response when it starts with '{'.
+ */
+export function parseObservationsJson(text: string, correlationId?: string): StructuredObservationsResult {
+  const jsonText = extractJsonText(text);
+  if (jsonText === null) {
+    return { found: false, observations: [], errors: [], rejectedCount: 0 };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error) {
+    logger.debug('PARSER', 'Structured response is not valid JSON', { correlationId }, error as Error);
+    return { found: true, observations: [], errors: [`$: not valid JSON (${(error as Error).message})`], rejectedCount: 1 };
+  }
+
+  const schema = buildObservationSchema(ModeManager.getInstance().getActiveMode());
+  const listSchema = schema.properties!.observations;
+  const itemSchema = listSchema.items!;
+
+  // Validate the envelope without its items, then each item on its own so valid ones can be kept
+  const envelopeSchema: JsonSchema = { ...schema, properties: { observations: { ...listSchema, items: undefined } } };
+  const errors = validateAgainstSchema(parsed, envelopeSchema);
+  const items = (parsed as { observations?: unknown })?.observations;
+  if (!Array.isArray(items)) {
+    return { found: true, observations: [], errors, rejectedCount: 1 };
+  }
+
+  const observations: ParsedObservation[] = [];
+  let rejectedCount = 0;
+  items.slice(0, listSchema.maxItems).forEach((item, index) => {
+    const itemErrors = validateAgainstSchema(item, itemSchema, `$.observations[${index}]`);
+    if (itemErrors.length > 0) {
+      errors.push(...itemErrors);
+      rejectedCount++;
+      return;
+    }
+    observations.push(toParsedObservation(item as Record<string, unknown>));
+  });
+
+  if (errors.length > 0) {
+    logger.warn('PARSER', 'Structured response failed schema validation', {
+      correlationId,
+      valid: observations.length,
+      rejected: rejectedCount,
+      firstError: errors[0]
+    });
+  }
+
+  return { found: true, observations, errors, rejectedCount };
+}
+
 /**
  * Parse summary XML block from SDK response
  * Returns null if no valid summary found or if summary was skipped
@@ -159,6 +239,62 @@ export function parseSummary(text: string, sessionId?: number): ParsedSummary |
   };
 }
 
+/**
+ * Parse digest XML block from a consolidation response
+ * Returns null when the block, its title or its summary is missing
+ */
+export function parseDigest(text: string): ParsedDigest | null {
+  const digestMatch = /<digest>([\s\S]*?)<\/digest>/.exec(text);
+  if (!digestMatch) {
+    return null;
+  }
+
+  const title = extractField(digestMatch[1], 'title');
+  const summary = extractField(digestMatch[1], 'summary');
+  if (!title || !summary) {
+    logger.warn('PARSER', 'Digest missing title or summary', { hasTitle: !!title, hasSummary: !!summary });
+    return null;
+  }
+
+  return { title, summary, facts: extractArrayElements(digestMatch[1], 'facts', 'fact') };
+}
+
+/**
+ * Map a schema-valid JSON observation to the parser's observation shape
+ */
+function toParsedObservation(item: Record<string, unknown>): ParsedObservation {
+  const type = item.type as string;
+  const optionalText = (value: unknown): string | null =>
+    typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+  const list = (value: unknown): string[] =>
+    Array.isArray(value) ? value.map(entry => String(entry).trim()).filter(Boolean) : [];
+
+  return {
+    type,
+    title: optionalText(item.title),
+    subtitle: optionalText(item.subtitle),
+    facts: list(item.facts),
+    narrative: optionalText(item.narrative),
+    // Types and concepts are separate dimensions (same rule as the XML parser)
+    concepts: list(item.concepts).filter(concept => concept !== type),
+    files_read: list(item.files_read),
+    files_modified: list(item.files_modified)
+  };
+}
+
+/**
+ * JSON text of a structured response: a fenced code block, or the whole trimmed
+ * response when it is a bare object. Null when neither is present.
+ */
+function extractJsonText(text: string): string | null {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  if (fenced && fenced[1].trim().startsWith('{')) {
+    return fenced[1].trim();
+  }
+  const trimmed = text.trim();
+  return trimmed.startsWith('{') ? trimmed : null;
+}
+
 /**
  * Extract a simple field value from XML content
  * Returns null for missing or empty/whitespace-only fields
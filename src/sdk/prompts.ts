@@ -5,6 +5,10 @@
 
 import { logger } from '../utils/logger.js';
 import type { ModeConfig } from '../services/domain/types.js';
+import type { DigestGroup } from '../services/sqlite/digests/types.js';
+import { buildObservationSchema, type JsonSchema } from './schema.js';
+
+export type ObservationOutputFormat = 'xml' | 'json';
 
 export interface Observation {
   id: number;
@@ -25,8 +29,15 @@ export interface SDKSession {
 
 /**
  * Build initial prompt to initialize the SDK agent
+ * @param outputFormat - 'json' asks for observations matching the mode's JSON schema (CLAUDE_MEM_OUTPUT_FORMAT)
  */
-export function buildInitPrompt(project: string, sessionId: string, userPrompt: string, mode: ModeConfig): string {
+export function buildInitPrompt(
+  project: string,
+  sessionId: string,
+  userPrompt: string,
+  mode: ModeConfig,
+  outputFormat: ObservationOutputFormat = 'xml'
+): string {
   return `${mode.prompts.system_identity}
 
 <observed_from_primary_session>
@@ -42,45 +53,7 @@ ${mode.prompts.recording_focus}
 
 ${mode.prompts.skip_guidance}
 
-${mode.prompts.output_format_header}
-
-\`\`\`xml
-<observation>
-  <type>[ ${mode.observation_types.map(t => t.id).join(' | ')} ]</type>
-  <!--
-    ${mode.prompts.type_guidance}
-  -->
-  <title>${mode.prompts.xml_title_placeholder}</title>
-  <subtitle>${mode.prompts.xml_subtitle_placeholder}</subtitle>
-  <facts>
-    <fact>${mode.prompts.xml_fact_placeholder}</fact>
-    <fact>${mode.prompts.xml_fact_placeholder}</fact>
-    <fact>${mode.prompts.xml_fact_placeholder}</fact>
-  </facts>
-  <!--
-    ${mode.prompts.field_guidance}
-  -->
-  <narrative>${mode.prompts.xml_narrative_placeholder}</narrative>
-  <concepts>
-    <concept>${mode.prompts.xml_concept_placeholder}</concept>
-    <concept>${mode.prompts.xml_concept_placeholder}</concept>
-  </concepts>
-  <!--
-    ${mode.prompts.concept_guidance}
-  -->
-  <files_read>
-    <file>${mode.prompts.xml_file_placeholder}</file>
-    <file>${mode.prompts.xml_file_placeholder}</file>
-  </files_read>
-  <files_modified>
-    <file>${mode.prompts.xml_file_placeholder}</file>
-    <file>${mode.prompts.xml_file_placeholder}</file>
-  </files_modified>
-</observation>
-\`\`\`
-${mode.prompts.format_examples}
-
-${mode.prompts.footer}
+${buildOutputFormatSection(mode, outputFormat)}
 
 ${mode.prompts.header_memory_start}`;
 }
@@ -119,6 +92,20 @@ export function buildObservationPrompt(obs: Observation): string {
 </observed_from_primary_session>`;
 }
 
+/**
+ * Build one prompt for consecutive tool observations sent together
+ * (CLAUDE_MEM_QUEUE_COALESCE_TOOLS); a single observation gets the plain observation prompt
+ */
+export function buildObservationBatchPrompt(observations: Observation[]): string {
+  if (observations.length === 1) {
+    return buildObservationPrompt(observations[0]);
+  }
+
+  return `The next ${observations.length} tool uses happened back to back in the primary session. Record them together: merge related steps into one observation and skip the ones that add nothing.
+
+${observations.map(buildObservationPrompt).join('\n\n')}`;
+}
+
 /**
  * Build prompt to generate progress summary
  */
@@ -169,8 +156,15 @@ ${mode.prompts.summary_footer}`;
  *
  * Called when: promptNumber > 1 (see SDKAgent.ts line 150)
  * First prompt: Uses buildInitPrompt instead (promptNumber === 1)
+ * outputFormat works as in buildInitPrompt.
  */
-export function buildContinuationPrompt(userPrompt: string, promptNumber: number, contentSessionId: string, mode: ModeConfig): string {
+export function buildContinuationPrompt(
+  userPrompt: string,
+  promptNumber: number,
+  contentSessionId: string,
+  mode: ModeConfig,
+  outputFormat: ObservationOutputFormat = 'xml'
+): string {
   return `${mode.prompts.continuation_greeting}
 
 <observed_from_primary_session>
@@ -190,7 +184,34 @@ ${mode.prompts.skip_guidance}
 
 ${mode.prompts.continuation_instruction}
 
-${mode.prompts.output_format_header}
+${buildOutputFormatSection(mode, outputFormat)}
+
+${mode.prompts.header_memory_continued}`;
+} 
+
+/**
+ * Build the OUTPUT FORMAT section: the mode's XML template, or the JSON schema
+ * generated from the mode (the mode prompts mention XML, so JSON mode overrides that)
+ */
+function buildOutputFormatSection(mode: ModeConfig, outputFormat: ObservationOutputFormat): string {
+  if (outputFormat === 'json') {
+    return `OUTPUT FORMAT
+-------------
+Output observations as one JSON object matching this JSON schema:
+
+\`\`\`json
+${JSON.stringify(buildObservationSchema(mode), null, 2)}
+\`\`\`
+
+${mode.prompts.field_guidance}
+
+${mode.prompts.footer}
+
+Respond with the JSON object only. Wherever these instructions mention XML, use this JSON format instead.
+If nothing is worth recording, respond with {"observations": []}.`;
+  }
+
+  return `${mode.prompts.output_format_header}
 
 \`\`\`xml
 <observation>
@@ -228,7 +249,74 @@ ${mode.prompts.output_format_header}
 \`\`\`
 ${mode.prompts.format_examples}
 
-${mode.prompts.footer}
+${mode.prompts.footer}`;
+}
 
-${mode.prompts.header_memory_continued}`;
-} 
\ No newline at end of file
+/**
+ * Build prompt asking the agent to fix a structured response that failed schema validation
+ */
+export function buildRepairPrompt(previousOutput: string, errors: string[], schema: JsonSchema): string {
+  return `Your previous response did not match the required JSON schema.
+
+Validation errors:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous response:
+${previousOutput}
+
+Schema:
+\`\`\`json
+${JSON.stringify(schema, null, 2)}
+\`\`\`
+
+Respond with the corrected JSON object only. Keep the observations that were valid, fix the invalid ones, and drop any you cannot fix.`;
+}
+
+/**
+ * Build one-shot prompt asking the agent to consolidate a group of older observations
+ * into a single durable digest (parsed by parseDigest)
+ */
+export function buildDigestPrompt(group: DigestGroup): string {
+  const observations = group.observations.map(obs => {
+    const lines = [
+      `<observation id="${obs.id}" type="${obs.type}" date="${new Date(obs.created_at_epoch).toISOString().slice(0, 10)}">`,
+      `  <title>${obs.title ?? ''}</title>`
+    ];
+    if (obs.subtitle) lines.push(`  <subtitle>${obs.subtitle}</subtitle>`);
+    if (obs.narrative) lines.push(`  <narrative>${obs.narrative}</narrative>`);
+    const facts = parseFactList(obs.facts);
+    if (facts.length > 0) {
+      lines.push('  <facts>', ...facts.map(fact => `    <fact>${fact}</fact>`), '  </facts>');
+    }
+    lines.push('</observation>');
+    return lines.join('\n');
+  }).join('\n');
+
+  return `You are consolidating long-term memory for the project "${group.project}".
+The observations below were recorded over several sessions${group.folder ? ` about files in ${group.folder}` : ''}${group.concept ? `, tagged "${group.concept}"` : ''}.
+
+Write ONE digest that preserves what is still useful later: decisions and their reasons, how things work, known pitfalls and outcomes.
+Drop step-by-step noise and anything superseded by a later observation. Do not invent details.
+
+${observations}
+
+Respond with only this XML:
+<digest>
+  <title>Short title naming the area and what is known about it</title>
+  <summary>One or two paragraphs of durable knowledge</summary>
+  <facts>
+    <fact>Concise, self-contained fact</fact>
+  </facts>
+</digest>`;
+}
+
+function parseFactList(facts: string | null): string[] {
+  if (!facts) return [];
+  try {
+    const parsed = JSON.parse(facts);
+    return Array.isArray(parsed) ? parsed.filter((fact): fact is string => typeof fact === 'string') : [];
+  } catch (error) {
+    logger.debug('SDK', 'Observation facts are not a JSON array, skipping in digest prompt', {}, error as Error);
+    return [];
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Structured Output Schema Module
+ * JSON schema for observations, generated from the active mode, and a validator for it
+ *
+ * Used when CLAUDE_MEM_OUTPUT_FORMAT is 'json': the prompts embed the schema and
+ * parseObservationsJson validates responses against it. The validator covers only the
+ * keywords this module generates (type, enum, required, properties, items, lengths).
+ */
+
+import { logger } from '../utils/logger.js';
+import type { ModeConfig } from '../services/domain/types.js';
+
+/**
+ * Field limits enforced by the observation schema
+ */
+export const OBSERVATION_FIELD_LIMITS = {
+  observations: 20,
+  titleLength: 200,
+  subtitleLength: 300,
+  narrativeLength: 4000,
+  facts: 20,
+  factLength: 500,
+  concepts: 10,
+  files: 100,
+  pathLength: 500,
+} as const;
+
+type JsonSchemaType = 'object' | 'array' | 'string' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  maxItems?: number;
+}
+
+/**
+ * Build the JSON schema for one observation from the mode's types, concepts and placeholders
+ */
+export function buildObservationItemSchema(mode: ModeConfig): JsonSchema {
+  const limits = OBSERVATION_FIELD_LIMITS;
+  const stringList = (maxItems: number, maxLength: number, description: string): JsonSchema => ({
+    type: 'array',
+    description,
+    maxItems,
+    items: { type: 'string', minLength: 1, maxLength }
+  });
+
+  return {
+    type: 'object',
+    required: ['type', 'title'],
+    additionalProperties: false,
+    properties: {
+      type: {
+        type: 'string',
+        description: mode.prompts.type_guidance,
+        enum: mode.observation_types.map(t => t.id)
+      },
+      title: { type: 'string', description: mode.prompts.xml_title_placeholder, minLength: 1, maxLength: limits.titleLength },
+      subtitle: { type: ['string', 'null'], description: mode.prompts.xml_subtitle_placeholder, maxLength: limits.subtitleLength },
+      facts: stringList(limits.facts, limits.factLength, mode.prompts.xml_fact_placeholder),
+      narrative: { type: ['string', 'null'], description: mode.prompts.xml_narrative_placeholder, maxLength: limits.narrativeLength },
+      concepts: {
+        type: 'array',
+        description: mode.prompts.concept_guidance,
+        maxItems: limits.concepts,
+        items: { type: 'string', enum: mode.observation_concepts.map(c => c.id) }
+      },
+      files_read: stringList(limits.files, limits.pathLength, mode.prompts.xml_file_placeholder),
+      files_modified: stringList(limits.files, limits.pathLength, mode.prompts.xml_file_placeholder)
+    }
+  };
+}
+
+/**
+ * Build the JSON schema for a complete response: { "observations": [...] }
+ */
+export function buildObservationSchema(mode: ModeConfig): JsonSchema {
+  return {
+    type: 'object',
+    required: ['observations'],
+    additionalProperties: false,
+    properties: {
+      observations: {
+        type: 'array',
+        description: 'Observations for the tool use above; an empty array when nothing is worth recording',
+        maxItems: OBSERVATION_FIELD_LIMITS.observations,
+        items: buildObservationItemSchema(mode)
+      }
+    }
+  };
+}
+
+/**
+ * Validate a value against a schema built by this module
+ * @returns One message per violation, prefixed with the JSON path (empty when valid)
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = jsonTypeOf(value);
+    if (!allowed.includes(actual as JsonSchemaType)) {
+      return [`${path}: expected ${allowed.join(' or ')}, got ${actual}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(`${path}: "${value}" is not one of ${schema.enum.join(', ')}`);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must not be empty`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (jsonTypeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: required`);
+      }
+    }
+    for (const [key, fieldValue] of Object.entries(record)) {
+      const fieldSchema = schema.properties?.[key];
+      if (fieldSchema) {
+        errors.push(...validateAgainstSchema(fieldValue, fieldSchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: unknown field`);
+      }
+    }
+  }
+
+  if (errors.length > 0 && path === '$') {
+    logger.debug('PARSER', 'Schema validation failed', { errorCount: errors.length });
+  }
+  return errors;
+}
+
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
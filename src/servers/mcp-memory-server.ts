@@ -0,0 +1,507 @@
+/**
+ * Claude-mem MCP server definition - tools, resources and prompts
+ *
+ * Transport-independent: the stdio server (mcp-server.ts) and the worker's streamable HTTP
+ * endpoint (/mcp, see McpRoutes.ts) both build their server with createMemoryMcpServer().
+ * All business logic stays in the Worker HTTP API; handlers here only call it.
+ */
+
+// Version injected at build time by esbuild define
+declare const __DEFAULT_PACKAGE_VERSION__: string;
+const packageVersion = typeof __DEFAULT_PACKAGE_VERSION__ !== 'undefined' ? __DEFAULT_PACKAGE_VERSION__ : '0.0.0-dev';
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+import {
+  SEARCH_PARAMS,
+  TIMELINE_PARAMS,
+  GET_OBSERVATIONS_PARAMS,
+  buildInputSchema
+} from '../services/worker/search/SearchParams.js';
+import {
+  RESOURCE_TEMPLATES,
+  RECENT_OBSERVATIONS_LIMIT,
+  PROMPTS,
+  parseResourceUri,
+  listProjectResources,
+  buildResumePrompt,
+  buildRecallPrompt
+} from './mcp-resources.js';
+
+type ToolResult = { content: Array<{ type: 'text'; text: string }>; isError?: boolean };
+
+export interface MemoryMcpServerOptions {
+  /** Worker HTTP API base URL */
+  workerBaseUrl: string;
+  /** Headers sent with every Worker request except the health check (auth token) */
+  workerHeaders?: Record<string, string>;
+  /** Project used when a tool or prompt omits one (null: the caller must pass it) */
+  defaultProject: string | null;
+  /** Hide and reject the tools that change memory (remember, forget, annotate) */
+  readOnly?: boolean;
+}
+
+/**
+ * Map tool names to Worker HTTP endpoints
+ */
+const TOOL_ENDPOINT_MAP: Record<string, string> = {
+  'search': '/api/search',
+  'timeline': '/api/timeline'
+};
+
+/**
+ * Map related() query kinds to Worker graph endpoints
+ */
+const GRAPH_QUERY_ENDPOINT_MAP: Record<string, string> = {
+  'co-changes': '/api/graph/co-changes',
+  'concepts': '/api/graph/concepts',
+  'decisions': '/api/graph/decisions',
+  'neighbors': '/api/graph/neighbors'
+};
+
+/**
+ * Tools that write to memory (unavailable on read-only connections)
+ */
+export const WRITE_TOOLS = ['remember', 'forget', 'annotate'];
+
+function errorResult(text: string): ToolResult {
+  return {
+    content: [{ type: 'text' as const, text }],
+    isError: true
+  };
+}
+
+/**
+ * Create an MCP server exposing claude-mem's tools, resources and prompts
+ * Connect it to a transport with server.connect()
+ */
+export function createMemoryMcpServer(options: MemoryMcpServerOptions): Server {
+  const workerBaseUrl = options.workerBaseUrl;
+  const workerHeaders = options.workerHeaders ?? {};
+
+  /**
+   * Call Worker HTTP API endpoint
+   */
+  async function callWorkerAPI(endpoint: string, params: Record<string, any>): Promise<ToolResult> {
+    logger.debug('SYSTEM', '→ Worker API', undefined, { endpoint, params });
+
+    try {
+      const searchParams = new URLSearchParams();
+
+      // Convert params to query string
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) {
+          searchParams.append(key, String(value));
+        }
+      }
+
+      const url = `${workerBaseUrl}${endpoint}?${searchParams}`;
+      const response = await fetch(url, { headers: workerHeaders });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Worker API error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json() as ToolResult;
+
+      logger.debug('SYSTEM', '← Worker API success', undefined, { endpoint });
+
+      // Worker returns { content: [...] } format directly
+      return data;
+    } catch (error) {
+      logger.error('SYSTEM', '← Worker API error', { endpoint }, error as Error);
+      return errorResult(`Error calling Worker API: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Call Worker HTTP API endpoint that returns raw JSON (wrapped in MCP format here)
+   */
+  async function callWorkerAPIJson(endpoint: string, params: Record<string, any>): Promise<ToolResult> {
+    logger.debug('HTTP', 'Worker API request (GET JSON)', undefined, { endpoint });
+
+    try {
+      const searchParams = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== null) {
+          searchParams.append(key, String(value));
+        }
+      }
+
+      const response = await fetch(`${workerBaseUrl}${endpoint}?${searchParams}`, { headers: workerHeaders });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Worker API error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json();
+
+      logger.debug('HTTP', 'Worker API success (GET JSON)', undefined, { endpoint });
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify(data, null, 2)
+        }]
+      };
+    } catch (error) {
+      logger.error('HTTP', 'Worker API error (GET JSON)', { endpoint }, error as Error);
+      return errorResult(`Error calling Worker API: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Call Worker HTTP API with POST body
+   */
+  async function callWorkerAPIPost(endpoint: string, body: Record<string, any>): Promise<ToolResult> {
+    logger.debug('HTTP', 'Worker API request (POST)', undefined, { endpoint });
+
+    try {
+      const url = `${workerBaseUrl}${endpoint}`;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          ...workerHeaders,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Worker API error (${response.status}): ${errorText}`);
+      }
+
+      const data = await response.json();
+
+      logger.debug('HTTP', 'Worker API success (POST)', undefined, { endpoint });
+
+      // Wrap raw data in MCP format
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify(data, null, 2)
+        }]
+      };
+    } catch (error) {
+      logger.error('HTTP', 'Worker API error (POST)', { endpoint }, error as Error);
+      return errorResult(`Error calling Worker API: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Fetch a Worker endpoint's raw response body (resources and prompts)
+   * @throws When the Worker is unreachable or returns an error status
+   */
+  async function fetchWorkerText(endpoint: string, params: Record<string, string | number> = {}): Promise<string> {
+    const searchParams = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      searchParams.append(key, String(value));
+    }
+    const query = searchParams.toString();
+
+    const response = await fetch(`${workerBaseUrl}${endpoint}${query ? `?${query}` : ''}`, { headers: workerHeaders });
+    if (!response.ok) {
+      throw new Error(`Worker API error (${response.status}): ${await response.text()}`);
+    }
+    return await response.text();
+  }
+
+  /**
+   * Project from the arguments, else the connection's default
+   * @throws When neither is available
+   */
+  function resolveProject(project: unknown): string {
+    if (typeof project === 'string' && project.trim()) return project.trim();
+    if (options.defaultProject) return options.defaultProject;
+    throw new Error('project is required (this connection has no default project)');
+  }
+
+  /**
+   * Tool definitions with HTTP-based handlers
+   * Minimal descriptions - use help() tool with operation parameter for detailed docs
+   */
+  const allTools = [
+    {
+      name: '__IMPORTANT',
+      description: `3-LAYER WORKFLOW (ALWAYS FOLLOW):
+1. search(query) → Get index with IDs (~50-100 tokens/result)
+2. timeline(anchor=ID) → Get context around interesting results
+3. get_observations([IDs]) → Fetch full details ONLY for filtered IDs
+NEVER fetch full details without filtering first. 10x token savings.`,
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      },
+      handler: async () => ({
+        content: [{
+          type: 'text' as const,
+          text: `# Memory Search Workflow
+
+**3-Layer Pattern (ALWAYS follow this):**
+
+1. **Search** - Get index of results with IDs
+   \`search(query="...", limit=20, project="...")\`
+   Returns: Table with IDs, titles, dates (~50-100 tokens/result)
+
+2. **Timeline** - Get context around interesting results
+   \`timeline(anchor=<ID>, depth_before=3, depth_after=3)\`
+   Returns: Chronological context showing what was happening
+
+3. **Fetch** - Get full details ONLY for relevant IDs
+   \`get_observations(ids=[...])\`  # ALWAYS batch for 2+ items
+   Returns: Complete details (~500-1000 tokens/result)
+
+**Why:** 10x token savings. Never fetch full details without filtering first.`
+        }]
+      })
+    },
+    {
+      name: 'search',
+      description: 'Step 1: Search memory. Returns index with IDs.',
+      inputSchema: buildInputSchema(SEARCH_PARAMS),
+      handler: async (args: any) => {
+        const endpoint = TOOL_ENDPOINT_MAP['search'];
+        return await callWorkerAPI(endpoint, args);
+      }
+    },
+    {
+      name: 'timeline',
+      description: 'Step 2: Get context around results. Pass anchor (observation ID) OR query (finds the anchor automatically).',
+      inputSchema: buildInputSchema(TIMELINE_PARAMS),
+      handler: async (args: any) => {
+        const endpoint = TOOL_ENDPOINT_MAP['timeline'];
+        return await callWorkerAPI(endpoint, args);
+      }
+    },
+    {
+      name: 'get_observations',
+      description: 'Step 3: Fetch full details for filtered IDs. Always batch 2+ IDs in one call.',
+      inputSchema: buildInputSchema(GET_OBSERVATIONS_PARAMS, ['ids']),
+      handler: async (args: any) => {
+        return await callWorkerAPIPost('/api/observations/batch', args);
+      }
+    },
+    {
+      name: 'related',
+      description: 'Explore how memories connect through files and concepts. query: co-changes (files changed together with file) | concepts (concepts around folder) | decisions (decisions that affected file) | neighbors (graph around node)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            enum: Object.keys(GRAPH_QUERY_ENDPOINT_MAP),
+            description: 'Which graph question to answer (required)'
+          },
+          file: { type: 'string', description: 'File path (co-changes, decisions)' },
+          folder: { type: 'string', description: 'Folder path (concepts)' },
+          node: { type: 'string', description: 'Graph node (neighbors): file:<path>, concept:<name> or observation:<id>' },
+          depth: { type: 'integer', minimum: 1, maximum: 3, description: 'Hops to traverse (default 1)' },
+          limit: { type: 'integer', minimum: 1, description: 'Maximum results (default 20)' },
+          project: { type: 'string', description: 'Project name' }
+        },
+        required: ['query'],
+        additionalProperties: false
+      },
+      handler: async (args: any) => {
+        const { query, ...params } = args;
+        const endpoint = GRAPH_QUERY_ENDPOINT_MAP[query];
+        if (!endpoint) {
+          return errorResult(`Unknown related query: ${query}. Use one of: ${Object.keys(GRAPH_QUERY_ENDPOINT_MAP).join(', ')}`);
+        }
+        return await callWorkerAPIJson(endpoint, params);
+      }
+    },
+    {
+      name: 'remember',
+      description: 'Save an explicit memory for this project (shown in future session context, marked as remembered). Params: title (required), narrative, type, facts, concepts, files, project (defaults to current project)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', description: 'Short title of the memory (required)' },
+          narrative: { type: 'string', description: 'What to remember and why' },
+          type: { type: 'string', description: 'Observation type (default: discovery)' },
+          facts: { type: 'array', items: { type: 'string' }, description: 'Standalone facts' },
+          concepts: { type: 'array', items: { type: 'string' }, description: 'Concept tags' },
+          files: { type: 'array', items: { type: 'string' }, description: 'Related file paths' },
+          project: { type: 'string', description: 'Project name (defaults to the current project)' }
+        },
+        required: ['title'],
+        additionalProperties: false
+      },
+      handler: async (args: any) => {
+        return await callWorkerAPIPost('/api/memories', {
+          ...args,
+          project: resolveProject(args.project)
+        });
+      }
+    },
+    {
+      name: 'forget',
+      description: 'Remove an observation from search and context by ID (the record is kept, marked forgotten). Params: id (required), reason (required)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Observation ID to forget (required)' },
+          reason: { type: 'string', description: 'Why this memory is wrong or no longer relevant (required)' }
+        },
+        required: ['id', 'reason'],
+        additionalProperties: false
+      },
+      handler: async (args: any) => {
+        return await callWorkerAPIPost(`/api/observation/${encodeURIComponent(args.id)}/forget`, {
+          reason: args.reason,
+          changedBy: 'mcp'
+        });
+      }
+    },
+    {
+      name: 'annotate',
+      description: 'Attach a note to an existing observation (correction, follow-up, caveat). Params: id (required), note (required)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Observation ID to annotate (required)' },
+          note: { type: 'string', description: 'Note to attach (required)' }
+        },
+        required: ['id', 'note'],
+        additionalProperties: false
+      },
+      handler: async (args: any) => {
+        return await callWorkerAPIPost(`/api/observation/${encodeURIComponent(args.id)}/annotations`, {
+          note: args.note,
+          author: 'mcp'
+        });
+      }
+    }
+  ];
+  const tools = options.readOnly ? allTools.filter(tool => !WRITE_TOOLS.includes(tool.name)) : allTools;
+
+  // Create the MCP server
+  const server = new Server(
+    {
+      name: 'mcp-search-server',
+      version: packageVersion,
+    },
+    {
+      capabilities: {
+        tools: {},  // Exposes tools capability (handled by ListToolsRequestSchema and CallToolRequestSchema)
+        resources: {},  // claude-mem:// resources (see mcp-resources.ts)
+        prompts: {},
+      },
+    }
+  );
+
+  // Register tools/list handler
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema
+      }))
+    };
+  });
+
+  // Register tools/call handler
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const tool = tools.find(t => t.name === request.params.name);
+
+    if (!tool) {
+      if (options.readOnly && WRITE_TOOLS.includes(request.params.name)) {
+        return errorResult(`Tool ${request.params.name} requires write access`);
+      }
+      throw new Error(`Unknown tool: ${request.params.name}`);
+    }
+
+    try {
+      return await tool.handler(request.params.arguments || {});
+    } catch (error) {
+      logger.error('SYSTEM', 'Tool execution failed', { tool: request.params.name }, error as Error);
+      return errorResult(`Tool execution failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  // Register resources/list handler: recent observations and context per project
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const { projects } = JSON.parse(await fetchWorkerText('/api/projects')) as { projects: string[] };
+    return { resources: listProjectResources(projects) };
+  });
+
+  // Register resources/templates/list handler
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  // Register resources/read handler
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    const resource = parseResourceUri(uri);
+
+    if (!resource) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    switch (resource.kind) {
+      case 'recent': {
+        const { items } = JSON.parse(await fetchWorkerText('/api/observations', {
+          project: resource.project,
+          limit: RECENT_OBSERVATIONS_LIMIT
+        }));
+        return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(items, null, 2) }] };
+      }
+      case 'context': {
+        const text = await fetchWorkerText('/api/context/inject', { projects: resource.project });
+        return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+      }
+      case 'observation': {
+        const text = await fetchWorkerText(`/api/observation/${resource.id}`);
+        return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(JSON.parse(text), null, 2) }] };
+      }
+    }
+  });
+
+  // Register prompts/list handler
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  // Register prompts/get handler
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const args = request.params.arguments ?? {};
+    const project = resolveProject(args.project);
+
+    let text: string;
+    switch (request.params.name) {
+      case 'resume':
+        text = buildResumePrompt(project, await fetchWorkerText('/api/context/inject', { projects: project }));
+        break;
+      case 'recall':
+        if (!args.topic) {
+          throw new Error('Missing required argument: topic');
+        }
+        text = buildRecallPrompt(args.topic, project);
+        break;
+      default:
+        throw new Error(`Unknown prompt: ${request.params.name}`);
+    }
+
+    return {
+      description: PROMPTS.find(prompt => prompt.name === request.params.name)?.description,
+      messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }]
+    };
+  });
+
+  return server;
+}
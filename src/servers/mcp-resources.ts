@@ -0,0 +1,130 @@
+/**
+ * MCP resources and prompts for the claude-mem MCP server
+ *
+ * Resources expose memory as readable documents:
+ * - claude-mem://project/<name>/recent   - latest observations in a project (JSON)
+ * - claude-mem://project/<name>/context  - the context injected at session start (Markdown)
+ * - claude-mem://observation/<id>        - one observation (JSON)
+ *
+ * Prompts package common memory workflows ("resume where I left off", "what do we know about X").
+ */
+
+import { logger } from '../utils/logger.js';
+
+export const RESOURCE_SCHEME = 'claude-mem';
+export const RECENT_OBSERVATIONS_LIMIT = 20;
+
+/**
+ * A resource URI resolved to the worker data it reads
+ */
+export type MemoryResource =
+  | { kind: 'recent'; project: string }
+  | { kind: 'context'; project: string }
+  | { kind: 'observation'; id: number };
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://project/{project}/recent`,
+    name: 'Recent observations',
+    description: `The ${RECENT_OBSERVATIONS_LIMIT} most recent observations in a project`,
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://project/{project}/context`,
+    name: 'Session context',
+    description: 'The memory context injected at the start of a session in a project',
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://observation/{id}`,
+    name: 'Observation',
+    description: 'A single observation with all fields',
+    mimeType: 'application/json'
+  }
+];
+
+/**
+ * Resolve a claude-mem:// URI
+ * @returns null for URIs this server doesn't serve
+ */
+export function parseResourceUri(uri: string): MemoryResource | null {
+  const prefix = `${RESOURCE_SCHEME}://`;
+  if (!uri.startsWith(prefix)) return null;
+
+  const path = uri.slice(prefix.length);
+
+  const projectMatch = path.match(/^project\/(.+)\/(recent|context)$/);
+  if (projectMatch) {
+    let project: string;
+    try {
+      project = decodeURIComponent(projectMatch[1]);
+    } catch {
+      logger.debug('SYSTEM', 'Malformed project in resource URI', { uri });
+      return null;
+    }
+    return { kind: projectMatch[2] as 'recent' | 'context', project };
+  }
+
+  const observationMatch = path.match(/^observation\/(\d+)$/);
+  if (observationMatch) {
+    return { kind: 'observation', id: parseInt(observationMatch[1], 10) };
+  }
+
+  return null;
+}
+
+/**
+ * Concrete resources for resources/list: recent observations and context for each project
+ */
+export function listProjectResources(projects: string[]): Array<{ uri: string; name: string; mimeType: string }> {
+  return projects.flatMap(project => {
+    const base = `${RESOURCE_SCHEME}://project/${encodeURIComponent(project)}`;
+    return [
+      { uri: `${base}/recent`, name: `${project}: recent observations`, mimeType: 'application/json' },
+      { uri: `${base}/context`, name: `${project}: session context`, mimeType: 'text/markdown' }
+    ];
+  });
+}
+
+export const PROMPTS = [
+  {
+    name: 'resume',
+    description: 'Resume where I left off: summarize the last session and the open next steps',
+    arguments: [
+      { name: 'project', description: 'Project name (defaults to the current project)', required: false }
+    ]
+  },
+  {
+    name: 'recall',
+    description: 'Recall what memory knows about a topic using the search workflow',
+    arguments: [
+      { name: 'topic', description: 'What to look up', required: true },
+      { name: 'project', description: 'Project name (defaults to the current project)', required: false }
+    ]
+  }
+];
+
+/**
+ * Prompt text for "resume where I left off", with the project's session context embedded
+ */
+export function buildResumePrompt(project: string, context: string): string {
+  return `I'm resuming work on "${project}". This is what claude-mem remembers from recent sessions:
+
+${context.trim() || '(no memories recorded yet)'}
+
+Summarize where I left off: what I was working on last, what was finished, and what is still open. Then list the concrete next steps and ask which one to continue with. Use the claude-mem search, timeline and get_observations tools if you need more detail on an item.`;
+}
+
+/**
+ * Prompt text for recalling a topic through the 3-layer search workflow
+ */
+export function buildRecallPrompt(topic: string, project: string): string {
+  return `What do we know about "${topic}" in project "${project}"?
+
+Use the claude-mem tools in order:
+1. search(query="${topic}", project="${project}") to get an index of matching memories
+2. timeline(anchor=<ID>) around the most relevant results
+3. get_observations(ids=[...]) only for the observations you need in full
+
+Then answer with what was decided, what was tried, and anything that is still unresolved, citing observation IDs.`;
+}
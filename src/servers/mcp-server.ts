@@ -3,13 +3,9 @@
  *
  * Refactored from 2,718 lines to ~600-800 lines
  * Delegates all business logic to Worker HTTP API at localhost:37777
- * Maintains MCP protocol handling and tool schemas
+ * Serves the tools, resources and prompts from mcp-memory-server.ts over stdio
  */
 
-// Version injected at build time by esbuild define
-declare const __DEFAULT_PACKAGE_VERSION__: string;
-const packageVersion = typeof __DEFAULT_PACKAGE_VERSION__ !== 'undefined' ? __DEFAULT_PACKAGE_VERSION__ : '0.0.0-dev';
-
 // Import logger first
 import { logger } from '../utils/logger.js';
 
@@ -21,120 +17,17 @@ console['log'] = (...args: any[]) => {
   logger.error('CONSOLE', 'Intercepted console output (MCP protocol protection)', undefined, { args });
 };
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
-import { getWorkerPort, getWorkerHost } from '../shared/worker-utils.js';
+import { getWorkerBaseUrl, getWorkerAuthHeaders } from '../shared/worker-utils.js';
+import { getProjectName } from '../utils/project-name.js';
+import { createMemoryMcpServer } from './mcp-memory-server.js';
 
 /**
  * Worker HTTP API configuration
+ * Local worker by default; CLAUDE_MEM_WORKER_URL and CLAUDE_MEM_WORKER_TOKEN select a remote one
  */
-const WORKER_PORT = getWorkerPort();
-const WORKER_HOST = getWorkerHost();
-const WORKER_BASE_URL = `http://${WORKER_HOST}:${WORKER_PORT}`;
-
-/**
- * Map tool names to Worker HTTP endpoints
- */
-const TOOL_ENDPOINT_MAP: Record<string, string> = {
-  'search': '/api/search',
-  'timeline': '/api/timeline'
-};
-
-/**
- * Call Worker HTTP API endpoint
- */
-async function callWorkerAPI(
-  endpoint: string,
-  params: Record<string, any>
-): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }> {
-  logger.debug('SYSTEM', '→ Worker API', undefined, { endpoint, params });
-
-  try {
-    const searchParams = new URLSearchParams();
-
-    // Convert params to query string
-    for (const [key, value] of Object.entries(params)) {
-      if (value !== undefined && value !== null) {
-        searchParams.append(key, String(value));
-      }
-    }
-
-    const url = `${WORKER_BASE_URL}${endpoint}?${searchParams}`;
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Worker API error (${response.status}): ${errorText}`);
-    }
-
-    const data = await response.json() as { content: Array<{ type: 'text'; text: string }>; isError?: boolean };
-
-    logger.debug('SYSTEM', '← Worker API success', undefined, { endpoint });
-
-    // Worker returns { content: [...] } format directly
-    return data;
-  } catch (error) {
-    logger.error('SYSTEM', '← Worker API error', { endpoint }, error as Error);
-    return {
-      content: [{
-        type: 'text' as const,
-        text: `Error calling Worker API: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
-  }
-}
-
-/**
- * Call Worker HTTP API with POST body
- */
-async function callWorkerAPIPost(
-  endpoint: string,
-  body: Record<string, any>
-): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }> {
-  logger.debug('HTTP', 'Worker API request (POST)', undefined, { endpoint });
-
-  try {
-    const url = `${WORKER_BASE_URL}${endpoint}`;
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(body)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Worker API error (${response.status}): ${errorText}`);
-    }
-
-    const data = await response.json();
-
-    logger.debug('HTTP', 'Worker API success (POST)', undefined, { endpoint });
-
-    // Wrap raw data in MCP format
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify(data, null, 2)
-      }]
-    };
-  } catch (error) {
-    logger.error('HTTP', 'Worker API error (POST)', { endpoint }, error as Error);
-    return {
-      content: [{
-        type: 'text' as const,
-        text: `Error calling Worker API: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
-  }
-}
+const WORKER_BASE_URL = getWorkerBaseUrl();
+const WORKER_AUTH_HEADERS = getWorkerAuthHeaders();
 
 /**
  * Verify Worker is accessible
@@ -150,136 +43,11 @@ async function verifyWorkerConnection(): Promise<boolean> {
   }
 }
 
-/**
- * Tool definitions with HTTP-based handlers
- * Minimal descriptions - use help() tool with operation parameter for detailed docs
- */
-const tools = [
-  {
-    name: '__IMPORTANT',
-    description: `3-LAYER WORKFLOW (ALWAYS FOLLOW):
-1. search(query) → Get index with IDs (~50-100 tokens/result)
-2. timeline(anchor=ID) → Get context around interesting results
-3. get_observations([IDs]) → Fetch full details ONLY for filtered IDs
-NEVER fetch full details without filtering first. 10x token savings.`,
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    },
-    handler: async () => ({
-      content: [{
-        type: 'text' as const,
-        text: `# Memory Search Workflow
-
-**3-Layer Pattern (ALWAYS follow this):**
-
-1. **Search** - Get index of results with IDs
-   \`search(query="...", limit=20, project="...")\`
-   Returns: Table with IDs, titles, dates (~50-100 tokens/result)
-
-2. **Timeline** - Get context around interesting results
-   \`timeline(anchor=<ID>, depth_before=3, depth_after=3)\`
-   Returns: Chronological context showing what was happening
-
-3. **Fetch** - Get full details ONLY for relevant IDs
-   \`get_observations(ids=[...])\`  # ALWAYS batch for 2+ items
-   Returns: Complete details (~500-1000 tokens/result)
-
-**Why:** 10x token savings. Never fetch full details without filtering first.`
-      }]
-    })
-  },
-  {
-    name: 'search',
-    description: 'Step 1: Search memory. Returns index with IDs. Params: query, limit, project, type, obs_type, dateStart, dateEnd, offset, orderBy',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-      additionalProperties: true
-    },
-    handler: async (args: any) => {
-      const endpoint = TOOL_ENDPOINT_MAP['search'];
-      return await callWorkerAPI(endpoint, args);
-    }
-  },
-  {
-    name: 'timeline',
-    description: 'Step 2: Get context around results. Params: anchor (observation ID) OR query (finds anchor automatically), depth_before, depth_after, project',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-      additionalProperties: true
-    },
-    handler: async (args: any) => {
-      const endpoint = TOOL_ENDPOINT_MAP['timeline'];
-      return await callWorkerAPI(endpoint, args);
-    }
-  },
-  {
-    name: 'get_observations',
-    description: 'Step 3: Fetch full details for filtered IDs. Params: ids (array of observation IDs, required), orderBy, limit, project',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        ids: {
-          type: 'array',
-          items: { type: 'number' },
-          description: 'Array of observation IDs to fetch (required)'
-        }
-      },
-      required: ['ids'],
-      additionalProperties: true
-    },
-    handler: async (args: any) => {
-      return await callWorkerAPIPost('/api/observations/batch', args);
-    }
-  }
-];
-
-// Create the MCP server
-const server = new Server(
-  {
-    name: 'mcp-search-server',
-    version: packageVersion,
-  },
-  {
-    capabilities: {
-      tools: {},  // Exposes tools capability (handled by ListToolsRequestSchema and CallToolRequestSchema)
-    },
-  }
-);
-
-// Register tools/list handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: tools.map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema
-    }))
-  };
-});
-
-// Register tools/call handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const tool = tools.find(t => t.name === request.params.name);
-
-  if (!tool) {
-    throw new Error(`Unknown tool: ${request.params.name}`);
-  }
-
-  try {
-    return await tool.handler(request.params.arguments || {});
-  } catch (error) {
-    logger.error('SYSTEM', 'Tool execution failed', { tool: request.params.name }, error as Error);
-    return {
-      content: [{
-        type: 'text' as const,
-        text: `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
-      }],
-      isError: true
-    };
-  }
+// Tools, resources and prompts (shared with the worker's /mcp endpoint)
+const server = createMemoryMcpServer({
+  workerBaseUrl: WORKER_BASE_URL,
+  workerHeaders: WORKER_AUTH_HEADERS,
+  defaultProject: getProjectName(process.cwd())
 });
 
 // Cleanup function
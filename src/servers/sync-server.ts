@@ -0,0 +1,306 @@
+/**
+ * Claude-mem Team Sync Server - reference implementation
+ *
+ * A small HTTP service that relays shared observations and summaries between team members.
+ * Records are stored in a single SQLite file, keyed by sync_id, and handed out in the
+ * order they were last written so clients can pull incrementally with a cursor.
+ *
+ * Every team member has their own bearer token; a push is stored under the author its token
+ * belongs to, never under a name taken from the request body.
+ *
+ * Conflict rules:
+ * - A sync_id belongs to the author who first pushed it; pushes from anyone else are refused
+ * - A higher revision replaces a lower one; equal or older revisions are refused as stale
+ * - Records that still contain <private> tags are refused
+ *
+ * Configuration (environment):
+ * - CLAUDE_MEM_SYNC_SERVER_PORT (default 37780)
+ * - CLAUDE_MEM_SYNC_SERVER_HOST (default 0.0.0.0)
+ * - CLAUDE_MEM_SYNC_SERVER_DB (default ~/.claude-mem/sync-server.db)
+ * - CLAUDE_MEM_SYNC_SERVER_USERS (per-author tokens as `alice:token-a,bob:token-b`; strongly recommended)
+ */
+
+import express, { Application, NextFunction, Request, Response } from 'express';
+import { Database } from 'bun:sqlite';
+import { timingSafeEqual } from 'crypto';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { hasPrivateContent } from '../utils/tag-stripping.js';
+import { DATA_DIR } from '../shared/paths.js';
+import { SYNC_PULL_LIMIT } from '../services/sqlite/teamsync/types.js';
+import type {
+  SyncConflict,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncPushResponse,
+  SyncRecord
+} from '../services/sqlite/teamsync/types.js';
+
+const DEFAULT_PORT = 37780;
+const DEFAULT_HOST = '0.0.0.0';
+const DEFAULT_DB_PATH = path.join(DATA_DIR, 'sync-server.db');
+
+/**
+ * Storage for shared records
+ */
+export class SyncServerStore {
+  readonly db: Database;
+
+  constructor(dbPath: string = DEFAULT_DB_PATH) {
+    if (dbPath !== ':memory:') {
+      mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath, { create: true, readwrite: true });
+    this.db.run('PRAGMA journal_mode = WAL');
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS sync_records (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        sync_id TEXT UNIQUE NOT NULL,
+        project TEXT NOT NULL,
+        author TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        revision INTEGER NOT NULL,
+        record_json TEXT NOT NULL,
+        received_at_epoch INTEGER NOT NULL
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_sync_records_project_seq ON sync_records(project, seq)');
+  }
+
+  /**
+   * Store pushed records, applying the conflict rules
+   */
+  push(request: SyncPushRequest): SyncPushResponse {
+    const accepted: string[] = [];
+    const conflicts: SyncConflict[] = [];
+
+    const store = this.db.transaction(() => {
+      for (const record of request.records) {
+        const conflict = this.checkConflict(request, record);
+        if (conflict) {
+          conflicts.push({ sync_id: record.sync_id, reason: conflict });
+          continue;
+        }
+
+        // Delete + insert moves the record to a new seq so pulls see the update
+        this.db.prepare('DELETE FROM sync_records WHERE sync_id = ?').run(record.sync_id);
+        this.db.prepare(`
+          INSERT INTO sync_records (sync_id, project, author, kind, revision, record_json, received_at_epoch)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          record.sync_id,
+          request.project,
+          request.author,
+          record.kind,
+          record.revision,
+          JSON.stringify({ ...record, project: request.project, author: request.author }),
+          Date.now()
+        );
+        accepted.push(record.sync_id);
+      }
+    });
+    store();
+
+    logger.info('SYNC', 'Records pushed', {
+      project: request.project,
+      author: request.author,
+      accepted: accepted.length,
+      conflicts: conflicts.length
+    });
+
+    return { accepted, conflicts };
+  }
+
+  /**
+   * Records of a project written after the given cursor, oldest first
+   */
+  pull(project: string, since: number, limit: number = SYNC_PULL_LIMIT): SyncPullResponse {
+    const rows = this.db.prepare(`
+      SELECT seq, record_json FROM sync_records
+      WHERE project = ? AND seq > ?
+      ORDER BY seq
+      LIMIT ?
+    `).all(project, since, limit + 1) as Array<{ seq: number; record_json: string }>;
+
+    const page = rows.slice(0, limit);
+    return {
+      records: page.map(row => JSON.parse(row.record_json) as SyncRecord),
+      cursor: page.length > 0 ? page[page.length - 1].seq : since,
+      hasMore: rows.length > limit
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private checkConflict(request: SyncPushRequest, record: SyncRecord): SyncConflict['reason'] | null {
+    const fieldValues = Object.values(record.fields ?? {}).filter((value): value is string => typeof value === 'string');
+    if (fieldValues.some(hasPrivateContent)) {
+      return 'private_content';
+    }
+
+    const existing = this.db.prepare('SELECT author, revision FROM sync_records WHERE sync_id = ?')
+      .get(record.sync_id) as { author: string; revision: number } | null;
+    if (!existing) return null;
+    if (existing.author !== request.author) return 'author_mismatch';
+    if (existing.revision >= record.revision) return 'stale_revision';
+    return null;
+  }
+}
+
+/**
+ * Parse per-author tokens from `alice:token-a,bob:token-b`
+ * Entries without an author or token are ignored.
+ * @returns Map of author to token
+ */
+export function parseSyncUsers(value: string): Map<string, string> {
+  const users = new Map<string, string>();
+  for (const entry of value.split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator === -1) continue;
+    const author = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+    if (author && token) {
+      users.set(author, token);
+    }
+  }
+  return users;
+}
+
+/**
+ * Validate a push request body
+ * @returns Error message, or null when valid
+ */
+function validatePushRequest(body: any): string | null {
+  if (!body || typeof body.project !== 'string' || !body.project) return 'project is required';
+  if (typeof body.author !== 'string' || !body.author) return 'author is required';
+  if (!Array.isArray(body.records)) return 'records must be an array';
+
+  for (const record of body.records) {
+    if (!record || typeof record.sync_id !== 'string' || !record.sync_id) return 'every record needs a sync_id';
+    if (record.kind !== 'observation' && record.kind !== 'summary') return `invalid kind for record ${record.sync_id}`;
+    if (typeof record.revision !== 'number') return `invalid revision for record ${record.sync_id}`;
+    if (!record.fields || typeof record.fields !== 'object') return `missing fields for record ${record.sync_id}`;
+  }
+  return null;
+}
+
+/**
+ * Bearer token check against every author's token using constant-time comparisons
+ * Sets res.locals.author to the author the token belongs to.
+ */
+function requireUserToken(users: ReadonlyMap<string, string>) {
+  const expected = Array.from(users, ([author, token]) => ({ author, header: Buffer.from(`Bearer ${token}`) }));
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const provided = Buffer.from(req.headers.authorization ?? '');
+    let author: string | null = null;
+    // Compare against every entry so the response time does not reveal which author matched
+    for (const entry of expected) {
+      if (provided.length === entry.header.length && timingSafeEqual(provided, entry.header)) {
+        author = entry.author;
+      }
+    }
+    if (!author) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    res.locals.author = author;
+    next();
+  };
+}
+
+/**
+ * Create the sync server's Express app
+ * @param users - Author to bearer token; when empty the API is open to anyone who can reach it
+ *   and pushes are stored under the author named in the request body
+ */
+export function createSyncServerApp(store: SyncServerStore, users: ReadonlyMap<string, string> = new Map()): Application {
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+
+  app.get('/health', (_req: Request, res: Response) => {
+    res.json({ status: 'ok' });
+  });
+
+  if (users.size > 0) {
+    app.use('/api/sync', requireUserToken(users));
+  }
+
+  /**
+   * Push records as the token's author
+   * POST /api/sync/push
+   * Body: { project, author?, records: SyncRecord[] } (author must match the token when given)
+   */
+  app.post('/api/sync/push', (req: Request, res: Response) => {
+    const tokenAuthor = res.locals.author as string | undefined;
+    if (tokenAuthor && req.body?.author !== undefined && req.body.author !== tokenAuthor) {
+      res.status(403).json({ error: `Token belongs to ${tokenAuthor}, not ${req.body.author}` });
+      return;
+    }
+
+    const body = tokenAuthor ? { ...req.body, author: tokenAuthor } : req.body;
+    const error = validatePushRequest(body);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json(store.push(body as SyncPushRequest));
+  });
+
+  /**
+   * Pull records written after a cursor
+   * GET /api/sync/pull?project=...&since=0&limit=500
+   */
+  app.get('/api/sync/pull', (req: Request, res: Response) => {
+    const project = req.query.project;
+    if (typeof project !== 'string' || !project) {
+      res.status(400).json({ error: 'project is required' });
+      return;
+    }
+
+    const since = parseInt(String(req.query.since ?? '0'), 10);
+    const limit = parseInt(String(req.query.limit ?? SYNC_PULL_LIMIT), 10);
+    res.json(store.pull(
+      project,
+      Number.isFinite(since) && since > 0 ? since : 0,
+      Number.isFinite(limit) && limit > 0 ? Math.min(limit, SYNC_PULL_LIMIT) : SYNC_PULL_LIMIT
+    ));
+  });
+
+  return app;
+}
+
+function main(): void {
+  const port = parseInt(process.env.CLAUDE_MEM_SYNC_SERVER_PORT ?? '', 10) || DEFAULT_PORT;
+  const host = process.env.CLAUDE_MEM_SYNC_SERVER_HOST || DEFAULT_HOST;
+  const dbPath = process.env.CLAUDE_MEM_SYNC_SERVER_DB || DEFAULT_DB_PATH;
+  const users = parseSyncUsers(process.env.CLAUDE_MEM_SYNC_SERVER_USERS ?? '');
+
+  if (users.size === 0) {
+    logger.warn('SYNC', 'CLAUDE_MEM_SYNC_SERVER_USERS is not set - anyone who can reach this server can read and write shared memories under any author name');
+  }
+
+  const store = new SyncServerStore(dbPath);
+  const server = createSyncServerApp(store, users).listen(port, host, () => {
+    logger.info('SYNC', 'Team sync server started', { host, port, dbPath, authors: users.size });
+  });
+
+  const shutdown = () => {
+    server.close();
+    store.close();
+    process.exit(0);
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+// Check if running as main module in both ESM and CommonJS
+const isMainModule = typeof require !== 'undefined' && typeof module !== 'undefined'
+  ? require.main === module || !module.parent
+  : import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith('sync-server');
+
+if (isMainModule) {
+  main();
+}
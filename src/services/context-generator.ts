@@ -9,11 +9,12 @@
  * - src/services/context/ContextConfigLoader.ts - Configuration loading
  * - src/services/context/TokenCalculator.ts - Token economics
  * - src/services/context/ObservationCompiler.ts - Data retrieval
+ * - src/services/context/RelevanceScorer.ts - Relevance ranking
  * - src/services/context/formatters/ - Output formatting
  * - src/services/context/sections/ - Section rendering
  */
 import { logger } from '../utils/logger.js';
 
 // Re-export everything from the new context module
-export { generateContext } from './context/index.js';
-export type { ContextInput, ContextConfig } from './context/types.js';
+export { generateContext, generateContextWithScores } from './context/index.js';
+export type { ContextInput, ContextConfig, ObservationScore } from './context/types.js';
@@ -12,7 +12,8 @@ import { logger } from '../../utils/logger.js';
 import { getProjectName } from '../../utils/project-name.js';
 import { MARKETPLACE_ROOT } from '../../shared/paths.js';
 
-import type { ContextInput, ContextConfig, Observation, SessionSummary } from './types.js';
+import type { ContextInput, ContextConfig, Observation, ObservationScore, SessionSummary } from './types.js';
+import type { ObservationDigest } from '../sqlite/digests/types.js';
 import { loadContextConfig } from './ContextConfigLoader.js';
 import { calculateTokenEconomics } from './TokenCalculator.js';
 import {
@@ -20,13 +21,16 @@ import {
   queryObservationsMulti,
   querySummaries,
   querySummariesMulti,
+  queryDigests,
   getPriorSessionMessages,
   prepareSummariesForTimeline,
   buildTimeline,
   getFullObservationIds,
 } from './ObservationCompiler.js';
+import { rankObservations } from './RelevanceScorer.js';
 import { renderHeader } from './sections/HeaderRenderer.js';
 import { renderTimeline } from './sections/TimelineRenderer.js';
+import { renderDigests } from './sections/DigestRenderer.js';
 import { shouldShowSummary, renderSummaryFields } from './sections/SummaryRenderer.js';
 import { renderPreviouslySection, renderFooter } from './sections/FooterRenderer.js';
 import { renderMarkdownEmptyState } from './formatters/MarkdownFormatter.js';
@@ -69,6 +73,7 @@ function buildContextOutput(
   project: string,
   observations: Observation[],
   summaries: SessionSummary[],
+  digests: ObservationDigest[],
   config: ContextConfig,
   cwd: string,
   sessionId: string | undefined,
@@ -82,6 +87,9 @@ function buildContextOutput(
   // Render header section
   output.push(...renderHeader(project, economics, config, useColors));
 
+  // Render digests that stand in for older, consolidated observations
+  output.push(...renderDigests(digests, cwd, useColors));
+
   // Prepare timeline data
   const displaySummaries = summaries.slice(0, config.sessionCount);
   const summariesForTimeline = prepareSummariesForTimeline(displaySummaries, summaries);
@@ -110,15 +118,32 @@ function buildContextOutput(
 }
 
 /**
- * Generate context for a project
+ * Select observations for injection
  *
- * Main entry point for context generation. Orchestrates loading config,
- * querying data, and rendering the final context string.
+ * With relevance ranking, the queried candidate pool is scored and trimmed to
+ * the configured count; with recency ranking the query result is used as-is.
  */
-export async function generateContext(
+function selectObservations(
+  candidates: Observation[],
+  config: ContextConfig,
+  cwd: string
+): { observations: Observation[]; scores: ObservationScore[] } {
+  if (config.ranking === 'recency') {
+    return { observations: candidates, scores: [] };
+  }
+  return rankObservations(candidates, config, cwd);
+}
+
+/**
+ * Generate context for a project along with the relevance scores of the
+ * selected observations (highest first, empty when ranking by recency)
+ *
+ * Used by the context preview so score components can be inspected and tuned.
+ */
+export async function generateContextWithScores(
   input?: ContextInput,
   useColors: boolean = false
-): Promise<string> {
+): Promise<{ context: string; scores: ObservationScore[] }> {
   const config = loadContextConfig();
   const cwd = input?.cwd ?? process.cwd();
   const project = getProjectName(cwd);
@@ -129,34 +154,54 @@ export async function generateContext(
   // Initialize database
   const db = initializeDatabase();
   if (!db) {
-    return '';
+    return { context: '', scores: [] };
   }
 
   try {
     // Query data for all projects (supports worktree: parent + worktree combined)
-    const observations = projects.length > 1
+    const candidates = projects.length > 1
       ? queryObservationsMulti(db, projects, config)
       : queryObservations(db, project, config);
     const summaries = projects.length > 1
       ? querySummariesMulti(db, projects, config)
       : querySummaries(db, project, config);
+    const digests = queryDigests(db, projects, config);
+
+    const { observations, scores } = selectObservations(candidates, config, cwd);
 
     // Handle empty state
-    if (observations.length === 0 && summaries.length === 0) {
-      return renderEmptyState(project, useColors);
+    if (observations.length === 0 && summaries.length === 0 && digests.length === 0) {
+      return { context: renderEmptyState(project, useColors), scores };
     }
 
     // Build and return context
-    return buildContextOutput(
+    const context = buildContextOutput(
       project,
       observations,
       summaries,
+      digests,
       config,
       cwd,
       input?.session_id,
       useColors
     );
+
+    return { context, scores };
   } finally {
     db.close();
   }
 }
+
+/**
+ * Generate context for a project
+ *
+ * Main entry point for context generation. Orchestrates loading config,
+ * querying data, and rendering the final context string.
+ */
+export async function generateContext(
+  input?: ContextInput,
+  useColors: boolean = false
+): Promise<string> {
+  const { context } = await generateContextWithScores(input, useColors);
+  return context;
+}
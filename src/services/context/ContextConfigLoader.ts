@@ -53,5 +53,17 @@ export function loadContextConfig(): ContextConfig {
     fullObservationField: settings.CLAUDE_MEM_CONTEXT_FULL_FIELD as 'narrative' | 'facts',
     showLastSummary: settings.CLAUDE_MEM_CONTEXT_SHOW_LAST_SUMMARY === 'true',
     showLastMessage: settings.CLAUDE_MEM_CONTEXT_SHOW_LAST_MESSAGE === 'true',
+    showTeamMemories: settings.CLAUDE_MEM_CONTEXT_SHOW_TEAM_MEMORIES !== 'false',
+    preferDigests: settings.CLAUDE_MEM_CONTEXT_PREFER_DIGESTS !== 'false',
+    digestAfterDays: parseInt(settings.CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS, 10),
+    ranking: settings.CLAUDE_MEM_CONTEXT_RANKING === 'recency' ? 'recency' : 'relevance',
+    decayHalfLifeDays: parseFloat(settings.CLAUDE_MEM_CONTEXT_DECAY_HALF_LIFE_DAYS),
+    scoreWeights: {
+      recency: parseFloat(settings.CLAUDE_MEM_CONTEXT_WEIGHT_RECENCY),
+      retrieval: parseFloat(settings.CLAUDE_MEM_CONTEXT_WEIGHT_RETRIEVAL),
+      type: parseFloat(settings.CLAUDE_MEM_CONTEXT_WEIGHT_TYPE),
+      files: parseFloat(settings.CLAUDE_MEM_CONTEXT_WEIGHT_FILES),
+    },
+    minQuality: parseFloat(settings.CLAUDE_MEM_CONTEXT_MIN_QUALITY) || 0,
   };
 }
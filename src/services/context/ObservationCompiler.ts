@@ -9,6 +9,8 @@ import { homedir } from 'os';
 import { existsSync, readFileSync } from 'fs';
 import { SessionStore } from '../sqlite/SessionStore.js';
 import { logger } from '../../utils/logger.js';
+import type { ObservationDigest } from '../sqlite/digests/types.js';
+import { DIGEST_CONTEXT_LIMIT } from '../sqlite/digests/types.js';
 import type {
   ContextConfig,
   Observation,
@@ -17,10 +19,53 @@ import type {
   TimelineItem,
   PriorMessages,
 } from './types.js';
-import { SUMMARY_LOOKAHEAD } from './types.js';
+import { SUMMARY_LOOKAHEAD, RELEVANCE_CANDIDATE_MULTIPLIER } from './types.js';
+
+/**
+ * Number of observations to fetch: the display count for recency ranking,
+ * or a larger candidate pool for relevance ranking
+ */
+function getObservationQueryLimit(config: ContextConfig): number {
+  return config.ranking === 'relevance'
+    ? config.totalObservationCount * RELEVANCE_CANDIDATE_MULTIPLIER
+    : config.totalObservationCount;
+}
+
+/**
+ * SQL condition excluding records pulled from teammates when team memories are hidden
+ */
+function teamMemoriesClause(config: ContextConfig): string {
+  return config.showTeamMemories ? '' : 'AND origin_author IS NULL';
+}
+
+/**
+ * SQL condition excluding observations scored below the quality threshold
+ * (unscored observations from before quality scoring are kept)
+ */
+function qualityClause(config: ContextConfig): string {
+  if (!(config.minQuality > 0)) {
+    return '';
+  }
+  return `AND (quality_score IS NULL OR quality_score >= ${config.minQuality})`;
+}
+
+/**
+ * SQL condition excluding observations older than the digest cutoff that a digest
+ * already covers (the digest is shown instead)
+ */
+function digestedObservationsClause(config: ContextConfig): string {
+  if (!config.preferDigests || !(config.digestAfterDays > 0)) {
+    return '';
+  }
+  const cutoffEpoch = Date.now() - Math.round(config.digestAfterDays * 24 * 60 * 60 * 1000);
+  return `AND NOT (created_at_epoch < ${cutoffEpoch} AND EXISTS (
+        SELECT 1 FROM digest_sources WHERE digest_sources.observation_id = observations.id
+      ))`;
+}
 
 /**
  * Query observations from database with type and concept filtering
+ * (explicit memories saved with the remember tool skip the concept filter; forgotten ones are left out)
  */
 export function queryObservations(
   db: SessionStore,
@@ -36,17 +81,21 @@ export function queryObservations(
     SELECT
       id, memory_session_id, type, title, subtitle, narrative,
       facts, concepts, files_read, files_modified, discovery_tokens,
-      created_at, created_at_epoch
+      created_at, created_at_epoch, retrieval_count, origin_author, origin
     FROM observations
     WHERE project = ?
+      AND forgotten_at_epoch IS NULL
+      ${teamMemoriesClause(config)}
+      ${digestedObservationsClause(config)}
+      ${qualityClause(config)}
       AND type IN (${typePlaceholders})
-      AND EXISTS (
+      AND (origin = 'user' OR EXISTS (
         SELECT 1 FROM json_each(concepts)
         WHERE value IN (${conceptPlaceholders})
-      )
+      ))
     ORDER BY created_at_epoch DESC
     LIMIT ?
-  `).all(project, ...typeArray, ...conceptArray, config.totalObservationCount) as Observation[];
+  `).all(project, ...typeArray, ...conceptArray, getObservationQueryLimit(config)) as Observation[];
 }
 
 /**
@@ -58,14 +107,30 @@ export function querySummaries(
   config: ContextConfig
 ): SessionSummary[] {
   return db.db.prepare(`
-    SELECT id, memory_session_id, request, investigated, learned, completed, next_steps, created_at, created_at_epoch
+    SELECT id, memory_session_id, request, investigated, learned, completed, next_steps, created_at, created_at_epoch, origin_author
     FROM session_summaries
     WHERE project = ?
+      ${teamMemoriesClause(config)}
     ORDER BY created_at_epoch DESC
     LIMIT ?
   `).all(project, config.sessionCount + SUMMARY_LOOKAHEAD) as SessionSummary[];
 }
 
+/**
+ * Query the most recent digests of one or more projects
+ * Returns nothing when digests are not preferred over their source observations.
+ */
+export function queryDigests(
+  db: SessionStore,
+  projects: string[],
+  config: ContextConfig
+): ObservationDigest[] {
+  if (!config.preferDigests) {
+    return [];
+  }
+  return db.getDigestsByProjects(projects, DIGEST_CONTEXT_LIMIT);
+}
+
 /**
  * Query observations from multiple projects (for worktree support)
  *
@@ -89,17 +154,21 @@ export function queryObservationsMulti(
     SELECT
       id, memory_session_id, type, title, subtitle, narrative,
       facts, concepts, files_read, files_modified, discovery_tokens,
-      created_at, created_at_epoch, project
+      created_at, created_at_epoch, retrieval_count, origin_author, origin, project
     FROM observations
     WHERE project IN (${projectPlaceholders})
+      AND forgotten_at_epoch IS NULL
+      ${teamMemoriesClause(config)}
+      ${digestedObservationsClause(config)}
+      ${qualityClause(config)}
       AND type IN (${typePlaceholders})
-      AND EXISTS (
+      AND (origin = 'user' OR EXISTS (
         SELECT 1 FROM json_each(concepts)
         WHERE value IN (${conceptPlaceholders})
-      )
+      ))
     ORDER BY created_at_epoch DESC
     LIMIT ?
-  `).all(...projects, ...typeArray, ...conceptArray, config.totalObservationCount) as Observation[];
+  `).all(...projects, ...typeArray, ...conceptArray, getObservationQueryLimit(config)) as Observation[];
 }
 
 /**
@@ -117,9 +186,10 @@ export function querySummariesMulti(
   const projectPlaceholders = projects.map(() => '?').join(',');
 
   return db.db.prepare(`
-    SELECT id, memory_session_id, request, investigated, learned, completed, next_steps, created_at, created_at_epoch, project
+    SELECT id, memory_session_id, request, investigated, learned, completed, next_steps, created_at, created_at_epoch, origin_author, project
     FROM session_summaries
     WHERE project IN (${projectPlaceholders})
+      ${teamMemoriesClause(config)}
     ORDER BY created_at_epoch DESC
     LIMIT ?
   `).all(...projects, config.sessionCount + SUMMARY_LOOKAHEAD) as SessionSummary[];
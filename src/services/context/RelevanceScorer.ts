@@ -0,0 +1,178 @@
+/**
+ * RelevanceScorer - Ranks candidate observations for context injection
+ *
+ * Combines four normalized (0-1) components into a weighted score:
+ * - recency: exponential decay by age (configurable half-life)
+ * - retrieval: how often the observation was returned by search / get_observations
+ * - type: decisions and gotchas weigh more than routine changes
+ * - files: share of the observation's files that live in the current cwd
+ */
+
+import path from 'path';
+import { existsSync } from 'fs';
+import { logger } from '../../utils/logger.js';
+import type { ContextConfig, Observation, ObservationScore } from './types.js';
+import { RETRIEVAL_HALF_SATURATION } from './types.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Type weights for code mode; unknown types (other modes) use DEFAULT_TYPE_WEIGHT
+ */
+const TYPE_WEIGHTS: Record<string, number> = {
+  decision: 1.0,
+  bugfix: 0.8,
+  feature: 0.6,
+  discovery: 0.5,
+  refactor: 0.4,
+  change: 0.3,
+};
+
+const DEFAULT_TYPE_WEIGHT = 0.5;
+
+/**
+ * Concepts that lift the type component regardless of observation type
+ */
+const CONCEPT_WEIGHTS: Record<string, number> = {
+  gotcha: 1.0,
+  'trade-off': 0.8,
+};
+
+/**
+ * Parse a JSON array column, tolerating null and malformed values
+ */
+function parseJsonArray(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Exponential decay: 1.0 for brand-new observations, 0.5 after one half-life
+ */
+export function recencyComponent(createdAtEpoch: number, halfLifeDays: number, now: number): number {
+  if (halfLifeDays <= 0) return 1;
+  const ageDays = Math.max(0, now - createdAtEpoch) / MS_PER_DAY;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Saturating retrieval count: 0 for never retrieved, approaching 1 for frequently retrieved
+ */
+export function retrievalComponent(retrievalCount: number): number {
+  const count = Math.max(0, retrievalCount);
+  return count / (count + RETRIEVAL_HALF_SATURATION);
+}
+
+/**
+ * Highest weight among the observation type and its concepts
+ */
+export function typeComponent(type: string, concepts: string[]): number {
+  let weight = TYPE_WEIGHTS[type] ?? DEFAULT_TYPE_WEIGHT;
+  for (const concept of concepts) {
+    weight = Math.max(weight, CONCEPT_WEIGHTS[concept] ?? 0);
+  }
+  return weight;
+}
+
+/**
+ * Share of the observation's files that belong to the cwd
+ *
+ * Absolute paths must be inside cwd; relative paths must still exist under cwd.
+ * Observations without files score 0.
+ */
+export function fileOverlapComponent(files: string[], cwd: string): number {
+  const uniqueFiles = Array.from(new Set(files.filter(Boolean)));
+  if (uniqueFiles.length === 0) return 0;
+
+  const root = path.resolve(cwd);
+  let matches = 0;
+
+  for (const file of uniqueFiles) {
+    if (path.isAbsolute(file)) {
+      const relative = path.relative(root, path.resolve(file));
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        matches++;
+      }
+    } else if (existsSync(path.join(root, file))) {
+      matches++;
+    }
+  }
+
+  return matches / uniqueFiles.length;
+}
+
+/**
+ * Score a single observation against the current context
+ */
+export function scoreObservation(
+  observation: Observation,
+  config: ContextConfig,
+  cwd: string,
+  now: number = Date.now()
+): ObservationScore {
+  const weights = config.scoreWeights;
+  const files = [
+    ...parseJsonArray(observation.files_modified),
+    ...parseJsonArray(observation.files_read),
+  ];
+
+  const components = {
+    recency: recencyComponent(observation.created_at_epoch, config.decayHalfLifeDays, now),
+    retrieval: retrievalComponent(observation.retrieval_count ?? 0),
+    type: typeComponent(observation.type, parseJsonArray(observation.concepts)),
+    files: fileOverlapComponent(files, cwd),
+  };
+
+  const totalWeight = weights.recency + weights.retrieval + weights.type + weights.files;
+  const weighted =
+    weights.recency * components.recency +
+    weights.retrieval * components.retrieval +
+    weights.type * components.type +
+    weights.files * components.files;
+
+  return {
+    id: observation.id,
+    type: observation.type,
+    title: observation.title,
+    created_at: observation.created_at,
+    score: totalWeight > 0 ? weighted / totalWeight : 0,
+    components,
+    retrievalCount: observation.retrieval_count ?? 0,
+  };
+}
+
+/**
+ * Select the most relevant observations from a candidate pool
+ *
+ * Returns the top `config.totalObservationCount` observations, re-sorted newest
+ * first so downstream rendering (full observations, prior session lookup) keeps
+ * its recency-based semantics. Scores are returned highest first.
+ */
+export function rankObservations(
+  candidates: Observation[],
+  config: ContextConfig,
+  cwd: string,
+  now: number = Date.now()
+): { observations: Observation[]; scores: ObservationScore[] } {
+  const scores = candidates
+    .map(observation => scoreObservation(observation, config, cwd, now))
+    .sort((a, b) => b.score - a.score || b.id - a.id)
+    .slice(0, config.totalObservationCount);
+
+  const selectedIds = new Set(scores.map(score => score.id));
+  const observations = candidates
+    .filter(observation => selectedIds.has(observation.id))
+    .sort((a, b) => b.created_at_epoch - a.created_at_epoch);
+
+  logger.debug('SYSTEM', 'Ranked context observations by relevance', {
+    candidates: candidates.length,
+    selected: observations.length,
+  });
+
+  return { observations, scores };
+}
@@ -13,6 +13,7 @@ import type {
 import { colors } from '../types.js';
 import { ModeManager } from '../../domain/ModeManager.js';
 import { formatObservationTokenDisplay } from '../TokenCalculator.js';
+import { formatAuthorTag, formatOriginTag } from '../../../shared/timeline-formatting.js';
 
 /**
  * Format current date/time for header display
@@ -138,7 +139,7 @@ export function renderColorTableRow(
   showTime: boolean,
   config: ContextConfig
 ): string {
-  const title = obs.title || 'Untitled';
+  const title = `${obs.title || 'Untitled'}${formatOriginTag(obs.origin)}${formatAuthorTag(obs.origin_author)}`;
   const icon = ModeManager.getInstance().getTypeIcon(obs.type);
   const { readTokens, discoveryTokens, workEmoji } = formatObservationTokenDisplay(obs, config);
 
@@ -160,7 +161,7 @@ export function renderColorFullObservation(
   config: ContextConfig
 ): string[] {
   const output: string[] = [];
-  const title = obs.title || 'Untitled';
+  const title = `${obs.title || 'Untitled'}${formatOriginTag(obs.origin)}${formatAuthorTag(obs.origin_author)}`;
   const icon = ModeManager.getInstance().getTypeIcon(obs.type);
   const { readTokens, discoveryTokens, workEmoji } = formatObservationTokenDisplay(obs, config);
 
@@ -180,14 +181,40 @@ export function renderColorFullObservation(
   return output;
 }
 
+/**
+ * Render colored digests section header
+ */
+export function renderColorDigestsHeader(): string[] {
+  return [
+    `${colors.bright}${colors.cyan}Long-term Digests${colors.reset}`,
+    ''
+  ];
+}
+
+/**
+ * Render colored digest item (scope and period are preformatted)
+ */
+export function renderColorDigestItem(
+  digest: { id: number; title: string; summary: string; source_count: number },
+  scope: string,
+  period: string
+): string[] {
+  const details = [scope, `${digest.source_count} observations`, period].filter(Boolean).join(', ');
+  return [
+    `${colors.magenta}#D${digest.id}${colors.reset} ${digest.title} ${colors.dim}(${details})${colors.reset}`,
+    `${colors.dim}${digest.summary}${colors.reset}`,
+    ''
+  ];
+}
+
 /**
  * Render colored summary item in timeline
  */
 export function renderColorSummaryItem(
-  summary: { id: number; request: string | null },
+  summary: { id: number; request: string | null; origin_author?: string | null },
   formattedTime: string
 ): string[] {
-  const summaryTitle = `${summary.request || 'Session started'} (${formattedTime})`;
+  const summaryTitle = `${summary.request || 'Session started'}${formatAuthorTag(summary.origin_author)} (${formattedTime})`;
   return [
     `${colors.yellow}#S${summary.id}${colors.reset} ${summaryTitle}`,
     ''
@@ -13,6 +13,7 @@ import type {
 } from '../types.js';
 import { ModeManager } from '../../domain/ModeManager.js';
 import { formatObservationTokenDisplay } from '../TokenCalculator.js';
+import { formatAuthorTag, formatOriginTag } from '../../../shared/timeline-formatting.js';
 
 /**
  * Format current date/time for header display
@@ -137,7 +138,7 @@ export function renderMarkdownTableRow(
   timeDisplay: string,
   config: ContextConfig
 ): string {
-  const title = obs.title || 'Untitled';
+  const title = `${obs.title || 'Untitled'}${formatOriginTag(obs.origin)}${formatAuthorTag(obs.origin_author)}`;
   const icon = ModeManager.getInstance().getTypeIcon(obs.type);
   const { readTokens, discoveryDisplay } = formatObservationTokenDisplay(obs, config);
 
@@ -157,7 +158,7 @@ export function renderMarkdownFullObservation(
   config: ContextConfig
 ): string[] {
   const output: string[] = [];
-  const title = obs.title || 'Untitled';
+  const title = `${obs.title || 'Untitled'}${formatOriginTag(obs.origin)}${formatAuthorTag(obs.origin_author)}`;
   const icon = ModeManager.getInstance().getTypeIcon(obs.type);
   const { readTokens, discoveryDisplay } = formatObservationTokenDisplay(obs, config);
 
@@ -183,14 +184,40 @@ export function renderMarkdownFullObservation(
   return output;
 }
 
+/**
+ * Render markdown digests section header
+ */
+export function renderMarkdownDigestsHeader(): string[] {
+  return [
+    `### Long-term Digests`,
+    ''
+  ];
+}
+
+/**
+ * Render markdown digest item (scope and period are preformatted)
+ */
+export function renderMarkdownDigestItem(
+  digest: { id: number; title: string; summary: string; source_count: number },
+  scope: string,
+  period: string
+): string[] {
+  const details = [scope, `${digest.source_count} observations`, period].filter(Boolean).join(', ');
+  return [
+    `**#D${digest.id}** ${digest.title} (${details})`,
+    digest.summary,
+    ''
+  ];
+}
+
 /**
  * Render markdown summary item in timeline
  */
 export function renderMarkdownSummaryItem(
-  summary: { id: number; request: string | null },
+  summary: { id: number; request: string | null; origin_author?: string | null },
   formattedTime: string
 ): string[] {
-  const summaryTitle = `${summary.request || 'Session started'} (${formattedTime})`;
+  const summaryTitle = `${summary.request || 'Session started'}${formatAuthorTag(summary.origin_author)} (${formattedTime})`;
   return [
     `**#S${summary.id}** ${summaryTitle}`,
     ''
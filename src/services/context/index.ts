@@ -4,8 +4,8 @@
  * Re-exports the main context generation functionality.
  */
 
-export { generateContext } from './ContextBuilder.js';
-export type { ContextInput, ContextConfig } from './types.js';
+export { generateContext, generateContextWithScores } from './ContextBuilder.js';
+export type { ContextInput, ContextConfig, ObservationScore } from './types.js';
 
 // Component exports for advanced usage
 export { loadContextConfig } from './ContextConfigLoader.js';
@@ -16,3 +16,4 @@ export {
   buildTimeline,
   getPriorSessionMessages,
 } from './ObservationCompiler.js';
+export { scoreObservation, rankObservations } from './RelevanceScorer.js';
@@ -0,0 +1,48 @@
+/**
+ * DigestRenderer - Renders consolidated long-term digests ahead of the timeline
+ *
+ * Digests stand in for older observations they summarize (see ObservationCompiler).
+ */
+
+import type { ObservationDigest } from '../../sqlite/digests/types.js';
+import { formatDate, toRelativePath } from '../../../shared/timeline-formatting.js';
+import * as Markdown from '../formatters/MarkdownFormatter.js';
+import * as Color from '../formatters/ColorFormatter.js';
+
+/**
+ * Folder and concept a digest covers, e.g. "src/services · caching"
+ */
+function formatDigestScope(digest: ObservationDigest, cwd: string): string {
+  const folder = digest.folder ? toRelativePath(digest.folder, cwd) || '.' : '';
+  return [folder, digest.concept].filter(Boolean).join(' · ');
+}
+
+function formatDigestPeriod(digest: ObservationDigest): string {
+  const start = formatDate(digest.period_start_epoch);
+  const end = formatDate(digest.period_end_epoch);
+  return start === end ? start : `${start} – ${end}`;
+}
+
+/**
+ * Render the digests section (nothing when there are no digests)
+ */
+export function renderDigests(
+  digests: ObservationDigest[],
+  cwd: string,
+  useColors: boolean
+): string[] {
+  if (digests.length === 0) {
+    return [];
+  }
+
+  const output: string[] = useColors ? Color.renderColorDigestsHeader() : Markdown.renderMarkdownDigestsHeader();
+  for (const digest of digests) {
+    const scope = formatDigestScope(digest, cwd);
+    const period = formatDigestPeriod(digest);
+    output.push(...(useColors
+      ? Color.renderColorDigestItem(digest, scope, period)
+      : Markdown.renderMarkdownDigestItem(digest, scope, period)));
+  }
+
+  return output;
+}
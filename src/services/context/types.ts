@@ -2,6 +2,8 @@
  * Context Types - Shared types for context generation module
  */
 
+import type { ObservationOrigin } from '../../types/database.js';
+
 /**
  * Input parameters for context generation
  */
@@ -39,6 +41,46 @@ export interface ContextConfig {
   fullObservationField: 'narrative' | 'facts';
   showLastSummary: boolean;
   showLastMessage: boolean;
+
+  // Team sync
+  showTeamMemories: boolean;
+
+  // Digests
+  preferDigests: boolean;
+  digestAfterDays: number;
+
+  // Relevance scoring
+  ranking: 'relevance' | 'recency';
+  decayHalfLifeDays: number;
+  scoreWeights: ScoreWeights;
+
+  // Observation quality (0 = no threshold)
+  minQuality: number;
+}
+
+/**
+ * Relevance score components (also used for their relative weights)
+ */
+export interface ScoreComponents {
+  recency: number;
+  retrieval: number;
+  type: number;
+  files: number;
+}
+
+export type ScoreWeights = ScoreComponents;
+
+/**
+ * Relevance score of an observation with its normalized (0-1) components
+ */
+export interface ObservationScore {
+  id: number;
+  type: string;
+  title: string | null;
+  created_at: string;
+  score: number;
+  components: ScoreComponents;
+  retrievalCount: number;
 }
 
 /**
@@ -58,6 +100,12 @@ export interface Observation {
   discovery_tokens: number | null;
   created_at: string;
   created_at_epoch: number;
+  /** Times returned by search or get_observations (relevance scoring) */
+  retrieval_count?: number | null;
+  /** Teammate who shared this observation through team sync (null for local observations) */
+  origin_author?: string | null;
+  /** How the observation was created ('user' for explicit memories) */
+  origin?: ObservationOrigin;
   /** Project this observation belongs to (for multi-project queries) */
   project?: string;
 }
@@ -75,6 +123,8 @@ export interface SessionSummary {
   next_steps: string | null;
   created_at: string;
   created_at_epoch: number;
+  /** Teammate who shared this summary through team sync (null for local summaries) */
+  origin_author?: string | null;
   /** Project this summary belongs to (for multi-project queries) */
   project?: string;
 }
@@ -135,3 +185,7 @@ export const colors = {
  */
 export const CHARS_PER_TOKEN_ESTIMATE = 4;
 export const SUMMARY_LOOKAHEAD = 1;
+/** Candidates fetched per injected observation when ranking by relevance */
+export const RELEVANCE_CANDIDATE_MULTIPLIER = 4;
+/** Retrieval count at which the retrieval component reaches 0.5 */
+export const RETRIEVAL_HALF_SATURATION = 3;
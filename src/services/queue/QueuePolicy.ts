@@ -0,0 +1,135 @@
+/**
+ * QueuePolicy: scheduling and backpressure settings for the pending message queue
+ *
+ * Responsibility:
+ * - Read the CLAUDE_MEM_QUEUE_* settings (summary priority, per-session in-flight limit,
+ *   coalescing of low-value tool events, global intake cap)
+ * - Decide whether the observation intake admits, drops or samples a tool event
+ * - Count each scheduling decision for /api/stats
+ *
+ * Summaries are never dropped or sampled; the cap only applies to observations.
+ */
+
+import { SettingsDefaultsManager, type SettingsDefaults } from '../../shared/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../shared/paths.js';
+import { metrics as metricsRegistry } from '../../utils/metrics.js';
+
+const MAX_IN_FLIGHT_LIMIT = 50;
+const MAX_COALESCE_LIMIT = 20;
+
+export type QueueOverflowAction = 'drop' | 'sample';
+
+export interface QueuePolicy {
+  /** Claim summaries ahead of queued observations */
+  summaryFirst: boolean;
+  /** Messages a session may have claimed but not yet processed (0 = unlimited) */
+  maxInFlight: number;
+  /** Tools whose consecutive events are batched into one prompt */
+  coalesceTools: ReadonlySet<string>;
+  /** Maximum events per batched prompt (1 = no coalescing) */
+  coalesceMax: number;
+  /** Pending messages across all sessions above which observations are dropped or sampled (0 = no cap) */
+  maxPending: number;
+  overflowAction: QueueOverflowAction;
+  /** Fraction of observations kept while over the cap with 'sample' */
+  sampleRate: number;
+}
+
+export interface QueueMetrics {
+  /** Summaries claimed ahead of older queued observations */
+  prioritized: number;
+  /** Times a session's iterator waited because it reached the in-flight limit */
+  deferred: number;
+  /** Batched prompts built from consecutive low-value tool events */
+  batches: number;
+  /** Tool events merged into a batch after its first event */
+  coalesced: number;
+  /** Observations rejected at intake while the queue was over the cap */
+  dropped: number;
+  /** Observations admitted by sampling while the queue was over the cap */
+  sampled: number;
+}
+
+export type IntakeDecision =
+  | { admitted: true; sampled: boolean }
+  | { admitted: false; reason: 'queue_full' | 'sampled_out' };
+
+const metrics: QueueMetrics = { prioritized: 0, deferred: 0, batches: 0, coalesced: 0, dropped: 0, sampled: 0 };
+
+metricsRegistry.counter(
+  'claude_mem_queue_decisions',
+  'Queue scheduling and intake backpressure decisions',
+  ['decision'],
+  () => Object.entries(metrics).map(([decision, value]) => ({ labels: { decision }, value }))
+);
+
+/**
+ * Queue scheduling counters since worker start
+ */
+export function getQueueMetrics(): QueueMetrics {
+  return { ...metrics };
+}
+
+/**
+ * Reset the counters (tests)
+ */
+export function resetQueueMetrics(): void {
+  for (const key of Object.keys(metrics) as (keyof QueueMetrics)[]) {
+    metrics[key] = 0;
+  }
+}
+
+/**
+ * Count a scheduling decision
+ */
+export function countQueueDecision(decision: keyof QueueMetrics, count: number = 1): void {
+  metrics[decision] += count;
+}
+
+/**
+ * Queue policy from settings, with out-of-range values clamped
+ */
+export function loadQueuePolicy(
+  settings: SettingsDefaults = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH)
+): QueuePolicy {
+  const sampleRate = parseFloat(settings.CLAUDE_MEM_QUEUE_SAMPLE_RATE);
+
+  return {
+    summaryFirst: settings.CLAUDE_MEM_QUEUE_SUMMARY_FIRST !== 'false',
+    maxInFlight: parseLimit(settings.CLAUDE_MEM_QUEUE_MAX_IN_FLIGHT, 0, MAX_IN_FLIGHT_LIMIT),
+    coalesceTools: new Set(settings.CLAUDE_MEM_QUEUE_COALESCE_TOOLS.split(',').map(t => t.trim()).filter(Boolean)),
+    coalesceMax: Math.max(parseLimit(settings.CLAUDE_MEM_QUEUE_COALESCE_MAX, 1, MAX_COALESCE_LIMIT), 1),
+    maxPending: parseLimit(settings.CLAUDE_MEM_QUEUE_MAX_PENDING, 0, Number.MAX_SAFE_INTEGER),
+    overflowAction: settings.CLAUDE_MEM_QUEUE_OVERFLOW_ACTION === 'drop' ? 'drop' : 'sample',
+    sampleRate: Number.isFinite(sampleRate) ? Math.min(Math.max(sampleRate, 0), 1) : 0
+  };
+}
+
+/**
+ * Decide whether the intake queues an observation given the current queue depth
+ * @param pendingCount - Pending messages across all sessions
+ * @param random - Random source in [0, 1) (tests)
+ */
+export function admitObservation(
+  policy: QueuePolicy,
+  pendingCount: number,
+  random: () => number = Math.random
+): IntakeDecision {
+  if (policy.maxPending === 0 || pendingCount < policy.maxPending) {
+    return { admitted: true, sampled: false };
+  }
+
+  if (policy.overflowAction === 'sample' && random() < policy.sampleRate) {
+    metrics.sampled++;
+    return { admitted: true, sampled: true };
+  }
+
+  metrics.dropped++;
+  return { admitted: false, reason: policy.overflowAction === 'sample' ? 'sampled_out' : 'queue_full' };
+}
+
+function parseLimit(value: string, fallback: number, max: number): number {
+  const limit = parseInt(value, 10);
+  if (!Number.isFinite(limit) || limit < 0) return fallback;
+  return Math.min(limit, max);
+}
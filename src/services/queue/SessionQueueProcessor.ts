@@ -1,7 +1,17 @@
 import { EventEmitter } from 'events';
-import { PendingMessageStore, PersistentPendingMessage } from '../sqlite/PendingMessageStore.js';
+import { PendingMessageStore, PersistentPendingMessage, type NextPendingMessage } from '../sqlite/PendingMessageStore.js';
 import type { PendingMessageWithId } from '../worker-types.js';
 import { logger } from '../../utils/logger.js';
+import { countQueueDecision } from './QueuePolicy.js';
+
+export interface QueueIteratorOptions {
+  /** Rejecting the next message (by type and provider override) ends the iterator without claiming it */
+  shouldClaim?: (next: NextPendingMessage) => boolean;
+  /** Returning false makes the iterator wait for a 'message' event before claiming (in-flight limit) */
+  hasCapacity?: () => boolean;
+  /** Claim consecutive observations of these tools together with the first one (up to max per batch) */
+  coalesce?: { toolNames: ReadonlySet<string>; max: number };
+}
 
 export class SessionQueueProcessor {
   constructor(
@@ -14,17 +24,58 @@ export class SessionQueueProcessor {
    * Uses atomic claim-and-delete to prevent duplicates.
    * The queue is a pure buffer: claim it, delete it, process in memory.
    * Waits for 'message' event when queue is empty.
+   * When shouldClaim is given and rejects the next message (by type and provider
+   * override), the iterator ends without claiming it (the message stays queued for
+   * another consumer).
+   * When hasCapacity returns false, nothing is claimed until the next 'message' event.
+   * Observations of the coalesce tools that directly follow a claimed one are yielded
+   * with it as _coalesced (one batched prompt).
    */
-  async *createIterator(sessionDbId: number, signal: AbortSignal): AsyncIterableIterator<PendingMessageWithId> {
+  async *createIterator(
+    sessionDbId: number,
+    signal: AbortSignal,
+    options: QueueIteratorOptions = {}
+  ): AsyncIterableIterator<PendingMessageWithId> {
+    const { shouldClaim, hasCapacity, coalesce } = options;
+
     while (!signal.aborted) {
       try {
+        if (hasCapacity && !hasCapacity()) {
+          countQueueDecision('deferred');
+          await this.waitForMessage(signal);
+          continue;
+        }
+
+        if (shouldClaim) {
+          const next = this.store.peekNext(sessionDbId);
+          if (next && !shouldClaim(next)) {
+            return;
+          }
+        }
+
         // Atomically claim AND DELETE next message from DB
         // Message is now in memory only - no "processing" state tracking needed
         const persistentMessage = this.store.claimAndDelete(sessionDbId);
 
         if (persistentMessage) {
+          if (persistentMessage.priority > 0 && this.store.countPendingBefore(sessionDbId, persistentMessage.id) > 0) {
+            countQueueDecision('prioritized');
+          }
+
+          const message = this.toPendingMessageWithId(persistentMessage);
+          if (coalesce && this.isCoalescible(persistentMessage, coalesce.toolNames)) {
+            const followers = this.store.claimCoalescible(
+              sessionDbId, coalesce.toolNames, persistentMessage.provider_override, coalesce.max - 1
+            );
+            if (followers.length > 0) {
+              message._coalesced = followers.map(msg => this.toPendingMessageWithId(msg));
+              countQueueDecision('batches');
+              countQueueDecision('coalesced', followers.length);
+            }
+          }
+
           // Yield the message for processing (it's already deleted from queue)
-          yield this.toPendingMessageWithId(persistentMessage);
+          yield message;
         } else {
           // Check if messages exist before waiting (handles race condition where
           // messages were enqueued after claimAndDelete but before listener registered)
@@ -45,12 +96,18 @@ export class SessionQueueProcessor {
     }
   }
 
+  private isCoalescible(msg: PersistentPendingMessage, toolNames: ReadonlySet<string>): boolean {
+    return msg.message_type === 'observation' && !!msg.tool_name && toolNames.has(msg.tool_name);
+  }
+
   private toPendingMessageWithId(msg: PersistentPendingMessage): PendingMessageWithId {
     const pending = this.store.toPendingMessage(msg);
     return {
       ...pending,
       _persistentId: msg.id,
-      _originalTimestamp: msg.created_at_epoch
+      _originalTimestamp: msg.created_at_epoch,
+      _retryCount: msg.retry_count,
+      _claimedAt: Date.now()
     };
   }
 
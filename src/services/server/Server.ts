@@ -6,16 +6,19 @@
  * - Express app creation and configuration
  * - Middleware registration
  * - Route registration (delegates to route handlers)
- * - Core system endpoints (health, readiness, version, admin)
+ * - Core system endpoints (health, readiness, version, metrics, admin)
  */
 
 import express, { Request, Response, Application } from 'express';
 import http from 'http';
+import https from 'https';
 import * as fs from 'fs';
 import path from 'path';
 import { logger } from '../../utils/logger.js';
+import { metrics, OPENMETRICS_CONTENT_TYPE } from '../../utils/metrics.js';
 import { createMiddleware, summarizeRequestBody, requireLocalhost } from './Middleware.js';
 import { errorHandler, notFoundHandler } from './ErrorHandler.js';
+import type { TlsOptions } from './Tls.js';
 
 // Build-time injected version constant (set by esbuild define)
 declare const __DEFAULT_PACKAGE_VERSION__: string;
@@ -51,6 +54,7 @@ export interface ServerOptions {
 export class Server {
   readonly app: Application;
   private server: http.Server | null = null;
+  private tlsServer: https.Server | null = null;
   private readonly options: ServerOptions;
   private readonly startTime: number = Date.now();
 
@@ -70,21 +74,43 @@ export class Server {
 
   /**
    * Start listening on the specified host and port
+   * With TLS, plain HTTP stays on loopback (for hooks and local clients) and HTTPS is served on host
    */
-  async listen(port: number, host: string): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      this.server = this.app.listen(port, host, () => {
-        logger.info('SYSTEM', 'HTTP server started', { host, port, pid: process.pid });
+  async listen(port: number, host: string, tls?: TlsOptions | null): Promise<void> {
+    const httpHost = tls ? '127.0.0.1' : host;
+    await new Promise<void>((resolve, reject) => {
+      this.server = this.app.listen(port, httpHost, () => {
+        logger.info('SYSTEM', 'HTTP server started', { host: httpHost, port, pid: process.pid });
         resolve();
       });
       this.server.on('error', reject);
     });
+
+    if (!tls) return;
+
+    await new Promise<void>((resolve, reject) => {
+      this.tlsServer = https.createServer({ cert: tls.cert, key: tls.key }, this.app);
+      this.tlsServer.on('error', reject);
+      this.tlsServer.listen(tls.port, host, () => {
+        logger.info('SYSTEM', 'HTTPS server started', { host, port: tls.port, certPath: tls.certPath });
+        resolve();
+      });
+    });
   }
 
   /**
-   * Close the HTTP server
+   * Close the HTTP server (and the HTTPS server, if started)
    */
   async close(): Promise<void> {
+    if (this.tlsServer) {
+      this.tlsServer.closeAllConnections();
+      await new Promise<void>((resolve, reject) => {
+        this.tlsServer!.close(err => err ? reject(err) : resolve());
+      });
+      this.tlsServer = null;
+      logger.info('SYSTEM', 'HTTPS server closed');
+    }
+
     if (!this.server) return;
 
     // Close all active connections
@@ -137,7 +163,7 @@ export class Server {
   }
 
   /**
-   * Setup core system routes (health, readiness, version, admin)
+   * Setup core system routes (health, readiness, version, metrics, admin)
    */
   private setupCoreRoutes(): void {
     // Test build ID for debugging which build is running
@@ -177,6 +203,15 @@ export class Server {
       res.status(200).json({ version: BUILT_IN_VERSION });
     });
 
+    // Metrics endpoint - OpenMetrics text for Prometheus scrapers (localhost-only)
+    metrics.gauge('claude_mem_worker_uptime_seconds', 'Seconds since the worker HTTP server was created')
+      .collectWith(() => [{ value: (Date.now() - this.startTime) / 1000 }]);
+    metrics.gauge('claude_mem_worker_resident_memory_bytes', 'Resident set size of the worker process')
+      .collectWith(() => [{ value: process.memoryUsage().rss }]);
+    this.app.get('/metrics', requireLocalhost, (_req: Request, res: Response) => {
+      res.status(200).type(OPENMETRICS_CONTENT_TYPE).send(metrics.render());
+    });
+
     // Instructions endpoint - loads SKILL.md sections on-demand
     this.app.get('/api/instructions', async (req: Request, res: Response) => {
       const topic = (req.query.topic as string) || 'all';
@@ -0,0 +1,92 @@
+/**
+ * Tls - HTTPS listener configuration
+ *
+ * With CLAUDE_MEM_TLS_ENABLED the worker also serves HTTPS on CLAUDE_MEM_TLS_PORT.
+ * Uses the certificate and key from CLAUDE_MEM_TLS_CERT_PATH / CLAUDE_MEM_TLS_KEY_PATH, or
+ * generates a self-signed certificate in ~/.claude-mem/tls/ (requires openssl) on first start.
+ */
+
+import { execFileSync } from 'child_process';
+import { chmodSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { hostname } from 'os';
+import { join } from 'path';
+import { logger } from '../../utils/logger.js';
+import { TLS_DIR } from '../../shared/paths.js';
+import type { SettingsDefaults } from '../../shared/SettingsDefaultsManager.js';
+
+/**
+ * Certificate material for the HTTPS listener
+ */
+export interface TlsOptions {
+  port: number;
+  cert: Buffer;
+  key: Buffer;
+  /** Where the certificate was read from (clients need it to trust a self-signed cert) */
+  certPath: string;
+}
+
+const SELF_SIGNED_CERT = 'worker-cert.pem';
+const SELF_SIGNED_KEY = 'worker-key.pem';
+const SELF_SIGNED_DAYS = 825;
+
+/**
+ * Load TLS settings
+ * @returns TLS options, or null when TLS is disabled
+ * @throws When configured files are missing or a self-signed certificate can't be generated
+ */
+export function loadTlsOptions(settings: SettingsDefaults, tlsDir: string = TLS_DIR): TlsOptions | null {
+  if (settings.CLAUDE_MEM_TLS_ENABLED !== 'true') return null;
+
+  const port = parseInt(settings.CLAUDE_MEM_TLS_PORT, 10);
+  if (!Number.isInteger(port) || port < 1024 || port > 65535) {
+    throw new Error(`Invalid CLAUDE_MEM_TLS_PORT: ${settings.CLAUDE_MEM_TLS_PORT}`);
+  }
+
+  let certPath = settings.CLAUDE_MEM_TLS_CERT_PATH;
+  let keyPath = settings.CLAUDE_MEM_TLS_KEY_PATH;
+
+  if (!certPath && !keyPath) {
+    certPath = join(tlsDir, SELF_SIGNED_CERT);
+    keyPath = join(tlsDir, SELF_SIGNED_KEY);
+    if (!existsSync(certPath) || !existsSync(keyPath)) {
+      generateSelfSignedCertificate(certPath, keyPath, tlsDir);
+    }
+  } else if (!certPath || !keyPath) {
+    throw new Error('CLAUDE_MEM_TLS_CERT_PATH and CLAUDE_MEM_TLS_KEY_PATH must be set together');
+  }
+
+  return {
+    port,
+    cert: readFileSync(certPath),
+    key: readFileSync(keyPath),
+    certPath
+  };
+}
+
+/**
+ * Generate a self-signed certificate valid for this machine's names
+ */
+function generateSelfSignedCertificate(certPath: string, keyPath: string, tlsDir: string): void {
+  mkdirSync(tlsDir, { recursive: true });
+
+  const altNames = ['DNS:localhost', 'IP:127.0.0.1', 'IP:::1', 'DNS:host.docker.internal'];
+  const host = hostname();
+  if (host && host !== 'localhost') {
+    altNames.push(`DNS:${host}`);
+  }
+
+  execFileSync('openssl', [
+    'req', '-x509',
+    '-newkey', 'rsa:2048',
+    '-nodes',
+    '-sha256',
+    '-days', String(SELF_SIGNED_DAYS),
+    '-subj', '/CN=claude-mem worker',
+    '-addext', `subjectAltName=${altNames.join(',')}`,
+    '-keyout', keyPath,
+    '-out', certPath
+  ], { stdio: 'pipe' });
+  chmodSync(keyPath, 0o600);
+
+  logger.info('SYSTEM', 'Generated self-signed TLS certificate', { certPath, altNames: altNames.join(',') });
+}
@@ -5,3 +5,4 @@
 export * from './Server.js';
 export * from './Middleware.js';
 export * from './ErrorHandler.js';
+export * from './Tls.js';
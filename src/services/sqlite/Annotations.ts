@@ -0,0 +1,9 @@
+/**
+ * Annotations module - named re-exports
+ * Provides notes attached to existing observations
+ */
+import { logger } from '../../utils/logger.js';
+
+export * from './annotations/types.js';
+export * from './annotations/store.js';
+export * from './annotations/get.js';
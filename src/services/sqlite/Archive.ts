@@ -0,0 +1,11 @@
+/**
+ * Archive module - named re-exports
+ * Full export/import of the memory database as a versioned, checksummed archive
+ */
+import { logger } from '../../utils/logger.js';
+
+export * from './archive/types.js';
+export * from './archive/filters.js';
+export * from './archive/export.js';
+export * from './archive/import.js';
+export * from './archive/files.js';
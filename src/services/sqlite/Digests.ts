@@ -0,0 +1,9 @@
+/**
+ * Digests module - named re-exports
+ * Consolidated long-term digests of older observations: candidate grouping, storage, lookup
+ */
+import { logger } from '../../utils/logger.js';
+
+export * from './digests/types.js';
+export * from './digests/candidates.js';
+export * from './digests/store.js';
@@ -0,0 +1,8 @@
+/**
+ * Graph module - named re-exports
+ * Knowledge graph of observations, files and concepts: co-changes, folder concepts, decisions, neighborhoods
+ */
+import { logger } from '../../utils/logger.js';
+
+export * from './graph/types.js';
+export * from './graph/queries.js';
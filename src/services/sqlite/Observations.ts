@@ -9,3 +9,7 @@ export * from './observations/store.js';
 export * from './observations/get.js';
 export * from './observations/recent.js';
 export * from './observations/files.js';
+export * from './observations/edit.js';
+export * from './observations/retrievals.js';
+export * from './observations/memories.js';
+export * from './observations/injections.js';
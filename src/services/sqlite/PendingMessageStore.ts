@@ -1,5 +1,5 @@
 import { Database } from './sqlite-compat.js';
-import type { PendingMessage } from '../worker-types.js';
+import type { ExtractorName, PendingMessage, PendingMessageWithId } from '../worker-types.js';
 import { logger } from '../../utils/logger.js';
 
 /**
@@ -16,11 +16,46 @@ export interface PersistentPendingMessage {
   cwd: string | null;
   last_assistant_message: string | null;
   prompt_number: number | null;
+  redaction_count: number;
   status: 'pending' | 'processing' | 'processed' | 'failed';
   retry_count: number;
   created_at_epoch: number;
   started_processing_at_epoch: number | null;
   completed_at_epoch: number | null;
+  failed_at_epoch: number | null;
+  last_error: string | null;
+  provider_override: ExtractorName | null;
+  priority: number;
+}
+
+/**
+ * Claim priorities (higher is claimed first; equal priorities keep queue order)
+ */
+export const MESSAGE_PRIORITY = {
+  normal: 0,
+  summary: 10,
+} as const;
+
+/**
+ * Claim order shared by claimAndDelete(), peekNext() and claimCoalescible()
+ */
+const CLAIM_ORDER = 'ORDER BY priority DESC, id ASC';
+
+/**
+ * Payload fields of a queued message that can be edited before a retry
+ */
+export interface PendingMessagePayloadUpdate {
+  tool_input?: unknown;
+  tool_response?: unknown;
+  last_assistant_message?: string | null;
+}
+
+/**
+ * Next message claimAndDelete() would return, without claiming it
+ */
+export interface NextPendingMessage {
+  messageType: 'observation' | 'summarize';
+  providerOverride: ExtractorName | null;
 }
 
 /**
@@ -35,6 +70,10 @@ export interface PersistentPendingMessage {
  *
  * Recovery:
  * - getSessionsWithPendingMessages() - Find sessions that need recovery on startup
+ *
+ * Dead letters:
+ * - deadLetter() - Re-inserts claimed messages as 'failed' with last_error when their generator crashes
+ * - replayFailed() - Moves failed messages back to 'pending', optionally pinned to a provider
  */
 export class PendingMessageStore {
   private db: Database;
@@ -47,17 +86,18 @@ export class PendingMessageStore {
 
   /**
    * Enqueue a new message (persist before processing)
+   * @param priority - Claim priority (see MESSAGE_PRIORITY)
    * @returns The database ID of the persisted message
    */
-  enqueue(sessionDbId: number, contentSessionId: string, message: PendingMessage): number {
+  enqueue(sessionDbId: number, contentSessionId: string, message: PendingMessage, priority: number = MESSAGE_PRIORITY.normal): number {
     const now = Date.now();
     const stmt = this.db.prepare(`
       INSERT INTO pending_messages (
         session_db_id, content_session_id, message_type,
         tool_name, tool_input, tool_response, cwd,
         last_assistant_message,
-        prompt_number, status, retry_count, created_at_epoch
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?)
+        prompt_number, redaction_count, status, retry_count, created_at_epoch, priority
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?)
     `);
 
     const result = stmt.run(
@@ -70,7 +110,9 @@ export class PendingMessageStore {
       message.cwd || null,
       message.last_assistant_message || null,
       message.prompt_number || null,
-      now
+      message.redaction_count ?? 0,
+      now,
+      priority
     );
 
     return result.lastInsertRowid as number;
@@ -78,7 +120,7 @@ export class PendingMessageStore {
 
   /**
    * Atomically claim and DELETE the next pending message.
-   * Finds oldest pending -> returns it -> deletes from queue.
+   * Finds highest-priority, oldest pending -> returns it -> deletes from queue.
    * The queue is a pure buffer: claim it, delete it, process in memory.
    * Uses a transaction to prevent race conditions.
    */
@@ -87,7 +129,7 @@ export class PendingMessageStore {
       const peekStmt = this.db.prepare(`
         SELECT * FROM pending_messages
         WHERE session_db_id = ? AND status = 'pending'
-        ORDER BY id ASC
+        ${CLAIM_ORDER}
         LIMIT 1
       `);
       const msg = peekStmt.get(sessionId) as PersistentPendingMessage | null;
@@ -99,7 +141,8 @@ export class PendingMessageStore {
 
         // Log claim with minimal info (avoid logging full payload)
         logger.info('QUEUE', `CLAIMED | sessionDbId=${sessionId} | messageId=${msg.id} | type=${msg.message_type}`, {
-          sessionId: sessionId
+          sessionId: sessionId,
+          messageId: msg.id
         });
       }
       return msg;
@@ -108,6 +151,88 @@ export class PendingMessageStore {
     return claimTx(sessionDbId) as PersistentPendingMessage | null;
   }
 
+  /**
+   * Type and provider override of the message claimAndDelete() would return next,
+   * without claiming it (used by provider routing to decide which agent handles it)
+   */
+  peekNext(sessionDbId: number): NextPendingMessage | null {
+    const row = this.db.prepare(`
+      SELECT message_type, provider_override FROM pending_messages
+      WHERE session_db_id = ? AND status = 'pending'
+      ${CLAIM_ORDER}
+      LIMIT 1
+    `).get(sessionDbId) as Pick<PersistentPendingMessage, 'message_type' | 'provider_override'> | null;
+    return row ? { messageType: row.message_type, providerOverride: row.provider_override } : null;
+  }
+
+  /**
+   * Claim and DELETE the observations that follow an already-claimed one, while they
+   * use one of the given tools and share its provider override (coalescing of
+   * consecutive low-value tool events into one prompt)
+   * @param max - Maximum number of messages to claim
+   */
+  claimCoalescible(
+    sessionDbId: number,
+    toolNames: ReadonlySet<string>,
+    providerOverride: ExtractorName | null,
+    max: number
+  ): PersistentPendingMessage[] {
+    if (max <= 0 || toolNames.size === 0) return [];
+
+    const claimTx = this.db.transaction(() => {
+      const candidates = this.db.prepare(`
+        SELECT * FROM pending_messages
+        WHERE session_db_id = ? AND status = 'pending'
+        ${CLAIM_ORDER}
+        LIMIT ?
+      `).all(sessionDbId, max) as PersistentPendingMessage[];
+
+      const claimed: PersistentPendingMessage[] = [];
+      for (const msg of candidates) {
+        if (msg.message_type !== 'observation' || !msg.tool_name || !toolNames.has(msg.tool_name)
+          || msg.provider_override !== providerOverride) {
+          break;
+        }
+        claimed.push(msg);
+      }
+
+      const deleteStmt = this.db.prepare('DELETE FROM pending_messages WHERE id = ?');
+      for (const msg of claimed) {
+        deleteStmt.run(msg.id);
+      }
+      return claimed;
+    });
+
+    const claimed = claimTx() as PersistentPendingMessage[];
+    if (claimed.length > 0) {
+      logger.info('QUEUE', `COALESCED | sessionDbId=${sessionDbId} | messageIds=${claimed.map(m => m.id).join(',')}`, {
+        sessionId: sessionDbId
+      });
+    }
+    return claimed;
+  }
+
+  /**
+   * Count pending messages of a session queued before the given message ID
+   * (tells whether a prioritized message jumped the queue)
+   */
+  countPendingBefore(sessionDbId: number, messageId: number): number {
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as count FROM pending_messages
+      WHERE session_db_id = ? AND status = 'pending' AND id < ?
+    `);
+    const result = stmt.get(sessionDbId, messageId) as { count: number };
+    return result.count;
+  }
+
+  /**
+   * Get a single queue message by ID
+   */
+  getMessage(messageId: number): PersistentPendingMessage | null {
+    const stmt = this.db.prepare('SELECT * FROM pending_messages WHERE id = ?');
+    return (stmt.get(messageId) as PersistentPendingMessage | undefined) ?? null;
+  }
+
   /**
    * Get all pending messages for session (ordered by creation time)
    */
@@ -186,9 +311,10 @@ export class PendingMessageStore {
   /**
    * Mark all processing messages for a session as failed
    * Used in error recovery when session generator crashes
+   * @param error - Failure reason stored in last_error
    * @returns Number of messages marked failed
    */
-  markSessionMessagesFailed(sessionDbId: number): number {
+  markSessionMessagesFailed(sessionDbId: number, error: string | null = null): number {
     const now = Date.now();
 
     // Atomic update - all processing messages for session → failed
@@ -196,14 +322,130 @@ export class PendingMessageStore {
     // not message-level. Individual message failures use markFailed() instead.
     const stmt = this.db.prepare(`
       UPDATE pending_messages
-      SET status = 'failed', failed_at_epoch = ?
+      SET status = 'failed', failed_at_epoch = ?, last_error = COALESCE(?, last_error)
       WHERE session_db_id = ? AND status = 'processing'
     `);
 
-    const result = stmt.run(now, sessionDbId);
+    const result = stmt.run(now, error, sessionDbId);
     return result.changes;
   }
 
+  /**
+   * Re-insert claimed messages as failed (dead letters)
+   * Claimed messages are already deleted from the queue, so when a generator crashes
+   * the messages it was processing would otherwise be lost. They keep their original
+   * created_at_epoch so observations from a replay get accurate timestamps.
+   * @returns Number of messages dead-lettered
+   */
+  deadLetter(sessionDbId: number, contentSessionId: string, messages: PendingMessageWithId[], error: string): number {
+    if (messages.length === 0) return 0;
+
+    const now = Date.now();
+    const stmt = this.db.prepare(`
+      INSERT INTO pending_messages (
+        session_db_id, content_session_id, message_type,
+        tool_name, tool_input, tool_response, cwd,
+        last_assistant_message,
+        prompt_number, redaction_count, status, retry_count, created_at_epoch,
+        failed_at_epoch, last_error
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'failed', ?, ?, ?, ?)
+    `);
+
+    const insertAll = this.db.transaction(() => {
+      for (const message of messages) {
+        stmt.run(
+          sessionDbId,
+          contentSessionId,
+          message.type,
+          message.tool_name || null,
+          message.tool_input ? JSON.stringify(message.tool_input) : null,
+          message.tool_response ? JSON.stringify(message.tool_response) : null,
+          message.cwd || null,
+          message.last_assistant_message || null,
+          message.prompt_number || null,
+          message.redaction_count ?? 0,
+          message._retryCount,
+          message._originalTimestamp,
+          now,
+          error
+        );
+      }
+    });
+    insertAll();
+
+    logger.warn('QUEUE', `DEAD-LETTERED | sessionDbId=${sessionDbId} | count=${messages.length}`, {
+      sessionId: sessionDbId
+    });
+    return messages.length;
+  }
+
+  /**
+   * Move failed messages back to pending
+   * @param messageIds - Messages to replay, or null for every failed message
+   * @param providerOverride - Provider that must process the replayed messages (null = normal routing)
+   * @returns Number of replayed messages and the sessions whose queues need a generator
+   */
+  replayFailed(
+    messageIds: number[] | null,
+    providerOverride: ExtractorName | null = null
+  ): { replayed: number; sessionDbIds: number[] } {
+    if (messageIds && messageIds.length === 0) {
+      return { replayed: 0, sessionDbIds: [] };
+    }
+    const idFilter = messageIds ? `AND id IN (${messageIds.map(() => '?').join(', ')})` : '';
+
+    const replayTx = this.db.transaction(() => {
+      const sessions = this.db.prepare(`
+        SELECT DISTINCT session_db_id FROM pending_messages
+        WHERE status = 'failed' ${idFilter}
+      `).all(...(messageIds ?? [])) as { session_db_id: number }[];
+
+      const result = this.db.prepare(`
+        UPDATE pending_messages
+        SET status = 'pending', retry_count = retry_count + 1, provider_override = ?,
+            started_processing_at_epoch = NULL
+        WHERE status = 'failed' ${idFilter}
+      `).run(providerOverride, ...(messageIds ?? []));
+
+      return { replayed: result.changes, sessionDbIds: sessions.map(s => s.session_db_id) };
+    });
+
+    return replayTx() as { replayed: number; sessionDbIds: number[] };
+  }
+
+  /**
+   * Edit the payload of a pending or failed message (e.g. to trim an oversized tool response before a retry)
+   * @returns false when the message does not exist or is being processed
+   */
+  updateMessagePayload(messageId: number, changes: PendingMessagePayloadUpdate): boolean {
+    const assignments: string[] = [];
+    const values: (string | null)[] = [];
+
+    if (changes.tool_input !== undefined) {
+      assignments.push('tool_input = ?');
+      values.push(changes.tool_input === null ? null : JSON.stringify(changes.tool_input));
+    }
+    if (changes.tool_response !== undefined) {
+      assignments.push('tool_response = ?');
+      values.push(changes.tool_response === null ? null : JSON.stringify(changes.tool_response));
+    }
+    if (changes.last_assistant_message !== undefined) {
+      assignments.push('last_assistant_message = ?');
+      values.push(changes.last_assistant_message);
+    }
+    if (assignments.length === 0) {
+      return this.getMessage(messageId) !== null;
+    }
+
+    const stmt = this.db.prepare(`
+      UPDATE pending_messages
+      SET ${assignments.join(', ')}
+      WHERE id = ? AND status IN ('pending', 'failed')
+    `);
+    const result = stmt.run(...values, messageId);
+    return result.changes > 0;
+  }
+
   /**
    * Abort a specific message (delete from queue)
    */
@@ -248,8 +490,9 @@ export class PendingMessageStore {
    * Mark message as failed (status: pending -> failed or back to pending for retry)
    * If retry_count < maxRetries, moves back to 'pending' for retry
    * Otherwise marks as 'failed' permanently
+   * @param error - Failure reason stored in last_error
    */
-  markFailed(messageId: number): void {
+  markFailed(messageId: number, error: string | null = null): void {
     const now = Date.now();
 
     // Get current retry count
@@ -261,18 +504,19 @@ export class PendingMessageStore {
       // Move back to pending for retry
       const stmt = this.db.prepare(`
         UPDATE pending_messages
-        SET status = 'pending', retry_count = retry_count + 1, started_processing_at_epoch = NULL
+        SET status = 'pending', retry_count = retry_count + 1, started_processing_at_epoch = NULL,
+            last_error = COALESCE(?, last_error)
         WHERE id = ?
       `);
-      stmt.run(messageId);
+      stmt.run(error, messageId);
     } else {
       // Max retries exceeded, mark as permanently failed
       const stmt = this.db.prepare(`
         UPDATE pending_messages
-        SET status = 'failed', completed_at_epoch = ?
+        SET status = 'failed', completed_at_epoch = ?, failed_at_epoch = ?, last_error = COALESCE(?, last_error)
         WHERE id = ?
       `);
-      stmt.run(now, messageId);
+      stmt.run(now, now, error, messageId);
     }
   }
 
@@ -306,6 +550,34 @@ export class PendingMessageStore {
     return result.count;
   }
 
+  /**
+   * Count pending messages across all sessions (intake backpressure)
+   */
+  getTotalPendingCount(): number {
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as count FROM pending_messages
+      WHERE status = 'pending'
+    `);
+    const result = stmt.get() as { count: number };
+    return result.count;
+  }
+
+  /**
+   * Count queue messages by status across all sessions (queue depth metrics)
+   */
+  getStatusCounts(): Record<PersistentPendingMessage['status'], number> {
+    const rows = this.db.prepare(`
+      SELECT status, COUNT(*) as count FROM pending_messages
+      GROUP BY status
+    `).all() as { status: PersistentPendingMessage['status']; count: number }[];
+
+    const counts: Record<PersistentPendingMessage['status'], number> = { pending: 0, processing: 0, processed: 0, failed: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
   /**
    * Check if any session has pending work
    */
@@ -395,7 +667,8 @@ export class PendingMessageStore {
       tool_response: persistent.tool_response ? JSON.parse(persistent.tool_response) : undefined,
       prompt_number: persistent.prompt_number || undefined,
       cwd: persistent.cwd || undefined,
-      last_assistant_message: persistent.last_assistant_message || undefined
+      last_assistant_message: persistent.last_assistant_message || undefined,
+      redaction_count: persistent.redaction_count || undefined
     };
   }
 }
@@ -9,3 +9,4 @@ import { logger } from '../../utils/logger.js';
 export * from './prompts/types.js';
 export * from './prompts/store.js';
 export * from './prompts/get.js';
+export * from './prompts/injections.js';
@@ -0,0 +1,8 @@
+/**
+ * ProviderUsage module - named re-exports
+ * Per-provider token and cost accounting used by provider routing budgets
+ */
+import { logger } from '../../utils/logger.js';
+
+export * from './usage/types.js';
+export * from './usage/store.js';
@@ -0,0 +1,9 @@
+/**
+ * Revisions module - named re-exports
+ * Provides the audit trail for manual observation and summary edits
+ */
+import { logger } from '../../utils/logger.js';
+
+export * from './revisions/types.js';
+export * from './revisions/store.js';
+export * from './revisions/get.js';
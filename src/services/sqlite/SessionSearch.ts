@@ -13,10 +13,98 @@ import {
   UserPromptRow
 } from './types.js';
 
+/**
+ * BM25 column weights for observations_fts
+ * Column order: title, subtitle, narrative, text, facts, concepts
+ */
+const OBSERVATIONS_FTS_WEIGHTS = [10.0, 5.0, 2.0, 1.0, 3.0, 3.0];
+
+/**
+ * BM25 column weights for session_summaries_fts
+ * Column order: request, investigated, learned, completed, next_steps, notes
+ */
+const SESSION_SUMMARIES_FTS_WEIGHTS = [5.0, 1.0, 2.0, 2.0, 1.0, 1.0];
+
+/**
+ * Markers wrapped around matched terms in snippets (markdown bold)
+ */
+const SNIPPET_OPEN = '**';
+const SNIPPET_CLOSE = '**';
+const SNIPPET_ELLIPSIS = '…';
+const SNIPPET_TOKENS = 12;
+
+/**
+ * Translate user search syntax into an FTS5 MATCH expression
+ *
+ * Supported syntax:
+ * - words: all must match (implicit AND)
+ * - "exact phrase": phrase match
+ * - prefix*: prefix match (also "phrase prefix"*)
+ * - -word, -"phrase", NOT word: exclude documents containing the term
+ *
+ * Every term is quoted, so punctuation in user input can never produce an FTS5 syntax error.
+ * Returns null when nothing positive remains to match (FTS5 cannot evaluate a pure NOT).
+ */
+export function buildFtsMatchQuery(input: string): string | null {
+  const tokens = input.match(/-?"[^"]*"\*?|\S+/g) ?? [];
+  const include: string[] = [];
+  const exclude: string[] = [];
+  let negateNext = false;
+
+  for (const raw of tokens) {
+    if (raw === 'NOT') {
+      negateNext = true;
+      continue;
+    }
+    if (raw === 'AND') {
+      continue;
+    }
+
+    let token = raw;
+    let negate = negateNext;
+    negateNext = false;
+    if (token.length > 1 && token.startsWith('-')) {
+      negate = true;
+      token = token.slice(1);
+    }
+
+    const term = toFtsTerm(token);
+    if (term) {
+      (negate ? exclude : include).push(term);
+    }
+  }
+
+  if (include.length === 0) {
+    return null;
+  }
+
+  const positive = include.join(' ');
+  return exclude.length > 0 ? `(${positive}) NOT ${exclude.join(' NOT ')}` : positive;
+}
+
+/**
+ * Quote a single word or phrase token as an FTS5 string, keeping a trailing prefix marker
+ */
+function toFtsTerm(token: string): string | null {
+  const isPrefix = token.endsWith('*');
+  let body = isPrefix ? token.slice(0, -1) : token;
+  if (body.length >= 2 && body.startsWith('"') && body.endsWith('"')) {
+    body = body.slice(1, -1);
+  }
+  body = body.replace(/"/g, '').trim();
+  if (!body) {
+    return null;
+  }
+  return `"${body}"${isPrefix ? '*' : ''}`;
+}
+
 /**
  * Search interface for session-based memory
- * Provides filter-only structured queries for sessions, observations, and user prompts
- * Vector search is handled by ChromaDB - this class only supports filtering without query text
+ * Provides structured filter queries and FTS5 keyword search (BM25-ranked, with snippets)
+ * for sessions, observations, and user prompts. Vector search is handled by ChromaDB.
+ *
+ * Query text passed to the search methods must be a valid FTS5 MATCH expression;
+ * use buildFtsMatchQuery() to translate user input.
  */
 export class SessionSearch {
   private db: Database;
@@ -31,21 +119,15 @@ export class SessionSearch {
 
     // Ensure FTS tables exist
     this.ensureFTSTables();
+    this.configureFTSRanking();
   }
 
   /**
-   * Ensure FTS5 tables exist (backward compatibility only - no longer used for search)
+   * Ensure FTS5 tables exist
    *
-   * FTS5 tables are maintained for backward compatibility but not used for search.
-   * Vector search (Chroma) is now the primary search mechanism.
-   *
-   * Retention Rationale:
-   * - Prevents breaking existing installations with FTS5 tables
-   * - Allows graceful migration path for users
-   * - Tables maintained but search paths removed
-   * - Triggers still fire to keep tables synchronized
-   *
-   * TODO: Remove FTS5 infrastructure in future major version (v7.0.0)
+   * observations_fts and session_summaries_fts back keyword search (FTSSearchStrategy),
+   * which ranks by BM25 and works without Chroma. Triggers keep them in sync with
+   * their content tables. user_prompts_fts is created by migration 10.
    */
   private ensureFTSTables(): void {
     // Check if FTS tables already exist
@@ -144,6 +226,35 @@ export class SessionSearch {
     logger.info('DB', 'FTS5 tables created successfully');
   }
 
+  /**
+   * Set the default FTS5 rank function to column-weighted BM25
+   * so that ORDER BY rank favors matches in titles and requests over body text.
+   * Stored in the FTS config table; only written when the stored setting differs,
+   * so weight changes take effect without every connection taking a write lock.
+   */
+  private configureFTSRanking(): void {
+    const settings: Array<[string, number[]]> = [
+      ['observations_fts', OBSERVATIONS_FTS_WEIGHTS],
+      ['session_summaries_fts', SESSION_SUMMARIES_FTS_WEIGHTS]
+    ];
+
+    for (const [ftsTable, weights] of settings) {
+      const rank = `bm25(${weights.join(', ')})`;
+      const current = this.db.prepare(`SELECT v FROM ${ftsTable}_config WHERE k = 'rank'`).get() as { v: string } | null;
+      if (current?.v === rank) continue;
+
+      this.db.run(`INSERT INTO ${ftsTable}(${ftsTable}, rank) VALUES('rank', '${rank}')`);
+      logger.debug('DB', 'Configured FTS5 ranking', { ftsTable, rank });
+    }
+  }
+
+  /**
+   * Build the snippet() expression for an FTS5 table (best matching column)
+   */
+  private buildSnippetExpression(ftsTable: string): string {
+    return `snippet(${ftsTable}, -1, '${SNIPPET_OPEN}', '${SNIPPET_CLOSE}', '${SNIPPET_ELLIPSIS}', ${SNIPPET_TOKENS})`;
+  }
+
 
   /**
    * Build WHERE clause for structured filters
@@ -237,8 +348,9 @@ export class SessionSearch {
   }
 
   /**
-   * Search observations using filter-only direct SQLite query.
-   * Vector search is handled by ChromaDB - this only supports filtering without query text.
+   * Search observations.
+   * Without query text, runs a filter-only direct SQLite query.
+   * With query text (an FTS5 MATCH expression), runs a BM25-ranked keyword search with snippets.
    */
   searchObservations(query: string | undefined, options: SearchOptions = {}): ObservationSearchResult[] {
     const params: any[] = [];
@@ -258,6 +370,7 @@ export class SessionSearch {
         SELECT o.*, o.discovery_tokens
         FROM observations o
         WHERE ${filterClause}
+          AND o.forgotten_at_epoch IS NULL
         ${orderClause}
         LIMIT ? OFFSET ?
       `;
@@ -266,15 +379,31 @@ export class SessionSearch {
       return this.db.prepare(sql).all(...params) as ObservationSearchResult[];
     }
 
-    // Vector search with query text should be handled by ChromaDB
-    // This method only supports filter-only queries (query=undefined)
-    logger.warn('DB', 'Text search not supported - use ChromaDB for vector search');
-    return [];
+    // FTS PATH: BM25-ranked keyword search
+    params.push(query);
+    const filterClause = this.buildFilterClause(filters, params, 'o');
+    const orderClause = this.buildOrderClause(orderBy, true, 'observations_fts');
+
+    const sql = `
+      SELECT o.*, o.discovery_tokens, observations_fts.rank AS rank,
+        ${this.buildSnippetExpression('observations_fts')} AS snippet
+      FROM observations_fts
+      JOIN observations o ON o.id = observations_fts.rowid
+      WHERE observations_fts MATCH ?
+        AND o.forgotten_at_epoch IS NULL
+      ${filterClause ? `AND ${filterClause}` : ''}
+      ${orderClause}
+      LIMIT ? OFFSET ?
+    `;
+
+    params.push(limit, offset);
+    return this.db.prepare(sql).all(...params) as ObservationSearchResult[];
   }
 
   /**
-   * Search session summaries using filter-only direct SQLite query.
-   * Vector search is handled by ChromaDB - this only supports filtering without query text.
+   * Search session summaries.
+   * Without query text, runs a filter-only direct SQLite query.
+   * With query text (an FTS5 MATCH expression), runs a BM25-ranked keyword search with snippets.
    */
   searchSessions(query: string | undefined, options: SearchOptions = {}): SessionSummarySearchResult[] {
     const params: any[] = [];
@@ -305,10 +434,30 @@ export class SessionSearch {
       return this.db.prepare(sql).all(...params) as SessionSummarySearchResult[];
     }
 
-    // Vector search with query text should be handled by ChromaDB
-    // This method only supports filter-only queries (query=undefined)
-    logger.warn('DB', 'Text search not supported - use ChromaDB for vector search');
-    return [];
+    // FTS PATH: BM25-ranked keyword search
+    params.push(query);
+    const filterOptions = { ...filters };
+    delete filterOptions.type;
+    const filterClause = this.buildFilterClause(filterOptions, params, 's');
+    const orderClause = orderBy === 'relevance'
+      ? 'ORDER BY session_summaries_fts.rank ASC'
+      : orderBy === 'date_asc'
+        ? 'ORDER BY s.created_at_epoch ASC'
+        : 'ORDER BY s.created_at_epoch DESC';
+
+    const sql = `
+      SELECT s.*, s.discovery_tokens, session_summaries_fts.rank AS rank,
+        ${this.buildSnippetExpression('session_summaries_fts')} AS snippet
+      FROM session_summaries_fts
+      JOIN session_summaries s ON s.id = session_summaries_fts.rowid
+      WHERE session_summaries_fts MATCH ?
+      ${filterClause ? `AND ${filterClause}` : ''}
+      ${orderClause}
+      LIMIT ? OFFSET ?
+    `;
+
+    params.push(limit, offset);
+    return this.db.prepare(sql).all(...params) as SessionSummarySearchResult[];
   }
 
   /**
@@ -327,6 +476,7 @@ export class SessionSearch {
       SELECT o.*, o.discovery_tokens
       FROM observations o
       WHERE ${filterClause}
+        AND o.forgotten_at_epoch IS NULL
       ${orderClause}
       LIMIT ? OFFSET ?
     `;
@@ -404,6 +554,7 @@ export class SessionSearch {
       SELECT o.*, o.discovery_tokens
       FROM observations o
       WHERE ${filterClause}
+        AND o.forgotten_at_epoch IS NULL
       ${orderClause}
       LIMIT ? OFFSET ?
     `;
@@ -488,6 +639,7 @@ export class SessionSearch {
       SELECT o.*, o.discovery_tokens
       FROM observations o
       WHERE ${filterClause}
+        AND o.forgotten_at_epoch IS NULL
       ${orderClause}
       LIMIT ? OFFSET ?
     `;
@@ -498,8 +650,9 @@ export class SessionSearch {
   }
 
   /**
-   * Search user prompts using filter-only direct SQLite query.
-   * Vector search is handled by ChromaDB - this only supports filtering without query text.
+   * Search user prompts.
+   * Without query text, runs a filter-only direct SQLite query.
+   * With query text (an FTS5 MATCH expression), runs a BM25-ranked keyword search with snippets.
    */
   searchUserPrompts(query: string | undefined, options: SearchOptions = {}): UserPromptSearchResult[] {
     const params: any[] = [];
@@ -550,10 +703,26 @@ export class SessionSearch {
       return this.db.prepare(sql).all(...params) as UserPromptSearchResult[];
     }
 
-    // Vector search with query text should be handled by ChromaDB
-    // This method only supports filter-only queries (query=undefined)
-    logger.warn('DB', 'Text search not supported - use ChromaDB for vector search');
-    return [];
+    // FTS PATH: BM25-ranked keyword search (MATCH parameter goes before the filter params)
+    const conditions = ['user_prompts_fts MATCH ?', ...baseConditions];
+    const orderClause = orderBy === 'relevance'
+      ? 'ORDER BY user_prompts_fts.rank ASC'
+      : orderBy === 'date_asc'
+        ? 'ORDER BY up.created_at_epoch ASC'
+        : 'ORDER BY up.created_at_epoch DESC';
+
+    const sql = `
+      SELECT up.*, user_prompts_fts.rank AS rank,
+        ${this.buildSnippetExpression('user_prompts_fts')} AS snippet
+      FROM user_prompts_fts
+      JOIN user_prompts up ON up.id = user_prompts_fts.rowid
+      JOIN sdk_sessions s ON up.content_session_id = s.content_session_id
+      WHERE ${conditions.join(' AND ')}
+      ${orderClause}
+      LIMIT ? OFFSET ?
+    `;
+
+    return this.db.prepare(sql).all(query, ...params, limit, offset) as UserPromptSearchResult[];
   }
 
   /**
@@ -10,9 +10,34 @@ import {
   ObservationRecord,
   SessionSummaryRecord,
   UserPromptRecord,
-  LatestPromptResult
+  LatestPromptResult,
+  ObservationOrigin
 } from '../../types/database.js';
 import type { PendingMessageStore } from './PendingMessageStore.js';
+import { updateObservation, deleteObservation, forgetObservation, mergeObservations } from './observations/edit.js';
+import { recordObservationRetrievals } from './observations/retrievals.js';
+import { getRecentSessionObservations } from './observations/recent.js';
+import { storeUserMemory } from './observations/memories.js';
+import { recordFileContextInjections, getFileContextInjectedIds } from './observations/injections.js';
+import type { ObservationInput, ObservationUpdate, MergeObservationsResult, RecentSessionObservationRow, StoreObservationResult } from './observations/types.js';
+import { addAnnotation } from './annotations/store.js';
+import { getAnnotations } from './annotations/get.js';
+import type { AnnotationRecord } from './annotations/types.js';
+import { recordPromptContextInjections, getPromptContextInjections, getInjectedObservationIds } from './prompts/injections.js';
+import type { PromptContextInjection, PromptContextInjectionRecord } from './prompts/types.js';
+import { updateSummary, deleteSummary } from './summaries/edit.js';
+import type { SummaryUpdate } from './summaries/types.js';
+import { getRevisions } from './revisions/get.js';
+import type { RevisionEntityType, RevisionRecord } from './revisions/types.js';
+import { exportArchive } from './archive/export.js';
+import { importArchive } from './archive/import.js';
+import type { ArchiveFilters, ArchiveImportOptions, ArchiveImportResult, MemoryArchive } from './archive/types.js';
+import { findCoChangedFiles, findFileDecisions, findFolderConcepts, getGraphNeighborhood } from './graph/queries.js';
+import type { CoChangedFile, FileDecision, FolderConcept, GraphNeighborhood, GraphNodeRef, GraphQueryOptions } from './graph/types.js';
+import { getDigestById, getDigestsByProjects } from './digests/store.js';
+import type { DigestWithSources, ObservationDigest } from './digests/types.js';
+import { getProviderSpendSince, recordProviderUsage } from './usage/store.js';
+import type { ProviderSpend, RecordProviderUsageInput } from './usage/types.js';
 
 /**
  * Session data store for SDK sessions, observations, and summaries
@@ -47,6 +72,22 @@ export class SessionStore {
     this.renameSessionIdColumns();
     this.repairSessionIdColumnRename();
     this.addFailedAtEpochColumn();
+    this.createObservationRevisionsTable();
+    this.addObservationRetrievalColumns();
+    this.createVectorDocumentsTable();
+    this.addTeamSyncColumns();
+    this.addPendingRedactionCountColumn();
+    this.createKnowledgeGraphTables();
+    this.createDigestTables();
+    this.createProviderUsageTable();
+    this.addObservationOriginColumn();
+    this.addObservationQualityColumn();
+    this.addPendingDeadLetterColumns();
+    this.addPendingPriorityColumn();
+    this.createObservationAnnotationsTable();
+    this.addObservationForgottenColumns();
+    this.createFileContextInjectionsTable();
+    this.createPromptContextInjectionsTable();
   }
 
   /**
@@ -645,6 +686,466 @@ export class SessionStore {
     this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(20, new Date().toISOString());
   }
 
+  /**
+   * Create observation_revisions table for the edit/merge/delete audit trail (migration 21)
+   * Records a before/after snapshot for every manual change to an observation or summary.
+   */
+  private createObservationRevisionsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(21) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity_type TEXT NOT NULL CHECK(entity_type IN ('observation', 'summary')),
+        entity_id INTEGER NOT NULL,
+        action TEXT NOT NULL CHECK(action IN ('update', 'delete', 'merge')),
+        changed_by TEXT NOT NULL,
+        reason TEXT,
+        before_json TEXT,
+        after_json TEXT,
+        created_at TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_revisions_entity ON observation_revisions(entity_type, entity_id)');
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_revisions_created ON observation_revisions(created_at_epoch DESC)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(21, new Date().toISOString());
+
+    logger.debug('DB', 'observation_revisions table created successfully');
+  }
+
+  /**
+   * Add retrieval tracking columns to observations (migration 22)
+   * Counts how often an observation is returned by search or get_observations,
+   * which feeds the relevance score used for context injection.
+   */
+  private addObservationRetrievalColumns(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(22) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+
+    if (!tableInfo.some(col => col.name === 'retrieval_count')) {
+      this.db.run('ALTER TABLE observations ADD COLUMN retrieval_count INTEGER DEFAULT 0');
+      logger.debug('DB', 'Added retrieval_count column to observations table');
+    }
+
+    if (!tableInfo.some(col => col.name === 'last_retrieved_at_epoch')) {
+      this.db.run('ALTER TABLE observations ADD COLUMN last_retrieved_at_epoch INTEGER');
+      logger.debug('DB', 'Added last_retrieved_at_epoch column to observations table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(22, new Date().toISOString());
+  }
+
+  /**
+   * Create vector_documents table for the SQLite vector backend (migration 23)
+   * Stores one embedding per Chroma-style document when CLAUDE_MEM_VECTOR_BACKEND is 'sqlite'.
+   */
+  private createVectorDocumentsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(23) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS vector_documents (
+        id TEXT NOT NULL,
+        collection TEXT NOT NULL,
+        doc_type TEXT NOT NULL,
+        sqlite_id INTEGER NOT NULL,
+        document TEXT NOT NULL,
+        metadata_json TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        model TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL,
+        PRIMARY KEY (collection, id)
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_vector_documents_record ON vector_documents(collection, doc_type, sqlite_id)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(23, new Date().toISOString());
+
+    logger.debug('DB', 'vector_documents table created successfully');
+  }
+
+  /**
+   * Add team sync columns to observations and session_summaries (migration 24)
+   * sync_id is the record's identity on the sync server, origin_author marks records
+   * pulled from teammates (NULL for local records), and synced_revision is the last
+   * revision pushed (local records) or applied (pulled records).
+   */
+  private addTeamSyncColumns(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(24) as SchemaVersion | undefined;
+    if (applied) return;
+
+    for (const table of ['observations', 'session_summaries']) {
+      const tableInfo = this.db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[];
+
+      for (const column of ['sync_id TEXT', 'origin_author TEXT', 'synced_revision INTEGER']) {
+        const name = column.split(' ')[0];
+        if (!tableInfo.some(col => col.name === name)) {
+          this.db.run(`ALTER TABLE ${table} ADD COLUMN ${column}`);
+          logger.debug('DB', `Added ${name} column to ${table} table`);
+        }
+      }
+
+      this.db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_sync_id ON ${table}(sync_id)`);
+    }
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS team_sync_state (
+        project TEXT PRIMARY KEY,
+        pull_cursor INTEGER NOT NULL DEFAULT 0,
+        last_push_at_epoch INTEGER,
+        last_pull_at_epoch INTEGER
+      )
+    `);
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(24, new Date().toISOString());
+
+    logger.debug('DB', 'Team sync columns and team_sync_state table created successfully');
+  }
+
+  /**
+   * Add redaction_count column to pending_messages (migration 25)
+   * Number of secrets the hook redacted from the tool input/response before queueing.
+   */
+  private addPendingRedactionCountColumn(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(25) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(pending_messages)').all() as TableColumnInfo[];
+    const hasColumn = tableInfo.some(col => col.name === 'redaction_count');
+
+    if (!hasColumn) {
+      this.db.run('ALTER TABLE pending_messages ADD COLUMN redaction_count INTEGER DEFAULT 0');
+      logger.debug('DB', 'Added redaction_count column to pending_messages table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(25, new Date().toISOString());
+  }
+
+  /**
+   * Create knowledge graph join tables (migration 26)
+   * observation_files and observation_concepts normalize the files_read, files_modified and
+   * concepts JSON columns so graph queries can join on them. Triggers keep them in sync with
+   * observations on insert, update and delete, the same way the FTS tables are maintained.
+   */
+  private createKnowledgeGraphTables(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(26) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_files (
+        observation_id INTEGER NOT NULL,
+        file_path TEXT NOT NULL,
+        relation TEXT NOT NULL CHECK(relation IN ('read', 'modified')),
+        PRIMARY KEY (observation_id, file_path, relation)
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_files_path ON observation_files(file_path, relation)');
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_concepts (
+        observation_id INTEGER NOT NULL,
+        concept TEXT NOT NULL,
+        PRIMARY KEY (observation_id, concept)
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_concepts_concept ON observation_concepts(concept)');
+
+    // Edges for `new` (inside triggers) or for every existing row (backfill).
+    // Malformed JSON is treated as an empty list so a bad row never blocks the insert.
+    const insertEdges = (row: 'new' | 'observations') => {
+      const source = row === 'observations' ? 'observations, ' : '';
+      const each = (column: string) =>
+        `${source}json_each(CASE WHEN json_valid(${row}.${column}) THEN ${row}.${column} ELSE '[]' END) AS j`;
+      return `
+        INSERT OR IGNORE INTO observation_files (observation_id, file_path, relation)
+        SELECT ${row}.id, j.value, 'read' FROM ${each('files_read')} WHERE j.type = 'text' AND j.value != '';
+        INSERT OR IGNORE INTO observation_files (observation_id, file_path, relation)
+        SELECT ${row}.id, j.value, 'modified' FROM ${each('files_modified')} WHERE j.type = 'text' AND j.value != '';
+        INSERT OR IGNORE INTO observation_concepts (observation_id, concept)
+        SELECT ${row}.id, j.value FROM ${each('concepts')} WHERE j.type = 'text' AND j.value != '';
+      `;
+    };
+
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS observations_graph_ai AFTER INSERT ON observations BEGIN
+        ${insertEdges('new')}
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS observations_graph_ad AFTER DELETE ON observations BEGIN
+        DELETE FROM observation_files WHERE observation_id = old.id;
+        DELETE FROM observation_concepts WHERE observation_id = old.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS observations_graph_au AFTER UPDATE OF files_read, files_modified, concepts ON observations BEGIN
+        DELETE FROM observation_files WHERE observation_id = old.id;
+        DELETE FROM observation_concepts WHERE observation_id = old.id;
+        ${insertEdges('new')}
+      END;
+    `);
+
+    // Backfill existing observations
+    this.db.run(insertEdges('observations'));
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(26, new Date().toISOString());
+
+    logger.debug('DB', 'Knowledge graph tables created successfully');
+  }
+
+  /**
+   * Create digest tables for consolidated long-term memory (migration 27)
+   * Digests summarize groups of older observations; digest_sources links each digest to
+   * the observations it was written from, which stay in place and remain searchable.
+   */
+  private createDigestTables(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(27) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_digests (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project TEXT NOT NULL,
+        folder TEXT NOT NULL DEFAULT '',
+        concept TEXT NOT NULL DEFAULT '',
+        title TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        facts TEXT,
+        source_count INTEGER NOT NULL DEFAULT 0,
+        period_start_epoch INTEGER NOT NULL,
+        period_end_epoch INTEGER NOT NULL,
+        provider TEXT,
+        created_at TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_digests_project ON observation_digests(project, period_end_epoch DESC)');
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS digest_sources (
+        digest_id INTEGER NOT NULL REFERENCES observation_digests(id) ON DELETE CASCADE,
+        observation_id INTEGER NOT NULL REFERENCES observations(id) ON DELETE CASCADE,
+        PRIMARY KEY (digest_id, observation_id)
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_digest_sources_observation ON digest_sources(observation_id)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(27, new Date().toISOString());
+
+    logger.debug('DB', 'Digest tables created successfully');
+  }
+
+  /**
+   * Create provider usage table for routing budgets (migration 28)
+   * One row per agent response with its token count and estimated cost.
+   */
+  private createProviderUsageTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(28) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS provider_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        provider TEXT NOT NULL,
+        session_db_id INTEGER,
+        tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_provider_usage_created ON provider_usage(created_at_epoch)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(28, new Date().toISOString());
+
+    logger.debug('DB', 'Provider usage table created successfully');
+  }
+
+  /**
+   * Add origin column to observations (migration 29)
+   * Marks observations written by the heuristic extractor; existing rows came from an LLM.
+   */
+  private addObservationOriginColumn(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(29) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const hasOrigin = tableInfo.some(col => col.name === 'origin');
+
+    if (!hasOrigin) {
+      this.db.run("ALTER TABLE observations ADD COLUMN origin TEXT NOT NULL DEFAULT 'llm'");
+      logger.debug('DB', 'Added origin column to observations table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(29, new Date().toISOString());
+  }
+
+  /**
+   * Add quality_score column to observations (migration 30)
+   * Score from QualityEvaluator in [0, 1]; NULL for observations stored before scoring existed.
+   */
+  private addObservationQualityColumn(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(30) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const hasQualityScore = tableInfo.some(col => col.name === 'quality_score');
+
+    if (!hasQualityScore) {
+      this.db.run('ALTER TABLE observations ADD COLUMN quality_score REAL');
+      logger.debug('DB', 'Added quality_score column to observations table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(30, new Date().toISOString());
+  }
+
+  /**
+   * Add last_error and provider_override columns to pending_messages (migration 31)
+   * last_error records why a message was dead-lettered; provider_override pins a
+   * replayed message to the provider chosen in the viewer's queue panel.
+   */
+  private addPendingDeadLetterColumns(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(31) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(pending_messages)').all() as TableColumnInfo[];
+
+    if (!tableInfo.some(col => col.name === 'last_error')) {
+      this.db.run('ALTER TABLE pending_messages ADD COLUMN last_error TEXT');
+      logger.debug('DB', 'Added last_error column to pending_messages table');
+    }
+
+    if (!tableInfo.some(col => col.name === 'provider_override')) {
+      this.db.run('ALTER TABLE pending_messages ADD COLUMN provider_override TEXT');
+      logger.debug('DB', 'Added provider_override column to pending_messages table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(31, new Date().toISOString());
+  }
+
+  /**
+   * Add priority column to pending_messages (migration 32)
+   * Messages are claimed by priority first, then in queue order (summaries can jump the queue).
+   */
+  private addPendingPriorityColumn(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(32) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(pending_messages)').all() as TableColumnInfo[];
+    const hasPriority = tableInfo.some(col => col.name === 'priority');
+
+    if (!hasPriority) {
+      this.db.run('ALTER TABLE pending_messages ADD COLUMN priority INTEGER NOT NULL DEFAULT 0');
+      logger.debug('DB', 'Added priority column to pending_messages table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(32, new Date().toISOString());
+  }
+
+  /**
+   * Create observation_annotations table (migration 33)
+   * Notes attached to an observation after it was stored (e.g. through the MCP annotate tool).
+   */
+  private createObservationAnnotationsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(33) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_annotations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        observation_id INTEGER NOT NULL,
+        note TEXT NOT NULL,
+        author TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL,
+        FOREIGN KEY(observation_id) REFERENCES observations(id) ON DELETE CASCADE
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_annotations_observation ON observation_annotations(observation_id)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(33, new Date().toISOString());
+
+    logger.debug('DB', 'observation_annotations table created successfully');
+  }
+
+  /**
+   * Add forgotten_at_epoch and forgotten_reason columns to observations (migration 34)
+   * Set by the MCP forget tool; forgotten observations stay in the table (with their annotations)
+   * but are left out of context, search and vector sync.
+   */
+  private addObservationForgottenColumns(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(34) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const hasForgottenAt = tableInfo.some(col => col.name === 'forgotten_at_epoch');
+
+    if (!hasForgottenAt) {
+      this.db.run('ALTER TABLE observations ADD COLUMN forgotten_at_epoch INTEGER');
+      this.db.run('ALTER TABLE observations ADD COLUMN forgotten_reason TEXT');
+      logger.debug('DB', 'Added forgotten columns to observations table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(34, new Date().toISOString());
+  }
+
+  /**
+   * Create file_context_injections table (migration 35)
+   * Log of the observations injected before file tools (PreToolUse hook), so a memory is
+   * injected once per session even across worker restarts.
+   */
+  private createFileContextInjectionsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(35) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS file_context_injections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        content_session_id TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        observation_id INTEGER NOT NULL,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_file_context_injections_session ON file_context_injections(content_session_id)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(35, new Date().toISOString());
+
+    logger.debug('DB', 'file_context_injections table created successfully');
+  }
+
+  /**
+   * Create prompt_context_injections table (migration 36)
+   * Log of the observations injected with each user prompt by prompt-time retrieval.
+   */
+  private createPromptContextInjectionsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(36) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS prompt_context_injections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        content_session_id TEXT NOT NULL,
+        prompt_number INTEGER NOT NULL,
+        observation_id INTEGER NOT NULL,
+        similarity REAL NOT NULL,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_prompt_context_injections_session ON prompt_context_injections(content_session_id, prompt_number)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(36, new Date().toISOString());
+
+    logger.debug('DB', 'prompt_context_injections table created successfully');
+  }
+
   /**
    * Update the memory session ID for a session
    * Called by SDKAgent when it captures the session ID from the first SDK message
@@ -710,6 +1211,13 @@ export class SessionStore {
     return stmt.all(project, limit);
   }
 
+  /**
+   * Get the most recent observations of one session (for duplicate detection)
+   */
+  getRecentSessionObservations(memorySessionId: string, limit: number = 50): RecentSessionObservationRow[] {
+    return getRecentSessionObservations(this.db, memorySessionId, limit);
+  }
+
   /**
    * Get recent observations for a project
    */
@@ -923,6 +1431,7 @@ export class SessionStore {
 
   /**
    * Get observations by array of IDs with ordering and limit
+   * Forgotten observations are left out (IDs from search results can outlive a forget)
    */
   getObservationsByIds(
     ids: number[],
@@ -937,7 +1446,7 @@ export class SessionStore {
     // Build placeholders for IN clause
     const placeholders = ids.map(() => '?').join(',');
     const params: any[] = [...ids];
-    const additionalConditions: string[] = [];
+    const additionalConditions: string[] = ['forgotten_at_epoch IS NULL'];
 
     // Apply project filter
     if (project) {
@@ -979,9 +1488,7 @@ export class SessionStore {
       additionalConditions.push(`(${fileConditions.join(' OR ')})`);
     }
 
-    const whereClause = additionalConditions.length > 0
-      ? `WHERE id IN (${placeholders}) AND ${additionalConditions.join(' AND ')}`
-      : `WHERE id IN (${placeholders})`;
+    const whereClause = `WHERE id IN (${placeholders}) AND ${additionalConditions.join(' AND ')}`;
 
     const stmt = this.db.prepare(`
       SELECT *
@@ -1233,6 +1740,8 @@ export class SessionStore {
       concepts: string[];
       files_read: string[];
       files_modified: string[];
+      origin?: ObservationOrigin;
+      quality_score?: number | null;
     },
     promptNumber?: number,
     discoveryTokens: number = 0,
@@ -1245,8 +1754,8 @@ export class SessionStore {
     const stmt = this.db.prepare(`
       INSERT INTO observations
       (memory_session_id, project, type, title, subtitle, facts, narrative, concepts,
-       files_read, files_modified, prompt_number, discovery_tokens, created_at, created_at_epoch)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       files_read, files_modified, prompt_number, discovery_tokens, origin, quality_score, created_at, created_at_epoch)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
@@ -1262,6 +1771,8 @@ export class SessionStore {
       JSON.stringify(observation.files_modified),
       promptNumber || null,
       discoveryTokens,
+      observation.origin ?? 'llm',
+      observation.quality_score ?? null,
       timestampIso,
       timestampEpoch
     );
@@ -1351,6 +1862,8 @@ export class SessionStore {
       concepts: string[];
       files_read: string[];
       files_modified: string[];
+      origin?: ObservationOrigin;
+      quality_score?: number | null;
     }>,
     summary: {
       request: string;
@@ -1376,8 +1889,8 @@ export class SessionStore {
       const obsStmt = this.db.prepare(`
         INSERT INTO observations
         (memory_session_id, project, type, title, subtitle, facts, narrative, concepts,
-         files_read, files_modified, prompt_number, discovery_tokens, created_at, created_at_epoch)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         files_read, files_modified, prompt_number, discovery_tokens, origin, quality_score, created_at, created_at_epoch)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       for (const observation of observations) {
@@ -1394,6 +1907,8 @@ export class SessionStore {
           JSON.stringify(observation.files_modified),
           promptNumber || null,
           discoveryTokens,
+          observation.origin ?? 'llm',
+          observation.quality_score ?? null,
           timestampIso,
           timestampEpoch
         );
@@ -1469,6 +1984,8 @@ export class SessionStore {
       concepts: string[];
       files_read: string[];
       files_modified: string[];
+      origin?: ObservationOrigin;
+      quality_score?: number | null;
     }>,
     summary: {
       request: string;
@@ -1496,8 +2013,8 @@ export class SessionStore {
       const obsStmt = this.db.prepare(`
         INSERT INTO observations
         (memory_session_id, project, type, title, subtitle, facts, narrative, concepts,
-         files_read, files_modified, prompt_number, discovery_tokens, created_at, created_at_epoch)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         files_read, files_modified, prompt_number, discovery_tokens, origin, quality_score, created_at, created_at_epoch)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       for (const observation of observations) {
@@ -1514,6 +2031,8 @@ export class SessionStore {
           JSON.stringify(observation.files_modified),
           promptNumber || null,
           discoveryTokens,
+          observation.origin ?? 'llm',
+          observation.quality_score ?? null,
           timestampIso,
           timestampEpoch
         );
@@ -1755,6 +2274,7 @@ export class SessionStore {
       SELECT *
       FROM observations
       WHERE created_at_epoch >= ? AND created_at_epoch <= ? ${projectFilter}
+        AND forgotten_at_epoch IS NULL
       ORDER BY created_at_epoch ASC
     `;
 
@@ -1907,6 +2427,198 @@ export class SessionStore {
     return stmt.get(id) || null;
   }
 
+  /**
+   * Update editable observation fields and record the revision
+   * Returns null if the observation does not exist
+   */
+  updateObservation(id: number, changes: ObservationUpdate, changedBy: string): ObservationRecord | null {
+    return updateObservation(this.db, id, changes, changedBy);
+  }
+
+  /**
+   * Delete an observation and record a snapshot in the audit trail
+   * Returns the deleted record, or null if it did not exist
+   */
+  deleteObservation(id: number, changedBy: string, reason?: string | null): ObservationRecord | null {
+    return deleteObservation(this.db, id, changedBy, reason);
+  }
+
+  /**
+   * Forget an observation: kept with its annotations, but left out of context and search
+   * Returns the observation, or null if it does not exist
+   */
+  forgetObservation(id: number, changedBy: string, reason: string): ObservationRecord | null {
+    return forgetObservation(this.db, id, changedBy, reason);
+  }
+
+  /**
+   * Merge observations into the first ID (see observations/edit.ts for merge rules)
+   */
+  mergeObservations(ids: number[], changedBy: string, changes: ObservationUpdate = {}): MergeObservationsResult {
+    return mergeObservations(this.db, ids, changedBy, changes);
+  }
+
+  /**
+   * Store an explicit memory (origin 'user') in a project's placeholder session
+   */
+  storeUserMemory(
+    project: string,
+    memory: Omit<ObservationInput, 'origin' | 'quality_score'>
+  ): StoreObservationResult & { memorySessionId: string } {
+    return storeUserMemory(this.db, project, memory);
+  }
+
+  /**
+   * Attach a note to an observation
+   * Returns null if the observation does not exist
+   */
+  addAnnotation(observationId: number, note: string, author: string): AnnotationRecord | null {
+    return addAnnotation(this.db, observationId, note, author);
+  }
+
+  /**
+   * Get the notes attached to an observation (oldest first)
+   */
+  getAnnotations(observationId: number): AnnotationRecord[] {
+    return getAnnotations(this.db, observationId);
+  }
+
+  /**
+   * Log the observations injected with a user prompt by prompt-time retrieval
+   */
+  recordPromptContextInjections(contentSessionId: string, promptNumber: number, injections: PromptContextInjection[]): void {
+    recordPromptContextInjections(this.db, contentSessionId, promptNumber, injections);
+  }
+
+  /**
+   * Observations injected with a session's prompts (by prompt number)
+   */
+  getPromptContextInjections(contentSessionId: string): PromptContextInjectionRecord[] {
+    return getPromptContextInjections(this.db, contentSessionId);
+  }
+
+  /**
+   * IDs of observations already injected into a session's prompts
+   */
+  getInjectedObservationIds(contentSessionId: string): number[] {
+    return getInjectedObservationIds(this.db, contentSessionId);
+  }
+
+  /**
+   * Log the observations injected before a file tool by the PreToolUse hook
+   */
+  recordFileContextInjections(contentSessionId: string, filePath: string, observationIds: number[]): void {
+    recordFileContextInjections(this.db, contentSessionId, filePath, observationIds);
+  }
+
+  /**
+   * IDs of observations already injected into a session before file tools
+   */
+  getFileContextInjectedIds(contentSessionId: string): number[] {
+    return getFileContextInjectedIds(this.db, contentSessionId);
+  }
+
+  /**
+   * Update editable summary fields and record the revision
+   * Returns null if the summary does not exist
+   */
+  updateSummary(id: number, changes: SummaryUpdate, changedBy: string): SessionSummaryRecord | null {
+    return updateSummary(this.db, id, changes, changedBy);
+  }
+
+  /**
+   * Delete a summary and record a snapshot in the audit trail
+   * Returns the deleted record, or null if it did not exist
+   */
+  deleteSummary(id: number, changedBy: string, reason?: string | null): SessionSummaryRecord | null {
+    return deleteSummary(this.db, id, changedBy, reason);
+  }
+
+  /**
+   * Get the revision history for an observation or summary (newest first)
+   */
+  getRevisions(entityType: RevisionEntityType, entityId: number): RevisionRecord[] {
+    return getRevisions(this.db, entityType, entityId);
+  }
+
+  /**
+   * Count a retrieval for each observation returned to a client
+   * Feeds the retrieval component of the context relevance score
+   */
+  recordObservationRetrievals(ids: number[]): number {
+    return recordObservationRetrievals(this.db, ids);
+  }
+
+  /**
+   * Export sessions, observations, summaries and prompts as a versioned archive
+   */
+  exportArchive(filters: ArchiveFilters = {}): MemoryArchive {
+    return exportArchive(this.db, filters);
+  }
+
+  /**
+   * Import a versioned archive (checksums verified, single transaction)
+   */
+  importArchive(archive: MemoryArchive, options: ArchiveImportOptions = {}): ArchiveImportResult {
+    return importArchive(this.db, archive, options);
+  }
+
+  /**
+   * Files modified in the same sessions as a file, traversing up to options.depth hops
+   */
+  findCoChangedFiles(filePath: string, options: GraphQueryOptions = {}): CoChangedFile[] {
+    return findCoChangedFiles(this.db, filePath, options);
+  }
+
+  /**
+   * Concepts of observations that touched files under a folder
+   */
+  findFolderConcepts(folder: string, options: GraphQueryOptions = {}): FolderConcept[] {
+    return findFolderConcepts(this.db, folder, options);
+  }
+
+  /**
+   * Decision observations that read or modified a file (or its co-changed files when depth > 1)
+   */
+  findFileDecisions(filePath: string, options: GraphQueryOptions & { types?: string[] } = {}): FileDecision[] {
+    return findFileDecisions(this.db, filePath, options);
+  }
+
+  /**
+   * Observations, files and concepts within options.depth hops of a node
+   */
+  getGraphNeighborhood(root: GraphNodeRef, options: GraphQueryOptions = {}): GraphNeighborhood {
+    return getGraphNeighborhood(this.db, root, options);
+  }
+
+  /**
+   * Most recent consolidated digests of one or more projects
+   */
+  getDigestsByProjects(projects: string[], limit: number): ObservationDigest[] {
+    return getDigestsByProjects(this.db, projects, limit);
+  }
+
+  /**
+   * Get a digest with the IDs of the observations it summarizes
+   */
+  getDigestById(id: number): DigestWithSources | null {
+    return getDigestById(this.db, id);
+  }
+
+  /**
+   * Record the tokens and estimated cost of one agent response
+   */
+  recordProviderUsage(input: RecordProviderUsageInput): void {
+    recordProviderUsage(this.db, input);
+  }
+
+  /**
+   * Usage per provider since the given epoch
+   */
+  getProviderSpendSince(sinceEpoch: number): ProviderSpend[] {
+    return getProviderSpendSince(this.db, sinceEpoch);
+  }
+
   /**
    * Close the database connection
    */
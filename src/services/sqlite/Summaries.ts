@@ -7,3 +7,4 @@ export * from './summaries/types.js';
 export * from './summaries/store.js';
 export * from './summaries/get.js';
 export * from './summaries/recent.js';
+export * from './summaries/edit.js';
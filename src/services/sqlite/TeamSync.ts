@@ -0,0 +1,10 @@
+/**
+ * TeamSync module - named re-exports
+ * Local side of team sync: outgoing records, applying pulled records, per-project progress
+ */
+import { logger } from '../../utils/logger.js';
+
+export * from './teamsync/types.js';
+export * from './teamsync/outbox.js';
+export * from './teamsync/inbox.js';
+export * from './teamsync/state.js';
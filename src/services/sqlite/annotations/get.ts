@@ -0,0 +1,19 @@
+/**
+ * Annotation retrieval functions
+ */
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { AnnotationRecord } from './types.js';
+
+/**
+ * Get the notes attached to an observation (oldest first)
+ */
+export function getAnnotations(db: Database, observationId: number): AnnotationRecord[] {
+  return db.prepare(`
+    SELECT *
+    FROM observation_annotations
+    WHERE observation_id = ?
+    ORDER BY created_at_epoch ASC, id ASC
+  `).all(observationId) as AnnotationRecord[];
+}
+
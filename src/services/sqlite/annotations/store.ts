@@ -0,0 +1,44 @@
+/**
+ * Store notes attached to existing observations
+ */
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { AnnotationRecord } from './types.js';
+
+/**
+ * Attach a note to an observation
+ *
+ * @param db - Database instance
+ * @param observationId - Observation to annotate
+ * @param note - Note text
+ * @param author - Who wrote the note
+ * @returns The stored annotation, or null if the observation does not exist
+ */
+export function addAnnotation(
+  db: Database,
+  observationId: number,
+  note: string,
+  author: string
+): AnnotationRecord | null {
+  const exists = db.prepare('SELECT 1 FROM observations WHERE id = ?').get(observationId);
+  if (!exists) return null;
+
+  const timestampEpoch = Date.now();
+  const timestampIso = new Date(timestampEpoch).toISOString();
+
+  const result = db.prepare(`
+    INSERT INTO observation_annotations (observation_id, note, author, created_at, created_at_epoch)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(observationId, note, author, timestampIso, timestampEpoch);
+
+  logger.debug('DB', 'Annotation added', { obsId: observationId, author });
+
+  return {
+    id: Number(result.lastInsertRowid),
+    observation_id: observationId,
+    note,
+    author,
+    created_at: timestampIso,
+    created_at_epoch: timestampEpoch
+  };
+}
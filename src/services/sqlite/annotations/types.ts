@@ -0,0 +1,16 @@
+/**
+ * Type definitions for observation annotations
+ */
+import { logger } from '../../../utils/logger.js';
+
+/**
+ * Annotation database record
+ */
+export interface AnnotationRecord {
+  id: number;
+  observation_id: number;
+  note: string;
+  author: string;
+  created_at: string;
+  created_at_epoch: number;
+}
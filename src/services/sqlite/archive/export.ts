@@ -0,0 +1,118 @@
+/**
+ * Memory archive export
+ */
+
+import { createHash } from 'crypto';
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import { applyArchiveFilters } from './filters.js';
+import type { ArchiveRecord, ArchiveTableRows } from './filters.js';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_FORMAT_VERSION,
+  ARCHIVE_TABLES,
+  EXCLUDED_ARCHIVE_COLUMNS
+} from './types.js';
+import type { ArchiveFilters, ArchiveManifest, ArchiveTable, ArchiveTableEntry, MemoryArchive } from './types.js';
+
+/**
+ * SHA-256 hex digest of a table file's contents
+ */
+export function checksumArchiveFile(contents: string): string {
+  return createHash('sha256').update(contents, 'utf8').digest('hex');
+}
+
+/**
+ * Serialize rows as JSON Lines (one object per line, trailing newline)
+ */
+export function toJsonLines(rows: ArchiveRecord[]): string {
+  return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+}
+
+/**
+ * Current schema version of the database (highest applied migration)
+ */
+export function getSchemaVersion(db: Database): number {
+  const row = db.prepare('SELECT MAX(version) as version FROM schema_versions').get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * Column names of a table, minus the ones archives never carry
+ */
+export function getArchiveColumns(db: Database, table: ArchiveTable): string[] {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns
+    .map(column => column.name)
+    .filter(name => !EXCLUDED_ARCHIVE_COLUMNS[table].includes(name));
+}
+
+/**
+ * Load every row of the archived tables, narrowed by project in SQL
+ */
+function loadRows(db: Database, project?: string): ArchiveTableRows {
+  const projectClause = project ? 'WHERE project = ?' : '';
+  const params = project ? [project] : [];
+
+  return {
+    sdk_sessions: db.prepare(`SELECT * FROM sdk_sessions ${projectClause} ORDER BY id`).all(...params) as ArchiveRecord[],
+    observations: db.prepare(`SELECT * FROM observations ${projectClause} ORDER BY id`).all(...params) as ArchiveRecord[],
+    session_summaries: db.prepare(`SELECT * FROM session_summaries ${projectClause} ORDER BY id`).all(...params) as ArchiveRecord[],
+    user_prompts: db.prepare(`
+      SELECT up.* FROM user_prompts up
+      JOIN sdk_sessions s ON up.content_session_id = s.content_session_id
+      ${project ? 'WHERE s.project = ?' : ''}
+      ORDER BY up.id
+    `).all(...params) as ArchiveRecord[]
+  };
+}
+
+/**
+ * Export sessions, observations, summaries and prompts as a versioned archive
+ */
+export function exportArchive(db: Database, filters: ArchiveFilters = {}): MemoryArchive {
+  const rows = applyArchiveFilters(loadRows(db, filters.project), filters);
+
+  const files: Record<string, string> = {};
+  const tables = {} as Record<ArchiveTable, ArchiveTableEntry>;
+
+  for (const table of ARCHIVE_TABLES) {
+    const columns = getArchiveColumns(db, table);
+    const projected = rows[table].map(row => {
+      const archived: ArchiveRecord = {};
+      for (const column of columns) {
+        archived[column] = row[column] ?? null;
+      }
+      return archived;
+    });
+
+    const file = `${table}.jsonl`;
+    const contents = toJsonLines(projected);
+    files[file] = contents;
+    tables[table] = {
+      file,
+      count: projected.length,
+      sha256: checksumArchiveFile(contents),
+      columns
+    };
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    schemaVersion: getSchemaVersion(db),
+    createdAt: new Date().toISOString(),
+    filters,
+    tables
+  };
+
+  logger.info('DB', 'Memory archive exported', {
+    project: filters.project,
+    sessions: tables.sdk_sessions.count,
+    observations: tables.observations.count,
+    summaries: tables.session_summaries.count,
+    prompts: tables.user_prompts.count
+  });
+
+  return { manifest, files };
+}
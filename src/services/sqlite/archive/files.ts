@@ -0,0 +1,59 @@
+/**
+ * Memory archive directory I/O
+ *
+ * On disk an archive is a directory holding manifest.json and one JSONL file per table.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { logger } from '../../../utils/logger.js';
+import { ARCHIVE_TABLES, ArchiveError, MANIFEST_FILE } from './types.js';
+import type { ArchiveManifest, MemoryArchive } from './types.js';
+
+/**
+ * Write an archive to a directory (created if missing; existing archive files are replaced)
+ */
+export function writeArchiveDirectory(dir: string, archive: MemoryArchive): void {
+  mkdirSync(dir, { recursive: true });
+
+  for (const [file, contents] of Object.entries(archive.files)) {
+    writeFileSync(path.join(dir, file), contents, 'utf8');
+  }
+  writeFileSync(path.join(dir, MANIFEST_FILE), JSON.stringify(archive.manifest, null, 2) + '\n', 'utf8');
+
+  logger.debug('DB', 'Memory archive written', { dir });
+}
+
+/**
+ * Read an archive directory; checksums are verified on import, not here
+ * @throws ArchiveError when the manifest or a table file is missing
+ */
+export function readArchiveDirectory(dir: string): MemoryArchive {
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    throw new ArchiveError(`No ${MANIFEST_FILE} in ${dir}`);
+  }
+
+  let manifest: ArchiveManifest;
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+  } catch {
+    throw new ArchiveError(`Invalid ${MANIFEST_FILE} in ${dir}`);
+  }
+
+  const files: Record<string, string> = {};
+  for (const table of ARCHIVE_TABLES) {
+    const file = manifest.tables?.[table]?.file;
+    if (!file) {
+      throw new ArchiveError(`Manifest is missing table ${table}`);
+    }
+    // Manifest file names are plain names; never follow paths out of the archive directory
+    const filePath = path.join(dir, path.basename(file));
+    if (!existsSync(filePath)) {
+      throw new ArchiveError(`Archive is missing ${file}`);
+    }
+    files[file] = readFileSync(filePath, 'utf8');
+  }
+
+  return { manifest, files };
+}
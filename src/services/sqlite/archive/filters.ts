@@ -0,0 +1,85 @@
+/**
+ * Row selection for memory archives, shared by export and import
+ */
+import { logger } from '../../../utils/logger.js';
+import { ArchiveError } from './types.js';
+import type { ArchiveFilters, ArchiveTable } from './types.js';
+
+export type ArchiveRecord = Record<string, any>;
+export type ArchiveTableRows = Record<ArchiveTable, ArchiveRecord[]>;
+
+/**
+ * Parse a filter date given as epoch milliseconds or an ISO date string (YYYY-MM-DD or full timestamp)
+ * @param endOfDay - Treat a bare YYYY-MM-DD as the last millisecond of that day (for inclusive 'until')
+ * @throws ArchiveError for unparseable values
+ */
+export function parseArchiveDate(value: unknown, endOfDay: boolean = false): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+
+  const text = String(value);
+  if (/^\d+$/.test(text)) return Number(text);
+
+  const epoch = new Date(text).getTime();
+  if (Number.isNaN(epoch)) {
+    throw new ArchiveError(`Invalid date: ${text}`);
+  }
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(text);
+  return isDateOnly && endOfDay ? epoch + 24 * 60 * 60 * 1000 - 1 : epoch;
+}
+
+function inDateRange(epoch: number | null | undefined, filters: ArchiveFilters): boolean {
+  if (filters.since === undefined && filters.until === undefined) return true;
+  if (typeof epoch !== 'number') return false;
+  if (filters.since !== undefined && epoch < filters.since) return false;
+  if (filters.until !== undefined && epoch > filters.until) return false;
+  return true;
+}
+
+/**
+ * Apply project and date filters to archive rows
+ *
+ * Records (observations, summaries, prompts) are kept when their project matches and
+ * created_at_epoch is in range. Prompts take their project from the owning session.
+ * Sessions are kept when their project matches and they either started in range or
+ * own a kept record, so every kept record still has its parent session.
+ */
+export function applyArchiveFilters(rows: ArchiveTableRows, filters: ArchiveFilters): ArchiveTableRows {
+  const matchesProject = (project: string | null | undefined) => !filters.project || project === filters.project;
+
+  const sessionProjects = new Map<string, string>();
+  for (const session of rows.sdk_sessions) {
+    sessionProjects.set(session.content_session_id, session.project);
+  }
+
+  const observations = rows.observations.filter(row =>
+    matchesProject(row.project) && inDateRange(row.created_at_epoch, filters)
+  );
+  const summaries = rows.session_summaries.filter(row =>
+    matchesProject(row.project) && inDateRange(row.created_at_epoch, filters)
+  );
+  const prompts = rows.user_prompts.filter(row =>
+    matchesProject(sessionProjects.get(row.content_session_id)) && inDateRange(row.created_at_epoch, filters)
+  );
+
+  const referencedMemoryIds = new Set<string>([
+    ...observations.map(row => row.memory_session_id),
+    ...summaries.map(row => row.memory_session_id)
+  ]);
+  const referencedContentIds = new Set<string>(prompts.map(row => row.content_session_id));
+
+  const sessions = rows.sdk_sessions.filter(row =>
+    matchesProject(row.project) && (
+      inDateRange(row.started_at_epoch, filters) ||
+      referencedMemoryIds.has(row.memory_session_id) ||
+      referencedContentIds.has(row.content_session_id)
+    )
+  );
+
+  return {
+    sdk_sessions: sessions,
+    observations,
+    session_summaries: summaries,
+    user_prompts: prompts
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * Memory archive import with conflict strategies
+ */
+
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import { applyArchiveFilters } from './filters.js';
+import type { ArchiveRecord, ArchiveTableRows } from './filters.js';
+import { checksumArchiveFile, getArchiveColumns } from './export.js';
+import {
+  ARCHIVE_CONFLICT_STRATEGIES,
+  ARCHIVE_FORMAT,
+  ARCHIVE_FORMAT_VERSION,
+  ARCHIVE_TABLES,
+  ArchiveError
+} from './types.js';
+import type {
+  ArchiveConflictStrategy,
+  ArchiveImportOptions,
+  ArchiveImportResult,
+  ArchiveTable,
+  ArchiveTableImportStats,
+  MemoryArchive
+} from './types.js';
+
+const DEFAULT_RENAME_SUFFIX = '-imported';
+
+/**
+ * Check the manifest and checksums, then parse every table file
+ * @throws ArchiveError when the archive is malformed, tampered with, or from a newer format
+ */
+export function readArchiveRows(archive: MemoryArchive): ArchiveTableRows {
+  const { manifest, files } = archive ?? ({} as MemoryArchive);
+
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError(`Not a ${ARCHIVE_FORMAT} archive`);
+  }
+  if (typeof manifest.formatVersion !== 'number' || manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new ArchiveError(
+      `Unsupported archive format version ${manifest.formatVersion} (this version reads up to ${ARCHIVE_FORMAT_VERSION})`
+    );
+  }
+
+  const rows = {} as ArchiveTableRows;
+  for (const table of ARCHIVE_TABLES) {
+    const entry = manifest.tables?.[table];
+    if (!entry) {
+      throw new ArchiveError(`Manifest is missing table ${table}`);
+    }
+
+    const contents = files?.[entry.file];
+    if (typeof contents !== 'string') {
+      throw new ArchiveError(`Archive is missing ${entry.file}`);
+    }
+    if (checksumArchiveFile(contents) !== entry.sha256) {
+      throw new ArchiveError(`Checksum mismatch for ${entry.file}`);
+    }
+
+    const lines = contents.split('\n').filter(line => line.trim().length > 0);
+    if (lines.length !== entry.count) {
+      throw new ArchiveError(`${entry.file} has ${lines.length} rows, manifest says ${entry.count}`);
+    }
+
+    rows[table] = lines.map((line, index) => {
+      try {
+        return JSON.parse(line) as ArchiveRecord;
+      } catch {
+        throw new ArchiveError(`Invalid JSON on line ${index + 1} of ${entry.file}`);
+      }
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Insert or update a row using only the columns both the archive and the local schema know
+ * @returns Local id of the written row
+ */
+function writeRow(db: Database, table: ArchiveTable, row: ArchiveRecord, columns: string[], existingId?: number): number {
+  const present = columns.filter(column => column in row);
+  const values = present.map(column => row[column]);
+
+  if (existingId === undefined) {
+    const inserted = db.prepare(`INSERT INTO ${table} (${present.join(', ')}) VALUES (${present.map(() => '?').join(', ')})`)
+      .run(...values);
+    return Number(inserted.lastInsertRowid);
+  }
+
+  db.prepare(`UPDATE ${table} SET ${present.map(column => `${column} = ?`).join(', ')} WHERE id = ?`)
+    .run(...values, existingId);
+  return existingId;
+}
+
+/**
+ * Local row matching an archived row's natural key
+ * (row ids differ between databases, so identity comes from session ids and timestamps)
+ */
+function findExisting(db: Database, table: ArchiveTable, row: ArchiveRecord): number | undefined {
+  let existing: { id: number } | null;
+  switch (table) {
+    case 'sdk_sessions':
+      existing = db.prepare('SELECT id FROM sdk_sessions WHERE content_session_id = ? OR memory_session_id = ?')
+        .get(row.content_session_id, row.memory_session_id ?? null) as { id: number } | null;
+      break;
+    case 'observations':
+      existing = db.prepare(`
+        SELECT id FROM observations
+        WHERE memory_session_id = ? AND title IS ? AND created_at_epoch = ?
+      `).get(row.memory_session_id, row.title ?? null, row.created_at_epoch) as { id: number } | null;
+      break;
+    case 'session_summaries':
+      existing = db.prepare('SELECT id FROM session_summaries WHERE memory_session_id = ? AND created_at_epoch = ?')
+        .get(row.memory_session_id, row.created_at_epoch) as { id: number } | null;
+      break;
+    case 'user_prompts':
+      existing = db.prepare('SELECT id FROM user_prompts WHERE content_session_id = ? AND prompt_number = ?')
+        .get(row.content_session_id, row.prompt_number) as { id: number } | null;
+      break;
+  }
+  return existing?.id;
+}
+
+/**
+ * Whether the session a record belongs to exists locally
+ */
+function hasParentSession(db: Database, table: ArchiveTable, row: ArchiveRecord): boolean {
+  const parent = table === 'user_prompts'
+    ? db.prepare('SELECT 1 FROM sdk_sessions WHERE content_session_id = ?').get(row.content_session_id)
+    : db.prepare('SELECT 1 FROM sdk_sessions WHERE memory_session_id = ?').get(row.memory_session_id);
+  return !!parent;
+}
+
+function emptyStats(): ArchiveTableImportStats {
+  return { imported: 0, overwritten: 0, renamed: 0, skipped: 0 };
+}
+
+/**
+ * Import an archive into the database in a single transaction
+ *
+ * Sessions are the unit of conflict: with rename-project, a session that already exists
+ * locally is imported again with its project and session ids suffixed, and all of its
+ * records follow it. Records whose parent session is not available are skipped.
+ *
+ * @throws ArchiveError for invalid archives or options
+ */
+export function importArchive(
+  db: Database,
+  archive: MemoryArchive,
+  options: ArchiveImportOptions = {}
+): ArchiveImportResult {
+  const onConflict: ArchiveConflictStrategy = options.onConflict ?? 'skip';
+  if (!ARCHIVE_CONFLICT_STRATEGIES.includes(onConflict)) {
+    throw new ArchiveError(`Unknown conflict strategy: ${onConflict}`);
+  }
+  const suffix = options.renameSuffix || DEFAULT_RENAME_SUFFIX;
+
+  const rows = applyArchiveFilters(readArchiveRows(archive), {
+    project: options.project,
+    since: options.since,
+    until: options.until
+  });
+
+  const result: ArchiveImportResult = {
+    schemaVersion: archive.manifest.schemaVersion,
+    onConflict,
+    tables: {
+      sdk_sessions: emptyStats(),
+      observations: emptyStats(),
+      session_summaries: emptyStats(),
+      user_prompts: emptyStats()
+    },
+    recordIds: { observations: [], summaries: [], prompts: [] }
+  };
+  const writtenIds: Record<Exclude<ArchiveTable, 'sdk_sessions'>, number[]> = {
+    observations: result.recordIds.observations,
+    session_summaries: result.recordIds.summaries,
+    user_prompts: result.recordIds.prompts
+  };
+
+  // Session ids rewritten by rename-project (original -> renamed)
+  const renamedContentIds = new Map<string, string>();
+  const renamedMemoryIds = new Map<string, string>();
+
+  const runImport = db.transaction(() => {
+    const sessionColumns = getArchiveColumns(db, 'sdk_sessions');
+    const sessionStats = result.tables.sdk_sessions;
+
+    for (const session of rows.sdk_sessions) {
+      const existingId = findExisting(db, 'sdk_sessions', session);
+
+      if (existingId === undefined) {
+        writeRow(db, 'sdk_sessions', session, sessionColumns);
+        sessionStats.imported++;
+      } else if (onConflict === 'overwrite') {
+        writeRow(db, 'sdk_sessions', session, sessionColumns, existingId);
+        sessionStats.overwritten++;
+      } else if (onConflict === 'rename-project') {
+        const renamed = {
+          ...session,
+          project: `${session.project}${suffix}`,
+          content_session_id: `${session.content_session_id}${suffix}`,
+          memory_session_id: session.memory_session_id ? `${session.memory_session_id}${suffix}` : null
+        };
+        renamedContentIds.set(session.content_session_id, renamed.content_session_id);
+        if (session.memory_session_id) {
+          renamedMemoryIds.set(session.memory_session_id, `${session.memory_session_id}${suffix}`);
+        }
+
+        // Already renamed by an earlier import of the same archive
+        if (findExisting(db, 'sdk_sessions', renamed) !== undefined) {
+          sessionStats.skipped++;
+          continue;
+        }
+        writeRow(db, 'sdk_sessions', renamed, sessionColumns);
+        sessionStats.renamed++;
+      } else {
+        sessionStats.skipped++;
+      }
+    }
+
+    for (const table of ARCHIVE_TABLES) {
+      if (table === 'sdk_sessions') continue;
+
+      const columns = getArchiveColumns(db, table);
+      const stats = result.tables[table];
+
+      for (const original of rows[table]) {
+        const row = { ...original };
+        let renamed = false;
+
+        if (table === 'user_prompts' && renamedContentIds.has(row.content_session_id)) {
+          row.content_session_id = renamedContentIds.get(row.content_session_id);
+          renamed = true;
+        } else if (table !== 'user_prompts' && renamedMemoryIds.has(row.memory_session_id)) {
+          row.memory_session_id = renamedMemoryIds.get(row.memory_session_id);
+          row.project = `${row.project}${suffix}`;
+          renamed = true;
+        }
+
+        if (!hasParentSession(db, table, row)) {
+          stats.skipped++;
+          continue;
+        }
+
+        const existingId = findExisting(db, table, row);
+        if (existingId === undefined) {
+          writtenIds[table].push(writeRow(db, table, row, columns));
+          if (renamed) {
+            stats.renamed++;
+          } else {
+            stats.imported++;
+          }
+        } else if (onConflict === 'overwrite') {
+          writtenIds[table].push(writeRow(db, table, row, columns, existingId));
+          stats.overwritten++;
+        } else {
+          stats.skipped++;
+        }
+      }
+    }
+  });
+  runImport();
+
+  logger.info('DB', 'Memory archive imported', {
+    onConflict,
+    sessions: result.tables.sdk_sessions,
+    observations: result.tables.observations,
+    summaries: result.tables.session_summaries,
+    prompts: result.tables.user_prompts
+  });
+
+  return result;
+}
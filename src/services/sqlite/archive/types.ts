@@ -0,0 +1,116 @@
+/**
+ * Type definitions for memory archives (full export/import of the memory database)
+ *
+ * An archive is one JSONL file per table plus a manifest.json that records the
+ * archive format version, the source schema version, filters, row counts and
+ * SHA-256 checksums of every table file.
+ */
+import { logger } from '../../../utils/logger.js';
+
+export const ARCHIVE_FORMAT = 'claude-mem-archive';
+
+/**
+ * Bump when the archive layout changes incompatibly; importers reject newer versions
+ */
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+export const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Tables included in an archive, in dependency order (sessions first)
+ */
+export const ARCHIVE_TABLES = ['sdk_sessions', 'observations', 'session_summaries', 'user_prompts'] as const;
+
+export type ArchiveTable = typeof ARCHIVE_TABLES[number];
+
+/**
+ * Columns never written to an archive
+ * Row ids are local to each database; worker_port describes the exporting machine;
+ * team sync state belongs to the exporting database's sync server relationship
+ */
+export const EXCLUDED_ARCHIVE_COLUMNS: Record<ArchiveTable, string[]> = {
+  sdk_sessions: ['id', 'worker_port'],
+  observations: ['id', 'sync_id', 'synced_revision'],
+  session_summaries: ['id', 'sync_id', 'synced_revision'],
+  user_prompts: ['id']
+};
+
+/**
+ * Row selection shared by export and import
+ * Dates are epoch milliseconds; sessions are matched on started_at_epoch, other rows on created_at_epoch
+ */
+export interface ArchiveFilters {
+  project?: string;
+  since?: number;
+  until?: number;
+}
+
+export interface ArchiveTableEntry {
+  file: string;
+  count: number;
+  sha256: string;
+  columns: string[];
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  formatVersion: number;
+  /** Highest applied schema_versions entry of the exporting database */
+  schemaVersion: number;
+  createdAt: string;
+  filters: ArchiveFilters;
+  tables: Record<ArchiveTable, ArchiveTableEntry>;
+}
+
+/**
+ * In-memory archive: the manifest plus JSONL contents keyed by file name
+ */
+export interface MemoryArchive {
+  manifest: ArchiveManifest;
+  files: Record<string, string>;
+}
+
+/**
+ * What to do when an imported row already exists locally
+ * - skip: keep the local row
+ * - overwrite: replace the local row's columns with the archived values
+ * - rename-project: import the conflicting session and its records under a renamed project
+ */
+export type ArchiveConflictStrategy = 'skip' | 'overwrite' | 'rename-project';
+
+export const ARCHIVE_CONFLICT_STRATEGIES: ArchiveConflictStrategy[] = ['skip', 'overwrite', 'rename-project'];
+
+export interface ArchiveImportOptions extends ArchiveFilters {
+  onConflict?: ArchiveConflictStrategy;
+  /** Appended to project names and session ids by rename-project (default: '-imported') */
+  renameSuffix?: string;
+}
+
+export interface ArchiveTableImportStats {
+  imported: number;
+  overwritten: number;
+  renamed: number;
+  skipped: number;
+}
+
+export interface ArchiveImportResult {
+  schemaVersion: number;
+  onConflict: ArchiveConflictStrategy;
+  tables: Record<ArchiveTable, ArchiveTableImportStats>;
+  /** Local ids of the imported and overwritten records, for vector sync */
+  recordIds: {
+    observations: number[];
+    summaries: number[];
+    prompts: number[];
+  };
+}
+
+/**
+ * Raised for malformed, tampered or unsupported archives
+ */
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
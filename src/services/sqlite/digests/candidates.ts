@@ -0,0 +1,97 @@
+/**
+ * Selecting and grouping older observations for consolidation
+ */
+
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import { DIGEST_CANDIDATE_LIMIT, DIGEST_MAX_SOURCES } from './types.js';
+import type { DigestCandidate, DigestGroup, DigestGroupingOptions } from './types.js';
+
+/**
+ * Local observations created before the cutoff that no digest covers yet, oldest first
+ *
+ * Records pulled from teammates are left to their authors; forgotten observations are skipped.
+ */
+export function findConsolidationCandidates(
+  db: Database,
+  beforeEpoch: number,
+  limit: number = DIGEST_CANDIDATE_LIMIT
+): DigestCandidate[] {
+  return db.prepare(`
+    SELECT id, project, type, title, subtitle, narrative, facts, concepts,
+           files_read, files_modified, created_at_epoch
+    FROM observations
+    WHERE created_at_epoch < ?
+      AND origin_author IS NULL
+      AND forgotten_at_epoch IS NULL
+      AND NOT EXISTS (SELECT 1 FROM digest_sources ds WHERE ds.observation_id = observations.id)
+    ORDER BY created_at_epoch ASC
+    LIMIT ?
+  `).all(beforeEpoch, limit) as DigestCandidate[];
+}
+
+/**
+ * Directory part of a file path ('' for bare file names)
+ */
+export function digestFolderOf(filePath: string): string {
+  const normalized = filePath.replace(/\\/g, '/');
+  const slash = normalized.lastIndexOf('/');
+  return slash > 0 ? normalized.slice(0, slash) : '';
+}
+
+function firstString(json: string | null): string {
+  if (!json) return '';
+  try {
+    const parsed = JSON.parse(json);
+    if (Array.isArray(parsed)) {
+      const first = parsed.find(item => typeof item === 'string' && item.trim() !== '');
+      return first ?? '';
+    }
+  } catch (error) {
+    logger.debug('DB', 'Ignoring malformed JSON array on digest candidate', { value: json.slice(0, 100) }, error as Error);
+  }
+  return '';
+}
+
+/**
+ * Group candidates by project, folder and concept
+ *
+ * Each observation joins exactly one group: its folder is the directory of the first
+ * modified file (or first read file) and its concept is the first concept listed.
+ * Groups under minGroupSize are skipped; larger groups are split into chunks of at
+ * most maxGroupSize, and a trailing chunk that is too small waits for a later run.
+ */
+export function groupDigestCandidates(
+  candidates: DigestCandidate[],
+  options: DigestGroupingOptions
+): DigestGroup[] {
+  const maxGroupSize = Math.max(options.maxGroupSize ?? DIGEST_MAX_SOURCES, options.minGroupSize);
+  const byKey = new Map<string, DigestGroup>();
+
+  for (const candidate of candidates) {
+    const file = firstString(candidate.files_modified) || firstString(candidate.files_read);
+    const folder = file ? digestFolderOf(file) : '';
+    const concept = firstString(candidate.concepts);
+    const key = JSON.stringify([candidate.project, folder, concept]);
+
+    let group = byKey.get(key);
+    if (!group) {
+      group = { project: candidate.project, folder, concept, observations: [] };
+      byKey.set(key, group);
+    }
+    group.observations.push(candidate);
+  }
+
+  const groups: DigestGroup[] = [];
+  for (const group of byKey.values()) {
+    const sorted = [...group.observations].sort((a, b) => a.created_at_epoch - b.created_at_epoch);
+    for (let start = 0; start < sorted.length; start += maxGroupSize) {
+      const chunk = sorted.slice(start, start + maxGroupSize);
+      if (chunk.length >= options.minGroupSize) {
+        groups.push({ ...group, observations: chunk });
+      }
+    }
+  }
+
+  return groups;
+}
@@ -0,0 +1,78 @@
+/**
+ * Storing and reading observation digests
+ */
+
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { DigestWithSources, ObservationDigest, StoreDigestInput } from './types.js';
+
+/**
+ * Store a digest and link it to its source observations (single transaction)
+ * @returns ID of the new digest
+ */
+export function storeDigest(db: Database, input: StoreDigestInput, createdAtEpoch: number = Date.now()): number {
+  const insertDigest = db.prepare(`
+    INSERT INTO observation_digests
+    (project, folder, concept, title, summary, facts, source_count,
+     period_start_epoch, period_end_epoch, provider, created_at, created_at_epoch)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const linkSource = db.prepare('INSERT OR IGNORE INTO digest_sources (digest_id, observation_id) VALUES (?, ?)');
+
+  const store = db.transaction(() => {
+    const result = insertDigest.run(
+      input.project,
+      input.folder,
+      input.concept,
+      input.title,
+      input.summary,
+      JSON.stringify(input.facts),
+      input.sourceIds.length,
+      input.period_start_epoch,
+      input.period_end_epoch,
+      input.provider,
+      new Date(createdAtEpoch).toISOString(),
+      createdAtEpoch
+    );
+    const digestId = Number(result.lastInsertRowid);
+    for (const observationId of input.sourceIds) {
+      linkSource.run(digestId, observationId);
+    }
+    return digestId;
+  });
+
+  const digestId = store();
+  logger.debug('DB', 'Stored observation digest', { digestId, project: input.project, sources: input.sourceIds.length });
+  return digestId;
+}
+
+/**
+ * Most recent digests of one or more projects, newest period first
+ */
+export function getDigestsByProjects(db: Database, projects: string[], limit: number): ObservationDigest[] {
+  if (projects.length === 0) return [];
+  const placeholders = projects.map(() => '?').join(',');
+  return db.prepare(`
+    SELECT * FROM observation_digests
+    WHERE project IN (${placeholders})
+    ORDER BY period_end_epoch DESC, id DESC
+    LIMIT ?
+  `).all(...projects, limit) as ObservationDigest[];
+}
+
+/**
+ * Get a digest with the IDs of its source observations (oldest first)
+ */
+export function getDigestById(db: Database, id: number): DigestWithSources | null {
+  const digest = db.prepare('SELECT * FROM observation_digests WHERE id = ?').get(id) as ObservationDigest | null;
+  if (!digest) return null;
+
+  const sources = db.prepare(`
+    SELECT ds.observation_id FROM digest_sources ds
+    JOIN observations o ON o.id = ds.observation_id
+    WHERE ds.digest_id = ?
+    ORDER BY o.created_at_epoch ASC
+  `).all(id) as { observation_id: number }[];
+
+  return { ...digest, source_ids: sources.map(row => row.observation_id) };
+}
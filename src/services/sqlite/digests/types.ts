@@ -0,0 +1,94 @@
+/**
+ * Type definitions for consolidated observation digests
+ *
+ * A digest is a durable summary of a group of older observations that share a project,
+ * folder and concept (migration 27). digest_sources links it to the observations it was
+ * written from; those observations are never deleted and remain searchable.
+ */
+import { logger } from '../../../utils/logger.js';
+
+/**
+ * Candidate observations scanned per consolidation run
+ */
+export const DIGEST_CANDIDATE_LIMIT = 2000;
+
+/**
+ * Most observations summarized by a single digest (larger groups are split by time)
+ */
+export const DIGEST_MAX_SOURCES = 40;
+
+/**
+ * Digests shown in the context section when digests are preferred
+ */
+export const DIGEST_CONTEXT_LIMIT = 5;
+
+export interface ObservationDigest {
+  id: number;
+  project: string;
+  /** Directory shared by the sources ('' when they reference no files) */
+  folder: string;
+  /** Concept shared by the sources ('' when they have none) */
+  concept: string;
+  title: string;
+  summary: string;
+  /** JSON array of strings */
+  facts: string | null;
+  source_count: number;
+  period_start_epoch: number;
+  period_end_epoch: number;
+  /** Provider that wrote the digest: 'claude', 'gemini', 'openrouter' or 'openai-compatible' */
+  provider: string | null;
+  created_at: string;
+  created_at_epoch: number;
+}
+
+/**
+ * Observation fields needed to group and summarize it
+ */
+export interface DigestCandidate {
+  id: number;
+  project: string;
+  type: string;
+  title: string | null;
+  subtitle: string | null;
+  narrative: string | null;
+  facts: string | null;
+  concepts: string | null;
+  files_read: string | null;
+  files_modified: string | null;
+  created_at_epoch: number;
+}
+
+/**
+ * Observations that will be summarized into one digest
+ */
+export interface DigestGroup {
+  project: string;
+  folder: string;
+  concept: string;
+  /** Oldest first */
+  observations: DigestCandidate[];
+}
+
+export interface DigestGroupingOptions {
+  /** Groups smaller than this are left alone until they grow */
+  minGroupSize: number;
+  maxGroupSize?: number;
+}
+
+export interface StoreDigestInput {
+  project: string;
+  folder: string;
+  concept: string;
+  title: string;
+  summary: string;
+  facts: string[];
+  provider: string | null;
+  sourceIds: number[];
+  period_start_epoch: number;
+  period_end_epoch: number;
+}
+
+export interface DigestWithSources extends ObservationDigest {
+  source_ids: number[];
+}
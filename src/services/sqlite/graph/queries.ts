@@ -0,0 +1,375 @@
+/**
+ * Knowledge graph queries over observation_files and observation_concepts
+ *
+ * File arguments match a stored path exactly or as a path suffix, so `src/index.ts`
+ * finds observations that recorded `/home/me/repo/src/index.ts`.
+ * Forgotten observations (MCP forget tool) are left out of every query.
+ */
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import {
+  DEFAULT_DECISION_TYPES,
+  GRAPH_DEFAULT_LIMIT,
+  GRAPH_MAX_DEPTH,
+  GRAPH_MAX_LIMIT,
+} from './types.js';
+import type {
+  CoChangedFile,
+  FileDecision,
+  FileRelation,
+  FolderConcept,
+  GraphEdge,
+  GraphNeighborhood,
+  GraphNode,
+  GraphNodeRef,
+  GraphNodeType,
+  GraphQueryOptions,
+} from './types.js';
+
+const NODE_TYPES: GraphNodeType[] = ['file', 'concept', 'observation'];
+
+/**
+ * Clamp depth and limit to the supported ranges
+ */
+export function normalizeGraphOptions(options: GraphQueryOptions = {}): Required<Omit<GraphQueryOptions, 'project'>> & { project?: string } {
+  const clamp = (value: number | undefined, fallback: number, max: number) =>
+    Number.isFinite(value) && (value as number) >= 1 ? Math.min(Math.floor(value as number), max) : fallback;
+
+  return {
+    project: options.project || undefined,
+    depth: clamp(options.depth, 1, GRAPH_MAX_DEPTH),
+    limit: clamp(options.limit, GRAPH_DEFAULT_LIMIT, GRAPH_MAX_LIMIT)
+  };
+}
+
+/**
+ * Format a node reference as `<type>:<key>`
+ */
+export function graphNodeId(ref: GraphNodeRef): string {
+  return `${ref.type}:${ref.key}`;
+}
+
+/**
+ * Parse a `<type>:<key>` node ID
+ * @returns null when the type is unknown or the key is empty
+ */
+export function parseGraphNodeId(id: string): GraphNodeRef | null {
+  const separator = id.indexOf(':');
+  if (separator === -1) return null;
+
+  const type = id.slice(0, separator) as GraphNodeType;
+  const key = id.slice(separator + 1).trim();
+  if (!NODE_TYPES.includes(type) || !key) return null;
+  if (type === 'observation' && !/^\d+$/.test(key)) return null;
+  return { type, key };
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/**
+ * Stored file paths matching a path exactly or as a suffix
+ * An exact match wins over suffix matches.
+ */
+export function resolveFilePaths(db: Database, filePath: string, project?: string): string[] {
+  const normalized = filePath.trim().replace(/^\.\//, '');
+  if (!normalized) return [];
+
+  const rows = db.prepare(`
+    SELECT DISTINCT f.file_path
+    FROM observation_files f
+    JOIN observations o ON o.id = f.observation_id
+    WHERE (f.file_path = ? OR f.file_path LIKE ? ESCAPE '\\')
+      AND o.forgotten_at_epoch IS NULL
+      ${project ? 'AND o.project = ?' : ''}
+    LIMIT ?
+  `).all(
+    normalized,
+    `%/${escapeLike(normalized)}`,
+    ...(project ? [project] : []),
+    GRAPH_MAX_LIMIT
+  ) as Array<{ file_path: string }>;
+
+  const paths = rows.map(row => row.file_path);
+  return paths.includes(normalized) ? [normalized] : paths;
+}
+
+/**
+ * Files modified in the same sessions as a file ("what co-changes with X")
+ *
+ * Hop 1 returns files changed in a session that also changed the queried file; each further
+ * hop repeats the step from the files found on the previous hop. Results are ordered by hop,
+ * then by the number of shared sessions.
+ */
+export function findCoChangedFiles(db: Database, filePath: string, options: GraphQueryOptions = {}): CoChangedFile[] {
+  const { project, depth, limit } = normalizeGraphOptions(options);
+  const seeds = resolveFilePaths(db, filePath, project);
+  if (seeds.length === 0) return [];
+
+  const visited = new Set(seeds);
+  const results: CoChangedFile[] = [];
+  let frontier = seeds;
+
+  for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+    const rows = db.prepare(`
+      SELECT other.file_path AS file_path, seed.file_path AS via, COUNT(DISTINCT so.memory_session_id) AS shared_sessions
+      FROM observation_files seed
+      JOIN observations so ON so.id = seed.observation_id
+      JOIN observations oo ON oo.memory_session_id = so.memory_session_id
+      JOIN observation_files other ON other.observation_id = oo.id
+      WHERE seed.relation = 'modified'
+        AND other.relation = 'modified'
+        AND seed.file_path IN (${placeholders(frontier)})
+        AND other.file_path != seed.file_path
+        AND so.forgotten_at_epoch IS NULL
+        AND oo.forgotten_at_epoch IS NULL
+        ${project ? 'AND so.project = ? AND oo.project = ?' : ''}
+      GROUP BY other.file_path, seed.file_path
+      ORDER BY shared_sessions DESC, other.file_path
+      LIMIT ?
+    `).all(
+      ...frontier,
+      ...(project ? [project, project] : []),
+      (limit + visited.size) * frontier.length
+    ) as Array<{ file_path: string; via: string; shared_sessions: number }>;
+
+    const next: string[] = [];
+    for (const row of rows) {
+      // Rows are sorted by shared sessions, so the first row per file has its strongest link
+      if (visited.has(row.file_path)) continue;
+      visited.add(row.file_path);
+      results.push({ file_path: row.file_path, shared_sessions: row.shared_sessions, depth: hop, via: row.via });
+      next.push(row.file_path);
+      if (results.length >= limit) return results;
+    }
+    frontier = next;
+  }
+
+  return results;
+}
+
+/**
+ * Concepts of observations that touched files under a folder ("which concepts cluster here")
+ * An empty folder or `.` covers every file.
+ */
+export function findFolderConcepts(db: Database, folder: string, options: GraphQueryOptions = {}): FolderConcept[] {
+  const { project, limit } = normalizeGraphOptions(options);
+  const normalized = folder.trim().replace(/^\.\/?/, '').replace(/\/+$/, '');
+
+  const conditions: string[] = ['o.forgotten_at_epoch IS NULL'];
+  const params: unknown[] = [];
+  if (normalized) {
+    conditions.push(`(f.file_path LIKE ? ESCAPE '\\' OR f.file_path LIKE ? ESCAPE '\\')`);
+    params.push(`${escapeLike(normalized)}/%`, `%/${escapeLike(normalized)}/%`);
+  }
+  if (project) {
+    conditions.push('o.project = ?');
+    params.push(project);
+  }
+
+  return db.prepare(`
+    SELECT c.concept,
+           COUNT(DISTINCT c.observation_id) AS observation_count,
+           COUNT(DISTINCT f.file_path) AS file_count
+    FROM observation_files f
+    JOIN observation_concepts c ON c.observation_id = f.observation_id
+    JOIN observations o ON o.id = f.observation_id
+    WHERE ${conditions.join(' AND ')}
+    GROUP BY c.concept
+    ORDER BY observation_count DESC, file_count DESC, c.concept
+    LIMIT ?
+  `).all(...params, limit) as FolderConcept[];
+}
+
+/**
+ * Decision observations that read or modified a file ("what decisions affected this file")
+ *
+ * With depth > 1, decisions about files that co-change with it (up to depth - 1 hops) are
+ * included too. Results are ordered by depth, then newest first.
+ *
+ * @param types - Observation types to treat as decisions (default: DEFAULT_DECISION_TYPES)
+ */
+export function findFileDecisions(
+  db: Database,
+  filePath: string,
+  options: GraphQueryOptions & { types?: string[] } = {}
+): FileDecision[] {
+  const { project, depth, limit } = normalizeGraphOptions(options);
+  const types = options.types && options.types.length > 0 ? options.types : DEFAULT_DECISION_TYPES;
+
+  const fileDepths = new Map<string, number>();
+  for (const seed of resolveFilePaths(db, filePath, project)) {
+    fileDepths.set(seed, 1);
+  }
+  if (fileDepths.size === 0) return [];
+
+  if (depth > 1) {
+    for (const related of findCoChangedFiles(db, filePath, { project, depth: depth - 1, limit: GRAPH_MAX_LIMIT })) {
+      fileDepths.set(related.file_path, related.depth + 1);
+    }
+  }
+
+  const files = Array.from(fileDepths.keys());
+  const rows = db.prepare(`
+    SELECT o.id, o.type, o.title, o.subtitle, o.narrative, o.project, o.created_at, o.created_at_epoch,
+           f.file_path, f.relation
+    FROM observation_files f
+    JOIN observations o ON o.id = f.observation_id
+    WHERE f.file_path IN (${placeholders(files)})
+      AND o.type IN (${placeholders(types)})
+      AND o.forgotten_at_epoch IS NULL
+      ${project ? 'AND o.project = ?' : ''}
+    ORDER BY o.created_at_epoch DESC, o.id DESC
+  `).all(...files, ...types, ...(project ? [project] : [])) as Array<Omit<FileDecision, 'depth'>>;
+
+  // One entry per observation: closest file first, and 'modified' over 'read' at the same depth
+  const byId = new Map<number, FileDecision>();
+  for (const row of rows) {
+    const decision: FileDecision = { ...row, depth: fileDepths.get(row.file_path) ?? depth };
+    const existing = byId.get(row.id);
+    if (
+      !existing ||
+      decision.depth < existing.depth ||
+      (decision.depth === existing.depth && decision.relation === 'modified' && existing.relation === 'read')
+    ) {
+      byId.set(row.id, decision);
+    }
+  }
+
+  return Array.from(byId.values())
+    .sort((a, b) => a.depth - b.depth || b.created_at_epoch - a.created_at_epoch)
+    .slice(0, limit);
+}
+
+interface Neighbor {
+  ref: GraphNodeRef;
+  label: string;
+  edge: GraphEdge;
+}
+
+/**
+ * Observations, files and concepts within `depth` hops of a node
+ * Traversal is breadth-first and stops adding nodes once `limit` is reached.
+ */
+export function getGraphNeighborhood(db: Database, root: GraphNodeRef, options: GraphQueryOptions = {}): GraphNeighborhood {
+  const { project, depth, limit } = normalizeGraphOptions(options);
+  const rootId = graphNodeId(root);
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const edgeKeys = new Set<string>();
+  let truncated = false;
+
+  let frontier: GraphNodeRef[];
+  if (root.type === 'file') {
+    frontier = resolveFilePaths(db, root.key, project).map(key => ({ type: 'file', key }));
+  } else if (root.type === 'observation') {
+    const exists = db.prepare(`SELECT id FROM observations WHERE id = ? AND forgotten_at_epoch IS NULL ${project ? 'AND project = ?' : ''}`)
+      .get(Number(root.key), ...(project ? [project] : []));
+    frontier = exists ? [root] : [];
+  } else {
+    frontier = [root];
+  }
+
+  for (const ref of frontier) {
+    nodes.set(graphNodeId(ref), { id: graphNodeId(ref), type: ref.type, label: ref.key, depth: 0 });
+  }
+
+  for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+    const next: GraphNodeRef[] = [];
+
+    for (const ref of frontier) {
+      for (const neighbor of expandNode(db, ref, project, limit)) {
+        const id = graphNodeId(neighbor.ref);
+        if (!nodes.has(id)) {
+          if (nodes.size >= limit) {
+            truncated = true;
+            continue;
+          }
+          nodes.set(id, { id, type: neighbor.ref.type, label: neighbor.label, depth: hop });
+          next.push(neighbor.ref);
+        }
+
+        const edgeKey = `${neighbor.edge.source}|${neighbor.edge.target}|${neighbor.edge.relation}`;
+        if (!edgeKeys.has(edgeKey)) {
+          edgeKeys.add(edgeKey);
+          edges.push(neighbor.edge);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return { root: rootId, nodes: Array.from(nodes.values()), edges, truncated };
+}
+
+function observationLabel(row: { id: number; title: string | null }): string {
+  return `#${row.id} ${row.title || '(untitled)'}`;
+}
+
+/**
+ * Direct neighbors of a node: observations for files and concepts, files and concepts for observations
+ */
+function expandNode(db: Database, ref: GraphNodeRef, project: string | undefined, limit: number): Neighbor[] {
+  const projectClause = `AND o.forgotten_at_epoch IS NULL ${project ? 'AND o.project = ?' : ''}`;
+  const projectParams = project ? [project] : [];
+
+  if (ref.type === 'file') {
+    const rows = db.prepare(`
+      SELECT o.id, o.title, f.relation
+      FROM observation_files f
+      JOIN observations o ON o.id = f.observation_id
+      WHERE f.file_path = ? ${projectClause}
+      ORDER BY o.created_at_epoch DESC
+      LIMIT ?
+    `).all(ref.key, ...projectParams, limit) as Array<{ id: number; title: string | null; relation: FileRelation }>;
+
+    return rows.map(row => ({
+      ref: { type: 'observation', key: String(row.id) },
+      label: observationLabel(row),
+      edge: { source: `observation:${row.id}`, target: graphNodeId(ref), relation: row.relation }
+    }));
+  }
+
+  if (ref.type === 'concept') {
+    const rows = db.prepare(`
+      SELECT o.id, o.title
+      FROM observation_concepts c
+      JOIN observations o ON o.id = c.observation_id
+      WHERE c.concept = ? ${projectClause}
+      ORDER BY o.created_at_epoch DESC
+      LIMIT ?
+    `).all(ref.key, ...projectParams, limit) as Array<{ id: number; title: string | null }>;
+
+    return rows.map(row => ({
+      ref: { type: 'observation', key: String(row.id) },
+      label: observationLabel(row),
+      edge: { source: `observation:${row.id}`, target: graphNodeId(ref), relation: 'concept' }
+    }));
+  }
+
+  const observationId = Number(ref.key);
+  const source = graphNodeId(ref);
+  const files = db.prepare('SELECT file_path, relation FROM observation_files WHERE observation_id = ? LIMIT ?')
+    .all(observationId, limit) as Array<{ file_path: string; relation: FileRelation }>;
+  const concepts = db.prepare('SELECT concept FROM observation_concepts WHERE observation_id = ? LIMIT ?')
+    .all(observationId, limit) as Array<{ concept: string }>;
+
+  return [
+    ...files.map((row): Neighbor => ({
+      ref: { type: 'file', key: row.file_path },
+      label: row.file_path,
+      edge: { source, target: `file:${row.file_path}`, relation: row.relation }
+    })),
+    ...concepts.map((row): Neighbor => ({
+      ref: { type: 'concept', key: row.concept },
+      label: row.concept,
+      edge: { source, target: `concept:${row.concept}`, relation: 'concept' }
+    }))
+  ];
+}
@@ -0,0 +1,100 @@
+/**
+ * Type definitions for knowledge graph queries
+ *
+ * The graph is bipartite: observations link to the files they read or modified and to
+ * their concepts, via the observation_files and observation_concepts tables (migration 26).
+ */
+import { logger } from '../../../utils/logger.js';
+
+export type GraphNodeType = 'file' | 'concept' | 'observation';
+export type FileRelation = 'read' | 'modified';
+
+/**
+ * Maximum traversal depth accepted by graph queries
+ */
+export const GRAPH_MAX_DEPTH = 3;
+export const GRAPH_DEFAULT_LIMIT = 20;
+export const GRAPH_MAX_LIMIT = 200;
+
+/**
+ * Observation types treated as decisions by findFileDecisions() when none are given
+ */
+export const DEFAULT_DECISION_TYPES = ['decision'];
+
+export interface GraphQueryOptions {
+  project?: string;
+  /** Hops to traverse (1 to GRAPH_MAX_DEPTH, default 1) */
+  depth?: number;
+  /** Maximum results (1 to GRAPH_MAX_LIMIT, default GRAPH_DEFAULT_LIMIT) */
+  limit?: number;
+}
+
+export interface GraphNodeRef {
+  type: GraphNodeType;
+  /** File path, concept name, or observation ID as a string */
+  key: string;
+}
+
+/**
+ * A file changed in the same sessions as the queried file
+ */
+export interface CoChangedFile {
+  file_path: string;
+  /** Sessions that modified both this file and a file on the previous hop */
+  shared_sessions: number;
+  /** Hop at which the file was reached (1 = changed together with the queried file) */
+  depth: number;
+  /** File on the previous hop this one was reached from */
+  via: string;
+}
+
+/**
+ * A concept attached to observations that touch files under a folder
+ */
+export interface FolderConcept {
+  concept: string;
+  observation_count: number;
+  file_count: number;
+}
+
+/**
+ * A decision observation that read or modified a file
+ */
+export interface FileDecision {
+  id: number;
+  type: string;
+  title: string | null;
+  subtitle: string | null;
+  narrative: string | null;
+  project: string;
+  created_at: string;
+  created_at_epoch: number;
+  file_path: string;
+  relation: FileRelation;
+  /** 1 for the queried file itself, higher for files that co-change with it */
+  depth: number;
+}
+
+export interface GraphNode {
+  /** `<type>:<key>`, e.g. `file:src/index.ts`, `concept:caching`, `observation:42` */
+  id: string;
+  type: GraphNodeType;
+  label: string;
+  depth: number;
+}
+
+export interface GraphEdge {
+  /** Always the observation node */
+  source: string;
+  /** File or concept node */
+  target: string;
+  relation: FileRelation | 'concept';
+}
+
+export interface GraphNeighborhood {
+  root: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** True when the node limit stopped the traversal early */
+  truncated: boolean;
+}
@@ -30,3 +30,10 @@ export * from './Summaries.js';
 export * from './Prompts.js';
 export * from './Timeline.js';
 export * from './Import.js';
+export * from './Revisions.js';
+export * from './Annotations.js';
+export * from './Archive.js';
+export * from './TeamSync.js';
+export * from './Graph.js';
+export * from './Digests.js';
+export * from './ProviderUsage.js';
@@ -31,6 +31,22 @@ export class MigrationRunner {
     this.renameSessionIdColumns();
     this.repairSessionIdColumnRename();
     this.addFailedAtEpochColumn();
+    this.createObservationRevisionsTable();
+    this.addObservationRetrievalColumns();
+    this.createVectorDocumentsTable();
+    this.addTeamSyncColumns();
+    this.addPendingRedactionCountColumn();
+    this.createKnowledgeGraphTables();
+    this.createDigestTables();
+    this.createProviderUsageTable();
+    this.addObservationOriginColumn();
+    this.addObservationQualityColumn();
+    this.addPendingDeadLetterColumns();
+    this.addPendingPriorityColumn();
+    this.createObservationAnnotationsTable();
+    this.addObservationForgottenColumns();
+    this.createFileContextInjectionsTable();
+    this.createPromptContextInjectionsTable();
   }
 
   /**
@@ -628,4 +644,464 @@ export class MigrationRunner {
 
     this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(20, new Date().toISOString());
   }
+
+  /**
+   * Create observation_revisions table for the edit/merge/delete audit trail (migration 21)
+   * Records a before/after snapshot for every manual change to an observation or summary.
+   */
+  private createObservationRevisionsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(21) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity_type TEXT NOT NULL CHECK(entity_type IN ('observation', 'summary')),
+        entity_id INTEGER NOT NULL,
+        action TEXT NOT NULL CHECK(action IN ('update', 'delete', 'merge')),
+        changed_by TEXT NOT NULL,
+        reason TEXT,
+        before_json TEXT,
+        after_json TEXT,
+        created_at TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_revisions_entity ON observation_revisions(entity_type, entity_id)');
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_revisions_created ON observation_revisions(created_at_epoch DESC)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(21, new Date().toISOString());
+
+    logger.debug('DB', 'observation_revisions table created successfully');
+  }
+
+  /**
+   * Add retrieval tracking columns to observations (migration 22)
+   * Counts how often an observation is returned by search or get_observations,
+   * which feeds the relevance score used for context injection.
+   */
+  private addObservationRetrievalColumns(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(22) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+
+    if (!tableInfo.some(col => col.name === 'retrieval_count')) {
+      this.db.run('ALTER TABLE observations ADD COLUMN retrieval_count INTEGER DEFAULT 0');
+      logger.debug('DB', 'Added retrieval_count column to observations table');
+    }
+
+    if (!tableInfo.some(col => col.name === 'last_retrieved_at_epoch')) {
+      this.db.run('ALTER TABLE observations ADD COLUMN last_retrieved_at_epoch INTEGER');
+      logger.debug('DB', 'Added last_retrieved_at_epoch column to observations table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(22, new Date().toISOString());
+  }
+
+  /**
+   * Create vector_documents table for the SQLite vector backend (migration 23)
+   * Stores one embedding per Chroma-style document when CLAUDE_MEM_VECTOR_BACKEND is 'sqlite'.
+   */
+  private createVectorDocumentsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(23) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS vector_documents (
+        id TEXT NOT NULL,
+        collection TEXT NOT NULL,
+        doc_type TEXT NOT NULL,
+        sqlite_id INTEGER NOT NULL,
+        document TEXT NOT NULL,
+        metadata_json TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        model TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL,
+        PRIMARY KEY (collection, id)
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_vector_documents_record ON vector_documents(collection, doc_type, sqlite_id)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(23, new Date().toISOString());
+
+    logger.debug('DB', 'vector_documents table created successfully');
+  }
+
+  /**
+   * Add team sync columns to observations and session_summaries (migration 24)
+   * sync_id is the record's identity on the sync server, origin_author marks records
+   * pulled from teammates (NULL for local records), and synced_revision is the last
+   * revision pushed (local records) or applied (pulled records).
+   */
+  private addTeamSyncColumns(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(24) as SchemaVersion | undefined;
+    if (applied) return;
+
+    for (const table of ['observations', 'session_summaries']) {
+      const tableInfo = this.db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[];
+
+      for (const column of ['sync_id TEXT', 'origin_author TEXT', 'synced_revision INTEGER']) {
+        const name = column.split(' ')[0];
+        if (!tableInfo.some(col => col.name === name)) {
+          this.db.run(`ALTER TABLE ${table} ADD COLUMN ${column}`);
+          logger.debug('DB', `Added ${name} column to ${table} table`);
+        }
+      }
+
+      this.db.run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_sync_id ON ${table}(sync_id)`);
+    }
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS team_sync_state (
+        project TEXT PRIMARY KEY,
+        pull_cursor INTEGER NOT NULL DEFAULT 0,
+        last_push_at_epoch INTEGER,
+        last_pull_at_epoch INTEGER
+      )
+    `);
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(24, new Date().toISOString());
+
+    logger.debug('DB', 'Team sync columns and team_sync_state table created successfully');
+  }
+
+  /**
+   * Add redaction_count column to pending_messages (migration 25)
+   * Number of secrets the hook redacted from the tool input/response before queueing.
+   */
+  private addPendingRedactionCountColumn(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(25) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(pending_messages)').all() as TableColumnInfo[];
+    const hasColumn = tableInfo.some(col => col.name === 'redaction_count');
+
+    if (!hasColumn) {
+      this.db.run('ALTER TABLE pending_messages ADD COLUMN redaction_count INTEGER DEFAULT 0');
+      logger.debug('DB', 'Added redaction_count column to pending_messages table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(25, new Date().toISOString());
+  }
+
+  /**
+   * Create knowledge graph join tables (migration 26)
+   * observation_files and observation_concepts normalize the files_read, files_modified and
+   * concepts JSON columns so graph queries can join on them. Triggers keep them in sync with
+   * observations on insert, update and delete, the same way the FTS tables are maintained.
+   */
+  private createKnowledgeGraphTables(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(26) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_files (
+        observation_id INTEGER NOT NULL,
+        file_path TEXT NOT NULL,
+        relation TEXT NOT NULL CHECK(relation IN ('read', 'modified')),
+        PRIMARY KEY (observation_id, file_path, relation)
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_files_path ON observation_files(file_path, relation)');
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_concepts (
+        observation_id INTEGER NOT NULL,
+        concept TEXT NOT NULL,
+        PRIMARY KEY (observation_id, concept)
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_concepts_concept ON observation_concepts(concept)');
+
+    // Edges for `new` (inside triggers) or for every existing row (backfill).
+    // Malformed JSON is treated as an empty list so a bad row never blocks the insert.
+    const insertEdges = (row: 'new' | 'observations') => {
+      const source = row === 'observations' ? 'observations, ' : '';
+      const each = (column: string) =>
+        `${source}json_each(CASE WHEN json_valid(${row}.${column}) THEN ${row}.${column} ELSE '[]' END) AS j`;
+      return `
+        INSERT OR IGNORE INTO observation_files (observation_id, file_path, relation)
+        SELECT ${row}.id, j.value, 'read' FROM ${each('files_read')} WHERE j.type = 'text' AND j.value != '';
+        INSERT OR IGNORE INTO observation_files (observation_id, file_path, relation)
+        SELECT ${row}.id, j.value, 'modified' FROM ${each('files_modified')} WHERE j.type = 'text' AND j.value != '';
+        INSERT OR IGNORE INTO observation_concepts (observation_id, concept)
+        SELECT ${row}.id, j.value FROM ${each('concepts')} WHERE j.type = 'text' AND j.value != '';
+      `;
+    };
+
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS observations_graph_ai AFTER INSERT ON observations BEGIN
+        ${insertEdges('new')}
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS observations_graph_ad AFTER DELETE ON observations BEGIN
+        DELETE FROM observation_files WHERE observation_id = old.id;
+        DELETE FROM observation_concepts WHERE observation_id = old.id;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS observations_graph_au AFTER UPDATE OF files_read, files_modified, concepts ON observations BEGIN
+        DELETE FROM observation_files WHERE observation_id = old.id;
+        DELETE FROM observation_concepts WHERE observation_id = old.id;
+        ${insertEdges('new')}
+      END;
+    `);
+
+    // Backfill existing observations
+    this.db.run(insertEdges('observations'));
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(26, new Date().toISOString());
+
+    logger.debug('DB', 'Knowledge graph tables created successfully');
+  }
+
+  /**
+   * Create digest tables for consolidated long-term memory (migration 27)
+   * Digests summarize groups of older observations; digest_sources links each digest to
+   * the observations it was written from, which stay in place and remain searchable.
+   */
+  private createDigestTables(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(27) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_digests (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project TEXT NOT NULL,
+        folder TEXT NOT NULL DEFAULT '',
+        concept TEXT NOT NULL DEFAULT '',
+        title TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        facts TEXT,
+        source_count INTEGER NOT NULL DEFAULT 0,
+        period_start_epoch INTEGER NOT NULL,
+        period_end_epoch INTEGER NOT NULL,
+        provider TEXT,
+        created_at TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_digests_project ON observation_digests(project, period_end_epoch DESC)');
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS digest_sources (
+        digest_id INTEGER NOT NULL REFERENCES observation_digests(id) ON DELETE CASCADE,
+        observation_id INTEGER NOT NULL REFERENCES observations(id) ON DELETE CASCADE,
+        PRIMARY KEY (digest_id, observation_id)
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_digest_sources_observation ON digest_sources(observation_id)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(27, new Date().toISOString());
+
+    logger.debug('DB', 'Digest tables created successfully');
+  }
+
+  /**
+   * Create provider usage table for routing budgets (migration 28)
+   * One row per agent response with its token count and estimated cost.
+   */
+  private createProviderUsageTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(28) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS provider_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        provider TEXT NOT NULL,
+        session_db_id INTEGER,
+        tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_provider_usage_created ON provider_usage(created_at_epoch)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(28, new Date().toISOString());
+
+    logger.debug('DB', 'Provider usage table created successfully');
+  }
+
+  /**
+   * Add origin column to observations (migration 29)
+   * Marks observations written by the heuristic extractor; existing rows came from an LLM.
+   */
+  private addObservationOriginColumn(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(29) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const hasOrigin = tableInfo.some(col => col.name === 'origin');
+
+    if (!hasOrigin) {
+      this.db.run("ALTER TABLE observations ADD COLUMN origin TEXT NOT NULL DEFAULT 'llm'");
+      logger.debug('DB', 'Added origin column to observations table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(29, new Date().toISOString());
+  }
+
+  /**
+   * Add quality_score column to observations (migration 30)
+   * Score from QualityEvaluator in [0, 1]; NULL for observations stored before scoring existed.
+   */
+  private addObservationQualityColumn(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(30) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const hasQualityScore = tableInfo.some(col => col.name === 'quality_score');
+
+    if (!hasQualityScore) {
+      this.db.run('ALTER TABLE observations ADD COLUMN quality_score REAL');
+      logger.debug('DB', 'Added quality_score column to observations table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(30, new Date().toISOString());
+  }
+
+  /**
+   * Add last_error and provider_override columns to pending_messages (migration 31)
+   * last_error records why a message was dead-lettered; provider_override pins a
+   * replayed message to the provider chosen in the viewer's queue panel.
+   */
+  private addPendingDeadLetterColumns(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(31) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(pending_messages)').all() as TableColumnInfo[];
+
+    if (!tableInfo.some(col => col.name === 'last_error')) {
+      this.db.run('ALTER TABLE pending_messages ADD COLUMN last_error TEXT');
+      logger.debug('DB', 'Added last_error column to pending_messages table');
+    }
+
+    if (!tableInfo.some(col => col.name === 'provider_override')) {
+      this.db.run('ALTER TABLE pending_messages ADD COLUMN provider_override TEXT');
+      logger.debug('DB', 'Added provider_override column to pending_messages table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(31, new Date().toISOString());
+  }
+
+  /**
+   * Add priority column to pending_messages (migration 32)
+   * Messages are claimed by priority first, then in queue order (summaries can jump the queue).
+   */
+  private addPendingPriorityColumn(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(32) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(pending_messages)').all() as TableColumnInfo[];
+    const hasPriority = tableInfo.some(col => col.name === 'priority');
+
+    if (!hasPriority) {
+      this.db.run('ALTER TABLE pending_messages ADD COLUMN priority INTEGER NOT NULL DEFAULT 0');
+      logger.debug('DB', 'Added priority column to pending_messages table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(32, new Date().toISOString());
+  }
+
+  /**
+   * Create observation_annotations table (migration 33)
+   * Notes attached to an observation after it was stored (e.g. through the MCP annotate tool).
+   */
+  private createObservationAnnotationsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(33) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS observation_annotations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        observation_id INTEGER NOT NULL,
+        note TEXT NOT NULL,
+        author TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL,
+        FOREIGN KEY(observation_id) REFERENCES observations(id) ON DELETE CASCADE
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_observation_annotations_observation ON observation_annotations(observation_id)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(33, new Date().toISOString());
+
+    logger.debug('DB', 'observation_annotations table created successfully');
+  }
+
+  /**
+   * Add forgotten_at_epoch and forgotten_reason columns to observations (migration 34)
+   * Set by the MCP forget tool; forgotten observations stay in the table (with their annotations)
+   * but are left out of context, search and vector sync.
+   */
+  private addObservationForgottenColumns(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(34) as SchemaVersion | undefined;
+    if (applied) return;
+
+    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const hasForgottenAt = tableInfo.some(col => col.name === 'forgotten_at_epoch');
+
+    if (!hasForgottenAt) {
+      this.db.run('ALTER TABLE observations ADD COLUMN forgotten_at_epoch INTEGER');
+      this.db.run('ALTER TABLE observations ADD COLUMN forgotten_reason TEXT');
+      logger.debug('DB', 'Added forgotten columns to observations table');
+    }
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(34, new Date().toISOString());
+  }
+
+  /**
+   * Create file_context_injections table (migration 35)
+   * Log of the observations injected before file tools (PreToolUse hook), so a memory is
+   * injected once per session even across worker restarts.
+   */
+  private createFileContextInjectionsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(35) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS file_context_injections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        content_session_id TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        observation_id INTEGER NOT NULL,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_file_context_injections_session ON file_context_injections(content_session_id)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(35, new Date().toISOString());
+
+    logger.debug('DB', 'file_context_injections table created successfully');
+  }
+
+  /**
+   * Create prompt_context_injections table (migration 36)
+   * Log of the observations injected with each user prompt by prompt-time retrieval.
+   */
+  private createPromptContextInjectionsTable(): void {
+    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(36) as SchemaVersion | undefined;
+    if (applied) return;
+
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS prompt_context_injections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        content_session_id TEXT NOT NULL,
+        prompt_number INTEGER NOT NULL,
+        observation_id INTEGER NOT NULL,
+        similarity REAL NOT NULL,
+        created_at_epoch INTEGER NOT NULL
+      )
+    `);
+
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_prompt_context_injections_session ON prompt_context_injections(content_session_id, prompt_number)');
+
+    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(36, new Date().toISOString());
+
+    logger.debug('DB', 'prompt_context_injections table created successfully');
+  }
 }
@@ -0,0 +1,309 @@
+/**
+ * Observation editing functions (update, delete, forget, merge)
+ * Every change is recorded in observation_revisions within the same transaction
+ */
+
+import { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { ObservationRecord } from '../../../types/database.js';
+import { recordRevision } from '../revisions/store.js';
+import { getObservationById } from './get.js';
+import type { ObservationUpdate, MergeObservationsResult } from './types.js';
+
+/**
+ * Fields that can be changed through the edit API
+ */
+const EDITABLE_FIELDS = [
+  'type',
+  'title',
+  'subtitle',
+  'narrative',
+  'facts',
+  'concepts',
+  'files_read',
+  'files_modified'
+] as const;
+
+type EditableField = typeof EDITABLE_FIELDS[number];
+
+/**
+ * Fields stored as JSON arrays in the observations table
+ */
+const JSON_ARRAY_FIELDS: ReadonlySet<EditableField> = new Set(['facts', 'concepts', 'files_read', 'files_modified']);
+
+/**
+ * Convert an update value to its column representation
+ */
+function toColumnValue(field: EditableField, value: unknown): string | null {
+  if (JSON_ARRAY_FIELDS.has(field)) {
+    return JSON.stringify(Array.isArray(value) ? value : []);
+  }
+  return value === undefined || value === null ? null : String(value);
+}
+
+/**
+ * Parse a JSON array column, tolerating null and malformed values
+ */
+function parseJsonArray(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Union of string arrays preserving first-seen order
+ */
+function unionOf(lists: string[][]): string[] {
+  return Array.from(new Set(lists.flat()));
+}
+
+/**
+ * Apply column changes to an observation and return the before/after diff
+ * Only fields whose column value actually changes are written
+ */
+function applyObservationChanges(
+  db: Database,
+  existing: ObservationRecord,
+  changes: ObservationUpdate
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  const assignments: string[] = [];
+  const params: (string | null)[] = [];
+
+  for (const field of EDITABLE_FIELDS) {
+    if (changes[field] === undefined) continue;
+
+    const newValue = toColumnValue(field, changes[field]);
+    const oldValue = (existing[field] as string | null | undefined) ?? null;
+    if (newValue === oldValue) continue;
+
+    before[field] = oldValue;
+    after[field] = newValue;
+    assignments.push(`${field} = ?`);
+    params.push(newValue);
+  }
+
+  if (assignments.length > 0) {
+    db.prepare(`UPDATE observations SET ${assignments.join(', ')} WHERE id = ?`).run(...params, existing.id);
+  }
+
+  return { before, after };
+}
+
+/**
+ * Update editable fields of an observation
+ *
+ * @param db - Database instance
+ * @param id - Observation ID
+ * @param changes - Fields to change (omitted fields are left unchanged)
+ * @param changedBy - Who made the change (recorded in the audit trail)
+ * @returns Updated observation, or null if it does not exist
+ */
+export function updateObservation(
+  db: Database,
+  id: number,
+  changes: ObservationUpdate,
+  changedBy: string
+): ObservationRecord | null {
+  const updateTx = db.transaction(() => {
+    const existing = getObservationById(db, id);
+    if (!existing) return null;
+
+    const { before, after } = applyObservationChanges(db, existing, changes);
+    if (Object.keys(after).length === 0) {
+      return existing;
+    }
+
+    recordRevision(db, {
+      entityType: 'observation',
+      entityId: id,
+      action: 'update',
+      changedBy,
+      before,
+      after
+    });
+
+    return getObservationById(db, id);
+  });
+
+  return updateTx();
+}
+
+/**
+ * Delete an observation, keeping a full snapshot in the audit trail
+ *
+ * @param db - Database instance
+ * @param id - Observation ID
+ * @param changedBy - Who made the change
+ * @param reason - Optional reason for the deletion
+ * @returns The deleted observation, or null if it does not exist
+ */
+export function deleteObservation(
+  db: Database,
+  id: number,
+  changedBy: string,
+  reason?: string | null
+): ObservationRecord | null {
+  const deleteTx = db.transaction(() => {
+    const existing = getObservationById(db, id);
+    if (!existing) return null;
+
+    db.prepare('DELETE FROM observations WHERE id = ?').run(id);
+
+    recordRevision(db, {
+      entityType: 'observation',
+      entityId: id,
+      action: 'delete',
+      changedBy,
+      reason,
+      before: { ...existing },
+      after: null
+    });
+
+    return existing;
+  });
+
+  return deleteTx();
+}
+
+/**
+ * Forget an observation: mark it so context, search and vector sync leave it out
+ *
+ * Unlike deleteObservation the row (and its annotations) is kept. Forgetting an
+ * already forgotten observation changes nothing.
+ *
+ * @param db - Database instance
+ * @param id - Observation ID
+ * @param changedBy - Who made the change
+ * @param reason - Why the observation is wrong or no longer relevant
+ * @returns The forgotten observation, or null if it does not exist
+ */
+export function forgetObservation(
+  db: Database,
+  id: number,
+  changedBy: string,
+  reason: string
+): ObservationRecord | null {
+  const forgetTx = db.transaction(() => {
+    const existing = getObservationById(db, id);
+    if (!existing) return null;
+    if (existing.forgotten_at_epoch) return existing;
+
+    const forgottenAtEpoch = Date.now();
+    db.prepare('UPDATE observations SET forgotten_at_epoch = ?, forgotten_reason = ? WHERE id = ?')
+      .run(forgottenAtEpoch, reason, id);
+
+    recordRevision(db, {
+      entityType: 'observation',
+      entityId: id,
+      action: 'update',
+      changedBy,
+      reason,
+      before: { forgotten_at_epoch: null, forgotten_reason: null },
+      after: { forgotten_at_epoch: forgottenAtEpoch, forgotten_reason: reason }
+    });
+
+    return getObservationById(db, id);
+  });
+
+  return forgetTx();
+}
+
+/**
+ * Merge several observations into the first one
+ *
+ * Facts, concepts and file lists are unioned, distinct narratives are joined,
+ * and discovery tokens are summed. Annotations move to the merge target and the
+ * remaining observations are deleted. Explicit changes override the merged values.
+ *
+ * @param db - Database instance
+ * @param ids - Observation IDs; the first ID is the merge target
+ * @param changedBy - Who made the change
+ * @param changes - Optional field overrides applied to the merged observation
+ * @throws Error if fewer than two distinct IDs are given, an ID does not exist,
+ *         or the observations belong to different projects
+ */
+export function mergeObservations(
+  db: Database,
+  ids: number[],
+  changedBy: string,
+  changes: ObservationUpdate = {}
+): MergeObservationsResult {
+  const uniqueIds = Array.from(new Set(ids));
+  if (uniqueIds.length < 2) {
+    throw new Error('At least two distinct observation IDs are required to merge');
+  }
+
+  const mergeTx = db.transaction(() => {
+    const records = uniqueIds.map(id => {
+      const record = getObservationById(db, id);
+      if (!record) {
+        throw new Error(`Observation #${id} not found`);
+      }
+      return record;
+    });
+
+    const [target, ...sources] = records;
+    const foreignProject = sources.find(source => source.project !== target.project);
+    if (foreignProject) {
+      throw new Error(`Cannot merge observations across projects (${target.project} vs ${foreignProject.project})`);
+    }
+
+    const narratives = Array.from(new Set(
+      records.map(record => record.narrative?.trim()).filter((narrative): narrative is string => !!narrative)
+    ));
+
+    const merged: ObservationUpdate = {
+      facts: unionOf(records.map(record => parseJsonArray(record.facts))),
+      concepts: unionOf(records.map(record => parseJsonArray(record.concepts))),
+      files_read: unionOf(records.map(record => parseJsonArray(record.files_read))),
+      files_modified: unionOf(records.map(record => parseJsonArray(record.files_modified))),
+      narrative: narratives.length > 0 ? narratives.join('\n\n') : null,
+      ...changes
+    };
+
+    const { before, after } = applyObservationChanges(db, target, merged);
+
+    const totalDiscoveryTokens = records.reduce((sum, record) => sum + (record.discovery_tokens || 0), 0);
+    db.prepare('UPDATE observations SET discovery_tokens = ? WHERE id = ?').run(totalDiscoveryTokens, target.id);
+
+    const mergedIds = sources.map(source => source.id);
+
+    recordRevision(db, {
+      entityType: 'observation',
+      entityId: target.id,
+      action: 'merge',
+      changedBy,
+      before: { ...before, discovery_tokens: target.discovery_tokens ?? 0 },
+      after: { ...after, discovery_tokens: totalDiscoveryTokens, merged_from: mergedIds }
+    });
+
+    const moveAnnotationsStmt = db.prepare('UPDATE observation_annotations SET observation_id = ? WHERE observation_id = ?');
+    const deleteStmt = db.prepare('DELETE FROM observations WHERE id = ?');
+    for (const source of sources) {
+      moveAnnotationsStmt.run(target.id, source.id);
+      deleteStmt.run(source.id);
+      recordRevision(db, {
+        entityType: 'observation',
+        entityId: source.id,
+        action: 'delete',
+        changedBy,
+        reason: `Merged into #${target.id}`,
+        before: { ...source },
+        after: null
+      });
+    }
+
+    return {
+      observation: getObservationById(db, target.id)!,
+      mergedIds
+    };
+  });
+
+  return mergeTx();
+}
@@ -23,6 +23,7 @@ export function getObservationById(db: Database, id: number): ObservationRecord
 
 /**
  * Get observations by array of IDs with ordering and limit
+ * Forgotten observations are left out (IDs from search results can outlive a forget)
  */
 export function getObservationsByIds(
   db: Database,
@@ -38,7 +39,7 @@ export function getObservationsByIds(
   // Build placeholders for IN clause
   const placeholders = ids.map(() => '?').join(',');
   const params: any[] = [...ids];
-  const additionalConditions: string[] = [];
+  const additionalConditions: string[] = ['forgotten_at_epoch IS NULL'];
 
   // Apply project filter
   if (project) {
@@ -80,9 +81,7 @@ export function getObservationsByIds(
     additionalConditions.push(`(${fileConditions.join(' OR ')})`);
   }
 
-  const whereClause = additionalConditions.length > 0
-    ? `WHERE id IN (${placeholders}) AND ${additionalConditions.join(' AND ')}`
-    : `WHERE id IN (${placeholders})`;
+  const whereClause = `WHERE id IN (${placeholders}) AND ${additionalConditions.join(' AND ')}`;
 
   const stmt = db.prepare(`
     SELECT *
@@ -0,0 +1,46 @@
+/**
+ * File memory injection log
+ * Records which observations the PreToolUse hook injected before a file tool, so the same
+ * memory isn't injected twice in a session (also after a worker restart)
+ */
+
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+
+/**
+ * Log the observations injected before a tool touched a file
+ */
+export function recordFileContextInjections(
+  db: Database,
+  contentSessionId: string,
+  filePath: string,
+  observationIds: number[],
+  createdAtEpoch: number = Date.now()
+): void {
+  if (observationIds.length === 0) return;
+
+  const stmt = db.prepare(`
+    INSERT INTO file_context_injections (content_session_id, file_path, observation_id, created_at_epoch)
+    VALUES (?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const observationId of observationIds) {
+      stmt.run(contentSessionId, filePath, observationId, createdAtEpoch);
+    }
+  })();
+
+  logger.debug('DB', 'Recorded file context injections', {
+    filePath,
+    count: observationIds.length
+  });
+}
+
+/**
+ * IDs of every observation already injected into a session before file tools
+ */
+export function getFileContextInjectedIds(db: Database, contentSessionId: string): number[] {
+  const rows = db.prepare(`
+    SELECT DISTINCT observation_id FROM file_context_injections WHERE content_session_id = ?
+  `).all(contentSessionId) as Array<{ observation_id: number }>;
+  return rows.map(row => row.observation_id);
+}
@@ -0,0 +1,43 @@
+/**
+ * Explicit memories: observations written directly by the user or Claude (MCP remember tool)
+ * rather than extracted from tool events by an agent
+ */
+
+import { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import { storeObservation } from './store.js';
+import type { ObservationInput, StoreObservationResult } from './types.js';
+
+/**
+ * Session id of the placeholder session that owns a project's explicit memories
+ */
+export function getUserMemorySessionId(project: string): string {
+  return `user-memories-${project}`;
+}
+
+/**
+ * Store an explicit memory in a project (origin 'user')
+ * Creates the project's placeholder session on first use
+ */
+export function storeUserMemory(
+  db: Database,
+  project: string,
+  memory: Omit<ObservationInput, 'origin' | 'quality_score'>
+): StoreObservationResult & { memorySessionId: string } {
+  const sessionId = getUserMemorySessionId(project);
+
+  const storeTx = db.transaction(() => {
+    const now = new Date();
+    db.prepare(`
+      INSERT OR IGNORE INTO sdk_sessions
+      (content_session_id, memory_session_id, project, started_at, started_at_epoch, status)
+      VALUES (?, ?, ?, ?, ?, 'completed')
+    `).run(sessionId, sessionId, project, now.toISOString(), now.getTime());
+
+    return storeObservation(db, sessionId, project, { ...memory, origin: 'user' });
+  });
+
+  const result = storeTx();
+  logger.debug('DB', 'Stored explicit memory', { obsId: result.id, project });
+  return { ...result, memorySessionId: sessionId };
+}
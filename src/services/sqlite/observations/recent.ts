@@ -5,7 +5,7 @@
 
 import { Database } from 'bun:sqlite';
 import { logger } from '../../../utils/logger.js';
-import type { RecentObservationRow, AllRecentObservationRow } from './types.js';
+import type { RecentObservationRow, AllRecentObservationRow, RecentSessionObservationRow } from './types.js';
 
 /**
  * Get recent observations for a project
@@ -26,6 +26,25 @@ export function getRecentObservations(
   return stmt.all(project, limit) as RecentObservationRow[];
 }
 
+/**
+ * Get the most recent observations of one session (newest first)
+ */
+export function getRecentSessionObservations(
+  db: Database,
+  memorySessionId: string,
+  limit: number = 50
+): RecentSessionObservationRow[] {
+  const stmt = db.prepare(`
+    SELECT id, type, title, subtitle, narrative, facts
+    FROM observations
+    WHERE memory_session_id = ?
+    ORDER BY created_at_epoch DESC, id DESC
+    LIMIT ?
+  `);
+
+  return stmt.all(memorySessionId, limit) as RecentSessionObservationRow[];
+}
+
 /**
  * Get recent observations across all projects (for web UI)
  */
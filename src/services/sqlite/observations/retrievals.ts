@@ -0,0 +1,34 @@
+/**
+ * Observation retrieval tracking
+ * Counts how often observations are returned to a client (search, get_observations)
+ */
+
+import { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+
+/**
+ * Increment the retrieval counter for each observation ID
+ *
+ * @param db - Database instance
+ * @param ids - Observation IDs that were returned to a client (duplicates are counted once)
+ * @param retrievedAtEpoch - Retrieval timestamp (defaults to now)
+ * @returns Number of observations updated
+ */
+export function recordObservationRetrievals(
+  db: Database,
+  ids: number[],
+  retrievedAtEpoch: number = Date.now()
+): number {
+  const uniqueIds = Array.from(new Set(ids));
+  if (uniqueIds.length === 0) return 0;
+
+  const placeholders = uniqueIds.map(() => '?').join(',');
+  const result = db.prepare(`
+    UPDATE observations
+    SET retrieval_count = COALESCE(retrieval_count, 0) + 1,
+        last_retrieved_at_epoch = ?
+    WHERE id IN (${placeholders})
+  `).run(retrievedAtEpoch, ...uniqueIds);
+
+  return result.changes;
+}
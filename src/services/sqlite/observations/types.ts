@@ -3,6 +3,7 @@
  * Extracted from SessionStore.ts for modular organization
  */
 import { logger } from '../../../utils/logger.js';
+import type { ObservationRecord, ObservationOrigin } from '../../../types/database.js';
 
 /**
  * Input type for storeObservation function
@@ -16,6 +17,24 @@ export interface ObservationInput {
   concepts: string[];
   files_read: string[];
   files_modified: string[];
+  /** Defaults to 'llm' */
+  origin?: ObservationOrigin;
+  /** Quality score in [0, 1] from QualityEvaluator; null when not scored */
+  quality_score?: number | null;
+}
+
+/**
+ * Editable observation fields for updateObservation / mergeObservations
+ * Omitted fields are left unchanged
+ */
+export type ObservationUpdate = Partial<Omit<ObservationInput, 'origin' | 'quality_score'>>;
+
+/**
+ * Result from merging observations into a single record
+ */
+export interface MergeObservationsResult {
+  observation: ObservationRecord;
+  mergedIds: number[];
 }
 
 /**
@@ -56,6 +75,18 @@ export interface ObservationSessionRow {
   prompt_number: number | null;
 }
 
+/**
+ * Recent observation of one session, compared against new ones by QualityEvaluator
+ */
+export interface RecentSessionObservationRow {
+  id: number;
+  type: string;
+  title: string | null;
+  subtitle: string | null;
+  narrative: string | null;
+  facts: string | null;
+}
+
 /**
  * Recent observation row type
  */
@@ -0,0 +1,58 @@
+/**
+ * Prompt-time retrieval log
+ * Records which observations were injected with each user prompt, so injections can be
+ * audited and the same observation isn't injected twice in a session
+ */
+
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { PromptContextInjection, PromptContextInjectionRecord } from './types.js';
+
+/**
+ * Log the observations injected with a prompt
+ */
+export function recordPromptContextInjections(
+  db: Database,
+  contentSessionId: string,
+  promptNumber: number,
+  injections: PromptContextInjection[],
+  createdAtEpoch: number = Date.now()
+): void {
+  if (injections.length === 0) return;
+
+  const stmt = db.prepare(`
+    INSERT INTO prompt_context_injections (content_session_id, prompt_number, observation_id, similarity, created_at_epoch)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  db.transaction(() => {
+    for (const injection of injections) {
+      stmt.run(contentSessionId, promptNumber, injection.observationId, injection.similarity, createdAtEpoch);
+    }
+  })();
+
+  logger.debug('DB', 'Recorded prompt context injections', {
+    promptNumber,
+    count: injections.length
+  });
+}
+
+/**
+ * Injections for a session, by prompt number, most similar first within a prompt
+ */
+export function getPromptContextInjections(db: Database, contentSessionId: string): PromptContextInjectionRecord[] {
+  return db.prepare(`
+    SELECT * FROM prompt_context_injections
+    WHERE content_session_id = ?
+    ORDER BY prompt_number ASC, similarity DESC
+  `).all(contentSessionId) as PromptContextInjectionRecord[];
+}
+
+/**
+ * IDs of every observation already injected into a session's prompts
+ */
+export function getInjectedObservationIds(db: Database, contentSessionId: string): number[] {
+  const rows = db.prepare(`
+    SELECT DISTINCT observation_id FROM prompt_context_injections WHERE content_session_id = ?
+  `).all(contentSessionId) as Array<{ observation_id: number }>;
+  return rows.map(row => row.observation_id);
+}
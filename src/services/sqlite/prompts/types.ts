@@ -39,3 +39,24 @@ export interface GetPromptsByIdsOptions {
   limit?: number;
   project?: string;
 }
+
+/**
+ * An observation injected with a user prompt by prompt-time retrieval
+ */
+export interface PromptContextInjection {
+  observationId: number;
+  /** Cosine similarity between the prompt and the observation (0-1) */
+  similarity: number;
+}
+
+/**
+ * Row of the prompt_context_injections log
+ */
+export interface PromptContextInjectionRecord {
+  id: number;
+  content_session_id: string;
+  prompt_number: number;
+  observation_id: number;
+  similarity: number;
+  created_at_epoch: number;
+}
@@ -0,0 +1,34 @@
+/**
+ * Revision retrieval functions
+ */
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { RevisionEntityType, RevisionRecord } from './types.js';
+
+/**
+ * Get the revision history for a single observation or summary (newest first)
+ */
+export function getRevisions(
+  db: Database,
+  entityType: RevisionEntityType,
+  entityId: number
+): RevisionRecord[] {
+  return db.prepare(`
+    SELECT *
+    FROM observation_revisions
+    WHERE entity_type = ? AND entity_id = ?
+    ORDER BY created_at_epoch DESC, id DESC
+  `).all(entityType, entityId) as RevisionRecord[];
+}
+
+/**
+ * Get the most recent revisions across all records (newest first)
+ */
+export function getRecentRevisions(db: Database, limit: number = 50): RevisionRecord[] {
+  return db.prepare(`
+    SELECT *
+    FROM observation_revisions
+    ORDER BY created_at_epoch DESC, id DESC
+    LIMIT ?
+  `).all(limit) as RevisionRecord[];
+}
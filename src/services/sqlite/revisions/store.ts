@@ -0,0 +1,44 @@
+/**
+ * Record revisions in the observation_revisions audit table
+ */
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { RevisionInput } from './types.js';
+
+/**
+ * Record a single revision
+ * Callers wrap this in the same transaction as the change it describes
+ *
+ * @param db - Database instance
+ * @param revision - Revision details
+ * @returns ID of the inserted revision row
+ */
+export function recordRevision(db: Database, revision: RevisionInput): number {
+  const timestampEpoch = Date.now();
+  const timestampIso = new Date(timestampEpoch).toISOString();
+
+  const result = db.prepare(`
+    INSERT INTO observation_revisions
+    (entity_type, entity_id, action, changed_by, reason, before_json, after_json, created_at, created_at_epoch)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    revision.entityType,
+    revision.entityId,
+    revision.action,
+    revision.changedBy,
+    revision.reason ?? null,
+    revision.before ? JSON.stringify(revision.before) : null,
+    revision.after ? JSON.stringify(revision.after) : null,
+    timestampIso,
+    timestampEpoch
+  );
+
+  logger.debug('DB', 'Recorded revision', {
+    entityType: revision.entityType,
+    entityId: revision.entityId,
+    action: revision.action,
+    changedBy: revision.changedBy
+  });
+
+  return Number(result.lastInsertRowid);
+}
@@ -0,0 +1,44 @@
+/**
+ * Type definitions for the observation/summary revision audit trail
+ */
+import { logger } from '../../../utils/logger.js';
+
+/**
+ * Record kinds that can be edited through the data API
+ */
+export type RevisionEntityType = 'observation' | 'summary';
+
+/**
+ * Kind of change recorded in a revision
+ */
+export type RevisionAction = 'update' | 'delete' | 'merge';
+
+/**
+ * Input for recording a revision
+ * before/after hold only the fields that changed (full snapshot for deletes)
+ */
+export interface RevisionInput {
+  entityType: RevisionEntityType;
+  entityId: number;
+  action: RevisionAction;
+  changedBy: string;
+  reason?: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+/**
+ * Revision database record
+ */
+export interface RevisionRecord {
+  id: number;
+  entity_type: RevisionEntityType;
+  entity_id: number;
+  action: RevisionAction;
+  changed_by: string;
+  reason: string | null;
+  before_json: string | null;
+  after_json: string | null;
+  created_at: string;
+  created_at_epoch: number;
+}
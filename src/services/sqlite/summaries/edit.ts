@@ -0,0 +1,110 @@
+/**
+ * Session summary editing functions (update, delete)
+ * Every change is recorded in observation_revisions within the same transaction
+ */
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { SessionSummaryRecord } from '../../../types/database.js';
+import { recordRevision } from '../revisions/store.js';
+import { getSummaryById } from './get.js';
+import type { SummaryUpdate } from './types.js';
+
+/**
+ * Fields that can be changed through the edit API
+ */
+const EDITABLE_FIELDS = ['request', 'investigated', 'learned', 'completed', 'next_steps', 'notes'] as const;
+
+/**
+ * Update editable fields of a session summary
+ *
+ * @param db - Database instance
+ * @param id - Summary ID
+ * @param changes - Fields to change (omitted fields are left unchanged)
+ * @param changedBy - Who made the change (recorded in the audit trail)
+ * @returns Updated summary, or null if it does not exist
+ */
+export function updateSummary(
+  db: Database,
+  id: number,
+  changes: SummaryUpdate,
+  changedBy: string
+): SessionSummaryRecord | null {
+  const updateTx = db.transaction(() => {
+    const existing = getSummaryById(db, id);
+    if (!existing) return null;
+
+    const before: Record<string, unknown> = {};
+    const after: Record<string, unknown> = {};
+    const assignments: string[] = [];
+    const params: (string | null)[] = [];
+
+    for (const field of EDITABLE_FIELDS) {
+      if (changes[field] === undefined) continue;
+
+      const newValue = changes[field] === null ? null : String(changes[field]);
+      const oldValue = existing[field] ?? null;
+      if (newValue === oldValue) continue;
+
+      before[field] = oldValue;
+      after[field] = newValue;
+      assignments.push(`${field} = ?`);
+      params.push(newValue);
+    }
+
+    if (assignments.length === 0) {
+      return existing;
+    }
+
+    db.prepare(`UPDATE session_summaries SET ${assignments.join(', ')} WHERE id = ?`).run(...params, id);
+
+    recordRevision(db, {
+      entityType: 'summary',
+      entityId: id,
+      action: 'update',
+      changedBy,
+      before,
+      after
+    });
+
+    return getSummaryById(db, id);
+  });
+
+  return updateTx();
+}
+
+/**
+ * Delete a session summary, keeping a full snapshot in the audit trail
+ *
+ * @param db - Database instance
+ * @param id - Summary ID
+ * @param changedBy - Who made the change
+ * @param reason - Optional reason for the deletion
+ * @returns The deleted summary, or null if it does not exist
+ */
+export function deleteSummary(
+  db: Database,
+  id: number,
+  changedBy: string,
+  reason?: string | null
+): SessionSummaryRecord | null {
+  const deleteTx = db.transaction(() => {
+    const existing = getSummaryById(db, id);
+    if (!existing) return null;
+
+    db.prepare('DELETE FROM session_summaries WHERE id = ?').run(id);
+
+    recordRevision(db, {
+      entityType: 'summary',
+      entityId: id,
+      action: 'delete',
+      changedBy,
+      reason,
+      before: { ...existing },
+      after: null
+    });
+
+    return existing;
+  });
+
+  return deleteTx();
+}
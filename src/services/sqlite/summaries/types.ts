@@ -15,6 +15,12 @@ export interface SummaryInput {
   notes: string | null;
 }
 
+/**
+ * Editable summary fields for updateSummary
+ * Omitted fields are left unchanged
+ */
+export type SummaryUpdate = { [K in keyof SummaryInput]?: SummaryInput[K] | null };
+
 /**
  * Result from storing a summary
  */
@@ -0,0 +1,134 @@
+/**
+ * Team sync inbox: apply records pulled from the sync server
+ */
+
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import { SYNC_FIELDS, SYNC_TABLES } from './types.js';
+import type { ApplyRemoteRecordsResult, SyncRecord, SyncRecordKind } from './types.js';
+
+/**
+ * Session id used locally for a teammate's session
+ */
+export function getTeamSessionId(record: Pick<SyncRecord, 'author' | 'session_id'>): string {
+  return `team-${record.author}-${record.session_id}`;
+}
+
+/**
+ * Create the local placeholder session that owns a teammate's records (once per session)
+ */
+function ensureTeamSession(db: Database, record: SyncRecord): string {
+  const sessionId = getTeamSessionId(record);
+  db.prepare(`
+    INSERT OR IGNORE INTO sdk_sessions
+    (content_session_id, memory_session_id, project, started_at, started_at_epoch, completed_at, completed_at_epoch, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 'completed')
+  `).run(
+    sessionId,
+    sessionId,
+    record.project,
+    record.created_at,
+    record.created_at_epoch,
+    record.created_at,
+    record.created_at_epoch
+  );
+  return sessionId;
+}
+
+/**
+ * Id list of the result that collects records of the given kind
+ */
+function writtenIds(result: ApplyRemoteRecordsResult, kind: SyncRecordKind): number[] {
+  return kind === 'observation' ? result.recordIds.observations : result.recordIds.summaries;
+}
+
+/**
+ * Apply pulled records to the local database in a single transaction
+ *
+ * Records are matched by sync_id within the project being pulled; records for any other
+ * project are skipped, so a teammate's outbox cannot write into unrelated local projects.
+ * Local records echoed back by the server are skipped, as are pulled records already
+ * applied at the same or a newer revision. Only the known content fields of each kind
+ * are written; records the local schema rejects (e.g. an observation type this install
+ * does not know) are skipped.
+ *
+ * @param project - Project being pulled
+ */
+export function applyRemoteRecords(db: Database, project: string, records: SyncRecord[]): ApplyRemoteRecordsResult {
+  const result: ApplyRemoteRecordsResult = { inserted: 0, updated: 0, skipped: 0, recordIds: { observations: [], summaries: [] } };
+
+  const apply = db.transaction(() => {
+    for (const record of records) {
+      const table = SYNC_TABLES[record.kind];
+      if (!table || !record.sync_id || !record.author) {
+        result.skipped++;
+        continue;
+      }
+
+      if (record.project !== project) {
+        logger.warn('SYNC', 'Skipped pulled record for another project', {
+          syncId: record.sync_id,
+          project,
+          recordProject: record.project,
+          author: record.author
+        });
+        result.skipped++;
+        continue;
+      }
+
+      const fields = SYNC_FIELDS[record.kind];
+      const values = fields.map(field => record.fields?.[field] ?? null);
+
+      const existing = db.prepare(`SELECT id, origin_author, synced_revision FROM ${table} WHERE sync_id = ? AND project = ?`)
+        .get(record.sync_id, project) as { id: number; origin_author: string | null; synced_revision: number | null } | null;
+
+      try {
+        if (existing) {
+          if (existing.origin_author === null || (existing.synced_revision ?? 0) >= record.revision) {
+            result.skipped++;
+            continue;
+          }
+          db.prepare(`
+            UPDATE ${table}
+            SET ${fields.map(field => `${field} = ?`).join(', ')}, synced_revision = ?
+            WHERE id = ?
+          `).run(...values, record.revision, existing.id);
+          writtenIds(result, record.kind).push(existing.id);
+          result.updated++;
+          continue;
+        }
+
+        const sessionId = ensureTeamSession(db, record);
+        const inserted = db.prepare(`
+          INSERT INTO ${table}
+          (memory_session_id, project, ${fields.join(', ')}, prompt_number, discovery_tokens,
+           created_at, created_at_epoch, sync_id, origin_author, synced_revision)
+          VALUES (?, ?, ${fields.map(() => '?').join(', ')}, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          sessionId,
+          record.project,
+          ...values,
+          record.prompt_number ?? null,
+          record.discovery_tokens ?? 0,
+          record.created_at,
+          record.created_at_epoch,
+          record.sync_id,
+          record.author,
+          record.revision
+        );
+        writtenIds(result, record.kind).push(Number(inserted.lastInsertRowid));
+        result.inserted++;
+      } catch (error) {
+        logger.warn('SYNC', 'Skipped pulled record rejected by local schema', {
+          syncId: record.sync_id,
+          kind: record.kind,
+          author: record.author
+        }, error as Error);
+        result.skipped++;
+      }
+    }
+  });
+  apply();
+
+  return result;
+}
@@ -0,0 +1,144 @@
+/**
+ * Team sync outbox: local records waiting to be pushed to the sync server
+ */
+
+import { randomUUID } from 'crypto';
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import { hasPrivateContent, stripMemoryTagsFromText } from '../../../utils/tag-stripping.js';
+import { SYNC_FIELDS, SYNC_PUSH_BATCH_SIZE, SYNC_TABLES } from './types.js';
+import type { SyncRecord, SyncRecordKind } from './types.js';
+
+interface PendingRow {
+  id: number;
+  sync_id: string | null;
+  memory_session_id: string;
+  project: string;
+  prompt_number: number | null;
+  discovery_tokens: number | null;
+  created_at: string;
+  created_at_epoch: number;
+  revision: number;
+  [field: string]: unknown;
+}
+
+/**
+ * Local records of a kind whose current revision has not been pushed yet
+ * A record's revision is the later of its creation and its last manual edit or merge.
+ * Records pulled from teammates (origin_author set) are never pushed back.
+ */
+function getPendingRows(db: Database, kind: SyncRecordKind, project: string, limit: number): PendingRow[] {
+  const table = SYNC_TABLES[kind];
+  return db.prepare(`
+    SELECT * FROM (
+      SELECT t.*, MAX(t.created_at_epoch, COALESCE((
+        SELECT MAX(r.created_at_epoch) FROM observation_revisions r
+        WHERE r.entity_type = ? AND r.entity_id = t.id AND r.action != 'delete'
+      ), 0)) AS revision
+      FROM ${table} t
+      WHERE t.project = ? AND t.origin_author IS NULL
+    )
+    WHERE synced_revision IS NULL OR synced_revision < revision
+    ORDER BY id
+    LIMIT ?
+  `).all(kind, project, limit) as PendingRow[];
+}
+
+/**
+ * Copy the shareable fields of a row with memory tags stripped
+ * @returns null when private content survives stripping (e.g. an unclosed <private> tag)
+ */
+function toSharedFields(kind: SyncRecordKind, row: PendingRow): Record<string, string | null> | null {
+  const fields: Record<string, string | null> = {};
+  for (const field of SYNC_FIELDS[kind]) {
+    const value = row[field];
+    if (value === undefined || value === null) {
+      fields[field] = null;
+      continue;
+    }
+    const cleaned = stripMemoryTagsFromText(String(value));
+    if (hasPrivateContent(cleaned)) {
+      return null;
+    }
+    fields[field] = cleaned;
+  }
+  return fields;
+}
+
+/**
+ * Collect the next batch of local records to push for a project
+ *
+ * Assigns a sync_id to records pushed for the first time. Records that still carry
+ * private content after stripping are withheld: they are marked synced at their current
+ * revision so they are not retried, and are reconsidered only if edited later.
+ *
+ * @param author - Name the records are shared under
+ */
+export function collectOutgoingRecords(
+  db: Database,
+  project: string,
+  author: string,
+  limit: number = SYNC_PUSH_BATCH_SIZE
+): SyncRecord[] {
+  const records: SyncRecord[] = [];
+  let withheld = 0;
+
+  const collect = db.transaction(() => {
+    for (const kind of Object.keys(SYNC_TABLES) as SyncRecordKind[]) {
+      const table = SYNC_TABLES[kind];
+      const remaining = limit - records.length;
+      if (remaining <= 0) break;
+
+      for (const row of getPendingRows(db, kind, project, remaining)) {
+        const fields = toSharedFields(kind, row);
+        if (!fields) {
+          db.prepare(`UPDATE ${table} SET synced_revision = ? WHERE id = ?`).run(row.revision, row.id);
+          withheld++;
+          continue;
+        }
+
+        let syncId = row.sync_id;
+        if (!syncId) {
+          syncId = randomUUID();
+          db.prepare(`UPDATE ${table} SET sync_id = ? WHERE id = ?`).run(syncId, row.id);
+        }
+
+        records.push({
+          sync_id: syncId,
+          kind,
+          project: row.project,
+          author,
+          session_id: row.memory_session_id,
+          revision: row.revision,
+          prompt_number: row.prompt_number ?? null,
+          discovery_tokens: row.discovery_tokens ?? 0,
+          created_at: row.created_at,
+          created_at_epoch: row.created_at_epoch,
+          fields
+        });
+      }
+    }
+  });
+  collect();
+
+  if (withheld > 0) {
+    logger.warn('SYNC', 'Withheld records with private content from team sync', { project, withheld });
+  }
+
+  return records;
+}
+
+/**
+ * Mark pushed records as synced at the revision that was sent
+ * Called with every record the server answered for (accepted or conflicting), so refused
+ * records are not resent until they change again.
+ */
+export function markRecordsSynced(db: Database, records: Pick<SyncRecord, 'sync_id' | 'kind' | 'revision'>[]): void {
+  const mark = db.transaction(() => {
+    for (const record of records) {
+      db.prepare(`UPDATE ${SYNC_TABLES[record.kind]} SET synced_revision = ? WHERE sync_id = ?`)
+        .run(record.revision, record.sync_id);
+    }
+  });
+  mark();
+}
@@ -0,0 +1,34 @@
+/**
+ * Per-project team sync progress
+ */
+
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { TeamSyncState } from './types.js';
+
+/**
+ * Get sync progress for a project (a fresh state if the project never synced)
+ */
+export function getTeamSyncState(db: Database, project: string): TeamSyncState {
+  const row = db.prepare('SELECT * FROM team_sync_state WHERE project = ?').get(project) as TeamSyncState | null;
+  return row ?? { project, pull_cursor: 0, last_push_at_epoch: null, last_pull_at_epoch: null };
+}
+
+/**
+ * Update sync progress for a project
+ */
+export function updateTeamSyncState(
+  db: Database,
+  project: string,
+  update: Partial<Omit<TeamSyncState, 'project'>>
+): void {
+  const state = { ...getTeamSyncState(db, project), ...update };
+  db.prepare(`
+    INSERT INTO team_sync_state (project, pull_cursor, last_push_at_epoch, last_pull_at_epoch)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(project) DO UPDATE SET
+      pull_cursor = excluded.pull_cursor,
+      last_push_at_epoch = excluded.last_push_at_epoch,
+      last_pull_at_epoch = excluded.last_pull_at_epoch
+  `).run(project, state.pull_cursor, state.last_push_at_epoch, state.last_pull_at_epoch);
+}
@@ -0,0 +1,109 @@
+/**
+ * Type definitions for team sync (sharing observations and summaries through a sync server)
+ *
+ * Shared by the worker-side client and the reference sync server. Records are identified
+ * by a random sync_id assigned on first push; revisions are epoch milliseconds of the last
+ * change, and a higher revision replaces a lower one.
+ */
+import { logger } from '../../../utils/logger.js';
+
+export type SyncRecordKind = 'observation' | 'summary';
+
+/**
+ * Content fields carried for each record kind (everything else stays local)
+ */
+export const SYNC_FIELDS: Record<SyncRecordKind, readonly string[]> = {
+  observation: ['type', 'title', 'subtitle', 'text', 'narrative', 'facts', 'concepts', 'files_read', 'files_modified'],
+  summary: ['request', 'investigated', 'learned', 'completed', 'next_steps', 'notes', 'files_read', 'files_edited']
+};
+
+/**
+ * Local table holding each record kind
+ */
+export const SYNC_TABLES: Record<SyncRecordKind, 'observations' | 'session_summaries'> = {
+  observation: 'observations',
+  summary: 'session_summaries'
+};
+
+/**
+ * Records sent per push request
+ */
+export const SYNC_PUSH_BATCH_SIZE = 100;
+
+/**
+ * Records returned per pull request
+ */
+export const SYNC_PULL_LIMIT = 500;
+
+/**
+ * A shared observation or summary as exchanged with the sync server
+ */
+export interface SyncRecord {
+  sync_id: string;
+  kind: SyncRecordKind;
+  project: string;
+  author: string;
+  /** memory_session_id on the author's machine; groups records into sessions */
+  session_id: string;
+  revision: number;
+  prompt_number: number | null;
+  discovery_tokens: number;
+  created_at: string;
+  created_at_epoch: number;
+  fields: Record<string, string | null>;
+}
+
+export interface SyncPushRequest {
+  project: string;
+  author: string;
+  records: SyncRecord[];
+}
+
+/**
+ * Why the server refused a pushed record
+ * - author_mismatch: the sync_id belongs to another author
+ * - stale_revision: the server already holds this revision or a newer one
+ * - private_content: the record still carries <private> content
+ */
+export type SyncConflictReason = 'author_mismatch' | 'stale_revision' | 'private_content';
+
+export interface SyncConflict {
+  sync_id: string;
+  reason: SyncConflictReason;
+}
+
+export interface SyncPushResponse {
+  accepted: string[];
+  conflicts: SyncConflict[];
+}
+
+export interface SyncPullResponse {
+  records: SyncRecord[];
+  /** Server sequence of the last returned record; pass as `since` on the next pull */
+  cursor: number;
+  hasMore: boolean;
+}
+
+/**
+ * Result of applying pulled records to the local database
+ */
+export interface ApplyRemoteRecordsResult {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  /** Local ids of the inserted and updated records, for vector sync */
+  recordIds: {
+    observations: number[];
+    summaries: number[];
+  };
+}
+
+/**
+ * Per-project sync progress stored in team_sync_state
+ */
+export interface TeamSyncState {
+  project: string;
+  pull_cursor: number;
+  last_push_at_epoch: number | null;
+  last_pull_at_epoch: number | null;
+}
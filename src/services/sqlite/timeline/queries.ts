@@ -153,6 +153,7 @@ export function getTimelineAroundObservation(
     SELECT *
     FROM observations
     WHERE created_at_epoch >= ? AND created_at_epoch <= ? ${projectFilter}
+      AND forgotten_at_epoch IS NULL
     ORDER BY created_at_epoch ASC
   `;
 
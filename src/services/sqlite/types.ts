@@ -274,14 +274,17 @@ export interface SearchOptions extends SearchFilters {
 export interface ObservationSearchResult extends ObservationRow {
   rank?: number; // FTS5 relevance score (lower is better)
   score?: number; // Normalized score (higher is better, 0-1)
+  snippet?: string; // FTS5 snippet with matched terms highlighted
 }
 
 export interface SessionSummarySearchResult extends SessionSummaryRow {
   rank?: number; // FTS5 relevance score (lower is better)
   score?: number; // Normalized score (higher is better, 0-1)
+  snippet?: string; // FTS5 snippet with matched terms highlighted
 }
 
 export interface UserPromptSearchResult extends UserPromptRow {
   rank?: number; // FTS5 relevance score (lower is better)
   score?: number; // Normalized score (higher is better, 0-1)
+  snippet?: string; // FTS5 snippet with matched terms highlighted
 }
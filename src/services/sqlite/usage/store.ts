@@ -0,0 +1,39 @@
+/**
+ * Recording and summing provider usage
+ */
+
+import type { Database } from 'bun:sqlite';
+import { logger } from '../../../utils/logger.js';
+import type { ProviderSpend, RecordProviderUsageInput } from './types.js';
+
+/**
+ * Record the tokens and estimated cost of one agent response
+ */
+export function recordProviderUsage(db: Database, input: RecordProviderUsageInput, createdAtEpoch: number = Date.now()): void {
+  db.prepare(`
+    INSERT INTO provider_usage (provider, session_db_id, tokens, cost_usd, created_at_epoch)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(input.provider, input.sessionDbId, input.tokens, input.costUsd, createdAtEpoch);
+
+  logger.debug('DB', 'Recorded provider usage', {
+    provider: input.provider,
+    tokens: input.tokens,
+    costUsd: input.costUsd
+  });
+}
+
+/**
+ * Usage per provider since the given epoch, most expensive first
+ */
+export function getProviderSpendSince(db: Database, sinceEpoch: number): ProviderSpend[] {
+  return db.prepare(`
+    SELECT provider,
+           COUNT(*) as requests,
+           SUM(tokens) as tokens,
+           SUM(cost_usd) as cost_usd
+    FROM provider_usage
+    WHERE created_at_epoch >= ?
+    GROUP BY provider
+    ORDER BY cost_usd DESC, provider
+  `).all(sinceEpoch) as ProviderSpend[];
+}
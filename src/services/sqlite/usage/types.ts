@@ -0,0 +1,26 @@
+/**
+ * Type definitions for provider usage accounting
+ */
+import { logger } from '../../../utils/logger.js';
+
+/**
+ * One agent response as recorded in provider_usage
+ */
+export interface RecordProviderUsageInput {
+  /** 'claude', 'gemini', 'openrouter' or 'openai-compatible' */
+  provider: string;
+  sessionDbId: number | null;
+  tokens: number;
+  /** Estimated from the per-provider price settings */
+  costUsd: number;
+}
+
+/**
+ * Usage totals of one provider over a period
+ */
+export interface ProviderSpend {
+  provider: string;
+  requests: number;
+  tokens: number;
+  cost_usd: number;
+}
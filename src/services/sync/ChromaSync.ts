@@ -1,33 +1,61 @@
 /**
  * ChromaSync Service
  *
- * Automatically syncs observations and session summaries to ChromaDB via MCP.
+ * Automatically syncs observations and session summaries to a vector store.
  * This service provides real-time semantic search capabilities by maintaining
  * a vector database synchronized with SQLite.
  *
- * Design: Fail-fast with no fallbacks - if Chroma is unavailable, syncing fails.
+ * Storage is pluggable (CLAUDE_MEM_VECTOR_BACKEND):
+ * - 'chroma': chroma-mcp subprocess via uvx (default)
+ * - 'sqlite': embeddings in the claude-mem database, computed by a local model
+ *
+ * Design: Fail-fast with no fallbacks - if the vector store is unavailable, syncing fails.
  */
 
-import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { ParsedObservation, ParsedSummary } from '../../sdk/parser.js';
 import { SessionStore } from '../sqlite/SessionStore.js';
+import type { ObservationRecord, SessionSummaryRecord } from '../../types/database.js';
+import type { AnnotationRecord } from '../sqlite/annotations/types.js';
 import { logger } from '../../utils/logger.js';
+import { metrics } from '../../utils/metrics.js';
 import { SettingsDefaultsManager } from '../../shared/SettingsDefaultsManager.js';
 import { USER_SETTINGS_PATH } from '../../shared/paths.js';
-import path from 'path';
-import os from 'os';
+import { distanceToSimilarity } from './vector/VectorStore.js';
+import type { VectorDocument, VectorStore, VectorWhereFilter } from './vector/VectorStore.js';
+import { ChromaMcpVectorStore } from './vector/ChromaMcpVectorStore.js';
+import { SqliteVectorStore } from './vector/SqliteVectorStore.js';
+import { LocalEmbedder } from './vector/LocalEmbedder.js';
+
+type ChromaDocument = VectorDocument;
 
-// Version injected at build time by esbuild define
-declare const __DEFAULT_PACKAGE_VERSION__: string;
-const packageVersion = typeof __DEFAULT_PACKAGE_VERSION__ !== 'undefined' ? __DEFAULT_PACKAGE_VERSION__ : '0.0.0-dev';
+type SyncDocType = 'observation' | 'session_summary' | 'user_prompt';
 
-interface ChromaDocument {
-  id: string;
-  document: string;
-  metadata: Record<string, string | number>;
+/**
+ * SQLite ids of records written straight to the database, by record kind
+ */
+export interface StoredRecordIds {
+  observations: number[];
+  summaries: number[];
+  prompts?: number[];
 }
 
+const vectorSyncDuration = metrics.histogram(
+  'claude_mem_vector_sync_seconds',
+  'Time to write a record\'s documents to the vector store',
+  ['doc_type']
+);
+const vectorSyncLag = metrics.histogram(
+  'claude_mem_vector_sync_lag_seconds',
+  'Age of a record (from its created_at_epoch) when it became searchable in the vector store',
+  ['doc_type'],
+  [1, 5, 15, 30, 60, 300, 900, 3600, 14400]
+);
+const vectorSyncFailures = metrics.counter(
+  'claude_mem_vector_sync_failures',
+  'Records that failed to sync to the vector store',
+  ['doc_type']
+);
+
 interface StoredObservation {
   id: number;
   memory_session_id: string;
@@ -74,28 +102,41 @@ interface StoredUserPrompt {
   project: string;
 }
 
+/**
+ * Create the vector store selected by CLAUDE_MEM_VECTOR_BACKEND
+ */
+function createVectorStore(collectionName: string): VectorStore {
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+
+  if (settings.CLAUDE_MEM_VECTOR_BACKEND === 'sqlite') {
+    return new SqliteVectorStore(collectionName, new LocalEmbedder(settings.CLAUDE_MEM_EMBEDDING_MODEL));
+  }
+  return new ChromaMcpVectorStore(collectionName);
+}
+
 export class ChromaSync {
-  private client: Client | null = null;
-  private transport: StdioClientTransport | null = null;
-  private connected: boolean = false;
   private project: string;
   private collectionName: string;
-  private readonly VECTOR_DB_DIR: string;
+  private readonly store: VectorStore;
   private readonly BATCH_SIZE = 100;
 
-  // Windows: Chroma disabled due to MCP SDK spawning console popups
+  // Windows: Chroma MCP backend disabled due to MCP SDK spawning console popups
   // See: https://github.com/anthropics/claude-mem/issues/675
-  // Will be re-enabled when we migrate to persistent HTTP server
+  // The SQLite backend runs in-process and stays enabled
   private readonly disabled: boolean;
 
-  constructor(project: string) {
+  /**
+   * @param project - Project whose records are synced (also names the collection)
+   * @param store - Vector store override; defaults to the configured backend
+   */
+  constructor(project: string, store?: VectorStore) {
     this.project = project;
     this.collectionName = `cm__${project}`;
-    this.VECTOR_DB_DIR = path.join(os.homedir(), '.claude-mem', 'vector-db');
+    this.store = store ?? createVectorStore(this.collectionName);
 
     // Disable on Windows to prevent console popups from MCP subprocess spawning
     // The MCP SDK's StdioClientTransport spawns Python processes that create visible windows
-    this.disabled = process.platform === 'win32';
+    this.disabled = process.platform === 'win32' && this.store.name === 'chroma';
     if (this.disabled) {
       logger.warn('CHROMA_SYNC', 'Vector search disabled on Windows (prevents console popups)', {
         project: this.project,
@@ -112,132 +153,9 @@ export class ChromaSync {
   }
 
   /**
-   * Ensure MCP client is connected to Chroma server
-   * Throws error if connection fails
-   */
-  private async ensureConnection(): Promise<void> {
-    if (this.connected && this.client) {
-      return;
-    }
-
-    logger.info('CHROMA_SYNC', 'Connecting to Chroma MCP server...', { project: this.project });
-
-    try {
-      // Use Python 3.13 by default to avoid onnxruntime compatibility issues with Python 3.14+
-      // See: GitHub issue #170 (Python 3.14 incompatibility)
-      const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
-      const pythonVersion = settings.CLAUDE_MEM_PYTHON_VERSION;
-      const isWindows = process.platform === 'win32';
-
-      const transportOptions: any = {
-        command: 'uvx',
-        args: [
-          '--python', pythonVersion,
-          'chroma-mcp',
-          '--client-type', 'persistent',
-          '--data-dir', this.VECTOR_DB_DIR
-        ],
-        stderr: 'ignore'
-      };
-
-      // CRITICAL: On Windows, try to hide console window to prevent PowerShell popups
-      // Note: windowsHide may not be supported by MCP SDK's StdioClientTransport
-      if (isWindows) {
-        transportOptions.windowsHide = true;
-        logger.debug('CHROMA_SYNC', 'Windows detected, attempting to hide console window', { project: this.project });
-      }
-
-      this.transport = new StdioClientTransport(transportOptions);
-
-      // Empty capabilities object: this client only calls Chroma tools, doesn't expose any
-      this.client = new Client({
-        name: 'claude-mem-chroma-sync',
-        version: packageVersion
-      }, {
-        capabilities: {}
-      });
-
-      await this.client.connect(this.transport);
-      this.connected = true;
-
-      logger.info('CHROMA_SYNC', 'Connected to Chroma MCP server', { project: this.project });
-    } catch (error) {
-      logger.error('CHROMA_SYNC', 'Failed to connect to Chroma MCP server', { project: this.project }, error as Error);
-      throw new Error(`Chroma connection failed: ${error instanceof Error ? error.message : String(error)}`);
-    }
-  }
-
-  /**
-   * Ensure collection exists, create if needed
-   * Throws error if collection creation fails
-   */
-  private async ensureCollection(): Promise<void> {
-    await this.ensureConnection();
-
-    if (!this.client) {
-      throw new Error(
-        'Chroma client not initialized. Call ensureConnection() before using client methods.' +
-        ` Project: ${this.project}`
-      );
-    }
-
-    try {
-      // Try to get collection info (will fail if doesn't exist)
-      await this.client.callTool({
-        name: 'chroma_get_collection_info',
-        arguments: {
-          collection_name: this.collectionName
-        }
-      });
-
-      logger.debug('CHROMA_SYNC', 'Collection exists', { collection: this.collectionName });
-    } catch (error) {
-      // Check if this is a connection error - don't try to create collection
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const isConnectionError =
-        errorMessage.includes('Not connected') ||
-        errorMessage.includes('Connection closed') ||
-        errorMessage.includes('MCP error -32000');
-
-      if (isConnectionError) {
-        // Reset connection state so next call attempts reconnect
-        this.connected = false;
-        this.client = null;
-        logger.error('CHROMA_SYNC', 'Connection lost during collection check',
-          { collection: this.collectionName }, error as Error);
-        throw new Error(`Chroma connection lost: ${errorMessage}`);
-      }
-
-      // Only attempt creation if it's genuinely a "collection not found" error
-      logger.error('CHROMA_SYNC', 'Collection check failed, attempting to create', { collection: this.collectionName }, error as Error);
-      logger.info('CHROMA_SYNC', 'Creating collection', { collection: this.collectionName });
-
-      try {
-        await this.client.callTool({
-          name: 'chroma_create_collection',
-          arguments: {
-            collection_name: this.collectionName,
-            embedding_function_name: 'default'
-          }
-        });
-
-        logger.info('CHROMA_SYNC', 'Collection created', { collection: this.collectionName });
-      } catch (createError) {
-        logger.error('CHROMA_SYNC', 'Failed to create collection', { collection: this.collectionName }, createError as Error);
-        throw new Error(`Collection creation failed: ${createError instanceof Error ? createError.message : String(createError)}`);
-      }
-    }
-  }
-
-  /**
-   * Format observation into Chroma documents (granular approach)
-   * Each semantic field becomes a separate vector document
+   * Metadata shared by all documents of an observation
    */
-  private formatObservationDocs(obs: StoredObservation): ChromaDocument[] {
-    const documents: ChromaDocument[] = [];
-
-    // Parse JSON fields
-    const facts = obs.facts ? JSON.parse(obs.facts) : [];
+  private formatObservationMetadata(obs: StoredObservation): Record<string, string | number> {
     const concepts = obs.concepts ? JSON.parse(obs.concepts) : [];
     const files_read = obs.files_read ? JSON.parse(obs.files_read) : [];
     const files_modified = obs.files_modified ? JSON.parse(obs.files_modified) : [];
@@ -266,6 +184,18 @@ export class ChromaSync {
       baseMetadata.files_modified = files_modified.join(',');
     }
 
+    return baseMetadata;
+  }
+
+  /**
+   * Format observation into Chroma documents (granular approach)
+   * Each semantic field and each annotation becomes a separate vector document
+   */
+  private formatObservationDocs(obs: StoredObservation, annotations: AnnotationRecord[] = []): ChromaDocument[] {
+    const documents: ChromaDocument[] = [];
+    const facts = obs.facts ? JSON.parse(obs.facts) : [];
+    const baseMetadata = this.formatObservationMetadata(obs);
+
     // Narrative as separate document
     if (obs.narrative) {
       documents.push({
@@ -293,9 +223,25 @@ export class ChromaSync {
       });
     });
 
+    // Each annotation as separate document (search hits resolve to the observation)
+    for (const annotation of annotations) {
+      documents.push(this.formatAnnotationDoc(annotation, baseMetadata));
+    }
+
     return documents;
   }
 
+  /**
+   * Format an annotation as a document of its observation
+   */
+  private formatAnnotationDoc(annotation: AnnotationRecord, baseMetadata: Record<string, string | number>): ChromaDocument {
+    return {
+      id: `obs_${annotation.observation_id}_annotation_${annotation.id}`,
+      document: annotation.note,
+      metadata: { ...baseMetadata, field_type: 'annotation', annotation_id: annotation.id }
+    };
+  }
+
   /**
    * Format summary into Chroma documents (granular approach)
    * Each summary field becomes a separate vector document
@@ -365,7 +311,7 @@ export class ChromaSync {
   }
 
   /**
-   * Add documents to Chroma in batch
+   * Add documents to the vector store in batch
    * Throws error if batch add fails
    */
   private async addDocuments(documents: ChromaDocument[]): Promise<void> {
@@ -373,37 +319,22 @@ export class ChromaSync {
       return;
     }
 
-    await this.ensureCollection();
-
-    if (!this.client) {
-      throw new Error(
-        'Chroma client not initialized. Call ensureConnection() before using client methods.' +
-        ` Project: ${this.project}`
-      );
-    }
+    await this.store.addDocuments(documents);
+  }
 
+  /**
+   * Add one record's documents, recording sync time, lag and failures for /metrics
+   */
+  private async syncRecord(docType: SyncDocType, documents: ChromaDocument[], createdAtEpoch: number): Promise<void> {
+    const stopTimer = vectorSyncDuration.startTimer({ doc_type: docType });
     try {
-      await this.client.callTool({
-        name: 'chroma_add_documents',
-        arguments: {
-          collection_name: this.collectionName,
-          documents: documents.map(d => d.document),
-          ids: documents.map(d => d.id),
-          metadatas: documents.map(d => d.metadata)
-        }
-      });
-
-      logger.debug('CHROMA_SYNC', 'Documents added', {
-        collection: this.collectionName,
-        count: documents.length
-      });
+      await this.addDocuments(documents);
     } catch (error) {
-      logger.error('CHROMA_SYNC', 'Failed to add documents', {
-        collection: this.collectionName,
-        count: documents.length
-      }, error as Error);
-      throw new Error(`Document add failed: ${error instanceof Error ? error.message : String(error)}`);
+      vectorSyncFailures.inc({ doc_type: docType });
+      throw error;
     }
+    stopTimer();
+    vectorSyncLag.observe({ doc_type: docType }, Math.max(0, Date.now() - createdAtEpoch) / 1000);
   }
 
   /**
@@ -450,7 +381,7 @@ export class ChromaSync {
       project
     });
 
-    await this.addDocuments(documents);
+    await this.syncRecord('observation', documents, createdAtEpoch);
   }
 
   /**
@@ -494,7 +425,7 @@ export class ChromaSync {
       project
     });
 
-    await this.addDocuments(documents);
+    await this.syncRecord('session_summary', documents, createdAtEpoch);
   }
 
   /**
@@ -550,7 +481,149 @@ export class ChromaSync {
       project
     });
 
-    await this.addDocuments([document]);
+    await this.syncRecord('user_prompt', [document], createdAtEpoch);
+  }
+
+  /**
+   * Delete every vector document that belongs to one SQLite record
+   * Matches by metadata since the number of fact documents varies
+   */
+  private async deleteDocumentsForRecord(docType: SyncDocType, sqliteId: number): Promise<void> {
+    try {
+      const count = await this.store.deleteDocuments({ '$and': [{ sqlite_id: sqliteId }, { doc_type: docType }] });
+
+      logger.debug('CHROMA_SYNC', 'Documents deleted', {
+        collection: this.collectionName,
+        docType,
+        sqliteId,
+        count
+      });
+    } catch (error) {
+      logger.error('CHROMA_SYNC', 'Failed to delete documents', {
+        collection: this.collectionName,
+        docType,
+        sqliteId
+      }, error as Error);
+      throw new Error(`Document delete failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Remove an observation's vector documents (after delete or merge)
+   * No-op on Windows (Chroma disabled to prevent console popups)
+   */
+  async deleteObservation(observationId: number): Promise<void> {
+    if (this.disabled) return;
+
+    logger.info('CHROMA_SYNC', 'Deleting observation', { observationId, project: this.project });
+    await this.deleteDocumentsForRecord('observation', observationId);
+  }
+
+  /**
+   * Remove a summary's vector documents
+   * No-op on Windows (Chroma disabled to prevent console popups)
+   */
+  async deleteSummary(summaryId: number): Promise<void> {
+    if (this.disabled) return;
+
+    logger.info('CHROMA_SYNC', 'Deleting summary', { summaryId, project: this.project });
+    await this.deleteDocumentsForRecord('session_summary', summaryId);
+  }
+
+  /**
+   * Add a new annotation's document to its observation
+   * No-op on Windows (Chroma disabled to prevent console popups)
+   */
+  async syncAnnotation(observation: ObservationRecord, annotation: AnnotationRecord): Promise<void> {
+    if (this.disabled || observation.forgotten_at_epoch) return;
+
+    const baseMetadata = this.formatObservationMetadata(observation as unknown as StoredObservation);
+
+    logger.info('CHROMA_SYNC', 'Syncing annotation', {
+      observationId: observation.id,
+      annotationId: annotation.id,
+      project: observation.project
+    });
+
+    await this.syncRecord('observation', [this.formatAnnotationDoc(annotation, baseMetadata)], annotation.created_at_epoch);
+  }
+
+  /**
+   * Re-embed an edited observation: drop its old documents and add fresh ones
+   * No-op on Windows (Chroma disabled to prevent console popups)
+   */
+  async resyncObservation(observation: ObservationRecord, annotations: AnnotationRecord[] = []): Promise<void> {
+    if (this.disabled) return;
+
+    const documents = this.formatObservationDocs(observation as unknown as StoredObservation, annotations);
+
+    logger.info('CHROMA_SYNC', 'Re-syncing observation', {
+      observationId: observation.id,
+      documentCount: documents.length,
+      project: observation.project
+    });
+
+    await this.deleteDocumentsForRecord('observation', observation.id);
+    // Forgotten observations stay out of vector search
+    if (!observation.forgotten_at_epoch) {
+      await this.addDocuments(documents);
+    }
+  }
+
+  /**
+   * Re-embed an edited summary: drop its old documents and add fresh ones
+   * No-op on Windows (Chroma disabled to prevent console popups)
+   */
+  async resyncSummary(summary: SessionSummaryRecord): Promise<void> {
+    if (this.disabled) return;
+
+    const documents = this.formatSummaryDocs(summary as unknown as StoredSummary);
+
+    logger.info('CHROMA_SYNC', 'Re-syncing summary', {
+      summaryId: summary.id,
+      documentCount: documents.length,
+      project: summary.project
+    });
+
+    await this.deleteDocumentsForRecord('session_summary', summary.id);
+    await this.addDocuments(documents);
+  }
+
+  /**
+   * Embed records written straight to the database (archive import, team sync pull)
+   * Each record's old documents are dropped first, so overwritten records are replaced
+   * and forgotten ones leave vector search.
+   * No-op on Windows (Chroma disabled to prevent console popups)
+   */
+  async syncStoredRecords(store: SessionStore, ids: StoredRecordIds): Promise<void> {
+    if (this.disabled) return;
+
+    for (const id of ids.observations) await this.deleteDocumentsForRecord('observation', id);
+    for (const id of ids.summaries) await this.deleteDocumentsForRecord('session_summary', id);
+    for (const id of ids.prompts ?? []) await this.deleteDocumentsForRecord('user_prompt', id);
+
+    // getObservationsByIds leaves forgotten observations out
+    const documents: ChromaDocument[] = [];
+    for (const observation of store.getObservationsByIds(ids.observations, { orderBy: 'date_asc' })) {
+      documents.push(...this.formatObservationDocs(observation as unknown as StoredObservation, store.getAnnotations(observation.id)));
+    }
+    for (const summary of store.getSessionSummariesByIds(ids.summaries, { orderBy: 'date_asc' })) {
+      documents.push(...this.formatSummaryDocs(summary as unknown as StoredSummary));
+    }
+    for (const prompt of store.getUserPromptsByIds(ids.prompts ?? [], { orderBy: 'date_asc' })) {
+      documents.push(this.formatUserPromptDoc(prompt as unknown as StoredUserPrompt));
+    }
+
+    for (let i = 0; i < documents.length; i += this.BATCH_SIZE) {
+      await this.addDocuments(documents.slice(i, i + this.BATCH_SIZE));
+    }
+
+    logger.info('CHROMA', 'Stored records synced', {
+      observations: ids.observations.length,
+      summaries: ids.summaries.length,
+      prompts: ids.prompts?.length ?? 0,
+      documents: documents.length
+    });
   }
 
   /**
@@ -562,15 +635,6 @@ export class ChromaSync {
     summaries: Set<number>;
     prompts: Set<number>;
   }> {
-    await this.ensureConnection();
-
-    if (!this.client) {
-      throw new Error(
-        'Chroma client not initialized. Call ensureConnection() before using client methods.' +
-        ` Project: ${this.project}`
-      );
-    }
-
     const observationIds = new Set<number>();
     const summaryIds = new Set<number>();
     const promptIds = new Set<number>();
@@ -582,24 +646,7 @@ export class ChromaSync {
 
     while (true) {
       try {
-        const result = await this.client.callTool({
-          name: 'chroma_get_documents',
-          arguments: {
-            collection_name: this.collectionName,
-            limit,
-            offset,
-            where: { project: this.project }, // Filter by project
-            include: ['metadatas']
-          }
-        });
-
-        const data = result.content[0];
-        if (data.type !== 'text') {
-          throw new Error('Unexpected response type from chroma_get_documents');
-        }
-
-        const parsed = JSON.parse(data.text);
-        const metadatas = parsed.metadatas || [];
+        const metadatas = await this.store.getMetadatas({ project: this.project }, limit, offset);
 
         if (metadatas.length === 0) {
           break; // No more documents
@@ -650,9 +697,7 @@ export class ChromaSync {
   async ensureBackfilled(): Promise<void> {
     if (this.disabled) return;
 
-    logger.info('CHROMA_SYNC', 'Starting smart backfill', { project: this.project });
-
-    await this.ensureCollection();
+    logger.info('CHROMA_SYNC', 'Starting smart backfill', { project: this.project, backend: this.store.name });
 
     // Fetch existing IDs from Chroma (fast, metadata only)
     const existing = await this.getExistingChromaIds();
@@ -666,10 +711,10 @@ export class ChromaSync {
         ? `AND id NOT IN (${existingObsIds.join(',')})`
         : '';
 
-      // Get only observations missing from Chroma
+      // Get only observations missing from Chroma (forgotten ones stay out)
       const observations = db.db.prepare(`
         SELECT * FROM observations
-        WHERE project = ? ${obsExclusionClause}
+        WHERE project = ? AND forgotten_at_epoch IS NULL ${obsExclusionClause}
         ORDER BY id ASC
       `).all(this.project) as StoredObservation[];
 
@@ -827,69 +872,11 @@ export class ChromaSync {
       return { ids: [], distances: [], metadatas: [] };
     }
 
-    await this.ensureConnection();
-
-    if (!this.client) {
-      throw new Error(
-        'Chroma client not initialized. Call ensureConnection() before using client methods.' +
-        ` Project: ${this.project}`
-      );
-    }
-
-    const whereStringified = whereFilter ? JSON.stringify(whereFilter) : undefined;
-
-    const arguments_obj = {
-      collection_name: this.collectionName,
-      query_texts: [query],
-      n_results: limit,
-      include: ['documents', 'metadatas', 'distances'],
-      where: whereStringified
-    };
-
-    let result;
-    try {
-      result = await this.client.callTool({
-        name: 'chroma_query_documents',
-        arguments: arguments_obj
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const isConnectionError =
-        errorMessage.includes('Not connected') ||
-        errorMessage.includes('Connection closed') ||
-        errorMessage.includes('MCP error -32000');
-
-      if (isConnectionError) {
-        // Reset connection state so next call attempts reconnect
-        this.connected = false;
-        this.client = null;
-        logger.error('CHROMA_SYNC', 'Connection lost during query',
-          { project: this.project, query }, error as Error);
-        throw new Error(`Chroma query failed - connection lost: ${errorMessage}`);
-      }
-      throw error;
-    }
-
-    const resultText = result.content[0]?.text || (() => {
-      logger.error('CHROMA', 'Missing text in MCP chroma_query_documents result', {
-        project: this.project,
-        query_text: query
-      });
-      return '';
-    })();
-
-    // Parse JSON response
-    let parsed: any;
-    try {
-      parsed = JSON.parse(resultText);
-    } catch (error) {
-      logger.error('CHROMA_SYNC', 'Failed to parse Chroma response', { project: this.project }, error as Error);
-      return { ids: [], distances: [], metadatas: [] };
-    }
+    const parsed = await this.store.query(query, limit, whereFilter);
 
     // Extract unique IDs from document IDs
     const ids: number[] = [];
-    const docIds = parsed.ids?.[0] || [];
+    const docIds = parsed.docIds;
     for (const docId of docIds) {
       // Extract sqlite_id from document ID (supports three formats):
       // - obs_{id}_narrative, obs_{id}_fact_0, etc (observations)
@@ -913,35 +900,53 @@ export class ChromaSync {
       }
     }
 
-    const distances = parsed.distances?.[0] || [];
-    const metadatas = parsed.metadatas?.[0] || [];
-
-    return { ids, distances, metadatas };
+    return { ids, distances: parsed.distances, metadatas: parsed.metadatas };
   }
 
   /**
-   * Close the Chroma client connection and cleanup subprocess
+   * Observations most similar to the query, scored by their best-matching document
+   * Similarity is cosine similarity whatever the backend's distance metric, highest first.
+   * Returns an empty list on Windows (Chroma disabled to prevent console popups)
+   *
+   * @param limit - Documents to fetch (an observation has several: narrative, facts, ...)
+   * @param whereFilter - Extra metadata filter, combined with doc_type = observation
    */
-  async close(): Promise<void> {
-    if (!this.connected && !this.client && !this.transport) {
-      return;
-    }
-
-    // Close client first
-    if (this.client) {
-      await this.client.close();
+  async queryObservationSimilarity(
+    query: string,
+    limit: number,
+    whereFilter?: VectorWhereFilter
+  ): Promise<Array<{ id: number; similarity: number }>> {
+    if (this.disabled) {
+      return [];
     }
 
-    // Explicitly close transport to kill subprocess
-    if (this.transport) {
-      await this.transport.close();
-    }
+    const where = whereFilter
+      ? { $and: [{ doc_type: 'observation' }, whereFilter] }
+      : { doc_type: 'observation' };
+    const parsed = await this.store.query(query, limit, where);
+
+    const best = new Map<number, number>();
+    parsed.docIds.forEach((docId, index) => {
+      const match = docId.match(/obs_(\d+)_/);
+      const distance = parsed.distances[index];
+      if (!match || distance === undefined) return;
+
+      const id = parseInt(match[1], 10);
+      const similarity = distanceToSimilarity(distance, this.store.distanceMetric);
+      if (similarity > (best.get(id) ?? -Infinity)) {
+        best.set(id, similarity);
+      }
+    });
 
-    logger.info('CHROMA_SYNC', 'Chroma client and subprocess closed', { project: this.project });
+    return [...best.entries()]
+      .map(([id, similarity]) => ({ id, similarity }))
+      .sort((a, b) => b.similarity - a.similarity);
+  }
 
-    // Always reset state
-    this.connected = false;
-    this.client = null;
-    this.transport = null;
+  /**
+   * Close the vector store (terminates the Chroma subprocess when used)
+   */
+  async close(): Promise<void> {
+    await this.store.close();
   }
 }
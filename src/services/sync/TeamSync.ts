@@ -0,0 +1,247 @@
+/**
+ * TeamSync Service
+ *
+ * Shares observations and summaries of opted-in projects with teammates through a
+ * sync server (see src/servers/sync-server.ts for the reference implementation).
+ *
+ * Each run pushes local records whose latest revision has not been sent yet, then pulls
+ * records other team members pushed since the last cursor. Pulled records are stored with
+ * origin_author set, are embedded for vector search, and are never pushed back. Memory tags
+ * are stripped before anything is sent, and records that still carry <private> content are
+ * withheld.
+ *
+ * Sync is off unless both CLAUDE_MEM_SYNC_SERVER_URL and CLAUDE_MEM_SYNC_PROJECTS are set.
+ */
+
+import { userInfo } from 'os';
+import { SessionStore } from '../sqlite/SessionStore.js';
+import type { ChromaSync } from './ChromaSync.js';
+import { logger } from '../../utils/logger.js';
+import type { SettingsDefaults } from '../../shared/SettingsDefaultsManager.js';
+import {
+  applyRemoteRecords,
+  collectOutgoingRecords,
+  getTeamSyncState,
+  markRecordsSynced,
+  updateTeamSyncState,
+  SYNC_PULL_LIMIT,
+  SYNC_PUSH_BATCH_SIZE
+} from '../sqlite/TeamSync.js';
+import type {
+  ApplyRemoteRecordsResult,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncPushResponse
+} from '../sqlite/TeamSync.js';
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/**
+ * Upper bound on push/pull round trips per project and run, so one run cannot spin forever
+ */
+const MAX_BATCHES_PER_RUN = 50;
+
+export interface TeamSyncConfig {
+  serverUrl: string;
+  token: string;
+  author: string;
+  projects: string[];
+  intervalMs: number;
+}
+
+type PulledCounts = Omit<ApplyRemoteRecordsResult, 'recordIds'>;
+
+export interface TeamSyncProjectResult {
+  project: string;
+  pushed: number;
+  conflicts: number;
+  pulled: PulledCounts;
+}
+
+export class TeamSync {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private activeRun: Promise<TeamSyncProjectResult[]> | null = null;
+
+  constructor(
+    private store: SessionStore,
+    private config: TeamSyncConfig,
+    private chromaSync: ChromaSync | null = null,
+    private fetchImpl: typeof fetch = fetch
+  ) {}
+
+  /**
+   * Build the sync configuration from settings
+   * @returns null when team sync is not configured
+   */
+  static loadConfig(settings: SettingsDefaults): TeamSyncConfig | null {
+    const serverUrl = settings.CLAUDE_MEM_SYNC_SERVER_URL.trim().replace(/\/+$/, '');
+    const projects = settings.CLAUDE_MEM_SYNC_PROJECTS.split(',').map(p => p.trim()).filter(Boolean);
+    if (!serverUrl || projects.length === 0) {
+      return null;
+    }
+
+    const intervalSeconds = parseInt(settings.CLAUDE_MEM_SYNC_INTERVAL_SECONDS, 10);
+    return {
+      serverUrl,
+      token: settings.CLAUDE_MEM_SYNC_TOKEN,
+      author: settings.CLAUDE_MEM_SYNC_AUTHOR.trim() || userInfo().username,
+      projects,
+      intervalMs: (Number.isFinite(intervalSeconds) && intervalSeconds >= 10 ? intervalSeconds : 60) * 1000
+    };
+  }
+
+  /**
+   * Run a sync immediately, then on the configured interval
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.runInBackground();
+    this.timer = setInterval(() => this.runInBackground(), this.config.intervalMs);
+    this.timer.unref?.();
+
+    logger.info('SYNC', 'Team sync started', {
+      serverUrl: this.config.serverUrl,
+      author: this.config.author,
+      projects: this.config.projects,
+      intervalMs: this.config.intervalMs
+    });
+  }
+
+  /**
+   * Stop the periodic sync (a run in progress finishes on its own)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('SYNC', 'Team sync stopped');
+    }
+  }
+
+  /**
+   * Sync every opted-in project; concurrent calls share the run in progress
+   */
+  async syncAll(): Promise<TeamSyncProjectResult[]> {
+    if (this.activeRun) {
+      return this.activeRun;
+    }
+
+    this.activeRun = (async () => {
+      const results: TeamSyncProjectResult[] = [];
+      for (const project of this.config.projects) {
+        try {
+          results.push(await this.syncProject(project));
+        } catch (error) {
+          logger.error('SYNC', 'Team sync failed for project', { project }, error as Error);
+        }
+      }
+      return results;
+    })();
+
+    try {
+      return await this.activeRun;
+    } finally {
+      this.activeRun = null;
+    }
+  }
+
+  /**
+   * Push pending local records of a project, then pull teammates' records
+   */
+  async syncProject(project: string): Promise<TeamSyncProjectResult> {
+    const { pushed, conflicts } = await this.push(project);
+    const pulled = await this.pull(project);
+
+    if (pushed > 0 || conflicts > 0 || pulled.inserted > 0 || pulled.updated > 0) {
+      logger.info('SYNC', 'Team sync completed', { project, pushed, conflicts, ...pulled });
+    }
+
+    return { project, pushed, conflicts, pulled };
+  }
+
+  private runInBackground(): void {
+    this.syncAll().catch(error => {
+      logger.error('SYNC', 'Team sync run failed', {}, error as Error);
+    });
+  }
+
+  private async push(project: string): Promise<{ pushed: number; conflicts: number }> {
+    let pushed = 0;
+    let conflicts = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const records = collectOutgoingRecords(this.store.db, project, this.config.author, SYNC_PUSH_BATCH_SIZE);
+      if (records.length === 0) break;
+
+      const body: SyncPushRequest = { project, author: this.config.author, records };
+      const response = await this.request<SyncPushResponse>('POST', '/api/sync/push', body);
+
+      const answered = new Set([...response.accepted, ...response.conflicts.map(c => c.sync_id)]);
+      markRecordsSynced(this.store.db, records.filter(record => answered.has(record.sync_id)));
+
+      pushed += response.accepted.length;
+      conflicts += response.conflicts.length;
+      for (const conflict of response.conflicts) {
+        logger.warn('SYNC', 'Sync server refused record', { project, syncId: conflict.sync_id, reason: conflict.reason });
+      }
+
+      // Unanswered records would be collected again immediately
+      if (answered.size === 0 || records.length < SYNC_PUSH_BATCH_SIZE) break;
+    }
+
+    updateTeamSyncState(this.store.db, project, { last_push_at_epoch: Date.now() });
+    return { pushed, conflicts };
+  }
+
+  private async pull(project: string): Promise<PulledCounts> {
+    const total: PulledCounts = { inserted: 0, updated: 0, skipped: 0 };
+    let cursor = getTeamSyncState(this.store.db, project).pull_cursor;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const params = new URLSearchParams({ project, since: String(cursor), limit: String(SYNC_PULL_LIMIT) });
+      const response = await this.request<SyncPullResponse>('GET', `/api/sync/pull?${params}`);
+
+      const applied = applyRemoteRecords(this.store.db, project, response.records);
+      total.inserted += applied.inserted;
+      total.updated += applied.updated;
+      total.skipped += applied.skipped;
+
+      if (this.chromaSync) {
+        try {
+          await this.chromaSync.syncStoredRecords(this.store, applied.recordIds);
+        } catch (error) {
+          logger.error('SYNC', 'Vector sync failed for pulled records, they may be missing from search', { project }, error as Error);
+        }
+      }
+
+      cursor = Math.max(cursor, response.cursor);
+      updateTeamSyncState(this.store.db, project, { pull_cursor: cursor, last_pull_at_epoch: Date.now() });
+
+      if (!response.hasMore) break;
+    }
+
+    return total;
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.token) {
+      headers.Authorization = `Bearer ${this.config.token}`;
+    }
+
+    const response = await this.fetchImpl(`${this.config.serverUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`Sync server responded ${response.status} to ${method} ${path}${text ? `: ${text}` : ''}`);
+    }
+
+    return await response.json() as T;
+  }
+}
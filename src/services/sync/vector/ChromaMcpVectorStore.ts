@@ -0,0 +1,325 @@
+/**
+ * ChromaMcpVectorStore - VectorStore backed by the chroma-mcp server
+ *
+ * Spawns `chroma-mcp` via uvx (persistent client in ~/.claude-mem/vector-db)
+ * and talks to it over MCP stdio. Requires uv/Python on the machine.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { logger } from '../../../utils/logger.js';
+import { SettingsDefaultsManager } from '../../../shared/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../../shared/paths.js';
+import type { VectorDocument, VectorQueryResult, VectorStore, VectorWhereFilter } from './VectorStore.js';
+import path from 'path';
+import os from 'os';
+
+// Version injected at build time by esbuild define
+declare const __DEFAULT_PACKAGE_VERSION__: string;
+const packageVersion = typeof __DEFAULT_PACKAGE_VERSION__ !== 'undefined' ? __DEFAULT_PACKAGE_VERSION__ : '0.0.0-dev';
+
+export class ChromaMcpVectorStore implements VectorStore {
+  readonly name = 'chroma';
+  // Collections are created without a space setting, so Chroma uses its default (l2)
+  readonly distanceMetric = 'squared-l2';
+
+  private client: Client | null = null;
+  private transport: StdioClientTransport | null = null;
+  private connected: boolean = false;
+  private readonly VECTOR_DB_DIR: string;
+
+  constructor(private collectionName: string) {
+    this.VECTOR_DB_DIR = path.join(os.homedir(), '.claude-mem', 'vector-db');
+  }
+
+  /**
+   * Ensure MCP client is connected to Chroma server
+   * Throws error if connection fails
+   */
+  private async ensureConnection(): Promise<Client> {
+    if (this.connected && this.client) {
+      return this.client;
+    }
+
+    logger.info('CHROMA_SYNC', 'Connecting to Chroma MCP server...', { collection: this.collectionName });
+
+    try {
+      // Use Python 3.13 by default to avoid onnxruntime compatibility issues with Python 3.14+
+      // See: GitHub issue #170 (Python 3.14 incompatibility)
+      const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+      const pythonVersion = settings.CLAUDE_MEM_PYTHON_VERSION;
+      const isWindows = process.platform === 'win32';
+
+      const transportOptions: any = {
+        command: 'uvx',
+        args: [
+          '--python', pythonVersion,
+          'chroma-mcp',
+          '--client-type', 'persistent',
+          '--data-dir', this.VECTOR_DB_DIR
+        ],
+        stderr: 'ignore'
+      };
+
+      // CRITICAL: On Windows, try to hide console window to prevent PowerShell popups
+      // Note: windowsHide may not be supported by MCP SDK's StdioClientTransport
+      if (isWindows) {
+        transportOptions.windowsHide = true;
+        logger.debug('CHROMA_SYNC', 'Windows detected, attempting to hide console window', { collection: this.collectionName });
+      }
+
+      this.transport = new StdioClientTransport(transportOptions);
+
+      // Empty capabilities object: this client only calls Chroma tools, doesn't expose any
+      this.client = new Client({
+        name: 'claude-mem-chroma-sync',
+        version: packageVersion
+      }, {
+        capabilities: {}
+      });
+
+      await this.client.connect(this.transport);
+      this.connected = true;
+
+      logger.info('CHROMA_SYNC', 'Connected to Chroma MCP server', { collection: this.collectionName });
+      return this.client;
+    } catch (error) {
+      logger.error('CHROMA_SYNC', 'Failed to connect to Chroma MCP server', { collection: this.collectionName }, error as Error);
+      throw new Error(`Chroma connection failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Detect errors that mean the MCP subprocess went away
+   */
+  private isConnectionError(error: unknown): boolean {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorMessage.includes('Not connected') ||
+      errorMessage.includes('Connection closed') ||
+      errorMessage.includes('MCP error -32000');
+  }
+
+  /**
+   * Reset connection state so next call attempts reconnect
+   */
+  private resetConnection(): void {
+    this.connected = false;
+    this.client = null;
+  }
+
+  /**
+   * Ensure collection exists, create if needed
+   * Throws error if collection creation fails
+   */
+  private async ensureCollection(): Promise<Client> {
+    const client = await this.ensureConnection();
+
+    try {
+      // Try to get collection info (will fail if doesn't exist)
+      await client.callTool({
+        name: 'chroma_get_collection_info',
+        arguments: {
+          collection_name: this.collectionName
+        }
+      });
+
+      logger.debug('CHROMA_SYNC', 'Collection exists', { collection: this.collectionName });
+    } catch (error) {
+      // Check if this is a connection error - don't try to create collection
+      if (this.isConnectionError(error)) {
+        this.resetConnection();
+        logger.error('CHROMA_SYNC', 'Connection lost during collection check',
+          { collection: this.collectionName }, error as Error);
+        throw new Error(`Chroma connection lost: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      // Only attempt creation if it's genuinely a "collection not found" error
+      logger.error('CHROMA_SYNC', 'Collection check failed, attempting to create', { collection: this.collectionName }, error as Error);
+      logger.info('CHROMA_SYNC', 'Creating collection', { collection: this.collectionName });
+
+      try {
+        await client.callTool({
+          name: 'chroma_create_collection',
+          arguments: {
+            collection_name: this.collectionName,
+            embedding_function_name: 'default'
+          }
+        });
+
+        logger.info('CHROMA_SYNC', 'Collection created', { collection: this.collectionName });
+      } catch (createError) {
+        logger.error('CHROMA_SYNC', 'Failed to create collection', { collection: this.collectionName }, createError as Error);
+        throw new Error(`Collection creation failed: ${createError instanceof Error ? createError.message : String(createError)}`);
+      }
+    }
+
+    return client;
+  }
+
+  /**
+   * Parse the JSON text payload of an MCP tool result
+   */
+  private parseToolText(result: any, toolName: string): any {
+    const data = result.content?.[0];
+    if (!data || data.type !== 'text') {
+      throw new Error(`Unexpected response type from ${toolName}`);
+    }
+    return JSON.parse(data.text);
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+
+    const client = await this.ensureCollection();
+
+    try {
+      await client.callTool({
+        name: 'chroma_add_documents',
+        arguments: {
+          collection_name: this.collectionName,
+          documents: documents.map(d => d.document),
+          ids: documents.map(d => d.id),
+          metadatas: documents.map(d => d.metadata)
+        }
+      });
+
+      logger.debug('CHROMA_SYNC', 'Documents added', {
+        collection: this.collectionName,
+        count: documents.length
+      });
+    } catch (error) {
+      logger.error('CHROMA_SYNC', 'Failed to add documents', {
+        collection: this.collectionName,
+        count: documents.length
+      }, error as Error);
+      throw new Error(`Document add failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async deleteDocuments(where: VectorWhereFilter): Promise<number> {
+    const client = await this.ensureCollection();
+
+    // Look up IDs first: the number of documents per record varies (one per fact)
+    const result = await client.callTool({
+      name: 'chroma_get_documents',
+      arguments: {
+        collection_name: this.collectionName,
+        where,
+        include: ['metadatas']
+      }
+    });
+
+    const ids: string[] = this.parseToolText(result, 'chroma_get_documents').ids || [];
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    await client.callTool({
+      name: 'chroma_delete_documents',
+      arguments: {
+        collection_name: this.collectionName,
+        ids
+      }
+    });
+
+    return ids.length;
+  }
+
+  async getMetadatas(where: VectorWhereFilter, limit: number, offset: number): Promise<Record<string, any>[]> {
+    const client = await this.ensureConnection();
+
+    const result = await client.callTool({
+      name: 'chroma_get_documents',
+      arguments: {
+        collection_name: this.collectionName,
+        limit,
+        offset,
+        where,
+        include: ['metadatas']
+      }
+    });
+
+    return this.parseToolText(result, 'chroma_get_documents').metadatas || [];
+  }
+
+  async query(queryText: string, limit: number, where?: VectorWhereFilter): Promise<VectorQueryResult> {
+    const client = await this.ensureConnection();
+
+    const whereStringified = where ? JSON.stringify(where) : undefined;
+
+    const arguments_obj = {
+      collection_name: this.collectionName,
+      query_texts: [queryText],
+      n_results: limit,
+      include: ['documents', 'metadatas', 'distances'],
+      where: whereStringified
+    };
+
+    let result;
+    try {
+      result = await client.callTool({
+        name: 'chroma_query_documents',
+        arguments: arguments_obj
+      });
+    } catch (error) {
+      if (this.isConnectionError(error)) {
+        this.resetConnection();
+        logger.error('CHROMA_SYNC', 'Connection lost during query',
+          { collection: this.collectionName, query: queryText }, error as Error);
+        throw new Error(`Chroma query failed - connection lost: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      throw error;
+    }
+
+    const resultText = (result.content as any)[0]?.text || (() => {
+      logger.error('CHROMA', 'Missing text in MCP chroma_query_documents result', {
+        collection: this.collectionName,
+        query_text: queryText
+      });
+      return '';
+    })();
+
+    // Parse JSON response
+    let parsed: any;
+    try {
+      parsed = JSON.parse(resultText);
+    } catch (error) {
+      logger.error('CHROMA_SYNC', 'Failed to parse Chroma response', { collection: this.collectionName }, error as Error);
+      return { docIds: [], distances: [], metadatas: [] };
+    }
+
+    return {
+      docIds: parsed.ids?.[0] || [],
+      distances: parsed.distances?.[0] || [],
+      metadatas: parsed.metadatas?.[0] || []
+    };
+  }
+
+  /**
+   * Close the Chroma client connection and cleanup subprocess
+   */
+  async close(): Promise<void> {
+    if (!this.connected && !this.client && !this.transport) {
+      return;
+    }
+
+    // Close client first
+    if (this.client) {
+      await this.client.close();
+    }
+
+    // Explicitly close transport to kill subprocess
+    if (this.transport) {
+      await this.transport.close();
+    }
+
+    logger.info('CHROMA_SYNC', 'Chroma client and subprocess closed', { collection: this.collectionName });
+
+    // Always reset state
+    this.connected = false;
+    this.client = null;
+    this.transport = null;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * LocalEmbedder - In-process sentence embeddings via transformers.js
+ *
+ * Runs an ONNX sentence-transformer (default: all-MiniLM-L6-v2, the same model
+ * Chroma's default embedding function uses) without Python. The model is
+ * downloaded once into ~/.claude-mem/models and loaded lazily on first use.
+ *
+ * @huggingface/transformers is an optional dependency (only the sqlite vector backend
+ * needs it), so a missing install surfaces as a clear error on first use.
+ */
+
+import { logger } from '../../../utils/logger.js';
+import { MODELS_DIR } from '../../../shared/paths.js';
+
+/**
+ * Turns texts into fixed-length embedding vectors
+ */
+export interface Embedder {
+  /** Model identifier stored alongside each vector */
+  readonly model: string;
+
+  /**
+   * Embed texts; returned vectors are L2-normalized
+   */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ data: Float32Array; dims: number[] }>;
+
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+/**
+ * Import transformers.js, explaining how to fix a missing optional install
+ */
+async function importTransformers() {
+  try {
+    return await import('@huggingface/transformers');
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ERR_MODULE_NOT_FOUND' || code === 'MODULE_NOT_FOUND' || /Cannot find (module|package)/.test(String(error))) {
+      throw new Error(
+        'The sqlite vector backend needs the optional @huggingface/transformers package, which is not installed. ' +
+        'Install it in the claude-mem plugin directory (npm install @huggingface/transformers) ' +
+        'or set CLAUDE_MEM_VECTOR_BACKEND to chroma.'
+      );
+    }
+    throw error;
+  }
+}
+
+export class LocalEmbedder implements Embedder {
+  private extractor: Promise<FeatureExtractor> | null = null;
+
+  constructor(readonly model: string = DEFAULT_EMBEDDING_MODEL) {}
+
+  /**
+   * Load the feature-extraction pipeline once; concurrent callers share the same promise
+   */
+  private loadExtractor(): Promise<FeatureExtractor> {
+    if (!this.extractor) {
+      this.extractor = (async () => {
+        logger.info('CHROMA_SYNC', 'Loading local embedding model', { model: this.model });
+
+        const transformers = await importTransformers();
+        transformers.env.cacheDir = MODELS_DIR;
+
+        const extractor = await transformers.pipeline('feature-extraction', this.model);
+
+        logger.info('CHROMA_SYNC', 'Local embedding model loaded', { model: this.model });
+        return extractor as unknown as FeatureExtractor;
+      })().catch(error => {
+        // Allow a retry on the next call instead of caching the failure
+        this.extractor = null;
+        throw error;
+      });
+    }
+    return this.extractor;
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const extractor = await this.loadExtractor();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+
+    const dimensions = output.dims[output.dims.length - 1];
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < texts.length; i++) {
+      vectors.push(Float32Array.from(output.data.subarray(i * dimensions, (i + 1) * dimensions)));
+    }
+    return vectors;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * SqliteVectorStore - VectorStore backed by the claude-mem SQLite database
+ *
+ * Embeddings are computed in-process (LocalEmbedder) and stored as Float32 BLOBs
+ * in the vector_documents table. Metadata filters run in SQL, then queries score the
+ * matching rows by brute-force cosine similarity, which stays fast for the tens of
+ * thousands of documents a personal memory store accumulates, and needs neither
+ * Python nor a subprocess.
+ */
+
+import { Database } from 'bun:sqlite';
+import { SessionStore } from '../../sqlite/SessionStore.js';
+import { logger } from '../../../utils/logger.js';
+import type { Embedder } from './LocalEmbedder.js';
+import type { VectorDocument, VectorQueryResult, VectorStore, VectorWhereFilter } from './VectorStore.js';
+
+interface VectorRow {
+  id: string;
+  metadata_json: string;
+  embedding: Uint8Array;
+}
+
+/**
+ * Documents embedded per model call (bounds memory for large backfills)
+ */
+const EMBED_BATCH_SIZE = 32;
+
+/**
+ * Metadata fields copied into their own indexed columns by addDocuments
+ */
+const COLUMN_FIELDS: Record<string, string> = {
+  doc_type: 'doc_type',
+  sqlite_id: 'sqlite_id'
+};
+
+/**
+ * Translate a Chroma-style where filter into an SQL condition over vector_documents
+ * Fields without a column of their own are read from metadata_json. A missing field
+ * matches $ne and $nin, as in Chroma.
+ */
+export function whereFilterToSql(where: VectorWhereFilter): { sql: string; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  for (const [key, condition] of Object.entries(where)) {
+    if (key === '$and' || key === '$or') {
+      const parts = (condition as VectorWhereFilter[]).map(sub => whereFilterToSql(sub));
+      if (parts.length === 0) {
+        clauses.push(key === '$and' ? '1' : '0');
+        continue;
+      }
+      clauses.push(`(${parts.map(part => part.sql).join(key === '$and' ? ' AND ' : ' OR ')})`);
+      for (const part of parts) {
+        params.push(...part.params);
+      }
+      continue;
+    }
+
+    const column = COLUMN_FIELDS[key];
+    const field = column ?? 'json_extract(metadata_json, ?)';
+    const fieldParams = column ? [] : [`$."${key}"`];
+
+    if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+      clauses.push(`${field} = ?`);
+      params.push(...fieldParams, condition);
+    } else if ('$eq' in condition) {
+      clauses.push(`${field} = ?`);
+      params.push(...fieldParams, condition.$eq);
+    } else if ('$ne' in condition) {
+      clauses.push(`${field} IS NOT ?`);
+      params.push(...fieldParams, condition.$ne);
+    } else if ('$in' in condition || '$nin' in condition) {
+      const values = (condition.$in ?? condition.$nin) as unknown[];
+      const negate = !('$in' in condition);
+      if (values.length === 0) {
+        clauses.push(negate ? '1' : '0');
+      } else {
+        const list = values.map(() => '?').join(', ');
+        clauses.push(negate ? `(${field} IS NULL OR ${field} NOT IN (${list}))` : `${field} IN (${list})`);
+        params.push(...fieldParams, ...(negate ? fieldParams : []), ...values);
+      }
+    } else {
+      logger.warn('CHROMA', 'Unsupported where operator, document excluded', { key, operators: Object.keys(condition) });
+      clauses.push('0');
+    }
+  }
+
+  return { sql: clauses.length > 0 ? clauses.join(' AND ') : '1', params };
+}
+
+/**
+ * Cosine distance between two L2-normalized vectors (0 = identical, 2 = opposite)
+ */
+export function cosineDistance(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+  }
+  return 1 - dot;
+}
+
+export class SqliteVectorStore implements VectorStore {
+  readonly name = 'sqlite';
+  readonly distanceMetric = 'cosine';
+
+  private store: SessionStore | null = null;
+
+  /**
+   * @param collectionName - Collection to read and write (mirrors the Chroma collection name)
+   * @param embedder - Embedding model
+   * @param db - Database to use; when omitted, the default database is opened lazily
+   */
+  constructor(
+    private collectionName: string,
+    private embedder: Embedder,
+    private db: Database | null = null
+  ) {}
+
+  /**
+   * Get the database, opening the default one on first use
+   */
+  private getDb(): Database {
+    if (!this.db) {
+      this.store = new SessionStore();
+      this.db = this.store.db;
+    }
+    return this.db;
+  }
+
+  async addDocuments(documents: VectorDocument[]): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+
+    const db = this.getDb();
+    const upsert = db.prepare(`
+      INSERT OR REPLACE INTO vector_documents
+      (id, collection, doc_type, sqlite_id, document, metadata_json, embedding, model, created_at_epoch)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    for (let i = 0; i < documents.length; i += EMBED_BATCH_SIZE) {
+      const batch = documents.slice(i, i + EMBED_BATCH_SIZE);
+      const vectors = await this.embedder.embed(batch.map(d => d.document));
+
+      const insertBatch = db.transaction(() => {
+        batch.forEach((doc, index) => {
+          const vector = vectors[index];
+          upsert.run(
+            doc.id,
+            this.collectionName,
+            String(doc.metadata.doc_type ?? ''),
+            Number(doc.metadata.sqlite_id ?? 0),
+            doc.document,
+            JSON.stringify(doc.metadata),
+            new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength),
+            this.embedder.model,
+            Date.now()
+          );
+        });
+      });
+      insertBatch();
+    }
+
+    logger.debug('CHROMA_SYNC', 'Documents added to SQLite vector store', {
+      collection: this.collectionName,
+      count: documents.length
+    });
+  }
+
+  async deleteDocuments(where: VectorWhereFilter): Promise<number> {
+    const filter = this.collectionFilter(where);
+    const result = this.getDb().prepare(`DELETE FROM vector_documents WHERE ${filter.sql}`).run(...filter.params);
+    return result.changes;
+  }
+
+  async getMetadatas(where: VectorWhereFilter, limit: number, offset: number): Promise<Record<string, any>[]> {
+    const filter = this.collectionFilter(where);
+    const rows = this.getDb().prepare(`
+      SELECT metadata_json
+      FROM vector_documents
+      WHERE ${filter.sql}
+      ORDER BY rowid ASC
+      LIMIT ? OFFSET ?
+    `).all(...filter.params, limit, offset) as Array<Pick<VectorRow, 'metadata_json'>>;
+
+    return rows.map(row => JSON.parse(row.metadata_json));
+  }
+
+  async query(queryText: string, limit: number, where?: VectorWhereFilter): Promise<VectorQueryResult> {
+    const [queryVector] = await this.embedder.embed([queryText]);
+
+    const filter = this.collectionFilter(where);
+    const rows = this.getDb().prepare(`
+      SELECT id, metadata_json, embedding
+      FROM vector_documents
+      WHERE ${filter.sql}
+      ORDER BY rowid ASC
+    `).all(...filter.params) as VectorRow[];
+
+    const scored = rows
+      .map(row => {
+        const embedding = new Float32Array(
+          row.embedding.buffer,
+          row.embedding.byteOffset,
+          row.embedding.byteLength / Float32Array.BYTES_PER_ELEMENT
+        );
+        return { row, distance: cosineDistance(queryVector, embedding) };
+      })
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+
+    return {
+      docIds: scored.map(item => item.row.id),
+      distances: scored.map(item => item.distance),
+      // Only the returned rows need their metadata parsed
+      metadatas: scored.map(item => JSON.parse(item.row.metadata_json))
+    };
+  }
+
+  /**
+   * SQL condition selecting this collection's rows that match the filter
+   * Rows embedded with a different model are skipped (their vectors are not comparable)
+   */
+  private collectionFilter(where?: VectorWhereFilter): { sql: string; params: unknown[] } {
+    const filter = whereFilterToSql(where ?? {});
+    return {
+      sql: `collection = ? AND model = ? AND (${filter.sql})`,
+      params: [this.collectionName, this.embedder.model, ...filter.params]
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.store) {
+      this.store.close();
+      this.store = null;
+      this.db = null;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * VectorStore - Storage backend interface for ChromaSync
+ *
+ * ChromaSync owns document formatting, backfill and ID extraction; a VectorStore
+ * only stores documents, runs similarity queries and filters by metadata.
+ *
+ * Implementations:
+ * - ChromaMcpVectorStore: chroma-mcp subprocess via uvx (default)
+ * - SqliteVectorStore: embeddings stored in the claude-mem SQLite database
+ */
+
+/**
+ * A single document as stored in the vector backend
+ */
+export interface VectorDocument {
+  id: string;
+  document: string;
+  metadata: Record<string, string | number>;
+}
+
+/**
+ * Metadata filter in Chroma's where syntax
+ * Supports field equality, { field: { $eq | $ne | $in | $nin } }, $and and $or
+ */
+export type VectorWhereFilter = Record<string, any>;
+
+/**
+ * Similarity query result, ordered by ascending distance
+ */
+export interface VectorQueryResult {
+  docIds: string[];
+  distances: number[];
+  metadatas: Record<string, any>[];
+}
+
+/**
+ * How a backend measures query distances
+ * - cosine: 1 - cosine similarity
+ * - squared-l2: squared Euclidean distance (Chroma's default space)
+ */
+export type VectorDistanceMetric = 'cosine' | 'squared-l2';
+
+export interface VectorStore {
+  /** Backend name for logging and diagnostics */
+  readonly name: string;
+
+  /** Metric of the distances returned by query() */
+  readonly distanceMetric: VectorDistanceMetric;
+
+  /**
+   * Add (or replace) documents in the collection
+   */
+  addDocuments(documents: VectorDocument[]): Promise<void>;
+
+  /**
+   * Delete every document matching the filter
+   * @returns Number of documents deleted
+   */
+  deleteDocuments(where: VectorWhereFilter): Promise<number>;
+
+  /**
+   * Page through document metadata matching the filter
+   */
+  getMetadatas(where: VectorWhereFilter, limit: number, offset: number): Promise<Record<string, any>[]>;
+
+  /**
+   * Find the documents most similar to the query text
+   */
+  query(queryText: string, limit: number, where?: VectorWhereFilter): Promise<VectorQueryResult>;
+
+  /**
+   * Release connections, subprocesses and models
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Convert a query distance to cosine similarity (1 = same direction, 0 = unrelated)
+ * Assumes unit-length embeddings, which both backends' embedding models produce,
+ * so thresholds mean the same thing whichever backend is configured.
+ */
+export function distanceToSimilarity(distance: number, metric: VectorDistanceMetric): number {
+  return metric === 'squared-l2' ? 1 - distance / 2 : 1 - distance;
+}
@@ -41,6 +41,8 @@ import { acquireSpawnLock, releaseSpawnLock } from './infrastructure/SpawnLock.j
 
 // Server imports
 import { Server } from './server/Server.js';
+import { loadTlsOptions } from './server/Tls.js';
+import type { TlsOptions } from './server/Tls.js';
 
 // Integration imports
 import {
@@ -48,6 +50,13 @@ import {
   handleCursorCommand
 } from './integrations/CursorHooksInstaller.js';
 
+// Archive imports (export/import commands)
+import { SessionStore } from './sqlite/SessionStore.js';
+import { readArchiveDirectory, writeArchiveDirectory } from './sqlite/archive/files.js';
+import { parseArchiveDate } from './sqlite/archive/filters.js';
+import { ArchiveError } from './sqlite/archive/types.js';
+import type { ArchiveConflictStrategy } from './sqlite/archive/types.js';
+
 // Service layer imports
 import { DatabaseManager } from './worker/DatabaseManager.js';
 import { SessionManager } from './worker/SessionManager.js';
@@ -55,12 +64,20 @@ import { SSEBroadcaster } from './worker/SSEBroadcaster.js';
 import { SDKAgent } from './worker/SDKAgent.js';
 import { GeminiAgent } from './worker/GeminiAgent.js';
 import { OpenRouterAgent } from './worker/OpenRouterAgent.js';
+import { OpenAICompatibleAgent } from './worker/OpenAICompatibleAgent.js';
+import { HeuristicAgent } from './worker/HeuristicAgent.js';
+import { ProviderRouter } from './worker/ProviderRouter.js';
 import { PaginationHelper } from './worker/PaginationHelper.js';
 import { SettingsManager } from './worker/SettingsManager.js';
 import { SearchManager } from './worker/SearchManager.js';
 import { FormattingService } from './worker/FormattingService.js';
 import { TimelineService } from './worker/TimelineService.js';
+import { FileContextService } from './worker/FileContextService.js';
+import { PromptContextService } from './worker/PromptContextService.js';
 import { SessionEventBroadcaster } from './worker/events/SessionEventBroadcaster.js';
+import { TeamSync } from './sync/TeamSync.js';
+import { ChromaSync } from './sync/ChromaSync.js';
+import { DigestConsolidator } from './worker/DigestConsolidator.js';
 
 // HTTP route handlers
 import { ViewerRoutes } from './worker/http/routes/ViewerRoutes.js';
@@ -69,6 +86,14 @@ import { DataRoutes } from './worker/http/routes/DataRoutes.js';
 import { SearchRoutes } from './worker/http/routes/SearchRoutes.js';
 import { SettingsRoutes } from './worker/http/routes/SettingsRoutes.js';
 import { LogsRoutes } from './worker/http/routes/LogsRoutes.js';
+import { GraphRoutes } from './worker/http/routes/GraphRoutes.js';
+import { DigestRoutes } from './worker/http/routes/DigestRoutes.js';
+import { AuthRoutes } from './worker/http/routes/AuthRoutes.js';
+import { MemoryRoutes } from './worker/http/routes/MemoryRoutes.js';
+import { McpRoutes } from './worker/http/routes/McpRoutes.js';
+import { ApiTokenStore, loadAuthMode } from './worker/http/auth.js';
+import { SettingsDefaultsManager } from '../shared/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../shared/paths.js';
 
 /**
  * Build JSON status output for hook framework communication.
@@ -94,6 +119,16 @@ export function buildStatusOutput(status: 'ready' | 'error', message?: string):
   };
 }
 
+/**
+ * Plain HTTP URL the worker can call itself on
+ * With TLS the HTTP listener is loopback-only; wildcard binds are reachable on loopback
+ */
+export function getSelfBaseUrl(host: string, port: number, tls: boolean): string {
+  const wildcard = !host || host === '0.0.0.0' || host === '::';
+  const selfHost = tls || wildcard ? '127.0.0.1' : host;
+  return `http://${selfHost.includes(':') ? `[${selfHost}]` : selfHost}:${port}`;
+}
+
 export class WorkerService {
   private server: Server;
   private startTime: number = Date.now();
@@ -111,13 +146,22 @@ export class WorkerService {
   private sdkAgent: SDKAgent;
   private geminiAgent: GeminiAgent;
   private openRouterAgent: OpenRouterAgent;
+  private openAICompatibleAgent: OpenAICompatibleAgent;
+  private heuristicAgent: HeuristicAgent;
+  private providerRouter: ProviderRouter;
   private paginationHelper: PaginationHelper;
   private settingsManager: SettingsManager;
   private sessionEventBroadcaster: SessionEventBroadcaster;
+  private teamSync: TeamSync | null = null;
+  private digestConsolidator: DigestConsolidator | null = null;
 
   // Route handlers
   private searchRoutes: SearchRoutes | null = null;
   private sessionRoutes: SessionRoutes;
+  private mcpRoutes: McpRoutes | null = null;
+
+  // Plain HTTP address the worker reaches itself on (MCP-over-HTTP tool calls)
+  private selfBaseUrl: string = `http://127.0.0.1:${getWorkerPort()}`;
 
   // Initialization tracking
   private initializationComplete: Promise<void>;
@@ -136,6 +180,10 @@ export class WorkerService {
     this.sdkAgent = new SDKAgent(this.dbManager, this.sessionManager);
     this.geminiAgent = new GeminiAgent(this.dbManager, this.sessionManager);
     this.openRouterAgent = new OpenRouterAgent(this.dbManager, this.sessionManager);
+    this.openAICompatibleAgent = new OpenAICompatibleAgent(this.dbManager, this.sessionManager);
+    this.heuristicAgent = new HeuristicAgent(this.dbManager, this.sessionManager);
+    this.providerRouter = new ProviderRouter(this.dbManager);
+    this.sessionManager.setProviderRouter(this.providerRouter);
 
     this.paginationHelper = new PaginationHelper(this.dbManager);
     this.settingsManager = new SettingsManager(this.dbManager);
@@ -191,11 +239,18 @@ export class WorkerService {
   private registerRoutes(): void {
     // Standard routes
     this.server.registerRoutes(new ViewerRoutes(this.sseBroadcaster, this.dbManager, this.sessionManager));
-    this.sessionRoutes = new SessionRoutes(this.sessionManager, this.dbManager, this.sdkAgent, this.geminiAgent, this.openRouterAgent, this.sessionEventBroadcaster, this);
+    this.sessionRoutes = new SessionRoutes(this.sessionManager, this.dbManager, this.sdkAgent, this.geminiAgent, this.openRouterAgent, this.openAICompatibleAgent, this.heuristicAgent, this.providerRouter, this.sessionEventBroadcaster, this);
     this.server.registerRoutes(this.sessionRoutes);
-    this.server.registerRoutes(new DataRoutes(this.paginationHelper, this.dbManager, this.sessionManager, this.sseBroadcaster, this, this.startTime));
+    this.server.registerRoutes(new DataRoutes(this.paginationHelper, this.dbManager, this.sessionManager, this.sseBroadcaster, this, this.startTime, this.providerRouter));
+    this.server.registerRoutes(new MemoryRoutes(this.dbManager, this.sseBroadcaster));
     this.server.registerRoutes(new SettingsRoutes(this.settingsManager));
     this.server.registerRoutes(new LogsRoutes());
+    this.server.registerRoutes(new GraphRoutes(this.dbManager));
+    this.server.registerRoutes(new DigestRoutes(this.dbManager));
+    const authMode = loadAuthMode(SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH));
+    this.server.registerRoutes(new AuthRoutes(authMode, new ApiTokenStore()));
+    this.mcpRoutes = new McpRoutes(authMode, () => this.selfBaseUrl);
+    this.server.registerRoutes(this.mcpRoutes);
 
     // Early handler for /api/context/inject to avoid 404 during startup
     this.server.app.get('/api/context/inject', async (req, res, next) => {
@@ -220,10 +275,26 @@ export class WorkerService {
    */
   async start(): Promise<void> {
     const port = getWorkerPort();
-    const host = getWorkerHost();
+    let host = getWorkerHost();
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+
+    // Remote clients need an API token; create one on first start so it can be copied from the data dir
+    if (loadAuthMode(settings) === 'remote') {
+      new ApiTokenStore().ensureDefaultToken();
+    }
+
+    let tls: TlsOptions | null = null;
+    try {
+      tls = loadTlsOptions(settings);
+    } catch (error) {
+      // Never fall back to plain HTTP on a remote interface: serve loopback only until TLS is fixed
+      logger.error('SYSTEM', 'TLS setup failed, serving HTTP on loopback only', { host }, error as Error);
+      host = '127.0.0.1';
+    }
 
     // Start HTTP server FIRST - make port available immediately
-    await this.server.listen(port, host);
+    await this.server.listen(port, host, tls);
+    this.selfBaseUrl = getSelfBaseUrl(host, port, tls !== null);
 
     // Worker writes its own PID - reliable on all platforms
     // This happens after listen() succeeds, ensuring the worker is actually ready
@@ -280,7 +351,9 @@ export class WorkerService {
         formattingService,
         timelineService
       );
-      this.searchRoutes = new SearchRoutes(searchManager);
+      const fileContextService = new FileContextService(this.dbManager.getSessionSearch(), this.dbManager.getSessionStore());
+      const promptContextService = new PromptContextService(this.dbManager.getChromaSync(), this.dbManager.getSessionStore());
+      this.searchRoutes = new SearchRoutes(searchManager, fileContextService, promptContextService);
       this.server.registerRoutes(this.searchRoutes);
       logger.info('WORKER', 'SearchManager initialized and search routes registered');
 
@@ -307,6 +380,24 @@ export class WorkerService {
 
       // Start periodic health check for stuck queues
       this.startQueueHealthCheck();
+
+      // Share opted-in projects with the team sync server (only when configured)
+      const teamSyncConfig = TeamSync.loadConfig(settings);
+      if (teamSyncConfig) {
+        this.teamSync = new TeamSync(this.dbManager.getSessionStore(), teamSyncConfig, this.dbManager.getChromaSync());
+        this.teamSync.start();
+      }
+
+      // Consolidate older observations into digests (only when enabled)
+      const consolidationConfig = DigestConsolidator.loadConfig(settings);
+      if (consolidationConfig) {
+        this.digestConsolidator = new DigestConsolidator(
+          this.dbManager.getSessionStore(),
+          { claude: this.sdkAgent, gemini: this.geminiAgent, openrouter: this.openRouterAgent, 'openai-compatible': this.openAICompatibleAgent },
+          consolidationConfig
+        );
+        this.digestConsolidator.start();
+      }
     } catch (error) {
       logger.error('SYSTEM', 'Background initialization failed', {}, error as Error);
       throw error;
@@ -398,6 +489,21 @@ export class WorkerService {
     return result;
   }
 
+  /**
+   * Wake or start generators for sessions whose messages were re-queued (queue panel retry/replay)
+   */
+  resumeSessionQueues(sessionDbIds: number[]): void {
+    for (const sessionDbId of sessionDbIds) {
+      try {
+        this.sessionManager.initializeSession(sessionDbId);
+        this.sessionManager.wakeQueue(sessionDbId);
+        this.sessionRoutes.ensureGeneratorRunning(sessionDbId, 'queue-replay');
+      } catch (error) {
+        logger.error('SYSTEM', `Failed to resume queue for session ${sessionDbId}`, {}, error as Error);
+      }
+    }
+  }
+
   /**
    * Start periodic health check for stuck queues
    * Runs every 30 seconds to detect and restart generators for sessions with stuck messages
@@ -455,6 +561,9 @@ export class WorkerService {
    * Shutdown the worker service
    */
   async shutdown(): Promise<void> {
+    this.teamSync?.stop();
+    this.digestConsolidator?.stop();
+    await this.mcpRoutes?.closeAll();
     await performGracefulShutdown({
       server: this.server.getHttpServer(),
       sessionManager: this.sessionManager,
@@ -489,6 +598,79 @@ export class WorkerService {
 // CLI Entry Point
 // ============================================================================
 
+/**
+ * Handle `export <dir>` and `import <dir>` archive commands against the local database
+ * Options: --project=NAME --since=DATE --until=DATE (both), --on-conflict=STRATEGY --rename-suffix=SUFFIX (import)
+ * @returns Process exit code
+ */
+async function handleArchiveCommand(command: 'export' | 'import', args: string[]): Promise<number> {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (const arg of args) {
+    const match = arg.match(/^--([\w-]+)=(.*)$/);
+    if (match) {
+      options[match[1]] = match[2];
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const dir = positional[0];
+  if (!dir) {
+    console.error(`Usage: claude-mem ${command} <archive-dir> [--project=NAME] [--since=YYYY-MM-DD] [--until=YYYY-MM-DD]` +
+      (command === 'import' ? ' [--on-conflict=skip|overwrite|rename-project] [--rename-suffix=SUFFIX]' : ''));
+    return 1;
+  }
+
+  const store = new SessionStore();
+  try {
+    const filters = {
+      project: options.project,
+      since: parseArchiveDate(options.since),
+      until: parseArchiveDate(options.until, true)
+    };
+
+    if (command === 'export') {
+      const archive = store.exportArchive(filters);
+      writeArchiveDirectory(path.resolve(dir), archive);
+      console.log(`Exported archive to ${path.resolve(dir)}`);
+      for (const [table, entry] of Object.entries(archive.manifest.tables)) {
+        console.log(`  ${table}: ${entry.count}`);
+      }
+      return 0;
+    }
+
+    const archive = readArchiveDirectory(path.resolve(dir));
+    const result = store.importArchive(archive, {
+      ...filters,
+      onConflict: options['on-conflict'] as ArchiveConflictStrategy | undefined,
+      renameSuffix: options['rename-suffix']
+    });
+    console.log(`Imported archive from ${path.resolve(dir)} (on conflict: ${result.onConflict})`);
+    for (const [table, stats] of Object.entries(result.tables)) {
+      console.log(`  ${table}: ${stats.imported} imported, ${stats.overwritten} overwritten, ${stats.renamed} renamed, ${stats.skipped} skipped`);
+    }
+
+    const chromaSync = new ChromaSync('claude-mem');
+    try {
+      await chromaSync.syncStoredRecords(store, result.recordIds);
+    } catch (error) {
+      console.warn(`Vector sync failed, imported records may be missing from semantic search: ${(error as Error).message}`);
+    } finally {
+      await chromaSync.close();
+    }
+    return 0;
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      console.error(`Archive ${command} failed: ${error.message}`);
+      return 1;
+    }
+    throw error;
+  } finally {
+    store.close();
+  }
+}
+
 async function main() {
   const command = process.argv[2];
   const port = getWorkerPort();
@@ -644,13 +826,18 @@ async function main() {
       process.exit(cursorResult);
     }
 
+    case 'export':
+    case 'import': {
+      process.exit(await handleArchiveCommand(command, process.argv.slice(3)));
+    }
+
     case 'hook': {
       const platform = process.argv[3];
       const event = process.argv[4];
       if (!platform || !event) {
         console.error('Usage: claude-mem hook <platform> <event>');
         console.error('Platforms: claude-code, cursor, raw');
-        console.error('Events: context, session-init, observation, summarize, user-message');
+        console.error('Events: context, session-init, pre-tool, observation, summarize, user-message');
         process.exit(1);
       }
       const { hookCommand } = await import('../cli/hook-command.js');
@@ -17,6 +17,16 @@ export interface ConversationMessage {
   content: string;
 }
 
+/**
+ * Observation extraction providers (one agent each)
+ */
+export type ProviderName = 'claude' | 'gemini' | 'openrouter' | 'openai-compatible';
+
+/**
+ * Anything that can run a session's generator: an LLM provider or the heuristic extractor
+ */
+export type ExtractorName = ProviderName | 'heuristic';
+
 export interface ActiveSession {
   sessionDbId: number;
   contentSessionId: string;      // User's Claude Code session being observed
@@ -32,8 +42,10 @@ export interface ActiveSession {
   cumulativeOutputTokens: number;  // Track output tokens for discovery cost
   earliestPendingTimestamp: number | null;  // Original timestamp of earliest pending message (for accurate observation timestamps)
   conversationHistory: ConversationMessage[];  // Shared conversation history for provider switching
-  currentProvider: 'claude' | 'gemini' | 'openrouter' | null;  // Track which provider is currently running
+  currentProvider: ExtractorName | null;  // Track which provider is currently running
   crashRecoveryCount: number;  // Track repeated crashes for history truncation
+  providerHandoff: boolean;  // Set when routing ended the generator so the next message goes to another provider
+  inFlightMessages: PendingMessageWithId[];  // Claimed (deleted from the queue) but not yet processed; dead-lettered if the generator crashes
 }
 
 export interface PendingMessage {
@@ -44,16 +56,24 @@ export interface PendingMessage {
   prompt_number?: number;
   cwd?: string;
   last_assistant_message?: string;
+  redaction_count?: number;  // Secrets redacted by the hook before queueing
 }
 
 /**
  * PendingMessage with database ID for completion tracking.
  * The _persistentId is used to mark the message as processed after SDK success.
  * The _originalTimestamp is the epoch when the message was first queued (for accurate observation timestamps).
+ * The _retryCount is carried over when the message is dead-lettered after a generator crash.
+ * The _claimedAt is the epoch when the worker claimed the message (agent latency metrics).
+ * The _coalesced messages are consecutive low-value tool events claimed with this one and
+ * sent in the same prompt.
  */
 export interface PendingMessageWithId extends PendingMessage {
   _persistentId: number;
   _originalTimestamp: number;
+  _retryCount: number;
+  _claimedAt: number;
+  _coalesced?: PendingMessageWithId[];
 }
 
 export interface ObservationData {
@@ -62,6 +82,7 @@ export interface ObservationData {
   tool_response: any;
   prompt_number: number;
   cwd?: string;
+  redaction_count?: number;
 }
 
 // ============================================================================
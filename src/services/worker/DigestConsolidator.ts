@@ -0,0 +1,194 @@
+/**
+ * DigestConsolidator: background consolidation of older observations into digests
+ *
+ * Responsibility:
+ * - Periodically collect observations older than CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS
+ *   that no digest covers yet
+ * - Group them by project, folder and concept
+ * - Ask the selected provider (Claude SDK, Gemini, OpenRouter or an OpenAI-compatible server) to write one digest per group
+ * - Store each digest linked to its source observations
+ *
+ * Source observations are never modified or deleted, so search keeps finding them;
+ * ContextBuilder shows the digests in their place once they are older than the cutoff.
+ *
+ * Consolidation is off unless CLAUDE_MEM_CONSOLIDATION_ENABLED is 'true'.
+ */
+
+import { SessionStore } from '../sqlite/SessionStore.js';
+import { logger } from '../../utils/logger.js';
+import type { SettingsDefaults } from '../../shared/SettingsDefaultsManager.js';
+import { buildDigestPrompt } from '../../sdk/prompts.js';
+import { parseDigest } from '../../sdk/parser.js';
+import { findConsolidationCandidates, groupDigestCandidates, storeDigest } from '../sqlite/Digests.js';
+import type { DigestGroup } from '../sqlite/Digests.js';
+import { selectConfiguredProvider } from './ProviderRouter.js';
+import type { TextGenerationAgent } from './agents/index.js';
+import type { ProviderName } from '../worker-types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DigestProvider = ProviderName;
+
+export type DigestAgents = Record<DigestProvider, TextGenerationAgent>;
+
+export interface DigestConsolidatorConfig {
+  /** Observations older than this many days are consolidated */
+  afterDays: number;
+  intervalMs: number;
+  minGroupSize: number;
+  /** Upper bound on provider calls per run */
+  maxDigestsPerRun: number;
+}
+
+export interface ConsolidationRunResult {
+  provider: DigestProvider;
+  digestsCreated: number;
+  observationsConsolidated: number;
+  groupsFailed: number;
+}
+
+export class DigestConsolidator {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private activeRun: Promise<ConsolidationRunResult> | null = null;
+
+  constructor(
+    private store: SessionStore,
+    private agents: DigestAgents,
+    private config: DigestConsolidatorConfig,
+    private resolveProvider: () => DigestProvider = selectConfiguredProvider
+  ) {}
+
+  /**
+   * Build the consolidation configuration from settings
+   * @returns null when consolidation is disabled
+   */
+  static loadConfig(settings: SettingsDefaults): DigestConsolidatorConfig | null {
+    if (settings.CLAUDE_MEM_CONSOLIDATION_ENABLED !== 'true') {
+      return null;
+    }
+
+    const afterDays = parseInt(settings.CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS, 10);
+    const intervalMinutes = parseInt(settings.CLAUDE_MEM_CONSOLIDATION_INTERVAL_MINUTES, 10);
+    const minGroupSize = parseInt(settings.CLAUDE_MEM_CONSOLIDATION_MIN_GROUP_SIZE, 10);
+    const maxDigestsPerRun = parseInt(settings.CLAUDE_MEM_CONSOLIDATION_MAX_DIGESTS_PER_RUN, 10);
+
+    return {
+      afterDays: Number.isFinite(afterDays) && afterDays >= 1 ? afterDays : 30,
+      intervalMs: (Number.isFinite(intervalMinutes) && intervalMinutes >= 5 ? intervalMinutes : 360) * 60 * 1000,
+      minGroupSize: Number.isFinite(minGroupSize) && minGroupSize >= 2 ? minGroupSize : 5,
+      maxDigestsPerRun: Number.isFinite(maxDigestsPerRun) && maxDigestsPerRun >= 1 ? maxDigestsPerRun : 10
+    };
+  }
+
+  /**
+   * Run consolidation on the configured interval (the first run waits one interval
+   * so worker startup is not slowed by provider calls)
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.runInBackground(), this.config.intervalMs);
+    this.timer.unref?.();
+
+    logger.info('DIGEST', 'Digest consolidation started', { ...this.config });
+  }
+
+  /**
+   * Stop periodic consolidation (a run in progress finishes on its own)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('DIGEST', 'Digest consolidation stopped');
+    }
+  }
+
+  /**
+   * Consolidate one batch of groups; concurrent calls share the run in progress
+   */
+  async runOnce(now: number = Date.now()): Promise<ConsolidationRunResult> {
+    if (this.activeRun) {
+      return this.activeRun;
+    }
+
+    this.activeRun = this.consolidate(now);
+    try {
+      return await this.activeRun;
+    } finally {
+      this.activeRun = null;
+    }
+  }
+
+  private runInBackground(): void {
+    this.runOnce().catch(error => {
+      logger.error('DIGEST', 'Digest consolidation run failed', {}, error as Error);
+    });
+  }
+
+  private async consolidate(now: number): Promise<ConsolidationRunResult> {
+    const provider = this.resolveProvider();
+    const result: ConsolidationRunResult = { provider, digestsCreated: 0, observationsConsolidated: 0, groupsFailed: 0 };
+
+    const candidates = findConsolidationCandidates(this.store.db, now - this.config.afterDays * DAY_MS);
+    const groups = groupDigestCandidates(candidates, { minGroupSize: this.config.minGroupSize })
+      .slice(0, this.config.maxDigestsPerRun);
+
+    for (const group of groups) {
+      try {
+        if (await this.consolidateGroup(group, provider, now)) {
+          result.digestsCreated++;
+          result.observationsConsolidated += group.observations.length;
+        } else {
+          result.groupsFailed++;
+        }
+      } catch (error) {
+        result.groupsFailed++;
+        logger.error('DIGEST', 'Failed to consolidate observation group', {
+          project: group.project,
+          folder: group.folder,
+          concept: group.concept,
+          provider
+        }, error as Error);
+      }
+    }
+
+    if (groups.length > 0) {
+      logger.info('DIGEST', 'Digest consolidation completed', { candidates: candidates.length, groups: groups.length, ...result });
+    }
+    return result;
+  }
+
+  /**
+   * @returns false when the provider response held no usable digest (the group is retried next run)
+   */
+  private async consolidateGroup(group: DigestGroup, provider: DigestProvider, now: number): Promise<boolean> {
+    const response = await this.agents[provider].generateText(buildDigestPrompt(group));
+    const digest = parseDigest(response);
+    if (!digest) {
+      logger.warn('DIGEST', 'Provider returned no digest', {
+        project: group.project,
+        folder: group.folder,
+        concept: group.concept,
+        provider,
+        responsePreview: response.slice(0, 200)
+      });
+      return false;
+    }
+
+    const epochs = group.observations.map(obs => obs.created_at_epoch);
+    storeDigest(this.store.db, {
+      project: group.project,
+      folder: group.folder,
+      concept: group.concept,
+      title: digest.title,
+      summary: digest.summary,
+      facts: digest.facts,
+      provider,
+      sourceIds: group.observations.map(obs => obs.id),
+      period_start_epoch: Math.min(...epochs),
+      period_end_epoch: Math.max(...epochs)
+    }, now);
+    return true;
+  }
+}
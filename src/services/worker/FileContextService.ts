@@ -0,0 +1,111 @@
+/**
+ * FileContextService - Memories about a file, surfaced before Claude edits or reads it
+ *
+ * Backs the PreToolUse hook: finds observations that touch the file (by-file search), keeps the
+ * ones worth interrupting a tool call for (remembered notes, gotchas, decisions and bugfixes),
+ * skips those already injected earlier in the same Claude session (file_context_injections, so
+ * this survives worker restarts), and renders what fits in a token budget.
+ */
+
+import type { SessionSearch } from '../sqlite/SessionSearch.js';
+import type { SessionStore } from '../sqlite/SessionStore.js';
+import type { ObservationSearchResult } from '../sqlite/types.js';
+import { logger } from '../../utils/logger.js';
+import { fitMemoryIndex, parseJsonArray } from '../../shared/timeline-formatting.js';
+import type { MemoryIndexEntry } from '../../shared/timeline-formatting.js';
+
+// Observations per project fetched from the by-file search before filtering
+const CANDIDATE_LIMIT = 30;
+
+/**
+ * By-file search row with the columns SELECT o.* returns beyond ObservationRow
+ */
+export type FileMemoryCandidate = ObservationSearchResult & {
+  origin?: string | null;
+  origin_author?: string | null;
+};
+
+export interface FileContextRequest {
+  filePath: string;
+  projects: string[];
+  /** Claude session the context is injected into (enables dedupe) */
+  contentSessionId?: string;
+  maxTokens: number;
+}
+
+export interface FileContextResult {
+  /** Text for additionalContext; empty when nothing new fits */
+  context: string;
+  observationIds: number[];
+}
+
+/**
+ * Why an observation is worth surfacing before a tool call, or null to leave it out
+ * Lower ranks are shown first
+ */
+export function getFileMemoryRank(observation: FileMemoryCandidate): { rank: number; label: string } | null {
+  if (observation.origin === 'user') return { rank: 0, label: 'remembered' };
+  if (parseJsonArray(observation.concepts).includes('gotcha')) return { rank: 1, label: 'gotcha' };
+  if (observation.type === 'decision') return { rank: 2, label: 'decision' };
+  if (observation.type === 'bugfix') return { rank: 3, label: 'bugfix' };
+  return null;
+}
+
+/**
+ * Render memories for a file, highest rank first, stopping before the token cap
+ * Returns an empty context when no memory fits
+ */
+export function formatFileContext(
+  filePath: string,
+  candidates: FileMemoryCandidate[],
+  maxTokens: number
+): FileContextResult {
+  const entries: MemoryIndexEntry[] = candidates
+    .map(observation => ({ observation, memory: getFileMemoryRank(observation) }))
+    .filter((entry): entry is { observation: FileMemoryCandidate; memory: { rank: number; label: string } } => entry.memory !== null)
+    .sort((a, b) => a.memory.rank - b.memory.rank || b.observation.created_at_epoch - a.observation.created_at_epoch)
+    .map(({ observation, memory }) => ({
+      id: observation.id,
+      createdAtEpoch: observation.created_at_epoch,
+      label: memory.label,
+      title: observation.title,
+      subtitle: observation.subtitle,
+      author: observation.origin_author
+    }));
+
+  const { text, ids } = fitMemoryIndex(`# [claude-mem] memories about ${filePath}`, entries, maxTokens);
+  return { context: text, observationIds: ids };
+}
+
+export class FileContextService {
+  constructor(
+    private sessionSearch: SessionSearch,
+    private sessionStore: SessionStore
+  ) {}
+
+  /**
+   * Memories about a file that haven't been injected into this Claude session yet
+   */
+  getFileContext(request: FileContextRequest): FileContextResult {
+    const seen = new Set(request.contentSessionId ? this.sessionStore.getFileContextInjectedIds(request.contentSessionId) : []);
+
+    const candidates = request.projects
+      .flatMap(project => this.sessionSearch.findByFile(request.filePath, { project, limit: CANDIDATE_LIMIT, orderBy: 'date_desc' }).observations)
+      .filter(observation => !seen.has(observation.id)) as FileMemoryCandidate[];
+
+    const result = formatFileContext(request.filePath, candidates, request.maxTokens);
+
+    if (result.observationIds.length > 0) {
+      if (request.contentSessionId) {
+        this.sessionStore.recordFileContextInjections(request.contentSessionId, request.filePath, result.observationIds);
+      }
+      logger.debug('WORKER', 'File memories injected', {
+        filePath: request.filePath,
+        count: result.observationIds.length,
+        candidates: candidates.length
+      });
+    }
+
+    return result;
+  }
+}
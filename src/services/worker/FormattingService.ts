@@ -111,6 +111,20 @@ Tips:
 |----|------|---|-------|------|`;
   }
 
+  /**
+   * Flatten an FTS5 snippet onto one line so it stays inside its table cell
+   */
+  private flattenSnippet(snippet: string): string {
+    return snippet.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+  }
+
+  /**
+   * Append the FTS5 keyword snippet (if any) to a search row title
+   */
+  private withSnippet(title: string, snippet?: string): string {
+    return snippet ? `${title} — ${this.flattenSnippet(snippet)}` : title;
+  }
+
   /**
    * Format observation as table row for search results (no Work column)
    */
@@ -118,7 +132,7 @@ Tips:
     const id = `#${obs.id}`;
     const time = this.formatTime(obs.created_at_epoch);
     const icon = ModeManager.getInstance().getTypeIcon(obs.type);
-    const title = obs.title || 'Untitled';
+    const title = this.withSnippet(obs.title || 'Untitled', obs.snippet);
     const readTokens = this.estimateReadTokens(obs);
 
     // Use ditto mark if same time as previous row
@@ -137,7 +151,10 @@ Tips:
     const id = `#S${session.id}`;
     const time = this.formatTime(session.created_at_epoch);
     const icon = '🎯';
-    const title = session.request || `Session ${session.memory_session_id?.substring(0, 8) || 'unknown'}`;
+    const title = this.withSnippet(
+      session.request || `Session ${session.memory_session_id?.substring(0, 8) || 'unknown'}`,
+      session.snippet
+    );
 
     // Use ditto mark if same time as previous row
     const timeDisplay = time === lastTime ? '″' : time;
@@ -155,10 +172,12 @@ Tips:
     const id = `#P${prompt.id}`;
     const time = this.formatTime(prompt.created_at_epoch);
     const icon = '💬';
-    // Truncate long prompts for table display
-    const title = prompt.prompt_text.length > 60
-      ? prompt.prompt_text.substring(0, 57) + '...'
-      : prompt.prompt_text;
+    // Show the keyword snippet when available, otherwise truncate long prompts for table display
+    const title = prompt.snippet
+      ? this.flattenSnippet(prompt.snippet)
+      : prompt.prompt_text.length > 60
+        ? prompt.prompt_text.substring(0, 57) + '...'
+        : prompt.prompt_text;
 
     // Use ditto mark if same time as previous row
     const timeDisplay = time === lastTime ? '″' : time;
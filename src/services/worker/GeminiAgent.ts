@@ -15,13 +15,15 @@ import { homedir } from 'os';
 import { DatabaseManager } from './DatabaseManager.js';
 import { SessionManager } from './SessionManager.js';
 import { logger } from '../../utils/logger.js';
-import { buildInitPrompt, buildObservationPrompt, buildSummaryPrompt, buildContinuationPrompt } from '../../sdk/prompts.js';
+import { buildInitPrompt, buildSummaryPrompt, buildContinuationPrompt } from '../../sdk/prompts.js';
 import { SettingsDefaultsManager } from '../../shared/SettingsDefaultsManager.js';
 import { USER_SETTINGS_PATH } from '../../shared/paths.js';
 import type { ActiveSession, ConversationMessage } from '../worker-types.js';
 import { ModeManager } from '../domain/ModeManager.js';
 import {
   processAgentResponse,
+  getObservationOutputFormat,
+  buildQueuedObservationPrompt,
   shouldFallbackToClaude,
   isAbortError,
   type WorkerRef,
@@ -274,11 +276,12 @@ export class GeminiAgent {
 
       // Load active mode
       const mode = ModeManager.getInstance().getActiveMode();
+      const outputFormat = getObservationOutputFormat();
 
       // Build initial prompt
       const initPrompt = session.lastPromptNumber === 1
-        ? buildInitPrompt(session.project, session.contentSessionId, session.userPrompt, mode)
-        : buildContinuationPrompt(session.userPrompt, session.lastPromptNumber, session.contentSessionId, mode);
+        ? buildInitPrompt(session.project, session.contentSessionId, session.userPrompt, mode, outputFormat)
+        : buildContinuationPrompt(session.userPrompt, session.lastPromptNumber, session.contentSessionId, mode, outputFormat);
 
       // Add to conversation history and query Gemini with full context
       session.conversationHistory.push({ role: 'user', content: initPrompt });
@@ -306,7 +309,9 @@ export class GeminiAgent {
           worker,
           tokensUsed,
           null,
-          'Gemini'
+          'Gemini',
+          undefined,
+          this
         );
       } else {
         // For thinking models, init may return only thoughts (model acknowledging setup)
@@ -338,14 +343,7 @@ export class GeminiAgent {
           }
 
           // Build observation prompt
-          const obsPrompt = buildObservationPrompt({
-            id: 0,
-            tool_name: message.tool_name!,
-            tool_input: JSON.stringify(message.tool_input),
-            tool_output: JSON.stringify(message.tool_response),
-            created_at_epoch: originalTimestamp ?? Date.now(),
-            cwd: message.cwd
-          });
+          const obsPrompt = buildQueuedObservationPrompt(message, originalTimestamp ?? Date.now());
 
           // Add to conversation history and query Gemini with full context
           session.conversationHistory.push({ role: 'user', content: obsPrompt });
@@ -371,7 +369,8 @@ export class GeminiAgent {
             tokensUsed,
             originalTimestamp,
             'Gemini',
-            lastCwd
+            lastCwd,
+            this
           );
 
         } else if (message.type === 'summarize') {
@@ -408,7 +407,8 @@ export class GeminiAgent {
             tokensUsed,
             originalTimestamp,
             'Gemini',
-            lastCwd
+            lastCwd,
+            this
           );
         }
       }
@@ -459,6 +459,19 @@ export class GeminiAgent {
     }));
   }
 
+  /**
+   * Single-turn completion outside any session (used by digest consolidation)
+   */
+  async generateText(prompt: string): Promise<string> {
+    const { apiKey, model, rateLimitingEnabled } = this.getGeminiConfig();
+    if (!apiKey) {
+      throw new Error('Gemini API key not configured. Set CLAUDE_MEM_GEMINI_API_KEY in settings or GEMINI_API_KEY environment variable.');
+    }
+
+    const { content } = await this.queryGeminiMultiTurn([{ role: 'user', content: prompt }], apiKey, model, rateLimitingEnabled);
+    return content;
+  }
+
   /**
    * Query Gemini via REST API with full conversation history (multi-turn)
    * Sends the entire conversation context for coherent responses
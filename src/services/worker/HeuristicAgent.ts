@@ -0,0 +1,91 @@
+/**
+ * HeuristicAgent: observation extraction without an LLM
+ *
+ * Runs a session's queue through the rule-based extractor in src/sdk/heuristics.ts,
+ * so pending messages keep draining when no provider is usable.
+ *
+ * Responsibility:
+ * - Derive minimal observations from tool events (edits, writes, reads, test runs)
+ * - Store them through the same path as LLM responses, marked origin='heuristic'
+ *
+ * Runs when CLAUDE_MEM_EXTRACTION_MODE is 'heuristic', or 'hybrid' while the routed
+ * provider is failing or paused by a budget (see ProviderRouter). Summary requests
+ * need an LLM and are consumed without storing anything.
+ */
+
+import { DatabaseManager } from './DatabaseManager.js';
+import { SessionManager } from './SessionManager.js';
+import { logger } from '../../utils/logger.js';
+import { extractHeuristicObservations } from '../../sdk/heuristics.js';
+import type { ActiveSession } from '../worker-types.js';
+import { storeParsedResponse, cleanupProcessedMessages, type WorkerRef } from './agents/index.js';
+
+export class HeuristicAgent {
+  private dbManager: DatabaseManager;
+  private sessionManager: SessionManager;
+
+  constructor(dbManager: DatabaseManager, sessionManager: SessionManager) {
+    this.dbManager = dbManager;
+    this.sessionManager = sessionManager;
+  }
+
+  /**
+   * Start heuristic extraction for a session
+   * Processes queued messages until the iterator ends (abort, idle or provider handoff)
+   */
+  async startSession(session: ActiveSession, worker?: WorkerRef): Promise<void> {
+    // Track lastCwd from messages for CLAUDE.md generation
+    let lastCwd: string | undefined;
+
+    for await (const message of this.sessionManager.getMessageIterator(session.sessionDbId)) {
+      if (message.cwd) {
+        lastCwd = message.cwd;
+      }
+      // Capture earliest timestamp BEFORE processing (will be cleared after)
+      const originalTimestamp = session.earliestPendingTimestamp;
+
+      if (message.type !== 'observation' || !message.tool_name) {
+        logger.debug('SDK', 'Heuristic extractor skipped message without a tool event', {
+          sessionId: session.sessionDbId,
+          type: message.type
+        });
+        cleanupProcessedMessages(session, worker);
+        continue;
+      }
+
+      if (message.prompt_number !== undefined) {
+        session.lastPromptNumber = message.prompt_number;
+      }
+
+      // Tool events coalesced with this one are extracted individually
+      const observations = [message, ...(message._coalesced ?? [])].flatMap(event => extractHeuristicObservations({
+        tool_name: event.tool_name!,
+        tool_input: event.tool_input,
+        tool_response: event.tool_response,
+        cwd: event.cwd
+      }));
+
+      if (observations.length === 0) {
+        cleanupProcessedMessages(session, worker);
+        continue;
+      }
+
+      // Ensure memorySessionId exists before storing observations
+      this.sessionManager.ensureMemorySessionId(session, 'heuristic');
+
+      await storeParsedResponse(
+        observations,
+        null,
+        session,
+        this.dbManager,
+        worker,
+        0,
+        originalTimestamp,
+        'Heuristic',
+        lastCwd
+      );
+    }
+
+    logger.debug('SDK', 'Heuristic extractor finished', { sessionId: session.sessionDbId });
+  }
+}
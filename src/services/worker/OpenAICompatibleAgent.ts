@@ -0,0 +1,426 @@
+/**
+ * OpenAICompatibleAgent: observation extraction with a self-hosted LLM
+ *
+ * Alternative to SDKAgent that talks to any OpenAI-compatible
+ * `/v1/chat/completions` endpoint (Ollama, llama.cpp server, vLLM, LM Studio),
+ * so tool output never has to leave infrastructure you control.
+ *
+ * Responsibility:
+ * - Call the configured chat completions endpoint for observation extraction
+ * - Parse XML responses (same format as Claude/Gemini/OpenRouter)
+ * - Sync to database and Chroma
+ * - Trim conversation history to fit smaller local context windows
+ *
+ * Fallback to Claude follows CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK (disabled by default),
+ * so a local-only setup never sends data to a cloud provider unless explicitly allowed.
+ */
+
+import { DatabaseManager } from './DatabaseManager.js';
+import { SessionManager } from './SessionManager.js';
+import { logger } from '../../utils/logger.js';
+import { buildInitPrompt, buildSummaryPrompt, buildContinuationPrompt } from '../../sdk/prompts.js';
+import { SettingsDefaultsManager } from '../../shared/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../shared/paths.js';
+import type { ActiveSession, ConversationMessage } from '../worker-types.js';
+import { ModeManager } from '../domain/ModeManager.js';
+import {
+  processAgentResponse,
+  getObservationOutputFormat,
+  buildQueuedObservationPrompt,
+  shouldFallbackToClaude,
+  isAbortError,
+  type WorkerRef,
+  type FallbackAgent
+} from './agents/index.js';
+
+// Context window management constants (defaults, overridable via settings)
+// Local models usually have far smaller context windows than hosted ones
+const DEFAULT_MAX_CONTEXT_MESSAGES = 20;
+const DEFAULT_MAX_ESTIMATED_TOKENS = 32000;
+const DEFAULT_TIMEOUT_SECONDS = 300;  // Local models on CPU can be slow
+const CHARS_PER_TOKEN_ESTIMATE = 4;  // Conservative estimate: 1 token = 4 chars
+
+// OpenAI-compatible message format
+interface OpenAIMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason?: string;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+  error?: {
+    message?: string;
+    code?: string;
+  } | string;
+}
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  timeoutMs: number;
+}
+
+export class OpenAICompatibleAgent {
+  private dbManager: DatabaseManager;
+  private sessionManager: SessionManager;
+  private fallbackAgent: FallbackAgent | null = null;
+
+  constructor(dbManager: DatabaseManager, sessionManager: SessionManager) {
+    this.dbManager = dbManager;
+    this.sessionManager = sessionManager;
+  }
+
+  /**
+   * Set the fallback agent (Claude SDK) for when the endpoint fails
+   * Must be set after construction to avoid circular dependency
+   */
+  setFallbackAgent(agent: FallbackAgent): void {
+    this.fallbackAgent = agent;
+  }
+
+  /**
+   * Start OpenAI-compatible agent for a session
+   * Uses multi-turn conversation to maintain context across messages
+   */
+  async startSession(session: ActiveSession, worker?: WorkerRef): Promise<void> {
+    try {
+      const config = this.getConfig();
+
+      if (!config.baseUrl) {
+        throw new Error('OpenAI-compatible base URL not configured. Set CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL in settings.');
+      }
+
+      // Load active mode
+      const mode = ModeManager.getInstance().getActiveMode();
+      const outputFormat = getObservationOutputFormat();
+
+      // Build initial prompt
+      const initPrompt = session.lastPromptNumber === 1
+        ? buildInitPrompt(session.project, session.contentSessionId, session.userPrompt, mode, outputFormat)
+        : buildContinuationPrompt(session.userPrompt, session.lastPromptNumber, session.contentSessionId, mode, outputFormat);
+
+      // Add to conversation history and query the endpoint with full context
+      session.conversationHistory.push({ role: 'user', content: initPrompt });
+      const initResponse = await this.queryMultiTurn(session.conversationHistory, config);
+
+      if (initResponse.content) {
+        // ResponseProcessor appends the response to conversation history
+        // Track token usage
+        const tokensUsed = initResponse.tokensUsed || 0;
+        session.cumulativeInputTokens += Math.floor(tokensUsed * 0.7);  // Rough estimate
+        session.cumulativeOutputTokens += Math.floor(tokensUsed * 0.3);
+
+        // Ensure memorySessionId exists for stateless provider before storing observations
+        this.sessionManager.ensureMemorySessionId(session, 'openai-compatible');
+
+        // Process response using shared ResponseProcessor (no original timestamp for init - not from queue)
+        await processAgentResponse(
+          initResponse.content,
+          session,
+          this.dbManager,
+          this.sessionManager,
+          worker,
+          tokensUsed,
+          null,
+          'OpenAI-compatible',
+          undefined,  // No lastCwd yet - before message processing
+          this
+        );
+      } else {
+        logger.error('SDK', 'Empty OpenAI-compatible init response - session may lack context', {
+          sessionId: session.sessionDbId,
+          model: config.model
+        });
+      }
+
+      // Track lastCwd from messages for CLAUDE.md generation
+      let lastCwd: string | undefined;
+
+      // Process pending messages
+      for await (const message of this.sessionManager.getMessageIterator(session.sessionDbId)) {
+        // Capture cwd from messages for proper worktree support
+        if (message.cwd) {
+          lastCwd = message.cwd;
+        }
+        // Capture earliest timestamp BEFORE processing (will be cleared after)
+        const originalTimestamp = session.earliestPendingTimestamp;
+
+        let prompt: string;
+        if (message.type === 'observation') {
+          // Update last prompt number
+          if (message.prompt_number !== undefined) {
+            session.lastPromptNumber = message.prompt_number;
+          }
+
+          prompt = buildQueuedObservationPrompt(message, originalTimestamp ?? Date.now());
+        } else if (message.type === 'summarize') {
+          prompt = buildSummaryPrompt({
+            id: session.sessionDbId,
+            memory_session_id: session.memorySessionId,
+            project: session.project,
+            user_prompt: session.userPrompt,
+            last_assistant_message: message.last_assistant_message || ''
+          }, mode);
+        } else {
+          continue;
+        }
+
+        // Add to conversation history and query the endpoint with full context
+        session.conversationHistory.push({ role: 'user', content: prompt });
+        const response = await this.queryMultiTurn(session.conversationHistory, config);
+
+        let tokensUsed = 0;
+        if (response.content) {
+          tokensUsed = response.tokensUsed || 0;
+          session.cumulativeInputTokens += Math.floor(tokensUsed * 0.7);
+          session.cumulativeOutputTokens += Math.floor(tokensUsed * 0.3);
+        }
+
+        // Process response using shared ResponseProcessor (also appends it to conversation history)
+        await processAgentResponse(
+          response.content || '',
+          session,
+          this.dbManager,
+          this.sessionManager,
+          worker,
+          tokensUsed,
+          originalTimestamp,
+          'OpenAI-compatible',
+          lastCwd,
+          this
+        );
+      }
+
+      // Mark session complete
+      const sessionDuration = Date.now() - session.startTime;
+      logger.success('SDK', 'OpenAI-compatible agent completed', {
+        sessionId: session.sessionDbId,
+        duration: `${(sessionDuration / 1000).toFixed(1)}s`,
+        historyLength: session.conversationHistory.length,
+        model: config.model
+      });
+
+    } catch (error: unknown) {
+      if (isAbortError(error)) {
+        logger.warn('SDK', 'OpenAI-compatible agent aborted', { sessionId: session.sessionDbId });
+        throw error;
+      }
+
+      // Check if we should fall back to Claude
+      const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+      const disableFallback = settings.CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK !== 'false';
+      if (shouldFallbackToClaude(error, disableFallback) && this.fallbackAgent) {
+        logger.warn('SDK', 'OpenAI-compatible endpoint failed, falling back to Claude SDK', {
+          sessionDbId: session.sessionDbId,
+          error: error instanceof Error ? error.message : String(error),
+          historyLength: session.conversationHistory.length
+        });
+
+        // Fall back to Claude - it will use the same session with shared conversationHistory
+        return this.fallbackAgent.startSession(session, worker);
+      }
+
+      logger.failure('SDK', 'OpenAI-compatible agent error', { sessionDbId: session.sessionDbId }, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Single-turn completion outside any session (used by digest consolidation)
+   */
+  async generateText(prompt: string): Promise<string> {
+    const config = this.getConfig();
+    if (!config.baseUrl) {
+      throw new Error('OpenAI-compatible base URL not configured. Set CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL in settings.');
+    }
+
+    const { content } = await this.queryMultiTurn([{ role: 'user', content: prompt }], config);
+    return content;
+  }
+
+  /**
+   * Estimate token count from text (conservative estimate)
+   */
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN_ESTIMATE);
+  }
+
+  /**
+   * Truncate conversation history to fit the model's context window
+   * Keeps most recent messages within token budget
+   */
+  private truncateHistory(history: ConversationMessage[]): ConversationMessage[] {
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+
+    const MAX_CONTEXT_MESSAGES = parseInt(settings.CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES) || DEFAULT_MAX_CONTEXT_MESSAGES;
+    const MAX_ESTIMATED_TOKENS = parseInt(settings.CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_TOKENS) || DEFAULT_MAX_ESTIMATED_TOKENS;
+
+    if (history.length <= MAX_CONTEXT_MESSAGES) {
+      // Check token count even if message count is ok
+      const totalTokens = history.reduce((sum, m) => sum + this.estimateTokens(m.content), 0);
+      if (totalTokens <= MAX_ESTIMATED_TOKENS) {
+        return history;
+      }
+    }
+
+    // Sliding window: keep most recent messages within limits
+    const truncated: ConversationMessage[] = [];
+    let tokenCount = 0;
+
+    // Process messages in reverse (most recent first)
+    for (let i = history.length - 1; i >= 0; i--) {
+      const msg = history[i];
+      const msgTokens = this.estimateTokens(msg.content);
+
+      if (truncated.length >= MAX_CONTEXT_MESSAGES || tokenCount + msgTokens > MAX_ESTIMATED_TOKENS) {
+        logger.warn('SDK', 'OpenAI-compatible context window truncated', {
+          originalMessages: history.length,
+          keptMessages: truncated.length,
+          droppedMessages: i + 1,
+          estimatedTokens: tokenCount,
+          tokenLimit: MAX_ESTIMATED_TOKENS
+        });
+        break;
+      }
+
+      truncated.unshift(msg);  // Add to beginning
+      tokenCount += msgTokens;
+    }
+
+    return truncated;
+  }
+
+  /**
+   * Convert shared ConversationMessage array to OpenAI-compatible message format
+   */
+  private conversationToOpenAIMessages(history: ConversationMessage[]): OpenAIMessage[] {
+    return history.map(msg => ({
+      role: msg.role === 'assistant' ? 'assistant' : 'user',
+      content: msg.content
+    }));
+  }
+
+  /**
+   * Query the chat completions endpoint with full conversation history (multi-turn)
+   */
+  private async queryMultiTurn(
+    history: ConversationMessage[],
+    config: OpenAICompatibleConfig
+  ): Promise<{ content: string; tokensUsed?: number }> {
+    const truncatedHistory = this.truncateHistory(history);
+    const messages = this.conversationToOpenAIMessages(truncatedHistory);
+    const estimatedTokens = this.estimateTokens(truncatedHistory.map(m => m.content).join(''));
+
+    logger.debug('SDK', `Querying OpenAI-compatible endpoint (${config.model})`, {
+      baseUrl: config.baseUrl,
+      turns: truncatedHistory.length,
+      estimatedTokens
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          temperature: 0.3,  // Lower temperature for structured extraction
+          max_tokens: 4096,
+          stream: false,
+        }),
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+    } catch (error) {
+      // Report timeouts as ETIMEDOUT so they are classified like other network failures
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`OpenAI-compatible request ETIMEDOUT after ${config.timeoutMs}ms`);
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+
+    // Check for API error in response body
+    if (data.error) {
+      const message = typeof data.error === 'string' ? data.error : `${data.error.code} - ${data.error.message}`;
+      throw new Error(`OpenAI-compatible API error: ${message}`);
+    }
+
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      logger.error('SDK', 'Empty response from OpenAI-compatible endpoint', {
+        model: config.model,
+        finishReason: data.choices?.[0]?.finish_reason
+      });
+      return { content: '' };
+    }
+
+    const tokensUsed = data.usage?.total_tokens;
+    if (tokensUsed) {
+      logger.debug('SDK', 'OpenAI-compatible usage', {
+        model: config.model,
+        inputTokens: data.usage?.prompt_tokens || 0,
+        outputTokens: data.usage?.completion_tokens || 0,
+        totalTokens: tokensUsed,
+        messagesInContext: truncatedHistory.length
+      });
+    }
+
+    return { content, tokensUsed };
+  }
+
+  /**
+   * Get endpoint configuration from settings
+   */
+  private getConfig(): OpenAICompatibleConfig {
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+    const timeoutSeconds = parseInt(settings.CLAUDE_MEM_OPENAI_COMPATIBLE_TIMEOUT_SECONDS, 10);
+
+    return {
+      // Accept both `http://host:11434/v1` and `http://host:11434/v1/`
+      baseUrl: settings.CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL.trim().replace(/\/+$/, ''),
+      model: settings.CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL,
+      apiKey: settings.CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY,
+      timeoutMs: (Number.isFinite(timeoutSeconds) && timeoutSeconds > 0 ? timeoutSeconds : DEFAULT_TIMEOUT_SECONDS) * 1000
+    };
+  }
+}
+
+/**
+ * Check if the OpenAI-compatible endpoint is configured (has a base URL)
+ */
+export function isOpenAICompatibleAvailable(): boolean {
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+  return !!settings.CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL.trim();
+}
+
+/**
+ * Check if the OpenAI-compatible endpoint is the selected provider
+ */
+export function isOpenAICompatibleSelected(): boolean {
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+  return settings.CLAUDE_MEM_PROVIDER === 'openai-compatible';
+}
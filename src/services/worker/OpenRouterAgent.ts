@@ -14,13 +14,15 @@
 import { DatabaseManager } from './DatabaseManager.js';
 import { SessionManager } from './SessionManager.js';
 import { logger } from '../../utils/logger.js';
-import { buildInitPrompt, buildObservationPrompt, buildSummaryPrompt, buildContinuationPrompt } from '../../sdk/prompts.js';
+import { buildInitPrompt, buildSummaryPrompt, buildContinuationPrompt } from '../../sdk/prompts.js';
 import { SettingsDefaultsManager } from '../../shared/SettingsDefaultsManager.js';
 import { USER_SETTINGS_PATH, GITHUB_REPO_URL } from '../../shared/paths.js';
 import type { ActiveSession, ConversationMessage } from '../worker-types.js';
 import { ModeManager } from '../domain/ModeManager.js';
 import {
   processAgentResponse,
+  getObservationOutputFormat,
+  buildQueuedObservationPrompt,
   shouldFallbackToClaude,
   isAbortError,
   type WorkerRef,
@@ -93,11 +95,12 @@ export class OpenRouterAgent {
 
       // Load active mode
       const mode = ModeManager.getInstance().getActiveMode();
+      const outputFormat = getObservationOutputFormat();
 
       // Build initial prompt
       const initPrompt = session.lastPromptNumber === 1
-        ? buildInitPrompt(session.project, session.contentSessionId, session.userPrompt, mode)
-        : buildContinuationPrompt(session.userPrompt, session.lastPromptNumber, session.contentSessionId, mode);
+        ? buildInitPrompt(session.project, session.contentSessionId, session.userPrompt, mode, outputFormat)
+        : buildContinuationPrompt(session.userPrompt, session.lastPromptNumber, session.contentSessionId, mode, outputFormat);
 
       // Add to conversation history and query OpenRouter with full context
       session.conversationHistory.push({ role: 'user', content: initPrompt });
@@ -125,7 +128,8 @@ export class OpenRouterAgent {
           tokensUsed,
           null,
           'OpenRouter',
-          undefined  // No lastCwd yet - before message processing
+          undefined,  // No lastCwd yet - before message processing
+          this
         );
       } else {
         logger.error('SDK', 'Empty OpenRouter init response - session may lack context', {
@@ -153,14 +157,7 @@ export class OpenRouterAgent {
           }
 
           // Build observation prompt
-          const obsPrompt = buildObservationPrompt({
-            id: 0,
-            tool_name: message.tool_name!,
-            tool_input: JSON.stringify(message.tool_input),
-            tool_output: JSON.stringify(message.tool_response),
-            created_at_epoch: originalTimestamp ?? Date.now(),
-            cwd: message.cwd
-          });
+          const obsPrompt = buildQueuedObservationPrompt(message, originalTimestamp ?? Date.now());
 
           // Add to conversation history and query OpenRouter with full context
           session.conversationHistory.push({ role: 'user', content: obsPrompt });
@@ -186,7 +183,8 @@ export class OpenRouterAgent {
             tokensUsed,
             originalTimestamp,
             'OpenRouter',
-            lastCwd
+            lastCwd,
+            this
           );
 
         } else if (message.type === 'summarize') {
@@ -223,7 +221,8 @@ export class OpenRouterAgent {
             tokensUsed,
             originalTimestamp,
             'OpenRouter',
-            lastCwd
+            lastCwd,
+            this
           );
         }
       }
@@ -325,6 +324,19 @@ export class OpenRouterAgent {
     }));
   }
 
+  /**
+   * Single-turn completion outside any session (used by digest consolidation)
+   */
+  async generateText(prompt: string): Promise<string> {
+    const { apiKey, model, siteUrl, appName } = this.getOpenRouterConfig();
+    if (!apiKey) {
+      throw new Error('OpenRouter API key not configured. Set CLAUDE_MEM_OPENROUTER_API_KEY in settings or OPENROUTER_API_KEY environment variable.');
+    }
+
+    const { content } = await this.queryOpenRouterMultiTurn([{ role: 'user', content: prompt }], apiKey, model, siteUrl, appName);
+    return content;
+  }
+
   /**
    * Query OpenRouter via REST API with full conversation history (multi-turn)
    * Sends the entire conversation context for coherent responses
@@ -77,7 +77,8 @@ export class PaginationHelper {
       'id, memory_session_id, project, type, title, subtitle, narrative, text, facts, concepts, files_read, files_modified, prompt_number, created_at, created_at_epoch',
       offset,
       limit,
-      project
+      project,
+      ['forgotten_at_epoch IS NULL']
     );
 
     // Strip project paths from file paths before returning
@@ -169,17 +170,22 @@ export class PaginationHelper {
     columns: string,
     offset: number,
     limit: number,
-    project?: string
+    project?: string,
+    conditions: string[] = []
   ): PaginatedResult<T> {
     const db = this.dbManager.getSessionStore().db;
 
     let query = `SELECT ${columns} FROM ${table}`;
     const params: any[] = [];
+    const whereConditions = [...conditions];
 
     if (project) {
-      query += ' WHERE project = ?';
+      whereConditions.push('project = ?');
       params.push(project);
     }
+    if (whereConditions.length > 0) {
+      query += ` WHERE ${whereConditions.join(' AND ')}`;
+    }
 
     query += ' ORDER BY created_at_epoch DESC LIMIT ? OFFSET ?';
     params.push(limit + 1, offset); // Fetch one extra to check hasMore
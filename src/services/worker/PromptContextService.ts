@@ -0,0 +1,115 @@
+/**
+ * PromptContextService - Prompt-time retrieval for the UserPromptSubmit hook
+ *
+ * Session-start context is picked by recency and relevance scores, so an older topic the user
+ * brings up mid-session is only found if Claude thinks to search. This service runs a semantic
+ * search with the prompt text, keeps the top-k observations above a similarity threshold that
+ * weren't already injected in the session, renders what fits in a token budget and logs the
+ * injection per prompt (prompt_context_injections).
+ */
+
+import type { ChromaSync } from '../sync/ChromaSync.js';
+import type { SessionStore } from '../sqlite/SessionStore.js';
+import type { PromptContextInjection, PromptContextInjectionRecord } from '../sqlite/prompts/types.js';
+import { logger } from '../../utils/logger.js';
+import { stripMemoryTagsFromPrompt } from '../../utils/tag-stripping.js';
+import { fitMemoryIndex } from '../../shared/timeline-formatting.js';
+import type { MemoryIndexEntry } from '../../shared/timeline-formatting.js';
+
+// Vector documents fetched per injected observation (an observation has several documents)
+const DOCUMENTS_PER_RESULT = 10;
+const MAX_DOCUMENTS = 100;
+
+export interface PromptContextRequest {
+  contentSessionId: string;
+  promptNumber: number;
+  prompt: string;
+  projects: string[];
+  topK: number;
+  /** Cosine similarity (0-1) a match needs */
+  minSimilarity: number;
+  maxTokens: number;
+}
+
+export interface PromptContextResult {
+  /** Text for additionalContext; empty when nothing matched */
+  context: string;
+  injections: PromptContextInjection[];
+}
+
+const NO_CONTEXT: PromptContextResult = { context: '', injections: [] };
+
+export class PromptContextService {
+  constructor(
+    private chromaSync: ChromaSync,
+    private sessionStore: SessionStore
+  ) {}
+
+  /**
+   * Observations related to a prompt, injected at most once per session
+   */
+  async getPromptContext(request: PromptContextRequest): Promise<PromptContextResult> {
+    // Search with what would be stored: no private content, no leading slash on commands
+    const stripped = stripMemoryTagsFromPrompt(request.prompt).trim();
+    const query = stripped.startsWith('/') ? stripped.substring(1) : stripped;
+    if (!query || request.projects.length === 0) {
+      return NO_CONTEXT;
+    }
+
+    const where = request.projects.length === 1
+      ? { project: request.projects[0] }
+      : { project: { $in: request.projects } };
+    const matches = await this.chromaSync.queryObservationSimilarity(
+      query,
+      Math.min(request.topK * DOCUMENTS_PER_RESULT, MAX_DOCUMENTS),
+      where
+    );
+
+    const alreadyInjected = new Set(this.sessionStore.getInjectedObservationIds(request.contentSessionId));
+    const selected = matches
+      .filter(match => match.similarity >= request.minSimilarity && !alreadyInjected.has(match.id))
+      .slice(0, request.topK);
+    if (selected.length === 0) {
+      return NO_CONTEXT;
+    }
+
+    // Hydrate in similarity order (vector documents can outlive deleted observations)
+    const similarities = new Map(selected.map(match => [match.id, match.similarity]));
+    const observations = this.sessionStore.getObservationsByIds(selected.map(match => match.id))
+      .sort((a, b) => similarities.get(b.id)! - similarities.get(a.id)!);
+
+    const entries: MemoryIndexEntry[] = observations.map(observation => ({
+      id: observation.id,
+      createdAtEpoch: observation.created_at_epoch,
+      label: observation.origin === 'user' ? 'remembered' : observation.type,
+      title: observation.title ?? null,
+      subtitle: observation.subtitle ?? null,
+      note: `${Math.round(similarities.get(observation.id)! * 100)}% match`
+    }));
+
+    const { text, ids } = fitMemoryIndex('# [claude-mem] memories related to this prompt', entries, request.maxTokens);
+    if (ids.length === 0) {
+      return NO_CONTEXT;
+    }
+
+    const injections = ids.map(id => ({ observationId: id, similarity: similarities.get(id)! }));
+    this.sessionStore.recordPromptContextInjections(request.contentSessionId, request.promptNumber, injections);
+
+    logger.info('WORKER', 'Prompt context injected', {
+      contentSessionId: request.contentSessionId,
+      promptNumber: request.promptNumber,
+      observationIds: ids.join(','),
+      similarities: injections.map(injection => injection.similarity.toFixed(2)).join(','),
+      candidates: matches.length
+    });
+
+    return { context: text, injections };
+  }
+
+  /**
+   * Injection log for a session, by prompt number
+   */
+  getInjections(contentSessionId: string): PromptContextInjectionRecord[] {
+    return this.sessionStore.getPromptContextInjections(contentSessionId);
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * ProviderRouter: per-message provider selection with cost budgets
+ *
+ * Responsibility:
+ * - Pick the provider for each queued message from the routing rules
+ *   (CLAUDE_MEM_ROUTING_OBSERVATION_PROVIDER / CLAUDE_MEM_ROUTING_SUMMARY_PROVIDER),
+ *   falling back to CLAUDE_MEM_PROVIDER
+ * - Enforce daily and monthly budgets over the usage recorded in provider_usage
+ * - While a budget is exhausted, degrade to CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER or pause the queue
+ * - Apply CLAUDE_MEM_EXTRACTION_MODE: 'heuristic' routes everything to the heuristic
+ *   extractor; 'hybrid' uses it instead of pausing, and while the routed provider is
+ *   cooling down after a generator failure
+ * - Honor the provider override of messages replayed from the viewer's queue panel
+ *
+ * Settings are read on every decision, so changes apply without a restart.
+ * Paused messages stay in the persistent queue; the queue health check restarts
+ * their generators once a budget period rolls over or the limits are raised.
+ */
+
+import { logger } from '../../utils/logger.js';
+import { SettingsDefaultsManager, type SettingsDefaults } from '../../shared/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../shared/paths.js';
+import type { ProviderSpend } from '../sqlite/ProviderUsage.js';
+import type { ExtractorName, PendingMessage, ProviderName } from '../worker-types.js';
+import type { DatabaseManager } from './DatabaseManager.js';
+import { isGeminiAvailable, isGeminiSelected } from './GeminiAgent.js';
+import { isOpenRouterAvailable, isOpenRouterSelected } from './OpenRouterAgent.js';
+import { isOpenAICompatibleAvailable, isOpenAICompatibleSelected } from './OpenAICompatibleAgent.js';
+
+const PROVIDER_NAMES: readonly ProviderName[] = ['claude', 'gemini', 'openrouter', 'openai-compatible'];
+
+/** How long a failed provider is skipped in 'hybrid' extraction mode */
+const PROVIDER_FAILURE_COOLDOWN_MS = 5 * 60 * 1000;
+
+export type RoutedMessageType = PendingMessage['type'];
+
+export interface BudgetPeriodStatus {
+  /** 0 = no limit */
+  limitUsd: number;
+  spentUsd: number;
+  exhausted: boolean;
+  providers: ProviderSpend[];
+}
+
+export interface BudgetStatus {
+  daily: BudgetPeriodStatus;
+  monthly: BudgetPeriodStatus;
+  /** 'degraded' and 'paused' only occur while a budget is exhausted */
+  state: 'normal' | 'degraded' | 'paused';
+  /** Provider used for every message while degraded */
+  degradeProvider: ProviderName | null;
+}
+
+/**
+ * Provider selected by CLAUDE_MEM_PROVIDER, or Claude when it is not set up
+ */
+export function selectConfiguredProvider(): ProviderName {
+  if (isOpenAICompatibleSelected() && isOpenAICompatibleAvailable()) {
+    return 'openai-compatible';
+  }
+  if (isOpenRouterSelected() && isOpenRouterAvailable()) {
+    return 'openrouter';
+  }
+  return (isGeminiSelected() && isGeminiAvailable()) ? 'gemini' : 'claude';
+}
+
+/**
+ * Check if a provider is set up (API key or base URL); Claude always is
+ */
+export function isProviderAvailable(provider: ProviderName): boolean {
+  switch (provider) {
+    case 'gemini': return isGeminiAvailable();
+    case 'openrouter': return isOpenRouterAvailable();
+    case 'openai-compatible': return isOpenAICompatibleAvailable();
+    default: return true;
+  }
+}
+
+function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+function parseBudget(value: string): number {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : 0;
+}
+
+function startOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function startOfMonth(now: number): number {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+function periodStatus(providers: ProviderSpend[], limitUsd: number): BudgetPeriodStatus {
+  const spentUsd = providers.reduce((sum, spend) => sum + spend.cost_usd, 0);
+  return { limitUsd, spentUsd, exhausted: limitUsd > 0 && spentUsd >= limitUsd, providers };
+}
+
+export class ProviderRouter {
+  private lastState: BudgetStatus['state'] = 'normal';
+  private failedAt = new Map<ProviderName, number>();
+
+  constructor(private dbManager: DatabaseManager) {}
+
+  /**
+   * Extractor for the next message of the given type
+   * An override wins over the routing rules and extraction mode, but not over an
+   * exhausted budget, and is ignored when the provider is not configured.
+   * @param providerOverride - Provider the message was replayed with (queue panel)
+   * @returns null while the queue is paused by an exhausted budget
+   */
+  selectProvider(
+    messageType: RoutedMessageType,
+    now: number = Date.now(),
+    providerOverride: ExtractorName | null = null
+  ): ExtractorName | null {
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+    if (providerOverride === 'heuristic') {
+      return 'heuristic';
+    }
+    if (providerOverride) {
+      if (isProviderAvailable(providerOverride) && this.getBudgetStatus(now, settings).state === 'normal') {
+        return providerOverride;
+      }
+      logger.debug('ROUTER', 'Provider override not usable, routing normally', { messageType, provider: providerOverride });
+    }
+
+    const extractionMode = settings.CLAUDE_MEM_EXTRACTION_MODE;
+    if (extractionMode === 'heuristic') {
+      return 'heuristic';
+    }
+
+    const provider = this.selectLLMProvider(messageType, now, settings);
+    if (extractionMode !== 'hybrid') {
+      return provider;
+    }
+    if (!provider || this.isCoolingDown(provider, now)) {
+      return 'heuristic';
+    }
+    return provider;
+  }
+
+  /**
+   * Record a generator failure; in 'hybrid' mode the provider is skipped for a while
+   */
+  reportProviderFailure(provider: ProviderName, now: number = Date.now()): void {
+    this.failedAt.set(provider, now);
+    logger.debug('ROUTER', 'Provider failure recorded', { provider });
+  }
+
+  private isCoolingDown(provider: ProviderName, now: number): boolean {
+    const failedAt = this.failedAt.get(provider);
+    if (failedAt === undefined) return false;
+    if (now - failedAt < PROVIDER_FAILURE_COOLDOWN_MS) return true;
+    this.failedAt.delete(provider);
+    return false;
+  }
+
+  /**
+   * LLM provider from the routing rules and budgets, or null while paused
+   */
+  private selectLLMProvider(messageType: RoutedMessageType, now: number, settings: SettingsDefaults): ProviderName | null {
+    const budget = this.getBudgetStatus(now, settings);
+    if (budget.state !== 'normal') {
+      return budget.degradeProvider;
+    }
+
+    const rule = messageType === 'summarize'
+      ? settings.CLAUDE_MEM_ROUTING_SUMMARY_PROVIDER
+      : settings.CLAUDE_MEM_ROUTING_OBSERVATION_PROVIDER;
+    if (rule && isProviderName(rule)) {
+      if (isProviderAvailable(rule)) {
+        return rule;
+      }
+      logger.debug('ROUTER', 'Routing rule names a provider that is not configured, using default', { messageType, provider: rule });
+    }
+
+    return selectConfiguredProvider();
+  }
+
+  /**
+   * Spend against the daily and monthly budgets, and the resulting routing state
+   */
+  getBudgetStatus(
+    now: number = Date.now(),
+    settings: SettingsDefaults = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH)
+  ): BudgetStatus {
+    const store = this.dbManager.getSessionStore();
+    const daily = periodStatus(store.getProviderSpendSince(startOfDay(now)), parseBudget(settings.CLAUDE_MEM_BUDGET_DAILY_USD));
+    const monthly = periodStatus(store.getProviderSpendSince(startOfMonth(now)), parseBudget(settings.CLAUDE_MEM_BUDGET_MONTHLY_USD));
+
+    let status: BudgetStatus = { daily, monthly, state: 'normal', degradeProvider: null };
+    if (daily.exhausted || monthly.exhausted) {
+      const degradeProvider = settings.CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER;
+      const canDegrade = settings.CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION === 'degrade'
+        && isProviderName(degradeProvider)
+        && isProviderAvailable(degradeProvider);
+      status = canDegrade
+        ? { daily, monthly, state: 'degraded', degradeProvider: degradeProvider as ProviderName }
+        : { daily, monthly, state: 'paused', degradeProvider: null };
+    }
+
+    this.logStateChange(status);
+    return status;
+  }
+
+  private logStateChange(status: BudgetStatus): void {
+    if (status.state === this.lastState) return;
+    this.lastState = status.state;
+
+    const spend = {
+      dailySpentUsd: status.daily.spentUsd.toFixed(4),
+      dailyLimitUsd: status.daily.limitUsd,
+      monthlySpentUsd: status.monthly.spentUsd.toFixed(4),
+      monthlyLimitUsd: status.monthly.limitUsd
+    };
+    if (status.state === 'degraded') {
+      logger.warn('ROUTER', `Budget exhausted, routing all messages to ${status.degradeProvider}`, spend);
+    } else if (status.state === 'paused') {
+      logger.warn('ROUTER', 'Budget exhausted, pausing the queue', spend);
+    } else {
+      logger.info('ROUTER', 'Budget available again, resuming normal routing', spend);
+    }
+  }
+}
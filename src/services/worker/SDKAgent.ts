@@ -14,17 +14,33 @@ import path from 'path';
 import { DatabaseManager } from './DatabaseManager.js';
 import { SessionManager } from './SessionManager.js';
 import { logger } from '../../utils/logger.js';
-import { buildInitPrompt, buildObservationPrompt, buildSummaryPrompt, buildContinuationPrompt } from '../../sdk/prompts.js';
+import { buildInitPrompt, buildSummaryPrompt, buildContinuationPrompt } from '../../sdk/prompts.js';
 import { SettingsDefaultsManager } from '../../shared/SettingsDefaultsManager.js';
 import { USER_SETTINGS_PATH } from '../../shared/paths.js';
 import type { ActiveSession, SDKUserMessage } from '../worker-types.js';
 import { ModeManager } from '../domain/ModeManager.js';
-import { processAgentResponse, type WorkerRef } from './agents/index.js';
+import { processAgentResponse, getObservationOutputFormat, buildQueuedObservationPrompt, type WorkerRef } from './agents/index.js';
 
 // Import Agent SDK (assumes it's installed)
 // @ts-ignore - Agent SDK types may not be available
 import { query } from '@anthropic-ai/claude-agent-sdk';
 
+// Memory agent is OBSERVER ONLY - no tools allowed
+const OBSERVER_DISALLOWED_TOOLS = [
+  'Bash',           // Prevent infinite loops
+  'Read',           // No file reading
+  'Write',          // No file writing
+  'Edit',           // No file editing
+  'Grep',           // No code searching
+  'Glob',           // No file pattern matching
+  'WebFetch',       // No web fetching
+  'WebSearch',      // No web searching
+  'Task',           // No spawning sub-agents
+  'NotebookEdit',   // No notebook editing
+  'AskUserQuestion',// No asking questions
+  'TodoWrite'       // No todo management
+];
+
 export class SDKAgent {
   private dbManager: DatabaseManager;
   private sessionManager: SessionManager;
@@ -48,21 +64,7 @@ export class SDKAgent {
 
     // Get model ID and disallowed tools
     const modelId = this.getModelId();
-    // Memory agent is OBSERVER ONLY - no tools allowed
-    const disallowedTools = [
-      'Bash',           // Prevent infinite loops
-      'Read',           // No file reading
-      'Write',          // No file writing
-      'Edit',           // No file editing
-      'Grep',           // No code searching
-      'Glob',           // No file pattern matching
-      'WebFetch',       // No web fetching
-      'WebSearch',      // No web searching
-      'Task',           // No spawning sub-agents
-      'NotebookEdit',   // No notebook editing
-      'AskUserQuestion',// No asking questions
-      'TodoWrite'       // No todo management
-    ];
+    const disallowedTools = OBSERVER_DISALLOWED_TOOLS;
 
     // Create message generator (event-driven)
     const messageGenerator = this.createMessageGenerator(session, cwdTracker);
@@ -201,7 +203,8 @@ export class SDKAgent {
           discoveryTokens,
           originalTimestamp,
           'SDK',
-          cwdTracker.lastCwd
+          cwdTracker.lastCwd,
+          this
         );
       }
 
@@ -219,6 +222,33 @@ export class SDKAgent {
     });
   }
 
+  /**
+   * Single-turn completion outside any session (used by digest consolidation)
+   * Runs a fresh, tool-less query and returns the concatenated assistant text.
+   */
+  async generateText(prompt: string): Promise<string> {
+    const queryResult = query({
+      prompt,
+      options: {
+        model: this.getModelId(),
+        disallowedTools: OBSERVER_DISALLOWED_TOOLS,
+        pathToClaudeCodeExecutable: this.findClaudeExecutable()
+      }
+    });
+
+    const parts: string[] = [];
+    for await (const message of queryResult) {
+      if (message.type === 'assistant') {
+        const content = message.message.content;
+        parts.push(Array.isArray(content)
+          ? content.filter((c: any) => c.type === 'text').map((c: any) => c.text).join('\n')
+          : typeof content === 'string' ? content : '');
+      }
+    }
+
+    return parts.join('\n');
+  }
+
   /**
    * Create event-driven message generator (yields messages from SessionManager)
    *
@@ -260,6 +290,7 @@ export class SDKAgent {
   ): AsyncIterableIterator<SDKUserMessage> {
     // Load active mode
     const mode = ModeManager.getInstance().getActiveMode();
+    const outputFormat = getObservationOutputFormat();
 
     // Build initial prompt
     const isInitPrompt = session.lastPromptNumber === 1;
@@ -272,8 +303,8 @@ export class SDKAgent {
     });
 
     const initPrompt = isInitPrompt
-      ? buildInitPrompt(session.project, session.contentSessionId, session.userPrompt, mode)
-      : buildContinuationPrompt(session.userPrompt, session.lastPromptNumber, session.contentSessionId, mode);
+      ? buildInitPrompt(session.project, session.contentSessionId, session.userPrompt, mode, outputFormat)
+      : buildContinuationPrompt(session.userPrompt, session.lastPromptNumber, session.contentSessionId, mode, outputFormat);
 
     // Add to shared conversation history for provider interop
     session.conversationHistory.push({ role: 'user', content: initPrompt });
@@ -304,14 +335,7 @@ export class SDKAgent {
           session.lastPromptNumber = message.prompt_number;
         }
 
-        const obsPrompt = buildObservationPrompt({
-          id: 0, // Not used in prompt
-          tool_name: message.tool_name!,
-          tool_input: JSON.stringify(message.tool_input),
-          tool_output: JSON.stringify(message.tool_response),
-          created_at_epoch: Date.now(),
-          cwd: message.cwd
-        });
+        const obsPrompt = buildQueuedObservationPrompt(message, Date.now());
 
         // Add to shared conversation history for provider interop
         session.conversationHistory.push({ role: 'user', content: obsPrompt });
@@ -28,7 +28,9 @@ import { ModeManager } from '../domain/ModeManager.js';
 import {
   SearchOrchestrator,
   TimelineBuilder,
-  SEARCH_CONSTANTS
+  SEARCH_CONSTANTS,
+  TIMELINE_PARAMS,
+  normalizeSearchParams
 } from './search/index.js';
 import type { TimelineData } from './search/index.js';
 
@@ -69,28 +71,16 @@ export class SearchManager {
    * Converts comma-separated strings to arrays and flattens date params
    */
   private normalizeParams(args: any): any {
-    const normalized: any = { ...args };
+    const mapped: any = { ...args };
 
     // Map filePath to files (API uses filePath, internal uses files)
-    if (normalized.filePath && !normalized.files) {
-      normalized.files = normalized.filePath;
-      delete normalized.filePath;
+    if (mapped.filePath && !mapped.files) {
+      mapped.files = mapped.filePath;
+      delete mapped.filePath;
     }
 
-    // Parse comma-separated concepts into array
-    if (normalized.concepts && typeof normalized.concepts === 'string') {
-      normalized.concepts = normalized.concepts.split(',').map((s: string) => s.trim()).filter(Boolean);
-    }
-
-    // Parse comma-separated files into array
-    if (normalized.files && typeof normalized.files === 'string') {
-      normalized.files = normalized.files.split(',').map((s: string) => s.trim()).filter(Boolean);
-    }
-
-    // Parse comma-separated obs_type into array
-    if (normalized.obs_type && typeof normalized.obs_type === 'string') {
-      normalized.obs_type = normalized.obs_type.split(',').map((s: string) => s.trim()).filter(Boolean);
-    }
+    // Parse comma-separated lists (concepts, files, obs_type) into arrays and numeric strings into integers
+    const normalized: any = normalizeSearchParams(mapped);
 
     // Parse comma-separated type (for filterSchema) into array
     if (normalized.type && typeof normalized.type === 'string' && normalized.type.includes(',')) {
@@ -117,6 +107,19 @@ export class SearchManager {
     return normalized;
   }
 
+  /**
+   * Count a retrieval for each observation returned to the caller
+   * Tracking failures are logged and never fail the search itself
+   */
+  private trackObservationRetrievals(observations: Array<{ id: number }>): void {
+    if (observations.length === 0) return;
+    try {
+      this.sessionStore.recordObservationRetrievals(observations.map(obs => obs.id));
+    } catch (error) {
+      logger.warn('SEARCH', 'Failed to record observation retrievals', { count: observations.length }, error as Error);
+    }
+  }
+
   /**
    * Tool handler: search
    */
@@ -149,88 +152,36 @@ export class SearchManager {
         prompts = this.sessionSearch.searchUserPrompts(undefined, options);
       }
     }
-    // PATH 2: CHROMA SEMANTIC SEARCH (query text + Chroma available)
-    else if (this.chromaSync) {
-      let chromaSucceeded = false;
-      logger.debug('SEARCH', 'Using ChromaDB semantic search', { typeFilter: type || 'all' });
-
-      // Build Chroma where filter for doc_type
-      let whereFilter: Record<string, any> | undefined;
-      if (type === 'observations') {
-        whereFilter = { doc_type: 'observation' };
-      } else if (type === 'sessions') {
-        whereFilter = { doc_type: 'session_summary' };
-      } else if (type === 'prompts') {
-        whereFilter = { doc_type: 'user_prompt' };
-      }
-
-      // Step 1: Chroma semantic search with optional type filter
-      const chromaResults = await this.queryChroma(query, 100, whereFilter);
-      chromaSucceeded = true; // Chroma didn't throw error
-      logger.debug('SEARCH', 'ChromaDB returned semantic matches', { matchCount: chromaResults.ids.length });
-
-      if (chromaResults.ids.length > 0) {
-        // Step 2: Filter by recency (90 days)
-        const ninetyDaysAgo = Date.now() - SEARCH_CONSTANTS.RECENCY_WINDOW_MS;
-        const recentMetadata = chromaResults.metadatas.map((meta, idx) => ({
-          id: chromaResults.ids[idx],
-          meta,
-          isRecent: meta && meta.created_at_epoch > ninetyDaysAgo
-        })).filter(item => item.isRecent);
-
-        logger.debug('SEARCH', 'Results within 90-day window', { count: recentMetadata.length });
-
-        // Step 3: Categorize IDs by document type
-        const obsIds: number[] = [];
-        const sessionIds: number[] = [];
-        const promptIds: number[] = [];
-
-        for (const item of recentMetadata) {
-          const docType = item.meta?.doc_type;
-          if (docType === 'observation' && searchObservations) {
-            obsIds.push(item.id);
-          } else if (docType === 'session_summary' && searchSessions) {
-            sessionIds.push(item.id);
-          } else if (docType === 'user_prompt' && searchPrompts) {
-            promptIds.push(item.id);
-          }
-        }
-
-        logger.debug('SEARCH', 'Categorized results by type', { observations: obsIds.length, sessions: sessionIds.length, prompts: prompts.length });
-
-        // Step 4: Hydrate from SQLite with additional filters
-        if (obsIds.length > 0) {
-          // Apply obs_type, concepts, files filters if provided
-          const obsOptions = { ...options, type: obs_type, concepts, files };
-          observations = this.sessionStore.getObservationsByIds(obsIds, obsOptions);
-        }
-        if (sessionIds.length > 0) {
-          sessions = this.sessionStore.getSessionSummariesByIds(sessionIds, { orderBy: 'date_desc', limit: options.limit, project: options.project });
-        }
-        if (promptIds.length > 0) {
-          prompts = this.sessionStore.getUserPromptsByIds(promptIds, { orderBy: 'date_desc', limit: options.limit, project: options.project });
-        }
-
-        logger.debug('SEARCH', 'Hydrated results from SQLite', { observations: observations.length, sessions: sessions.length, prompts: prompts.length });
-      } else {
-        // Chroma returned 0 results - this is the correct answer, don't fall back to FTS5
-        logger.debug('SEARCH', 'ChromaDB found no matches (final result, no FTS5 fallback)', {});
-      }
-    }
-    // ChromaDB not initialized - mark as failed to show proper error message
-    else if (query) {
-      chromaFailed = true;
-      logger.debug('SEARCH', 'ChromaDB not initialized - semantic search unavailable', {});
-      logger.debug('SEARCH', 'Install UVX/Python to enable vector search', { url: 'https://docs.astral.sh/uv/getting-started/installation/' });
-      observations = [];
-      sessions = [];
-      prompts = [];
+    // PATH 2: QUERY TEXT - Chroma semantic search, FTS5 keyword search, or both fused (strategy=rrf)
+    // The orchestrator falls back to FTS5 when Chroma is unavailable or fails
+    else {
+      const result = await this.orchestrator.search({
+        ...options,
+        query,
+        searchType: type,
+        obsType: obs_type,
+        concepts,
+        files
+      });
+      observations = result.results.observations;
+      sessions = result.results.sessions;
+      prompts = result.results.prompts;
+      chromaFailed = !result.usedChroma;
+
+      logger.debug('SEARCH', 'Query search completed', {
+        strategy: result.strategy,
+        fellBack: result.fellBack,
+        observations: observations.length,
+        sessions: sessions.length,
+        prompts: prompts.length
+      });
     }
 
     const totalResults = observations.length + sessions.length + prompts.length;
 
     // JSON format: return raw data for programmatic access (e.g., export scripts)
     if (format === 'json') {
+      this.trackObservationRetrievals(observations);
       return {
         observations,
         sessions,
@@ -245,7 +196,7 @@ export class SearchManager {
         return {
           content: [{
             type: 'text' as const,
-            text: `Vector search failed - semantic search unavailable.\n\nTo enable semantic search:\n1. Install uv: https://docs.astral.sh/uv/getting-started/installation/\n2. Restart the worker: npm run worker:restart\n\nNote: You can still use filter-only searches (date ranges, types, files) without a query term.`
+            text: `No keyword matches found for "${query}" (vector search unavailable, keyword search was used instead).\n\nTo enable semantic search:\n1. Install uv: https://docs.astral.sh/uv/getting-started/installation/\n2. Restart the worker: npm run worker:restart\n\nNote: You can still use filter-only searches (date ranges, types, files) without a query term.`
           }]
         };
       }
@@ -295,6 +246,9 @@ export class SearchManager {
 
     // Apply limit across all types
     const limitedResults = allResults.slice(0, options.limit || 20);
+    this.trackObservationRetrievals(
+      limitedResults.filter(result => result.type === 'observation').map(result => result.data)
+    );
 
     // Group by date, then by file within each day
     const cwd = process.cwd();
@@ -360,7 +314,7 @@ export class SearchManager {
    * Tool handler: timeline
    */
   async timeline(args: any): Promise<any> {
-    const { anchor, query, depth_before = 10, depth_after = 10, project } = args;
+    const { anchor, query, depth_before = 10, depth_after = 10, project } = normalizeSearchParams(args, TIMELINE_PARAMS);
     const cwd = process.cwd();
 
     // Validate: must provide either anchor or query, not both
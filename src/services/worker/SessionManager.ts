@@ -12,8 +12,17 @@ import { EventEmitter } from 'events';
 import { DatabaseManager } from './DatabaseManager.js';
 import { logger } from '../../utils/logger.js';
 import type { ActiveSession, PendingMessage, PendingMessageWithId, ObservationData } from '../worker-types.js';
-import { PendingMessageStore } from '../sqlite/PendingMessageStore.js';
-import { SessionQueueProcessor } from '../queue/SessionQueueProcessor.js';
+import { PendingMessageStore, MESSAGE_PRIORITY, type NextPendingMessage } from '../sqlite/PendingMessageStore.js';
+import { SessionQueueProcessor, type QueueIteratorOptions } from '../queue/SessionQueueProcessor.js';
+import { loadQueuePolicy } from '../queue/QueuePolicy.js';
+import type { ProviderRouter } from './ProviderRouter.js';
+import { metrics } from '../../utils/metrics.js';
+
+const queueEnqueued = metrics.counter('claude_mem_queue_enqueued', 'Messages persisted to the pending queue', ['type']);
+const queueClaimed = metrics.counter('claude_mem_queue_claimed', 'Messages claimed from the pending queue by a generator', ['type']);
+const queueWait = metrics.histogram('claude_mem_queue_wait_seconds', 'Time messages spent queued before being claimed', ['type']);
+const queueDepthByStatus = metrics.gauge('claude_mem_queue_depth', 'Queue messages by status across all sessions', ['status']);
+const activeSessions = metrics.gauge('claude_mem_active_sessions', 'Sessions held in worker memory');
 
 export class SessionManager {
   private dbManager: DatabaseManager;
@@ -21,9 +30,15 @@ export class SessionManager {
   private sessionQueues: Map<number, EventEmitter> = new Map();
   private onSessionDeletedCallback?: () => void;
   private pendingStore: PendingMessageStore | null = null;
+  private providerRouter: ProviderRouter | null = null;
 
   constructor(dbManager: DatabaseManager) {
     this.dbManager = dbManager;
+
+    queueDepthByStatus.collectWith(() => Object.entries(this.getPendingStore().getStatusCounts())
+      .filter(([status]) => status !== 'processed')
+      .map(([status, count]) => ({ labels: { status }, value: count })));
+    activeSessions.collectWith(() => [{ value: this.sessions.size }]);
   }
 
   /**
@@ -37,6 +52,14 @@ export class SessionManager {
     return this.pendingStore;
   }
 
+  /**
+   * Set the router that decides which provider handles each queued message
+   * Without one, a generator processes every message of its session.
+   */
+  setProviderRouter(router: ProviderRouter): void {
+    this.providerRouter = router;
+  }
+
   /**
    * Set callback to be called when a session is deleted (for broadcasting status)
    */
@@ -140,7 +163,9 @@ export class SessionManager {
       earliestPendingTimestamp: null,
       conversationHistory: [],  // Initialize empty - will be populated by agents
       currentProvider: null,  // Will be set when generator starts
-      crashRecoveryCount: 0  // Track repeated crashes for history truncation
+      crashRecoveryCount: 0,  // Track repeated crashes for history truncation
+      providerHandoff: false,
+      inFlightMessages: []
     };
 
     logger.debug('SESSION', 'Creating new session object', {
@@ -172,12 +197,12 @@ export class SessionManager {
    */
 
   /**
-   * Ensures a memorySessionId exists for stateless providers (Gemini, OpenRouter).
+   * Ensures a memorySessionId exists for stateless providers (Gemini, OpenRouter, OpenAI-compatible).
    * These providers don't have server-side sessions like Claude SDK, so we generate
    * a synthetic ID based on the contentSessionId + provider name.
    * This is deterministic to ensure consistent IDs for the same session+provider.
    */
-  ensureMemorySessionId(session: ActiveSession, provider: 'gemini' | 'openrouter'): void {
+  ensureMemorySessionId(session: ActiveSession, provider: 'gemini' | 'openrouter' | 'openai-compatible' | 'heuristic'): void {
     if (!session.memorySessionId) {
       // Generate deterministic synthetic ID
       const syntheticId = `${provider}-${session.contentSessionId}`;
@@ -218,15 +243,19 @@ export class SessionManager {
       tool_input: data.tool_input,
       tool_response: data.tool_response,
       prompt_number: data.prompt_number,
-      cwd: data.cwd
+      cwd: data.cwd,
+      redaction_count: data.redaction_count
     };
 
     try {
       const messageId = this.getPendingStore().enqueue(sessionDbId, session.contentSessionId, message);
+      queueEnqueued.inc({ type: 'observation' });
       const queueDepth = this.getPendingStore().getPendingCount(sessionDbId);
       const toolSummary = logger.formatTool(data.tool_name, data.tool_input);
-      logger.info('QUEUE', `ENQUEUED | sessionDbId=${sessionDbId} | messageId=${messageId} | type=observation | tool=${toolSummary} | depth=${queueDepth}`, {
-        sessionId: sessionDbId
+      logger.info('QUEUE', `ENQUEUED | sessionDbId=${sessionDbId} | messageId=${messageId} | type=observation | tool=${toolSummary} | depth=${queueDepth}${data.redaction_count ? ` | redacted=${data.redaction_count}` : ''}`, {
+        sessionId: sessionDbId,
+        messageId,
+        promptNumber: data.prompt_number
       });
     } catch (error) {
       logger.error('SESSION', 'Failed to persist observation to DB', {
@@ -261,11 +290,17 @@ export class SessionManager {
       last_assistant_message: lastAssistantMessage
     };
 
+    // Summaries jump ahead of queued observations unless disabled
+    const priority = loadQueuePolicy().summaryFirst ? MESSAGE_PRIORITY.summary : MESSAGE_PRIORITY.normal;
+
     try {
-      const messageId = this.getPendingStore().enqueue(sessionDbId, session.contentSessionId, message);
+      const messageId = this.getPendingStore().enqueue(sessionDbId, session.contentSessionId, message, priority);
+      queueEnqueued.inc({ type: 'summarize' });
       const queueDepth = this.getPendingStore().getPendingCount(sessionDbId);
-      logger.info('QUEUE', `ENQUEUED | sessionDbId=${sessionDbId} | messageId=${messageId} | type=summarize | depth=${queueDepth}`, {
-        sessionId: sessionDbId
+      logger.info('QUEUE', `ENQUEUED | sessionDbId=${sessionDbId} | messageId=${messageId} | type=summarize | priority=${priority} | depth=${queueDepth}`, {
+        sessionId: sessionDbId,
+        messageId,
+        promptNumber: session.lastPromptNumber
       });
     } catch (error) {
       logger.error('SESSION', 'Failed to persist summarize to DB', {
@@ -278,6 +313,14 @@ export class SessionManager {
     emitter?.emit('message');
   }
 
+  /**
+   * Wake the session's generator when it may claim again without a new enqueue:
+   * dead letters replayed from the viewer, or in-flight messages released after a response
+   */
+  wakeQueue(sessionDbId: number): void {
+    this.sessionQueues.get(sessionDbId)?.emit('message');
+  }
+
   /**
    * Delete a session (abort SDK agent and cleanup)
    */
@@ -388,9 +431,23 @@ export class SessionManager {
     }
 
     const processor = new SessionQueueProcessor(this.getPendingStore(), emitter);
+    const activeSession = session;
+    const policy = loadQueuePolicy();
+    const options: QueueIteratorOptions = {
+      shouldClaim: this.providerRouter
+        ? (next: NextPendingMessage) => this.isRoutedToCurrentProvider(activeSession, next)
+        : undefined,
+      // Stop claiming while the agent still owes responses for maxInFlight messages
+      hasCapacity: policy.maxInFlight > 0
+        ? () => activeSession.inFlightMessages.length < policy.maxInFlight
+        : undefined,
+      coalesce: policy.coalesceTools.size > 0 && policy.coalesceMax > 1
+        ? { toolNames: policy.coalesceTools, max: policy.coalesceMax }
+        : undefined
+    };
 
     // Use the robust iterator - messages are deleted on claim (no tracking needed)
-    for await (const message of processor.createIterator(sessionDbId, session.abortController.signal)) {
+    for await (const message of processor.createIterator(sessionDbId, session.abortController.signal, options)) {
       // Track earliest timestamp for accurate observation timestamps
       // This ensures backlog messages get their original timestamps, not current time
       if (session.earliestPendingTimestamp === null) {
@@ -399,10 +456,44 @@ export class SessionManager {
         session.earliestPendingTimestamp = Math.min(session.earliestPendingTimestamp, message._originalTimestamp);
       }
 
+      // Claimed messages are gone from the queue; keep them until processed so a crash can dead-letter them
+      session.inFlightMessages.push(message);
+
+      for (const claimed of [message, ...(message._coalesced ?? [])]) {
+        queueClaimed.inc({ type: claimed.type });
+        queueWait.observe({ type: claimed.type }, Math.max(0, claimed._claimedAt - claimed._originalTimestamp) / 1000);
+      }
+
       yield message;
     }
   }
 
+  /**
+   * Check whether the next message belongs to the provider running the session's generator
+   * Otherwise flags a handoff: the generator ends and SessionRoutes restarts it with the
+   * routed provider (or leaves the queue paused while a budget is exhausted).
+   */
+  private isRoutedToCurrentProvider(session: ActiveSession, next: NextPendingMessage): boolean {
+    if (!this.providerRouter || !session.currentProvider) {
+      return true;
+    }
+
+    const { messageType, providerOverride } = next;
+    const provider = this.providerRouter.selectProvider(messageType, Date.now(), providerOverride);
+    if (provider === session.currentProvider) {
+      return true;
+    }
+
+    logger.info('ROUTER', 'Handing off session to another provider', {
+      sessionId: session.sessionDbId,
+      messageType,
+      from: session.currentProvider,
+      to: provider ?? 'paused'
+    });
+    session.providerHandoff = true;
+    return false;
+  }
+
   /**
    * Get the PendingMessageStore (for SDKAgent to mark messages as processed)
    */
@@ -0,0 +1,45 @@
+/**
+ * ObservationBatch: Prompt for a claimed observation and the tool events coalesced with it
+ *
+ * Responsibility:
+ * - Turn a queued observation (plus its _coalesced followers) into one prompt
+ * - Keep each event's original queue time for the followers
+ */
+
+import { buildObservationBatchPrompt, type Observation } from '../../../sdk/prompts.js';
+import type { PendingMessageWithId } from '../../worker-types.js';
+import { logger } from '../../../utils/logger.js';
+
+/**
+ * Build the observation prompt for a claimed message
+ *
+ * @param message - Claimed observation, with _coalesced followers when batched
+ * @param createdAtEpoch - Time reported for the claimed observation itself
+ * @returns Prompt covering the message and every coalesced follower
+ */
+export function buildQueuedObservationPrompt(message: PendingMessageWithId, createdAtEpoch: number): string {
+  const observations: Observation[] = [
+    toObservation(message, createdAtEpoch),
+    ...(message._coalesced ?? []).map(follower => toObservation(follower, follower._originalTimestamp))
+  ];
+
+  if (observations.length > 1) {
+    logger.debug('SDK', 'Building batched observation prompt', {
+      count: observations.length,
+      tools: observations.map(obs => obs.tool_name).join(',')
+    });
+  }
+
+  return buildObservationBatchPrompt(observations);
+}
+
+function toObservation(message: PendingMessageWithId, createdAtEpoch: number): Observation {
+  return {
+    id: 0, // Not used in prompt
+    tool_name: message.tool_name!,
+    tool_input: JSON.stringify(message.tool_input),
+    tool_output: JSON.stringify(message.tool_response),
+    created_at_epoch: createdAtEpoch,
+    cwd: message.cwd
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * QualityEvaluator: Scoring and duplicate suppression for parsed observations
+ *
+ * Responsibility:
+ * - Score each observation in [0, 1] from field completeness, narrative length and
+ *   novelty against the session's recent observations
+ * - Drop near-duplicates of observations already recorded in the same session
+ *   (CLAUDE_MEM_QUALITY_DUPLICATE_SIMILARITY)
+ *
+ * Novelty uses character trigram similarity, so repeated "Read file X" records are
+ * caught without an embedding model. ContextBuilder hides observations scoring below
+ * CLAUDE_MEM_CONTEXT_MIN_QUALITY.
+ */
+
+import { logger } from '../../../utils/logger.js';
+import type { ParsedObservation } from '../../../sdk/parser.js';
+import type { SettingsDefaults } from '../../../shared/SettingsDefaultsManager.js';
+import type { RecentSessionObservationRow } from '../../sqlite/observations/types.js';
+import type { ActiveSession } from '../../worker-types.js';
+import type { DatabaseManager } from '../DatabaseManager.js';
+
+/** Recent observations of the session compared against each new one */
+const RECENT_OBSERVATION_LIMIT = 50;
+
+/** Narrative length (characters) that earns the full narrative score */
+const NARRATIVE_TARGET_LENGTH = 200;
+
+const SCORE_WEIGHTS = { completeness: 0.4, narrative: 0.2, novelty: 0.4 } as const;
+
+const FIELD_WEIGHTS = { title: 0.25, subtitle: 0.1, narrative: 0.2, facts: 0.2, concepts: 0.1, files: 0.15 } as const;
+
+export interface QualityAssessment {
+  score: number;
+  /** Highest similarity to an earlier observation of the session, in [0, 1] */
+  similarity: number;
+}
+
+/**
+ * Score one observation against the text of earlier observations
+ */
+export function assessObservation(observation: ParsedObservation, earlierTexts: string[]): QualityAssessment {
+  const completeness =
+    (observation.title ? FIELD_WEIGHTS.title : 0) +
+    (observation.subtitle ? FIELD_WEIGHTS.subtitle : 0) +
+    (observation.narrative ? FIELD_WEIGHTS.narrative : 0) +
+    (observation.facts.length > 0 ? FIELD_WEIGHTS.facts : 0) +
+    (observation.concepts.length > 0 ? FIELD_WEIGHTS.concepts : 0) +
+    (observation.files_read.length + observation.files_modified.length > 0 ? FIELD_WEIGHTS.files : 0);
+  const narrative = Math.min(1, (observation.narrative?.length ?? 0) / NARRATIVE_TARGET_LENGTH);
+
+  const grams = trigrams(observationText(observation));
+  const similarity = earlierTexts.reduce((max, text) => Math.max(max, jaccard(grams, trigrams(text))), 0);
+
+  const score = SCORE_WEIGHTS.completeness * completeness
+    + SCORE_WEIGHTS.narrative * narrative
+    + SCORE_WEIGHTS.novelty * (1 - similarity);
+  return { score: Math.round(score * 1000) / 1000, similarity };
+}
+
+/**
+ * Score observations and drop near-duplicates before storage
+ *
+ * Observations are compared with the session's recent observations and with earlier
+ * ones in the same response. Scoring must never lose a response, so failures are
+ * logged and the observations are stored unscored.
+ *
+ * @returns Kept observations with quality_score set
+ */
+export function evaluateObservations(
+  observations: ParsedObservation[],
+  session: ActiveSession,
+  dbManager: DatabaseManager,
+  settings: SettingsDefaults
+): ParsedObservation[] {
+  if (observations.length === 0 || !session.memorySessionId) {
+    return observations;
+  }
+
+  let recent: RecentSessionObservationRow[];
+  try {
+    recent = dbManager.getSessionStore().getRecentSessionObservations(session.memorySessionId, RECENT_OBSERVATION_LIMIT);
+  } catch (error) {
+    logger.warn('DB', 'Failed to load recent observations for quality scoring', {
+      sessionId: session.sessionDbId
+    }, error as Error);
+    return observations;
+  }
+
+  const duplicateThreshold = parseDuplicateThreshold(settings.CLAUDE_MEM_QUALITY_DUPLICATE_SIMILARITY);
+  const earlierTexts = recent.map(recordText);
+  const kept: ParsedObservation[] = [];
+
+  for (const observation of observations) {
+    const { score, similarity } = assessObservation(observation, earlierTexts);
+    if (duplicateThreshold > 0 && similarity >= duplicateThreshold) {
+      logger.info('DB', 'Suppressed near-duplicate observation', {
+        sessionId: session.sessionDbId,
+        title: observation.title || '(untitled)',
+        similarity: similarity.toFixed(2)
+      });
+      continue;
+    }
+
+    kept.push({ ...observation, quality_score: score });
+    earlierTexts.push(observationText(observation));
+  }
+
+  return kept;
+}
+
+/**
+ * Duplicate threshold in (0, 1]; 0 disables suppression
+ */
+function parseDuplicateThreshold(value: string): number {
+  const threshold = parseFloat(value);
+  return Number.isFinite(threshold) && threshold > 0 ? Math.min(threshold, 1) : 0;
+}
+
+function observationText(observation: ParsedObservation): string {
+  return [observation.type, observation.title, observation.subtitle, observation.narrative, ...observation.facts]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function recordText(record: RecentSessionObservationRow): string {
+  let facts: string[] = [];
+  if (record.facts) {
+    try {
+      const parsed = JSON.parse(record.facts);
+      facts = Array.isArray(parsed) ? parsed.filter((fact): fact is string => typeof fact === 'string') : [];
+    } catch (error) {
+      logger.debug('DB', 'Observation facts are not a JSON array, comparing without them', { id: record.id }, error as Error);
+    }
+  }
+  return [record.type, record.title, record.subtitle, record.narrative, ...facts].filter(Boolean).join(' ');
+}
+
+function trigrams(text: string): Set<string> {
+  const normalized = ` ${text.toLowerCase().replace(/\s+/g, ' ').trim()} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= normalized.length; i++) {
+    grams.add(normalized.slice(i, i + 3));
+  }
+  return grams;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const gram of a) {
+    if (b.has(gram)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
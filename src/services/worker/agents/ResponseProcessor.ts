@@ -12,18 +12,44 @@
  */
 
 import { logger } from '../../../utils/logger.js';
+import { metrics } from '../../../utils/metrics.js';
 import { parseObservations, parseSummary, type ParsedObservation, type ParsedSummary } from '../../../sdk/parser.js';
 import { updateCursorContextForProject } from '../../integrations/CursorHooksInstaller.js';
 import { updateFolderClaudeMdFiles } from '../../../utils/claude-md-utils.js';
 import { getWorkerPort } from '../../../shared/worker-utils.js';
 import { SettingsDefaultsManager } from '../../../shared/SettingsDefaultsManager.js';
 import { USER_SETTINGS_PATH } from '../../../shared/paths.js';
+import { loadPathIgnoreMatcher } from '../../../utils/path-privacy.js';
 import type { ActiveSession } from '../../worker-types.js';
 import type { DatabaseManager } from '../DatabaseManager.js';
 import type { SessionManager } from '../SessionManager.js';
-import type { WorkerRef, StorageResult } from './types.js';
+import type { WorkerRef, StorageResult, TextGenerationAgent } from './types.js';
 import { broadcastObservation, broadcastSummary } from './ObservationBroadcaster.js';
 import { cleanupProcessedMessages } from './SessionCleanupHelper.js';
+import { recordSessionUsage } from './UsageRecorder.js';
+import { parseStructuredObservations, getObservationOutputFormat } from './StructuredOutput.js';
+import { evaluateObservations } from './QualityEvaluator.js';
+
+const agentResponseLatency = metrics.histogram(
+  'claude_mem_agent_response_seconds',
+  'Time from claiming a queue message to receiving the agent response for it',
+  ['agent']
+);
+const agentResponses = metrics.counter(
+  'claude_mem_agent_responses',
+  'Agent responses by what could be parsed from them',
+  ['agent', 'result']
+);
+const responseProcessing = metrics.histogram(
+  'claude_mem_response_processing_seconds',
+  'Time spent parsing and storing an agent response',
+  ['agent']
+);
+const recordsStored = metrics.counter(
+  'claude_mem_records_stored',
+  'Observations and summaries written to the database',
+  ['agent', 'kind']
+);
 
 /**
  * Process agent response text (parse XML, save to database, sync to Chroma, broadcast SSE)
@@ -36,6 +62,11 @@ import { cleanupProcessedMessages } from './SessionCleanupHelper.js';
  * 5. SSE broadcast to web UI clients
  * 6. Session cleanup
  *
+ * Token usage is also recorded against the session's current provider (see UsageRecorder).
+ * With CLAUDE_MEM_OUTPUT_FORMAT='json', observations are parsed against the mode's JSON
+ * schema and repaired through repairAgent (see StructuredOutput); summaries stay XML.
+ * Steps 3-6 are shared with the heuristic extractor through storeParsedResponse.
+ *
  * @param text - Response text from the agent
  * @param session - Active session being processed
  * @param dbManager - Database manager for storage operations
@@ -44,6 +75,8 @@ import { cleanupProcessedMessages } from './SessionCleanupHelper.js';
  * @param discoveryTokens - Token cost delta for this response
  * @param originalTimestamp - Original epoch when message was queued (for accurate timestamps)
  * @param agentName - Name of the agent for logging (e.g., 'SDK', 'Gemini', 'OpenRouter')
+ * @param projectRoot - Working directory of the observed session (for .claude-mem-ignore and CLAUDE.md)
+ * @param repairAgent - Agent re-asked when a JSON response fails validation (optional)
  */
 export async function processAgentResponse(
   text: string,
@@ -54,16 +87,79 @@ export async function processAgentResponse(
   discoveryTokens: number,
   originalTimestamp: number | null,
   agentName: string,
-  projectRoot?: string
+  projectRoot?: string,
+  repairAgent?: TextGenerationAgent
 ): Promise<void> {
+  // Latency of the oldest message still waiting for a response (none for init prompts)
+  const oldestInFlight = session.inFlightMessages[0];
+  if (oldestInFlight) {
+    agentResponseLatency.observe({ agent: agentName }, Math.max(0, Date.now() - oldestInFlight._claimedAt) / 1000);
+  }
+  const stopProcessingTimer = responseProcessing.startTimer({ agent: agentName });
+
   // Add assistant response to shared conversation history for provider interop
   if (text) {
     session.conversationHistory.push({ role: 'assistant', content: text });
   }
 
   // Parse observations and summary
-  const observations = parseObservations(text, session.contentSessionId);
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+  const observations = getObservationOutputFormat(settings) === 'json'
+    ? await parseStructuredObservations(text, session, repairAgent, settings)
+    : parseObservations(text, session.contentSessionId);
   const summary = parseSummary(text, session.sessionDbId);
+  agentResponses.inc({
+    agent: agentName,
+    result: observations.length > 0 ? 'observations' : summary ? 'summary' : text.trim() ? 'unparsed' : 'empty'
+  });
+
+  await storeParsedResponse(
+    observations,
+    summary,
+    session,
+    dbManager,
+    worker,
+    discoveryTokens,
+    originalTimestamp,
+    agentName,
+    projectRoot
+  );
+
+  stopProcessingTimer();
+
+  // Released in-flight messages may let the generator claim again (CLAUDE_MEM_QUEUE_MAX_IN_FLIGHT)
+  sessionManager.wakeQueue(session.sessionDbId);
+}
+
+/**
+ * Store parsed observations and summary (save to database, sync to Chroma, broadcast SSE)
+ *
+ * Entry point for extractors that produce observations without XML (HeuristicAgent).
+ * Paths listed in .claude-mem-ignore are scrubbed before storage, then observations are
+ * scored and near-duplicates within the session dropped (see QualityEvaluator).
+ *
+ * @param observations - Parsed observations (origin defaults to 'llm')
+ * @param summary - Parsed summary, or null
+ * @param session - Active session being processed
+ * @param dbManager - Database manager for storage operations
+ * @param worker - Worker reference for SSE broadcasting (optional)
+ * @param discoveryTokens - Token cost delta for this response
+ * @param originalTimestamp - Original epoch when message was queued (for accurate timestamps)
+ * @param agentName - Name of the agent for logging (e.g., 'SDK', 'Gemini', 'Heuristic')
+ */
+export async function storeParsedResponse(
+  parsedObservations: ParsedObservation[],
+  summary: ParsedSummary | null,
+  session: ActiveSession,
+  dbManager: DatabaseManager,
+  worker: WorkerRef | undefined,
+  discoveryTokens: number,
+  originalTimestamp: number | null,
+  agentName: string,
+  projectRoot?: string
+): Promise<void> {
+  // Honor .claude-mem-ignore for referenced files
+  const visibleObservations = filterIgnoredPaths(parsedObservations, projectRoot);
 
   // Convert nullable fields to empty strings for storeSummary (if summary exists)
   const summaryForStore = normalizeSummaryForStorage(summary);
@@ -76,10 +172,16 @@ export async function processAgentResponse(
     throw new Error('Cannot store observations: memorySessionId not yet captured');
   }
 
+  // Score observations and suppress near-duplicates within the session
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+  const observations = evaluateObservations(visibleObservations, session, dbManager, settings);
+
   // Log pre-storage with session ID chain for verification
   logger.info('DB', `STORING | sessionDbId=${session.sessionDbId} | memorySessionId=${session.memorySessionId} | obsCount=${observations.length} | hasSummary=${!!summaryForStore}`, {
     sessionId: session.sessionDbId,
-    memorySessionId: session.memorySessionId
+    memorySessionId: session.memorySessionId,
+    promptNumber: session.lastPromptNumber,
+    messageId: session.inFlightMessages[0]?._persistentId
   });
 
   // ATOMIC TRANSACTION: Store observations + summary ONCE
@@ -97,9 +199,19 @@ export async function processAgentResponse(
   // Log storage result with IDs for end-to-end traceability
   logger.info('DB', `STORED | sessionDbId=${session.sessionDbId} | memorySessionId=${session.memorySessionId} | obsCount=${result.observationIds.length} | obsIds=[${result.observationIds.join(',')}] | summaryId=${result.summaryId || 'none'}`, {
     sessionId: session.sessionDbId,
-    memorySessionId: session.memorySessionId
+    memorySessionId: session.memorySessionId,
+    promptNumber: session.lastPromptNumber,
+    messageId: session.inFlightMessages[0]?._persistentId
   });
 
+  recordsStored.inc({ agent: agentName, kind: 'observation' }, result.observationIds.length);
+  if (result.summaryId) {
+    recordsStored.inc({ agent: agentName, kind: 'summary' });
+  }
+
+  // Account tokens to the provider for routing budgets
+  recordSessionUsage(session, dbManager, discoveryTokens, settings);
+
   // AFTER transaction commits - async operations (can fail safely without data loss)
   await syncAndBroadcastObservations(
     observations,
@@ -128,6 +240,39 @@ export async function processAgentResponse(
   cleanupProcessedMessages(session, worker);
 }
 
+/**
+ * Scrub paths listed in .claude-mem-ignore from files_read/files_modified
+ * Observations that only reference ignored files are dropped entirely.
+ */
+export function filterIgnoredPaths(observations: ParsedObservation[], projectRoot?: string): ParsedObservation[] {
+  const matcher = loadPathIgnoreMatcher(projectRoot);
+  if (!matcher.hasRules) {
+    return observations;
+  }
+
+  const kept: ParsedObservation[] = [];
+  for (const obs of observations) {
+    const filesRead = obs.files_read.filter(filePath => !matcher.isIgnored(filePath));
+    const filesModified = obs.files_modified.filter(filePath => !matcher.isIgnored(filePath));
+    const referencedCount = obs.files_read.length + obs.files_modified.length;
+    const remainingCount = filesRead.length + filesModified.length;
+
+    if (referencedCount > 0 && remainingCount === 0) {
+      logger.info('DB', 'Dropped observation that only references ignored paths', { title: obs.title || '(untitled)' });
+      continue;
+    }
+    if (remainingCount < referencedCount) {
+      logger.debug('DB', 'Scrubbed ignored paths from observation', {
+        title: obs.title || '(untitled)',
+        scrubbed: referencedCount - remainingCount
+      });
+    }
+
+    kept.push({ ...obs, files_read: filesRead, files_modified: filesModified });
+  }
+  return kept;
+}
+
 /**
  * Normalize summary for storage (convert null fields to empty strings)
  */
@@ -211,6 +356,8 @@ async function syncAndBroadcastObservations(
       files_modified: JSON.stringify(obs.files_modified || []),
       project: session.project,
       prompt_number: session.lastPromptNumber,
+      origin: obs.origin ?? 'llm',
+      quality_score: obs.quality_score ?? null,
       created_at_epoch: result.createdAtEpoch
     });
   }
@@ -3,6 +3,7 @@
  *
  * Responsibility:
  * - Reset earliest pending timestamp
+ * - Release in-flight messages (kept for dead-lettering until processed)
  * - Broadcast processing status updates
  *
  * NOTE: With claim-and-delete queue pattern, messages are deleted on claim,
@@ -18,7 +19,8 @@ import type { WorkerRef } from './types.js';
  *
  * With claim-and-delete queue pattern, this function simply:
  * 1. Resets the earliest pending timestamp
- * 2. Broadcasts updated processing status to SSE clients
+ * 2. Releases the in-flight messages, which no longer need dead-lettering on a crash
+ * 3. Broadcasts updated processing status to SSE clients
  *
  * @param session - Active session to clean up
  * @param worker - Worker reference for status broadcasting (optional)
@@ -29,6 +31,7 @@ export function cleanupProcessedMessages(
 ): void {
   // Reset earliest pending timestamp for next batch
   session.earliestPendingTimestamp = null;
+  session.inFlightMessages = [];
 
   // Broadcast activity status after processing (queue may have changed)
   if (worker && typeof worker.broadcastProcessingStatus === 'function') {
@@ -0,0 +1,167 @@
+/**
+ * StructuredOutput: JSON observation parsing with a repair loop
+ *
+ * Responsibility:
+ * - Parse CLAUDE_MEM_OUTPUT_FORMAT='json' responses against the active mode's schema
+ * - Re-ask the agent (one-shot generateText) when validation fails, up to
+ *   CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS times
+ * - Count valid / repaired / dropped observations for /api/stats
+ *
+ * Responses without JSON fall back to the XML parser, so a provider that ignores the
+ * JSON instructions still produces observations. Repair calls are not billed to the
+ * session's token counts (generateText does not report usage).
+ */
+
+import { logger } from '../../../utils/logger.js';
+import { metrics as metricsRegistry } from '../../../utils/metrics.js';
+import { parseObservations, parseObservationsJson, type ParsedObservation } from '../../../sdk/parser.js';
+import { buildRepairPrompt, type ObservationOutputFormat } from '../../../sdk/prompts.js';
+import { buildObservationSchema } from '../../../sdk/schema.js';
+import { ModeManager } from '../../domain/ModeManager.js';
+import { SettingsDefaultsManager, type SettingsDefaults } from '../../../shared/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../../shared/paths.js';
+import type { ActiveSession } from '../../worker-types.js';
+import type { TextGenerationAgent } from './types.js';
+
+const MAX_REPAIR_ATTEMPTS = 5;
+
+export interface ParserMetrics {
+  /** Observations that passed validation on the first response */
+  valid: number;
+  /** Observations that passed validation after a repair */
+  repaired: number;
+  /** Observations still invalid after all repair attempts (an unparseable response counts as one) */
+  dropped: number;
+}
+
+const metrics: ParserMetrics = { valid: 0, repaired: 0, dropped: 0 };
+
+metricsRegistry.counter(
+  'claude_mem_structured_observations',
+  'Observations from CLAUDE_MEM_OUTPUT_FORMAT=json responses by validation result',
+  ['result'],
+  () => Object.entries(metrics).map(([result, value]) => ({ labels: { result }, value }))
+);
+
+/**
+ * Structured output counters since worker start
+ */
+export function getParserMetrics(): ParserMetrics {
+  return { ...metrics };
+}
+
+/**
+ * Reset the counters (tests)
+ */
+export function resetParserMetrics(): void {
+  metrics.valid = 0;
+  metrics.repaired = 0;
+  metrics.dropped = 0;
+}
+
+/**
+ * Observation output format the prompts should request (CLAUDE_MEM_OUTPUT_FORMAT)
+ */
+export function getObservationOutputFormat(
+  settings: SettingsDefaults = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH)
+): ObservationOutputFormat {
+  return settings.CLAUDE_MEM_OUTPUT_FORMAT === 'json' ? 'json' : 'xml';
+}
+
+/**
+ * Number of repair attempts from settings, clamped to 0-5
+ */
+export function getRepairAttempts(settings: SettingsDefaults): number {
+  const attempts = parseInt(settings.CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS, 10);
+  if (!Number.isFinite(attempts) || attempts < 0) return 0;
+  return Math.min(attempts, MAX_REPAIR_ATTEMPTS);
+}
+
+/**
+ * Parse observations from a JSON response, asking the agent to repair validation failures
+ *
+ * When a repair is accepted, the last assistant entry in conversationHistory is replaced
+ * with the repaired text so later prompts build on well-formed output.
+ *
+ * @param text - Response text from the agent
+ * @param session - Active session being processed
+ * @param repairAgent - Agent to re-ask; without one, invalid observations are dropped immediately
+ * @param settings - Current settings (repair attempts)
+ */
+export async function parseStructuredObservations(
+  text: string,
+  session: ActiveSession,
+  repairAgent: TextGenerationAgent | undefined,
+  settings: SettingsDefaults
+): Promise<ParsedObservation[]> {
+  const initial = parseObservationsJson(text, session.contentSessionId);
+  if (!initial.found) {
+    if (text.trim()) {
+      logger.debug('PARSER', 'No JSON in structured response, falling back to XML', { sessionId: session.sessionDbId });
+    }
+    return parseObservations(text, session.contentSessionId);
+  }
+
+  metrics.valid += initial.observations.length;
+  if (initial.errors.length === 0) {
+    return initial.observations;
+  }
+
+  const maxAttempts = repairAgent ? getRepairAttempts(settings) : 0;
+  const schema = buildObservationSchema(ModeManager.getInstance().getActiveMode());
+  let best = initial;
+  let bestText = text;
+
+  for (let attempt = 1; attempt <= maxAttempts && best.errors.length > 0; attempt++) {
+    let repairedText: string;
+    try {
+      repairedText = await repairAgent!.generateText(buildRepairPrompt(bestText, best.errors, schema));
+    } catch (error) {
+      logger.warn('PARSER', 'Repair request failed, keeping valid observations', {
+        sessionId: session.sessionDbId,
+        attempt
+      }, error as Error);
+      break;
+    }
+
+    // A repair replaces the whole response; keep it only if it loses no valid observations
+    const repaired = parseObservationsJson(repairedText, session.contentSessionId);
+    if (!repaired.found || repaired.observations.length < best.observations.length) {
+      logger.debug('PARSER', 'Repair response rejected', { sessionId: session.sessionDbId, attempt });
+      continue;
+    }
+    best = repaired;
+    bestText = repairedText;
+  }
+
+  if (best !== initial) {
+    replaceLastAssistantMessage(session, bestText);
+    metrics.repaired += best.observations.length - initial.observations.length;
+  }
+
+  if (best.errors.length === 0) {
+    logger.info('PARSER', 'Structured response repaired', {
+      sessionId: session.sessionDbId,
+      observations: best.observations.length
+    });
+  } else {
+    metrics.dropped += best.rejectedCount;
+    logger.warn('PARSER', 'Dropped observations that failed schema validation', {
+      sessionId: session.sessionDbId,
+      dropped: best.rejectedCount,
+      kept: best.observations.length,
+      firstError: best.errors[0]
+    });
+  }
+  return best.observations;
+}
+
+function replaceLastAssistantMessage(session: ActiveSession, content: string): void {
+  const history = session.conversationHistory;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].role === 'assistant') {
+      history[i] = { role: 'assistant', content };
+      return;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * UsageRecorder: Per-provider token and cost accounting
+ *
+ * Responsibility:
+ * - Estimate the cost of a response from the per-provider price settings
+ * - Record it in provider_usage so ProviderRouter can enforce budgets
+ *
+ * Providers report tokens differently (exact for Claude, estimated splits for the
+ * REST agents), so costs use one blended price per million tokens per provider.
+ */
+
+import { logger } from '../../../utils/logger.js';
+import type { SettingsDefaults } from '../../../shared/SettingsDefaultsManager.js';
+import type { ActiveSession, ProviderName } from '../../worker-types.js';
+import type { DatabaseManager } from '../DatabaseManager.js';
+
+const COST_SETTING_KEYS: Record<ProviderName, keyof SettingsDefaults> = {
+  'claude': 'CLAUDE_MEM_COST_PER_MTOK_CLAUDE',
+  'gemini': 'CLAUDE_MEM_COST_PER_MTOK_GEMINI',
+  'openrouter': 'CLAUDE_MEM_COST_PER_MTOK_OPENROUTER',
+  'openai-compatible': 'CLAUDE_MEM_COST_PER_MTOK_OPENAI_COMPATIBLE'
+};
+
+/**
+ * Estimated cost in USD of the given number of tokens on a provider
+ */
+export function estimateProviderCost(provider: ProviderName, tokens: number, settings: SettingsDefaults): number {
+  const pricePerMillion = parseFloat(settings[COST_SETTING_KEYS[provider]]);
+  if (!Number.isFinite(pricePerMillion) || pricePerMillion <= 0) {
+    return 0;
+  }
+  return tokens / 1_000_000 * pricePerMillion;
+}
+
+/**
+ * Record usage of the provider currently running the session
+ *
+ * Accounting must never lose a response, so failures are logged and swallowed.
+ *
+ * @param session - Session whose currentProvider produced the response
+ * @param dbManager - Database manager for the usage table
+ * @param tokens - Tokens used by this response
+ * @param settings - Loaded settings (for price lookup)
+ */
+export function recordSessionUsage(
+  session: ActiveSession,
+  dbManager: DatabaseManager,
+  tokens: number,
+  settings: SettingsDefaults
+): void {
+  const provider = session.currentProvider;
+  if (!provider || provider === 'heuristic' || tokens <= 0) {
+    return;
+  }
+
+  try {
+    dbManager.getSessionStore().recordProviderUsage({
+      provider,
+      sessionDbId: session.sessionDbId,
+      tokens,
+      costUsd: estimateProviderCost(provider, tokens, settings)
+    });
+  } catch (error) {
+    logger.warn('SDK', 'Failed to record provider usage', {
+      sessionId: session.sessionDbId,
+      provider,
+      tokens
+    }, error as Error);
+  }
+}
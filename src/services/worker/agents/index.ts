@@ -20,13 +20,21 @@ export type {
   ResponseProcessingContext,
   ParsedResponse,
   FallbackAgent,
+  TextGenerationAgent,
   BaseAgentConfig,
 } from './types.js';
 
 export { FALLBACK_ERROR_PATTERNS } from './types.js';
 
 // Response Processing
-export { processAgentResponse } from './ResponseProcessor.js';
+export { processAgentResponse, storeParsedResponse } from './ResponseProcessor.js';
+
+// Structured Output
+export { parseStructuredObservations, getObservationOutputFormat, getParserMetrics, resetParserMetrics } from './StructuredOutput.js';
+export type { ParserMetrics } from './StructuredOutput.js';
+
+// Observation Prompts
+export { buildQueuedObservationPrompt } from './ObservationBatch.js';
 
 // SSE Broadcasting
 export { broadcastObservation, broadcastSummary } from './ObservationBroadcaster.js';
@@ -34,5 +42,8 @@ export { broadcastObservation, broadcastSummary } from './ObservationBroadcaster
 // Session Cleanup
 export { cleanupProcessedMessages } from './SessionCleanupHelper.js';
 
+// Usage Accounting
+export { recordSessionUsage, estimateProviderCost } from './UsageRecorder.js';
+
 // Error Handling
 export { shouldFallbackToClaude, isAbortError } from './FallbackErrorHandler.js';
@@ -8,6 +8,7 @@
 
 import type { ActiveSession } from '../../worker-types.js';
 import type { ParsedObservation, ParsedSummary } from '../../../sdk/parser.js';
+import type { ObservationOrigin } from '../../../types/database.js';
 
 // ============================================================================
 // Worker Reference Type
@@ -44,6 +45,8 @@ export interface ObservationSSEPayload {
   files_modified: string;  // JSON stringified
   project: string;
   prompt_number: number;
+  origin?: ObservationOrigin;
+  quality_score?: number | null;
   created_at_epoch: number;
 }
 
@@ -107,6 +110,13 @@ export interface FallbackAgent {
   startSession(session: ActiveSession, worker?: WorkerRef): Promise<void>;
 }
 
+/**
+ * One-shot text completion outside any session (used by digest consolidation)
+ */
+export interface TextGenerationAgent {
+  generateText(prompt: string): Promise<string>;
+}
+
 // ============================================================================
 // Agent Configuration Types
 // ============================================================================
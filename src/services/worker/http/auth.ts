@@ -0,0 +1,343 @@
+/**
+ * Worker API authentication
+ *
+ * Requests from loopback addresses are trusted, so hooks and the local viewer need no setup.
+ * With CLAUDE_MEM_AUTH_MODE=remote (the default) every other request needs an API token, sent as
+ * `Authorization: Bearer <token>` or, for the viewer, in the cookie set by POST /api/auth/login.
+ *
+ * Tokens live in ~/.claude-mem/api-tokens.json (readable by the owner only) and carry scopes:
+ * - read: GET requests (search, timeline, viewer data, logs)
+ * - write: every other request (queueing observations, editing, imports)
+ * - admin: settings, token management, clearing logs, metrics and process control
+ * Each scope includes the ones before it.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, join, relative, sep } from 'path';
+import { logger } from '../../../utils/logger.js';
+import { API_TOKENS_PATH } from '../../../shared/paths.js';
+import type { SettingsDefaults } from '../../../shared/SettingsDefaultsManager.js';
+
+export type AuthScope = 'read' | 'write' | 'admin';
+
+export type AuthMode = 'remote' | 'off';
+
+export const AUTH_SCOPES: readonly AuthScope[] = ['read', 'write', 'admin'];
+
+/** Cookie holding the viewer's token after login */
+export const AUTH_COOKIE = 'claude_mem_token';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  token: string;
+  scopes: AuthScope[];
+  createdAt: number;
+}
+
+/**
+ * Who made a request (set on res.locals.auth for every request)
+ */
+export interface AuthContext {
+  /** Request came from a loopback address */
+  local: boolean;
+  /** Matching API token, if one was presented */
+  tokenId: string | null;
+  scopes: AuthScope[];
+}
+
+interface TokenFile {
+  tokens: ApiToken[];
+}
+
+// Reachable without a token: health probes, the viewer shell and the login flow
+const PUBLIC_PATHS = new Set([
+  '/',
+  '/health',
+  '/api/health',
+  '/api/readiness',
+  '/api/version',
+  '/api/auth/status',
+  '/api/auth/login',
+  '/api/auth/logout'
+]);
+
+// Routes that need the admin scope; method-less entries cover every method
+const ADMIN_ROUTES: Array<{ method?: string; prefix: string }> = [
+  { prefix: '/api/admin/' },
+  { prefix: '/api/auth/tokens' },
+  { prefix: '/api/settings' },
+  { prefix: '/metrics' },
+  { method: 'POST', prefix: '/api/mcp/toggle' },
+  { method: 'POST', prefix: '/api/branch/' },
+  { method: 'POST', prefix: '/api/logs/clear' }
+];
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// Routes that only need the read scope for every method; they check write access themselves
+// (the MCP endpoint hides memory-changing tools from read-only tokens)
+const READ_ROUTES = ['/mcp'];
+
+/**
+ * Store for API tokens, re-read whenever the file changes (it may be edited by hand)
+ */
+export class ApiTokenStore {
+  private tokens: ApiToken[] = [];
+  private loadedMtimeMs: number = -1;
+
+  constructor(private readonly filePath: string = API_TOKENS_PATH) {}
+
+  /**
+   * Create the token file with an admin token named "default" if there are no tokens yet
+   * @returns The created token, or null if tokens already existed
+   */
+  ensureDefaultToken(): ApiToken | null {
+    if (this.list().length > 0) return null;
+    const token = this.create('default', ['admin']);
+    logger.info('HTTP', 'Generated default API token', { path: this.filePath });
+    return token;
+  }
+
+  list(): ApiToken[] {
+    this.reload();
+    return [...this.tokens];
+  }
+
+  create(name: string, scopes: AuthScope[]): ApiToken {
+    this.reload();
+    const token: ApiToken = {
+      id: randomBytes(4).toString('hex'),
+      name,
+      token: `cmem_${randomBytes(32).toString('base64url')}`,
+      scopes,
+      createdAt: Date.now()
+    };
+    this.tokens.push(token);
+    this.save();
+    return token;
+  }
+
+  /**
+   * @returns false if no token has this id
+   */
+  revoke(id: string): boolean {
+    this.reload();
+    const remaining = this.tokens.filter(t => t.id !== id);
+    if (remaining.length === this.tokens.length) return false;
+    this.tokens = remaining;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Find the token matching a presented value (constant-time comparison)
+   */
+  verify(presented: string): ApiToken | null {
+    this.reload();
+    const presentedDigest = digest(presented);
+    let match: ApiToken | null = null;
+    for (const token of this.tokens) {
+      // Compare every token so timing doesn't reveal which one matched
+      if (timingSafeEqual(presentedDigest, digest(token.token))) {
+        match = token;
+      }
+    }
+    return match;
+  }
+
+  private reload(): void {
+    if (!existsSync(this.filePath)) {
+      this.tokens = [];
+      this.loadedMtimeMs = -1;
+      return;
+    }
+
+    const mtimeMs = statSync(this.filePath).mtimeMs;
+    if (mtimeMs === this.loadedMtimeMs) return;
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8')) as Partial<TokenFile>;
+      this.tokens = (parsed.tokens ?? []).filter(isValidToken);
+    } catch (error) {
+      // Fail closed: a corrupted file authorizes nobody until fixed
+      logger.error('HTTP', 'Failed to read API token file', { path: this.filePath }, error as Error);
+      this.tokens = [];
+    }
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const file: TokenFile = { tokens: this.tokens };
+    writeFileSync(this.filePath, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+  }
+}
+
+/**
+ * Auth mode from settings (anything but 'off' requires tokens from remote clients)
+ */
+export function loadAuthMode(settings: SettingsDefaults): AuthMode {
+  return settings.CLAUDE_MEM_AUTH_MODE === 'off' ? 'off' : 'remote';
+}
+
+/**
+ * Whether a request came from this machine
+ */
+export function isLocalhostRequest(req: Request): boolean {
+  const clientIp = req.ip || req.socket?.remoteAddress || '';
+  return clientIp === '127.0.0.1' ||
+    clientIp === '::1' ||
+    clientIp === '::ffff:127.0.0.1' ||
+    clientIp === 'localhost';
+}
+
+/**
+ * Whether a set of scopes grants the required one (admin > write > read)
+ */
+export function hasScope(scopes: readonly AuthScope[], required: AuthScope): boolean {
+  const requiredRank = AUTH_SCOPES.indexOf(required);
+  return scopes.some(scope => AUTH_SCOPES.indexOf(scope) >= requiredRank);
+}
+
+/**
+ * Scope a request needs
+ */
+export function requiredScope(method: string, path: string): AuthScope {
+  const upperMethod = method.toUpperCase();
+  // Express matches routes case-insensitively, so /API/Settings reaches the same handler
+  const lowerPath = path.toLowerCase();
+  const isAdmin = ADMIN_ROUTES.some(route =>
+    lowerPath.startsWith(route.prefix) && (!route.method || route.method === upperMethod)
+  );
+  if (isAdmin) return 'admin';
+  if (READ_ROUTES.includes(lowerPath)) return 'read';
+  return READ_METHODS.has(upperMethod) ? 'read' : 'write';
+}
+
+/**
+ * URL paths of the files in the built viewer directories (bundle, fonts, icons)
+ * Missing directories are skipped
+ */
+export function listStaticAssetPaths(dirs: string[]): Set<string> {
+  const paths = new Set<string>();
+  const walk = (root: string, dir: string): void => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(root, fullPath);
+      } else if (entry.isFile()) {
+        paths.add('/' + relative(root, fullPath).split(sep).join('/'));
+      }
+    }
+  };
+  for (const dir of dirs) {
+    if (existsSync(dir)) walk(dir, dir);
+  }
+  return paths;
+}
+
+/**
+ * Whether a request may be served without a token
+ * @param staticAssets - URL paths the viewer's static directories serve (see listStaticAssetPaths)
+ */
+export function isPublicRoute(method: string, path: string, staticAssets: ReadonlySet<string> = new Set()): boolean {
+  if (PUBLIC_PATHS.has(path.toLowerCase())) return true;
+  // Viewer assets carry no memory data; only files that actually exist in the UI build are exempt
+  // (matched exactly, as the static file server is case-sensitive)
+  return READ_METHODS.has(method.toUpperCase()) && staticAssets.has(path);
+}
+
+/**
+ * Token presented by a request: bearer header first, then the viewer's login cookie
+ */
+export function extractToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header) {
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+  }
+
+  const cookieHeader = req.headers.cookie;
+  if (!cookieHeader) return null;
+  for (const pair of cookieHeader.split(';')) {
+    const separator = pair.indexOf('=');
+    if (separator !== -1 && pair.slice(0, separator).trim() === AUTH_COOKIE) {
+      return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return null;
+}
+
+/**
+ * Authenticate every request and enforce token scopes for remote clients
+ * @param staticAssets - Viewer asset paths served without a token
+ */
+export function createAuthMiddleware(
+  mode: AuthMode,
+  store: ApiTokenStore,
+  staticAssets: ReadonlySet<string> = new Set()
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const presented = extractToken(req);
+    const token = presented ? store.verify(presented) : null;
+    const auth: AuthContext = {
+      local: isLocalhostRequest(req),
+      tokenId: token?.id ?? null,
+      scopes: token?.scopes ?? []
+    };
+    res.locals.auth = auth;
+
+    if (mode === 'off' || auth.local || isPublicRoute(req.method, req.path, staticAssets)) {
+      return next();
+    }
+
+    if (!token) {
+      logger.warn('HTTP', 'Rejected unauthenticated remote request', {
+        endpoint: req.path,
+        method: req.method,
+        clientIp: req.ip,
+        tokenPresented: !!presented
+      });
+      res.setHeader('WWW-Authenticate', 'Bearer realm="claude-mem"');
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: presented ? 'Invalid API token' : 'API token required for remote access'
+      });
+      return;
+    }
+
+    const required = requiredScope(req.method, req.path);
+    if (!hasScope(token.scopes, required)) {
+      logger.warn('HTTP', 'Rejected request outside token scope', {
+        endpoint: req.path,
+        method: req.method,
+        tokenId: token.id,
+        required
+      });
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `API token lacks the ${required} scope`
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function isValidToken(token: any): token is ApiToken {
+  return token &&
+    typeof token.id === 'string' &&
+    typeof token.token === 'string' &&
+    token.token.length > 0 &&
+    Array.isArray(token.scopes) &&
+    token.scopes.every((scope: unknown) => AUTH_SCOPES.includes(scope as AuthScope));
+}
@@ -2,30 +2,83 @@
  * HTTP Middleware for Worker Service
  *
  * Extracted from WorkerService.ts for better organization.
- * Handles request/response logging, CORS, JSON parsing, and static file serving.
+ * Handles request/response logging and metrics, CORS, authentication, JSON parsing, and static file serving.
  */
 
 import express, { Request, Response, NextFunction, RequestHandler } from 'express';
 import cors from 'cors';
 import path from 'path';
-import { getPackageRoot } from '../../../shared/paths.js';
+import { getPackageRoot, USER_SETTINGS_PATH } from '../../../shared/paths.js';
+import { SettingsDefaultsManager, SettingsDefaults } from '../../../shared/SettingsDefaultsManager.js';
 import { logger } from '../../../utils/logger.js';
+import { metrics } from '../../../utils/metrics.js';
+import { ApiTokenStore, AuthContext, createAuthMiddleware, hasScope, isLocalhostRequest, listStaticAssetPaths, loadAuthMode } from './auth.js';
+
+const httpRequests = metrics.counter(
+  'claude_mem_http_requests',
+  'HTTP requests handled by the worker',
+  ['method', 'route', 'status']
+);
+const httpRequestDuration = metrics.histogram(
+  'claude_mem_http_request_duration_seconds',
+  'HTTP request handling time',
+  ['method', 'route']
+);
+
+const LOOPBACK_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+/**
+ * Build the CORS origin check from CLAUDE_MEM_CORS_ORIGINS
+ * Empty allows loopback origins only, '*' allows any origin, otherwise a comma-separated allowlist.
+ * Requests without an Origin header (curl, hooks, MCP server) are never blocked by CORS.
+ */
+export function createCorsOriginCheck(setting: string): (origin: string | undefined) => boolean {
+  const trimmed = setting.trim();
+  if (trimmed === '*') return () => true;
+
+  const allowed = new Set(trimmed.split(',').map(o => o.trim().replace(/\/$/, '')).filter(Boolean));
+  return (origin: string | undefined) => !origin || LOOPBACK_ORIGIN.test(origin) || allowed.has(origin);
+}
 
 /**
  * Create all middleware for the worker service
  * @param summarizeRequestBody - Function to summarize request bodies for logging
+ * @param settings - Settings for auth and CORS (defaults to the user's settings file)
  * @returns Array of middleware functions
  */
 export function createMiddleware(
-  summarizeRequestBody: (method: string, path: string, body: any) => string
+  summarizeRequestBody: (method: string, path: string, body: any) => string,
+  settings: SettingsDefaults = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH)
 ): RequestHandler[] {
   const middlewares: RequestHandler[] = [];
 
   // JSON parsing with 50mb limit
   middlewares.push(express.json({ limit: '50mb' }));
 
-  // CORS
-  middlewares.push(cors());
+  // CORS (credentials allowed so the viewer's login cookie works cross-origin)
+  const isAllowedOrigin = createCorsOriginCheck(settings.CLAUDE_MEM_CORS_ORIGINS);
+  middlewares.push(cors({
+    origin: (origin, callback) => callback(null, isAllowedOrigin(origin)),
+    credentials: true
+  }));
+
+  // HTTP request metrics (labelled by route pattern, not raw path, to keep cardinality bounded)
+  middlewares.push((req: Request, res: Response, next: NextFunction) => {
+    const stopTimer = httpRequestDuration.startTimer();
+    res.on('finish', () => {
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+      stopTimer({ method: req.method, route });
+      httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    });
+    next();
+  });
+
+  // Authentication and token scopes for remote clients (loopback requests are trusted)
+  // Files in the viewer build (served here and by ViewerRoutes) are reachable without a token
+  const packageRoot = getPackageRoot();
+  const uiDir = path.join(packageRoot, 'plugin', 'ui');
+  const staticAssets = listStaticAssetPaths([uiDir, path.join(packageRoot, 'ui')]);
+  middlewares.push(createAuthMiddleware(loadAuthMode(settings), new ApiTokenStore(), staticAssets));
 
   // HTTP request/response logging
   middlewares.push((req: Request, res: Response, next: NextFunction) => {
@@ -56,8 +109,6 @@ export function createMiddleware(
   });
 
   // Serve static files for web UI (viewer-bundle.js, logos, fonts, etc.)
-  const packageRoot = getPackageRoot();
-  const uiDir = path.join(packageRoot, 'plugin', 'ui');
   middlewares.push(express.static(uiDir));
 
   return middlewares;
@@ -65,25 +116,22 @@ export function createMiddleware(
 
 /**
  * Middleware to require localhost-only access
- * Used for admin endpoints that should not be exposed when binding to 0.0.0.0
+ * Used for admin endpoints that should not be exposed when binding to 0.0.0.0.
+ * Remote clients holding an admin-scoped API token are let through.
  */
 export function requireLocalhost(req: Request, res: Response, next: NextFunction): void {
-  const clientIp = req.ip || req.connection.remoteAddress || '';
-  const isLocalhost =
-    clientIp === '127.0.0.1' ||
-    clientIp === '::1' ||
-    clientIp === '::ffff:127.0.0.1' ||
-    clientIp === 'localhost';
-
-  if (!isLocalhost) {
+  const auth = res.locals.auth as AuthContext | undefined;
+  const hasAdminToken = !!auth?.tokenId && hasScope(auth.scopes, 'admin');
+
+  if (!isLocalhostRequest(req) && !hasAdminToken) {
     logger.warn('SECURITY', 'Admin endpoint access denied - not localhost', {
       endpoint: req.path,
-      clientIp,
+      clientIp: req.ip,
       method: req.method
     });
     res.status(403).json({
       error: 'Forbidden',
-      message: 'Admin endpoints are only accessible from localhost'
+      message: 'Admin endpoints are only accessible from localhost or with an admin API token'
     });
     return;
   }
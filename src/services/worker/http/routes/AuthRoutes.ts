@@ -0,0 +1,142 @@
+/**
+ * Auth Routes
+ *
+ * Viewer login/logout (token stored in an HttpOnly cookie so fetch and SSE both carry it)
+ * and management of API tokens in ~/.claude-mem/api-tokens.json (admin scope, see auth.ts).
+ */
+
+import express, { Request, Response } from 'express';
+import { logger } from '../../../../utils/logger.js';
+import { BaseRouteHandler } from '../BaseRouteHandler.js';
+import {
+  ApiTokenStore,
+  AuthContext,
+  AuthMode,
+  AuthScope,
+  AUTH_COOKIE,
+  AUTH_SCOPES,
+  ApiToken
+} from '../auth.js';
+
+const LOGIN_COOKIE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export class AuthRoutes extends BaseRouteHandler {
+  constructor(
+    private mode: AuthMode,
+    private tokenStore: ApiTokenStore
+  ) {
+    super();
+  }
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/auth/status', this.handleStatus.bind(this));
+    app.post('/api/auth/login', this.handleLogin.bind(this));
+    app.post('/api/auth/logout', this.handleLogout.bind(this));
+    app.get('/api/auth/tokens', this.handleListTokens.bind(this));
+    app.post('/api/auth/tokens', this.handleCreateToken.bind(this));
+    app.delete('/api/auth/tokens/:id', this.handleRevokeToken.bind(this));
+  }
+
+  /**
+   * Whether this client needs to log in
+   * GET /api/auth/status
+   */
+  private handleStatus = this.wrapHandler((req: Request, res: Response): void => {
+    const auth = res.locals.auth as AuthContext | undefined;
+    const authRequired = this.mode === 'remote' && !auth?.local;
+
+    res.json({
+      mode: this.mode,
+      authRequired,
+      authenticated: !authRequired || !!auth?.tokenId,
+      scopes: auth?.local || this.mode === 'off' ? ['admin'] : auth?.scopes ?? []
+    });
+  });
+
+  /**
+   * Verify a token and store it in the login cookie
+   * POST /api/auth/login { token }
+   */
+  private handleLogin = this.wrapHandler((req: Request, res: Response): void => {
+    const { token } = req.body ?? {};
+    if (typeof token !== 'string' || !token.trim()) {
+      this.badRequest(res, 'token is required');
+      return;
+    }
+
+    const match = this.tokenStore.verify(token.trim());
+    if (!match) {
+      logger.warn('HTTP', 'Viewer login failed', { clientIp: req.ip });
+      res.status(401).json({ error: 'Invalid API token' });
+      return;
+    }
+
+    res.cookie(AUTH_COOKIE, match.token, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: req.secure,
+      maxAge: LOGIN_COOKIE_MAX_AGE_MS,
+      path: '/'
+    });
+    logger.info('HTTP', 'Viewer logged in', { tokenId: match.id, clientIp: req.ip });
+    res.json({ success: true, scopes: match.scopes });
+  });
+
+  /**
+   * Clear the login cookie
+   * POST /api/auth/logout
+   */
+  private handleLogout = this.wrapHandler((req: Request, res: Response): void => {
+    res.clearCookie(AUTH_COOKIE, { path: '/' });
+    res.json({ success: true });
+  });
+
+  /**
+   * List tokens (values masked)
+   * GET /api/auth/tokens
+   */
+  private handleListTokens = this.wrapHandler((req: Request, res: Response): void => {
+    res.json({ tokens: this.tokenStore.list().map(maskToken) });
+  });
+
+  /**
+   * Create a token; the value is only returned in this response
+   * POST /api/auth/tokens { name, scopes }
+   */
+  private handleCreateToken = this.wrapHandler((req: Request, res: Response): void => {
+    if (!this.validateRequired(req, res, ['name', 'scopes'])) return;
+
+    const { name, scopes } = req.body;
+    if (typeof name !== 'string' || !name.trim()) {
+      this.badRequest(res, 'name must be a non-empty string');
+      return;
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(s => AUTH_SCOPES.includes(s))) {
+      this.badRequest(res, `scopes must be a non-empty array of: ${AUTH_SCOPES.join(', ')}`);
+      return;
+    }
+
+    const token = this.tokenStore.create(name.trim(), [...new Set(scopes as AuthScope[])]);
+    logger.info('HTTP', 'API token created', { tokenId: token.id, name: token.name, scopes: token.scopes.join(',') });
+    res.json(token);
+  });
+
+  /**
+   * Revoke a token
+   * DELETE /api/auth/tokens/:id
+   */
+  private handleRevokeToken = this.wrapHandler((req: Request, res: Response): void => {
+    const id = req.params.id;
+    if (!this.tokenStore.revoke(id)) {
+      this.notFound(res, `Token ${id} not found`);
+      return;
+    }
+
+    logger.info('HTTP', 'API token revoked', { tokenId: id });
+    res.json({ success: true });
+  });
+}
+
+function maskToken(token: ApiToken): Omit<ApiToken, 'token'> & { token: string } {
+  return { ...token, token: `${token.token.slice(0, 9)}…` };
+}
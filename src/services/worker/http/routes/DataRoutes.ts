@@ -16,8 +16,26 @@ import { PaginationHelper } from '../../PaginationHelper.js';
 import { DatabaseManager } from '../../DatabaseManager.js';
 import { SessionManager } from '../../SessionManager.js';
 import { SSEBroadcaster } from '../../SSEBroadcaster.js';
+import type { ProviderRouter } from '../../ProviderRouter.js';
+import { getParserMetrics } from '../../agents/StructuredOutput.js';
+import { getQueueMetrics } from '../../../queue/QueuePolicy.js';
 import type { WorkerService } from '../../../worker-service.js';
+import type { ExtractorName } from '../../../worker-types.js';
 import { BaseRouteHandler } from '../BaseRouteHandler.js';
+import { ModeManager } from '../../../domain/ModeManager.js';
+import type { ObservationUpdate } from '../../../sqlite/observations/types.js';
+import type { SummaryUpdate } from '../../../sqlite/summaries/types.js';
+import { ArchiveError } from '../../../sqlite/archive/types.js';
+import type { ArchiveConflictStrategy } from '../../../sqlite/archive/types.js';
+import { parseArchiveDate } from '../../../sqlite/archive/filters.js';
+
+// Editable fields accepted by the observation and summary edit endpoints
+const OBSERVATION_TEXT_FIELDS = ['title', 'subtitle', 'narrative'] as const;
+const OBSERVATION_LIST_FIELDS = ['facts', 'concepts', 'files_read', 'files_modified'] as const;
+const SUMMARY_TEXT_FIELDS = ['request', 'investigated', 'learned', 'completed', 'next_steps', 'notes'] as const;
+
+// Providers a failed queue message can be replayed with
+const REPLAY_PROVIDERS: readonly ExtractorName[] = ['claude', 'gemini', 'openrouter', 'openai-compatible', 'heuristic'];
 
 export class DataRoutes extends BaseRouteHandler {
   constructor(
@@ -26,7 +44,8 @@ export class DataRoutes extends BaseRouteHandler {
     private sessionManager: SessionManager,
     private sseBroadcaster: SSEBroadcaster,
     private workerService: WorkerService,
-    private startTime: number
+    private startTime: number,
+    private providerRouter: ProviderRouter
   ) {
     super();
   }
@@ -44,6 +63,15 @@ export class DataRoutes extends BaseRouteHandler {
     app.post('/api/sdk-sessions/batch', this.handleGetSdkSessionsByIds.bind(this));
     app.get('/api/prompt/:id', this.handleGetPromptById.bind(this));
 
+    // Editing endpoints (every change is recorded in observation_revisions)
+    app.patch('/api/observation/:id', this.handleUpdateObservation.bind(this));
+    app.delete('/api/observation/:id', this.handleDeleteObservation.bind(this));
+    app.post('/api/observations/merge', this.handleMergeObservations.bind(this));
+    app.get('/api/observation/:id/revisions', this.handleGetObservationRevisions.bind(this));
+    app.patch('/api/summary/:id', this.handleUpdateSummary.bind(this));
+    app.delete('/api/summary/:id', this.handleDeleteSummary.bind(this));
+    app.get('/api/summary/:id/revisions', this.handleGetSummaryRevisions.bind(this));
+
     // Metadata endpoints
     app.get('/api/stats', this.handleGetStats.bind(this));
     app.get('/api/projects', this.handleGetProjects.bind(this));
@@ -57,9 +85,17 @@ export class DataRoutes extends BaseRouteHandler {
     app.post('/api/pending-queue/process', this.handleProcessPendingQueue.bind(this));
     app.delete('/api/pending-queue/failed', this.handleClearFailedQueue.bind(this));
     app.delete('/api/pending-queue/all', this.handleClearAllQueue.bind(this));
+    app.post('/api/pending-queue/replay', this.handleReplayFailedQueue.bind(this));
+    app.post('/api/pending-queue/:id/retry', this.handleRetryQueueMessage.bind(this));
+    app.patch('/api/pending-queue/:id', this.handleUpdateQueueMessage.bind(this));
+    app.delete('/api/pending-queue/:id', this.handleDiscardQueueMessage.bind(this));
 
     // Import endpoint
     app.post('/api/import', this.handleImport.bind(this));
+
+    // Archive endpoints (full, versioned export/import)
+    app.get('/api/archive/export', this.handleExportArchive.bind(this));
+    app.post('/api/archive/import', this.handleImportArchive.bind(this));
   }
 
   /**
@@ -134,6 +170,7 @@ export class DataRoutes extends BaseRouteHandler {
 
     const store = this.dbManager.getSessionStore();
     const observations = store.getObservationsByIds(ids, { orderBy, limit, project });
+    store.recordObservationRetrievals(observations.map(obs => obs.id));
 
     res.json(observations);
   });
@@ -195,7 +232,251 @@ export class DataRoutes extends BaseRouteHandler {
   });
 
   /**
-   * Get database statistics (with worker metadata)
+   * Update an observation
+   * PATCH /api/observation/:id
+   * Body: { type?, title?, subtitle?, narrative?, facts?, concepts?, files_read?, files_modified?, changedBy? }
+   */
+  private handleUpdateObservation = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const changes = this.parseObservationChanges(req.body ?? {}, res);
+    if (changes === null) return;
+
+    const store = this.dbManager.getSessionStore();
+    const observation = store.updateObservation(id, changes, this.parseChangedBy(req));
+
+    if (!observation) {
+      this.notFound(res, `Observation #${id} not found`);
+      return;
+    }
+
+    this.dbManager.getChromaSync().resyncObservation(observation, store.getAnnotations(id)).catch(error => {
+      logger.error('CHROMA', 'Observation re-sync failed after edit, vector search may be stale', { obsId: id }, error as Error);
+    });
+
+    this.sseBroadcaster.broadcast({ type: 'observation_updated', observation });
+    res.json(observation);
+  });
+
+  /**
+   * Delete an observation
+   * DELETE /api/observation/:id
+   * Body: { reason?, changedBy? }
+   */
+  private handleDeleteObservation = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const store = this.dbManager.getSessionStore();
+    const deleted = store.deleteObservation(id, this.parseChangedBy(req), req.body?.reason ?? null);
+
+    if (!deleted) {
+      this.notFound(res, `Observation #${id} not found`);
+      return;
+    }
+
+    this.dbManager.getChromaSync().deleteObservation(id).catch(error => {
+      logger.error('CHROMA', 'Observation vector delete failed, search may return a stale ID', { obsId: id }, error as Error);
+    });
+
+    logger.info('DB', 'Observation deleted via API', { obsId: id, project: deleted.project });
+
+    this.sseBroadcaster.broadcast({ type: 'observation_deleted', id });
+    res.json({ success: true, id });
+  });
+
+  /**
+   * Merge observations into the first ID
+   * POST /api/observations/merge
+   * Body: { ids: number[], changes?: { ...editable fields }, changedBy? }
+   */
+  private handleMergeObservations = this.wrapHandler((req: Request, res: Response): void => {
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === 'number' && Number.isInteger(id))) {
+      this.badRequest(res, 'ids must be an array of integers');
+      return;
+    }
+
+    const uniqueIds = Array.from(new Set<number>(ids));
+    if (uniqueIds.length < 2) {
+      this.badRequest(res, 'At least two distinct observation ids are required');
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const existing = store.getObservationsByIds(uniqueIds);
+    const missing = uniqueIds.filter(id => !existing.some(obs => obs.id === id));
+    if (missing.length > 0) {
+      this.notFound(res, `Observations not found: ${missing.map(id => `#${id}`).join(', ')}`);
+      return;
+    }
+    if (new Set(existing.map(obs => obs.project)).size > 1) {
+      this.badRequest(res, 'Cannot merge observations from different projects');
+      return;
+    }
+
+    const changes = this.parseObservationChanges(req.body.changes ?? {}, res);
+    if (changes === null) return;
+
+    const { observation, mergedIds } = store.mergeObservations(uniqueIds, this.parseChangedBy(req), changes);
+
+    const chromaSync = this.dbManager.getChromaSync();
+    chromaSync.resyncObservation(observation, store.getAnnotations(observation.id)).catch(error => {
+      logger.error('CHROMA', 'Merged observation re-sync failed, vector search may be stale', { obsId: observation.id }, error as Error);
+    });
+    for (const mergedId of mergedIds) {
+      chromaSync.deleteObservation(mergedId).catch(error => {
+        logger.error('CHROMA', 'Merged observation vector delete failed', { obsId: mergedId }, error as Error);
+      });
+    }
+
+    logger.info('DB', 'Observations merged via API', { targetId: observation.id, mergedIds });
+
+    this.sseBroadcaster.broadcast({ type: 'observation_updated', observation });
+    for (const mergedId of mergedIds) {
+      this.sseBroadcaster.broadcast({ type: 'observation_deleted', id: mergedId });
+    }
+
+    res.json({ observation, mergedIds });
+  });
+
+  /**
+   * Get revision history for an observation
+   * GET /api/observation/:id/revisions
+   */
+  private handleGetObservationRevisions = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const revisions = this.dbManager.getSessionStore().getRevisions('observation', id);
+    res.json({ revisions });
+  });
+
+  /**
+   * Update a session summary
+   * PATCH /api/summary/:id
+   * Body: { request?, investigated?, learned?, completed?, next_steps?, notes?, changedBy? }
+   */
+  private handleUpdateSummary = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const changes: SummaryUpdate = {};
+    for (const field of SUMMARY_TEXT_FIELDS) {
+      const value = req.body[field];
+      if (value === undefined) continue;
+      if (value !== null && typeof value !== 'string') {
+        this.badRequest(res, `${field} must be a string or null`);
+        return;
+      }
+      changes[field] = value;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const summary = store.updateSummary(id, changes, this.parseChangedBy(req));
+
+    if (!summary) {
+      this.notFound(res, `Summary #${id} not found`);
+      return;
+    }
+
+    this.dbManager.getChromaSync().resyncSummary(summary).catch(error => {
+      logger.error('CHROMA', 'Summary re-sync failed after edit, vector search may be stale', { summaryId: id }, error as Error);
+    });
+
+    this.sseBroadcaster.broadcast({ type: 'summary_updated', summary });
+    res.json(summary);
+  });
+
+  /**
+   * Delete a session summary
+   * DELETE /api/summary/:id
+   * Body: { reason?, changedBy? }
+   */
+  private handleDeleteSummary = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const store = this.dbManager.getSessionStore();
+    const deleted = store.deleteSummary(id, this.parseChangedBy(req), req.body?.reason ?? null);
+
+    if (!deleted) {
+      this.notFound(res, `Summary #${id} not found`);
+      return;
+    }
+
+    this.dbManager.getChromaSync().deleteSummary(id).catch(error => {
+      logger.error('CHROMA', 'Summary vector delete failed, search may return a stale ID', { summaryId: id }, error as Error);
+    });
+
+    logger.info('DB', 'Summary deleted via API', { summaryId: id, project: deleted.project });
+
+    this.sseBroadcaster.broadcast({ type: 'summary_deleted', id });
+    res.json({ success: true, id });
+  });
+
+  /**
+   * Get revision history for a session summary
+   * GET /api/summary/:id/revisions
+   */
+  private handleGetSummaryRevisions = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const revisions = this.dbManager.getSessionStore().getRevisions('summary', id);
+    res.json({ revisions });
+  });
+
+  /**
+   * Parse editable observation fields from a request body
+   * Returns null (after sending 400) if a field has the wrong shape
+   */
+  private parseObservationChanges(body: Record<string, any>, res: Response): ObservationUpdate | null {
+    const changes: ObservationUpdate = {};
+
+    if (body.type !== undefined) {
+      if (typeof body.type !== 'string' || !ModeManager.getInstance().validateType(body.type)) {
+        this.badRequest(res, `Invalid observation type: ${body.type}`);
+        return null;
+      }
+      changes.type = body.type;
+    }
+
+    for (const field of OBSERVATION_TEXT_FIELDS) {
+      const value = body[field];
+      if (value === undefined) continue;
+      if (value !== null && typeof value !== 'string') {
+        this.badRequest(res, `${field} must be a string or null`);
+        return null;
+      }
+      changes[field] = value;
+    }
+
+    for (const field of OBSERVATION_LIST_FIELDS) {
+      const value = body[field];
+      if (value === undefined) continue;
+      if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+        this.badRequest(res, `${field} must be an array of strings`);
+        return null;
+      }
+      changes[field] = value;
+    }
+
+    return changes;
+  }
+
+  /**
+   * Resolve who made an edit (recorded in the audit trail)
+   */
+  private parseChangedBy(req: Request): string {
+    const changedBy = req.body?.changedBy;
+    return typeof changedBy === 'string' && changedBy.trim() ? changedBy.trim() : 'api';
+  }
+
+  /**
+   * Get database statistics (with worker metadata, provider budget status and parser metrics)
    */
   private handleGetStats = this.wrapHandler((req: Request, res: Response): void => {
     const db = this.dbManager.getSessionStore().db;
@@ -237,7 +518,10 @@ export class DataRoutes extends BaseRouteHandler {
         observations: totalObservations.count,
         sessions: totalSessions.count,
         summaries: totalSummaries.count
-      }
+      },
+      budget: this.providerRouter.getBudgetStatus(),
+      parser: getParserMetrics(),
+      queue: getQueueMetrics()
     });
   });
 
@@ -372,6 +656,61 @@ export class DataRoutes extends BaseRouteHandler {
     });
   });
 
+  /**
+   * Export the memory database as a versioned archive
+   * GET /api/archive/export?project=&since=&until=
+   * Returns: { manifest, files } where files maps each JSONL file name to its contents
+   */
+  private handleExportArchive = this.wrapHandler((req: Request, res: Response): void => {
+    let since: number | undefined;
+    let until: number | undefined;
+    try {
+      since = parseArchiveDate(req.query.since);
+      until = parseArchiveDate(req.query.until, true);
+    } catch (error) {
+      this.badRequest(res, (error as Error).message);
+      return;
+    }
+
+    const project = req.query.project as string | undefined;
+    const archive = this.dbManager.getSessionStore().exportArchive({ project, since, until });
+    res.json(archive);
+  });
+
+  /**
+   * Import a versioned archive
+   * POST /api/archive/import
+   * Body: { archive: { manifest, files }, onConflict?: 'skip' | 'overwrite' | 'rename-project',
+   *         renameSuffix?, project?, since?, until? }
+   */
+  private handleImportArchive = this.wrapHandler((req: Request, res: Response): void => {
+    if (!this.validateRequired(req, res, ['archive'])) return;
+
+    const { archive, onConflict, renameSuffix, project } = req.body;
+
+    try {
+      const store = this.dbManager.getSessionStore();
+      const { recordIds, ...result } = store.importArchive(archive, {
+        onConflict: onConflict as ArchiveConflictStrategy | undefined,
+        renameSuffix,
+        project,
+        since: parseArchiveDate(req.body.since),
+        until: parseArchiveDate(req.body.until, true)
+      });
+      res.json({ success: true, ...result });
+
+      this.dbManager.getChromaSync().syncStoredRecords(store, recordIds).catch(error => {
+        logger.error('CHROMA', 'Vector sync failed after archive import, imported records may be missing from search', {}, error as Error);
+      });
+    } catch (error) {
+      if (error instanceof ArchiveError) {
+        this.badRequest(res, error.message);
+        return;
+      }
+      throw error;
+    }
+  });
+
   /**
    * Get pending queue contents
    * GET /api/pending-queue
@@ -463,4 +802,112 @@ export class DataRoutes extends BaseRouteHandler {
       clearedCount
     });
   });
+
+  /**
+   * Replay failed messages, optionally with a different provider
+   * POST /api/pending-queue/replay
+   * Body: { ids?: number[], provider?: 'claude' | 'gemini' | 'openrouter' | 'openai-compatible' | 'heuristic' }
+   * Without ids every failed message is replayed; the provider overrides routing for the replayed messages
+   */
+  private handleReplayFailedQueue = this.wrapHandler((req: Request, res: Response): void => {
+    const { ids, provider } = req.body ?? {};
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id: unknown) => Number.isInteger(id)))) {
+      this.badRequest(res, 'ids must be an array of message IDs');
+      return;
+    }
+    if (provider !== undefined && provider !== null && !REPLAY_PROVIDERS.includes(provider)) {
+      this.badRequest(res, `provider must be one of ${REPLAY_PROVIDERS.join(', ')}`);
+      return;
+    }
+
+    const { PendingMessageStore } = require('../../../sqlite/PendingMessageStore.js');
+    const pendingStore = new PendingMessageStore(this.dbManager.getSessionStore().db, 3);
+
+    const { replayed, sessionDbIds } = pendingStore.replayFailed(ids ?? null, provider ?? null);
+    this.workerService.resumeSessionQueues(sessionDbIds);
+
+    logger.info('QUEUE', 'Replayed failed queue messages', { replayed, provider: provider ?? 'routed' });
+
+    res.json({
+      success: true,
+      replayed,
+      sessionDbIds
+    });
+  });
+
+  /**
+   * Retry a single pending, processing or failed message
+   * POST /api/pending-queue/:id/retry
+   */
+  private handleRetryQueueMessage = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const { PendingMessageStore } = require('../../../sqlite/PendingMessageStore.js');
+    const pendingStore = new PendingMessageStore(this.dbManager.getSessionStore().db, 3);
+
+    const info = pendingStore.getSessionInfoForMessage(id);
+    if (!info || !pendingStore.retryMessage(id)) {
+      this.notFound(res, `Queue message #${id} not found`);
+      return;
+    }
+
+    this.workerService.resumeSessionQueues([info.sessionDbId]);
+
+    logger.info('QUEUE', 'Retried queue message', { messageId: id, sessionId: info.sessionDbId });
+
+    res.json({ success: true, id });
+  });
+
+  /**
+   * Edit the payload of a pending or failed message
+   * PATCH /api/pending-queue/:id
+   * Body: { tool_input?, tool_response?, last_assistant_message? }
+   */
+  private handleUpdateQueueMessage = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const { tool_input, tool_response, last_assistant_message } = req.body ?? {};
+    if (last_assistant_message !== undefined && last_assistant_message !== null && typeof last_assistant_message !== 'string') {
+      this.badRequest(res, 'last_assistant_message must be a string');
+      return;
+    }
+
+    const { PendingMessageStore } = require('../../../sqlite/PendingMessageStore.js');
+    const pendingStore = new PendingMessageStore(this.dbManager.getSessionStore().db, 3);
+
+    const updated = pendingStore.updateMessagePayload(id, { tool_input, tool_response, last_assistant_message });
+    if (!updated) {
+      this.notFound(res, `Queue message #${id} not found or being processed`);
+      return;
+    }
+
+    logger.info('QUEUE', 'Edited queue message payload', { messageId: id });
+
+    res.json({ success: true, message: pendingStore.getMessage(id) });
+  });
+
+  /**
+   * Discard a single message from the queue
+   * DELETE /api/pending-queue/:id
+   */
+  private handleDiscardQueueMessage = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const { PendingMessageStore } = require('../../../sqlite/PendingMessageStore.js');
+    const pendingStore = new PendingMessageStore(this.dbManager.getSessionStore().db, 3);
+
+    if (!pendingStore.abortMessage(id)) {
+      this.notFound(res, `Queue message #${id} not found`);
+      return;
+    }
+
+    logger.info('QUEUE', 'Discarded queue message', { messageId: id });
+    this.workerService.broadcastProcessingStatus();
+
+    res.json({ success: true, id });
+  });
 }
@@ -0,0 +1,63 @@
+/**
+ * Digest Routes
+ *
+ * Read access to consolidated digests of older observations and the observations
+ * each digest was written from (see DigestConsolidator).
+ */
+
+import express, { Request, Response } from 'express';
+import { logger } from '../../../../utils/logger.js';
+import { BaseRouteHandler } from '../BaseRouteHandler.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+import { DIGEST_CONTEXT_LIMIT } from '../../../sqlite/digests/types.js';
+
+const MAX_DIGEST_LIST_LIMIT = 100;
+
+export class DigestRoutes extends BaseRouteHandler {
+  constructor(
+    private dbManager: DatabaseManager
+  ) {
+    super();
+  }
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/digests', this.handleListDigests.bind(this));
+    app.get('/api/digests/:id', this.handleGetDigestById.bind(this));
+  }
+
+  /**
+   * Most recent digests of a project
+   * GET /api/digests?project=my-project&limit=5
+   */
+  private handleListDigests = this.wrapHandler((req: Request, res: Response): void => {
+    const project = req.query.project;
+    if (typeof project !== 'string' || !project.trim()) {
+      this.badRequest(res, 'project is required');
+      return;
+    }
+
+    const requested = req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : DIGEST_CONTEXT_LIMIT;
+    const limit = Number.isFinite(requested) ? Math.min(Math.max(requested, 1), MAX_DIGEST_LIST_LIMIT) : DIGEST_CONTEXT_LIMIT;
+
+    const digests = this.dbManager.getSessionStore().getDigestsByProjects([project], limit);
+    logger.debug('HTTP', 'Listed digests', { project, count: digests.length });
+    res.json({ project, digests });
+  });
+
+  /**
+   * Digest with the IDs of its source observations
+   * GET /api/digests/:id
+   */
+  private handleGetDigestById = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    const digest = this.dbManager.getSessionStore().getDigestById(id);
+    if (!digest) {
+      this.notFound(res, `Digest #${id} not found`);
+      return;
+    }
+
+    res.json(digest);
+  });
+}
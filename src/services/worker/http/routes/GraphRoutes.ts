@@ -0,0 +1,100 @@
+/**
+ * Graph Routes
+ *
+ * Knowledge graph queries over observations, the files they touched and their concepts.
+ * All endpoints accept `project`, `depth` (1-3) and `limit` query params where relevant.
+ */
+
+import express, { Request, Response } from 'express';
+import { logger } from '../../../../utils/logger.js';
+import { BaseRouteHandler } from '../BaseRouteHandler.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+import { parseGraphNodeId } from '../../../sqlite/graph/queries.js';
+import type { GraphQueryOptions } from '../../../sqlite/graph/types.js';
+
+export class GraphRoutes extends BaseRouteHandler {
+  constructor(
+    private dbManager: DatabaseManager
+  ) {
+    super();
+  }
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/graph/co-changes', this.handleCoChanges.bind(this));
+    app.get('/api/graph/concepts', this.handleFolderConcepts.bind(this));
+    app.get('/api/graph/decisions', this.handleFileDecisions.bind(this));
+    app.get('/api/graph/neighbors', this.handleNeighbors.bind(this));
+  }
+
+  private parseOptions(req: Request): GraphQueryOptions {
+    return {
+      project: typeof req.query.project === 'string' ? req.query.project : undefined,
+      depth: req.query.depth !== undefined ? parseInt(String(req.query.depth), 10) : undefined,
+      limit: req.query.limit !== undefined ? parseInt(String(req.query.limit), 10) : undefined
+    };
+  }
+
+  /**
+   * Files changed in the same sessions as a file
+   * GET /api/graph/co-changes?file=src/index.ts&depth=1&limit=20&project=...
+   */
+  private handleCoChanges = this.wrapHandler((req: Request, res: Response): void => {
+    const file = req.query.file;
+    if (typeof file !== 'string' || !file.trim()) {
+      this.badRequest(res, 'file is required');
+      return;
+    }
+
+    const files = this.dbManager.getSessionStore().findCoChangedFiles(file, this.parseOptions(req));
+    res.json({ file, files });
+  });
+
+  /**
+   * Concepts clustered around a folder
+   * GET /api/graph/concepts?folder=src/services&limit=20&project=...
+   */
+  private handleFolderConcepts = this.wrapHandler((req: Request, res: Response): void => {
+    const folder = typeof req.query.folder === 'string' ? req.query.folder : '';
+
+    const concepts = this.dbManager.getSessionStore().findFolderConcepts(folder, this.parseOptions(req));
+    res.json({ folder, concepts });
+  });
+
+  /**
+   * Decisions that affected a file
+   * GET /api/graph/decisions?file=src/index.ts&depth=1&limit=20&types=decision,architecture&project=...
+   */
+  private handleFileDecisions = this.wrapHandler((req: Request, res: Response): void => {
+    const file = req.query.file;
+    if (typeof file !== 'string' || !file.trim()) {
+      this.badRequest(res, 'file is required');
+      return;
+    }
+
+    const types = typeof req.query.types === 'string'
+      ? req.query.types.split(',').map(type => type.trim()).filter(Boolean)
+      : undefined;
+
+    const decisions = this.dbManager.getSessionStore().findFileDecisions(file, { ...this.parseOptions(req), types });
+    res.json({ file, decisions });
+  });
+
+  /**
+   * Nodes and edges within `depth` hops of a node
+   * GET /api/graph/neighbors?node=file:src/index.ts&depth=2&limit=50&project=...
+   * Node IDs: file:<path>, concept:<name>, observation:<id>
+   */
+  private handleNeighbors = this.wrapHandler((req: Request, res: Response): void => {
+    const node = typeof req.query.node === 'string' ? parseGraphNodeId(req.query.node) : null;
+    if (!node) {
+      this.badRequest(res, 'node must be file:<path>, concept:<name> or observation:<id>');
+      return;
+    }
+
+    const neighborhood = this.dbManager.getSessionStore().getGraphNeighborhood(node, this.parseOptions(req));
+    if (neighborhood.truncated) {
+      logger.debug('HTTP', 'Graph neighborhood truncated at node limit', { root: neighborhood.root, nodes: neighborhood.nodes.length });
+    }
+    res.json(neighborhood);
+  });
+}
@@ -1,24 +1,25 @@
 /**
  * Logs Routes
  *
- * Handles fetching and clearing log files from ~/.claude-mem/logs/
+ * Handles querying and clearing log files from ~/.claude-mem/logs/
  */
 
 import express, { Request, Response } from 'express';
-import { readFileSync, existsSync, writeFileSync, readdirSync } from 'fs';
+import { existsSync, writeFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { logger } from '../../../../utils/logger.js';
+import { logFileName, todayLogDate } from '../../../../utils/log-files.js';
+import {
+  queryLogs,
+  listLogDates,
+  listLogFiles,
+  isLogDate,
+  DEFAULT_LOG_QUERY_LIMIT
+} from '../../../../utils/log-query.js';
 import { SettingsDefaultsManager } from '../../../../shared/SettingsDefaultsManager.js';
 import { BaseRouteHandler } from '../BaseRouteHandler.js';
 
 export class LogsRoutes extends BaseRouteHandler {
-  private getLogFilePath(): string {
-    const dataDir = SettingsDefaultsManager.get('CLAUDE_MEM_DATA_DIR');
-    const logsDir = join(dataDir, 'logs');
-    const date = new Date().toISOString().split('T')[0];
-    return join(logsDir, `claude-mem-${date}.log`);
-  }
-
   private getLogsDir(): string {
     const dataDir = SettingsDefaultsManager.get('CLAUDE_MEM_DATA_DIR');
     return join(dataDir, 'logs');
@@ -26,54 +27,73 @@ export class LogsRoutes extends BaseRouteHandler {
 
   setupRoutes(app: express.Application): void {
     app.get('/api/logs', this.handleGetLogs.bind(this));
+    app.get('/api/logs/dates', this.handleGetLogDates.bind(this));
     app.post('/api/logs/clear', this.handleClearLogs.bind(this));
   }
 
   /**
    * GET /api/logs
-   * Returns the current day's log file contents
+   * Returns the newest log entries matching the filters (default: today's entries)
    * Query params:
-   *  - lines: number of lines to return (default: 1000, max: 10000)
+   *  - lines: number of entries to return (default: 1000, max: 10000)
+   *  - level: comma-separated levels (DEBUG,INFO,WARN,ERROR)
+   *  - component: comma-separated components (e.g. QUEUE,SDK)
+   *  - session: sessionDbId, memorySessionId or correlation ID
+   *  - from, to: date range (YYYY-MM-DD, default: today)
+   *  - q: case-insensitive text match
    */
   private handleGetLogs = this.wrapHandler((req: Request, res: Response): void => {
-    const logFilePath = this.getLogFilePath();
-
-    if (!existsSync(logFilePath)) {
-      res.json({
-        logs: '',
-        path: logFilePath,
-        exists: false
-      });
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    if ((from && !isLogDate(from)) || (to && !isLogDate(to))) {
+      this.badRequest(res, 'from and to must be dates in YYYY-MM-DD format');
       return;
     }
 
-    const requestedLines = parseInt(req.query.lines as string || '1000', 10);
-    const maxLines = Math.min(requestedLines, 10000); // Cap at 10k lines
-
-    const content = readFileSync(logFilePath, 'utf-8');
-    const lines = content.split('\n');
+    const logsDir = this.getLogsDir();
+    const requestedLines = parseInt(req.query.lines as string, 10);
+    const result = queryLogs(logsDir, {
+      levels: parseList(req.query.level),
+      components: parseList(req.query.component),
+      sessionId: req.query.session as string | undefined,
+      from,
+      to,
+      text: req.query.q as string | undefined,
+      limit: Number.isFinite(requestedLines) ? requestedLines : DEFAULT_LOG_QUERY_LIMIT
+    });
 
-    // Return the last N lines
-    const startIndex = Math.max(0, lines.length - maxLines);
-    const recentLines = lines.slice(startIndex).join('\n');
+    const logFilePath = join(logsDir, logFileName(result.to));
 
     res.json({
-      logs: recentLines,
+      logs: result.entries.map(entry => entry.raw).join('\n'),
+      entries: result.entries,
       path: logFilePath,
-      exists: true,
-      totalLines: lines.length,
-      returnedLines: lines.length - startIndex
+      exists: existsSync(logFilePath),
+      from: result.from,
+      to: result.to,
+      returnedLines: result.entries.length,
+      truncated: result.truncated
     });
   });
 
+  /**
+   * GET /api/logs/dates
+   * Lists the days that have log files, newest first
+   */
+  private handleGetLogDates = this.wrapHandler((req: Request, res: Response): void => {
+    res.json({ dates: listLogDates(this.getLogsDir()), today: todayLogDate() });
+  });
+
   /**
    * POST /api/logs/clear
-   * Clears the current day's log file
+   * Clears the current day's log file and deletes its rotated segments
    */
   private handleClearLogs = this.wrapHandler((req: Request, res: Response): void => {
-    const logFilePath = this.getLogFilePath();
+    const logsDir = this.getLogsDir();
+    const logFilePath = join(logsDir, logFileName(todayLogDate()));
+    const files = listLogFiles(logsDir, todayLogDate());
 
-    if (!existsSync(logFilePath)) {
+    if (files.length === 0) {
       res.json({
         success: true,
         message: 'Log file does not exist',
@@ -82,10 +102,16 @@ export class LogsRoutes extends BaseRouteHandler {
       return;
     }
 
-    // Clear the log file by writing empty string
-    writeFileSync(logFilePath, '', 'utf-8');
+    for (const file of files) {
+      if (file === logFilePath) {
+        // Clear the current file by writing empty string (the logger keeps appending to it)
+        writeFileSync(file, '', 'utf-8');
+      } else {
+        unlinkSync(file);
+      }
+    }
 
-    logger.info('SYSTEM', 'Log file cleared via UI', { path: logFilePath });
+    logger.info('SYSTEM', 'Log file cleared via UI', { path: logFilePath, segments: files.length - 1 });
 
     res.json({
       success: true,
@@ -94,3 +120,8 @@ export class LogsRoutes extends BaseRouteHandler {
     });
   });
 }
+
+function parseList(value: unknown): string[] | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
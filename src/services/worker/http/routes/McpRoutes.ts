@@ -0,0 +1,221 @@
+/**
+ * MCP Routes
+ *
+ * Serves the MCP protocol on /mcp with the SDK's streamable HTTP transport, so editors and
+ * remote agents can connect to the worker without spawning mcp-server.cjs. Each client gets a
+ * session (Mcp-Session-Id header) with its own server built from mcp-memory-server.ts; tool calls
+ * go back through the worker's HTTP API with the caller's token, so the usual scopes apply.
+ *
+ * POST /mcp    - JSON-RPC requests (an initialize request without a session ID opens a session)
+ * GET /mcp     - server-to-client event stream for a session
+ * DELETE /mcp  - close a session
+ *
+ * Pass ?project=<name> on the initialize request to set the default project for tools and prompts.
+ */
+
+import express, { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import type { Server as McpServer } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../../../utils/logger.js';
+import { BaseRouteHandler } from '../BaseRouteHandler.js';
+import { createMemoryMcpServer } from '../../../../servers/mcp-memory-server.js';
+import { AuthContext, AuthMode, extractToken, hasScope } from '../auth.js';
+
+// Sessions idle longer than this are closed (clients re-initialize transparently)
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_SESSIONS = 100;
+
+const SESSION_HEADER = 'mcp-session-id';
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Token that opened the session; later requests must present the same one */
+  tokenId: string | null;
+  lastSeenAt: number;
+}
+
+export class McpRoutes extends BaseRouteHandler {
+  private sessions = new Map<string, McpSession>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private mode: AuthMode,
+    private getWorkerBaseUrl: () => string
+  ) {
+    super();
+  }
+
+  setupRoutes(app: express.Application): void {
+    app.post('/mcp', this.handlePost.bind(this));
+    app.get('/mcp', this.handleSessionRequest.bind(this));
+    app.delete('/mcp', this.handleSessionRequest.bind(this));
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), SESSION_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Number of open MCP sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close every session (worker shutdown)
+   */
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.server.close().catch(() => {})));
+  }
+
+  /**
+   * JSON-RPC messages; opens a session for initialize requests
+   * POST /mcp
+   */
+  private handlePost = this.wrapHandler(async (req: Request, res: Response): Promise<void> => {
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+
+    if (sessionId) {
+      const session = this.getSession(sessionId, res);
+      if (!session) return;
+      await session.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (!isInitializeRequest(req.body)) {
+      this.rpcError(res, 400, 'No MCP session: send an initialize request first');
+      return;
+    }
+
+    if (this.sessions.size >= MAX_SESSIONS) {
+      this.closeLeastRecentSession();
+    }
+
+    const session = await this.openSession(req, res);
+    await session.transport.handleRequest(req, res, req.body);
+  });
+
+  /**
+   * Event stream and session close
+   * GET /mcp, DELETE /mcp
+   */
+  private handleSessionRequest = this.wrapHandler(async (req: Request, res: Response): Promise<void> => {
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+    if (!sessionId) {
+      this.rpcError(res, 400, 'Missing Mcp-Session-Id header');
+      return;
+    }
+
+    const session = this.getSession(sessionId, res);
+    if (!session) return;
+    await session.transport.handleRequest(req, res);
+  });
+
+  /**
+   * Build a server for a new client, scoped to the caller's token
+   */
+  private async openSession(req: Request, res: Response): Promise<McpSession> {
+    const auth = res.locals.auth as AuthContext | undefined;
+    const token = extractToken(req);
+    const readOnly = this.mode === 'remote' && !auth?.local && !hasScope(auth?.scopes ?? [], 'write');
+    const project = typeof req.query.project === 'string' && req.query.project.trim() ? req.query.project.trim() : null;
+
+    const server = createMemoryMcpServer({
+      workerBaseUrl: this.getWorkerBaseUrl(),
+      workerHeaders: token ? { Authorization: `Bearer ${token}` } : {},
+      defaultProject: project,
+      readOnly
+    });
+
+    const session: McpSession = {
+      transport: new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          this.sessions.set(id, session);
+          logger.info('HTTP', 'MCP session opened', { mcpSessionId: id, project, readOnly, tokenId: auth?.tokenId ?? null });
+        }
+      }),
+      server,
+      tokenId: auth?.tokenId ?? null,
+      lastSeenAt: Date.now()
+    };
+
+    session.transport.onclose = () => {
+      const id = session.transport.sessionId;
+      if (id && this.sessions.delete(id)) {
+        logger.info('HTTP', 'MCP session closed', { mcpSessionId: id });
+      }
+    };
+
+    await server.connect(session.transport);
+    return session;
+  }
+
+  /**
+   * Look up a session for a request, rejecting unknown IDs and token mismatches
+   */
+  private getSession(sessionId: string, res: Response): McpSession | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.rpcError(res, 404, 'MCP session not found');
+      return null;
+    }
+
+    const auth = res.locals.auth as AuthContext | undefined;
+    if (session.tokenId && !auth?.local && auth?.tokenId !== session.tokenId) {
+      logger.warn('HTTP', 'MCP session used with a different token', { mcpSessionId: sessionId });
+      this.rpcError(res, 403, 'MCP session belongs to a different token');
+      return null;
+    }
+
+    session.lastSeenAt = Date.now();
+    return session;
+  }
+
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const [id, session] of this.sessions) {
+      if (session.lastSeenAt < cutoff) {
+        this.closeSession(id, session, 'idle');
+      }
+    }
+  }
+
+  private closeLeastRecentSession(): void {
+    let oldest: [string, McpSession] | null = null;
+    for (const entry of this.sessions) {
+      if (!oldest || entry[1].lastSeenAt < oldest[1].lastSeenAt) {
+        oldest = entry;
+      }
+    }
+    if (oldest) {
+      this.closeSession(oldest[0], oldest[1], 'session limit reached');
+    }
+  }
+
+  private closeSession(id: string, session: McpSession, reason: string): void {
+    this.sessions.delete(id);
+    logger.info('HTTP', 'Closing MCP session', { mcpSessionId: id, reason });
+    session.server.close().catch(error => {
+      logger.debug('HTTP', 'MCP session close failed', { mcpSessionId: id }, error as Error);
+    });
+  }
+
+  private rpcError(res: Response, status: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null
+    });
+  }
+}
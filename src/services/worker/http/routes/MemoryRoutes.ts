@@ -0,0 +1,196 @@
+/**
+ * Memory Routes
+ *
+ * Explicit memory writes from inside a session (MCP remember / forget / annotate tools):
+ * user-authored observations, soft deletes with a reason, and annotations on existing observations.
+ */
+
+import express, { Request, Response } from 'express';
+import { logger } from '../../../../utils/logger.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+import { SSEBroadcaster } from '../../SSEBroadcaster.js';
+import { BaseRouteHandler } from '../BaseRouteHandler.js';
+import { ModeManager } from '../../../domain/ModeManager.js';
+
+const DEFAULT_MEMORY_TYPE = 'discovery';
+const DEFAULT_AUTHOR = 'mcp';
+
+export class MemoryRoutes extends BaseRouteHandler {
+  constructor(
+    private dbManager: DatabaseManager,
+    private sseBroadcaster: SSEBroadcaster
+  ) {
+    super();
+  }
+
+  setupRoutes(app: express.Application): void {
+    app.post('/api/memories', this.handleRemember.bind(this));
+    app.post('/api/observation/:id/forget', this.handleForget.bind(this));
+    app.get('/api/observation/:id/annotations', this.handleGetAnnotations.bind(this));
+    app.post('/api/observation/:id/annotations', this.handleAnnotate.bind(this));
+  }
+
+  /**
+   * Store an explicit memory
+   * POST /api/memories
+   * Body: { project, title, narrative?, type?, subtitle?, facts?, concepts?, files? }
+   */
+  private handleRemember = this.wrapHandler((req: Request, res: Response): void => {
+    if (!this.validateRequired(req, res, ['project', 'title'])) return;
+
+    const body = req.body;
+    const type = body.type ?? DEFAULT_MEMORY_TYPE;
+    if (typeof type !== 'string' || !ModeManager.getInstance().validateType(type)) {
+      this.badRequest(res, `Invalid observation type: ${type}`);
+      return;
+    }
+    for (const field of ['project', 'title', 'narrative', 'subtitle'] as const) {
+      if (body[field] !== undefined && body[field] !== null && typeof body[field] !== 'string') {
+        this.badRequest(res, `${field} must be a string`);
+        return;
+      }
+    }
+    for (const field of ['facts', 'concepts', 'files'] as const) {
+      if (body[field] !== undefined && !isStringArray(body[field])) {
+        this.badRequest(res, `${field} must be an array of strings`);
+        return;
+      }
+    }
+
+    const project = body.project.trim();
+    const title = body.title.trim();
+    if (!project || !title) {
+      this.badRequest(res, 'project and title must be non-empty');
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const { id } = store.storeUserMemory(project, {
+      type,
+      title,
+      subtitle: body.subtitle ?? null,
+      narrative: body.narrative ?? null,
+      facts: body.facts ?? [],
+      concepts: body.concepts ?? [],
+      files_read: body.files ?? [],
+      files_modified: []
+    });
+    const observation = store.getObservationById(id)!;
+
+    this.dbManager.getChromaSync().resyncObservation(observation).catch(error => {
+      logger.error('CHROMA', 'Explicit memory sync failed, continuing without vector search', { obsId: id }, error as Error);
+    });
+
+    logger.info('DB', 'Explicit memory stored', { obsId: id, project, type });
+
+    this.sseBroadcaster.broadcast({
+      type: 'new_observation',
+      observation: {
+        id,
+        memory_session_id: observation.memory_session_id,
+        session_id: observation.memory_session_id,
+        type: observation.type,
+        title: observation.title ?? null,
+        subtitle: observation.subtitle ?? null,
+        text: null,
+        narrative: observation.narrative ?? null,
+        facts: observation.facts ?? '[]',
+        concepts: observation.concepts ?? '[]',
+        files_read: observation.files_read ?? '[]',
+        files_modified: observation.files_modified ?? '[]',
+        project,
+        prompt_number: observation.prompt_number ?? 0,
+        origin: 'user',
+        created_at_epoch: observation.created_at_epoch
+      }
+    });
+    res.json(observation);
+  });
+
+  /**
+   * Forget an observation (kept with its annotations, but left out of search and context)
+   * POST /api/observation/:id/forget
+   * Body: { reason, changedBy? }
+   */
+  private handleForget = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+    if (!this.validateRequired(req, res, ['reason'])) return;
+
+    const reason = req.body.reason;
+    if (typeof reason !== 'string' || !reason.trim()) {
+      this.badRequest(res, 'reason must be a non-empty string');
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const forgotten = store.forgetObservation(id, parseAuthor(req.body.changedBy), reason.trim());
+
+    if (!forgotten) {
+      this.notFound(res, `Observation #${id} not found`);
+      return;
+    }
+
+    // Drop its vectors; results that still carry the ID are filtered out on hydration
+    this.dbManager.getChromaSync().deleteObservation(id).catch(error => {
+      logger.error('CHROMA', 'Observation vector delete failed, search may return a stale ID', { obsId: id }, error as Error);
+    });
+
+    logger.info('DB', 'Observation forgotten', { obsId: id, project: forgotten.project, reason: reason.trim() });
+
+    this.sseBroadcaster.broadcast({ type: 'observation_deleted', id });
+    res.json({ success: true, id });
+  });
+
+  /**
+   * List annotations on an observation
+   * GET /api/observation/:id/annotations
+   */
+  private handleGetAnnotations = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+
+    res.json({ annotations: this.dbManager.getSessionStore().getAnnotations(id) });
+  });
+
+  /**
+   * Attach a note to an observation
+   * POST /api/observation/:id/annotations
+   * Body: { note, author? }
+   */
+  private handleAnnotate = this.wrapHandler((req: Request, res: Response): void => {
+    const id = this.parseIntParam(req, res, 'id');
+    if (id === null) return;
+    if (!this.validateRequired(req, res, ['note'])) return;
+
+    const note = req.body.note;
+    if (typeof note !== 'string' || !note.trim()) {
+      this.badRequest(res, 'note must be a non-empty string');
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const annotation = store.addAnnotation(id, note.trim(), parseAuthor(req.body.author));
+
+    if (!annotation) {
+      this.notFound(res, `Observation #${id} not found`);
+      return;
+    }
+
+    const observation = store.getObservationById(id)!;
+    this.dbManager.getChromaSync().syncAnnotation(observation, annotation).catch(error => {
+      logger.error('CHROMA', 'Annotation sync failed, vector search will miss it', { obsId: id, annotationId: annotation.id }, error as Error);
+    });
+
+    logger.info('DB', 'Observation annotated', { obsId: id, annotationId: annotation.id });
+    res.json(annotation);
+  });
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function parseAuthor(value: unknown): string {
+  return typeof value === 'string' && value.trim() ? value.trim() : DEFAULT_AUTHOR;
+}
@@ -7,12 +7,18 @@
 
 import express, { Request, Response } from 'express';
 import { SearchManager } from '../../SearchManager.js';
+import { FileContextService } from '../../FileContextService.js';
+import { PromptContextService } from '../../PromptContextService.js';
 import { BaseRouteHandler } from '../BaseRouteHandler.js';
 import { logger } from '../../../../utils/logger.js';
+import { SettingsDefaultsManager } from '../../../../shared/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../../../shared/paths.js';
 
 export class SearchRoutes extends BaseRouteHandler {
   constructor(
-    private searchManager: SearchManager
+    private searchManager: SearchManager,
+    private fileContextService: FileContextService,
+    private promptContextService: PromptContextService
   ) {
     super();
   }
@@ -38,6 +44,9 @@ export class SearchRoutes extends BaseRouteHandler {
     app.get('/api/context/timeline', this.handleGetContextTimeline.bind(this));
     app.get('/api/context/preview', this.handleContextPreview.bind(this));
     app.get('/api/context/inject', this.handleContextInject.bind(this));
+    app.get('/api/context/file', this.handleFileContext.bind(this));
+    app.post('/api/context/prompt', this.handlePromptContext.bind(this));
+    app.get('/api/context/prompt/injections', this.handlePromptContextInjections.bind(this));
 
     // Timeline and help endpoints
     app.get('/api/timeline/by-query', this.handleGetTimelineByQuery.bind(this));
@@ -163,10 +172,15 @@ export class SearchRoutes extends BaseRouteHandler {
 
   /**
    * Generate context preview for settings modal
-   * GET /api/context/preview?project=...
+   * GET /api/context/preview?project=...&scores=true
+   *
+   * Returns plain text by default. With scores=true, returns JSON
+   * { context, scores } where scores lists the relevance score and its
+   * components for every injected observation (highest first).
    */
   private handleContextPreview = this.wrapHandler(async (req: Request, res: Response): Promise<void> => {
     const projectName = req.query.project as string;
+    const includeScores = req.query.scores === 'true';
 
     if (!projectName) {
       this.badRequest(res, 'Project parameter is required');
@@ -174,20 +188,25 @@ export class SearchRoutes extends BaseRouteHandler {
     }
 
     // Import context generator (runs in worker, has access to database)
-    const { generateContext } = await import('../../../context-generator.js');
+    const { generateContextWithScores } = await import('../../../context-generator.js');
 
     // Use project name as CWD (generateContext uses path.basename to get project)
     const cwd = `/preview/${projectName}`;
 
     // Generate context with colors for terminal display
-    const contextText = await generateContext(
+    const { context: contextText, scores } = await generateContextWithScores(
       {
         session_id: 'preview-' + Date.now(),
         cwd: cwd
       },
-      true  // useColors=true for ANSI terminal output
+      !includeScores  // ANSI colors for terminal display, plain text inside JSON
     );
 
+    if (includeScores) {
+      res.json({ context: contextText, scores });
+      return;
+    }
+
     // Return as plain text
     res.setHeader('Content-Type', 'text/plain; charset=utf-8');
     res.send(contextText);
@@ -244,6 +263,91 @@ export class SearchRoutes extends BaseRouteHandler {
     res.send(contextText);
   });
 
+  /**
+   * Memories about a file for the PreToolUse hook
+   * GET /api/context/file?filePath=...&projects=...&contentSessionId=...
+   *
+   * Returns JSON { context, observationIds }. Observations already returned for the same
+   * contentSessionId are skipped, and the context stays under CLAUDE_MEM_FILE_CONTEXT_MAX_TOKENS.
+   */
+  private handleFileContext = this.wrapHandler((req: Request, res: Response): void => {
+    const filePath = req.query.filePath as string;
+    const projectsParam = (req.query.projects as string) || (req.query.project as string);
+
+    if (!filePath || !projectsParam) {
+      this.badRequest(res, 'filePath and projects parameters are required');
+      return;
+    }
+
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+    if (settings.CLAUDE_MEM_FILE_CONTEXT_ENABLED === 'false') {
+      res.json({ context: '', observationIds: [] });
+      return;
+    }
+
+    const result = this.fileContextService.getFileContext({
+      filePath,
+      projects: projectsParam.split(',').map(p => p.trim()).filter(Boolean),
+      contentSessionId: typeof req.query.contentSessionId === 'string' ? req.query.contentSessionId : undefined,
+      maxTokens: parseInt(settings.CLAUDE_MEM_FILE_CONTEXT_MAX_TOKENS, 10) || 300
+    });
+
+    res.json(result);
+  });
+
+  /**
+   * Prompt-time retrieval for the UserPromptSubmit hook
+   * POST /api/context/prompt
+   * Body: { contentSessionId, promptNumber, prompt, projects: string[] }
+   *
+   * Returns JSON { context, injections }: the observations most similar to the prompt that clear
+   * CLAUDE_MEM_PROMPT_CONTEXT_MIN_SIMILARITY and weren't injected earlier in the session.
+   * Empty when CLAUDE_MEM_PROMPT_CONTEXT_ENABLED is false or vector search is unavailable.
+   */
+  private handlePromptContext = this.wrapHandler(async (req: Request, res: Response): Promise<void> => {
+    if (!this.validateRequired(req, res, ['contentSessionId', 'promptNumber', 'prompt', 'projects'])) {
+      return;
+    }
+
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+    if (settings.CLAUDE_MEM_PROMPT_CONTEXT_ENABLED !== 'true') {
+      res.json({ context: '', injections: [] });
+      return;
+    }
+
+    const { contentSessionId, promptNumber, prompt, projects } = req.body;
+    try {
+      const result = await this.promptContextService.getPromptContext({
+        contentSessionId,
+        promptNumber: Number(promptNumber),
+        prompt,
+        projects: (Array.isArray(projects) ? projects : String(projects).split(',')).map((p: string) => p.trim()).filter(Boolean),
+        topK: parseInt(settings.CLAUDE_MEM_PROMPT_CONTEXT_TOP_K, 10) || 3,
+        minSimilarity: parseFloat(settings.CLAUDE_MEM_PROMPT_CONTEXT_MIN_SIMILARITY) || 0,
+        maxTokens: parseInt(settings.CLAUDE_MEM_PROMPT_CONTEXT_MAX_TOKENS, 10) || 400
+      });
+      res.json(result);
+    } catch (error) {
+      // A missing vector backend shouldn't fail the user's prompt
+      logger.warn('CHROMA', 'Prompt-time retrieval failed, no context injected', { contentSessionId }, error as Error);
+      res.json({ context: '', injections: [] });
+    }
+  });
+
+  /**
+   * What prompt-time retrieval injected in a session
+   * GET /api/context/prompt/injections?contentSessionId=...
+   */
+  private handlePromptContextInjections = this.wrapHandler((req: Request, res: Response): void => {
+    const contentSessionId = req.query.contentSessionId as string;
+    if (!contentSessionId) {
+      this.badRequest(res, 'contentSessionId parameter is required');
+      return;
+    }
+
+    res.json({ injections: this.promptContextService.getInjections(contentSessionId) });
+  });
+
   /**
    * Get timeline by query (search first, then get timeline around best match)
    * GET /api/timeline/by-query?query=...&mode=auto&depth_before=10&depth_after=10
@@ -14,13 +14,22 @@ import { DatabaseManager } from '../../DatabaseManager.js';
 import { SDKAgent } from '../../SDKAgent.js';
 import { GeminiAgent, isGeminiSelected, isGeminiAvailable } from '../../GeminiAgent.js';
 import { OpenRouterAgent, isOpenRouterSelected, isOpenRouterAvailable } from '../../OpenRouterAgent.js';
+import { OpenAICompatibleAgent, isOpenAICompatibleSelected, isOpenAICompatibleAvailable } from '../../OpenAICompatibleAgent.js';
+import { HeuristicAgent } from '../../HeuristicAgent.js';
 import type { WorkerService } from '../../../worker-service.js';
+import type { ExtractorName } from '../../../worker-types.js';
+import type { ProviderRouter } from '../../ProviderRouter.js';
 import { BaseRouteHandler } from '../BaseRouteHandler.js';
 import { SessionEventBroadcaster } from '../../events/SessionEventBroadcaster.js';
 import { SessionCompletionHandler } from '../../session/SessionCompletionHandler.js';
 import { PrivacyCheckValidator } from '../../validation/PrivacyCheckValidator.js';
 import { SettingsDefaultsManager } from '../../../../shared/SettingsDefaultsManager.js';
 import { USER_SETTINGS_PATH } from '../../../../shared/paths.js';
+import { loadQueuePolicy, admitObservation } from '../../../queue/QueuePolicy.js';
+import { metrics } from '../../../../utils/metrics.js';
+
+const generatorStarts = metrics.counter('claude_mem_generator_starts', 'Agent generators started for a session queue', ['provider']);
+const generatorFailures = metrics.counter('claude_mem_generator_failures', 'Agent generators that ended with an error', ['provider']);
 
 export class SessionRoutes extends BaseRouteHandler {
   private completionHandler: SessionCompletionHandler;
@@ -31,6 +40,9 @@ export class SessionRoutes extends BaseRouteHandler {
     private sdkAgent: SDKAgent,
     private geminiAgent: GeminiAgent,
     private openRouterAgent: OpenRouterAgent,
+    private openAICompatibleAgent: OpenAICompatibleAgent,
+    private heuristicAgent: HeuristicAgent,
+    private providerRouter: ProviderRouter,
     private eventBroadcaster: SessionEventBroadcaster,
     private workerService: WorkerService
   ) {
@@ -48,7 +60,15 @@ export class SessionRoutes extends BaseRouteHandler {
    * Note: Session linking via contentSessionId allows provider switching mid-session.
    * The conversationHistory on ActiveSession maintains context across providers.
    */
-  private getActiveAgent(): SDKAgent | GeminiAgent | OpenRouterAgent {
+  private getActiveAgent(): SDKAgent | GeminiAgent | OpenRouterAgent | OpenAICompatibleAgent {
+    if (isOpenAICompatibleSelected()) {
+      if (isOpenAICompatibleAvailable()) {
+        logger.debug('SESSION', 'Using OpenAI-compatible agent');
+        return this.openAICompatibleAgent;
+      } else {
+        throw new Error('OpenAI-compatible provider selected but no base URL configured. Set CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL in settings.');
+      }
+    }
     if (isOpenRouterSelected()) {
       if (isOpenRouterAvailable()) {
         logger.debug('SESSION', 'Using OpenRouter agent');
@@ -69,13 +89,12 @@ export class SessionRoutes extends BaseRouteHandler {
   }
 
   /**
-   * Get the currently selected provider name
+   * Provider for the session's next queued message (routing rules, budgets and extraction mode)
+   * @returns null while the queue is paused by an exhausted budget
    */
-  private getSelectedProvider(): 'claude' | 'gemini' | 'openrouter' {
-    if (isOpenRouterSelected() && isOpenRouterAvailable()) {
-      return 'openrouter';
-    }
-    return (isGeminiSelected() && isGeminiAvailable()) ? 'gemini' : 'claude';
+  private getSelectedProvider(sessionDbId: number): ExtractorName | null {
+    const next = this.sessionManager.getPendingMessageStore().peekNext(sessionDbId);
+    return this.providerRouter.selectProvider(next?.messageType ?? 'observation', Date.now(), next?.providerOverride);
   }
 
   /**
@@ -83,9 +102,10 @@ export class SessionRoutes extends BaseRouteHandler {
    * Auto-starts if not already running to process pending queue
    * Uses either Claude SDK or Gemini based on settings
    *
-   * Provider switching: If provider setting changed while generator is running,
-   * we let the current generator finish naturally (max 5s linger timeout).
-   * The next generator will use the new provider with shared conversationHistory.
+   * Provider switching: If the provider for the next message differs from the running
+   * generator's (setting changed, routing rule or budget), the message iterator ends that
+   * generator before claiming the message and it is restarted with the new provider
+   * with shared conversationHistory.
    *
    * Public for WorkerService recovery and health check access.
    */
@@ -93,17 +113,21 @@ export class SessionRoutes extends BaseRouteHandler {
     const session = this.sessionManager.getSession(sessionDbId);
     if (!session) return;
 
-    const selectedProvider = this.getSelectedProvider();
+    const selectedProvider = this.getSelectedProvider(sessionDbId);
 
     // Start generator if not running
     if (!session.generatorPromise) {
+      if (!selectedProvider) {
+        logger.debug('SESSION', 'Queue paused by budget, generator not started', { sessionId: sessionDbId, source });
+        return;
+      }
       this.startGeneratorWithProvider(session, selectedProvider, source);
       return;
     }
 
     // Generator is running - check if provider changed
     if (session.currentProvider && session.currentProvider !== selectedProvider) {
-      logger.info('SESSION', `Provider changed, will switch after current generator finishes`, {
+      logger.info('SESSION', `Provider changed, will switch before the next message`, {
         sessionId: sessionDbId,
         currentProvider: session.currentProvider,
         selectedProvider,
@@ -119,13 +143,19 @@ export class SessionRoutes extends BaseRouteHandler {
    */
   private startGeneratorWithProvider(
     session: ReturnType<typeof this.sessionManager.getSession>,
-    provider: 'claude' | 'gemini' | 'openrouter',
+    provider: ExtractorName,
     source: string
   ): void {
     if (!session) return;
 
-    const agent = provider === 'openrouter' ? this.openRouterAgent : (provider === 'gemini' ? this.geminiAgent : this.sdkAgent);
-    const agentName = provider === 'openrouter' ? 'OpenRouter' : (provider === 'gemini' ? 'Gemini' : 'Claude SDK');
+    const agents = {
+      'openai-compatible': { agent: this.openAICompatibleAgent, name: 'OpenAI-compatible' },
+      openrouter: { agent: this.openRouterAgent, name: 'OpenRouter' },
+      gemini: { agent: this.geminiAgent, name: 'Gemini' },
+      claude: { agent: this.sdkAgent, name: 'Claude SDK' },
+      heuristic: { agent: this.heuristicAgent, name: 'Heuristic extractor' }
+    };
+    const { agent, name: agentName } = agents[provider];
 
     logger.info('SESSION', `Generator auto-starting (${source}) using ${agentName}`, {
       sessionId: session.sessionDbId,
@@ -135,6 +165,7 @@ export class SessionRoutes extends BaseRouteHandler {
 
     // Track which provider is running
     session.currentProvider = provider;
+    generatorStarts.inc({ provider });
 
     session.generatorPromise = agent.startSession(session, this.workerService)
       .catch(error => {
@@ -146,11 +177,22 @@ export class SessionRoutes extends BaseRouteHandler {
           provider: provider,
           error: error.message
         }, error);
+        generatorFailures.inc({ provider });
+
+        // In 'hybrid' extraction mode the router skips this provider for a while
+        if (provider !== 'heuristic') {
+          this.providerRouter.reportProviderFailure(provider);
+        }
 
-        // Mark all processing messages as failed so they can be retried or abandoned
+        // Dead-letter the claimed messages and mark processing ones as failed so they
+        // can be retried, edited or discarded from the viewer's queue panel
         const pendingStore = this.sessionManager.getPendingMessageStore();
         try {
-          const failedCount = pendingStore.markSessionMessagesFailed(session.sessionDbId);
+          // Batched tool events are dead-lettered one by one
+          const inFlight = session.inFlightMessages.flatMap(m => [m, ...(m._coalesced ?? [])]);
+          session.inFlightMessages = [];
+          const failedCount = pendingStore.deadLetter(session.sessionDbId, session.contentSessionId, inFlight, error.message)
+            + pendingStore.markSessionMessagesFailed(session.sessionDbId, error.message);
           if (failedCount > 0) {
             logger.error('SESSION', `Marked messages as failed after generator error`, {
               sessionId: session.sessionDbId,
@@ -166,9 +208,13 @@ export class SessionRoutes extends BaseRouteHandler {
       .finally(() => {
         const sessionDbId = session.sessionDbId;
         const wasAborted = session.abortController.signal.aborted;
+        const isHandoff = session.providerHandoff && !wasAborted;
+        session.providerHandoff = false;
 
         if (wasAborted) {
           logger.info('SESSION', `Generator aborted`, { sessionId: sessionDbId });
+        } else if (isHandoff) {
+          logger.info('SESSION', `Generator ended for provider handoff`, { sessionId: sessionDbId, provider });
         } else {
           logger.error('SESSION', `Generator exited unexpectedly`, { sessionId: sessionDbId });
         }
@@ -177,6 +223,15 @@ export class SessionRoutes extends BaseRouteHandler {
         session.currentProvider = null;
         this.workerService.broadcastProcessingStatus();
 
+        // Provider handoff: restart right away with the provider routed for the next message
+        if (isHandoff) {
+          const oldController = session.abortController;
+          session.abortController = new AbortController();
+          oldController.abort();
+          this.ensureGeneratorRunning(sessionDbId, 'provider-routing');
+          return;
+        }
+
         // Crash recovery: If not aborted and still has work, restart
         if (!wasAborted) {
           try {
@@ -219,10 +274,7 @@ export class SessionRoutes extends BaseRouteHandler {
 
               // Small delay before restart
               setTimeout(() => {
-                const stillExists = this.sessionManager.getSession(sessionDbId);
-                if (stillExists && !stillExists.generatorPromise) {
-                  this.startGeneratorWithProvider(stillExists, this.getSelectedProvider(), 'crash-recovery');
-                }
+                this.ensureGeneratorRunning(sessionDbId, 'crash-recovery');
               }, 1000);
             } else {
               // No pending work - abort to kill the child process
@@ -317,7 +369,10 @@ export class SessionRoutes extends BaseRouteHandler {
     }
 
     // Start agent in background using the helper method
-    this.startGeneratorWithProvider(session, this.getSelectedProvider(), 'init');
+    const provider = this.getSelectedProvider(sessionDbId);
+    if (provider) {
+      this.startGeneratorWithProvider(session, provider, 'init');
+    }
 
     // Broadcast session started event
     this.eventBroadcaster.broadcastSessionStarted(sessionDbId, session.project);
@@ -424,10 +479,10 @@ export class SessionRoutes extends BaseRouteHandler {
   /**
    * Queue observations by contentSessionId (post-tool-use-hook uses this)
    * POST /api/sessions/observations
-   * Body: { contentSessionId, tool_name, tool_input, tool_response, cwd }
+   * Body: { contentSessionId, tool_name, tool_input, tool_response, cwd, redaction_count? }
    */
   private handleObservationsByClaudeId = this.wrapHandler((req: Request, res: Response): void => {
-    const { contentSessionId, tool_name, tool_input, tool_response, cwd } = req.body;
+    const { contentSessionId, tool_name, tool_input, tool_response, cwd, redaction_count } = req.body;
 
     if (!contentSessionId) {
       return this.badRequest(res, 'Missing contentSessionId');
@@ -478,6 +533,20 @@ export class SessionRoutes extends BaseRouteHandler {
       return;
     }
 
+    // Backpressure: drop or sample tool events while the queue is over CLAUDE_MEM_QUEUE_MAX_PENDING
+    const pendingCount = this.sessionManager.getPendingMessageStore().getTotalPendingCount();
+    const admission = admitObservation(loadQueuePolicy(settings), pendingCount);
+    if (!admission.admitted) {
+      logger.debug('QUEUE', 'Observation not queued, queue over capacity', {
+        sessionId: sessionDbId,
+        tool_name,
+        pendingCount,
+        reason: admission.reason
+      });
+      res.json({ status: 'skipped', reason: admission.reason });
+      return;
+    }
+
     // Strip memory tags from tool_input and tool_response
     const cleanedToolInput = tool_input !== undefined
       ? stripMemoryTagsFromJson(JSON.stringify(tool_input))
@@ -493,6 +562,7 @@ export class SessionRoutes extends BaseRouteHandler {
       tool_input: cleanedToolInput,
       tool_response: cleanedToolResponse,
       prompt_number: promptNumber,
+      redaction_count: typeof redaction_count === 'number' && redaction_count > 0 ? Math.floor(redaction_count) : 0,
       cwd: cwd || (() => {
         logger.error('SESSION', 'Missing cwd when queueing observation in SessionRoutes', {
           sessionId: sessionDbId,
@@ -18,6 +18,8 @@ import { BaseRouteHandler } from '../BaseRouteHandler.js';
 import { SettingsDefaultsManager } from '../../../../shared/SettingsDefaultsManager.js';
 import { clearPortCache } from '../../../../shared/worker-utils.js';
 
+const VALID_PROVIDERS = ['claude', 'gemini', 'openrouter', 'openai-compatible'];
+
 export class SettingsRoutes extends BaseRouteHandler {
   constructor(
     private settingsManager: SettingsManager
@@ -101,12 +103,39 @@ export class SettingsRoutes extends BaseRouteHandler {
       'CLAUDE_MEM_OPENROUTER_APP_NAME',
       'CLAUDE_MEM_OPENROUTER_MAX_CONTEXT_MESSAGES',
       'CLAUDE_MEM_OPENROUTER_MAX_TOKENS',
+      'CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL',
+      'CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL',
+      'CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY',
+      'CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES',
+      'CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_TOKENS',
+      'CLAUDE_MEM_OPENAI_COMPATIBLE_TIMEOUT_SECONDS',
       'CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK',
+      // Provider Routing & Budgets
+      'CLAUDE_MEM_ROUTING_OBSERVATION_PROVIDER',
+      'CLAUDE_MEM_ROUTING_SUMMARY_PROVIDER',
+      'CLAUDE_MEM_BUDGET_DAILY_USD',
+      'CLAUDE_MEM_BUDGET_MONTHLY_USD',
+      'CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION',
+      'CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER',
+      'CLAUDE_MEM_COST_PER_MTOK_CLAUDE',
+      'CLAUDE_MEM_COST_PER_MTOK_GEMINI',
+      'CLAUDE_MEM_COST_PER_MTOK_OPENROUTER',
+      'CLAUDE_MEM_COST_PER_MTOK_OPENAI_COMPATIBLE',
+      // Observation Extraction
+      'CLAUDE_MEM_EXTRACTION_MODE',
+      'CLAUDE_MEM_OUTPUT_FORMAT',
+      'CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS',
       // System Configuration
       'CLAUDE_MEM_DATA_DIR',
       'CLAUDE_MEM_LOG_LEVEL',
+      'CLAUDE_MEM_LOG_FORMAT',
+      'CLAUDE_MEM_LOG_MAX_SIZE_MB',
+      'CLAUDE_MEM_LOG_RETENTION_DAYS',
       'CLAUDE_MEM_PYTHON_VERSION',
       'CLAUDE_CODE_PATH',
+      // Vector Search
+      'CLAUDE_MEM_VECTOR_BACKEND',
+      'CLAUDE_MEM_EMBEDDING_MODEL',
       // Token Economics
       'CLAUDE_MEM_CONTEXT_SHOW_READ_TOKENS',
       'CLAUDE_MEM_CONTEXT_SHOW_WORK_TOKENS',
@@ -123,9 +152,61 @@ export class SettingsRoutes extends BaseRouteHandler {
       'CLAUDE_MEM_CONTEXT_SHOW_LAST_SUMMARY',
       'CLAUDE_MEM_CONTEXT_SHOW_LAST_MESSAGE',
       'CLAUDE_MEM_FOLDER_CLAUDEMD_ENABLED',
+      // Relevance Scoring
+      'CLAUDE_MEM_CONTEXT_RANKING',
+      'CLAUDE_MEM_CONTEXT_DECAY_HALF_LIFE_DAYS',
+      'CLAUDE_MEM_CONTEXT_WEIGHT_RECENCY',
+      'CLAUDE_MEM_CONTEXT_WEIGHT_RETRIEVAL',
+      'CLAUDE_MEM_CONTEXT_WEIGHT_TYPE',
+      'CLAUDE_MEM_CONTEXT_WEIGHT_FILES',
+      // Observation Quality
+      'CLAUDE_MEM_QUALITY_DUPLICATE_SIMILARITY',
+      'CLAUDE_MEM_CONTEXT_MIN_QUALITY',
+      // Queue Scheduling
+      'CLAUDE_MEM_QUEUE_SUMMARY_FIRST',
+      'CLAUDE_MEM_QUEUE_MAX_IN_FLIGHT',
+      'CLAUDE_MEM_QUEUE_COALESCE_TOOLS',
+      'CLAUDE_MEM_QUEUE_COALESCE_MAX',
+      'CLAUDE_MEM_QUEUE_MAX_PENDING',
+      'CLAUDE_MEM_QUEUE_OVERFLOW_ACTION',
+      'CLAUDE_MEM_QUEUE_SAMPLE_RATE',
+      // Team Sync
+      'CLAUDE_MEM_SYNC_SERVER_URL',
+      'CLAUDE_MEM_SYNC_TOKEN',
+      'CLAUDE_MEM_SYNC_AUTHOR',
+      'CLAUDE_MEM_SYNC_PROJECTS',
+      'CLAUDE_MEM_SYNC_INTERVAL_SECONDS',
+      'CLAUDE_MEM_CONTEXT_SHOW_TEAM_MEMORIES',
+      // Secret Redaction
+      'CLAUDE_MEM_REDACTION_ENABLED',
+      'CLAUDE_MEM_REDACTION_DISABLED_RULES',
+      'CLAUDE_MEM_REDACTION_CUSTOM_RULES',
+      'CLAUDE_MEM_REDACTION_ENTROPY_THRESHOLD',
+      // Digest Consolidation
+      'CLAUDE_MEM_CONSOLIDATION_ENABLED',
+      'CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS',
+      'CLAUDE_MEM_CONSOLIDATION_INTERVAL_MINUTES',
+      'CLAUDE_MEM_CONSOLIDATION_MIN_GROUP_SIZE',
+      'CLAUDE_MEM_CONSOLIDATION_MAX_DIGESTS_PER_RUN',
+      'CLAUDE_MEM_CONTEXT_PREFER_DIGESTS',
+      // File Memories (PreToolUse)
+      'CLAUDE_MEM_FILE_CONTEXT_ENABLED',
+      'CLAUDE_MEM_FILE_CONTEXT_MAX_TOKENS',
+      // Prompt-Time Retrieval (UserPromptSubmit)
+      'CLAUDE_MEM_PROMPT_CONTEXT_ENABLED',
+      'CLAUDE_MEM_PROMPT_CONTEXT_TOP_K',
+      'CLAUDE_MEM_PROMPT_CONTEXT_MIN_SIMILARITY',
+      'CLAUDE_MEM_PROMPT_CONTEXT_MAX_TOKENS',
       // Project Filtering
       'CLAUDE_MEM_IGNORED_PROJECTS',
       'CLAUDE_MEM_ALLOWED_PROJECTS_ONLY',
+      // Remote Access
+      'CLAUDE_MEM_AUTH_MODE',
+      'CLAUDE_MEM_CORS_ORIGINS',
+      'CLAUDE_MEM_TLS_ENABLED',
+      'CLAUDE_MEM_TLS_PORT',
+      'CLAUDE_MEM_TLS_CERT_PATH',
+      'CLAUDE_MEM_TLS_KEY_PATH',
     ];
 
     for (const key of settingKeys) {
@@ -238,9 +319,8 @@ export class SettingsRoutes extends BaseRouteHandler {
   private validateSettings(settings: any): { valid: boolean; error?: string } {
     // Validate CLAUDE_MEM_PROVIDER
     if (settings.CLAUDE_MEM_PROVIDER) {
-    const validProviders = ['claude', 'gemini', 'openrouter'];
-    if (!validProviders.includes(settings.CLAUDE_MEM_PROVIDER)) {
-      return { valid: false, error: 'CLAUDE_MEM_PROVIDER must be "claude", "gemini", or "openrouter"' };
+    if (!VALID_PROVIDERS.includes(settings.CLAUDE_MEM_PROVIDER)) {
+      return { valid: false, error: 'CLAUDE_MEM_PROVIDER must be "claude", "gemini", "openrouter", or "openai-compatible"' };
       }
     }
 
@@ -278,6 +358,19 @@ export class SettingsRoutes extends BaseRouteHandler {
       }
     }
 
+    // Validate CLAUDE_MEM_AUTH_MODE
+    if (settings.CLAUDE_MEM_AUTH_MODE && !['remote', 'off'].includes(settings.CLAUDE_MEM_AUTH_MODE)) {
+      return { valid: false, error: 'CLAUDE_MEM_AUTH_MODE must be "remote" or "off"' };
+    }
+
+    // Validate CLAUDE_MEM_TLS_PORT
+    if (settings.CLAUDE_MEM_TLS_PORT) {
+      const port = parseInt(settings.CLAUDE_MEM_TLS_PORT, 10);
+      if (isNaN(port) || port < 1024 || port > 65535) {
+        return { valid: false, error: 'CLAUDE_MEM_TLS_PORT must be between 1024 and 65535' };
+      }
+    }
+
     // Validate CLAUDE_MEM_LOG_LEVEL
     if (settings.CLAUDE_MEM_LOG_LEVEL) {
       const validLevels = ['DEBUG', 'INFO', 'WARN', 'ERROR', 'SILENT'];
@@ -286,6 +379,27 @@ export class SettingsRoutes extends BaseRouteHandler {
       }
     }
 
+    // Validate CLAUDE_MEM_LOG_FORMAT
+    if (settings.CLAUDE_MEM_LOG_FORMAT && !['text', 'json'].includes(settings.CLAUDE_MEM_LOG_FORMAT)) {
+      return { valid: false, error: 'CLAUDE_MEM_LOG_FORMAT must be "text" or "json"' };
+    }
+
+    // Validate CLAUDE_MEM_LOG_MAX_SIZE_MB (0 disables rotation)
+    if (settings.CLAUDE_MEM_LOG_MAX_SIZE_MB !== undefined) {
+      const maxSize = parseFloat(settings.CLAUDE_MEM_LOG_MAX_SIZE_MB);
+      if (isNaN(maxSize) || maxSize < 0 || maxSize > 1024) {
+        return { valid: false, error: 'CLAUDE_MEM_LOG_MAX_SIZE_MB must be between 0 and 1024' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_LOG_RETENTION_DAYS (0 keeps all logs)
+    if (settings.CLAUDE_MEM_LOG_RETENTION_DAYS !== undefined) {
+      const days = parseInt(settings.CLAUDE_MEM_LOG_RETENTION_DAYS, 10);
+      if (isNaN(days) || days < 0 || days > 3650) {
+        return { valid: false, error: 'CLAUDE_MEM_LOG_RETENTION_DAYS must be between 0 and 3650' };
+      }
+    }
+
     // Validate CLAUDE_MEM_PYTHON_VERSION (must be valid Python version format)
     if (settings.CLAUDE_MEM_PYTHON_VERSION) {
       const pythonVersionRegex = /^3\.\d{1,2}$/;
@@ -294,6 +408,13 @@ export class SettingsRoutes extends BaseRouteHandler {
       }
     }
 
+    // Validate CLAUDE_MEM_VECTOR_BACKEND
+    if (settings.CLAUDE_MEM_VECTOR_BACKEND) {
+      if (!['chroma', 'sqlite'].includes(settings.CLAUDE_MEM_VECTOR_BACKEND)) {
+        return { valid: false, error: 'CLAUDE_MEM_VECTOR_BACKEND must be "chroma" or "sqlite"' };
+      }
+    }
+
     // Validate boolean string values
     const booleanSettings = [
       'CLAUDE_MEM_CONTEXT_SHOW_READ_TOKENS',
@@ -303,6 +424,11 @@ export class SettingsRoutes extends BaseRouteHandler {
       'CLAUDE_MEM_CONTEXT_SHOW_LAST_SUMMARY',
       'CLAUDE_MEM_CONTEXT_SHOW_LAST_MESSAGE',
       'CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK',
+      'CLAUDE_MEM_CONSOLIDATION_ENABLED',
+      'CLAUDE_MEM_CONTEXT_PREFER_DIGESTS',
+      'CLAUDE_MEM_FILE_CONTEXT_ENABLED',
+      'CLAUDE_MEM_PROMPT_CONTEXT_ENABLED',
+      'CLAUDE_MEM_TLS_ENABLED',
     ];
 
     for (const key of booleanSettings) {
@@ -334,6 +460,41 @@ export class SettingsRoutes extends BaseRouteHandler {
       }
     }
 
+    // Validate CLAUDE_MEM_CONTEXT_RANKING
+    if (settings.CLAUDE_MEM_CONTEXT_RANKING) {
+      if (!['relevance', 'recency'].includes(settings.CLAUDE_MEM_CONTEXT_RANKING)) {
+        return { valid: false, error: 'CLAUDE_MEM_CONTEXT_RANKING must be "relevance" or "recency"' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_CONTEXT_DECAY_HALF_LIFE_DAYS (0.1-365)
+    if (settings.CLAUDE_MEM_CONTEXT_DECAY_HALF_LIFE_DAYS) {
+      const days = parseFloat(settings.CLAUDE_MEM_CONTEXT_DECAY_HALF_LIFE_DAYS);
+      if (isNaN(days) || days < 0.1 || days > 365) {
+        return { valid: false, error: 'CLAUDE_MEM_CONTEXT_DECAY_HALF_LIFE_DAYS must be between 0.1 and 365' };
+      }
+    }
+
+    // Validate relevance weights and quality thresholds (0-1)
+    const weightSettings = [
+      'CLAUDE_MEM_CONTEXT_WEIGHT_RECENCY',
+      'CLAUDE_MEM_CONTEXT_WEIGHT_RETRIEVAL',
+      'CLAUDE_MEM_CONTEXT_WEIGHT_TYPE',
+      'CLAUDE_MEM_CONTEXT_WEIGHT_FILES',
+      'CLAUDE_MEM_QUALITY_DUPLICATE_SIMILARITY',
+      'CLAUDE_MEM_CONTEXT_MIN_QUALITY',
+      'CLAUDE_MEM_QUEUE_SAMPLE_RATE',
+    ];
+
+    for (const key of weightSettings) {
+      if (settings[key]) {
+        const weight = parseFloat(settings[key]);
+        if (isNaN(weight) || weight < 0 || weight > 1) {
+          return { valid: false, error: `${key} must be between 0 and 1` };
+        }
+      }
+    }
+
     // Validate CLAUDE_MEM_OPENROUTER_MAX_CONTEXT_MESSAGES
     if (settings.CLAUDE_MEM_OPENROUTER_MAX_CONTEXT_MESSAGES) {
       const count = parseInt(settings.CLAUDE_MEM_OPENROUTER_MAX_CONTEXT_MESSAGES, 10);
@@ -361,6 +522,235 @@ export class SettingsRoutes extends BaseRouteHandler {
       }
     }
 
+    // Validate CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL if provided
+    if (settings.CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL) {
+      let url: URL;
+      try {
+        url = new URL(settings.CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL);
+      } catch (error) {
+        logger.debug('SETTINGS', 'Invalid URL format', { url: settings.CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL, error: error instanceof Error ? error.message : String(error) });
+        return { valid: false, error: 'CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL must be a valid URL' };
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { valid: false, error: 'CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL must use http or https' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES
+    if (settings.CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES) {
+      const count = parseInt(settings.CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES, 10);
+      if (isNaN(count) || count < 1 || count > 100) {
+        return { valid: false, error: 'CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES must be between 1 and 100' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_TOKENS
+    if (settings.CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_TOKENS) {
+      const tokens = parseInt(settings.CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_TOKENS, 10);
+      if (isNaN(tokens) || tokens < 1000 || tokens > 1000000) {
+        return { valid: false, error: 'CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_TOKENS must be between 1000 and 1000000' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_OPENAI_COMPATIBLE_TIMEOUT_SECONDS (10-3600)
+    if (settings.CLAUDE_MEM_OPENAI_COMPATIBLE_TIMEOUT_SECONDS) {
+      const seconds = parseInt(settings.CLAUDE_MEM_OPENAI_COMPATIBLE_TIMEOUT_SECONDS, 10);
+      if (isNaN(seconds) || seconds < 10 || seconds > 3600) {
+        return { valid: false, error: 'CLAUDE_MEM_OPENAI_COMPATIBLE_TIMEOUT_SECONDS must be between 10 and 3600' };
+      }
+    }
+
+    // Validate routing rules (empty = use CLAUDE_MEM_PROVIDER)
+    for (const key of ['CLAUDE_MEM_ROUTING_OBSERVATION_PROVIDER', 'CLAUDE_MEM_ROUTING_SUMMARY_PROVIDER'] as const) {
+      if (settings[key] && !VALID_PROVIDERS.includes(settings[key])) {
+        return { valid: false, error: `${key} must be empty or one of: ${VALID_PROVIDERS.join(', ')}` };
+      }
+    }
+
+    // Validate CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER
+    if (settings.CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER && !VALID_PROVIDERS.includes(settings.CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER)) {
+      return { valid: false, error: `CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER must be one of: ${VALID_PROVIDERS.join(', ')}` };
+    }
+
+    // Validate CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION
+    if (settings.CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION && !['degrade', 'pause'].includes(settings.CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION)) {
+      return { valid: false, error: 'CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION must be "degrade" or "pause"' };
+    }
+
+    // Validate budgets and prices (non-negative USD amounts)
+    for (const key of [
+      'CLAUDE_MEM_BUDGET_DAILY_USD',
+      'CLAUDE_MEM_BUDGET_MONTHLY_USD',
+      'CLAUDE_MEM_COST_PER_MTOK_CLAUDE',
+      'CLAUDE_MEM_COST_PER_MTOK_GEMINI',
+      'CLAUDE_MEM_COST_PER_MTOK_OPENROUTER',
+      'CLAUDE_MEM_COST_PER_MTOK_OPENAI_COMPATIBLE',
+    ] as const) {
+      if (settings[key]) {
+        const amount = Number(settings[key]);
+        if (!Number.isFinite(amount) || amount < 0) {
+          return { valid: false, error: `${key} must be a non-negative number` };
+        }
+      }
+    }
+
+    // Validate CLAUDE_MEM_EXTRACTION_MODE
+    if (settings.CLAUDE_MEM_EXTRACTION_MODE && !['llm', 'hybrid', 'heuristic'].includes(settings.CLAUDE_MEM_EXTRACTION_MODE)) {
+      return { valid: false, error: 'CLAUDE_MEM_EXTRACTION_MODE must be "llm", "hybrid" or "heuristic"' };
+    }
+
+    // Validate CLAUDE_MEM_OUTPUT_FORMAT
+    if (settings.CLAUDE_MEM_OUTPUT_FORMAT && !['xml', 'json'].includes(settings.CLAUDE_MEM_OUTPUT_FORMAT)) {
+      return { valid: false, error: 'CLAUDE_MEM_OUTPUT_FORMAT must be "xml" or "json"' };
+    }
+
+    // Validate CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS
+    if (settings.CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS) {
+      const attempts = parseInt(settings.CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS, 10);
+      if (isNaN(attempts) || attempts < 0 || attempts > 5) {
+        return { valid: false, error: 'CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS must be between 0 and 5' };
+      }
+    }
+
+    // Validate queue scheduling
+    if (settings.CLAUDE_MEM_QUEUE_SUMMARY_FIRST && !['true', 'false'].includes(settings.CLAUDE_MEM_QUEUE_SUMMARY_FIRST)) {
+      return { valid: false, error: 'CLAUDE_MEM_QUEUE_SUMMARY_FIRST must be "true" or "false"' };
+    }
+
+    const queueLimits: Array<[string, number, number]> = [
+      ['CLAUDE_MEM_QUEUE_MAX_IN_FLIGHT', 0, 50],
+      ['CLAUDE_MEM_QUEUE_COALESCE_MAX', 1, 20],
+      ['CLAUDE_MEM_QUEUE_MAX_PENDING', 0, 100000],
+    ];
+
+    for (const [key, min, max] of queueLimits) {
+      if (settings[key]) {
+        const limit = parseInt(settings[key], 10);
+        if (isNaN(limit) || limit < min || limit > max) {
+          return { valid: false, error: `${key} must be between ${min} and ${max}` };
+        }
+      }
+    }
+
+    if (settings.CLAUDE_MEM_QUEUE_OVERFLOW_ACTION && !['sample', 'drop'].includes(settings.CLAUDE_MEM_QUEUE_OVERFLOW_ACTION)) {
+      return { valid: false, error: 'CLAUDE_MEM_QUEUE_OVERFLOW_ACTION must be "sample" or "drop"' };
+    }
+
+    // Validate CLAUDE_MEM_SYNC_SERVER_URL if provided
+    if (settings.CLAUDE_MEM_SYNC_SERVER_URL) {
+      try {
+        new URL(settings.CLAUDE_MEM_SYNC_SERVER_URL);
+      } catch (error) {
+        logger.debug('SETTINGS', 'Invalid URL format', { url: settings.CLAUDE_MEM_SYNC_SERVER_URL, error: error instanceof Error ? error.message : String(error) });
+        return { valid: false, error: 'CLAUDE_MEM_SYNC_SERVER_URL must be a valid URL' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_SYNC_INTERVAL_SECONDS (10-86400)
+    if (settings.CLAUDE_MEM_SYNC_INTERVAL_SECONDS) {
+      const seconds = parseInt(settings.CLAUDE_MEM_SYNC_INTERVAL_SECONDS, 10);
+      if (isNaN(seconds) || seconds < 10 || seconds > 86400) {
+        return { valid: false, error: 'CLAUDE_MEM_SYNC_INTERVAL_SECONDS must be between 10 and 86400' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_REDACTION_CUSTOM_RULES (JSON array of { name, pattern, flags? })
+    if (settings.CLAUDE_MEM_REDACTION_CUSTOM_RULES) {
+      let rules: unknown;
+      try {
+        rules = JSON.parse(settings.CLAUDE_MEM_REDACTION_CUSTOM_RULES);
+      } catch (error) {
+        logger.debug('SETTINGS', 'Invalid redaction rules JSON', { error: error instanceof Error ? error.message : String(error) });
+        return { valid: false, error: 'CLAUDE_MEM_REDACTION_CUSTOM_RULES must be a JSON array' };
+      }
+      if (!Array.isArray(rules)) {
+        return { valid: false, error: 'CLAUDE_MEM_REDACTION_CUSTOM_RULES must be a JSON array' };
+      }
+      for (const rule of rules) {
+        if (!rule || typeof rule.name !== 'string' || !rule.name || typeof rule.pattern !== 'string') {
+          return { valid: false, error: 'Each custom redaction rule needs a name and a pattern' };
+        }
+        try {
+          new RegExp(rule.pattern, typeof rule.flags === 'string' ? rule.flags : '');
+        } catch (error) {
+          logger.debug('SETTINGS', 'Invalid redaction pattern', { name: rule.name, error: error instanceof Error ? error.message : String(error) });
+          return { valid: false, error: `Invalid pattern for redaction rule "${rule.name}"` };
+        }
+      }
+    }
+
+    // Validate CLAUDE_MEM_REDACTION_ENTROPY_THRESHOLD (0-8 bits per character)
+    if (settings.CLAUDE_MEM_REDACTION_ENTROPY_THRESHOLD) {
+      const threshold = parseFloat(settings.CLAUDE_MEM_REDACTION_ENTROPY_THRESHOLD);
+      if (isNaN(threshold) || threshold < 0 || threshold > 8) {
+        return { valid: false, error: 'CLAUDE_MEM_REDACTION_ENTROPY_THRESHOLD must be between 0 and 8' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS (1-3650)
+    if (settings.CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS) {
+      const days = parseInt(settings.CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS, 10);
+      if (isNaN(days) || days < 1 || days > 3650) {
+        return { valid: false, error: 'CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS must be between 1 and 3650' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_CONSOLIDATION_INTERVAL_MINUTES (5-10080)
+    if (settings.CLAUDE_MEM_CONSOLIDATION_INTERVAL_MINUTES) {
+      const minutes = parseInt(settings.CLAUDE_MEM_CONSOLIDATION_INTERVAL_MINUTES, 10);
+      if (isNaN(minutes) || minutes < 5 || minutes > 10080) {
+        return { valid: false, error: 'CLAUDE_MEM_CONSOLIDATION_INTERVAL_MINUTES must be between 5 and 10080' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_CONSOLIDATION_MIN_GROUP_SIZE (2-40)
+    if (settings.CLAUDE_MEM_CONSOLIDATION_MIN_GROUP_SIZE) {
+      const size = parseInt(settings.CLAUDE_MEM_CONSOLIDATION_MIN_GROUP_SIZE, 10);
+      if (isNaN(size) || size < 2 || size > 40) {
+        return { valid: false, error: 'CLAUDE_MEM_CONSOLIDATION_MIN_GROUP_SIZE must be between 2 and 40' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_CONSOLIDATION_MAX_DIGESTS_PER_RUN (1-100)
+    if (settings.CLAUDE_MEM_CONSOLIDATION_MAX_DIGESTS_PER_RUN) {
+      const count = parseInt(settings.CLAUDE_MEM_CONSOLIDATION_MAX_DIGESTS_PER_RUN, 10);
+      if (isNaN(count) || count < 1 || count > 100) {
+        return { valid: false, error: 'CLAUDE_MEM_CONSOLIDATION_MAX_DIGESTS_PER_RUN must be between 1 and 100' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_FILE_CONTEXT_MAX_TOKENS (50-4000)
+    if (settings.CLAUDE_MEM_FILE_CONTEXT_MAX_TOKENS) {
+      const tokens = parseInt(settings.CLAUDE_MEM_FILE_CONTEXT_MAX_TOKENS, 10);
+      if (isNaN(tokens) || tokens < 50 || tokens > 4000) {
+        return { valid: false, error: 'CLAUDE_MEM_FILE_CONTEXT_MAX_TOKENS must be between 50 and 4000' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_PROMPT_CONTEXT_TOP_K (1-20)
+    if (settings.CLAUDE_MEM_PROMPT_CONTEXT_TOP_K) {
+      const topK = parseInt(settings.CLAUDE_MEM_PROMPT_CONTEXT_TOP_K, 10);
+      if (isNaN(topK) || topK < 1 || topK > 20) {
+        return { valid: false, error: 'CLAUDE_MEM_PROMPT_CONTEXT_TOP_K must be between 1 and 20' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_PROMPT_CONTEXT_MIN_SIMILARITY (0-1)
+    if (settings.CLAUDE_MEM_PROMPT_CONTEXT_MIN_SIMILARITY) {
+      const similarity = parseFloat(settings.CLAUDE_MEM_PROMPT_CONTEXT_MIN_SIMILARITY);
+      if (isNaN(similarity) || similarity < 0 || similarity > 1) {
+        return { valid: false, error: 'CLAUDE_MEM_PROMPT_CONTEXT_MIN_SIMILARITY must be between 0 and 1' };
+      }
+    }
+
+    // Validate CLAUDE_MEM_PROMPT_CONTEXT_MAX_TOKENS (50-4000)
+    if (settings.CLAUDE_MEM_PROMPT_CONTEXT_MAX_TOKENS) {
+      const tokens = parseInt(settings.CLAUDE_MEM_PROMPT_CONTEXT_MAX_TOKENS, 10);
+      if (isNaN(tokens) || tokens < 50 || tokens > 4000) {
+        return { valid: false, error: 'CLAUDE_MEM_PROMPT_CONTEXT_MAX_TOKENS must be between 50 and 4000' };
+      }
+    }
+
     // Skip observation types validation - any type string is valid since modes define their own types
     // The database accepts any TEXT value, and mode-specific validation happens at parse time
 
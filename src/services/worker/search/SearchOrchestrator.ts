@@ -15,9 +15,11 @@ import { ChromaSync } from '../../sync/ChromaSync.js';
 
 import { ChromaSearchStrategy } from './strategies/ChromaSearchStrategy.js';
 import { SQLiteSearchStrategy } from './strategies/SQLiteSearchStrategy.js';
+import { FTSSearchStrategy } from './strategies/FTSSearchStrategy.js';
 import { HybridSearchStrategy } from './strategies/HybridSearchStrategy.js';
 
 import { ResultFormatter } from './ResultFormatter.js';
+import { normalizeSearchParams } from './SearchParams.js';
 import { TimelineBuilder } from './TimelineBuilder.js';
 import type { TimelineItem, TimelineData } from './TimelineBuilder.js';
 
@@ -28,6 +30,7 @@ import type {
   StrategySearchOptions,
   StrategySearchResult,
   SearchResults,
+  SearchResult,
   ObservationSearchResult
 } from './types.js';
 import { logger } from '../../../utils/logger.js';
@@ -44,6 +47,7 @@ interface NormalizedParams extends StrategySearchOptions {
 export class SearchOrchestrator {
   private chromaStrategy: ChromaSearchStrategy | null = null;
   private sqliteStrategy: SQLiteSearchStrategy;
+  private ftsStrategy: FTSSearchStrategy;
   private hybridStrategy: HybridSearchStrategy | null = null;
   private resultFormatter: ResultFormatter;
   private timelineBuilder: TimelineBuilder;
@@ -55,6 +59,7 @@ export class SearchOrchestrator {
   ) {
     // Initialize strategies
     this.sqliteStrategy = new SQLiteSearchStrategy(sessionSearch);
+    this.ftsStrategy = new FTSSearchStrategy(sessionSearch);
 
     if (chromaSync) {
       this.chromaStrategy = new ChromaSearchStrategy(chromaSync, sessionStore);
@@ -87,7 +92,19 @@ export class SearchOrchestrator {
       return await this.sqliteStrategy.search(options);
     }
 
-    // PATH 2: CHROMA SEMANTIC SEARCH (query text + Chroma available)
+    // PATH 2: KEYWORD SEARCH (forced) - Use FTS5
+    if (options.strategyHint === 'fts') {
+      logger.debug('SEARCH', 'Orchestrator: Keyword search requested, using FTS5', {});
+      return await this.ftsStrategy.search(options);
+    }
+
+    // PATH 3: RECIPROCAL-RANK FUSION (query text + Chroma available + rrf requested)
+    if (options.strategyHint === 'rrf' && this.chromaStrategy) {
+      logger.debug('SEARCH', 'Orchestrator: Fusing Chroma and FTS5 rankings', {});
+      return await this.searchWithFusion(options, this.chromaStrategy);
+    }
+
+    // PATH 4: CHROMA SEMANTIC SEARCH (query text + Chroma available)
     if (this.chromaStrategy) {
       logger.debug('SEARCH', 'Orchestrator: Using Chroma semantic search', {});
       const result = await this.chromaStrategy.search(options);
@@ -97,12 +114,9 @@ export class SearchOrchestrator {
         return result;
       }
 
-      // Chroma failed - fall back to SQLite for filter-only
-      logger.debug('SEARCH', 'Orchestrator: Chroma failed, falling back to SQLite', {});
-      const fallbackResult = await this.sqliteStrategy.search({
-        ...options,
-        query: undefined // Remove query for SQLite fallback
-      });
+      // Chroma failed - fall back to FTS5 keyword search
+      logger.debug('SEARCH', 'Orchestrator: Chroma failed, falling back to FTS5', {});
+      const fallbackResult = await this.ftsStrategy.search(options);
 
       return {
         ...fallbackResult,
@@ -110,13 +124,64 @@ export class SearchOrchestrator {
       };
     }
 
-    // PATH 3: No Chroma available
-    logger.debug('SEARCH', 'Orchestrator: Chroma not available', {});
+    // PATH 5: No Chroma available - keyword search only
+    logger.debug('SEARCH', 'Orchestrator: Chroma not available, using FTS5', {});
+    return await this.ftsStrategy.search(options);
+  }
+
+  /**
+   * Run Chroma and FTS5 on the same query and merge their rankings with
+   * reciprocal-rank fusion: each result scores sum(1 / (k + rank)) over the lists it appears in.
+   * Falls back to FTS5 alone when Chroma fails.
+   */
+  private async searchWithFusion(
+    options: NormalizedParams,
+    chromaStrategy: ChromaSearchStrategy
+  ): Promise<StrategySearchResult> {
+    const limit = options.limit ?? SEARCH_CONSTANTS.DEFAULT_LIMIT;
+    const candidateOptions: NormalizedParams = {
+      ...options,
+      limit: Math.max(limit, SEARCH_CONSTANTS.RRF_CANDIDATE_LIMIT),
+      offset: 0,
+      orderBy: 'relevance'
+    };
+
+    const [chromaResult, ftsResult] = await Promise.all([
+      chromaStrategy.search(candidateOptions),
+      this.ftsStrategy.search(candidateOptions)
+    ]);
+
+    if (!chromaResult.usedChroma) {
+      logger.debug('SEARCH', 'Orchestrator: Chroma failed during fusion, using FTS5 only', {});
+      return {
+        results: {
+          observations: ftsResult.results.observations.slice(0, limit),
+          sessions: ftsResult.results.sessions.slice(0, limit),
+          prompts: ftsResult.results.prompts.slice(0, limit)
+        },
+        usedChroma: false,
+        fellBack: true,
+        strategy: 'fts'
+      };
+    }
+
+    const results: SearchResults = {
+      observations: fuseRankings(chromaResult.results.observations, ftsResult.results.observations, limit),
+      sessions: fuseRankings(chromaResult.results.sessions, ftsResult.results.sessions, limit),
+      prompts: fuseRankings(chromaResult.results.prompts, ftsResult.results.prompts, limit)
+    };
+
+    logger.debug('SEARCH', 'Orchestrator: Fused results', {
+      observations: results.observations.length,
+      sessions: results.sessions.length,
+      prompts: results.prompts.length
+    });
+
     return {
-      results: { observations: [], sessions: [], prompts: [] },
-      usedChroma: false,
+      results,
+      usedChroma: true,
       fellBack: false,
-      strategy: 'sqlite'
+      strategy: 'rrf'
     };
   }
 
@@ -237,21 +302,12 @@ export class SearchOrchestrator {
    * Normalize query parameters from URL-friendly format
    */
   private normalizeParams(args: any): NormalizedParams {
-    const normalized: any = { ...args };
+    // Parse comma-separated lists (concepts, files, obs_type) into arrays and numeric strings into integers
+    const normalized: any = normalizeSearchParams(args ?? {});
 
-    // Parse comma-separated concepts into array
-    if (normalized.concepts && typeof normalized.concepts === 'string') {
-      normalized.concepts = normalized.concepts.split(',').map((s: string) => s.trim()).filter(Boolean);
-    }
-
-    // Parse comma-separated files into array
-    if (normalized.files && typeof normalized.files === 'string') {
-      normalized.files = normalized.files.split(',').map((s: string) => s.trim()).filter(Boolean);
-    }
-
-    // Parse comma-separated obs_type into array
-    if (normalized.obs_type && typeof normalized.obs_type === 'string') {
-      normalized.obsType = normalized.obs_type.split(',').map((s: string) => s.trim()).filter(Boolean);
+    // Map obs_type to obsType
+    if (normalized.obs_type) {
+      normalized.obsType = normalized.obs_type;
       delete normalized.obs_type;
     }
 
@@ -268,6 +324,12 @@ export class SearchOrchestrator {
       }
     }
 
+    // Map 'strategy' param (chroma, fts, rrf, ...) to strategyHint
+    if (normalized.strategy && !normalized.strategyHint) {
+      normalized.strategyHint = normalized.strategy;
+      delete normalized.strategy;
+    }
+
     // Flatten dateStart/dateEnd into dateRange object
     if (normalized.dateStart || normalized.dateEnd) {
       normalized.dateRange = {
@@ -288,3 +350,33 @@ export class SearchOrchestrator {
     return !!this.chromaSync;
   }
 }
+
+/**
+ * Reciprocal-rank fusion of two best-first lists of the same document type
+ * Keeps the FTS row when both lists contain a document (it carries the snippet)
+ */
+function fuseRankings<T extends SearchResult>(semantic: T[], keyword: T[], limit: number): T[] {
+  const fused = new Map<number, { row: T; score: number }>();
+
+  const addList = (rows: T[]) => {
+    rows.forEach((row, index) => {
+      const contribution = 1 / (SEARCH_CONSTANTS.RRF_K + index + 1);
+      const existing = fused.get(row.id);
+      fused.set(row.id, {
+        row: existing && row.snippet === undefined ? existing.row : row,
+        score: (existing?.score ?? 0) + contribution
+      });
+    });
+  };
+
+  addList(semantic);
+  addList(keyword);
+
+  const ranked = Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  // Express fused scores relative to the best result (0-1, like other strategies)
+  const best = ranked[0]?.score ?? 1;
+  return ranked.map(({ row, score }) => ({ ...row, score: score / best }));
+}
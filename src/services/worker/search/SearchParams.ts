@@ -0,0 +1,126 @@
+/**
+ * SearchParams - Parameter definitions for the search and timeline APIs
+ *
+ * Single source for the URL-friendly parameters accepted by /api/search, /api/timeline and
+ * /api/observations/batch: SearchOrchestrator and SearchManager normalize them with
+ * normalizeSearchParams(), and the MCP server publishes them as JSON Schemas with buildInputSchema().
+ * Imports nothing from the worker so the MCP server bundle can include it.
+ */
+
+import { logger } from '../../../utils/logger.js';
+
+/**
+ * How a parameter is passed
+ * 'list' accepts an array or a comma-separated string
+ */
+export type SearchParamKind = 'string' | 'integer' | 'list';
+
+export interface SearchParamSpec {
+  kind: SearchParamKind;
+  description: string;
+  enum?: readonly string[];
+  /** Item type of a list parameter (default 'string') */
+  items?: 'string' | 'integer';
+  minimum?: number;
+  maximum?: number;
+}
+
+export type SearchParamSpecs = Record<string, SearchParamSpec>;
+
+/**
+ * Parameters for /api/search (MCP search tool)
+ */
+export const SEARCH_PARAMS: SearchParamSpecs = {
+  query: { kind: 'string', description: 'Search text (omit to filter by date, type, concept or file only)' },
+  limit: { kind: 'integer', description: 'Maximum results per result type (default 20)', minimum: 1, maximum: 100 },
+  offset: { kind: 'integer', description: 'Results to skip (pagination)', minimum: 0 },
+  project: { kind: 'string', description: 'Project name' },
+  type: { kind: 'string', description: 'Result type to search (default: all)', enum: ['observations', 'sessions', 'prompts'] },
+  obs_type: { kind: 'list', description: 'Observation types, e.g. decision, bugfix, feature, refactor, discovery, change' },
+  concepts: { kind: 'list', description: 'Concept tags to filter by' },
+  files: { kind: 'list', description: 'File paths to filter by' },
+  dateStart: { kind: 'string', description: 'Earliest date (ISO 8601 or epoch milliseconds)' },
+  dateEnd: { kind: 'string', description: 'Latest date (ISO 8601 or epoch milliseconds)' },
+  orderBy: { kind: 'string', description: 'Result order (default: relevance with a query, date_desc without)', enum: ['relevance', 'date_desc', 'date_asc'] },
+  strategy: { kind: 'string', description: 'Ranking strategy (default: auto; rrf fuses semantic and keyword rankings)', enum: ['auto', 'chroma', 'fts', 'rrf'] },
+  format: { kind: 'string', description: 'Output format (default: text index)', enum: ['text', 'json'] }
+};
+
+/**
+ * Parameters for /api/timeline (MCP timeline tool)
+ */
+export const TIMELINE_PARAMS: SearchParamSpecs = {
+  anchor: { kind: 'integer', description: 'Observation ID to center the timeline on' },
+  query: { kind: 'string', description: 'Search text used to find the anchor when no anchor ID is given' },
+  depth_before: { kind: 'integer', description: 'Records before the anchor (default 10)', minimum: 0, maximum: 50 },
+  depth_after: { kind: 'integer', description: 'Records after the anchor (default 10)', minimum: 0, maximum: 50 },
+  project: { kind: 'string', description: 'Project name' }
+};
+
+/**
+ * Parameters for /api/observations/batch (MCP get_observations tool)
+ */
+export const GET_OBSERVATIONS_PARAMS: SearchParamSpecs = {
+  ids: { kind: 'list', items: 'integer', description: 'Observation IDs to fetch' },
+  orderBy: { kind: 'string', description: 'Result order (default: date_desc)', enum: ['date_desc', 'date_asc'] },
+  limit: { kind: 'integer', description: 'Maximum observations to return', minimum: 1 },
+  project: { kind: 'string', description: 'Only return observations from this project' }
+};
+
+/**
+ * Normalize URL-friendly values: comma-separated lists become arrays and numeric strings
+ * become integers (arrays, numbers, empty values and non-numeric strings pass through)
+ */
+export function normalizeSearchParams<T extends Record<string, any>>(args: T, specs: SearchParamSpecs = SEARCH_PARAMS): T {
+  const normalized: Record<string, any> = { ...args };
+
+  for (const [name, spec] of Object.entries(specs)) {
+    const value = normalized[name];
+    if (!value || typeof value !== 'string') continue;
+
+    if (spec.kind === 'list') {
+      normalized[name] = value.split(',').map(s => s.trim()).filter(Boolean);
+    } else if (spec.kind === 'integer') {
+      if (/^-?\d+$/.test(value.trim())) {
+        normalized[name] = parseInt(value, 10);
+      } else {
+        logger.debug('SEARCH', 'Non-numeric value for integer parameter left as is', { name, value });
+      }
+    }
+  }
+
+  return normalized as T;
+}
+
+/**
+ * JSON Schema for a tool's input, built from parameter specs
+ * Optional list parameters also accept a comma-separated string
+ */
+export function buildInputSchema(specs: SearchParamSpecs, required: string[] = []): Record<string, any> {
+  const properties: Record<string, any> = {};
+
+  for (const [name, spec] of Object.entries(specs)) {
+    if (spec.kind === 'list') {
+      const array = { type: 'array', items: { type: spec.items ?? 'string' } };
+      properties[name] = required.includes(name)
+        ? { ...array, description: spec.description }
+        : { anyOf: [array, { type: 'string', description: 'Comma-separated' }], description: spec.description };
+      continue;
+    }
+
+    properties[name] = {
+      type: spec.kind,
+      description: spec.description,
+      ...(spec.enum ? { enum: [...spec.enum] } : {}),
+      ...(spec.minimum !== undefined ? { minimum: spec.minimum } : {}),
+      ...(spec.maximum !== undefined ? { maximum: spec.maximum } : {})
+    };
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false
+  };
+}
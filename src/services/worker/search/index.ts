@@ -17,8 +17,12 @@ export type { SearchStrategy } from './strategies/SearchStrategy.js';
 export { BaseSearchStrategy } from './strategies/SearchStrategy.js';
 export { ChromaSearchStrategy } from './strategies/ChromaSearchStrategy.js';
 export { SQLiteSearchStrategy } from './strategies/SQLiteSearchStrategy.js';
+export { FTSSearchStrategy } from './strategies/FTSSearchStrategy.js';
 export { HybridSearchStrategy } from './strategies/HybridSearchStrategy.js';
 
+// Parameters
+export * from './SearchParams.js';
+
 // Filters
 export * from './filters/DateFilter.js';
 export * from './filters/ProjectFilter.js';
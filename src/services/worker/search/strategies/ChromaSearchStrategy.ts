@@ -103,25 +103,31 @@ export class ChromaSearchStrategy extends BaseSearchStrategy implements SearchSt
       });
 
       // Step 4: Hydrate from SQLite with additional filters
+      // Relevance order keeps Chroma's similarity ranking, so the limit is applied after re-sorting
+      const byRelevance = orderBy === 'relevance';
+      const hydrateOptions = {
+        orderBy: byRelevance ? 'date_desc' as const : orderBy,
+        limit: byRelevance ? undefined : limit,
+        project
+      };
+
       if (categorized.obsIds.length > 0) {
-        const obsOptions = { type: obsType, concepts, files, orderBy, limit, project };
+        const obsOptions = { ...hydrateOptions, type: obsType, concepts, files };
         observations = this.sessionStore.getObservationsByIds(categorized.obsIds, obsOptions);
       }
 
       if (categorized.sessionIds.length > 0) {
-        sessions = this.sessionStore.getSessionSummariesByIds(categorized.sessionIds, {
-          orderBy,
-          limit,
-          project
-        });
+        sessions = this.sessionStore.getSessionSummariesByIds(categorized.sessionIds, hydrateOptions);
       }
 
       if (categorized.promptIds.length > 0) {
-        prompts = this.sessionStore.getUserPromptsByIds(categorized.promptIds, {
-          orderBy,
-          limit,
-          project
-        });
+        prompts = this.sessionStore.getUserPromptsByIds(categorized.promptIds, hydrateOptions);
+      }
+
+      if (byRelevance) {
+        observations = this.orderByChromaRank(observations, categorized.obsIds).slice(0, limit);
+        sessions = this.orderByChromaRank(sessions, categorized.sessionIds).slice(0, limit);
+        prompts = this.orderByChromaRank(prompts, categorized.promptIds).slice(0, limit);
       }
 
       logger.debug('SEARCH', 'ChromaSearchStrategy: Hydrated results', {
@@ -149,6 +155,17 @@ export class ChromaSearchStrategy extends BaseSearchStrategy implements SearchSt
     }
   }
 
+  /**
+   * Restore Chroma's similarity order (ids are ranked best-first) after SQLite hydration
+   */
+  private orderByChromaRank<T extends { id: number }>(rows: T[], rankedIds: number[]): T[] {
+    const position = new Map<number, number>();
+    rankedIds.forEach((id, index) => {
+      if (!position.has(id)) position.set(id, index);
+    });
+    return [...rows].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+  }
+
   /**
    * Build Chroma where filter for document type
    */
@@ -0,0 +1,125 @@
+/**
+ * FTSSearchStrategy - Keyword search over SQLite FTS5 tables
+ *
+ * This strategy handles query-text searches without Chroma:
+ * 1. Translate the query (phrases, prefix*, -exclusions) into an FTS5 MATCH expression
+ * 2. Query observations_fts / session_summaries_fts / user_prompts_fts
+ * 3. Rank by column-weighted BM25 and attach highlighted snippets
+ *
+ * Used when: Chroma is unavailable or fails, when forced with strategyHint 'fts',
+ * and as the keyword half of reciprocal-rank fusion
+ */
+
+import { BaseSearchStrategy, SearchStrategy } from './SearchStrategy.js';
+import {
+  StrategySearchOptions,
+  StrategySearchResult,
+  SEARCH_CONSTANTS,
+  SearchOptions,
+  ObservationSearchResult,
+  SessionSummarySearchResult,
+  UserPromptSearchResult
+} from '../types.js';
+import { SessionSearch, buildFtsMatchQuery } from '../../../sqlite/SessionSearch.js';
+import { logger } from '../../../../utils/logger.js';
+
+export class FTSSearchStrategy extends BaseSearchStrategy implements SearchStrategy {
+  readonly name = 'fts';
+
+  constructor(private sessionSearch: SessionSearch) {
+    super();
+  }
+
+  canHandle(options: StrategySearchOptions): boolean {
+    // Needs query text; filter-only searches belong to SQLiteSearchStrategy
+    return !!options.query;
+  }
+
+  async search(options: StrategySearchOptions): Promise<StrategySearchResult> {
+    const {
+      query,
+      searchType = 'all',
+      obsType,
+      concepts,
+      files,
+      limit = SEARCH_CONSTANTS.DEFAULT_LIMIT,
+      offset = 0,
+      project,
+      dateRange,
+      orderBy = 'relevance'
+    } = options;
+
+    if (!query) {
+      return this.emptyResult('fts');
+    }
+
+    const matchQuery = buildFtsMatchQuery(query);
+    if (!matchQuery) {
+      logger.debug('SEARCH', 'FTSSearchStrategy: Query has no positive terms', { query });
+      return this.emptyResult('fts');
+    }
+
+    const searchObservations = searchType === 'all' || searchType === 'observations';
+    const searchSessions = searchType === 'all' || searchType === 'sessions';
+    const searchPrompts = searchType === 'all' || searchType === 'prompts';
+
+    let observations: ObservationSearchResult[] = [];
+    let sessions: SessionSummarySearchResult[] = [];
+    let prompts: UserPromptSearchResult[] = [];
+
+    const baseOptions = { limit, offset, orderBy, project, dateRange };
+
+    logger.debug('SEARCH', 'FTSSearchStrategy: Querying FTS5', { query, matchQuery, searchType });
+
+    try {
+      if (searchObservations) {
+        observations = this.sessionSearch.searchObservations(matchQuery, {
+          ...baseOptions,
+          type: obsType as SearchOptions['type'],
+          concepts,
+          files
+        });
+      }
+
+      if (searchSessions) {
+        sessions = this.sessionSearch.searchSessions(matchQuery, baseOptions);
+      }
+
+      if (searchPrompts) {
+        prompts = this.sessionSearch.searchUserPrompts(matchQuery, baseOptions);
+      }
+
+      logger.debug('SEARCH', 'FTSSearchStrategy: Results', {
+        observations: observations.length,
+        sessions: sessions.length,
+        prompts: prompts.length
+      });
+
+      return {
+        results: {
+          observations: normalizeScores(observations),
+          sessions: normalizeScores(sessions),
+          prompts: normalizeScores(prompts)
+        },
+        usedChroma: false,
+        fellBack: false,
+        strategy: 'fts'
+      };
+
+    } catch (error) {
+      logger.error('SEARCH', 'FTSSearchStrategy: Search failed', { query, matchQuery }, error as Error);
+      return this.emptyResult('fts');
+    }
+  }
+}
+
+/**
+ * Map BM25 ranks (negative, lower is better) onto 0-1 scores relative to the best match
+ */
+function normalizeScores<T extends { rank?: number; score?: number }>(rows: T[]): T[] {
+  const best = Math.min(...rows.map(row => row.rank ?? 0));
+  if (!(best < 0)) {
+    return rows;
+  }
+  return rows.map(row => ({ ...row, score: (row.rank ?? 0) / best }));
+}
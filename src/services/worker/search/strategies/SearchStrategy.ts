@@ -4,6 +4,7 @@
  * Each strategy implements a different approach to searching:
  * - ChromaSearchStrategy: Vector-based semantic search via Chroma
  * - SQLiteSearchStrategy: Direct SQLite queries for filter-only searches
+ * - FTSSearchStrategy: BM25-ranked keyword search over FTS5 tables
  * - HybridSearchStrategy: Metadata filtering + semantic ranking
  */
 
@@ -46,7 +47,7 @@ export abstract class BaseSearchStrategy implements SearchStrategy {
   /**
    * Create an empty search result
    */
-  protected emptyResult(strategy: 'chroma' | 'sqlite' | 'hybrid'): StrategySearchResult {
+  protected emptyResult(strategy: 'chroma' | 'sqlite' | 'hybrid' | 'fts'): StrategySearchResult {
     return {
       results: {
         observations: [],
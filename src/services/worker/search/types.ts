@@ -15,7 +15,11 @@ export const SEARCH_CONSTANTS = {
   RECENCY_WINDOW_DAYS: 90,
   RECENCY_WINDOW_MS: 90 * 24 * 60 * 60 * 1000,
   DEFAULT_LIMIT: 20,
-  CHROMA_BATCH_SIZE: 100
+  CHROMA_BATCH_SIZE: 100,
+  /** Candidates taken from each ranked list before fusion */
+  RRF_CANDIDATE_LIMIT: 100,
+  /** RRF damping constant: score = sum of 1 / (k + rank) */
+  RRF_K: 60
 } as const;
 
 /**
@@ -83,8 +87,9 @@ export interface ExtendedSearchOptions extends SearchOptions {
 
 /**
  * Search strategy selection hint
+ * 'rrf' blends Chroma and FTS rankings with reciprocal-rank fusion
  */
-export type SearchStrategyHint = 'chroma' | 'sqlite' | 'hybrid' | 'auto';
+export type SearchStrategyHint = 'chroma' | 'sqlite' | 'hybrid' | 'fts' | 'rrf' | 'auto';
 
 /**
  * Options passed to search strategies
@@ -18,8 +18,17 @@ export interface SettingsDefaults {
   CLAUDE_MEM_WORKER_PORT: string;
   CLAUDE_MEM_WORKER_HOST: string;
   CLAUDE_MEM_SKIP_TOOLS: string;
+  // Remote Access
+  CLAUDE_MEM_AUTH_MODE: string;  // 'remote' | 'off'
+  CLAUDE_MEM_CORS_ORIGINS: string;
+  CLAUDE_MEM_TLS_ENABLED: string;
+  CLAUDE_MEM_TLS_PORT: string;
+  CLAUDE_MEM_TLS_CERT_PATH: string;
+  CLAUDE_MEM_TLS_KEY_PATH: string;
+  CLAUDE_MEM_WORKER_URL: string;
+  CLAUDE_MEM_WORKER_TOKEN: string;
   // AI Provider Configuration
-  CLAUDE_MEM_PROVIDER: string;  // 'claude' | 'gemini' | 'openrouter'
+  CLAUDE_MEM_PROVIDER: string;  // 'claude' | 'gemini' | 'openrouter' | 'openai-compatible'
   CLAUDE_MEM_GEMINI_API_KEY: string;
   CLAUDE_MEM_GEMINI_MODEL: string;  // 'gemini-2.5-flash-lite' | 'gemini-2.5-flash' | 'gemini-3-flash'
   CLAUDE_MEM_GEMINI_RATE_LIMITING_ENABLED: string;  // 'true' | 'false' - enable rate limiting for free tier
@@ -33,13 +42,40 @@ export interface SettingsDefaults {
   CLAUDE_MEM_OPENROUTER_APP_NAME: string;
   CLAUDE_MEM_OPENROUTER_MAX_CONTEXT_MESSAGES: string;
   CLAUDE_MEM_OPENROUTER_MAX_TOKENS: string;
+  CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL: string;  // e.g. http://localhost:11434/v1 (Ollama)
+  CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL: string;
+  CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY: string;  // Optional bearer token
+  CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES: string;
+  CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_TOKENS: string;
+  CLAUDE_MEM_OPENAI_COMPATIBLE_TIMEOUT_SECONDS: string;
   CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK: string;  // 'true' | 'false' - disable fallback to Claude on errors
+  // Provider Routing & Budgets
+  CLAUDE_MEM_ROUTING_OBSERVATION_PROVIDER: string;  // '' (use CLAUDE_MEM_PROVIDER) or a provider name
+  CLAUDE_MEM_ROUTING_SUMMARY_PROVIDER: string;  // '' (use CLAUDE_MEM_PROVIDER) or a provider name
+  CLAUDE_MEM_BUDGET_DAILY_USD: string;  // '0' = no limit
+  CLAUDE_MEM_BUDGET_MONTHLY_USD: string;  // '0' = no limit
+  CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION: string;  // 'degrade' | 'pause'
+  CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER: string;  // Provider used while a budget is exhausted
+  CLAUDE_MEM_COST_PER_MTOK_CLAUDE: string;  // Blended USD per million tokens
+  CLAUDE_MEM_COST_PER_MTOK_GEMINI: string;
+  CLAUDE_MEM_COST_PER_MTOK_OPENROUTER: string;
+  CLAUDE_MEM_COST_PER_MTOK_OPENAI_COMPATIBLE: string;
+  // Observation Extraction
+  CLAUDE_MEM_EXTRACTION_MODE: string;  // 'llm' | 'hybrid' | 'heuristic'
+  CLAUDE_MEM_OUTPUT_FORMAT: string;  // 'xml' | 'json'
+  CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS: string;
   // System Configuration
   CLAUDE_MEM_DATA_DIR: string;
   CLAUDE_MEM_LOG_LEVEL: string;
+  CLAUDE_MEM_LOG_FORMAT: string;  // 'text' | 'json'
+  CLAUDE_MEM_LOG_MAX_SIZE_MB: string;
+  CLAUDE_MEM_LOG_RETENTION_DAYS: string;
   CLAUDE_MEM_PYTHON_VERSION: string;
   CLAUDE_CODE_PATH: string;
   CLAUDE_MEM_MODE: string;
+  // Vector Search
+  CLAUDE_MEM_VECTOR_BACKEND: string;  // 'chroma' | 'sqlite'
+  CLAUDE_MEM_EMBEDDING_MODEL: string;  // transformers.js model for the sqlite backend
   // Token Economics
   CLAUDE_MEM_CONTEXT_SHOW_READ_TOKENS: string;
   CLAUDE_MEM_CONTEXT_SHOW_WORK_TOKENS: string;
@@ -56,6 +92,51 @@ export interface SettingsDefaults {
   CLAUDE_MEM_CONTEXT_SHOW_LAST_SUMMARY: string;
   CLAUDE_MEM_CONTEXT_SHOW_LAST_MESSAGE: string;
   CLAUDE_MEM_FOLDER_CLAUDEMD_ENABLED: string;
+  // Relevance Scoring
+  CLAUDE_MEM_CONTEXT_RANKING: string;  // 'relevance' | 'recency'
+  CLAUDE_MEM_CONTEXT_DECAY_HALF_LIFE_DAYS: string;
+  CLAUDE_MEM_CONTEXT_WEIGHT_RECENCY: string;
+  CLAUDE_MEM_CONTEXT_WEIGHT_RETRIEVAL: string;
+  CLAUDE_MEM_CONTEXT_WEIGHT_TYPE: string;
+  CLAUDE_MEM_CONTEXT_WEIGHT_FILES: string;
+  // Observation Quality
+  CLAUDE_MEM_QUALITY_DUPLICATE_SIMILARITY: string;  // Trigram similarity (0-1) at which an observation is a duplicate; 0 disables
+  CLAUDE_MEM_CONTEXT_MIN_QUALITY: string;  // Hide observations scoring below this (0-1); 0 shows all
+  // Queue Scheduling
+  CLAUDE_MEM_QUEUE_SUMMARY_FIRST: string;  // 'true' | 'false' - claim summaries ahead of queued observations
+  CLAUDE_MEM_QUEUE_MAX_IN_FLIGHT: string;  // Claimed-but-unprocessed messages per session; 0 = unlimited
+  CLAUDE_MEM_QUEUE_COALESCE_TOOLS: string;  // Comma-separated tools whose consecutive events share one prompt; empty disables
+  CLAUDE_MEM_QUEUE_COALESCE_MAX: string;  // Maximum tool events per batched prompt
+  CLAUDE_MEM_QUEUE_MAX_PENDING: string;  // Pending messages across sessions before intake drops or samples; 0 = no cap
+  CLAUDE_MEM_QUEUE_OVERFLOW_ACTION: string;  // 'sample' | 'drop'
+  CLAUDE_MEM_QUEUE_SAMPLE_RATE: string;  // Fraction (0-1) of observations kept while over the cap with 'sample'
+  // Team Sync
+  CLAUDE_MEM_SYNC_SERVER_URL: string;  // Empty disables team sync
+  CLAUDE_MEM_SYNC_TOKEN: string;
+  CLAUDE_MEM_SYNC_AUTHOR: string;  // Empty means the OS user name
+  CLAUDE_MEM_SYNC_PROJECTS: string;  // Opted-in projects (comma-separated)
+  CLAUDE_MEM_SYNC_INTERVAL_SECONDS: string;
+  CLAUDE_MEM_CONTEXT_SHOW_TEAM_MEMORIES: string;  // 'true' | 'false' - include teammates' observations in context
+  // Secret Redaction
+  CLAUDE_MEM_REDACTION_ENABLED: string;  // 'true' | 'false'
+  CLAUDE_MEM_REDACTION_DISABLED_RULES: string;  // Rule names to skip (comma-separated)
+  CLAUDE_MEM_REDACTION_CUSTOM_RULES: string;  // JSON array of { name, pattern, flags? }
+  CLAUDE_MEM_REDACTION_ENTROPY_THRESHOLD: string;  // Bits per character; 0 disables the entropy detector
+  // Digest Consolidation
+  CLAUDE_MEM_CONSOLIDATION_ENABLED: string;  // 'true' | 'false'
+  CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS: string;  // Observations older than this are consolidated
+  CLAUDE_MEM_CONSOLIDATION_INTERVAL_MINUTES: string;
+  CLAUDE_MEM_CONSOLIDATION_MIN_GROUP_SIZE: string;  // Smallest group worth a digest
+  CLAUDE_MEM_CONSOLIDATION_MAX_DIGESTS_PER_RUN: string;  // Provider calls per run
+  CLAUDE_MEM_CONTEXT_PREFER_DIGESTS: string;  // 'true' | 'false' - show digests instead of consolidated observations
+  // File Memories (PreToolUse)
+  CLAUDE_MEM_FILE_CONTEXT_ENABLED: string;  // 'true' | 'false' - inject memories about a file before Edit/Write/Read
+  CLAUDE_MEM_FILE_CONTEXT_MAX_TOKENS: string;  // Token cap for the memories injected per tool call
+  // Prompt-Time Retrieval (UserPromptSubmit)
+  CLAUDE_MEM_PROMPT_CONTEXT_ENABLED: string;  // 'true' | 'false' - semantic search with each prompt and inject the matches
+  CLAUDE_MEM_PROMPT_CONTEXT_TOP_K: string;  // Most observations injected per prompt
+  CLAUDE_MEM_PROMPT_CONTEXT_MIN_SIMILARITY: string;  // Cosine similarity (0-1) a match needs to be injected
+  CLAUDE_MEM_PROMPT_CONTEXT_MAX_TOKENS: string;  // Token cap for the memories injected per prompt
   // Project Filtering
   CLAUDE_MEM_IGNORED_PROJECTS: string;  // Blacklist: Projects to ignore (comma-separated)
   CLAUDE_MEM_ALLOWED_PROJECTS_ONLY: string;  // Whitelist: Only process these projects (overrides blacklist if non-empty)
@@ -74,6 +155,15 @@ export class SettingsDefaultsManager {
     CLAUDE_MEM_WORKER_PORT: '37777',
     CLAUDE_MEM_WORKER_HOST: '127.0.0.1',
     CLAUDE_MEM_SKIP_TOOLS: 'ListMcpResourcesTool,SlashCommand,Skill,TodoWrite,AskUserQuestion',
+    // Remote Access
+    CLAUDE_MEM_AUTH_MODE: 'remote',  // Requests from other hosts need an API token; 'off' trusts everyone
+    CLAUDE_MEM_CORS_ORIGINS: '',  // Empty allows loopback origins only; '*' allows any origin
+    CLAUDE_MEM_TLS_ENABLED: 'false',
+    CLAUDE_MEM_TLS_PORT: '37779',  // HTTPS listener on CLAUDE_MEM_WORKER_HOST (plain HTTP stays on loopback)
+    CLAUDE_MEM_TLS_CERT_PATH: '',  // Empty generates a self-signed certificate in ~/.claude-mem/tls
+    CLAUDE_MEM_TLS_KEY_PATH: '',
+    CLAUDE_MEM_WORKER_URL: '',  // Client side: worker base URL for the MCP server (default http://HOST:PORT)
+    CLAUDE_MEM_WORKER_TOKEN: '',  // Client side: API token sent to CLAUDE_MEM_WORKER_URL
     // AI Provider Configuration
     CLAUDE_MEM_PROVIDER: 'claude',  // Default to Claude
     CLAUDE_MEM_GEMINI_API_KEY: '',  // Empty by default, can be set via UI or env
@@ -89,13 +179,40 @@ export class SettingsDefaultsManager {
     CLAUDE_MEM_OPENROUTER_APP_NAME: 'claude-mem',  // App name for OpenRouter analytics
     CLAUDE_MEM_OPENROUTER_MAX_CONTEXT_MESSAGES: '20',  // Max messages in context window
     CLAUDE_MEM_OPENROUTER_MAX_TOKENS: '100000',  // Max estimated tokens (~100k safety limit)
+    CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',  // Ollama's default endpoint
+    CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL: 'llama3.1',
+    CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY: '',  // Most local servers need no key
+    CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES: '20',  // Max messages in context window
+    CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_TOKENS: '32000',  // Max estimated tokens (local models have smaller windows)
+    CLAUDE_MEM_OPENAI_COMPATIBLE_TIMEOUT_SECONDS: '300',  // Per request; local models on CPU can be slow
     CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK: 'true',  // Never fall back to Claude on provider errors
+    // Provider Routing & Budgets
+    CLAUDE_MEM_ROUTING_OBSERVATION_PROVIDER: '',  // No routing rule - use CLAUDE_MEM_PROVIDER
+    CLAUDE_MEM_ROUTING_SUMMARY_PROVIDER: '',
+    CLAUDE_MEM_BUDGET_DAILY_USD: '0',  // No budgets by default
+    CLAUDE_MEM_BUDGET_MONTHLY_USD: '0',
+    CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION: 'degrade',
+    CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER: 'gemini',  // Paused instead if it has no API key
+    CLAUDE_MEM_COST_PER_MTOK_CLAUDE: '2.2',  // Haiku at a typical 70/30 input/output split
+    CLAUDE_MEM_COST_PER_MTOK_GEMINI: '0.19',  // gemini-2.5-flash-lite at the same split
+    CLAUDE_MEM_COST_PER_MTOK_OPENROUTER: '0',  // Default model is free
+    CLAUDE_MEM_COST_PER_MTOK_OPENAI_COMPATIBLE: '0',  // Self-hosted
+    // Observation Extraction
+    CLAUDE_MEM_EXTRACTION_MODE: 'llm',  // 'hybrid' falls back to heuristics when providers are unavailable
+    CLAUDE_MEM_OUTPUT_FORMAT: 'xml',  // 'json' validates observations against the mode's schema
+    CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS: '2',  // Re-asks per invalid JSON response (0-5)
     // System Configuration
     CLAUDE_MEM_DATA_DIR: join(homedir(), '.claude-mem'),
     CLAUDE_MEM_LOG_LEVEL: 'INFO',
+    CLAUDE_MEM_LOG_FORMAT: 'text',  // 'json' writes one JSON record per line
+    CLAUDE_MEM_LOG_MAX_SIZE_MB: '10',  // Rotate a day's log file at this size (0 = never)
+    CLAUDE_MEM_LOG_RETENTION_DAYS: '30',  // Delete log files older than this (0 = keep all)
     CLAUDE_MEM_PYTHON_VERSION: '3.13',
     CLAUDE_CODE_PATH: '', // Empty means auto-detect via 'which claude'
     CLAUDE_MEM_MODE: 'code', // Default mode profile
+    // Vector Search
+    CLAUDE_MEM_VECTOR_BACKEND: 'chroma',  // chroma-mcp via uvx; 'sqlite' embeds locally without Python
+    CLAUDE_MEM_EMBEDDING_MODEL: 'Xenova/all-MiniLM-L6-v2',  // Same model as Chroma's default embedding function
     // Token Economics
     CLAUDE_MEM_CONTEXT_SHOW_READ_TOKENS: 'true',
     CLAUDE_MEM_CONTEXT_SHOW_WORK_TOKENS: 'true',
@@ -112,6 +229,51 @@ export class SettingsDefaultsManager {
     CLAUDE_MEM_CONTEXT_SHOW_LAST_SUMMARY: 'true',
     CLAUDE_MEM_CONTEXT_SHOW_LAST_MESSAGE: 'false',
     CLAUDE_MEM_FOLDER_CLAUDEMD_ENABLED: 'false',
+    // Relevance Scoring
+    CLAUDE_MEM_CONTEXT_RANKING: 'relevance',  // Pick the most relevant observations instead of the latest
+    CLAUDE_MEM_CONTEXT_DECAY_HALF_LIFE_DAYS: '14',  // Recency component halves every 14 days
+    CLAUDE_MEM_CONTEXT_WEIGHT_RECENCY: '0.4',
+    CLAUDE_MEM_CONTEXT_WEIGHT_RETRIEVAL: '0.2',
+    CLAUDE_MEM_CONTEXT_WEIGHT_TYPE: '0.25',
+    CLAUDE_MEM_CONTEXT_WEIGHT_FILES: '0.15',
+    // Observation Quality
+    CLAUDE_MEM_QUALITY_DUPLICATE_SIMILARITY: '0.9',
+    CLAUDE_MEM_CONTEXT_MIN_QUALITY: '0',  // Scores are recorded but nothing is hidden by default
+    // Queue Scheduling
+    CLAUDE_MEM_QUEUE_SUMMARY_FIRST: 'true',
+    CLAUDE_MEM_QUEUE_MAX_IN_FLIGHT: '2',
+    CLAUDE_MEM_QUEUE_COALESCE_TOOLS: 'Read,Glob,Grep,LS',
+    CLAUDE_MEM_QUEUE_COALESCE_MAX: '5',
+    CLAUDE_MEM_QUEUE_MAX_PENDING: '500',
+    CLAUDE_MEM_QUEUE_OVERFLOW_ACTION: 'sample',
+    CLAUDE_MEM_QUEUE_SAMPLE_RATE: '0.1',
+    // Team Sync
+    CLAUDE_MEM_SYNC_SERVER_URL: '',  // Empty by default - nothing leaves the machine
+    CLAUDE_MEM_SYNC_TOKEN: '',
+    CLAUDE_MEM_SYNC_AUTHOR: '',
+    CLAUDE_MEM_SYNC_PROJECTS: '',  // Empty by default - no project is shared
+    CLAUDE_MEM_SYNC_INTERVAL_SECONDS: '60',
+    CLAUDE_MEM_CONTEXT_SHOW_TEAM_MEMORIES: 'true',
+    // Secret Redaction
+    CLAUDE_MEM_REDACTION_ENABLED: 'true',
+    CLAUDE_MEM_REDACTION_DISABLED_RULES: '',
+    CLAUDE_MEM_REDACTION_CUSTOM_RULES: '',
+    CLAUDE_MEM_REDACTION_ENTROPY_THRESHOLD: '4.5',  // Random base64 scores ~5, hex digests and prose stay below
+    // Digest Consolidation
+    CLAUDE_MEM_CONSOLIDATION_ENABLED: 'false',  // Off by default - each digest is a provider call
+    CLAUDE_MEM_CONSOLIDATION_AFTER_DAYS: '30',
+    CLAUDE_MEM_CONSOLIDATION_INTERVAL_MINUTES: '360',
+    CLAUDE_MEM_CONSOLIDATION_MIN_GROUP_SIZE: '5',
+    CLAUDE_MEM_CONSOLIDATION_MAX_DIGESTS_PER_RUN: '10',
+    CLAUDE_MEM_CONTEXT_PREFER_DIGESTS: 'true',
+    // File Memories (PreToolUse)
+    CLAUDE_MEM_FILE_CONTEXT_ENABLED: 'true',
+    CLAUDE_MEM_FILE_CONTEXT_MAX_TOKENS: '300',  // A few one-line memories, small enough to run before every edit
+    // Prompt-Time Retrieval (UserPromptSubmit)
+    CLAUDE_MEM_PROMPT_CONTEXT_ENABLED: 'false',  // Off by default - adds a vector query to every prompt
+    CLAUDE_MEM_PROMPT_CONTEXT_TOP_K: '3',
+    CLAUDE_MEM_PROMPT_CONTEXT_MIN_SIMILARITY: '0.5',
+    CLAUDE_MEM_PROMPT_CONTEXT_MAX_TOKENS: '400',
     // Project Filtering
     CLAUDE_MEM_IGNORED_PROJECTS: '',  // Empty by default - no projects ignored (all allowed)
     CLAUDE_MEM_ALLOWED_PROJECTS_ONLY: '',  // Empty by default - whitelist disabled (use blacklist)
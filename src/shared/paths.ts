@@ -47,6 +47,9 @@ export const MODES_DIR = join(DATA_DIR, 'modes');
 export const USER_SETTINGS_PATH = join(DATA_DIR, 'settings.json');
 export const DB_PATH = join(DATA_DIR, 'claude-mem.db');
 export const VECTOR_DB_DIR = join(DATA_DIR, 'vector-db');
+export const MODELS_DIR = join(DATA_DIR, 'models');
+export const TLS_DIR = join(DATA_DIR, 'tls');
+export const API_TOKENS_PATH = join(DATA_DIR, 'api-tokens.json');
 
 // Claude integration paths
 export const CLAUDE_SETTINGS_PATH = join(CLAUDE_CONFIG_DIR, 'settings.json');
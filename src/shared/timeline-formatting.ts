@@ -102,6 +102,22 @@ export function extractFirstFile(
   return 'General';
 }
 
+/**
+ * Attribution suffix for records shared by a teammate through team sync
+ * Returns an empty string for local records
+ */
+export function formatAuthorTag(author: string | null | undefined): string {
+  return author ? ` (@${author})` : '';
+}
+
+/**
+ * Marker for explicit memories saved with the remember tool
+ * Returns an empty string for agent-extracted observations
+ */
+export function formatOriginTag(origin: string | null | undefined): string {
+  return origin === 'user' ? ' [remembered]' : '';
+}
+
 /**
  * Estimate token count for text (rough approximation: ~4 chars per token)
  */
@@ -144,3 +160,47 @@ export function groupByDate<T>(
 
   return new Map(sortedEntries);
 }
+
+/**
+ * One line of a memory index injected mid-session (before a tool call or with a prompt)
+ */
+export interface MemoryIndexEntry {
+  id: number;
+  createdAtEpoch: number;
+  /** Why the memory was picked (e.g. its type, "gotcha", "remembered") */
+  label: string;
+  title: string | null;
+  subtitle: string | null;
+  author?: string | null;
+  /** Trailing detail such as a match score */
+  note?: string;
+}
+
+/**
+ * Render a memory index, keeping entries in order until the next one would exceed the token cap
+ * Header, lines and the get_observations footer all count toward the cap.
+ * Returns an empty text and no IDs when not even the first entry fits.
+ */
+export function fitMemoryIndex(
+  header: string,
+  entries: MemoryIndexEntry[],
+  maxTokens: number
+): { text: string; ids: number[] } {
+  const render = (lines: string[], ids: number[]): string =>
+    [header, ...lines, `Full details: get_observations(ids=[${ids.join(', ')}])`].join('\n');
+
+  const lines: string[] = [];
+  const ids: number[] = [];
+
+  for (const entry of entries) {
+    const title = entry.title || 'Untitled';
+    const summary = entry.subtitle ? `${title} - ${entry.subtitle}` : title;
+    const note = entry.note ? ` (${entry.note})` : '';
+    const line = `- #${entry.id} ${formatDate(entry.createdAtEpoch)} [${entry.label}] ${summary}${formatAuthorTag(entry.author)}${note}`;
+    if (estimateTokens(render([...lines, line], [...ids, entry.id])) > maxTokens) break;
+    lines.push(line);
+    ids.push(entry.id);
+  }
+
+  return ids.length > 0 ? { text: render(lines, ids), ids } : { text: '', ids: [] };
+}
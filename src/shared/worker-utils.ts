@@ -5,6 +5,7 @@ import { HOOK_TIMEOUTS, getTimeout } from "./hook-constants.js";
 import { SettingsDefaultsManager } from "./SettingsDefaultsManager.js";
 import { getWorkerRestartInstructions } from "../utils/error-messages.js";
 import { MARKETPLACE_ROOT } from "./paths.js";
+import { loadRedactionConfig, type RedactionConfig } from "../utils/secret-redaction.js";
 
 // Named constants for health checks
 const HEALTH_CHECK_TIMEOUT_MS = getTimeout(HOOK_TIMEOUTS.HEALTH_CHECK);
@@ -12,8 +13,10 @@ const HEALTH_CHECK_TIMEOUT_MS = getTimeout(HOOK_TIMEOUTS.HEALTH_CHECK);
 // Cache to avoid repeated settings file reads
 let cachedPort: number | null = null;
 let cachedHost: string | null = null;
+let cachedRemoteWorker: { url: string; token: string } | null = null;
 let cachedAllowedProjectsOnly: string[] | null = null;
 let cachedIgnoredProjects: string[] | null = null;
+let cachedRedactionConfig: RedactionConfig | null = null;
 
 /**
  * Get the worker port number from settings
@@ -48,14 +51,66 @@ export function getWorkerHost(): string {
 }
 
 /**
- * Clear the cached port, host, and project filter values
+ * Get the worker connection used by API clients (MCP server)
+ * CLAUDE_MEM_WORKER_URL / CLAUDE_MEM_WORKER_TOKEN from the environment or settings file point at a
+ * remote worker; by default clients talk to the local worker at http://host:port without a token
+ */
+function getRemoteWorker(): { url: string; token: string } {
+  if (cachedRemoteWorker !== null) {
+    return cachedRemoteWorker;
+  }
+
+  const settingsPath = path.join(SettingsDefaultsManager.get('CLAUDE_MEM_DATA_DIR'), 'settings.json');
+  const settings = SettingsDefaultsManager.loadFromFile(settingsPath);
+  cachedRemoteWorker = {
+    url: (process.env.CLAUDE_MEM_WORKER_URL || settings.CLAUDE_MEM_WORKER_URL).replace(/\/+$/, ''),
+    token: process.env.CLAUDE_MEM_WORKER_TOKEN || settings.CLAUDE_MEM_WORKER_TOKEN
+  };
+  return cachedRemoteWorker;
+}
+
+/**
+ * Get the base URL of the worker API (no trailing slash)
+ */
+export function getWorkerBaseUrl(): string {
+  return getRemoteWorker().url || `http://${getWorkerHost()}:${getWorkerPort()}`;
+}
+
+/**
+ * Get headers authenticating a client to the worker API (empty when no token is configured)
+ */
+export function getWorkerAuthHeaders(): Record<string, string> {
+  const { token } = getRemoteWorker();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Get the secret redaction configuration
+ * Uses CLAUDE_MEM_REDACTION_* settings (built-in rules, disabled rules, custom rules, entropy threshold)
+ * Caches the value to avoid repeated file reads and regex compilation
+ */
+export function getRedactionConfig(): RedactionConfig {
+  if (cachedRedactionConfig !== null) {
+    return cachedRedactionConfig;
+  }
+
+  const settingsPath = path.join(SettingsDefaultsManager.get('CLAUDE_MEM_DATA_DIR'), 'settings.json');
+  const settings = SettingsDefaultsManager.loadFromFile(settingsPath);
+  cachedRedactionConfig = loadRedactionConfig(settings);
+  return cachedRedactionConfig;
+}
+
+/**
+ * Clear the cached port, host, project filter and redaction values
  * Call this when settings are updated to force re-reading from file
  */
 export function clearPortCache(): void {
   cachedPort = null;
   cachedHost = null;
+  cachedRemoteWorker = null;
   cachedAllowedProjectsOnly = null;
   cachedIgnoredProjects = null;
+  cachedRedactionConfig = null;
 }
 
 /**
@@ -58,6 +58,13 @@ export interface SdkSessionRecord {
   prompt_counter?: number;
 }
 
+/**
+ * How an observation was created: extracted by an LLM provider, by the rule-based
+ * heuristic extractor from the raw tool event, or stored explicitly ('user', e.g. the
+ * MCP remember tool)
+ */
+export type ObservationOrigin = 'llm' | 'heuristic' | 'user';
+
 /**
  * Observation database record
  */
@@ -70,10 +77,20 @@ export interface ObservationRecord {
   created_at: string;
   created_at_epoch: number;
   title?: string;
+  subtitle?: string | null;
+  narrative?: string | null;
+  facts?: string | null;  // JSON array
+  concepts?: string | null;  // JSON array
+  files_read?: string | null;  // JSON array
+  files_modified?: string | null;  // JSON array
   concept?: string;
   source_files?: string;
   prompt_number?: number;
   discovery_tokens?: number;
+  origin?: ObservationOrigin;
+  quality_score?: number | null;
+  forgotten_at_epoch?: number | null;  // Set by the MCP forget tool
+  forgotten_reason?: string | null;
 }
 
 /**
@@ -88,6 +105,7 @@ export interface SessionSummaryRecord {
   learned: string | null;
   completed: string | null;
   next_steps: string | null;
+  notes?: string | null;
   created_at: string;
   created_at_epoch: number;
   prompt_number?: number;
@@ -3,6 +3,7 @@ import { Header } from './components/Header';
 import { Feed } from './components/Feed';
 import { ContextSettingsModal } from './components/ContextSettingsModal';
 import { LogsDrawer } from './components/LogsModal';
+import { QueuePanel } from './components/QueuePanel';
 import { useSSE } from './hooks/useSSE';
 import { useSettings } from './hooks/useSettings';
 import { useStats } from './hooks/useStats';
@@ -15,6 +16,7 @@ export function App() {
   const [currentFilter, setCurrentFilter] = useState('');
   const [contextPreviewOpen, setContextPreviewOpen] = useState(false);
   const [logsModalOpen, setLogsModalOpen] = useState(false);
+  const [queuePanelOpen, setQueuePanelOpen] = useState(false);
   const [paginatedObservations, setPaginatedObservations] = useState<Observation[]>([]);
   const [paginatedSummaries, setPaginatedSummaries] = useState<Summary[]>([]);
   const [paginatedPrompts, setPaginatedPrompts] = useState<UserPrompt[]>([]);
@@ -60,6 +62,11 @@ export function App() {
     setLogsModalOpen(prev => !prev);
   }, []);
 
+  // Toggle queue panel
+  const toggleQueuePanel = useCallback(() => {
+    setQueuePanelOpen(prev => !prev);
+  }, []);
+
   // Handle loading more data
   const handleLoadMore = useCallback(async () => {
     try {
@@ -83,6 +90,23 @@ export function App() {
     }
   }, [currentFilter, pagination.observations, pagination.summaries, pagination.prompts]);
 
+  // Apply local observation edits/deletes to the paginated list
+  // (the SSE list is kept in sync by observation_updated/observation_deleted events)
+  const handleObservationUpdated = useCallback((updated: Observation) => {
+    setPaginatedObservations(prev => prev.map(obs => obs.id === updated.id ? updated : obs));
+  }, []);
+
+  const handleObservationDeleted = useCallback((id: number) => {
+    setPaginatedObservations(prev => prev.filter(obs => obs.id !== id));
+  }, []);
+
+  // Refresh stats (provider spend) whenever the queue goes idle
+  useEffect(() => {
+    if (!isProcessing) {
+      refreshStats();
+    }
+  }, [isProcessing, refreshStats]);
+
   // Reset paginated data and load first page when filter changes
   useEffect(() => {
     setPaginatedObservations([]);
@@ -104,6 +128,7 @@ export function App() {
         themePreference={preference}
         onThemeChange={setThemePreference}
         onContextPreviewToggle={toggleContextPreview}
+        budget={stats.budget}
       />
 
       <Feed
@@ -113,6 +138,8 @@ export function App() {
         onLoadMore={handleLoadMore}
         isLoading={pagination.observations.isLoading || pagination.summaries.isLoading || pagination.prompts.isLoading}
         hasMore={pagination.observations.hasMore || pagination.summaries.hasMore || pagination.prompts.hasMore}
+        onObservationUpdated={handleObservationUpdated}
+        onObservationDeleted={handleObservationDeleted}
       />
 
       <ContextSettingsModal
@@ -139,6 +166,26 @@ export function App() {
         isOpen={logsModalOpen}
         onClose={toggleLogsModal}
       />
+
+      <button
+        className="console-toggle-btn queue-toggle-btn"
+        onClick={toggleQueuePanel}
+        title="Toggle Queue"
+      >
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <line x1="8" y1="6" x2="21" y2="6"></line>
+          <line x1="8" y1="12" x2="21" y2="12"></line>
+          <line x1="8" y1="18" x2="21" y2="18"></line>
+          <line x1="3" y1="6" x2="3.01" y2="6"></line>
+          <line x1="3" y1="12" x2="3.01" y2="12"></line>
+          <line x1="3" y1="18" x2="3.01" y2="18"></line>
+        </svg>
+      </button>
+
+      <QueuePanel
+        isOpen={queuePanelOpen}
+        onClose={toggleQueuePanel}
+      />
     </>
   );
 }
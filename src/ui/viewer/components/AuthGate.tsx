@@ -0,0 +1,78 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { API_ENDPOINTS } from '../constants/api';
+
+interface AuthGateProps {
+  children: React.ReactNode;
+}
+
+type AuthState = 'checking' | 'required' | 'authenticated';
+
+/**
+ * Renders the viewer once the worker accepts this browser.
+ * Local browsers pass straight through; remote ones log in with an API token,
+ * which the worker stores in an HttpOnly cookie used by fetch and the event stream.
+ */
+export function AuthGate({ children }: AuthGateProps) {
+  const [state, setState] = useState<AuthState>('checking');
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetch(API_ENDPOINTS.AUTH_STATUS)
+      .then(response => response.json())
+      .then(status => setState(status.authRequired && !status.authenticated ? 'required' : 'authenticated'))
+      .catch(err => {
+        // Older workers have no auth endpoints; let the viewer handle connection errors
+        console.error('Failed to load auth status:', err);
+        setState('authenticated');
+      });
+  }, []);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(API_ENDPOINTS.AUTH_LOGIN, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: token.trim() })
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || `Login failed (${response.status})`);
+        return;
+      }
+      setState('authenticated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [token]);
+
+  if (state === 'checking') return null;
+  if (state === 'authenticated') return <>{children}</>;
+
+  return (
+    <div className="modal-backdrop">
+      <form className="login-modal" onSubmit={handleSubmit}>
+        <h2>claude-mem</h2>
+        <p>This worker requires an API token for remote access. Tokens are listed in ~/.claude-mem/api-tokens.json on the worker's machine.</p>
+        <input
+          type="password"
+          placeholder="cmem_..."
+          value={token}
+          onChange={e => setToken(e.target.value)}
+          autoFocus
+        />
+        {error && <div className="login-error">{error}</div>}
+        <button type="submit" disabled={isSubmitting || !token.trim()}>
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
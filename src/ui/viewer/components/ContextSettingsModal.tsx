@@ -423,6 +423,21 @@ export function ContextSettingsModal({
                   <option value="claude">Claude (uses your Claude account)</option>
                   <option value="gemini">Gemini (uses API key)</option>
                   <option value="openrouter">OpenRouter (multi-model)</option>
+                  <option value="openai-compatible">OpenAI-compatible (Ollama, llama.cpp, vLLM)</option>
+                </select>
+              </FormField>
+
+              <FormField
+                label="Extraction"
+                tooltip="Rule-based extraction derives minimal observations from edits, reads and test runs without an LLM"
+              >
+                <select
+                  value={formState.CLAUDE_MEM_EXTRACTION_MODE || 'llm'}
+                  onChange={(e) => updateSetting('CLAUDE_MEM_EXTRACTION_MODE', e.target.value)}
+                >
+                  <option value="llm">LLM only</option>
+                  <option value="hybrid">LLM with heuristic fallback</option>
+                  <option value="heuristic">Heuristic only (no LLM)</option>
                 </select>
               </FormField>
 
@@ -529,6 +544,44 @@ export function ContextSettingsModal({
                 </>
               )}
 
+              {formState.CLAUDE_MEM_PROVIDER === 'openai-compatible' && (
+                <>
+                  <FormField
+                    label="Base URL"
+                    tooltip="Base URL of an OpenAI-compatible server, up to and including /v1 (Ollama default: http://localhost:11434/v1)"
+                  >
+                    <input
+                      type="text"
+                      value={formState.CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL || ''}
+                      onChange={(e) => updateSetting('CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL', e.target.value)}
+                      placeholder="http://localhost:11434/v1"
+                    />
+                  </FormField>
+                  <FormField
+                    label="Model"
+                    tooltip="Model name as the server knows it (e.g., llama3.1, qwen2.5:14b)"
+                  >
+                    <input
+                      type="text"
+                      value={formState.CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL || 'llama3.1'}
+                      onChange={(e) => updateSetting('CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL', e.target.value)}
+                      placeholder="e.g., llama3.1"
+                    />
+                  </FormField>
+                  <FormField
+                    label="API Key (Optional)"
+                    tooltip="Bearer token, only needed if your server requires one"
+                  >
+                    <input
+                      type="password"
+                      value={formState.CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY || ''}
+                      onChange={(e) => updateSetting('CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY', e.target.value)}
+                      placeholder="Leave empty for local servers"
+                    />
+                  </FormField>
+                </>
+              )}
+
               <FormField
                 label="Worker Port"
                 tooltip="Port for the background worker service"
@@ -13,9 +13,11 @@ interface FeedProps {
   onLoadMore: () => void;
   isLoading: boolean;
   hasMore: boolean;
+  onObservationUpdated?: (observation: Observation) => void;
+  onObservationDeleted?: (id: number) => void;
 }
 
-export function Feed({ observations, summaries, prompts, onLoadMore, isLoading, hasMore }: FeedProps) {
+export function Feed({ observations, summaries, prompts, onLoadMore, isLoading, hasMore, onObservationUpdated, onObservationDeleted }: FeedProps) {
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const feedRef = useRef<HTMLDivElement>(null);
   const onLoadMoreRef = useRef(onLoadMore);
@@ -67,7 +69,14 @@ export function Feed({ observations, summaries, prompts, onLoadMore, isLoading,
         {items.map(item => {
           const key = `${item.itemType}-${item.id}`;
           if (item.itemType === 'observation') {
-            return <ObservationCard key={key} observation={item} />;
+            return (
+              <ObservationCard
+                key={key}
+                observation={item}
+                onUpdated={onObservationUpdated}
+                onDeleted={onObservationDeleted}
+              />
+            );
           } else if (item.itemType === 'summary') {
             return <SummaryCard key={key} summary={item} />;
           } else {
@@ -4,6 +4,7 @@ import { ThemePreference } from '../hooks/useTheme';
 import { GitHubStarsButton } from './GitHubStarsButton';
 import { useSpinningFavicon } from '../hooks/useSpinningFavicon';
 import { useBuildInfo } from '../hooks/useBuildInfo';
+import { BudgetStats, BudgetPeriodStats } from '../types';
 
 interface HeaderProps {
   isConnected: boolean;
@@ -15,6 +16,35 @@ interface HeaderProps {
   themePreference: ThemePreference;
   onThemeChange: (theme: ThemePreference) => void;
   onContextPreviewToggle: () => void;
+  budget?: BudgetStats;
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function BudgetStatus({ budget }: { budget: BudgetStats }) {
+  // Show the period with a limit, preferring the one that is exhausted
+  const periods: Array<[string, BudgetPeriodStats]> = [['today', budget.daily], ['this month', budget.monthly]];
+  const limited = periods.filter(([, period]) => period.limitUsd > 0);
+  if (limited.length === 0) return null;
+  const [label, period] = limited.find(([, p]) => p.exhausted) ?? limited[0];
+
+  const stateLabel = budget.state === 'paused'
+    ? ' · paused'
+    : budget.state === 'degraded' ? ` · ${budget.degradeProvider}` : '';
+  const breakdown = period.providers
+    .map(spend => `${spend.provider}: ${formatUsd(spend.cost_usd)} (${spend.tokens.toLocaleString()} tokens)`)
+    .join('\n');
+
+  return (
+    <span
+      className={`budget-status budget-status-${budget.state}`}
+      title={`Provider spend ${label}${breakdown ? `\n${breakdown}` : ''}`}
+    >
+      {formatUsd(period.spentUsd)} / {formatUsd(period.limitUsd)} {label}{stateLabel}
+    </span>
+  );
 }
 
 export function Header({
@@ -26,7 +56,8 @@ export function Header({
   queueDepth,
   themePreference,
   onThemeChange,
-  onContextPreviewToggle
+  onContextPreviewToggle,
+  budget
 }: HeaderProps) {
   useSpinningFavicon(isProcessing);
   const { buildDate } = useBuildInfo();
@@ -46,6 +77,7 @@ export function Header({
         {buildDate && <span className="build-time">{buildDate}</span>}
       </h1>
       <div className="status">
+        {budget && <BudgetStatus budget={budget} />}
         <a
           href="https://docs.claude-mem.ai"
           target="_blank"
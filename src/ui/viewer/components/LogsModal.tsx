@@ -2,15 +2,27 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 
 // Log levels and components matching the logger.ts definitions
 type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
-type LogComponent = 'HOOK' | 'WORKER' | 'SDK' | 'PARSER' | 'DB' | 'SYSTEM' | 'HTTP' | 'SESSION' | 'CHROMA';
-
-interface ParsedLogLine {
-  raw: string;
-  timestamp?: string;
-  level?: LogLevel;
-  component?: LogComponent;
+type LogComponent = 'HOOK' | 'WORKER' | 'SDK' | 'PARSER' | 'DB' | 'SYSTEM' | 'HTTP' | 'SESSION' | 'CHROMA' | 'FOLDER_INDEX' | 'SYNC' | 'DIGEST' | 'ROUTER' | 'QUEUE';
+
+// Entry as returned by GET /api/logs (see src/utils/log-query.ts)
+interface LogEntry {
+  date: string;
+  timestamp: string;
+  level: LogLevel;
+  component: LogComponent;
   correlationId?: string;
-  message?: string;
+  sessionId?: number;
+  message: string;
+  raw: string;
+}
+
+interface LogDateSummary {
+  date: string;
+  files: number;
+  bytes: number;
+}
+
+interface ParsedLogLine extends LogEntry {
   isSpecial?: 'dataIn' | 'dataOut' | 'success' | 'failure' | 'timing' | 'happyPath';
 }
 
@@ -33,22 +45,22 @@ const LOG_COMPONENTS: { key: LogComponent; label: string; icon: string; color: s
   { key: 'HTTP', label: 'HTTP', icon: '🌐', color: '#39d353' },
   { key: 'SESSION', label: 'Session', icon: '📋', color: '#db61a2' },
   { key: 'CHROMA', label: 'Chroma', icon: '🔮', color: '#a855f7' },
+  { key: 'QUEUE', label: 'Queue', icon: '📥', color: '#e3b341' },
+  { key: 'ROUTER', label: 'Router', icon: '🔀', color: '#56d4dd' },
+  { key: 'SYNC', label: 'Sync', icon: '🔄', color: '#7ee787' },
+  { key: 'DIGEST', label: 'Digest', icon: '📰', color: '#ffa657' },
+  { key: 'FOLDER_INDEX', label: 'Folders', icon: '📁', color: '#d2a8ff' },
 ];
 
-// Parse a single log line into structured data
-function parseLogLine(line: string): ParsedLogLine {
-  // Pattern: [timestamp] [LEVEL] [COMPONENT] [correlation?] message
-  // Example: [2025-01-02 14:30:45.123] [INFO ] [WORKER] [session-123] → message
-  const pattern = /^\[([^\]]+)\]\s+\[(\w+)\s*\]\s+\[(\w+)\s*\]\s+(?:\[([^\]]+)\]\s+)?(.*)$/;
-  const match = line.match(pattern);
-
-  if (!match) {
-    return { raw: line };
-  }
+const ALL_LEVELS = LOG_LEVELS.map(l => l.key);
+const ALL_COMPONENTS = LOG_COMPONENTS.map(c => c.key);
 
-  const [, timestamp, level, component, correlationId, message] = match;
+// Debounce for the text and session inputs before querying the server
+const FILTER_DEBOUNCE_MS = 300;
 
-  // Detect special message types
+// Detect special message types for highlighting
+function classifyEntry(entry: LogEntry): ParsedLogLine {
+  const { message } = entry;
   let isSpecial: ParsedLogLine['isSpecial'] = undefined;
   if (message.startsWith('→')) isSpecial = 'dataIn';
   else if (message.startsWith('←')) isSpecial = 'dataOut';
@@ -57,15 +69,26 @@ function parseLogLine(line: string): ParsedLogLine {
   else if (message.startsWith('⏱')) isSpecial = 'timing';
   else if (message.includes('[HAPPY-PATH]')) isSpecial = 'happyPath';
 
-  return {
-    raw: line,
-    timestamp,
-    level: level?.trim() as LogLevel,
-    component: component?.trim() as LogComponent,
-    correlationId: correlationId || undefined,
-    message,
-    isSpecial,
-  };
+  return { ...entry, isSpecial };
+}
+
+// Build the /api/logs query string; all-selected chips send no filter
+function buildLogsQuery(filters: {
+  levels: Set<LogLevel>;
+  components: Set<LogComponent>;
+  session: string;
+  text: string;
+  from: string;
+  to: string;
+}): string {
+  const params = new URLSearchParams();
+  if (filters.levels.size < ALL_LEVELS.length) params.set('level', [...filters.levels].join(','));
+  if (filters.components.size < ALL_COMPONENTS.length) params.set('component', [...filters.components].join(','));
+  if (filters.session.trim()) params.set('session', filters.session.trim());
+  if (filters.text.trim()) params.set('q', filters.text.trim());
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  return params.toString();
 }
 
 interface LogsDrawerProps {
@@ -74,7 +97,9 @@ interface LogsDrawerProps {
 }
 
 export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
-  const [logs, setLogs] = useState<string>('');
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [logDates, setLogDates] = useState<LogDateSummary[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState(false);
@@ -86,31 +111,32 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
   const wasAtBottomRef = useRef(true);
 
   // Filter state
-  const [activeLevels, setActiveLevels] = useState<Set<LogLevel>>(
-    new Set(['DEBUG', 'INFO', 'WARN', 'ERROR'])
-  );
-  const [activeComponents, setActiveComponents] = useState<Set<LogComponent>>(
-    new Set(['HOOK', 'WORKER', 'SDK', 'PARSER', 'DB', 'SYSTEM', 'HTTP', 'SESSION', 'CHROMA'])
-  );
+  const [activeLevels, setActiveLevels] = useState<Set<LogLevel>>(new Set(ALL_LEVELS));
+  const [activeComponents, setActiveComponents] = useState<Set<LogComponent>>(new Set(ALL_COMPONENTS));
   const [alignmentOnly, setAlignmentOnly] = useState(false);
-
-  // Parse and filter log lines
-  const parsedLines = useMemo(() => {
-    if (!logs) return [];
-    return logs.split('\n').map(parseLogLine);
-  }, [logs]);
+  const [sessionFilter, setSessionFilter] = useState('');
+  const [textFilter, setTextFilter] = useState('');
+  // Empty means today (the server default)
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  // Level, component, session, text and date filters are applied by the server
+  const query = useMemo(() => buildLogsQuery({
+    levels: activeLevels,
+    components: activeComponents,
+    session: sessionFilter,
+    text: alignmentOnly ? '[ALIGNMENT]' : textFilter,
+    from: fromDate,
+    to: toDate,
+  }), [activeLevels, activeComponents, sessionFilter, textFilter, alignmentOnly, fromDate, toDate]);
+
+  // No chips selected in a group matches nothing, so skip the request
+  const matchesNothing = activeLevels.size === 0 || activeComponents.size === 0;
 
   const filteredLines = useMemo(() => {
-    return parsedLines.filter(line => {
-      // Alignment filter - if enabled, only show [ALIGNMENT] lines
-      if (alignmentOnly) {
-        return line.raw.includes('[ALIGNMENT]');
-      }
-      // Always show unparsed lines
-      if (!line.level || !line.component) return true;
-      return activeLevels.has(line.level) && activeComponents.has(line.component);
-    });
-  }, [parsedLines, activeLevels, activeComponents, alignmentOnly]);
+    if (matchesNothing) return [];
+    return entries.map(classifyEntry);
+  }, [entries, matchesNothing]);
 
   // Check if user is at bottom before updating
   const checkIfAtBottom = useCallback(() => {
@@ -133,23 +159,37 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
     setIsLoading(true);
     setError(null);
     try {
-      const response = await fetch('/api/logs');
+      const response = await fetch(query ? `/api/logs?${query}` : '/api/logs');
       if (!response.ok) {
         throw new Error(`Failed to fetch logs: ${response.statusText}`);
       }
       const data = await response.json();
-      setLogs(data.logs || '');
+      setEntries(data.entries || []);
+      setTruncated(!!data.truncated);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
       setIsLoading(false);
     }
-  }, [checkIfAtBottom]);
+  }, [checkIfAtBottom, query]);
+
+  const fetchLogDates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/logs/dates');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch log dates: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setLogDates(data.dates || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, []);
 
   // Scroll to bottom after logs update
   useEffect(() => {
     scrollToBottom();
-  }, [logs, scrollToBottom]);
+  }, [entries, scrollToBottom]);
 
   const handleClearLogs = useCallback(async () => {
     if (!confirm('Are you sure you want to clear all logs?')) {
@@ -162,13 +202,15 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
       if (!response.ok) {
         throw new Error(`Failed to clear logs: ${response.statusText}`);
       }
-      setLogs('');
+      setEntries([]);
+      setTruncated(false);
+      fetchLogDates();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [fetchLogDates]);
 
   // Handle resize
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -200,23 +242,32 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
     };
   }, [isResizing]);
 
-  // Fetch logs when drawer opens
+  // List the days with logs when drawer opens
   useEffect(() => {
     if (isOpen) {
-      wasAtBottomRef.current = true; // Start at bottom on open
-      fetchLogs();
+      fetchLogDates();
+    }
+  }, [isOpen, fetchLogDates]);
+
+  // Fetch logs when drawer opens and (debounced) when filters change
+  useEffect(() => {
+    if (!isOpen || matchesNothing) {
+      return;
     }
-  }, [isOpen, fetchLogs]);
+    wasAtBottomRef.current = true; // Start at bottom on open or new filters
+    const timeout = setTimeout(fetchLogs, FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [isOpen, matchesNothing, fetchLogs]);
 
   // Auto-refresh logs every 2 seconds if enabled
   useEffect(() => {
-    if (!isOpen || !autoRefresh) {
+    if (!isOpen || !autoRefresh || matchesNothing) {
       return;
     }
 
     const interval = setInterval(fetchLogs, 2000);
     return () => clearInterval(interval);
-  }, [isOpen, autoRefresh, fetchLogs]);
+  }, [isOpen, autoRefresh, matchesNothing, fetchLogs]);
 
   // Toggle level filter
   const toggleLevel = useCallback((level: LogLevel) => {
@@ -247,7 +298,7 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
   // Select all / none for levels
   const setAllLevels = useCallback((enabled: boolean) => {
     if (enabled) {
-      setActiveLevels(new Set(['DEBUG', 'INFO', 'WARN', 'ERROR']));
+      setActiveLevels(new Set(ALL_LEVELS));
     } else {
       setActiveLevels(new Set());
     }
@@ -256,7 +307,7 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
   // Select all / none for components
   const setAllComponents = useCallback((enabled: boolean) => {
     if (enabled) {
-      setActiveComponents(new Set(['HOOK', 'WORKER', 'SDK', 'PARSER', 'DB', 'SYSTEM', 'HTTP', 'SESSION', 'CHROMA']));
+      setActiveComponents(new Set(ALL_COMPONENTS));
     } else {
       setActiveComponents(new Set());
     }
@@ -296,17 +347,9 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
 
   // Render a single log line with syntax highlighting
   const renderLogLine = (line: ParsedLogLine, index: number) => {
-    if (!line.timestamp) {
-      // Unparsed line - render as-is
-      return (
-        <div key={index} className="log-line log-line-raw">
-          {line.raw}
-        </div>
-      );
-    }
-
     const levelConfig = LOG_LEVELS.find(l => l.key === line.level);
     const componentConfig = LOG_COMPONENTS.find(c => c.key === line.component);
+    const correlation = line.correlationId ?? (line.sessionId !== undefined ? `session-${line.sessionId}` : undefined);
 
     return (
       <div key={index} className="log-line" style={getLineStyle(line)}>
@@ -320,9 +363,16 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
           [{componentConfig?.icon || ''} {line.component?.padEnd(7)}]
         </span>
         {' '}
-        {line.correlationId && (
+        {correlation && (
           <>
-            <span className="log-correlation">[{line.correlationId}]</span>
+            <span
+              className="log-correlation"
+              onClick={() => setSessionFilter(line.correlationId ?? String(line.sessionId))}
+              style={{ cursor: 'pointer' }}
+              title="Show only this session"
+            >
+              [{correlation}]
+            </span>
             {' '}
           </>
         )}
@@ -406,6 +456,49 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
             </button>
           </div>
         </div>
+        <div className="console-filter-section">
+          <span className="console-filter-label">Search:</span>
+          <div className="console-filter-chips">
+            <input
+              type="search"
+              className="console-filter-input"
+              placeholder="Text"
+              value={textFilter}
+              onChange={(e) => setTextFilter(e.target.value)}
+              disabled={alignmentOnly}
+            />
+            <input
+              type="search"
+              className="console-filter-input"
+              placeholder="Session"
+              value={sessionFilter}
+              onChange={(e) => setSessionFilter(e.target.value)}
+              title="Session ID, memory session ID or correlation ID"
+            />
+            <select
+              className="console-filter-input"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              title="First day"
+            >
+              <option value="">From: today</option>
+              {logDates.map(d => (
+                <option key={d.date} value={d.date}>From: {d.date}</option>
+              ))}
+            </select>
+            <select
+              className="console-filter-input"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              title="Last day"
+            >
+              <option value="">To: today</option>
+              {logDates.map(d => (
+                <option key={d.date} value={d.date}>To: {d.date}</option>
+              ))}
+            </select>
+          </div>
+        </div>
         <div className="console-filter-section">
           <span className="console-filter-label">Levels:</span>
           <div className="console-filter-chips">
@@ -466,6 +559,9 @@ export function LogsDrawer({ isOpen, onClose }: LogsDrawerProps) {
 
       <div className="console-content" ref={contentRef}>
         <div className="console-logs">
+          {truncated && filteredLines.length > 0 && (
+            <div className="console-truncated">Showing the newest {filteredLines.length} entries; narrow the filters to see older ones</div>
+          )}
           {filteredLines.length === 0 ? (
             <div className="log-line log-line-empty">No logs available</div>
           ) : (
@@ -1,9 +1,36 @@
 import React, { useState } from 'react';
 import { Observation } from '../types';
 import { formatDate } from '../utils/formatters';
+import { API_ENDPOINTS } from '../constants/api';
 
 interface ObservationCardProps {
   observation: Observation;
+  onUpdated?: (observation: Observation) => void;
+  onDeleted?: (id: number) => void;
+}
+
+interface EditDraft {
+  title: string;
+  subtitle: string;
+  narrative: string;
+}
+
+// Parse a comma/space separated list of observation IDs (e.g. "12, 15 #18")
+function parseIdList(input: string): number[] {
+  return input
+    .split(/[\s,]+/)
+    .map(part => parseInt(part.replace('#', ''), 10))
+    .filter(id => Number.isInteger(id));
+}
+
+// Read the error message from a failed worker response
+async function readError(res: Response): Promise<string> {
+  try {
+    const body = await res.json();
+    return body.error || `HTTP ${res.status}`;
+  } catch {
+    return `HTTP ${res.status}`;
+  }
 }
 
 // Helper to strip project root from file paths
@@ -30,11 +57,104 @@ function stripProjectRoot(filePath: string): string {
   return parts.length > 3 ? parts.slice(-3).join('/') : filePath;
 }
 
-export function ObservationCard({ observation }: ObservationCardProps) {
+export function ObservationCard({ observation, onUpdated, onDeleted }: ObservationCardProps) {
   const [showFacts, setShowFacts] = useState(false);
   const [showNarrative, setShowNarrative] = useState(false);
+  const [draft, setDraft] = useState<EditDraft | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [actionError, setActionError] = useState('');
   const date = formatDate(observation.created_at_epoch);
 
+  const startEditing = () => {
+    setActionError('');
+    setDraft({
+      title: observation.title || '',
+      subtitle: observation.subtitle || '',
+      narrative: observation.narrative || ''
+    });
+  };
+
+  const saveEdit = async () => {
+    if (!draft) return;
+    setIsBusy(true);
+    setActionError('');
+    try {
+      const res = await fetch(`${API_ENDPOINTS.OBSERVATION}/${observation.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: draft.title.trim() || null,
+          subtitle: draft.subtitle.trim() || null,
+          narrative: draft.narrative.trim() || null,
+          changedBy: 'viewer'
+        })
+      });
+      if (!res.ok) {
+        setActionError(await readError(res));
+        return;
+      }
+      onUpdated?.(await res.json());
+      setDraft(null);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const deleteObservation = async () => {
+    const reason = window.prompt(`Delete observation #${observation.id}? Optional reason:`, '');
+    if (reason === null) return;
+    setIsBusy(true);
+    setActionError('');
+    try {
+      const res = await fetch(`${API_ENDPOINTS.OBSERVATION}/${observation.id}`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: reason.trim() || null, changedBy: 'viewer' })
+      });
+      if (!res.ok) {
+        setActionError(await readError(res));
+        return;
+      }
+      onDeleted?.(observation.id);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const mergeObservations = async () => {
+    const input = window.prompt(`Merge which observation IDs into #${observation.id}? (comma separated)`, '');
+    if (!input) return;
+    const sourceIds = parseIdList(input).filter(id => id !== observation.id);
+    if (sourceIds.length === 0) {
+      setActionError('No valid observation IDs to merge');
+      return;
+    }
+    setIsBusy(true);
+    setActionError('');
+    try {
+      const res = await fetch(API_ENDPOINTS.OBSERVATIONS_MERGE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [observation.id, ...sourceIds], changedBy: 'viewer' })
+      });
+      if (!res.ok) {
+        setActionError(await readError(res));
+        return;
+      }
+      const result: { observation: Observation; mergedIds: number[] } = await res.json();
+      onUpdated?.(result.observation);
+      result.mergedIds.forEach(id => onDeleted?.(id));
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
   // Parse JSON fields
   const facts = observation.facts ? JSON.parse(observation.facts) : [];
   const concepts = observation.concepts ? JSON.parse(observation.concepts) : [];
@@ -52,6 +172,12 @@ export function ObservationCard({ observation }: ObservationCardProps) {
           <span className={`card-type type-${observation.type}`}>
             {observation.type}
           </span>
+          {observation.origin === 'heuristic' && (
+            <span className="card-origin" title="Derived from the tool event without an LLM">heuristic</span>
+          )}
+          {observation.origin === 'user' && (
+            <span className="card-origin" title="Saved explicitly with the remember tool">remembered</span>
+          )}
           <span className="card-project">{observation.project}</span>
         </div>
         <div className="view-mode-toggles">
@@ -87,11 +213,84 @@ export function ObservationCard({ observation }: ObservationCardProps) {
               <span>narrative</span>
             </button>
           )}
+          <button
+            className={`view-mode-toggle ${draft ? 'active' : ''}`}
+            onClick={() => (draft ? setDraft(null) : startEditing())}
+            disabled={isBusy}
+            title="Edit title, subtitle and narrative"
+          >
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M12 20h9"></path>
+              <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
+            </svg>
+            <span>edit</span>
+          </button>
+          <button
+            className="view-mode-toggle"
+            onClick={mergeObservations}
+            disabled={isBusy}
+            title="Merge other observations into this one"
+          >
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <circle cx="18" cy="18" r="3"></circle>
+              <circle cx="6" cy="6" r="3"></circle>
+              <path d="M6 21V9a9 9 0 0 0 9 9"></path>
+            </svg>
+            <span>merge</span>
+          </button>
+          <button
+            className="view-mode-toggle danger"
+            onClick={deleteObservation}
+            disabled={isBusy}
+            title="Delete this observation"
+          >
+            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <polyline points="3 6 5 6 21 6"></polyline>
+              <path d="M19 6l-1 14a2 2 0 0 1-2 2H8a2 2 0 0 1-2-2L5 6"></path>
+              <path d="M10 11v6"></path>
+              <path d="M14 11v6"></path>
+            </svg>
+            <span>delete</span>
+          </button>
         </div>
       </div>
 
-      {/* Title */}
-      <div className="card-title">{observation.title || 'Untitled'}</div>
+      {draft ? (
+        <div className="card-edit-form">
+          <input
+            className="card-edit-input"
+            value={draft.title}
+            placeholder="Title"
+            onChange={e => setDraft({ ...draft, title: e.target.value })}
+          />
+          <input
+            className="card-edit-input"
+            value={draft.subtitle}
+            placeholder="Subtitle"
+            onChange={e => setDraft({ ...draft, subtitle: e.target.value })}
+          />
+          <textarea
+            className="card-edit-input"
+            value={draft.narrative}
+            placeholder="Narrative"
+            rows={5}
+            onChange={e => setDraft({ ...draft, narrative: e.target.value })}
+          />
+          <div className="card-edit-actions">
+            <button className="view-mode-toggle" onClick={() => setDraft(null)} disabled={isBusy}>
+              <span>cancel</span>
+            </button>
+            <button className="view-mode-toggle active" onClick={saveEdit} disabled={isBusy}>
+              <span>{isBusy ? 'saving...' : 'save'}</span>
+            </button>
+          </div>
+        </div>
+      ) : (
+        /* Title */
+        <div className="card-title">{observation.title || 'Untitled'}</div>
+      )}
+
+      {actionError && <div className="card-edit-error">{actionError}</div>}
 
       {/* Content based on toggle state */}
       <div className="view-mode-content">
@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { QueueContents, QueueMessage } from '../types';
+import { formatDate } from '../utils/formatters';
+import { API_ENDPOINTS } from '../constants/api';
+
+// Providers failed messages can be replayed with ('' = normal routing)
+const REPLAY_PROVIDERS = [
+  { value: '', label: 'Routed provider' },
+  { value: 'claude', label: 'Claude' },
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'openrouter', label: 'OpenRouter' },
+  { value: 'openai-compatible', label: 'OpenAI-compatible' },
+  { value: 'heuristic', label: 'Heuristic extractor' },
+];
+
+const STATUS_COLORS: Record<QueueMessage['status'], string> = {
+  failed: '#f85149',
+  processing: '#d29922',
+  pending: '#58a6ff',
+};
+
+interface PayloadDraft {
+  id: number;
+  toolInput: string;
+  toolResponse: string;
+}
+
+// Pretty-print a JSON column, falling back to the raw text
+function formatPayload(value: string | null): string {
+  if (!value) return '';
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+// Parse an edited payload; an empty field clears it
+function parsePayload(value: string, field: string): unknown {
+  if (!value.trim()) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${field} is not valid JSON`);
+  }
+}
+
+// Read the error message from a failed worker response
+async function readError(res: Response): Promise<string> {
+  try {
+    const body = await res.json();
+    return body.error || `HTTP ${res.status}`;
+  } catch {
+    return `HTTP ${res.status}`;
+  }
+}
+
+interface QueuePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function QueuePanel({ isOpen, onClose }: QueuePanelProps) {
+  const [queue, setQueue] = useState<QueueContents | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [draft, setDraft] = useState<PayloadDraft | null>(null);
+  const [replayProvider, setReplayProvider] = useState('');
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.PENDING_QUEUE);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch queue: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setQueue(data.queue);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  }, []);
+
+  // Run a queue action, then refresh the list
+  const runAction = useCallback(async (path: string, init: RequestInit) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_ENDPOINTS.PENDING_QUEUE}${path}`, {
+        headers: { 'Content-Type': 'application/json' },
+        ...init
+      });
+      if (!response.ok) {
+        setError(await readError(response));
+        return false;
+      }
+      await fetchQueue();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [fetchQueue]);
+
+  const retryMessage = (id: number) => runAction(`/${id}/retry`, { method: 'POST' });
+
+  const discardMessage = (id: number) => {
+    if (!confirm(`Discard queue message #${id}? Its tool use will not be recorded.`)) return;
+    runAction(`/${id}`, { method: 'DELETE' });
+  };
+
+  const replayFailed = () => runAction('/replay', {
+    method: 'POST',
+    body: JSON.stringify({ provider: replayProvider || null })
+  });
+
+  const clearFailed = () => {
+    if (!confirm('Discard all failed messages?')) return;
+    runAction('/failed', { method: 'DELETE' });
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    let body: string;
+    try {
+      body = JSON.stringify({
+        tool_input: parsePayload(draft.toolInput, 'Tool input'),
+        tool_response: parsePayload(draft.toolResponse, 'Tool response')
+      });
+    } catch (err) {
+      setError((err as Error).message);
+      return;
+    }
+    if (await runAction(`/${draft.id}`, { method: 'PATCH', body })) {
+      setDraft(null);
+    }
+  };
+
+  const toggleExpanded = (id: number) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // Fetch when the panel opens, then refresh every 3 seconds
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchQueue();
+    const interval = setInterval(fetchQueue, 3000);
+    return () => clearInterval(interval);
+  }, [isOpen, fetchQueue]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const renderMessage = (message: QueueMessage) => {
+    const isExpanded = expanded.has(message.id);
+    const isEditing = draft?.id === message.id;
+    const canChange = message.status !== 'processing';
+
+    return (
+      <div key={message.id} className="queue-message">
+        <div className="queue-message-header">
+          <button className="queue-message-toggle" onClick={() => toggleExpanded(message.id)} title="Show payload">
+            {isExpanded ? '▾' : '▸'}
+          </button>
+          <span className="queue-status" style={{ color: STATUS_COLORS[message.status] }}>{message.status}</span>
+          <span className="queue-message-title">
+            #{message.id} {message.message_type === 'summarize' ? 'summary' : message.tool_name || 'observation'}
+          </span>
+          <span className="queue-message-meta">
+            {message.project || 'unknown project'} · {formatDate(message.created_at_epoch)}
+            {message.retry_count > 0 && ` · ${message.retry_count} ${message.retry_count === 1 ? 'retry' : 'retries'}`}
+            {message.provider_override && ` · via ${message.provider_override}`}
+          </span>
+          <div className="queue-message-actions">
+            <button className="console-control-btn" onClick={() => retryMessage(message.id)} disabled={isBusy} title="Retry">↻</button>
+            {canChange && (
+              <button
+                className="console-control-btn"
+                onClick={() => setDraft(isEditing ? null : {
+                  id: message.id,
+                  toolInput: formatPayload(message.tool_input),
+                  toolResponse: formatPayload(message.tool_response)
+                })}
+                disabled={isBusy}
+                title="Edit payload"
+              >
+                ✎
+              </button>
+            )}
+            <button className="console-control-btn console-clear-btn" onClick={() => discardMessage(message.id)} disabled={isBusy} title="Discard">🗑</button>
+          </div>
+        </div>
+
+        {message.last_error && (
+          <div className="queue-message-error">⚠ {message.last_error}</div>
+        )}
+
+        {isEditing && draft && (
+          <div className="card-edit-form queue-message-body">
+            <textarea
+              className="card-edit-input queue-payload-input"
+              value={draft.toolInput}
+              onChange={(e) => setDraft({ ...draft, toolInput: e.target.value })}
+              placeholder="Tool input (JSON)"
+              rows={6}
+            />
+            <textarea
+              className="card-edit-input queue-payload-input"
+              value={draft.toolResponse}
+              onChange={(e) => setDraft({ ...draft, toolResponse: e.target.value })}
+              placeholder="Tool response (JSON)"
+              rows={8}
+            />
+            <div className="card-edit-actions">
+              <button className="console-control-btn" onClick={() => setDraft(null)} disabled={isBusy}>Cancel</button>
+              <button className="console-control-btn" onClick={saveDraft} disabled={isBusy}>Save</button>
+            </div>
+          </div>
+        )}
+
+        {isExpanded && !isEditing && (
+          <div className="queue-message-body">
+            {message.tool_input && <pre className="queue-payload">{formatPayload(message.tool_input)}</pre>}
+            {message.tool_response && <pre className="queue-payload">{formatPayload(message.tool_response)}</pre>}
+            {message.last_assistant_message && <pre className="queue-payload">{message.last_assistant_message}</pre>}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="console-drawer queue-drawer">
+      <div className="console-header">
+        <div className="console-tabs">
+          <div className="console-tab active">Queue</div>
+          {queue && (
+            <span className="queue-counts">
+              {queue.totalPending} pending · {queue.totalProcessing} processing · {queue.totalFailed} failed
+            </span>
+          )}
+        </div>
+        <div className="console-controls">
+          <select
+            className="queue-provider-select"
+            value={replayProvider}
+            onChange={(e) => setReplayProvider(e.target.value)}
+            title="Provider for replayed messages"
+          >
+            {REPLAY_PROVIDERS.map(provider => (
+              <option key={provider.value} value={provider.value}>{provider.label}</option>
+            ))}
+          </select>
+          <button
+            className="console-control-btn"
+            onClick={replayFailed}
+            disabled={isBusy || !queue?.totalFailed}
+            title="Replay all failed messages"
+          >
+            Replay failed
+          </button>
+          <button
+            className="console-control-btn console-clear-btn"
+            onClick={clearFailed}
+            disabled={isBusy || !queue?.totalFailed}
+            title="Discard all failed messages"
+          >
+            🗑
+          </button>
+          <button className="console-control-btn" onClick={fetchQueue} title="Refresh queue">↻</button>
+          <button className="console-control-btn" onClick={onClose} title="Close queue">✕</button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="console-error">
+          ⚠ {error}
+        </div>
+      )}
+
+      <div className="console-content">
+        {!queue || queue.messages.length === 0 ? (
+          <div className="queue-empty">Queue is empty</div>
+        ) : (
+          queue.messages.map(renderMessage)
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,15 @@
  */
 export const API_ENDPOINTS = {
   OBSERVATIONS: '/api/observations',
+  OBSERVATION: '/api/observation',
+  OBSERVATIONS_MERGE: '/api/observations/merge',
   SUMMARIES: '/api/summaries',
   PROMPTS: '/api/prompts',
   SETTINGS: '/api/settings',
   STATS: '/api/stats',
   PROCESSING_STATUS: '/api/processing-status',
+  PENDING_QUEUE: '/api/pending-queue',
   STREAM: '/stream',
+  AUTH_STATUS: '/api/auth/status',
+  AUTH_LOGIN: '/api/auth/login',
 } as const;
@@ -16,8 +16,12 @@ export const DEFAULT_SETTINGS = {
   CLAUDE_MEM_OPENROUTER_MODEL: 'xiaomi/mimo-v2-flash:free',
   CLAUDE_MEM_OPENROUTER_SITE_URL: '',
   CLAUDE_MEM_OPENROUTER_APP_NAME: 'claude-mem',
+  CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+  CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL: 'llama3.1',
+  CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY: '',
   CLAUDE_MEM_GEMINI_RATE_LIMITING_ENABLED: 'true',
   CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK: 'true',
+  CLAUDE_MEM_EXTRACTION_MODE: 'llm',
 
   // Token Economics (all true for backwards compatibility)
   CLAUDE_MEM_CONTEXT_SHOW_READ_TOKENS: 'true',
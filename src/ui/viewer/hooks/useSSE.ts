@@ -65,6 +65,22 @@ export function useSSE() {
             }
             break;
 
+          case 'observation_updated':
+            if (data.observation) {
+              const updated = data.observation;
+              console.log('[SSE] Observation updated:', updated.id);
+              setObservations(prev => prev.map(obs => obs.id === updated.id ? updated : obs));
+            }
+            break;
+
+          case 'observation_deleted':
+            if (typeof data.id === 'number') {
+              const deletedId = data.id;
+              console.log('[SSE] Observation deleted:', deletedId);
+              setObservations(prev => prev.filter(obs => obs.id !== deletedId));
+            }
+            break;
+
           case 'new_summary':
             if (data.summary) {
               const summary = data.summary;
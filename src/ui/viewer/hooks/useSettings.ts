@@ -32,8 +32,14 @@ export function useSettings() {
           CLAUDE_MEM_OPENROUTER_SITE_URL: data.CLAUDE_MEM_OPENROUTER_SITE_URL || DEFAULT_SETTINGS.CLAUDE_MEM_OPENROUTER_SITE_URL,
           CLAUDE_MEM_OPENROUTER_APP_NAME: data.CLAUDE_MEM_OPENROUTER_APP_NAME || DEFAULT_SETTINGS.CLAUDE_MEM_OPENROUTER_APP_NAME,
 
+          // OpenAI-compatible Configuration
+          CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL: data.CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL || DEFAULT_SETTINGS.CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL,
+          CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL: data.CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL || DEFAULT_SETTINGS.CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL,
+          CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY: data.CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY || DEFAULT_SETTINGS.CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY,
+
           // Fallback Configuration
           CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK: data.CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK || DEFAULT_SETTINGS.CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK,
+          CLAUDE_MEM_EXTRACTION_MODE: data.CLAUDE_MEM_EXTRACTION_MODE || DEFAULT_SETTINGS.CLAUDE_MEM_EXTRACTION_MODE,
 
           // Token Economics Display
           CLAUDE_MEM_CONTEXT_SHOW_READ_TOKENS: data.CLAUDE_MEM_CONTEXT_SHOW_READ_TOKENS || DEFAULT_SETTINGS.CLAUDE_MEM_CONTEXT_SHOW_READ_TOKENS,
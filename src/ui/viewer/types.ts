@@ -12,6 +12,7 @@ export interface Observation {
   files_read: string | null;
   files_modified: string | null;
   prompt_number: number | null;
+  origin?: 'llm' | 'heuristic' | 'user';
   created_at: string;
   created_at_epoch: number;
 }
@@ -43,7 +44,7 @@ export type FeedItem =
   | (UserPrompt & { itemType: 'prompt' });
 
 export interface StreamEvent {
-  type: 'initial_load' | 'new_observation' | 'new_summary' | 'new_prompt' | 'processing_status';
+  type: 'initial_load' | 'new_observation' | 'new_summary' | 'new_prompt' | 'processing_status' | 'observation_updated' | 'observation_deleted';
   observations?: Observation[];
   summaries?: Summary[];
   prompts?: UserPrompt[];
@@ -51,6 +52,7 @@ export interface StreamEvent {
   observation?: Observation;
   summary?: Summary;
   prompt?: UserPrompt;
+  id?: number;
   isProcessing?: boolean;
 }
 
@@ -61,7 +63,7 @@ export interface Settings {
   CLAUDE_MEM_WORKER_HOST: string;
 
   // AI Provider Configuration
-  CLAUDE_MEM_PROVIDER?: string;  // 'claude' | 'gemini' | 'openrouter'
+  CLAUDE_MEM_PROVIDER?: string;  // 'claude' | 'gemini' | 'openrouter' | 'openai-compatible'
   CLAUDE_MEM_GEMINI_API_KEY?: string;
   CLAUDE_MEM_GEMINI_MODEL?: string;  // 'gemini-2.5-flash-lite' | 'gemini-2.5-flash' | 'gemini-3-flash'
   CLAUDE_MEM_GEMINI_RATE_LIMITING_ENABLED?: string;  // 'true' | 'false'
@@ -69,7 +71,11 @@ export interface Settings {
   CLAUDE_MEM_OPENROUTER_MODEL?: string;
   CLAUDE_MEM_OPENROUTER_SITE_URL?: string;
   CLAUDE_MEM_OPENROUTER_APP_NAME?: string;
+  CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL?: string;
+  CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL?: string;
+  CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY?: string;
   CLAUDE_MEM_DISABLE_CLAUDE_FALLBACK?: string;  // 'true' | 'false'
+  CLAUDE_MEM_EXTRACTION_MODE?: string;  // 'llm' | 'hybrid' | 'heuristic'
 
   // Token Economics Display
   CLAUDE_MEM_CONTEXT_SHOW_READ_TOKENS?: string;
@@ -110,7 +116,54 @@ export interface DatabaseStats {
   summaries?: number;
 }
 
+export interface ProviderSpendStats {
+  provider: string;
+  requests: number;
+  tokens: number;
+  cost_usd: number;
+}
+
+export interface BudgetPeriodStats {
+  limitUsd: number;  // 0 = no limit
+  spentUsd: number;
+  exhausted: boolean;
+  providers: ProviderSpendStats[];
+}
+
+export interface BudgetStats {
+  daily: BudgetPeriodStats;
+  monthly: BudgetPeriodStats;
+  state: 'normal' | 'degraded' | 'paused';
+  degradeProvider: string | null;
+}
+
+export interface QueueMessage {
+  id: number;
+  session_db_id: number;
+  message_type: 'observation' | 'summarize';
+  tool_name: string | null;
+  tool_input: string | null;  // JSON
+  tool_response: string | null;  // JSON
+  last_assistant_message: string | null;
+  status: 'pending' | 'processing' | 'failed';
+  retry_count: number;
+  created_at_epoch: number;
+  failed_at_epoch: number | null;
+  last_error: string | null;
+  provider_override: string | null;
+  project: string | null;
+}
+
+export interface QueueContents {
+  messages: QueueMessage[];
+  totalPending: number;
+  totalProcessing: number;
+  totalFailed: number;
+  stuckCount: number;
+}
+
 export interface Stats {
   worker?: WorkerStats;
   database?: DatabaseStats;
+  budget?: BudgetStats;
 }
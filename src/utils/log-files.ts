@@ -0,0 +1,124 @@
+/**
+ * Log Files
+ *
+ * Naming, rotation and retention of the daily log files in ~/.claude-mem/logs:
+ * - claude-mem-YYYY-MM-DD.log is the day's current file (UTC date)
+ * - claude-mem-YYYY-MM-DD.N.log are its rotated segments (higher N is newer)
+ *
+ * Hooks and the worker append to the same files from separate processes, so every
+ * rename and delete tolerates another process having done it first.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, renameSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+
+export const LOG_FILE_PATTERN = /^claude-mem-(\d{4}-\d{2}-\d{2})(?:\.(\d+))?\.log$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LogFileOptions {
+  /** Rotate the current file before it grows past this size (0 = never) */
+  maxBytes: number;
+  /** Delete days older than this (0 = keep forever) */
+  retentionDays: number;
+}
+
+export function logFileName(date: string, segment?: number): string {
+  return segment ? `claude-mem-${date}.${segment}.log` : `claude-mem-${date}.log`;
+}
+
+/**
+ * Today's date as used in log file names
+ */
+export function todayLogDate(now: Date = new Date()): string {
+  return now.toISOString().split('T')[0];
+}
+
+/**
+ * Appends log lines to the current day's file, rotating and pruning as it goes
+ */
+export class LogFileWriter {
+  private currentDate: string | null = null;
+  private currentPath: string | null = null;
+  private currentSize: number = 0;
+
+  constructor(
+    private readonly logsDir: string,
+    private readonly options: LogFileOptions
+  ) {}
+
+  /**
+   * Append a line (including its newline) to the file for the given day
+   * @throws when the directory or file can't be written (callers fall back to stderr)
+   */
+  write(date: string, line: string): void {
+    if (date !== this.currentDate) {
+      this.openDay(date);
+    }
+
+    const bytes = Buffer.byteLength(line, 'utf8');
+    this.rotateIfNeeded(bytes);
+    appendFileSync(this.currentPath!, line, 'utf8');
+    this.currentSize += bytes;
+  }
+
+  /**
+   * Point at a new day's file and delete days past the retention period
+   */
+  private openDay(date: string): void {
+    if (!existsSync(this.logsDir)) {
+      mkdirSync(this.logsDir, { recursive: true });
+    }
+
+    this.currentDate = date;
+    this.currentPath = join(this.logsDir, logFileName(date));
+    this.currentSize = this.sizeOnDisk();
+    this.pruneExpired(date);
+  }
+
+  private pruneExpired(today: string): void {
+    if (this.options.retentionDays <= 0) return;
+
+    const cutoff = todayLogDate(new Date(Date.parse(today) - this.options.retentionDays * DAY_MS));
+    for (const file of readdirSync(this.logsDir)) {
+      const match = file.match(LOG_FILE_PATTERN);
+      if (match && match[1] < cutoff) {
+        try {
+          unlinkSync(join(this.logsDir, file));
+        } catch {
+          // Another process deleted it first
+        }
+      }
+    }
+  }
+
+  /**
+   * Move the current file to the next numbered segment if the line would take it past the limit
+   */
+  private rotateIfNeeded(incomingBytes: number): void {
+    const { maxBytes } = this.options;
+    if (maxBytes <= 0 || this.currentSize + incomingBytes <= maxBytes) return;
+
+    // The file may have been cleared or rotated by another process since we last looked
+    this.currentSize = this.sizeOnDisk();
+    if (this.currentSize === 0 || this.currentSize + incomingBytes <= maxBytes) return;
+
+    const date = this.currentDate!;
+    const segments = readdirSync(this.logsDir)
+      .map(file => file.match(LOG_FILE_PATTERN))
+      .filter((match): match is RegExpMatchArray => !!match && match[1] === date && !!match[2])
+      .map(match => parseInt(match[2], 10));
+    const nextSegment = segments.length > 0 ? Math.max(...segments) + 1 : 1;
+
+    try {
+      renameSync(this.currentPath!, join(this.logsDir, logFileName(date, nextSegment)));
+    } catch {
+      // Another process rotated the file first; keep appending to the new current file
+    }
+    this.currentSize = this.sizeOnDisk();
+  }
+
+  private sizeOnDisk(): number {
+    return existsSync(this.currentPath!) ? statSync(this.currentPath!).size : 0;
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Log Query
+ *
+ * Reads the daily log files written by the logger (text or JSON lines, including rotated
+ * segments) and filters them by level, component, session, date range and text.
+ * Backs GET /api/logs and the viewer's console drawer.
+ *
+ * Lines that don't start a record (stack traces, pretty-printed debug data) are appended
+ * to the entry before them, so a filter never separates a record from its details.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { LOG_FILE_PATTERN, logFileName, todayLogDate } from './log-files.js';
+import type { LogLevelName, LogRecord } from './logger.js';
+
+export interface LogEntry {
+  /** Day of the file the entry was read from (YYYY-MM-DD) */
+  date: string;
+  /** Timestamp as written: local time for text logs, ISO 8601 for JSON logs */
+  timestamp: string;
+  level: LogLevelName;
+  component: string;
+  correlationId?: string;
+  sessionId?: number;
+  memorySessionId?: string;
+  promptNumber?: number;
+  messageId?: number;
+  message: string;
+  /** Original line(s), including continuation lines */
+  raw: string;
+}
+
+export interface LogQuery {
+  levels?: string[];
+  components?: string[];
+  /** sessionDbId, memorySessionId or correlation ID */
+  sessionId?: string;
+  /** First day to read (YYYY-MM-DD), defaults to `to` */
+  from?: string;
+  /** Last day to read (YYYY-MM-DD), defaults to today */
+  to?: string;
+  /** Case-insensitive substring of the raw line */
+  text?: string;
+  /** Maximum entries returned (the newest matches) */
+  limit?: number;
+}
+
+export interface LogQueryResult {
+  /** Matching entries in chronological order */
+  entries: LogEntry[];
+  /** True when older matches were left out because of the limit */
+  truncated: boolean;
+  from: string;
+  to: string;
+}
+
+export interface LogDateSummary {
+  date: string;
+  files: number;
+  bytes: number;
+}
+
+export const DEFAULT_LOG_QUERY_LIMIT = 1000;
+export const MAX_LOG_QUERY_LIMIT = 10000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// [timestamp] [LEVEL] [COMPONENT] [correlation?] message
+const TEXT_LINE_PATTERN = /^\[([^\]]+)\]\s+\[(DEBUG|INFO|WARN|ERROR)\s*\]\s+\[(\w+)\s*\]\s+(?:\[([^\]]+)\]\s+)?(.*)$/;
+
+const SESSION_CORRELATION_PATTERN = /^session-(\d+)$/;
+const SESSION_PREFIX = /^session-(?=\d+$)/;
+
+export function isLogDate(value: string): boolean {
+  return DATE_PATTERN.test(value);
+}
+
+/**
+ * Days that have log files, newest first
+ */
+export function listLogDates(logsDir: string): LogDateSummary[] {
+  if (!existsSync(logsDir)) return [];
+
+  const byDate = new Map<string, LogDateSummary>();
+  for (const file of readdirSync(logsDir)) {
+    const match = file.match(LOG_FILE_PATTERN);
+    if (!match) continue;
+
+    const summary = byDate.get(match[1]) ?? { date: match[1], files: 0, bytes: 0 };
+    summary.files++;
+    summary.bytes += statSync(join(logsDir, file)).size;
+    byDate.set(match[1], summary);
+  }
+
+  return [...byDate.values()].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * A day's log files in write order: rotated segments (oldest first), then the current file
+ */
+export function listLogFiles(logsDir: string, date: string): string[] {
+  if (!existsSync(logsDir)) return [];
+
+  const segments = readdirSync(logsDir)
+    .map(file => file.match(LOG_FILE_PATTERN))
+    .filter((match): match is RegExpMatchArray => !!match && match[1] === date && !!match[2])
+    .map(match => parseInt(match[2], 10))
+    .sort((a, b) => a - b);
+
+  const files = segments.map(segment => join(logsDir, logFileName(date, segment)));
+  const current = join(logsDir, logFileName(date));
+  if (existsSync(current)) {
+    files.push(current);
+  }
+  return files;
+}
+
+/**
+ * Parse one line of a log file
+ * @returns The entry, or null for a continuation line of the previous entry
+ */
+export function parseLogLine(line: string, date: string): LogEntry | null {
+  if (line.startsWith('{')) {
+    const entry = parseJsonLine(line, date);
+    if (entry) return entry;
+  }
+
+  const match = line.match(TEXT_LINE_PATTERN);
+  if (!match) return null;
+
+  const [, timestamp, level, component, correlationId, message] = match;
+  const sessionMatch = correlationId?.match(SESSION_CORRELATION_PATTERN);
+
+  return {
+    date,
+    timestamp,
+    level: level as LogLevelName,
+    component,
+    correlationId: sessionMatch ? undefined : correlationId,
+    sessionId: sessionMatch ? parseInt(sessionMatch[1], 10) : undefined,
+    message,
+    raw: line
+  };
+}
+
+/**
+ * Parse a whole log file into entries, folding continuation lines into their entry
+ */
+export function parseLogContent(content: string, date: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+
+  for (const line of content.split('\n')) {
+    if (line === '') continue;
+
+    const entry = parseLogLine(line, date);
+    if (entry) {
+      entries.push(entry);
+    } else if (entries.length > 0) {
+      const previous = entries[entries.length - 1];
+      previous.message += '\n' + line;
+      previous.raw += '\n' + line;
+    }
+    // Continuation lines before the first entry (file rotated mid-record) are dropped
+  }
+
+  return entries;
+}
+
+/**
+ * Read the log files in the date range and return the newest matching entries
+ */
+export function queryLogs(logsDir: string, query: LogQuery = {}): LogQueryResult {
+  const to = query.to ?? todayLogDate();
+  const from = query.from ?? to;
+  const limit = Math.min(Math.max(query.limit ?? DEFAULT_LOG_QUERY_LIMIT, 1), MAX_LOG_QUERY_LIMIT);
+  const matches = buildMatcher(query);
+
+  // Newest day and newest file first, so reading stops once the limit is reached
+  const dates = listLogDates(logsDir)
+    .map(summary => summary.date)
+    .filter(date => date >= from && date <= to);
+
+  let entries: LogEntry[] = [];
+  let truncated = false;
+
+  scan:
+  for (const date of dates) {
+    for (const file of listLogFiles(logsDir, date).reverse()) {
+      const fileMatches = parseLogContent(readFileSync(file, 'utf-8'), date).filter(matches);
+      entries = fileMatches.concat(entries);
+      if (entries.length > limit) {
+        entries = entries.slice(entries.length - limit);
+        truncated = true;
+        break scan;
+      }
+    }
+  }
+
+  return { entries, truncated, from, to };
+}
+
+function buildMatcher(query: LogQuery): (entry: LogEntry) => boolean {
+  const levels = query.levels?.length ? new Set(query.levels.map(l => l.toUpperCase())) : null;
+  const components = query.components?.length ? new Set(query.components.map(c => c.toUpperCase())) : null;
+  const sessionId = query.sessionId?.trim().replace(SESSION_PREFIX, '');
+  const text = query.text?.trim().toLowerCase();
+
+  return (entry: LogEntry) => {
+    if (levels && !levels.has(entry.level)) return false;
+    if (components && !components.has(entry.component)) return false;
+    if (sessionId
+      && String(entry.sessionId) !== sessionId
+      && entry.memorySessionId !== sessionId
+      && entry.correlationId !== sessionId) {
+      return false;
+    }
+    if (text && !entry.raw.toLowerCase().includes(text)) return false;
+    return true;
+  };
+}
+
+function parseJsonLine(line: string, date: string): LogEntry | null {
+  let record: LogRecord;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (!record || typeof record.ts !== 'string' || typeof record.level !== 'string' || typeof record.message !== 'string') {
+    return null;
+  }
+
+  // Render context, error and data after the message like the text format does
+  let message = record.message;
+  if (record.context && Object.keys(record.context).length > 0) {
+    message += ` {${Object.entries(record.context).map(([k, v]) => `${k}=${formatValue(v)}`).join(', ')}}`;
+  }
+  if (record.error) {
+    message += ` ${record.error.message}`;
+    if (record.error.stack) message += `\n${record.error.stack}`;
+  }
+  if (record.data !== undefined) {
+    message += ` ${formatValue(record.data)}`;
+  }
+
+  return {
+    date,
+    timestamp: record.ts,
+    level: record.level,
+    component: record.component,
+    correlationId: record.correlationId,
+    sessionId: record.sessionId,
+    memorySessionId: record.memorySessionId,
+    promptNumber: record.promptNumber,
+    messageId: record.messageId,
+    message,
+    raw: line
+  };
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
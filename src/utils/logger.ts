@@ -1,11 +1,16 @@
 /**
  * Structured Logger for claude-mem Worker Service
  * Provides readable, traceable logging with correlation IDs and data flow tracking
+ *
+ * Writes one file per day to ~/.claude-mem/logs as human-readable text or JSON lines
+ * (CLAUDE_MEM_LOG_FORMAT); rotation and retention live in log-files.ts and
+ * log-query.ts reads both formats back.
  */
 
-import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { LogFileWriter, todayLogDate } from './log-files.js';
 
 export enum LogLevel {
   DEBUG = 0,
@@ -15,24 +20,58 @@ export enum LogLevel {
   SILENT = 4
 }
 
-export type Component = 'HOOK' | 'WORKER' | 'SDK' | 'PARSER' | 'DB' | 'SYSTEM' | 'HTTP' | 'SESSION' | 'CHROMA' | 'FOLDER_INDEX';
+export type Component = 'HOOK' | 'WORKER' | 'SDK' | 'PARSER' | 'DB' | 'SYSTEM' | 'HTTP' | 'SESSION' | 'CHROMA' | 'FOLDER_INDEX' | 'SYNC' | 'DIGEST' | 'ROUTER' | 'QUEUE';
 
 interface LogContext {
   sessionId?: number;
   memorySessionId?: string;
   correlationId?: string;
+  promptNumber?: number;
+  messageId?: number;  // pending_messages id
   [key: string]: any;
 }
 
+export type LogFormat = 'text' | 'json';
+
+export type LogLevelName = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
+
+/**
+ * One line of a JSON-format log file
+ */
+export interface LogRecord {
+  ts: string;  // ISO 8601 (UTC)
+  level: LogLevelName;
+  component: Component;
+  message: string;
+  sessionId?: number;
+  memorySessionId?: string;
+  correlationId?: string;
+  promptNumber?: number;
+  messageId?: number;
+  context?: Record<string, unknown>;
+  data?: unknown;
+  error?: { message: string; stack?: string };
+}
+
+interface LoggerConfig {
+  level: LogLevel;
+  format: LogFormat;
+  maxBytes: number;  // 0 = never rotate
+  retentionDays: number;  // 0 = keep forever
+}
+
+// NOTE: These defaults must match DEFAULTS in src/shared/SettingsDefaultsManager.ts
+const DEFAULT_MAX_SIZE_MB = 10;
+const DEFAULT_RETENTION_DAYS = 30;
+
 // NOTE: This default must match DEFAULT_DATA_DIR in src/shared/SettingsDefaultsManager.ts
 // Inlined here to avoid circular dependency with SettingsDefaultsManager
 const DEFAULT_DATA_DIR = join(homedir(), '.claude-mem');
 
 class Logger {
-  private level: LogLevel | null = null;
+  private config: LoggerConfig | null = null;
   private useColor: boolean;
-  private logFilePath: string | null = null;
-  private logFileInitialized: boolean = false;
+  private writer: LogFileWriter | null = null;
 
   constructor() {
     // Disable colors when output is not a TTY (e.g., PM2 logs)
@@ -41,55 +80,52 @@ class Logger {
   }
 
   /**
-   * Initialize log file path and ensure directory exists (lazy initialization)
+   * Log file writer for the logs directory (lazy initialization)
+   * The log directory is always based on the default, not user settings,
+   * to avoid circular dependency with SettingsDefaultsManager
    */
-  private ensureLogFileInitialized(): void {
-    if (this.logFileInitialized) return;
-    this.logFileInitialized = true;
-
-    try {
-      // Use default data directory to avoid circular dependency with SettingsDefaultsManager
-      // The log directory is always based on the default, not user settings
-      const logsDir = join(DEFAULT_DATA_DIR, 'logs');
-
-      // Ensure logs directory exists
-      if (!existsSync(logsDir)) {
-        mkdirSync(logsDir, { recursive: true });
-      }
-
-      // Create log file path with date
-      const date = new Date().toISOString().split('T')[0];
-      this.logFilePath = join(logsDir, `claude-mem-${date}.log`);
-    } catch (error) {
-      // If log file initialization fails, just log to console
-      console.error('[LOGGER] Failed to initialize log file:', error);
-      this.logFilePath = null;
+  private getWriter(): LogFileWriter {
+    if (this.writer === null) {
+      const { maxBytes, retentionDays } = this.getConfig();
+      this.writer = new LogFileWriter(join(DEFAULT_DATA_DIR, 'logs'), { maxBytes, retentionDays });
     }
+    return this.writer;
   }
 
   /**
-   * Lazy-load log level from settings file
+   * Lazy-load log settings (level, format, rotation, retention) from the settings file
    * Uses direct file reading to avoid circular dependency with SettingsDefaultsManager
    */
-  private getLevel(): LogLevel {
-    if (this.level === null) {
+  private getConfig(): LoggerConfig {
+    if (this.config === null) {
+      let settings: Record<string, string> = {};
       try {
         // Read settings file directly to avoid circular dependency
         const settingsPath = join(DEFAULT_DATA_DIR, 'settings.json');
         if (existsSync(settingsPath)) {
-          const settingsData = readFileSync(settingsPath, 'utf-8');
-          const settings = JSON.parse(settingsData);
-          const envLevel = (settings.CLAUDE_MEM_LOG_LEVEL || 'INFO').toUpperCase();
-          this.level = LogLevel[envLevel as keyof typeof LogLevel] ?? LogLevel.INFO;
-        } else {
-          this.level = LogLevel.INFO;
+          settings = JSON.parse(readFileSync(settingsPath, 'utf-8'));
         }
       } catch (error) {
-        // Fallback to INFO if settings can't be loaded
-        this.level = LogLevel.INFO;
+        // Fall back to defaults if settings can't be loaded
+        settings = {};
       }
+
+      const envLevel = (settings.CLAUDE_MEM_LOG_LEVEL || 'INFO').toUpperCase();
+      const maxSizeMb = parseFloat(settings.CLAUDE_MEM_LOG_MAX_SIZE_MB ?? String(DEFAULT_MAX_SIZE_MB));
+      const retentionDays = parseInt(settings.CLAUDE_MEM_LOG_RETENTION_DAYS ?? String(DEFAULT_RETENTION_DAYS), 10);
+
+      this.config = {
+        level: LogLevel[envLevel as keyof typeof LogLevel] ?? LogLevel.INFO,
+        format: settings.CLAUDE_MEM_LOG_FORMAT === 'json' ? 'json' : 'text',
+        maxBytes: Number.isFinite(maxSizeMb) && maxSizeMb > 0 ? Math.round(maxSizeMb * 1024 * 1024) : 0,
+        retentionDays: Number.isFinite(retentionDays) && retentionDays > 0 ? retentionDays : 0
+      };
     }
-    return this.level;
+    return this.config;
+  }
+
+  private getLevel(): LogLevel {
+    return this.getConfig().level;
   }
 
   /**
@@ -242,10 +278,26 @@ class Logger {
   ): void {
     if (level < this.getLevel()) return;
 
-    // Lazy initialize log file on first use
-    this.ensureLogFileInitialized();
+    const now = new Date();
+    const logLine = this.getConfig().format === 'json'
+      ? this.formatJsonLine(now, level, component, message, context, data)
+      : this.formatTextLine(now, level, component, message, context, data);
+
+    this.write(logLine + '\n');
+  }
 
-    const timestamp = this.formatTimestamp(new Date());
+  /**
+   * Human-readable line: [timestamp] [LEVEL] [COMPONENT] [correlation] message {context} data
+   */
+  private formatTextLine(
+    now: Date,
+    level: LogLevel,
+    component: Component,
+    message: string,
+    context?: LogContext,
+    data?: any
+  ): string {
+    const timestamp = this.formatTimestamp(now);
     const levelStr = LogLevel[level].padEnd(5);
     const componentStr = component.padEnd(6);
 
@@ -277,26 +329,74 @@ class Logger {
     let contextStr = '';
     if (context) {
       const { sessionId, memorySessionId, correlationId, ...rest } = context;
-      if (Object.keys(rest).length > 0) {
-        const pairs = Object.entries(rest).map(([k, v]) => `${k}=${v}`);
+      const pairs = Object.entries(rest)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => `${k}=${v}`);
+      if (pairs.length > 0) {
         contextStr = ` {${pairs.join(', ')}}`;
       }
     }
 
-    const logLine = `[${timestamp}] [${levelStr}] [${componentStr}] ${correlationStr}${message}${contextStr}${dataStr}`;
+    return `[${timestamp}] [${levelStr}] [${componentStr}] ${correlationStr}${message}${contextStr}${dataStr}`;
+  }
 
+  /**
+   * JSON line (LogRecord) with correlation IDs as top-level fields for querying
+   */
+  private formatJsonLine(
+    now: Date,
+    level: LogLevel,
+    component: Component,
+    message: string,
+    context?: LogContext,
+    data?: any
+  ): string {
+    const record: LogRecord = {
+      ts: now.toISOString(),
+      level: LogLevel[level] as LogLevelName,
+      component,
+      message
+    };
+
+    if (context) {
+      const { sessionId, memorySessionId, correlationId, promptNumber, messageId, ...rest } = context;
+      if (sessionId !== undefined) record.sessionId = sessionId;
+      if (memorySessionId !== undefined) record.memorySessionId = memorySessionId;
+      if (correlationId !== undefined) record.correlationId = correlationId;
+      if (promptNumber !== undefined) record.promptNumber = promptNumber;
+      if (messageId !== undefined) record.messageId = messageId;
+      if (Object.values(rest).some(v => v !== undefined)) record.context = rest;
+    }
+
+    if (data instanceof Error) {
+      record.error = this.getLevel() === LogLevel.DEBUG
+        ? { message: data.message, stack: data.stack }
+        : { message: data.message };
+    } else if (data !== undefined && data !== null) {
+      // Full objects only in debug mode, like the text format
+      record.data = this.getLevel() === LogLevel.DEBUG ? data : this.formatData(data);
+    }
+
+    try {
+      return JSON.stringify(record);
+    } catch {
+      // Circular or otherwise unserializable data
+      return JSON.stringify({ ...record, context: undefined, data: this.formatData(data) });
+    }
+  }
+
+  /**
+   * Append a line to the day's log file
+   */
+  private write(line: string): void {
     // Output to log file ONLY (worker runs in background, console is useless)
-    if (this.logFilePath) {
-      try {
-        appendFileSync(this.logFilePath, logLine + '\n', 'utf8');
-      } catch (error) {
-        // Logger can't log its own failures - use stderr as last resort
-        // This is expected during disk full / permission errors
-        process.stderr.write(`[LOGGER] Failed to write to log file: ${error}\n`);
-      }
-    } else {
-      // If no log file available, write to stderr as fallback
-      process.stderr.write(logLine + '\n');
+    try {
+      this.getWriter().write(todayLogDate(), line);
+    } catch (error) {
+      // Logger can't log its own failures - use stderr as last resort
+      // This is expected during disk full / permission errors
+      process.stderr.write(`[LOGGER] Failed to write to log file: ${error}\n`);
+      process.stderr.write(line);
     }
   }
 
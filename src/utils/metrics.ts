@@ -0,0 +1,305 @@
+/**
+ * Metrics registry for the worker's /metrics endpoint (OpenMetrics text format)
+ *
+ * Modules register their metric families once at load time and update them in place:
+ *
+ * ```typescript
+ * const requests = metrics.counter('claude_mem_http_requests', 'HTTP requests handled', ['method', 'status']);
+ * requests.inc({ method: 'GET', status: '200' });
+ * ```
+ *
+ * Values that already live elsewhere (queue depth, parser counters) are read at scrape
+ * time through a collect callback instead of being mirrored on every change.
+ */
+
+export type MetricLabels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Sample set returned by a collect callback: one value per label combination */
+export type CollectedSamples = Array<{ labels?: MetricLabels; value: number }>;
+
+/** Default histogram buckets in seconds (HTTP handlers up to slow LLM calls) */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+abstract class Metric {
+  abstract readonly type: MetricType;
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[]
+  ) {}
+
+  abstract render(): string[];
+  abstract reset(): void;
+
+  protected labelKey(labels: MetricLabels = {}): string {
+    return this.labelNames.map(name => labels[name] ?? '').join('\u0000');
+  }
+
+  protected formatLabels(labels: MetricLabels = {}, extra?: MetricLabels): string {
+    const pairs = this.labelNames
+      .filter(name => labels[name] !== undefined)
+      .map(name => `${name}="${escapeLabelValue(labels[name])}"`);
+    for (const [name, value] of Object.entries(extra ?? {})) {
+      pairs.push(`${name}="${escapeLabelValue(value)}"`);
+    }
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
+}
+
+/**
+ * Counter or gauge: one number per label combination
+ */
+abstract class ValueMetric extends Metric {
+  private values = new Map<string, { labels: MetricLabels; value: number }>();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    private collect?: () => CollectedSamples
+  ) {
+    super(name, help, labelNames);
+  }
+
+  protected add(labels: MetricLabels, delta: number): void {
+    const key = this.labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += delta;
+    } else {
+      this.values.set(key, { labels, value: delta });
+    }
+  }
+
+  protected put(labels: MetricLabels, value: number): void {
+    this.values.set(this.labelKey(labels), { labels, value });
+  }
+
+  /**
+   * Read values from this callback at scrape time instead of the recorded ones
+   * (replaces any earlier callback, e.g. when a service is re-created)
+   */
+  collectWith(collect: () => CollectedSamples): void {
+    this.collect = collect;
+  }
+
+  /**
+   * Current value for a label combination (tests)
+   */
+  get(labels: MetricLabels = {}): number {
+    return this.values.get(this.labelKey(labels))?.value ?? 0;
+  }
+
+  protected samples(): CollectedSamples {
+    if (this.collect) {
+      try {
+        return this.collect();
+      } catch {
+        // A failing source (e.g. database closed during shutdown) must not break the scrape
+        return [];
+      }
+    }
+    return [...this.values.values()];
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Counter extends ValueMetric {
+  readonly type = 'counter';
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    this.add(labels, value);
+  }
+
+  render(): string[] {
+    return this.samples().map(sample => `${this.name}_total${this.formatLabels(sample.labels)} ${formatNumber(sample.value)}`);
+  }
+}
+
+export class Gauge extends ValueMetric {
+  readonly type = 'gauge';
+
+  set(labels: MetricLabels, value: number): void {
+    this.put(labels, value);
+  }
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    this.add(labels, value);
+  }
+
+  dec(labels: MetricLabels = {}, value: number = 1): void {
+    this.add(labels, -value);
+  }
+
+  render(): string[] {
+    return this.samples().map(sample => `${this.name}${this.formatLabels(sample.labels)} ${formatNumber(sample.value)}`);
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly string[],
+    readonly buckets: readonly number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = this.labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        series.bucketCounts[i]++;
+      }
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start timing; the returned function observes the elapsed seconds
+   */
+  startTimer(labels: MetricLabels = {}): (extraLabels?: MetricLabels) => number {
+    const start = performance.now();
+    return (extraLabels?: MetricLabels) => {
+      const seconds = (performance.now() - start) / 1000;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  /**
+   * Observation count for a label combination (tests)
+   */
+  getCount(labels: MetricLabels = {}): number {
+    return this.series.get(this.labelKey(labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const series of this.series.values()) {
+      this.buckets.forEach((bucket, i) => {
+        lines.push(`${this.name}_bucket${this.formatLabels(series.labels, { le: formatNumber(bucket) })} ${series.bucketCounts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${this.formatLabels(series.labels, { le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${this.formatLabels(series.labels)} ${formatNumber(series.sum)}`);
+      lines.push(`${this.name}_count${this.formatLabels(series.labels)} ${series.count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Registry of metric families, rendered together for a scrape
+ */
+export class MetricsRegistry {
+  private families = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: readonly string[] = [], collect?: () => CollectedSamples): Counter {
+    return this.register(name, () => new Counter(name, help, labelNames, collect), Counter);
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = [], collect?: () => CollectedSamples): Gauge {
+    return this.register(name, () => new Gauge(name, help, labelNames, collect), Gauge);
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: readonly number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, labelNames, buckets), Histogram);
+  }
+
+  /**
+   * Render every family in OpenMetrics text format (terminated by # EOF)
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.families.values()) {
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(...metric.render());
+    }
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Clear recorded values, keeping the registered families (tests)
+   */
+  reset(): void {
+    for (const metric of this.families.values()) {
+      metric.reset();
+    }
+  }
+
+  /**
+   * Return the family already registered under this name (modules may be re-imported),
+   * or create it
+   */
+  private register<T extends Metric>(name: string, create: () => T, type: new (...args: any[]) => T): T {
+    if (!METRIC_NAME.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+
+    const existing = this.families.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+
+    const metric = create();
+    this.families.set(name, metric);
+    return metric;
+  }
+}
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export const metrics = new MetricsRegistry();
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
@@ -0,0 +1,292 @@
+/**
+ * Path Privacy Rules
+ *
+ * `.claude-mem-ignore` files list paths that must never be observed, using gitignore syntax:
+ * - A per-project file, found by walking up from the working directory to the repository root
+ * - A global file in the data directory (~/.claude-mem/.claude-mem-ignore)
+ *
+ * Tool uses that touch an ignored path are dropped by the hooks before reaching the worker,
+ * and ignored paths are scrubbed from files_read/files_modified when observations are stored.
+ *
+ * Supported syntax: `#` comments, `!` negation, `*`, `?`, `[...]`, `**`, a leading `/` to anchor
+ * to the project root and a trailing `/` to match directories only. As in git, a file inside an
+ * ignored directory cannot be re-included, and a negation only applies within its own file.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import path from 'path';
+import { logger } from './logger.js';
+import { DATA_DIR } from '../shared/paths.js';
+
+export const IGNORE_FILE_NAME = '.claude-mem-ignore';
+export const GLOBAL_IGNORE_PATH = path.join(DATA_DIR, IGNORE_FILE_NAME);
+
+/**
+ * tool_input keys that hold file or directory paths (Read, Edit, Write, NotebookEdit, Grep, Glob, Cursor edits)
+ */
+const TOOL_INPUT_PATH_KEYS = ['file_path', 'notebook_path', 'path', 'filePath'] as const;
+
+export interface IgnoreRule {
+  pattern: string;
+  negated: boolean;
+  directoryOnly: boolean;
+  /** Pattern contains a slash, so it only matches relative to the ignore file's directory */
+  anchored: boolean;
+  regex: RegExp;
+}
+
+export interface IgnoreSource {
+  /** Directory the patterns are relative to */
+  baseDir: string;
+  rules: IgnoreRule[];
+}
+
+export interface PathIgnoreMatcher {
+  sources: IgnoreSource[];
+  /** Whether any rules were loaded (lets callers skip work when nothing is configured) */
+  hasRules: boolean;
+  /** @param filePath - Absolute, or relative to the project root */
+  isIgnored(filePath: string): boolean;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+^${}()|\\]/g, '\\$&');
+}
+
+/**
+ * Convert a single path segment (no slashes) to a regex source
+ */
+function segmentToRegex(segment: string): string {
+  let source = '';
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === '\\' && i + 1 < segment.length) {
+      source += escapeRegex(segment[++i]);
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = segment.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      const body = segment.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * Compile one gitignore line
+ * @returns null for blank lines and comments
+ */
+function compileRule(line: string): IgnoreRule | null {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  const directoryOnly = pattern.endsWith('/');
+  let body = directoryOnly ? pattern.slice(0, -1) : pattern;
+  const anchored = body.includes('/');
+  body = body.replace(/^\/+/, '');
+  if (!body) return null;
+
+  const segments = body.split('/');
+  let source = '';
+  segments.forEach((segment, i) => {
+    const last = i === segments.length - 1;
+    if (segment === '**') {
+      source += last ? '.*' : '(?:.*/)?';
+      return;
+    }
+    source += segmentToRegex(segment) + (last ? '' : '/');
+  });
+
+  return {
+    pattern: line.trim(),
+    negated,
+    directoryOnly,
+    anchored,
+    regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}$`)
+  };
+}
+
+/**
+ * Parse the contents of an ignore file
+ */
+export function parseIgnoreRules(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    try {
+      const rule = compileRule(line);
+      if (rule) rules.push(rule);
+    } catch (error) {
+      logger.warn('SYSTEM', 'Skipping invalid ignore pattern', { pattern: line }, error as Error);
+    }
+  }
+  return rules;
+}
+
+function readIgnoreFile(filePath: string): IgnoreRule[] {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf-8');
+  } catch {
+    // Missing file is the common case - nothing to ignore
+    return [];
+  }
+  return parseIgnoreRules(content);
+}
+
+function isDirectory(absolutePath: string): boolean {
+  try {
+    return statSync(absolutePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the project root for a working directory: the nearest ancestor that has a
+ * .claude-mem-ignore file or is a git repository root, falling back to cwd itself
+ */
+export function findProjectRoot(cwd: string): string {
+  let dir = path.resolve(cwd);
+  while (true) {
+    try {
+      statSync(path.join(dir, IGNORE_FILE_NAME));
+      return dir;
+    } catch {
+      // Keep looking
+    }
+    try {
+      statSync(path.join(dir, '.git'));
+      return dir;
+    } catch {
+      // Keep looking
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return path.resolve(cwd);
+    dir = parent;
+  }
+}
+
+/**
+ * Evaluate a path (slash-separated, relative to the rules' base) against one file's rules
+ * The last matching rule wins; an ignored parent directory ignores everything below it.
+ */
+function matchesRules(rules: IgnoreRule[], relativePath: string, finalIsDirectory: boolean): boolean {
+  const segments = relativePath.split('/').filter(Boolean);
+
+  for (let i = 1; i <= segments.length; i++) {
+    const candidate = segments.slice(0, i).join('/');
+    const isLast = i === segments.length;
+    const candidateIsDirectory = !isLast || finalIsDirectory;
+
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !candidateIsDirectory) continue;
+      if (rule.regex.test(candidate)) {
+        ignored = !rule.negated;
+      }
+    }
+
+    if (ignored) return true;
+  }
+  return false;
+}
+
+/**
+ * Build a matcher from explicit sources
+ * @param projectRoot - Used to resolve relative paths passed to isIgnored()
+ */
+export function createPathIgnoreMatcher(sources: IgnoreSource[], projectRoot?: string): PathIgnoreMatcher {
+  const activeSources = sources.filter(source => source.rules.length > 0);
+
+  return {
+    sources: activeSources,
+    hasRules: activeSources.length > 0,
+    isIgnored(filePath: string): boolean {
+      if (!filePath || activeSources.length === 0) return false;
+
+      const absolutePath = path.resolve(projectRoot ?? process.cwd(), filePath);
+      const finalIsDirectory = isDirectory(absolutePath);
+
+      return activeSources.some(source => {
+        const relative = path.relative(source.baseDir, absolutePath);
+        if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+          return matchesRules(source.rules, relative.split(path.sep).join('/'), finalIsDirectory);
+        }
+        // Outside the base directory only unanchored patterns (e.g. *.pem, .env) can apply
+        const unanchored = source.rules.filter(rule => !rule.anchored);
+        return unanchored.length > 0 && matchesRules(unanchored, absolutePath.split(path.sep).join('/'), finalIsDirectory);
+      });
+    }
+  };
+}
+
+/**
+ * Load the project and global ignore files for a working directory
+ * @param cwd - Working directory of the session; when absent only the global file applies
+ * @param globalIgnorePath - Override for tests
+ */
+export function loadPathIgnoreMatcher(
+  cwd: string | null | undefined,
+  globalIgnorePath: string = GLOBAL_IGNORE_PATH
+): PathIgnoreMatcher {
+  const projectRoot = cwd ? findProjectRoot(cwd) : undefined;
+  const sources: IgnoreSource[] = [];
+
+  const globalRules = readIgnoreFile(globalIgnorePath);
+  if (globalRules.length > 0) {
+    // Global patterns are relative to whichever project is active
+    sources.push({ baseDir: projectRoot ?? path.parse(process.cwd()).root, rules: globalRules });
+  }
+
+  if (projectRoot) {
+    const projectRules = readIgnoreFile(path.join(projectRoot, IGNORE_FILE_NAME));
+    if (projectRules.length > 0) {
+      sources.push({ baseDir: projectRoot, rules: projectRules });
+    }
+  }
+
+  return createPathIgnoreMatcher(sources, projectRoot);
+}
+
+/**
+ * Collect the file and directory paths referenced by a tool_input object
+ */
+export function getToolInputPaths(toolInput: unknown): string[] {
+  if (!toolInput || typeof toolInput !== 'object') return [];
+
+  const paths: string[] = [];
+  for (const key of TOOL_INPUT_PATH_KEYS) {
+    const value = (toolInput as Record<string, unknown>)[key];
+    if (typeof value === 'string' && value.trim()) {
+      paths.push(value);
+    }
+  }
+  return paths;
+}
+
+/**
+ * Find the first ignored path in a tool_input object
+ * @returns The ignored path, or null when the tool use may be observed
+ */
+export function findIgnoredToolInputPath(toolInput: unknown, matcher: PathIgnoreMatcher): string | null {
+  if (!matcher.hasRules) return null;
+  return getToolInputPaths(toolInput).find(filePath => matcher.isIgnored(filePath)) ?? null;
+}
@@ -0,0 +1,270 @@
+/**
+ * Secret Redaction
+ *
+ * Replaces credentials in tool inputs/responses with `[REDACTED:<rule>]` before they are
+ * sent to the worker, so secrets never reach the SDK agent or the database.
+ *
+ * Detectors:
+ * - Built-in rules for well-known credential formats (AWS, GitHub, Slack, JWTs, private keys,
+ *   password/token assignments of literal values such as `.env` lines)
+ * - A Shannon-entropy check for long random-looking strings
+ * - User-defined regex rules from CLAUDE_MEM_REDACTION_CUSTOM_RULES
+ *
+ * A rule whose pattern has a named group `secret` only replaces that group, keeping the
+ * surrounding text (e.g. the variable name) readable.
+ *
+ * EDGE PROCESSING PATTERN: Applied at the hook layer, like tag stripping for <private>.
+ */
+
+import { logger } from './logger.js';
+import type { SettingsDefaults } from '../shared/SettingsDefaultsManager.js';
+
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * User-defined rule as stored in settings (CLAUDE_MEM_REDACTION_CUSTOM_RULES, JSON array)
+ */
+export interface CustomRedactionRuleConfig {
+  name: string;
+  pattern: string;
+  flags?: string;
+}
+
+export interface RedactionConfig {
+  enabled: boolean;
+  rules: RedactionRule[];
+  /** Minimum Shannon entropy (bits per character) for the high-entropy detector; 0 disables it */
+  entropyThreshold: number;
+}
+
+export interface RedactionResult<T> {
+  value: T;
+  /** Total number of redacted secrets */
+  count: number;
+  /** Redactions per rule name */
+  byRule: Record<string, number>;
+}
+
+export const HIGH_ENTROPY_RULE = 'high-entropy';
+
+/**
+ * Shortest string the high-entropy detector considers
+ */
+const HIGH_ENTROPY_MIN_LENGTH = 32;
+
+/**
+ * Candidate tokens for the high-entropy detector (base64/base64url/hex alphabets)
+ */
+const HIGH_ENTROPY_CANDIDATE = new RegExp(`[A-Za-z0-9+/=_-]{${HIGH_ENTROPY_MIN_LENGTH},}`, 'g');
+
+/**
+ * Built-in credential detectors
+ */
+export const BUILT_IN_REDACTION_RULES: readonly RedactionRule[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z0-9 ]*PRIVATE KEY-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY-----|$)/g
+  },
+  {
+    name: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g
+  },
+  {
+    name: 'aws-secret-key',
+    pattern: /\baws_?secret_?(?:access_?)?key\b["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi
+  },
+  {
+    name: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g
+  },
+  {
+    name: 'slack-token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g
+  },
+  {
+    name: 'bearer-token',
+    pattern: /\bBearer\s+(?<secret>[A-Za-z0-9._~+/=-]{20,})/g
+  },
+  {
+    name: 'url-credentials',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?<secret>[^\s@/]+)@/gi
+  },
+  {
+    // Any quoted or bare value except code references: env lookups (`process.env.X`, `$VAR`) and
+    // identifiers or member expressions used as code, i.e. called or followed by `;`, `,`, `)`, `}`
+    // or `]`. Other bare values (.env, YAML, `KEY = value` lines) are literals, dotted ones included
+    name: 'password-assignment',
+    pattern: /\b[A-Za-z0-9_.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret)["']?\s*[:=]\s*(?:["'`]|(?!(?:process\.env|import\.meta\.env|os\.environ)\b|\$|[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*\s*[(),;}\]]))(?<secret>[^\s"'`,;(){}<>]{6,})(?=[\s"'`,;]|$)/gi
+  }
+];
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(text: string): number {
+  if (text.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+const REDACTION_MARKER_PREFIX = '[REDACTED:';
+
+function redactionMarker(rule: string): string {
+  return `${REDACTION_MARKER_PREFIX}${rule}]`;
+}
+
+/**
+ * Redact secrets in a single string
+ */
+export function redactText(text: string, config: RedactionConfig): RedactionResult<string> {
+  const byRule: Record<string, number> = {};
+  let count = 0;
+  let value = text;
+
+  const record = (rule: string) => {
+    byRule[rule] = (byRule[rule] ?? 0) + 1;
+    count++;
+  };
+
+  for (const rule of config.rules) {
+    rule.pattern.lastIndex = 0;
+    value = value.replace(rule.pattern, (...args: any[]) => {
+      const match: string = args[0];
+      const groups = typeof args[args.length - 1] === 'object' ? args[args.length - 1] as Record<string, string | undefined> : undefined;
+      const secret = groups?.secret;
+
+      // Skip empty matches and values an earlier rule already redacted
+      if (match.length === 0 || (secret ?? match).includes(REDACTION_MARKER_PREFIX)) return match;
+      record(rule.name);
+
+      if (secret) {
+        const start = match.lastIndexOf(secret);
+        return match.slice(0, start) + redactionMarker(rule.name) + match.slice(start + secret.length);
+      }
+      return redactionMarker(rule.name);
+    });
+  }
+
+  if (config.entropyThreshold > 0) {
+    value = value.replace(HIGH_ENTROPY_CANDIDATE, (candidate: string) => {
+      // Require a mix of letters and digits so long words and identifiers are left alone
+      if (candidate.length < HIGH_ENTROPY_MIN_LENGTH || !/[0-9]/.test(candidate) || !/[A-Za-z]/.test(candidate)) {
+        return candidate;
+      }
+      if (shannonEntropy(candidate) < config.entropyThreshold) {
+        return candidate;
+      }
+      record(HIGH_ENTROPY_RULE);
+      return redactionMarker(HIGH_ENTROPY_RULE);
+    });
+  }
+
+  return { value, count, byRule };
+}
+
+/**
+ * Redact secrets in every string of a JSON-compatible value (objects and arrays are walked)
+ */
+export function redactValue<T>(input: T, config: RedactionConfig): RedactionResult<T> {
+  const byRule: Record<string, number> = {};
+  let count = 0;
+
+  const walk = (node: unknown): unknown => {
+    if (typeof node === 'string') {
+      const result = redactText(node, config);
+      count += result.count;
+      for (const [rule, n] of Object.entries(result.byRule)) {
+        byRule[rule] = (byRule[rule] ?? 0) + n;
+      }
+      return result.value;
+    }
+    if (Array.isArray(node)) {
+      return node.map(walk);
+    }
+    if (node && typeof node === 'object') {
+      const copy: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(node)) {
+        copy[key] = walk(child);
+      }
+      return copy;
+    }
+    return node;
+  };
+
+  if (!config.enabled) {
+    return { value: input, count: 0, byRule };
+  }
+  return { value: walk(input) as T, count, byRule };
+}
+
+/**
+ * Parse user-defined rules from settings
+ * Invalid entries are skipped with a warning so a typo never disables redaction entirely.
+ */
+export function parseCustomRedactionRules(json: string): RedactionRule[] {
+  if (!json || !json.trim()) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch (error) {
+    logger.warn('SYSTEM', 'CLAUDE_MEM_REDACTION_CUSTOM_RULES is not valid JSON, ignoring custom rules', undefined, error);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    logger.warn('SYSTEM', 'CLAUDE_MEM_REDACTION_CUSTOM_RULES must be a JSON array, ignoring custom rules');
+    return [];
+  }
+
+  const rules: RedactionRule[] = [];
+  for (const entry of entries as CustomRedactionRuleConfig[]) {
+    if (!entry || typeof entry.name !== 'string' || typeof entry.pattern !== 'string') {
+      logger.warn('SYSTEM', 'Skipping custom redaction rule without name or pattern', { entry });
+      continue;
+    }
+    try {
+      const flags = new Set((entry.flags ?? '').split('').filter(flag => 'imsu'.includes(flag)));
+      flags.add('g');
+      rules.push({ name: entry.name, pattern: new RegExp(entry.pattern, Array.from(flags).join('')) });
+    } catch (error) {
+      logger.warn('SYSTEM', 'Skipping custom redaction rule with invalid pattern', { name: entry.name }, error);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Build the redaction configuration from settings
+ */
+export function loadRedactionConfig(settings: SettingsDefaults): RedactionConfig {
+  const disabled = new Set(
+    settings.CLAUDE_MEM_REDACTION_DISABLED_RULES.split(',').map(rule => rule.trim()).filter(Boolean)
+  );
+  const entropyThreshold = parseFloat(settings.CLAUDE_MEM_REDACTION_ENTROPY_THRESHOLD);
+
+  return {
+    enabled: settings.CLAUDE_MEM_REDACTION_ENABLED !== 'false',
+    rules: [
+      ...BUILT_IN_REDACTION_RULES.filter(rule => !disabled.has(rule.name)),
+      ...parseCustomRedactionRules(settings.CLAUDE_MEM_REDACTION_CUSTOM_RULES).filter(rule => !disabled.has(rule.name))
+    ],
+    entropyThreshold: disabled.has(HIGH_ENTROPY_RULE) || !Number.isFinite(entropyThreshold) ? 0 : entropyThreshold
+  };
+}
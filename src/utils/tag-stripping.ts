@@ -71,3 +71,21 @@ export function stripMemoryTagsFromJson(content: string): string {
 export function stripMemoryTagsFromPrompt(content: string): string {
   return stripTagsInternal(content);
 }
+
+/**
+ * Strip memory tags from stored memory text before it leaves the machine (team sync)
+ *
+ * @param content - Observation or summary field value (plain text or JSON array string)
+ * @returns Cleaned content with tags removed
+ */
+export function stripMemoryTagsFromText(content: string): string {
+  return stripTagsInternal(content);
+}
+
+/**
+ * Whether content still carries a private tag after stripping (e.g. an unclosed <private>)
+ * Such content must never be shared.
+ */
+export function hasPrivateContent(content: string): boolean {
+  return content.includes('<private>') || content.includes('</private>');
+}
@@ -93,6 +93,9 @@ function createTestConfig(overrides: Partial<ContextConfig> = {}): ContextConfig
     fullObservationField: 'narrative',
     showLastSummary: true,
     showLastMessage: true,
+    showTeamMemories: true,
+    preferDigests: true,
+    digestAfterDays: 30,
     ...overrides,
   };
 }
@@ -304,6 +307,16 @@ describe('MarkdownFormatter', () => {
       expect(result).toContain('Important Discovery');
     });
 
+    it('should tag observations shared by a teammate with their author', () => {
+      const config = createTestConfig();
+
+      const shared = renderMarkdownTableRow(createTestObservation({ title: 'Cache bug', origin_author: 'alice' }), '10:00', config);
+      const local = renderMarkdownTableRow(createTestObservation({ title: 'Cache bug' }), '10:00', config);
+
+      expect(shared).toContain('Cache bug (@alice)');
+      expect(local).not.toContain('(@');
+    });
+
     it('should use "Untitled" when title is null', () => {
       const obs = createTestObservation({ title: null });
       const config = createTestConfig();
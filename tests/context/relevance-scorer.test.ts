@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  recencyComponent,
+  retrievalComponent,
+  typeComponent,
+  fileOverlapComponent,
+  scoreObservation,
+  rankObservations,
+} from '../../src/services/context/RelevanceScorer.js';
+import type { ContextConfig, Observation } from '../../src/services/context/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1735732800000;
+
+function createTestObservation(overrides: Partial<Observation> = {}): Observation {
+  return {
+    id: 1,
+    memory_session_id: 'session-123',
+    type: 'discovery',
+    title: 'Test Observation',
+    subtitle: null,
+    narrative: 'A test narrative',
+    facts: '[]',
+    concepts: '[]',
+    files_read: null,
+    files_modified: null,
+    discovery_tokens: 100,
+    created_at: new Date(NOW).toISOString(),
+    created_at_epoch: NOW,
+    retrieval_count: 0,
+    ...overrides,
+  };
+}
+
+function createTestConfig(overrides: Partial<ContextConfig> = {}): ContextConfig {
+  return {
+    totalObservationCount: 2,
+    fullObservationCount: 1,
+    sessionCount: 1,
+    showReadTokens: false,
+    showWorkTokens: false,
+    showSavingsAmount: false,
+    showSavingsPercent: false,
+    observationTypes: new Set(['discovery', 'decision', 'change']),
+    observationConcepts: new Set(['gotcha']),
+    fullObservationField: 'narrative',
+    showLastSummary: false,
+    showLastMessage: false,
+    showTeamMemories: true,
+    preferDigests: true,
+    digestAfterDays: 30,
+    ranking: 'relevance',
+    decayHalfLifeDays: 14,
+    scoreWeights: { recency: 0.4, retrieval: 0.2, type: 0.25, files: 0.15 },
+    minQuality: 0,
+    ...overrides,
+  };
+}
+
+describe('RelevanceScorer', () => {
+  let cwd: string;
+
+  beforeAll(() => {
+    cwd = mkdtempSync(path.join(tmpdir(), 'relevance-scorer-'));
+    writeFileSync(path.join(cwd, 'present.ts'), '');
+  });
+
+  afterAll(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  describe('recencyComponent', () => {
+    it('should be 1 for a brand-new observation', () => {
+      expect(recencyComponent(NOW, 14, NOW)).toBe(1);
+    });
+
+    it('should halve after one half-life', () => {
+      expect(recencyComponent(NOW - 14 * DAY_MS, 14, NOW)).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('retrievalComponent', () => {
+    it('should be 0 when never retrieved and grow with retrievals', () => {
+      expect(retrievalComponent(0)).toBe(0);
+      expect(retrievalComponent(3)).toBeCloseTo(0.5);
+      expect(retrievalComponent(30)).toBeGreaterThan(0.9);
+    });
+  });
+
+  describe('typeComponent', () => {
+    it('should weigh decisions above routine changes', () => {
+      expect(typeComponent('decision', [])).toBeGreaterThan(typeComponent('change', []));
+    });
+
+    it('should lift any type tagged as a gotcha', () => {
+      expect(typeComponent('change', ['gotcha'])).toBe(typeComponent('decision', []));
+    });
+  });
+
+  describe('fileOverlapComponent', () => {
+    it('should return 0 for observations without files', () => {
+      expect(fileOverlapComponent([], cwd)).toBe(0);
+    });
+
+    it('should count absolute paths inside cwd and existing relative paths', () => {
+      const files = [
+        path.join(cwd, 'src', 'a.ts'),
+        'present.ts',
+        'missing.ts',
+        '/somewhere/else.ts',
+      ];
+      expect(fileOverlapComponent(files, cwd)).toBe(0.5);
+    });
+  });
+
+  describe('scoreObservation', () => {
+    it('should expose each normalized component', () => {
+      const score = scoreObservation(
+        createTestObservation({ type: 'decision', retrieval_count: 3, files_modified: '["present.ts"]' }),
+        createTestConfig(),
+        cwd,
+        NOW
+      );
+
+      expect(score.components).toEqual({ recency: 1, retrieval: 0.5, type: 1, files: 1 });
+      expect(score.score).toBeCloseTo(0.4 + 0.1 + 0.25 + 0.15);
+      expect(score.retrievalCount).toBe(3);
+    });
+  });
+
+  describe('rankObservations', () => {
+    it('should keep the most relevant observations, newest first', () => {
+      const candidates = [
+        createTestObservation({ id: 3, type: 'change', created_at_epoch: NOW }),
+        createTestObservation({ id: 2, type: 'change', created_at_epoch: NOW - 1 * DAY_MS }),
+        createTestObservation({ id: 1, type: 'decision', retrieval_count: 20, created_at_epoch: NOW - 2 * DAY_MS }),
+      ];
+
+      const { observations, scores } = rankObservations(candidates, createTestConfig(), cwd, NOW);
+
+      expect(scores.map(score => score.id)).toEqual([1, 3]);
+      expect(observations.map(obs => obs.id)).toEqual([3, 1]);
+    });
+  });
+});
@@ -116,7 +116,8 @@ describe('GeminiAgent', () => {
 
     mockSessionManager = {
       getMessageIterator: async function* () { yield* []; },
-      getPendingMessageStore: () => mockPendingMessageStore
+      getPendingMessageStore: () => mockPendingMessageStore,
+      wakeQueue: mock(() => {})
     } as unknown as SessionManager;
 
     agent = new GeminiAgent(mockDbManager, mockSessionManager);
@@ -147,6 +148,7 @@ describe('GeminiAgent', () => {
       abortController: new AbortController(),
       generatorPromise: null,
       earliestPendingTimestamp: null,
+      inFlightMessages: [],
       currentProvider: null,
       startTime: Date.now()
     } as any;
@@ -183,6 +185,7 @@ describe('GeminiAgent', () => {
       abortController: new AbortController(),
       generatorPromise: null,
       earliestPendingTimestamp: null,
+      inFlightMessages: [],
       currentProvider: null,
       startTime: Date.now()
     } as any;
@@ -215,6 +218,7 @@ describe('GeminiAgent', () => {
       abortController: new AbortController(),
       generatorPromise: null,
       earliestPendingTimestamp: null,
+      inFlightMessages: [],
       currentProvider: null,
       startTime: Date.now()
     } as any;
@@ -260,6 +264,7 @@ describe('GeminiAgent', () => {
       abortController: new AbortController(),
       generatorPromise: null,
       earliestPendingTimestamp: null,
+      inFlightMessages: [],
       currentProvider: null,
       startTime: Date.now()
     } as any;
@@ -293,6 +298,7 @@ describe('GeminiAgent', () => {
       abortController: new AbortController(),
       generatorPromise: null,
       earliestPendingTimestamp: null,
+      inFlightMessages: [],
       currentProvider: null,
       startTime: Date.now()
     } as any;
@@ -332,6 +338,7 @@ describe('GeminiAgent', () => {
         abortController: new AbortController(),
         generatorPromise: null,
         earliestPendingTimestamp: null,
+        inFlightMessages: [],
         currentProvider: null,
         startTime: Date.now()
       } as any;
@@ -384,6 +391,7 @@ describe('GeminiAgent', () => {
         abortController: new AbortController(),
         generatorPromise: null,
         earliestPendingTimestamp: null,
+        inFlightMessages: [],
         currentProvider: null,
         startTime: Date.now()
       } as any;
@@ -0,0 +1,265 @@
+/**
+ * SQLite Vector Store Integration Tests
+ *
+ * Tests ChromaSync against the in-database vector backend. Uses a deterministic
+ * bag-of-words embedder so the tests run without downloading a model.
+ *
+ * Sources:
+ * - ChromaSync implementation from src/services/sync/ChromaSync.ts
+ * - SqliteVectorStore implementation from src/services/sync/vector/SqliteVectorStore.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import type { Database } from 'bun:sqlite';
+import { ClaudeMemDatabase } from '../../src/services/sqlite/Database.js';
+import { SessionStore } from '../../src/services/sqlite/SessionStore.js';
+import { ChromaSync } from '../../src/services/sync/ChromaSync.js';
+import { SqliteVectorStore, whereFilterToSql } from '../../src/services/sync/vector/SqliteVectorStore.js';
+import { distanceToSimilarity } from '../../src/services/sync/vector/VectorStore.js';
+import type { VectorWhereFilter } from '../../src/services/sync/vector/VectorStore.js';
+import type { Embedder } from '../../src/services/sync/vector/LocalEmbedder.js';
+import type { ParsedObservation } from '../../src/sdk/parser.js';
+
+const DIMENSIONS = 64;
+
+/**
+ * Hashes each word into a bucket and L2-normalizes, so texts sharing words are close
+ */
+class BagOfWordsEmbedder implements Embedder {
+  readonly model = 'test-bag-of-words';
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    return texts.map(text => {
+      const vector = new Float32Array(DIMENSIONS);
+      for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+        let hash = 0;
+        for (const char of word) {
+          hash = (hash * 31 + char.charCodeAt(0)) % DIMENSIONS;
+        }
+        vector[hash] += 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+      return vector.map(value => value / norm);
+    });
+  }
+}
+
+function createParsedObservation(overrides: Partial<ParsedObservation> = {}): ParsedObservation {
+  return {
+    type: 'discovery',
+    title: 'Test observation',
+    subtitle: null,
+    facts: [],
+    narrative: null,
+    concepts: [],
+    files_read: [],
+    files_modified: [],
+    ...overrides,
+  };
+}
+
+describe('SqliteVectorStore', () => {
+  let db: Database;
+  let chromaSync: ChromaSync;
+
+  beforeEach(() => {
+    db = new ClaudeMemDatabase(':memory:').db;
+    chromaSync = new ChromaSync('test-project', new SqliteVectorStore('cm__test-project', new BagOfWordsEmbedder(), db));
+  });
+
+  afterEach(async () => {
+    await chromaSync.close();
+    db.close();
+  });
+
+  it('should store one vector per observation field', async () => {
+    await chromaSync.syncObservation(1, 'mem-1', 'test-project', createParsedObservation({
+      narrative: 'The worker restarts when the port is busy',
+      facts: ['Port 37777 is the default', 'Health check runs every second'],
+    }), 1, Date.now());
+
+    const count = db.prepare('SELECT COUNT(*) as count FROM vector_documents').get() as { count: number };
+    expect(count.count).toBe(3);
+  });
+
+  it('should rank semantically closer documents first', async () => {
+    await chromaSync.syncObservation(1, 'mem-1', 'test-project', createParsedObservation({
+      narrative: 'SQLite database migrations run in the session store constructor',
+    }), 1, Date.now());
+    await chromaSync.syncObservation(2, 'mem-1', 'test-project', createParsedObservation({
+      narrative: 'The viewer renders observation cards with React',
+    }), 1, Date.now());
+
+    const results = await chromaSync.queryChroma('react viewer cards', 10);
+
+    expect(results.ids[0]).toBe(2);
+    expect(results.distances[0]).toBeLessThan(results.distances[1]);
+    expect(results.metadatas[0].doc_type).toBe('observation');
+  });
+
+  it('should apply where filters like Chroma', async () => {
+    await chromaSync.syncObservation(1, 'mem-1', 'test-project', createParsedObservation({
+      narrative: 'memory search',
+    }), 1, Date.now());
+    await chromaSync.syncUserPrompt(7, 'mem-1', 'test-project', 'memory search please', 1, Date.now());
+
+    const results = await chromaSync.queryChroma('memory search', 10, { doc_type: 'user_prompt' });
+
+    expect(results.ids).toEqual([7]);
+  });
+
+  it('should remove and re-embed documents for edited records', async () => {
+    await chromaSync.syncObservation(1, 'mem-1', 'test-project', createParsedObservation({
+      narrative: 'original narrative text',
+      facts: ['a fact'],
+    }), 1, Date.now());
+
+    await chromaSync.deleteObservation(1);
+    let count = db.prepare('SELECT COUNT(*) as count FROM vector_documents').get() as { count: number };
+    expect(count.count).toBe(0);
+
+    await chromaSync.resyncObservation({
+      id: 1,
+      memory_session_id: 'mem-1',
+      project: 'test-project',
+      text: null,
+      type: 'discovery',
+      title: 'Edited',
+      narrative: 'edited narrative text',
+      facts: '[]',
+      concepts: '[]',
+      files_read: '[]',
+      files_modified: '[]',
+      created_at: new Date().toISOString(),
+      created_at_epoch: Date.now(),
+    });
+    count = db.prepare('SELECT COUNT(*) as count FROM vector_documents').get() as { count: number };
+    expect(count.count).toBe(1);
+  });
+
+  it('should score each observation once by its closest document', async () => {
+    await chromaSync.syncObservation(1, 'mem-1', 'test-project', createParsedObservation({
+      narrative: 'The viewer renders observation cards with React',
+      facts: ['Cards use React hooks for state', 'Unrelated database fact'],
+    }), 1, Date.now());
+    await chromaSync.syncObservation(2, 'mem-1', 'test-project', createParsedObservation({
+      narrative: 'SQLite database migrations run in the session store constructor',
+    }), 1, Date.now());
+    await chromaSync.syncUserPrompt(7, 'mem-1', 'test-project', 'react viewer cards', 1, Date.now());
+
+    const results = await chromaSync.queryObservationSimilarity('react viewer cards', 20, { project: 'test-project' });
+
+    expect(results.map(result => result.id)).toEqual([1, 2]);
+    expect(results[0].similarity).toBeGreaterThan(results[1].similarity);
+    expect(results[0].similarity).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('ChromaSync.syncStoredRecords', () => {
+  let store: SessionStore;
+  let chromaSync: ChromaSync;
+
+  beforeEach(() => {
+    store = new SessionStore(':memory:');
+    chromaSync = new ChromaSync('test-project', new SqliteVectorStore('cm__test-project', new BagOfWordsEmbedder(), store.db));
+    const sessionId = store.createSDKSession('content-1', 'test-project', 'first prompt');
+    store.updateMemorySessionId(sessionId, 'mem-1');
+  });
+
+  afterEach(async () => {
+    await chromaSync.close();
+    store.close();
+  });
+
+  function countDocuments(docType: string): number {
+    const row = store.db.prepare('SELECT COUNT(*) as count FROM vector_documents WHERE doc_type = ?').get(docType) as { count: number };
+    return row.count;
+  }
+
+  it('should embed records written straight to the database', async () => {
+    const observation = store.storeObservation('mem-1', 'test-project', {
+      ...createParsedObservation({ narrative: 'Imported narrative' }),
+      facts: ['Imported fact']
+    });
+    const summary = store.storeSummary('mem-1', 'test-project', {
+      request: 'Import an archive',
+      investigated: '',
+      learned: '',
+      completed: '',
+      next_steps: '',
+      notes: null
+    });
+    const promptId = store.saveUserPrompt('content-1', 1, 'import my archive');
+
+    await chromaSync.syncStoredRecords(store, { observations: [observation.id], summaries: [summary.id], prompts: [promptId] });
+
+    expect(countDocuments('observation')).toBe(2);
+    expect(countDocuments('session_summary')).toBe(1);
+    expect(countDocuments('user_prompt')).toBe(1);
+    const results = await chromaSync.queryChroma('imported narrative', 10, { doc_type: 'observation' });
+    expect(results.ids).toEqual([observation.id]);
+  });
+
+  it('should replace documents of overwritten records and drop forgotten ones', async () => {
+    const observation = store.storeObservation('mem-1', 'test-project', createParsedObservation({ narrative: 'Original narrative' }));
+    await chromaSync.syncStoredRecords(store, { observations: [observation.id], summaries: [] });
+    await chromaSync.syncStoredRecords(store, { observations: [observation.id], summaries: [] });
+    expect(countDocuments('observation')).toBe(1);
+
+    store.forgetObservation(observation.id, 'test', 'no longer true');
+    await chromaSync.syncStoredRecords(store, { observations: [observation.id], summaries: [] });
+    expect(countDocuments('observation')).toBe(0);
+  });
+});
+
+describe('whereFilterToSql', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new ClaudeMemDatabase(':memory:').db;
+    db.prepare(`
+      INSERT INTO vector_documents
+      (id, collection, doc_type, sqlite_id, document, metadata_json, embedding, model, created_at_epoch)
+      VALUES ('obs_5_narrative', 'cm__test', 'observation', 5, 'text', ?, x'', 'test', 0)
+    `).run(JSON.stringify({ doc_type: 'observation', sqlite_id: 5, type: 'decision' }));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function matches(where: VectorWhereFilter): boolean {
+    const filter = whereFilterToSql(where);
+    const row = db.prepare(`SELECT COUNT(*) as count FROM vector_documents WHERE ${filter.sql}`)
+      .get(...filter.params) as { count: number };
+    return row.count === 1;
+  }
+
+  it('should match equality, $and and $or', () => {
+    expect(matches({ doc_type: 'observation' })).toBe(true);
+    expect(matches({ $and: [{ sqlite_id: 5 }, { doc_type: 'observation' }] })).toBe(true);
+    expect(matches({ $and: [{ sqlite_id: 6 }, { doc_type: 'observation' }] })).toBe(false);
+    expect(matches({ $or: [{ sqlite_id: 6 }, { type: 'decision' }] })).toBe(true);
+  });
+
+  it('should support $in and $ne operators', () => {
+    expect(matches({ type: { $in: ['decision', 'bugfix'] } })).toBe(true);
+    expect(matches({ type: { $ne: 'decision' } })).toBe(false);
+  });
+
+  it('should treat a missing field as matching $ne and $nin only', () => {
+    expect(matches({ project: { $ne: 'other' } })).toBe(true);
+    expect(matches({ project: { $nin: ['other'] } })).toBe(true);
+    expect(matches({ project: 'other' })).toBe(false);
+    expect(matches({ project: { $in: [] } })).toBe(false);
+  });
+});
+
+describe('distanceToSimilarity', () => {
+  it('should give the same similarity for both distance metrics', () => {
+    // Unit vectors 60 degrees apart: cosine similarity 0.5
+    expect(distanceToSimilarity(0.5, 'cosine')).toBeCloseTo(0.5);
+    expect(distanceToSimilarity(1, 'squared-l2')).toBeCloseTo(0.5);
+    expect(distanceToSimilarity(0, 'squared-l2')).toBe(1);
+  });
+});
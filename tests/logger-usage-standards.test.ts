@@ -28,6 +28,7 @@ const EXCLUDED_PATTERNS = [
   /logger\.ts$/,         // Logger itself
   /hook-response\.ts$/,  // Pure data structure
   /hook-constants\.ts$/, // Pure constants
+  /sync\/vector\/VectorStore\.ts$/, // Vector store interface and pure distance math
   /paths\.ts$/,          // Path utilities
   /bun-path\.ts$/,       // Path utilities
   /migrations\.ts$/,     // Database migrations (console.log for migration output)
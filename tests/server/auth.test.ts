@@ -0,0 +1,233 @@
+/**
+ * Worker API authentication tests
+ * Tests the API token store, scope rules and the auth middleware for local and remote clients
+ *
+ * Sources:
+ * - Implementation from src/services/worker/http/auth.ts
+ * - Middleware order from src/services/worker/http/middleware.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import express from 'express';
+import type { Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdirSync, mkdtempSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { logger } from '../../src/utils/logger.js';
+import {
+  ApiTokenStore,
+  createAuthMiddleware,
+  requiredScope,
+  hasScope,
+  isPublicRoute,
+  listStaticAssetPaths
+} from '../../src/services/worker/http/auth.js';
+import type { AuthMode } from '../../src/services/worker/http/auth.js';
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('Worker API auth', () => {
+  let dir: string;
+  let store: ApiTokenStore;
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {}),
+      spyOn(logger, 'error').mockImplementation(() => {}),
+    ];
+    dir = mkdtempSync(join(tmpdir(), 'auth-test-'));
+    store = new ApiTokenStore(join(dir, 'api-tokens.json'));
+  });
+
+  afterEach(() => {
+    loggerSpies.forEach(spy => spy.mockRestore());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('ApiTokenStore', () => {
+    it('should create a default admin token once, readable only by the owner', () => {
+      const token = store.ensureDefaultToken();
+
+      expect(token).toMatchObject({ name: 'default', scopes: ['admin'] });
+      expect(token!.token).toStartWith('cmem_');
+      expect(store.ensureDefaultToken()).toBeNull();
+      if (process.platform !== 'win32') {
+        expect(statSync(join(dir, 'api-tokens.json')).mode & 0o777).toBe(0o600);
+      }
+    });
+
+    it('should verify, revoke and pick up hand edits of the token file', () => {
+      const reader = store.create('reader', ['read']);
+
+      expect(store.verify(reader.token)?.id).toBe(reader.id);
+      expect(store.verify('cmem_wrong')).toBeNull();
+
+      expect(store.revoke(reader.id)).toBe(true);
+      expect(store.verify(reader.token)).toBeNull();
+      expect(store.revoke(reader.id)).toBe(false);
+
+      const edited = { id: 'manual', name: 'manual', token: 'cmem_manual', scopes: ['write'], createdAt: 0 };
+      writeFileSync(join(dir, 'api-tokens.json'), JSON.stringify({ tokens: [edited] }));
+      expect(store.verify('cmem_manual')?.scopes).toEqual(['write']);
+    });
+
+    it('should authorize nobody when the token file is corrupted', () => {
+      writeFileSync(join(dir, 'api-tokens.json'), '{ not json');
+
+      expect(store.list()).toEqual([]);
+      expect(store.verify('cmem_anything')).toBeNull();
+    });
+  });
+
+  describe('scopes', () => {
+    it('should require admin for settings, tokens, process control and metrics', () => {
+      expect(requiredScope('GET', '/api/settings')).toBe('admin');
+      expect(requiredScope('POST', '/api/auth/tokens')).toBe('admin');
+      expect(requiredScope('POST', '/api/admin/shutdown')).toBe('admin');
+      expect(requiredScope('POST', '/api/logs/clear')).toBe('admin');
+      expect(requiredScope('GET', '/metrics')).toBe('admin');
+    });
+
+    it('should match admin routes regardless of path case, as Express does', () => {
+      expect(requiredScope('GET', '/API/settings')).toBe('admin');
+      expect(requiredScope('POST', '/Api/Auth/Tokens')).toBe('admin');
+      expect(requiredScope('GET', '/METRICS')).toBe('admin');
+      expect(requiredScope('POST', '/API/LOGS/CLEAR')).toBe('admin');
+      expect(requiredScope('POST', '/MCP')).toBe('read');
+      expect(isPublicRoute('GET', '/API/Health')).toBe(true);
+    });
+
+    it('should require read for GET and write for other methods', () => {
+      expect(requiredScope('GET', '/api/search')).toBe('read');
+      expect(requiredScope('GET', '/api/logs')).toBe('read');
+      expect(requiredScope('POST', '/api/sessions/observations')).toBe('write');
+      expect(requiredScope('DELETE', '/api/observation/5')).toBe('write');
+      expect(requiredScope('POST', '/mcp')).toBe('read');
+    });
+
+    it('should rank admin above write above read', () => {
+      expect(hasScope(['admin'], 'read')).toBe(true);
+      expect(hasScope(['write'], 'read')).toBe(true);
+      expect(hasScope(['write'], 'admin')).toBe(false);
+      expect(hasScope(['read'], 'write')).toBe(false);
+    });
+
+    it('should leave health checks, the viewer shell and login public', () => {
+      const staticAssets = new Set(['/viewer-bundle.js']);
+
+      expect(isPublicRoute('GET', '/api/health')).toBe(true);
+      expect(isPublicRoute('GET', '/viewer-bundle.js', staticAssets)).toBe(true);
+      expect(isPublicRoute('POST', '/api/auth/login')).toBe(true);
+      expect(isPublicRoute('GET', '/api/observations')).toBe(false);
+      expect(isPublicRoute('GET', '/stream')).toBe(false);
+    });
+
+    it('should only exempt files the viewer build actually serves', () => {
+      const uiDir = join(dir, 'ui');
+      mkdirSync(join(uiDir, 'assets', 'fonts'), { recursive: true });
+      writeFileSync(join(uiDir, 'viewer-bundle.js'), '');
+      writeFileSync(join(uiDir, 'assets', 'fonts', 'mono.woff2'), '');
+
+      const staticAssets = listStaticAssetPaths([uiDir, join(dir, 'missing')]);
+
+      expect([...staticAssets].sort()).toEqual(['/assets/fonts/mono.woff2', '/viewer-bundle.js']);
+      expect(isPublicRoute('GET', '/assets/fonts/mono.woff2', staticAssets)).toBe(true);
+      expect(isPublicRoute('POST', '/viewer-bundle.js', staticAssets)).toBe(false);
+      expect(isPublicRoute('GET', '/api/export.js', staticAssets)).toBe(false);
+      expect(isPublicRoute('GET', '/api/observations/1.html', staticAssets)).toBe(false);
+    });
+  });
+
+  describe('createAuthMiddleware', () => {
+    let httpServer: HttpServer;
+    let baseUrl: string;
+
+    async function startApp(mode: AuthMode): Promise<void> {
+      const app = express();
+      // Lets tests pose as a remote client with X-Forwarded-For
+      app.set('trust proxy', true);
+      app.use(createAuthMiddleware(mode, store));
+      app.get('/api/observations', (_req, res) => { res.json({ ok: true }); });
+      app.post('/api/sessions/observations', (_req, res) => { res.json({ ok: true }); });
+      app.get('/api/settings', (_req, res) => { res.json({ ok: true }); });
+      app.get('/api/health', (_req, res) => { res.json({ ok: true }); });
+
+      await new Promise<void>(resolve => {
+        httpServer = app.listen(0, '127.0.0.1', () => resolve());
+      });
+      baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+    }
+
+    function remote(headers: Record<string, string> = {}): Record<string, string> {
+      return { 'X-Forwarded-For': '203.0.113.7', ...headers };
+    }
+
+    afterEach(async () => {
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    });
+
+    it('should trust loopback clients without a token', async () => {
+      await startApp('remote');
+
+      const response = await fetch(`${baseUrl}/api/settings`);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject remote clients without a valid token', async () => {
+      await startApp('remote');
+
+      const missing = await fetch(`${baseUrl}/api/observations`, { headers: remote() });
+      const invalid = await fetch(`${baseUrl}/api/observations`, { headers: remote({ Authorization: 'Bearer cmem_nope' }) });
+      const health = await fetch(`${baseUrl}/api/health`, { headers: remote() });
+
+      expect(missing.status).toBe(401);
+      expect(missing.headers.get('www-authenticate')).toContain('Bearer');
+      expect(invalid.status).toBe(401);
+      expect(health.status).toBe(200);
+    });
+
+    it('should enforce token scopes for remote clients', async () => {
+      await startApp('remote');
+      const reader = store.create('reader', ['read']);
+      const writer = store.create('writer', ['write']);
+      const auth = (token: string) => remote({ Authorization: `Bearer ${token}` });
+
+      expect((await fetch(`${baseUrl}/api/observations`, { headers: auth(reader.token) })).status).toBe(200);
+      expect((await fetch(`${baseUrl}/api/sessions/observations`, { method: 'POST', headers: auth(reader.token) })).status).toBe(403);
+      expect((await fetch(`${baseUrl}/api/sessions/observations`, { method: 'POST', headers: auth(writer.token) })).status).toBe(200);
+      expect((await fetch(`${baseUrl}/api/settings`, { headers: auth(writer.token) })).status).toBe(403);
+    });
+
+    it('should enforce admin scope on mixed-case paths', async () => {
+      await startApp('remote');
+      const reader = store.create('reader', ['read']);
+      const admin = store.create('admin', ['admin']);
+      const auth = (token: string) => remote({ Authorization: `Bearer ${token}` });
+
+      expect((await fetch(`${baseUrl}/API/settings`, { headers: auth(reader.token) })).status).toBe(403);
+      expect((await fetch(`${baseUrl}/Api/Settings`, { headers: auth(admin.token) })).status).toBe(200);
+    });
+
+    it('should accept the viewer login cookie', async () => {
+      await startApp('remote');
+      const reader = store.create('viewer', ['read']);
+
+      const response = await fetch(`${baseUrl}/api/observations`, {
+        headers: remote({ Cookie: `theme=dark; claude_mem_token=${reader.token}` })
+      });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should let every client through when auth is off', async () => {
+      await startApp('off');
+
+      const response = await fetch(`${baseUrl}/api/settings`, { headers: remote() });
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
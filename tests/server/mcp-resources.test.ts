@@ -0,0 +1,49 @@
+/**
+ * MCP resource and prompt tests
+ * Tests claude-mem:// URI parsing, resource listing and prompt text
+ *
+ * Sources:
+ * - Implementation from src/servers/mcp-resources.ts
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  parseResourceUri,
+  listProjectResources,
+  buildResumePrompt,
+  buildRecallPrompt
+} from '../../src/servers/mcp-resources.js';
+
+describe('MCP resources', () => {
+  it('should resolve project and observation URIs', () => {
+    expect(parseResourceUri('claude-mem://project/my-app/recent')).toEqual({ kind: 'recent', project: 'my-app' });
+    expect(parseResourceUri('claude-mem://project/my%20app/context')).toEqual({ kind: 'context', project: 'my app' });
+    expect(parseResourceUri('claude-mem://observation/42')).toEqual({ kind: 'observation', id: 42 });
+  });
+
+  it('should reject URIs it does not serve', () => {
+    expect(parseResourceUri('file:///tmp/x')).toBeNull();
+    expect(parseResourceUri('claude-mem://observation/abc')).toBeNull();
+    expect(parseResourceUri('claude-mem://project/my-app/summaries')).toBeNull();
+    expect(parseResourceUri('claude-mem://project/%E0%A4%A/recent')).toBeNull();
+  });
+
+  it('should list encoded URIs that round-trip through the parser', () => {
+    const resources = listProjectResources(['my app']);
+
+    expect(resources.map(r => r.uri)).toEqual([
+      'claude-mem://project/my%20app/recent',
+      'claude-mem://project/my%20app/context'
+    ]);
+    expect(resources.map(r => parseResourceUri(r.uri))).toEqual([
+      { kind: 'recent', project: 'my app' },
+      { kind: 'context', project: 'my app' }
+    ]);
+  });
+
+  it('should embed context and topics in prompt text', () => {
+    expect(buildResumePrompt('my-app', '# Recent\n- fixed login')).toContain('- fixed login');
+    expect(buildResumePrompt('my-app', '  ')).toContain('(no memories recorded yet)');
+    expect(buildRecallPrompt('rate limiting', 'my-app')).toContain('search(query="rate limiting", project="my-app")');
+  });
+});
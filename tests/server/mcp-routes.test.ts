@@ -0,0 +1,142 @@
+/**
+ * MCP over HTTP tests
+ * Tests sessions, tool calls and read-only scoping on the worker's /mcp endpoint
+ *
+ * Sources:
+ * - Implementation from src/services/worker/http/routes/McpRoutes.ts
+ * - Server definition from src/servers/mcp-memory-server.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import express from 'express';
+import type { Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { logger } from '../../src/utils/logger.js';
+import { McpRoutes } from '../../src/services/worker/http/routes/McpRoutes.js';
+import type { AuthContext, AuthMode } from '../../src/services/worker/http/auth.js';
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('McpRoutes', () => {
+  let httpServer: HttpServer;
+  let baseUrl: string;
+  let routes: McpRoutes;
+  let searchQueries: Array<Record<string, unknown>>;
+  let clients: Client[];
+
+  async function startApp(mode: AuthMode, auth: AuthContext): Promise<void> {
+    const app = express();
+    app.use(express.json());
+    app.use((_req, res, next) => {
+      res.locals.auth = auth;
+      next();
+    });
+
+    // Stand-in for the worker API the MCP tools call back into
+    app.get('/api/search', (req, res) => {
+      searchQueries.push(req.query);
+      res.json({ content: [{ type: 'text', text: `results for ${req.query.query}` }] });
+    });
+
+    routes = new McpRoutes(mode, () => baseUrl);
+    routes.setupRoutes(app);
+
+    await new Promise<void>(resolve => {
+      httpServer = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  }
+
+  async function connect(path: string = '/mcp'): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}${path}`)));
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {}),
+      spyOn(logger, 'error').mockImplementation(() => {}),
+    ];
+    searchQueries = [];
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close().catch(() => {})));
+    await routes.closeAll();
+    await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should serve the stdio tool set and forward tool calls to the worker API', async () => {
+    await startApp('off', { local: true, tokenId: null, scopes: [] });
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'search', arguments: { query: 'auth', obs_type: ['decision', 'bugfix'] } });
+
+    expect(tools.map(tool => tool.name)).toEqual(
+      ['__IMPORTANT', 'search', 'timeline', 'get_observations', 'related', 'remember', 'forget', 'annotate']
+    );
+    expect(result.content).toEqual([{ type: 'text', text: 'results for auth' }]);
+    expect(searchQueries[0]).toEqual({ query: 'auth', obs_type: 'decision,bugfix' });
+    expect(routes.getSessionCount()).toBe(1);
+  });
+
+  it('should keep sessions apart and close them on request', async () => {
+    await startApp('off', { local: true, tokenId: null, scopes: [] });
+    const first = await connect();
+    await connect();
+
+    expect(routes.getSessionCount()).toBe(2);
+
+    await (first.transport as StreamableHTTPClientTransport).terminateSession();
+
+    expect(routes.getSessionCount()).toBe(1);
+  });
+
+  it('should reject requests without an initialized session', async () => {
+    await startApp('off', { local: true, tokenId: null, scopes: [] });
+
+    const noSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    const unknownSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': 'nope' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(noSession.status).toBe(400);
+    expect(unknownSession.status).toBe(404);
+  });
+
+  it('should hide memory-changing tools from read-only tokens', async () => {
+    await startApp('remote', { local: false, tokenId: 'reader', scopes: ['read'] });
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({ name: 'remember', arguments: { title: 'x' } });
+
+    expect(tools.map(tool => tool.name)).not.toContain('remember');
+    expect(tools.map(tool => tool.name)).toContain('search');
+    expect(result.isError).toBe(true);
+  });
+
+  it('should require a project for remember when the connection has no default', async () => {
+    await startApp('off', { local: true, tokenId: null, scopes: [] });
+    const client = await connect();
+
+    const result = await client.callTool({ name: 'remember', arguments: { title: 'x' } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain('project is required');
+  });
+});
@@ -360,6 +360,24 @@ describe('Server', () => {
     });
   });
 
+  describe('metrics endpoint', () => {
+    it('should return OpenMetrics text ending with EOF', async () => {
+      server = new Server(mockOptions);
+      const testPort = 40000 + Math.floor(Math.random() * 10000);
+
+      await server.listen(testPort, '127.0.0.1');
+
+      const response = await fetch(`http://127.0.0.1:${testPort}/metrics`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('application/openmetrics-text');
+
+      const body = await response.text();
+      expect(body).toContain('# TYPE claude_mem_worker_uptime_seconds gauge');
+      expect(body.endsWith('# EOF\n')).toBe(true);
+    });
+  });
+
   describe('404 handling', () => {
     it('should return 404 for unknown routes after finalizeRoutes', async () => {
       server = new Server(mockOptions);
@@ -0,0 +1,179 @@
+/**
+ * Team sync server tests
+ * Tests the reference sync server's conflict rules and a full push/pull round trip
+ * between two workers through the TeamSync client
+ *
+ * Sources:
+ * - Implementation from src/servers/sync-server.ts
+ * - Client from src/services/sync/TeamSync.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import type { Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { logger } from '../../src/utils/logger.js';
+import { SyncServerStore, createSyncServerApp, parseSyncUsers } from '../../src/servers/sync-server.js';
+import { SessionStore } from '../../src/services/sqlite/SessionStore.js';
+import { TeamSync } from '../../src/services/sync/TeamSync.js';
+import type { TeamSyncConfig } from '../../src/services/sync/TeamSync.js';
+import type { SyncRecord } from '../../src/services/sqlite/TeamSync.js';
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+function record(overrides: Partial<SyncRecord> = {}): SyncRecord {
+  return {
+    sync_id: 'record-1',
+    kind: 'observation',
+    project: 'shared',
+    author: 'alice',
+    session_id: 'session-1',
+    revision: 1000,
+    prompt_number: 1,
+    discovery_tokens: 0,
+    created_at: '2025-01-01T00:00:00.000Z',
+    created_at_epoch: 1000,
+    fields: { type: 'discovery', title: 'Title' },
+    ...overrides,
+  };
+}
+
+describe('Sync Server', () => {
+  let store: SyncServerStore;
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {}),
+      spyOn(logger, 'error').mockImplementation(() => {}),
+    ];
+    store = new SyncServerStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  describe('SyncServerStore', () => {
+    it('should refuse stale revisions, other authors and private content', () => {
+      store.push({ project: 'shared', author: 'alice', records: [record()] });
+
+      const result = store.push({
+        project: 'shared',
+        author: 'alice',
+        records: [record(), record({ sync_id: 'record-2', fields: { narrative: 'x <private>y' } })],
+      });
+      const hijack = store.push({ project: 'shared', author: 'mallory', records: [record({ revision: 5000 })] });
+
+      expect(result.accepted).toEqual([]);
+      expect(result.conflicts).toEqual([
+        { sync_id: 'record-1', reason: 'stale_revision' },
+        { sync_id: 'record-2', reason: 'private_content' },
+      ]);
+      expect(hijack.conflicts).toEqual([{ sync_id: 'record-1', reason: 'author_mismatch' }]);
+    });
+
+    it('should page pulls by cursor and move updated records to the end', () => {
+      store.push({ project: 'shared', author: 'alice', records: [record(), record({ sync_id: 'record-2' })] });
+      store.push({ project: 'other', author: 'alice', records: [record({ sync_id: 'record-3' })] });
+
+      const first = store.pull('shared', 0, 1);
+      expect(first.records.map(r => r.sync_id)).toEqual(['record-1']);
+      expect(first.hasMore).toBe(true);
+
+      store.push({ project: 'shared', author: 'alice', records: [record({ revision: 2000, fields: { title: 'Edited' } })] });
+
+      const rest = store.pull('shared', first.cursor);
+      expect(rest.records.map(r => r.sync_id)).toEqual(['record-2', 'record-1']);
+      expect(rest.records[1].fields.title).toBe('Edited');
+      expect(rest.hasMore).toBe(false);
+    });
+  });
+
+  describe('parseSyncUsers', () => {
+    it('should map authors to tokens and skip malformed entries', () => {
+      expect(parseSyncUsers('alice:a:1, bob:b,nobody,:x,carol:')).toEqual(new Map([['alice', 'a:1'], ['bob', 'b']]));
+    });
+  });
+
+  describe('HTTP API with TeamSync clients', () => {
+    let httpServer: HttpServer;
+    let serverUrl: string;
+    let alice: SessionStore;
+    let bob: SessionStore;
+
+    beforeEach(async () => {
+      const app = createSyncServerApp(store, parseSyncUsers('alice:alice-secret, bob:bob-secret'));
+      httpServer = await new Promise<HttpServer>(resolve => {
+        const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+      });
+      serverUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+      alice = new SessionStore(':memory:');
+      bob = new SessionStore(':memory:');
+    });
+
+    afterEach(async () => {
+      alice.close();
+      bob.close();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    });
+
+    function config(author: string, token = `${author}-secret`): TeamSyncConfig {
+      return { serverUrl, token, author, projects: ['shared'], intervalMs: 60_000 };
+    }
+
+    it('should reject requests without a known author token', async () => {
+      const response = await fetch(`${serverUrl}/api/sync/pull?project=shared`);
+      expect(response.status).toBe(401);
+
+      const results = await new TeamSync(alice, config('alice', 'wrong')).syncAll();
+      expect(results).toEqual([]);
+    });
+
+    it('should store pushes under the author of the token and refuse other names', async () => {
+      const push = (token: string, body: object) => fetch(`${serverUrl}/api/sync/push`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+      });
+
+      const impersonation = await push('bob-secret', { project: 'shared', author: 'alice', records: [record()] });
+      const anonymous = await push('bob-secret', { project: 'shared', records: [record({ author: 'alice' })] });
+
+      expect(impersonation.status).toBe(403);
+      expect(anonymous.status).toBe(200);
+      const [stored] = store.pull('shared', 0).records;
+      expect(stored.author).toBe('bob');
+    });
+
+    it('should share observations between teammates tagged with their author', async () => {
+      const sessionId = alice.createSDKSession('content-a', 'shared', 'prompt');
+      alice.updateMemorySessionId(sessionId, 'mem-a');
+      alice.storeObservation('mem-a', 'shared', {
+        type: 'discovery',
+        title: 'Alice found the cache bug',
+        subtitle: null,
+        facts: [],
+        narrative: 'Details <private>with a password</private>',
+        concepts: [],
+        files_read: [],
+        files_modified: [],
+      });
+
+      const [pushed] = await new TeamSync(alice, config('alice')).syncAll();
+      const [pulled] = await new TeamSync(bob, config('bob')).syncAll();
+
+      expect(pushed.pushed).toBe(1);
+      expect(pulled.pulled.inserted).toBe(1);
+      const row = bob.db.prepare('SELECT title, narrative, origin_author FROM observations WHERE project = ?')
+        .get('shared') as { title: string; narrative: string; origin_author: string };
+      expect(row).toEqual({ title: 'Alice found the cache bug', narrative: 'Details', origin_author: 'alice' });
+
+      // A second run moves nothing in either direction
+      const [again] = await new TeamSync(bob, config('bob')).syncAll();
+      expect(again.pushed).toBe(0);
+      expect(again.pulled.inserted).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Archive module tests
+ * Tests full export/import of the memory database as a versioned archive
+ *
+ * Sources:
+ * - API patterns from src/services/sqlite/archive/export.ts
+ * - API patterns from src/services/sqlite/archive/import.ts
+ * - API patterns from src/services/sqlite/archive/files.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ClaudeMemDatabase } from '../../src/services/sqlite/Database.js';
+import { storeObservation } from '../../src/services/sqlite/Observations.js';
+import { storeSummary } from '../../src/services/sqlite/Summaries.js';
+import { saveUserPrompt } from '../../src/services/sqlite/prompts/store.js';
+import { createSDKSession, updateMemorySessionId } from '../../src/services/sqlite/Sessions.js';
+import {
+  exportArchive,
+  importArchive,
+  writeArchiveDirectory,
+  readArchiveDirectory,
+  parseArchiveDate,
+  ArchiveError,
+  ARCHIVE_FORMAT_VERSION,
+} from '../../src/services/sqlite/Archive.js';
+import type { Database } from 'bun:sqlite';
+
+function count(db: Database, table: string): number {
+  return (db.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count;
+}
+
+function seedSession(db: Database, suffix: string, project: string, epoch: number): void {
+  const sessionId = createSDKSession(db, `content-${suffix}`, project, 'initial prompt');
+  updateMemorySessionId(db, sessionId, `mem-${suffix}`);
+  storeObservation(db, `mem-${suffix}`, project, {
+    type: 'discovery',
+    title: `Observation ${suffix}`,
+    subtitle: null,
+    facts: ['a fact'],
+    narrative: 'narrative',
+    concepts: [],
+    files_read: [],
+    files_modified: [],
+  }, 1, 0, epoch);
+  storeSummary(db, `mem-${suffix}`, project, {
+    request: `Request ${suffix}`,
+    investigated: null,
+    learned: null,
+    completed: null,
+    next_steps: null,
+    notes: null,
+  }, 1, 0, epoch);
+  saveUserPrompt(db, `content-${suffix}`, 1, `Prompt ${suffix}`);
+}
+
+describe('Archive Module', () => {
+  let source: Database;
+  let target: Database;
+
+  beforeEach(() => {
+    source = new ClaudeMemDatabase(':memory:').db;
+    target = new ClaudeMemDatabase(':memory:').db;
+    seedSession(source, 'a', 'alpha', Date.parse('2025-01-10T12:00:00Z'));
+    seedSession(source, 'b', 'beta', Date.parse('2025-03-10T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    source.close();
+    target.close();
+  });
+
+  describe('exportArchive', () => {
+    it('should write a manifest with counts, checksums and schema version', () => {
+      const archive = exportArchive(source);
+
+      expect(archive.manifest.formatVersion).toBe(ARCHIVE_FORMAT_VERSION);
+      expect(archive.manifest.schemaVersion).toBeGreaterThan(0);
+      expect(archive.manifest.tables.observations.count).toBe(2);
+      expect(archive.manifest.tables.observations.sha256).toMatch(/^[0-9a-f]{64}$/);
+      expect(archive.manifest.tables.sdk_sessions.columns).not.toContain('id');
+      expect(archive.files['observations.jsonl'].trim().split('\n')).toHaveLength(2);
+    });
+
+    it('should filter by project and date range', () => {
+      const byProject = exportArchive(source, { project: 'beta' });
+      expect(byProject.manifest.tables.sdk_sessions.count).toBe(1);
+      expect(byProject.manifest.tables.observations.count).toBe(1);
+      expect(byProject.manifest.tables.user_prompts.count).toBe(1);
+
+      const byDate = exportArchive(source, { until: parseArchiveDate('2025-01-31', true) });
+      expect(byDate.manifest.tables.observations.count).toBe(1);
+      expect(byDate.manifest.tables.session_summaries.count).toBe(1);
+      // Session a is kept because it owns a record in range
+      expect(byDate.manifest.tables.sdk_sessions.count).toBe(1);
+    });
+  });
+
+  describe('importArchive', () => {
+    it('should round-trip every table into an empty database', () => {
+      const result = importArchive(target, exportArchive(source));
+
+      expect(result.tables.sdk_sessions.imported).toBe(2);
+      expect(result.tables.observations.imported).toBe(2);
+      expect(result.recordIds.observations).toHaveLength(2);
+      expect(result.recordIds.prompts).toHaveLength(2);
+      expect(count(target, 'session_summaries')).toBe(2);
+      expect(count(target, 'user_prompts')).toBe(2);
+    });
+
+    it('should skip existing records by default', () => {
+      const archive = exportArchive(source);
+      importArchive(target, archive);
+      const result = importArchive(target, archive);
+
+      expect(result.tables.observations.skipped).toBe(2);
+      expect(result.recordIds.observations).toEqual([]);
+      expect(count(target, 'observations')).toBe(2);
+    });
+
+    it('should overwrite existing records', () => {
+      importArchive(target, exportArchive(source));
+      source.prepare("UPDATE observations SET narrative = 'edited' WHERE title = 'Observation a'").run();
+
+      const result = importArchive(target, exportArchive(source), { onConflict: 'overwrite' });
+
+      expect(result.tables.observations.overwritten).toBe(2);
+      const row = target.prepare("SELECT narrative FROM observations WHERE title = 'Observation a'").get() as { narrative: string };
+      expect(row.narrative).toBe('edited');
+    });
+
+    it('should import conflicting sessions under a renamed project', () => {
+      const archive = exportArchive(source, { project: 'alpha' });
+      importArchive(target, archive);
+
+      const result = importArchive(target, archive, { onConflict: 'rename-project', renameSuffix: '-copy' });
+
+      expect(result.tables.sdk_sessions.renamed).toBe(1);
+      expect(result.tables.observations.renamed).toBe(1);
+      expect(result.tables.user_prompts.renamed).toBe(1);
+      const copy = target.prepare("SELECT memory_session_id FROM observations WHERE project = 'alpha-copy'").get() as { memory_session_id: string };
+      expect(copy.memory_session_id).toBe('mem-a-copy');
+
+      // Re-importing the same archive does not create another copy
+      const again = importArchive(target, archive, { onConflict: 'rename-project', renameSuffix: '-copy' });
+      expect(again.tables.sdk_sessions.skipped).toBe(1);
+      expect(count(target, 'observations')).toBe(2);
+    });
+
+    it('should apply project filters on import', () => {
+      const result = importArchive(target, exportArchive(source), { project: 'alpha' });
+
+      expect(result.tables.sdk_sessions.imported).toBe(1);
+      expect(count(target, 'observations')).toBe(1);
+    });
+
+    it('should reject tampered and newer-format archives', () => {
+      const archive = exportArchive(source);
+      const tampered = {
+        ...archive,
+        files: { ...archive.files, 'observations.jsonl': archive.files['observations.jsonl'].replace('Observation a', 'Observation z') }
+      };
+      expect(() => importArchive(target, tampered)).toThrow(ArchiveError);
+
+      const newer = { ...archive, manifest: { ...archive.manifest, formatVersion: ARCHIVE_FORMAT_VERSION + 1 } };
+      expect(() => importArchive(target, newer)).toThrow(/Unsupported archive format version/);
+      expect(count(target, 'sdk_sessions')).toBe(0);
+    });
+  });
+
+  describe('archive directories', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'claude-mem-archive-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write and read back an archive directory', () => {
+      const archive = exportArchive(source);
+      writeArchiveDirectory(dir, archive);
+
+      const loaded = readArchiveDirectory(dir);
+
+      expect(loaded.manifest).toEqual(archive.manifest);
+      expect(loaded.files).toEqual(archive.files);
+    });
+
+    it('should fail clearly when the manifest is missing', () => {
+      expect(() => readArchiveDirectory(dir)).toThrow(/No manifest.json/);
+    });
+  });
+});
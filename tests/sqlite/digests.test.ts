@@ -0,0 +1,211 @@
+/**
+ * Digests module tests
+ * Tests digest tables (migration 27), candidate selection/grouping and digest storage
+ *
+ * Sources:
+ * - API patterns from src/services/sqlite/digests/candidates.ts and store.ts
+ * - Context preference from src/services/context/ObservationCompiler.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { ClaudeMemDatabase } from '../../src/services/sqlite/Database.js';
+import { SessionStore } from '../../src/services/sqlite/SessionStore.js';
+import { storeObservation } from '../../src/services/sqlite/Observations.js';
+import { createSDKSession, updateMemorySessionId } from '../../src/services/sqlite/Sessions.js';
+import {
+  findConsolidationCandidates,
+  groupDigestCandidates,
+  digestFolderOf,
+  storeDigest,
+  getDigestById,
+  getDigestsByProjects,
+} from '../../src/services/sqlite/Digests.js';
+import type { DigestCandidate } from '../../src/services/sqlite/Digests.js';
+import { queryObservations } from '../../src/services/context/ObservationCompiler.js';
+import type { ContextConfig } from '../../src/services/context/types.js';
+import type { Database } from 'bun:sqlite';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-06-01T00:00:00Z');
+
+function seedSession(db: Database, name: string, project = 'alpha'): string {
+  const sessionId = createSDKSession(db, `content-${name}`, project, 'prompt');
+  updateMemorySessionId(db, sessionId, `mem-${name}`);
+  return `mem-${name}`;
+}
+
+function addObservation(
+  db: Database,
+  memorySessionId: string,
+  fields: { title: string; daysAgo: number; files_modified?: string[]; concepts?: string[] },
+  project = 'alpha'
+): number {
+  return storeObservation(db, memorySessionId, project, {
+    type: 'discovery',
+    title: fields.title,
+    subtitle: null,
+    facts: [],
+    narrative: null,
+    concepts: fields.concepts ?? [],
+    files_read: [],
+    files_modified: fields.files_modified ?? [],
+  }, 1, 0, NOW - fields.daysAgo * DAY_MS).id;
+}
+
+function candidate(id: number, fields: Partial<DigestCandidate> = {}): DigestCandidate {
+  return {
+    id,
+    project: 'alpha',
+    type: 'discovery',
+    title: `obs ${id}`,
+    subtitle: null,
+    narrative: null,
+    facts: null,
+    concepts: '["caching"]',
+    files_read: null,
+    files_modified: '["/repo/src/cache/lru.ts"]',
+    created_at_epoch: id,
+    ...fields,
+  };
+}
+
+describe('Digests Module', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new ClaudeMemDatabase(':memory:').db;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('findConsolidationCandidates', () => {
+    it('should return old local observations not yet covered by a digest', () => {
+      const session = seedSession(db, 'a');
+      const old = addObservation(db, session, { title: 'old', daysAgo: 40 });
+      const covered = addObservation(db, session, { title: 'covered', daysAgo: 45 });
+      addObservation(db, session, { title: 'recent', daysAgo: 2 });
+      const teammate = addObservation(db, session, { title: 'teammate', daysAgo: 50 });
+      db.prepare(`UPDATE observations SET origin_author = 'bob' WHERE id = ?`).run(teammate);
+
+      storeDigest(db, {
+        project: 'alpha', folder: '', concept: '', title: 't', summary: 's', facts: [], provider: 'claude',
+        sourceIds: [covered], period_start_epoch: 0, period_end_epoch: 0,
+      });
+
+      const candidates = findConsolidationCandidates(db, NOW - 30 * DAY_MS);
+
+      expect(candidates.map(c => c.id)).toEqual([old]);
+    });
+  });
+
+  describe('groupDigestCandidates', () => {
+    it('should group by project, folder and concept and skip small groups', () => {
+      const groups = groupDigestCandidates([
+        candidate(1),
+        candidate(2),
+        candidate(3, { files_modified: null, files_read: '["/repo/src/cache/index.ts"]' }),
+        candidate(4, { concepts: '["security"]' }),
+        candidate(5, { project: 'beta' }),
+      ], { minGroupSize: 2 });
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0]).toMatchObject({ project: 'alpha', folder: '/repo/src/cache', concept: 'caching' });
+      expect(groups[0].observations.map(obs => obs.id)).toEqual([1, 2, 3]);
+    });
+
+    it('should split large groups and hold back a small remainder', () => {
+      const candidates = Array.from({ length: 7 }, (_, i) => candidate(i + 1));
+
+      const groups = groupDigestCandidates(candidates, { minGroupSize: 2, maxGroupSize: 3 });
+
+      expect(groups.map(group => group.observations.map(obs => obs.id))).toEqual([[1, 2, 3], [4, 5, 6]]);
+    });
+
+    it('should tolerate missing files, concepts and malformed JSON', () => {
+      const groups = groupDigestCandidates([
+        candidate(1, { files_modified: null, concepts: 'not json' }),
+        candidate(2, { files_modified: '[]', concepts: null }),
+      ], { minGroupSize: 2 });
+
+      expect(groups[0]).toMatchObject({ folder: '', concept: '' });
+    });
+
+    it('should derive folders from posix and windows paths', () => {
+      expect(digestFolderOf('/repo/src/a.ts')).toBe('/repo/src');
+      expect(digestFolderOf('C:\\repo\\src\\a.ts')).toBe('C:/repo/src');
+      expect(digestFolderOf('README.md')).toBe('');
+    });
+  });
+
+  describe('storeDigest', () => {
+    it('should link sources and drop links when a source observation is deleted', () => {
+      const session = seedSession(db, 'a');
+      const first = addObservation(db, session, { title: 'first', daysAgo: 40 });
+      const second = addObservation(db, session, { title: 'second', daysAgo: 35 });
+
+      const digestId = storeDigest(db, {
+        project: 'alpha', folder: '/repo/src', concept: 'caching', title: 'Caching', summary: 'LRU cache',
+        facts: ['Capacity is 100'], provider: 'gemini', sourceIds: [second, first],
+        period_start_epoch: NOW - 40 * DAY_MS, period_end_epoch: NOW - 35 * DAY_MS,
+      }, NOW);
+
+      const digest = getDigestById(db, digestId);
+      expect(digest).toMatchObject({ title: 'Caching', source_count: 2, provider: 'gemini', created_at_epoch: NOW });
+      expect(digest!.source_ids).toEqual([first, second]);
+      expect(JSON.parse(digest!.facts!)).toEqual(['Capacity is 100']);
+
+      db.prepare('DELETE FROM observations WHERE id = ?').run(first);
+      expect(getDigestById(db, digestId)!.source_ids).toEqual([second]);
+    });
+
+    it('should list digests of the given projects, newest period first', () => {
+      const base = { folder: '', concept: '', summary: 's', facts: [], provider: null, sourceIds: [], period_start_epoch: 0 };
+      storeDigest(db, { ...base, project: 'alpha', title: 'older', period_end_epoch: 1 });
+      storeDigest(db, { ...base, project: 'alpha', title: 'newer', period_end_epoch: 2 });
+      storeDigest(db, { ...base, project: 'beta', title: 'other', period_end_epoch: 3 });
+
+      expect(getDigestsByProjects(db, ['alpha'], 5).map(d => d.title)).toEqual(['newer', 'older']);
+      expect(getDigestsByProjects(db, [], 5)).toEqual([]);
+    });
+  });
+
+  describe('context preference', () => {
+    let store: SessionStore;
+
+    beforeEach(() => {
+      store = new SessionStore(':memory:');
+    });
+
+    afterEach(() => {
+      store.close();
+    });
+
+    it('should hide digested observations older than the cutoff but keep the sources', () => {
+      const session = seedSession(store.db, 'a');
+      const digested = addObservation(store.db, session, { title: 'digested', daysAgo: 0, concepts: ['caching'] });
+      const kept = addObservation(store.db, session, { title: 'kept', daysAgo: 0, concepts: ['caching'] });
+      store.db.prepare('UPDATE observations SET created_at_epoch = ?').run(Date.now() - 40 * DAY_MS);
+      storeDigest(store.db, {
+        project: 'alpha', folder: '', concept: 'caching', title: 't', summary: 's', facts: [], provider: 'claude',
+        sourceIds: [digested], period_start_epoch: 0, period_end_epoch: 0,
+      });
+
+      const config = {
+        totalObservationCount: 10,
+        observationTypes: new Set(['discovery']),
+        observationConcepts: new Set(['caching']),
+        showTeamMemories: true,
+        ranking: 'recency',
+        preferDigests: true,
+        digestAfterDays: 30,
+      } as ContextConfig;
+
+      expect(queryObservations(store, 'alpha', config).map(obs => obs.id)).toEqual([kept]);
+      expect(queryObservations(store, 'alpha', { ...config, digestAfterDays: 60 })).toHaveLength(2);
+      expect(queryObservations(store, 'alpha', { ...config, preferDigests: false })).toHaveLength(2);
+      expect(store.getObservationById(digested)?.title).toBe('digested');
+    });
+  });
+});
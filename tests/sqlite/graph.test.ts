@@ -0,0 +1,233 @@
+/**
+ * Graph module tests
+ * Tests the knowledge graph join tables (migration 26) and graph queries
+ *
+ * Sources:
+ * - API patterns from src/services/sqlite/graph/queries.ts
+ * - Trigger maintenance from src/services/sqlite/migrations/runner.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { ClaudeMemDatabase } from '../../src/services/sqlite/Database.js';
+import { storeObservation, forgetObservation } from '../../src/services/sqlite/Observations.js';
+import { createSDKSession, updateMemorySessionId } from '../../src/services/sqlite/Sessions.js';
+import {
+  findCoChangedFiles,
+  findFolderConcepts,
+  findFileDecisions,
+  getGraphNeighborhood,
+  parseGraphNodeId,
+  normalizeGraphOptions,
+  GRAPH_MAX_DEPTH,
+} from '../../src/services/sqlite/Graph.js';
+import type { Database } from 'bun:sqlite';
+
+let epoch = Date.parse('2025-01-01T00:00:00Z');
+
+function seedSession(db: Database, name: string, project = 'alpha'): string {
+  const sessionId = createSDKSession(db, `content-${name}`, project, 'prompt');
+  updateMemorySessionId(db, sessionId, `mem-${name}`);
+  return `mem-${name}`;
+}
+
+function addObservation(
+  db: Database,
+  memorySessionId: string,
+  fields: { type?: string; title: string; files_read?: string[]; files_modified?: string[]; concepts?: string[] },
+  project = 'alpha'
+): number {
+  epoch += 1000;
+  return storeObservation(db, memorySessionId, project, {
+    type: fields.type ?? 'change',
+    title: fields.title,
+    subtitle: null,
+    facts: [],
+    narrative: null,
+    concepts: fields.concepts ?? [],
+    files_read: fields.files_read ?? [],
+    files_modified: fields.files_modified ?? [],
+  }, 1, 0, epoch).id;
+}
+
+describe('Graph Module', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new ClaudeMemDatabase(':memory:').db;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('join tables', () => {
+    it('should be maintained on insert, update and delete', () => {
+      const session = seedSession(db, 'a');
+      const id = addObservation(db, session, {
+        title: 'Edit',
+        files_read: ['src/a.ts'],
+        files_modified: ['src/b.ts'],
+        concepts: ['caching'],
+      });
+
+      const files = () => db.prepare('SELECT file_path, relation FROM observation_files WHERE observation_id = ? ORDER BY file_path').all(id);
+      expect(files()).toEqual([
+        { file_path: 'src/a.ts', relation: 'read' },
+        { file_path: 'src/b.ts', relation: 'modified' },
+      ]);
+
+      db.prepare(`UPDATE observations SET files_modified = '["src/c.ts"]', concepts = 'not json' WHERE id = ?`).run(id);
+      expect(files()).toEqual([
+        { file_path: 'src/a.ts', relation: 'read' },
+        { file_path: 'src/c.ts', relation: 'modified' },
+      ]);
+      expect(db.prepare('SELECT COUNT(*) as count FROM observation_concepts').get()).toEqual({ count: 0 });
+
+      db.prepare('DELETE FROM observations WHERE id = ?').run(id);
+      expect(files()).toEqual([]);
+    });
+  });
+
+  describe('findCoChangedFiles', () => {
+    beforeEach(() => {
+      const s1 = seedSession(db, 's1');
+      addObservation(db, s1, { title: 'one', files_modified: ['/repo/src/api.ts'] });
+      addObservation(db, s1, { title: 'two', files_modified: ['/repo/src/types.ts'] });
+      const s2 = seedSession(db, 's2');
+      addObservation(db, s2, { title: 'three', files_modified: ['/repo/src/api.ts', '/repo/src/types.ts'] });
+      const s3 = seedSession(db, 's3');
+      addObservation(db, s3, { title: 'four', files_modified: ['/repo/src/types.ts', '/repo/docs/types.md'] });
+    });
+
+    it('should rank files by shared sessions and match path suffixes', () => {
+      const files = findCoChangedFiles(db, 'src/api.ts');
+
+      expect(files).toEqual([
+        { file_path: '/repo/src/types.ts', shared_sessions: 2, depth: 1, via: '/repo/src/api.ts' },
+      ]);
+    });
+
+    it('should traverse further hops up to the requested depth', () => {
+      const files = findCoChangedFiles(db, 'src/api.ts', { depth: 2 });
+
+      expect(files.map(file => [file.file_path, file.depth])).toEqual([
+        ['/repo/src/types.ts', 1],
+        ['/repo/docs/types.md', 2],
+      ]);
+      expect(files[1].via).toBe('/repo/src/types.ts');
+    });
+
+    it('should return nothing for unknown files', () => {
+      expect(findCoChangedFiles(db, 'missing.ts')).toEqual([]);
+    });
+  });
+
+  describe('findFolderConcepts', () => {
+    it('should count concepts of observations touching the folder', () => {
+      const session = seedSession(db, 'a');
+      addObservation(db, session, { title: 'a', files_read: ['/repo/src/auth/login.ts'], concepts: ['security', 'sessions'] });
+      addObservation(db, session, { title: 'b', files_modified: ['/repo/src/auth/token.ts'], concepts: ['security'] });
+      addObservation(db, session, { title: 'c', files_modified: ['/repo/src/ui/button.tsx'], concepts: ['styling'] });
+
+      const concepts = findFolderConcepts(db, 'src/auth/');
+
+      expect(concepts).toEqual([
+        { concept: 'security', observation_count: 2, file_count: 2 },
+        { concept: 'sessions', observation_count: 1, file_count: 1 },
+      ]);
+    });
+  });
+
+  describe('findFileDecisions', () => {
+    it('should return decisions for the file and, with depth, its co-changed files', () => {
+      const s1 = seedSession(db, 's1');
+      addObservation(db, s1, { type: 'decision', title: 'Use JWT', files_modified: ['src/auth.ts', 'src/config.ts'] });
+      addObservation(db, s1, { type: 'bugfix', title: 'Fix typo', files_modified: ['src/auth.ts'] });
+      const s2 = seedSession(db, 's2');
+      addObservation(db, s2, { type: 'decision', title: 'Env based config', files_modified: ['src/config.ts'] });
+
+      const direct = findFileDecisions(db, 'src/auth.ts');
+      expect(direct.map(decision => decision.title)).toEqual(['Use JWT']);
+      expect(direct[0].relation).toBe('modified');
+
+      const withCoChanges = findFileDecisions(db, 'src/auth.ts', { depth: 2 });
+      expect(withCoChanges.map(decision => [decision.title, decision.depth])).toEqual([
+        ['Use JWT', 1],
+        ['Env based config', 2],
+      ]);
+    });
+  });
+
+  describe('getGraphNeighborhood', () => {
+    it('should expand files to observations to concepts within depth', () => {
+      const session = seedSession(db, 'a');
+      const id = addObservation(db, session, { title: 'Cache layer', files_modified: ['src/cache.ts'], concepts: ['caching'] });
+
+      const oneHop = getGraphNeighborhood(db, { type: 'file', key: 'src/cache.ts' });
+      expect(oneHop.nodes.map(node => node.id)).toEqual(['file:src/cache.ts', `observation:${id}`]);
+
+      const twoHops = getGraphNeighborhood(db, { type: 'file', key: 'src/cache.ts' }, { depth: 2 });
+      expect(twoHops.nodes.map(node => node.id)).toContain('concept:caching');
+      expect(twoHops.edges).toContainEqual({ source: `observation:${id}`, target: 'concept:caching', relation: 'concept' });
+    });
+
+    it('should stop at the node limit and report truncation', () => {
+      const session = seedSession(db, 'a');
+      for (let i = 0; i < 5; i++) {
+        addObservation(db, session, { title: `obs ${i}`, concepts: ['shared'] });
+      }
+
+      const result = getGraphNeighborhood(db, { type: 'concept', key: 'shared' }, { limit: 3 });
+
+      expect(result.nodes).toHaveLength(3);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should filter by project', () => {
+      const a = seedSession(db, 'a', 'alpha');
+      const b = seedSession(db, 'b', 'beta');
+      addObservation(db, a, { title: 'alpha obs', concepts: ['shared'] }, 'alpha');
+      addObservation(db, b, { title: 'beta obs', concepts: ['shared'] }, 'beta');
+
+      const result = getGraphNeighborhood(db, { type: 'concept', key: 'shared' }, { project: 'beta' });
+
+      expect(result.nodes.map(node => node.label)).toEqual(['shared', expect.stringContaining('beta obs')]);
+    });
+  });
+
+  describe('forgotten observations', () => {
+    it('should be left out of every graph query', () => {
+      const session = seedSession(db, 'a');
+      const kept = addObservation(db, session, { type: 'decision', title: 'Kept', files_modified: ['src/kept.ts'], concepts: ['kept'] });
+      const forgotten = addObservation(db, session, {
+        type: 'decision',
+        title: 'Forgotten',
+        files_modified: ['src/kept.ts', 'src/secret.ts'],
+        concepts: ['secret']
+      });
+      forgetObservation(db, forgotten, 'test', 'wrong');
+
+      expect(findCoChangedFiles(db, 'src/kept.ts')).toEqual([]);
+      expect(findFolderConcepts(db, 'src').map(concept => concept.concept)).toEqual(['kept']);
+      expect(findFileDecisions(db, 'src/kept.ts').map(decision => decision.id)).toEqual([kept]);
+      expect(getGraphNeighborhood(db, { type: 'file', key: 'src/secret.ts' }).nodes).toEqual([]);
+      expect(getGraphNeighborhood(db, { type: 'concept', key: 'secret' }).nodes.map(node => node.id)).toEqual(['concept:secret']);
+      expect(getGraphNeighborhood(db, { type: 'observation', key: String(forgotten) }).nodes).toEqual([]);
+      expect(getGraphNeighborhood(db, { type: 'file', key: 'src/kept.ts' }).nodes.map(node => node.id))
+        .toEqual(['file:src/kept.ts', `observation:${kept}`]);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should parse node IDs', () => {
+      expect(parseGraphNodeId('file:src/a:b.ts')).toEqual({ type: 'file', key: 'src/a:b.ts' });
+      expect(parseGraphNodeId('observation:12')).toEqual({ type: 'observation', key: '12' });
+      expect(parseGraphNodeId('observation:abc')).toBeNull();
+      expect(parseGraphNodeId('folder:src')).toBeNull();
+    });
+
+    it('should clamp depth and limit', () => {
+      expect(normalizeGraphOptions({ depth: 10, limit: 0 })).toEqual({ project: undefined, depth: GRAPH_MAX_DEPTH, limit: 20 });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Explicit memory and annotation tests
+ * Tests user-authored observations (MCP remember tool), annotations, forgetting, and how they reach session context
+ *
+ * Sources:
+ * - API patterns from src/services/sqlite/observations/memories.ts
+ * - API patterns from src/services/sqlite/annotations/store.ts
+ * - Soft delete from src/services/sqlite/observations/edit.ts (forgetObservation)
+ * - Context filtering from src/services/context/ObservationCompiler.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionStore } from '../../src/services/sqlite/SessionStore.js';
+import { getUserMemorySessionId } from '../../src/services/sqlite/Observations.js';
+import { SessionSearch } from '../../src/services/sqlite/SessionSearch.js';
+import { queryObservations } from '../../src/services/context/ObservationCompiler.js';
+import type { ContextConfig } from '../../src/services/context/types.js';
+import type { ObservationInput } from '../../src/services/sqlite/observations/types.js';
+
+describe('Explicit memories', () => {
+  let store: SessionStore;
+
+  beforeEach(() => {
+    store = new SessionStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  function memory(overrides: Partial<ObservationInput> = {}): Omit<ObservationInput, 'origin' | 'quality_score'> {
+    return {
+      type: 'decision',
+      title: 'Use connection pooling',
+      subtitle: null,
+      facts: [],
+      narrative: 'Pool size 10 for the API server',
+      concepts: [],
+      files_read: ['src/db.ts'],
+      files_modified: [],
+      ...overrides,
+    };
+  }
+
+  describe('storeUserMemory', () => {
+    it('should store a user-origin observation in the project memory session', () => {
+      const first = store.storeUserMemory('alpha', memory());
+      const second = store.storeUserMemory('alpha', memory({ title: 'Second' }));
+
+      const observation = store.getObservationById(first.id);
+      expect(observation?.origin).toBe('user');
+      expect(observation?.project).toBe('alpha');
+      expect(observation?.memory_session_id).toBe(getUserMemorySessionId('alpha'));
+      expect(second.memorySessionId).toBe(first.memorySessionId);
+
+      const sessions = store.db.prepare('SELECT COUNT(*) as count FROM sdk_sessions WHERE project = ?').get('alpha') as { count: number };
+      expect(sessions.count).toBe(1);
+    });
+  });
+
+  describe('annotations', () => {
+    it('should add annotations oldest first and reject unknown observations', () => {
+      const { id } = store.storeUserMemory('alpha', memory());
+
+      const first = store.addAnnotation(id, 'Only for the API server', 'mcp');
+      store.addAnnotation(id, 'Raised to 20 in production', 'alex');
+
+      expect(first).toMatchObject({ observation_id: id, note: 'Only for the API server', author: 'mcp' });
+      expect(store.getAnnotations(id).map(a => a.note)).toEqual(['Only for the API server', 'Raised to 20 in production']);
+      expect(store.addAnnotation(9999, 'orphan', 'mcp')).toBeNull();
+    });
+
+    it('should move annotations to the merge target and drop them with deleted observations', () => {
+      const target = store.storeUserMemory('alpha', memory()).id;
+      const source = store.storeUserMemory('alpha', memory({ title: 'Duplicate' })).id;
+      const other = store.storeUserMemory('alpha', memory({ title: 'Other' })).id;
+      store.addAnnotation(source, 'Note on the duplicate', 'mcp');
+      store.addAnnotation(other, 'Note on the other', 'mcp');
+
+      store.mergeObservations([target, source], 'tester');
+      store.deleteObservation(other, 'tester', 'wrong');
+
+      expect(store.getAnnotations(target).map(a => a.note)).toEqual(['Note on the duplicate']);
+      expect(store.getAnnotations(other)).toEqual([]);
+    });
+  });
+
+  describe('forgetObservation', () => {
+    it('should keep the row and its annotations with the reason', () => {
+      const { id } = store.storeUserMemory('alpha', memory());
+      store.addAnnotation(id, 'Only for the API server', 'mcp');
+
+      const forgotten = store.forgetObservation(id, 'mcp', 'Superseded by pgbouncer');
+
+      const observation = store.getObservationById(id);
+      expect(observation).not.toBeNull();
+      expect(observation?.forgotten_reason).toBe('Superseded by pgbouncer');
+      expect(observation?.forgotten_at_epoch).toBeGreaterThan(0);
+      expect(forgotten?.forgotten_at_epoch).toBe(observation!.forgotten_at_epoch);
+      expect(store.getAnnotations(id).map(a => a.note)).toEqual(['Only for the API server']);
+      expect(store.getRevisions('observation', id)).toMatchObject([{ action: 'update', reason: 'Superseded by pgbouncer' }]);
+      expect(store.forgetObservation(9999, 'mcp', 'unknown')).toBeNull();
+    });
+
+    it('should leave forgotten observations out of context and search', () => {
+      // SessionSearch opens the database by path
+      const dir = mkdtempSync(join(tmpdir(), 'claude-mem-forget-'));
+      const dbPath = join(dir, 'test.db');
+      const fileStore = new SessionStore(dbPath);
+      const search = new SessionSearch(dbPath);
+
+      const kept = fileStore.storeUserMemory('alpha', memory({ title: 'Use connection pooling' })).id;
+      const forgotten = fileStore.storeUserMemory('alpha', memory({ title: 'Use connection pooling per worker' })).id;
+      fileStore.forgetObservation(forgotten, 'mcp', 'wrong');
+
+      const config = {
+        totalObservationCount: 10,
+        observationTypes: new Set(['decision']),
+        observationConcepts: new Set(['how-it-works']),
+        showTeamMemories: true,
+        ranking: 'recency',
+      } as ContextConfig;
+      try {
+        expect(queryObservations(fileStore, 'alpha', config).map(obs => obs.id)).toEqual([kept]);
+        expect(fileStore.getObservationsByIds([kept, forgotten]).map(obs => obs.id)).toEqual([kept]);
+        expect(search.searchObservations('pooling', { project: 'alpha' }).map(obs => obs.id)).toEqual([kept]);
+        expect(search.findByType('decision', { project: 'alpha' }).map(obs => obs.id)).toEqual([kept]);
+        expect(fileStore.getObservationById(forgotten)?.forgotten_reason).toBe('wrong');
+      } finally {
+        search.close();
+        fileStore.close();
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('context', () => {
+    it('should include explicit memories regardless of the concept filter', () => {
+      const remembered = store.storeUserMemory('alpha', memory({ concepts: ['unlisted'] })).id;
+
+      const config = {
+        totalObservationCount: 10,
+        observationTypes: new Set(['decision']),
+        observationConcepts: new Set(['how-it-works']),
+        showTeamMemories: true,
+        ranking: 'recency',
+      } as ContextConfig;
+
+      const observations = queryObservations(store, 'alpha', config);
+      expect(observations.map(obs => obs.id)).toEqual([remembered]);
+      expect(observations[0].origin).toBe('user');
+    });
+  });
+});
@@ -146,6 +146,16 @@ describe('Observations Module', () => {
       expect(stored).not.toBeNull();
       expect(stored?.id).toBe(result.id);
     });
+
+    it('should default origin to llm and store the heuristic marker', () => {
+      const memorySessionId = createSessionWithMemoryId('content-origin', 'session-origin');
+
+      const llm = storeObservation(db, memorySessionId, 'project', createObservationInput());
+      const heuristic = storeObservation(db, memorySessionId, 'project', createObservationInput({ origin: 'heuristic' }));
+
+      expect(getObservationById(db, llm.id)?.origin).toBe('llm');
+      expect(getObservationById(db, heuristic.id)?.origin).toBe('heuristic');
+    });
   });
 
   describe('getObservationById', () => {
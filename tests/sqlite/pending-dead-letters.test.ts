@@ -0,0 +1,109 @@
+/**
+ * Pending queue dead-letter tests
+ * Tests last_error / provider_override (migration 31), dead-lettering of claimed
+ * messages, replay, and payload editing in PendingMessageStore
+ *
+ * Sources:
+ * - API patterns from src/services/sqlite/PendingMessageStore.ts
+ * - In-memory store pattern from tests/sqlite/provider-usage.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { ClaudeMemDatabase } from '../../src/services/sqlite/Database.js';
+import { PendingMessageStore } from '../../src/services/sqlite/PendingMessageStore.js';
+import { createSDKSession } from '../../src/services/sqlite/Sessions.js';
+import type { PendingMessageWithId } from '../../src/services/worker-types.js';
+import type { Database } from 'bun:sqlite';
+
+describe('Pending queue dead letters', () => {
+  let db: Database;
+  let store: PendingMessageStore;
+
+  beforeEach(() => {
+    db = new ClaudeMemDatabase(':memory:').db;
+    store = new PendingMessageStore(db, 3);
+    createSDKSession(db, 'content-1', 'alpha', 'prompt');
+    createSDKSession(db, 'content-2', 'beta', 'prompt');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function enqueueRead(sessionDbId: number = 1): number {
+    return store.enqueue(sessionDbId, `content-${sessionDbId}`, {
+      type: 'observation',
+      tool_name: 'Read',
+      tool_input: { file_path: 'src/index.ts' },
+      tool_response: 'x'.repeat(100)
+    });
+  }
+
+  function claim(sessionDbId: number = 1): PendingMessageWithId {
+    const claimed = store.claimAndDelete(sessionDbId)!;
+    return {
+      ...store.toPendingMessage(claimed),
+      _persistentId: claimed.id,
+      _originalTimestamp: claimed.created_at_epoch,
+      _retryCount: claimed.retry_count,
+      _claimedAt: Date.now()
+    };
+  }
+
+  it('should re-insert claimed messages as failed with the error and original timestamp', () => {
+    enqueueRead();
+    const message = claim();
+    expect(store.getQueueMessages()).toHaveLength(0);
+
+    const count = store.deadLetter(1, 'content-1', [message], 'Gemini API error: 429');
+
+    const [failed] = store.getQueueMessages();
+    expect(count).toBe(1);
+    expect(failed).toMatchObject({
+      status: 'failed',
+      tool_name: 'Read',
+      last_error: 'Gemini API error: 429',
+      created_at_epoch: message._originalTimestamp,
+      project: 'alpha'
+    });
+    expect(failed.failed_at_epoch).not.toBeNull();
+    expect(store.toPendingMessage(failed).tool_input).toEqual({ file_path: 'src/index.ts' });
+  });
+
+  it('should replay failed messages with a provider override', () => {
+    enqueueRead(1);
+    enqueueRead(2);
+    store.deadLetter(1, 'content-1', [claim(1)], 'boom');
+    store.deadLetter(2, 'content-2', [claim(2)], 'boom');
+    const [first] = store.getQueueMessages();
+
+    const result = store.replayFailed([first.id], 'openrouter');
+
+    expect(result).toEqual({ replayed: 1, sessionDbIds: [first.session_db_id] });
+    expect(store.peekNext(first.session_db_id)).toEqual({ messageType: 'observation', providerOverride: 'openrouter' });
+    expect(store.getMessage(first.id)).toMatchObject({ status: 'pending', retry_count: 1, last_error: 'boom' });
+
+    expect(store.replayFailed(null).replayed).toBe(1);
+    expect(store.replayFailed([])).toEqual({ replayed: 0, sessionDbIds: [] });
+  });
+
+  it('should edit the payload of pending and failed messages only', () => {
+    const id = enqueueRead();
+
+    expect(store.updateMessagePayload(id, { tool_response: 'trimmed' })).toBe(true);
+    expect(store.toPendingMessage(store.getMessage(id)!).tool_response).toBe('trimmed');
+
+    db.run("UPDATE pending_messages SET status = 'processing' WHERE id = ?", [id]);
+    expect(store.updateMessagePayload(id, { tool_response: 'again' })).toBe(false);
+    expect(store.updateMessagePayload(9999, { tool_input: null })).toBe(false);
+  });
+
+  it('should record the error when a message exhausts its retries', () => {
+    const id = enqueueRead();
+    db.run('UPDATE pending_messages SET retry_count = 3 WHERE id = ?', [id]);
+
+    store.markFailed(id, 'Response was not valid XML');
+
+    expect(store.getMessage(id)).toMatchObject({ status: 'failed', last_error: 'Response was not valid XML' });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Provider usage module tests
+ * Tests the provider_usage table (migration 28) and per-provider spend aggregation
+ *
+ * Sources:
+ * - API patterns from src/services/sqlite/usage/store.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { ClaudeMemDatabase } from '../../src/services/sqlite/Database.js';
+import { recordProviderUsage, getProviderSpendSince } from '../../src/services/sqlite/ProviderUsage.js';
+import type { Database } from 'bun:sqlite';
+
+const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+describe('Provider usage module', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new ClaudeMemDatabase(':memory:').db;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should sum requests, tokens and cost per provider', () => {
+    recordProviderUsage(db, { provider: 'claude', sessionDbId: 1, tokens: 1000, costUsd: 0.01 }, NOW);
+    recordProviderUsage(db, { provider: 'claude', sessionDbId: 2, tokens: 500, costUsd: 0.005 }, NOW);
+    recordProviderUsage(db, { provider: 'gemini', sessionDbId: 1, tokens: 4000, costUsd: 0.001 }, NOW);
+
+    const spend = getProviderSpendSince(db, 0);
+
+    expect(spend).toHaveLength(2);
+    expect(spend[0]).toMatchObject({ provider: 'claude', requests: 2, tokens: 1500 });
+    expect(spend[0].cost_usd).toBeCloseTo(0.015);
+    expect(spend[1]).toMatchObject({ provider: 'gemini', requests: 1, tokens: 4000 });
+  });
+
+  it('should only include usage at or after the given epoch', () => {
+    recordProviderUsage(db, { provider: 'claude', sessionDbId: 1, tokens: 1000, costUsd: 1 }, NOW - 1);
+    recordProviderUsage(db, { provider: 'claude', sessionDbId: 1, tokens: 200, costUsd: 0.2 }, NOW);
+
+    const [spend] = getProviderSpendSince(db, NOW);
+
+    expect(spend).toMatchObject({ provider: 'claude', requests: 1, tokens: 200 });
+  });
+
+  it('should return no rows when nothing was recorded', () => {
+    expect(getProviderSpendSince(db, 0)).toEqual([]);
+  });
+});
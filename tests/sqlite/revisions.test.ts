@@ -0,0 +1,222 @@
+/**
+ * Revisions module tests
+ * Tests observation/summary editing and the observation_revisions audit trail
+ *
+ * Sources:
+ * - API patterns from src/services/sqlite/observations/edit.ts
+ * - API patterns from src/services/sqlite/summaries/edit.ts
+ * - API patterns from src/services/sqlite/revisions/get.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { ClaudeMemDatabase } from '../../src/services/sqlite/Database.js';
+import {
+  storeObservation,
+  getObservationById,
+  updateObservation,
+  deleteObservation,
+  mergeObservations,
+} from '../../src/services/sqlite/Observations.js';
+import {
+  storeSummary,
+  getSummaryById,
+  updateSummary,
+  deleteSummary,
+} from '../../src/services/sqlite/Summaries.js';
+import { getRevisions } from '../../src/services/sqlite/Revisions.js';
+import {
+  createSDKSession,
+  updateMemorySessionId,
+} from '../../src/services/sqlite/Sessions.js';
+import type { ObservationInput } from '../../src/services/sqlite/observations/types.js';
+import type { Database } from 'bun:sqlite';
+
+describe('Revisions Module', () => {
+  let db: Database;
+  let memorySessionId: string;
+
+  beforeEach(() => {
+    db = new ClaudeMemDatabase(':memory:').db;
+    const sessionId = createSDKSession(db, 'content-rev', 'test-project', 'initial prompt');
+    updateMemorySessionId(db, sessionId, 'mem-rev');
+    memorySessionId = 'mem-rev';
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function storeTestObservation(overrides: Partial<ObservationInput> = {}, discoveryTokens: number = 0): number {
+    return storeObservation(db, memorySessionId, 'test-project', {
+      type: 'discovery',
+      title: 'Original title',
+      subtitle: 'Original subtitle',
+      facts: ['fact A'],
+      narrative: 'Original narrative',
+      concepts: ['how-it-works'],
+      files_read: ['src/a.ts'],
+      files_modified: [],
+      ...overrides,
+    }, 1, discoveryTokens).id;
+  }
+
+  describe('updateObservation', () => {
+    it('should update only the provided fields and record a revision', () => {
+      const id = storeTestObservation();
+
+      const updated = updateObservation(db, id, { title: 'Corrected title', facts: ['fact B'] }, 'tester');
+
+      expect(updated?.title).toBe('Corrected title');
+      expect(updated?.facts).toBe(JSON.stringify(['fact B']));
+      expect(updated?.narrative).toBe('Original narrative');
+
+      const revisions = getRevisions(db, 'observation', id);
+      expect(revisions.length).toBe(1);
+      expect(revisions[0].action).toBe('update');
+      expect(revisions[0].changed_by).toBe('tester');
+      expect(JSON.parse(revisions[0].before_json!)).toEqual({
+        title: 'Original title',
+        facts: JSON.stringify(['fact A'])
+      });
+      expect(JSON.parse(revisions[0].after_json!)).toEqual({
+        title: 'Corrected title',
+        facts: JSON.stringify(['fact B'])
+      });
+    });
+
+    it('should not record a revision when nothing changes', () => {
+      const id = storeTestObservation();
+
+      updateObservation(db, id, { title: 'Original title' }, 'tester');
+
+      expect(getRevisions(db, 'observation', id).length).toBe(0);
+    });
+
+    it('should return null for a missing observation', () => {
+      expect(updateObservation(db, 9999, { title: 'x' }, 'tester')).toBeNull();
+    });
+  });
+
+  describe('deleteObservation', () => {
+    it('should delete the row and keep a full snapshot', () => {
+      const id = storeTestObservation();
+
+      const deleted = deleteObservation(db, id, 'tester', 'hallucinated');
+
+      expect(deleted?.id).toBe(id);
+      expect(getObservationById(db, id)).toBeNull();
+
+      const [revision] = getRevisions(db, 'observation', id);
+      expect(revision.action).toBe('delete');
+      expect(revision.reason).toBe('hallucinated');
+      expect(JSON.parse(revision.before_json!).title).toBe('Original title');
+      expect(revision.after_json).toBeNull();
+    });
+
+    it('should return null for a missing observation', () => {
+      expect(deleteObservation(db, 9999, 'tester')).toBeNull();
+    });
+  });
+
+  describe('mergeObservations', () => {
+    it('should union lists, join narratives and delete the sources', () => {
+      const targetId = storeTestObservation({}, 100);
+      const sourceId = storeTestObservation({
+        facts: ['fact A', 'fact C'],
+        narrative: 'Second narrative',
+        concepts: ['gotcha'],
+        files_modified: ['src/b.ts'],
+      }, 50);
+
+      const { observation, mergedIds } = mergeObservations(db, [targetId, sourceId], 'tester');
+
+      expect(mergedIds).toEqual([sourceId]);
+      expect(observation.id).toBe(targetId);
+      expect(JSON.parse(observation.facts!)).toEqual(['fact A', 'fact C']);
+      expect(JSON.parse(observation.concepts!)).toEqual(['how-it-works', 'gotcha']);
+      expect(JSON.parse(observation.files_modified!)).toEqual(['src/b.ts']);
+      expect(observation.narrative).toBe('Original narrative\n\nSecond narrative');
+      expect(observation.discovery_tokens).toBe(150);
+      expect(getObservationById(db, sourceId)).toBeNull();
+
+      const [mergeRevision] = getRevisions(db, 'observation', targetId);
+      expect(mergeRevision.action).toBe('merge');
+      expect(JSON.parse(mergeRevision.after_json!).merged_from).toEqual([sourceId]);
+
+      const [sourceRevision] = getRevisions(db, 'observation', sourceId);
+      expect(sourceRevision.action).toBe('delete');
+      expect(sourceRevision.reason).toBe(`Merged into #${targetId}`);
+    });
+
+    it('should apply explicit overrides to the merged record', () => {
+      const targetId = storeTestObservation();
+      const sourceId = storeTestObservation();
+
+      const { observation } = mergeObservations(db, [targetId, sourceId], 'tester', { title: 'Merged title' });
+
+      expect(observation.title).toBe('Merged title');
+    });
+
+    it('should reject fewer than two distinct ids', () => {
+      const id = storeTestObservation();
+      expect(() => mergeObservations(db, [id, id], 'tester')).toThrow();
+    });
+
+    it('should reject missing ids without changing anything', () => {
+      const id = storeTestObservation();
+      expect(() => mergeObservations(db, [id, 9999], 'tester')).toThrow('Observation #9999 not found');
+      expect(getRevisions(db, 'observation', id).length).toBe(0);
+    });
+
+    it('should reject observations from different projects', () => {
+      const targetId = storeTestObservation();
+      const otherId = storeObservation(db, memorySessionId, 'other-project', {
+        type: 'discovery',
+        title: 'Other',
+        subtitle: null,
+        facts: [],
+        narrative: null,
+        concepts: [],
+        files_read: [],
+        files_modified: [],
+      }).id;
+
+      expect(() => mergeObservations(db, [targetId, otherId], 'tester')).toThrow();
+      expect(getObservationById(db, otherId)).not.toBeNull();
+    });
+  });
+
+  describe('summaries', () => {
+    function storeTestSummary(): number {
+      return storeSummary(db, memorySessionId, 'test-project', {
+        request: 'Original request',
+        investigated: 'Investigated',
+        learned: 'Learned',
+        completed: 'Completed',
+        next_steps: 'Next',
+        notes: null,
+      }).id;
+    }
+
+    it('should update summary fields and record a revision', () => {
+      const id = storeTestSummary();
+
+      const updated = updateSummary(db, id, { learned: 'Corrected learning', notes: 'Added note' }, 'tester');
+
+      expect(updated?.learned).toBe('Corrected learning');
+      expect(updated?.notes).toBe('Added note');
+
+      const [revision] = getRevisions(db, 'summary', id);
+      expect(revision.action).toBe('update');
+      expect(JSON.parse(revision.before_json!)).toEqual({ learned: 'Learned', notes: null });
+    });
+
+    it('should delete a summary and record the snapshot', () => {
+      const id = storeTestSummary();
+
+      expect(deleteSummary(db, id, 'tester')?.id).toBe(id);
+      expect(getSummaryById(db, id)).toBeNull();
+      expect(getRevisions(db, 'summary', id)[0].action).toBe('delete');
+    });
+  });
+});
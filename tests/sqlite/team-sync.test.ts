@@ -0,0 +1,203 @@
+/**
+ * TeamSync module tests
+ * Tests the local side of team sync: outgoing records, pulled records, sync state
+ *
+ * Sources:
+ * - API patterns from src/services/sqlite/teamsync/outbox.ts
+ * - API patterns from src/services/sqlite/teamsync/inbox.ts
+ * - API patterns from src/services/sqlite/teamsync/state.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { ClaudeMemDatabase } from '../../src/services/sqlite/Database.js';
+import { storeObservation } from '../../src/services/sqlite/Observations.js';
+import { storeSummary } from '../../src/services/sqlite/Summaries.js';
+import { updateObservation } from '../../src/services/sqlite/observations/edit.js';
+import { createSDKSession, updateMemorySessionId } from '../../src/services/sqlite/Sessions.js';
+import {
+  collectOutgoingRecords,
+  markRecordsSynced,
+  applyRemoteRecords,
+  getTeamSessionId,
+  getTeamSyncState,
+  updateTeamSyncState,
+} from '../../src/services/sqlite/TeamSync.js';
+import type { SyncRecord } from '../../src/services/sqlite/TeamSync.js';
+import type { Database } from 'bun:sqlite';
+
+function createSession(db: Database, suffix: string, project: string): string {
+  const sessionId = createSDKSession(db, `content-${suffix}`, project, 'initial prompt');
+  updateMemorySessionId(db, sessionId, `mem-${suffix}`);
+  return `mem-${suffix}`;
+}
+
+function observe(db: Database, memorySessionId: string, project: string, title: string, narrative = 'narrative'): number {
+  return storeObservation(db, memorySessionId, project, {
+    type: 'discovery',
+    title,
+    subtitle: null,
+    facts: [],
+    narrative,
+    concepts: [],
+    files_read: [],
+    files_modified: [],
+  }).id;
+}
+
+function remoteRecord(overrides: Partial<SyncRecord> = {}): SyncRecord {
+  return {
+    sync_id: 'remote-1',
+    kind: 'observation',
+    project: 'shared',
+    author: 'alice',
+    session_id: 'alice-session',
+    revision: 1000,
+    prompt_number: 1,
+    discovery_tokens: 0,
+    created_at: '2025-01-01T00:00:00.000Z',
+    created_at_epoch: 1000,
+    fields: { type: 'discovery', title: 'From Alice', narrative: 'Shared narrative', facts: '[]', concepts: '[]' },
+    ...overrides,
+  };
+}
+
+describe('TeamSync Module', () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new ClaudeMemDatabase(':memory:').db;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('collectOutgoingRecords', () => {
+    it('should collect local observations and summaries of the project only', () => {
+      const session = createSession(db, 'a', 'shared');
+      const other = createSession(db, 'b', 'other');
+      observe(db, session, 'shared', 'Shared observation');
+      observe(db, other, 'other', 'Other project');
+      storeSummary(db, session, 'shared', {
+        request: 'Request', investigated: null, learned: null, completed: null, next_steps: null, notes: null,
+      });
+
+      const records = collectOutgoingRecords(db, 'shared', 'bob');
+
+      expect(records).toHaveLength(2);
+      expect(records.map(r => r.kind).sort()).toEqual(['observation', 'summary']);
+      expect(records[0].author).toBe('bob');
+      expect(records[0].session_id).toBe(session);
+      expect(records[0].sync_id).toBeTruthy();
+    });
+
+    it('should keep sync ids stable and skip records once synced', () => {
+      const session = createSession(db, 'a', 'shared');
+      observe(db, session, 'shared', 'Shared observation');
+
+      const first = collectOutgoingRecords(db, 'shared', 'bob');
+      const again = collectOutgoingRecords(db, 'shared', 'bob');
+      expect(again[0].sync_id).toBe(first[0].sync_id);
+
+      markRecordsSynced(db, first);
+      expect(collectOutgoingRecords(db, 'shared', 'bob')).toHaveLength(0);
+    });
+
+    it('should collect an edited record again at its new revision', () => {
+      const session = createSession(db, 'a', 'shared');
+      const id = observe(db, session, 'shared', 'Shared observation');
+      markRecordsSynced(db, collectOutgoingRecords(db, 'shared', 'bob'));
+
+      // Revisions are epoch milliseconds; make sure the edit lands on a later one
+      db.prepare('UPDATE observations SET created_at_epoch = created_at_epoch - 1000, synced_revision = synced_revision - 1000 WHERE id = ?').run(id);
+      updateObservation(db, id, { title: 'Edited title' }, 'bob');
+
+      const records = collectOutgoingRecords(db, 'shared', 'bob');
+      expect(records).toHaveLength(1);
+      expect(records[0].fields.title).toBe('Edited title');
+    });
+
+    it('should strip private tags and withhold records with unclosed private content', () => {
+      const session = createSession(db, 'a', 'shared');
+      observe(db, session, 'shared', 'Public title', 'keep <private>api key</private> this');
+      observe(db, session, 'shared', 'Leaky', 'starts <private>never closed');
+
+      const records = collectOutgoingRecords(db, 'shared', 'bob');
+
+      expect(records).toHaveLength(1);
+      expect(records[0].fields.narrative).toBe('keep  this');
+      expect(JSON.stringify(records)).not.toContain('api key');
+      // Withheld records are not retried
+      markRecordsSynced(db, records);
+      expect(collectOutgoingRecords(db, 'shared', 'bob')).toHaveLength(0);
+    });
+  });
+
+  describe('applyRemoteRecords', () => {
+    it('should insert teammate records under a placeholder session', () => {
+      const result = applyRemoteRecords(db, 'shared', [remoteRecord()]);
+
+      expect(result.inserted).toBe(1);
+      const row = db.prepare('SELECT id, memory_session_id, origin_author, title FROM observations WHERE sync_id = ?')
+        .get('remote-1') as { id: number; memory_session_id: string; origin_author: string; title: string };
+      expect(result.recordIds).toEqual({ observations: [row.id], summaries: [] });
+      expect(row.origin_author).toBe('alice');
+      expect(row.title).toBe('From Alice');
+      expect(row.memory_session_id).toBe(getTeamSessionId({ author: 'alice', session_id: 'alice-session' }));
+    });
+
+    it('should apply newer revisions and skip stale ones', () => {
+      applyRemoteRecords(db, 'shared', [remoteRecord()]);
+
+      const stale = applyRemoteRecords(db, 'shared', [remoteRecord({ fields: { title: 'Old' } })]);
+      const newer = applyRemoteRecords(db, 'shared', [remoteRecord({ revision: 2000, fields: { type: 'discovery', title: 'Updated' } })]);
+
+      expect(stale.skipped).toBe(1);
+      expect(newer.updated).toBe(1);
+      expect(stale.recordIds.observations).toEqual([]);
+      expect(newer.recordIds.observations).toHaveLength(1);
+      const row = db.prepare('SELECT title FROM observations WHERE sync_id = ?').get('remote-1') as { title: string };
+      expect(row.title).toBe('Updated');
+    });
+
+    it('should never overwrite local records echoed back by the server', () => {
+      const session = createSession(db, 'a', 'shared');
+      observe(db, session, 'shared', 'Mine');
+      const [mine] = collectOutgoingRecords(db, 'shared', 'bob');
+
+      const result = applyRemoteRecords(db, 'shared', [{ ...mine, revision: mine.revision + 1, fields: { ...mine.fields, title: 'Hijacked' } }]);
+
+      expect(result.skipped).toBe(1);
+      const row = db.prepare('SELECT title, origin_author FROM observations WHERE sync_id = ?').get(mine.sync_id) as { title: string; origin_author: string | null };
+      expect(row.title).toBe('Mine');
+      expect(row.origin_author).toBeNull();
+    });
+
+    it('should skip records for a project other than the one being pulled', () => {
+      const result = applyRemoteRecords(db, 'shared', [remoteRecord({ sync_id: 'remote-2', project: 'private-app' })]);
+
+      expect(result).toEqual({ inserted: 0, updated: 0, skipped: 1, recordIds: { observations: [], summaries: [] } });
+      const count = db.prepare("SELECT COUNT(*) as count FROM observations WHERE project = 'private-app'").get() as { count: number };
+      expect(count.count).toBe(0);
+    });
+
+    it('should not push pulled records back', () => {
+      applyRemoteRecords(db, 'shared', [remoteRecord()]);
+
+      expect(collectOutgoingRecords(db, 'shared', 'bob')).toHaveLength(0);
+    });
+  });
+
+  describe('team sync state', () => {
+    it('should default to an empty cursor and persist updates', () => {
+      expect(getTeamSyncState(db, 'shared').pull_cursor).toBe(0);
+
+      updateTeamSyncState(db, 'shared', { pull_cursor: 42 });
+      updateTeamSyncState(db, 'shared', { last_pull_at_epoch: 5 });
+
+      const state = getTeamSyncState(db, 'shared');
+      expect(state.pull_cursor).toBe(42);
+      expect(state.last_pull_at_epoch).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Log file tests
+ * Tests size-based rotation and retention of the daily log files, and querying text
+ * and JSON-lines logs by level, component, session, date range and text
+ *
+ * Sources:
+ * - API patterns from src/utils/log-files.ts and src/utils/log-query.ts
+ * - Line formats from src/utils/logger.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { LogFileWriter, logFileName } from '../../src/utils/log-files.js';
+import { queryLogs, listLogDates, listLogFiles, parseLogContent } from '../../src/utils/log-query.js';
+
+function textLine(level: string, component: string, message: string, correlation?: string): string {
+  const prefix = correlation ? `[${correlation}] ` : '';
+  return `[2026-10-03 09:00:00.000] [${level.padEnd(5)}] [${component.padEnd(6)}] ${prefix}${message}`;
+}
+
+describe('Log files', () => {
+  let logsDir: string;
+
+  beforeEach(() => {
+    logsDir = mkdtempSync(join(tmpdir(), 'log-files-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(logsDir, { recursive: true, force: true });
+  });
+
+  describe('LogFileWriter', () => {
+    it('should rotate into numbered segments before exceeding the size limit', () => {
+      const writer = new LogFileWriter(logsDir, { maxBytes: 20, retentionDays: 0 });
+
+      writer.write('2026-10-03', 'first line 1234\n');
+      writer.write('2026-10-03', 'second line 123\n');
+      writer.write('2026-10-03', 'third line 1234\n');
+
+      expect(readdirSync(logsDir).sort()).toEqual([
+        'claude-mem-2026-10-03.1.log',
+        'claude-mem-2026-10-03.2.log',
+        'claude-mem-2026-10-03.log'
+      ]);
+      expect(readFileSync(join(logsDir, 'claude-mem-2026-10-03.1.log'), 'utf-8')).toBe('first line 1234\n');
+      expect(readFileSync(join(logsDir, 'claude-mem-2026-10-03.log'), 'utf-8')).toBe('third line 1234\n');
+    });
+
+    it('should not rotate a file that was cleared by another process', () => {
+      const writer = new LogFileWriter(logsDir, { maxBytes: 20, retentionDays: 0 });
+      writer.write('2026-10-03', 'first line 1234\n');
+      writer.write('2026-10-03', 'x');
+      writeFileSync(join(logsDir, logFileName('2026-10-03')), '');
+
+      writer.write('2026-10-03', 'second line 123\n');
+
+      expect(readdirSync(logsDir)).toEqual(['claude-mem-2026-10-03.log']);
+    });
+
+    it('should switch files when the day changes and delete days past retention', () => {
+      writeFileSync(join(logsDir, 'claude-mem-2026-08-01.log'), 'old\n');
+      writeFileSync(join(logsDir, 'claude-mem-2026-08-01.1.log'), 'old\n');
+      writeFileSync(join(logsDir, 'claude-mem-2026-09-30.log'), 'recent\n');
+      writeFileSync(join(logsDir, 'notes.txt'), 'unrelated\n');
+      const writer = new LogFileWriter(logsDir, { maxBytes: 0, retentionDays: 30 });
+
+      writer.write('2026-10-02', 'yesterday\n');
+      writer.write('2026-10-03', 'today\n');
+
+      expect(readdirSync(logsDir).sort()).toEqual([
+        'claude-mem-2026-09-30.log',
+        'claude-mem-2026-10-02.log',
+        'claude-mem-2026-10-03.log',
+        'notes.txt'
+      ]);
+    });
+  });
+
+  describe('parseLogContent', () => {
+    it('should parse text lines and fold continuation lines into the previous entry', () => {
+      const entries = parseLogContent([
+        textLine('ERROR', 'SDK', 'Generator failed', 'session-42'),
+        'Error: boom',
+        '    at run (agent.ts:10:5)',
+        textLine('INFO', 'QUEUE', 'CLAIMED', 'obs-42-3')
+      ].join('\n'), '2026-10-03');
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({ level: 'ERROR', component: 'SDK', sessionId: 42, correlationId: undefined });
+      expect(entries[0].message).toBe('Generator failed\nError: boom\n    at run (agent.ts:10:5)');
+      expect(entries[1]).toMatchObject({ component: 'QUEUE', correlationId: 'obs-42-3' });
+    });
+
+    it('should parse JSON lines with correlation fields and render context after the message', () => {
+      const [entry] = parseLogContent(JSON.stringify({
+        ts: '2026-10-03T09:00:00.000Z',
+        level: 'INFO',
+        component: 'QUEUE',
+        message: 'ENQUEUED',
+        sessionId: 42,
+        promptNumber: 3,
+        messageId: 311,
+        context: { depth: 2 }
+      }), '2026-10-03');
+
+      expect(entry).toMatchObject({
+        timestamp: '2026-10-03T09:00:00.000Z',
+        sessionId: 42,
+        promptNumber: 3,
+        messageId: 311,
+        message: 'ENQUEUED {depth=2}'
+      });
+    });
+  });
+
+  describe('queryLogs', () => {
+    beforeEach(() => {
+      writeFileSync(join(logsDir, 'claude-mem-2026-10-01.log'), [
+        textLine('INFO', 'WORKER', 'Worker started')
+      ].join('\n') + '\n');
+      writeFileSync(join(logsDir, 'claude-mem-2026-10-02.1.log'), [
+        textLine('WARN', 'QUEUE', 'Queue backed up', 'session-7')
+      ].join('\n') + '\n');
+      writeFileSync(join(logsDir, 'claude-mem-2026-10-02.log'), [
+        JSON.stringify({ ts: '2026-10-02T10:00:00.000Z', level: 'ERROR', component: 'SDK', message: 'Timeout', sessionId: 7 }),
+        JSON.stringify({ ts: '2026-10-02T10:00:01.000Z', level: 'INFO', component: 'SDK', message: 'Retrying', memorySessionId: 'mem-abc' })
+      ].join('\n') + '\n');
+    });
+
+    it('should list days newest first and a day\'s files in write order', () => {
+      expect(listLogDates(logsDir).map(d => [d.date, d.files])).toEqual([['2026-10-02', 2], ['2026-10-01', 1]]);
+      expect(listLogFiles(logsDir, '2026-10-02').map(f => f.split('/').pop())).toEqual([
+        'claude-mem-2026-10-02.1.log',
+        'claude-mem-2026-10-02.log'
+      ]);
+    });
+
+    it('should return entries across days and segments in chronological order', () => {
+      const result = queryLogs(logsDir, { from: '2026-10-01', to: '2026-10-02' });
+
+      expect(result.entries.map(e => e.message)).toEqual(['Worker started', 'Queue backed up', 'Timeout', 'Retrying']);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('should filter by level, component, session and text', () => {
+      const range = { from: '2026-10-01', to: '2026-10-02' };
+
+      expect(queryLogs(logsDir, { ...range, levels: ['warn', 'error'] }).entries.map(e => e.message))
+        .toEqual(['Queue backed up', 'Timeout']);
+      expect(queryLogs(logsDir, { ...range, components: ['SDK'] }).entries).toHaveLength(2);
+      expect(queryLogs(logsDir, { ...range, sessionId: 'session-7' }).entries.map(e => e.message))
+        .toEqual(['Queue backed up', 'Timeout']);
+      expect(queryLogs(logsDir, { ...range, sessionId: 'mem-abc' }).entries.map(e => e.message)).toEqual(['Retrying']);
+      expect(queryLogs(logsDir, { ...range, text: 'STARTED' }).entries.map(e => e.message)).toEqual(['Worker started']);
+    });
+
+    it('should keep the newest matches when the limit is reached', () => {
+      const result = queryLogs(logsDir, { from: '2026-10-01', to: '2026-10-02', limit: 2 });
+
+      expect(result.entries.map(e => e.message)).toEqual(['Timeout', 'Retrying']);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should read only the last day when no start date is given', () => {
+      const result = queryLogs(logsDir, { to: '2026-10-01' });
+
+      expect(result.from).toBe('2026-10-01');
+      expect(result.entries.map(e => e.message)).toEqual(['Worker started']);
+    });
+  });
+});
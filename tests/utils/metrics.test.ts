@@ -0,0 +1,96 @@
+/**
+ * Metrics registry tests
+ * Tests OpenMetrics rendering of counters, gauges and histograms, label escaping,
+ * and scrape-time collection
+ *
+ * Sources:
+ * - API patterns from src/utils/metrics.ts
+ * - OpenMetrics text format (https://openmetrics.io)
+ */
+
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { MetricsRegistry } from '../../src/utils/metrics.js';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters with a _total suffix per label combination', () => {
+    const requests = registry.counter('test_requests', 'Requests handled', ['method']);
+    requests.inc({ method: 'GET' });
+    requests.inc({ method: 'GET' }, 2);
+    requests.inc({ method: 'POST' });
+
+    expect(registry.render()).toBe([
+      '# TYPE test_requests counter',
+      '# HELP test_requests Requests handled',
+      'test_requests_total{method="GET"} 3',
+      'test_requests_total{method="POST"} 1',
+      '# EOF',
+      ''
+    ].join('\n'));
+  });
+
+  it('should reject decreasing a counter', () => {
+    const counter = registry.counter('test_counter', 'Counter');
+
+    expect(() => counter.inc({}, -1)).toThrow('cannot decrease');
+  });
+
+  it('should render histogram buckets cumulatively with sum and count', () => {
+    const latency = registry.histogram('test_latency_seconds', 'Latency', ['agent'], [0.1, 1]);
+    latency.observe({ agent: 'SDK' }, 0.05);
+    latency.observe({ agent: 'SDK' }, 0.5);
+    latency.observe({ agent: 'SDK' }, 3);
+
+    const lines = registry.render().split('\n');
+
+    expect(lines).toContain('test_latency_seconds_bucket{agent="SDK",le="0.1"} 1');
+    expect(lines).toContain('test_latency_seconds_bucket{agent="SDK",le="1"} 2');
+    expect(lines).toContain('test_latency_seconds_bucket{agent="SDK",le="+Inf"} 3');
+    expect(lines).toContain('test_latency_seconds_sum{agent="SDK"} 3.55');
+    expect(lines).toContain('test_latency_seconds_count{agent="SDK"} 3');
+  });
+
+  it('should read collected gauges at scrape time', () => {
+    let depth = 4;
+    registry.gauge('test_queue_depth', 'Queue depth', ['status'], () => [{ labels: { status: 'pending' }, value: depth }]);
+
+    expect(registry.render()).toContain('test_queue_depth{status="pending"} 4');
+    depth = 7;
+    expect(registry.render()).toContain('test_queue_depth{status="pending"} 7');
+  });
+
+  it('should skip a collected family whose source throws', () => {
+    registry.gauge('test_broken', 'Broken source', [], () => { throw new Error('database closed'); });
+
+    expect(registry.render()).toBe('# TYPE test_broken gauge\n# HELP test_broken Broken source\n# EOF\n');
+  });
+
+  it('should escape label values', () => {
+    registry.counter('test_errors', 'Errors', ['message']).inc({ message: 'bad "input"\\\nline' });
+
+    expect(registry.render()).toContain('test_errors_total{message="bad \\"input\\"\\\\\\nline"} 1');
+  });
+
+  it('should return the existing family when registered twice', () => {
+    const first = registry.counter('test_shared', 'Shared');
+    const second = registry.counter('test_shared', 'Shared');
+
+    expect(second).toBe(first);
+    expect(() => registry.gauge('test_shared', 'Shared')).toThrow('already registered as a counter');
+  });
+
+  it('should clear values on reset but keep families', () => {
+    const counter = registry.counter('test_reset', 'Reset');
+    counter.inc();
+
+    registry.reset();
+
+    expect(counter.get()).toBe(0);
+    expect(registry.render()).toContain('# TYPE test_reset counter');
+  });
+});
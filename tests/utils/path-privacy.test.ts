@@ -0,0 +1,132 @@
+/**
+ * Path Privacy Rules Tests
+ *
+ * Tests .claude-mem-ignore parsing (gitignore syntax) and matching of tool input paths.
+ *
+ * Sources:
+ * - Implementation from src/utils/path-privacy.ts
+ * - Hook usage from src/cli/handlers/observation.ts and src/cli/handlers/file-edit.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  parseIgnoreRules,
+  createPathIgnoreMatcher,
+  loadPathIgnoreMatcher,
+  findProjectRoot,
+  findIgnoredToolInputPath,
+  IGNORE_FILE_NAME,
+} from '../../src/utils/path-privacy.js';
+
+function matcherFor(content: string, baseDir = '/repo') {
+  return createPathIgnoreMatcher([{ baseDir, rules: parseIgnoreRules(content) }], baseDir);
+}
+
+describe('Path Privacy Rules', () => {
+  describe('parseIgnoreRules', () => {
+    it('should skip comments and blank lines', () => {
+      const rules = parseIgnoreRules('# secrets\n\n*.pem\n  \n!public.pem\n');
+
+      expect(rules.map(rule => rule.pattern)).toEqual(['*.pem', '!public.pem']);
+      expect(rules[1].negated).toBe(true);
+    });
+  });
+
+  describe('matching', () => {
+    it('should match unanchored patterns at any depth', () => {
+      const matcher = matcherFor('*.pem\n.env');
+
+      expect(matcher.isIgnored('/repo/certs/server.pem')).toBe(true);
+      expect(matcher.isIgnored('config/.env')).toBe(true);
+      expect(matcher.isIgnored('/repo/src/env.ts')).toBe(false);
+    });
+
+    it('should anchor patterns containing a slash to the project root', () => {
+      const matcher = matcherFor('infra/prod/**\n/local.txt');
+
+      expect(matcher.isIgnored('/repo/infra/prod/main.tf')).toBe(true);
+      expect(matcher.isIgnored('/repo/infra/staging/main.tf')).toBe(false);
+      expect(matcher.isIgnored('/repo/local.txt')).toBe(true);
+      expect(matcher.isIgnored('/repo/docs/local.txt')).toBe(false);
+    });
+
+    it('should ignore everything below an ignored directory', () => {
+      const matcher = matcherFor('secrets/**\nbuild/\n!build/keep.txt');
+
+      expect(matcher.isIgnored('/repo/secrets/prod/db.json')).toBe(true);
+      // A file inside an ignored directory cannot be re-included
+      expect(matcher.isIgnored('/repo/build/keep.txt')).toBe(true);
+    });
+
+    it('should honor negation and the last matching rule', () => {
+      const matcher = matcherFor('*.key\n!public.key');
+
+      expect(matcher.isIgnored('/repo/private.key')).toBe(true);
+      expect(matcher.isIgnored('/repo/public.key')).toBe(false);
+    });
+
+    it('should support ** in the middle and character classes', () => {
+      const matcher = matcherFor('config/**/credentials.json\nbackup-[0-9].sql');
+
+      expect(matcher.isIgnored('/repo/config/credentials.json')).toBe(true);
+      expect(matcher.isIgnored('/repo/config/a/b/credentials.json')).toBe(true);
+      expect(matcher.isIgnored('/repo/backup-3.sql')).toBe(true);
+      expect(matcher.isIgnored('/repo/backup-x.sql')).toBe(false);
+    });
+
+    it('should apply only unanchored patterns outside the project', () => {
+      const matcher = matcherFor('*.pem\nsecrets/**');
+
+      expect(matcher.isIgnored('/etc/ssl/server.pem')).toBe(true);
+      expect(matcher.isIgnored('/other/secrets/a.txt')).toBe(false);
+    });
+  });
+
+  describe('tool inputs', () => {
+    it('should find the ignored path in a tool_input object', () => {
+      const matcher = matcherFor('*.pem');
+
+      expect(findIgnoredToolInputPath({ file_path: '/repo/key.pem' }, matcher)).toBe('/repo/key.pem');
+      expect(findIgnoredToolInputPath({ notebook_path: '/repo/a.ipynb' }, matcher)).toBeNull();
+      expect(findIgnoredToolInputPath({ command: 'cat key.pem' }, matcher)).toBeNull();
+    });
+  });
+
+  describe('loadPathIgnoreMatcher', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), 'claude-mem-ignore-'));
+      mkdirSync(join(root, '.git'));
+      mkdirSync(join(root, 'src', 'nested'), { recursive: true });
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should combine the project file with the global file', () => {
+      writeFileSync(join(root, IGNORE_FILE_NAME), 'secrets/\n');
+      const globalPath = join(root, 'global-ignore');
+      writeFileSync(globalPath, '*.pem\n');
+
+      const matcher = loadPathIgnoreMatcher(join(root, 'src', 'nested'), globalPath);
+
+      expect(findProjectRoot(join(root, 'src', 'nested'))).toBe(root);
+      expect(matcher.sources).toHaveLength(2);
+      expect(matcher.isIgnored('secrets/token.txt')).toBe(true);
+      expect(matcher.isIgnored(join(root, 'src', 'server.pem'))).toBe(true);
+      expect(matcher.isIgnored(join(root, 'src', 'index.ts'))).toBe(false);
+    });
+
+    it('should have no rules when no ignore files exist', () => {
+      const matcher = loadPathIgnoreMatcher(root, join(root, 'missing'));
+
+      expect(matcher.hasRules).toBe(false);
+      expect(matcher.isIgnored(join(root, 'anything.pem'))).toBe(false);
+    });
+  });
+});
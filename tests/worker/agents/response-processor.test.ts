@@ -1,4 +1,7 @@
 import { describe, it, expect, mock, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { logger } from '../../../src/utils/logger.js';
 
 // Mock modules that cause import chain issues - MUST be before imports
@@ -42,6 +45,7 @@ let loggerSpies: ReturnType<typeof spyOn>[] = [];
 describe('ResponseProcessor', () => {
   // Mocks
   let mockStoreObservations: ReturnType<typeof mock>;
+  let mockRecordProviderUsage: ReturnType<typeof mock>;
   let mockChromaSyncObservation: ReturnType<typeof mock>;
   let mockChromaSyncSummary: ReturnType<typeof mock>;
   let mockBroadcast: ReturnType<typeof mock>;
@@ -66,12 +70,15 @@ describe('ResponseProcessor', () => {
       createdAtEpoch: 1700000000000,
     } as StorageResult));
 
+    mockRecordProviderUsage = mock(() => {});
+
     mockChromaSyncObservation = mock(() => Promise.resolve());
     mockChromaSyncSummary = mock(() => Promise.resolve());
 
     mockDbManager = {
       getSessionStore: () => ({
         storeObservations: mockStoreObservations,
+        recordProviderUsage: mockRecordProviderUsage,
       }),
       getChromaSync: () => ({
         syncObservation: mockChromaSyncObservation,
@@ -88,6 +95,7 @@ describe('ResponseProcessor', () => {
         cleanupProcessed: mock(() => 0),
         resetStuckMessages: mock(() => 0),
       }),
+      wakeQueue: mock(() => {}),
     } as unknown as SessionManager;
 
     mockBroadcast = mock(() => {});
@@ -124,6 +132,7 @@ describe('ResponseProcessor', () => {
       cumulativeInputTokens: 100,
       cumulativeOutputTokens: 50,
       earliestPendingTimestamp: Date.now() - 10000,
+      inFlightMessages: [],
       conversationHistory: [],
       currentProvider: 'claude',
       ...overrides,
@@ -500,6 +509,7 @@ describe('ResponseProcessor', () => {
     it('should reset earliestPendingTimestamp after processing', async () => {
       const session = createMockSession({
         earliestPendingTimestamp: 1700000000000,
+        inFlightMessages: [],
       });
       const responseText = `
         <observation>
@@ -614,6 +624,93 @@ describe('ResponseProcessor', () => {
     });
   });
 
+  describe('.claude-mem-ignore paths', () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+      projectRoot = mkdtempSync(join(tmpdir(), 'claude-mem-rp-'));
+      writeFileSync(join(projectRoot, '.claude-mem-ignore'), 'secrets/**\n*.pem\n');
+    });
+
+    afterEach(() => {
+      rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should scrub ignored paths and drop observations that only touch ignored files', async () => {
+      const session = createMockSession();
+      const responseText = `
+        <observation>
+          <type>discovery</type>
+          <title>Read config</title>
+          <files_read><file>src/config.ts</file><file>secrets/prod.json</file></files_read>
+          <files_modified></files_modified>
+        </observation>
+        <observation>
+          <type>discovery</type>
+          <title>Rotated certificate</title>
+          <files_read></files_read>
+          <files_modified><file>certs/server.pem</file></files_modified>
+        </observation>
+      `;
+
+      await processAgentResponse(
+        responseText,
+        session,
+        mockDbManager,
+        mockSessionManager,
+        mockWorker,
+        100,
+        null,
+        'TestAgent',
+        projectRoot
+      );
+
+      const [, , observations] = mockStoreObservations.mock.calls[0];
+      expect(observations).toHaveLength(1);
+      expect(observations[0].title).toBe('Read config');
+      expect(observations[0].files_read).toEqual(['src/config.ts']);
+    });
+  });
+
+  describe('provider usage', () => {
+    it('should record token usage against the current provider', async () => {
+      const session = createMockSession({ currentProvider: 'gemini' });
+
+      await processAgentResponse(
+        '<observation><type>discovery</type><title>Test</title></observation>',
+        session,
+        mockDbManager,
+        mockSessionManager,
+        mockWorker,
+        250,
+        null,
+        'TestAgent'
+      );
+
+      expect(mockRecordProviderUsage).toHaveBeenCalledTimes(1);
+      expect(mockRecordProviderUsage.mock.calls[0][0]).toMatchObject({
+        provider: 'gemini',
+        sessionDbId: 1,
+        tokens: 250,
+      });
+    });
+
+    it('should not record usage when no tokens were used', async () => {
+      await processAgentResponse(
+        '<observation><type>discovery</type><title>Test</title></observation>',
+        createMockSession(),
+        mockDbManager,
+        mockSessionManager,
+        mockWorker,
+        0,
+        null,
+        'TestAgent'
+      );
+
+      expect(mockRecordProviderUsage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('error handling', () => {
     it('should throw error if memorySessionId is missing', async () => {
       const session = createMockSession({
@@ -0,0 +1,125 @@
+/**
+ * DigestConsolidator tests
+ *
+ * Tests a consolidation run end to end against an in-memory store, with the provider
+ * replaced by a fake text generation agent.
+ *
+ * Sources:
+ * - Implementation from src/services/worker/DigestConsolidator.ts
+ * - Digest parsing from src/sdk/parser.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { SessionStore } from '../../src/services/sqlite/SessionStore.js';
+import { storeObservation } from '../../src/services/sqlite/Observations.js';
+import { DigestConsolidator } from '../../src/services/worker/DigestConsolidator.js';
+import type { DigestAgents, DigestConsolidatorConfig } from '../../src/services/worker/DigestConsolidator.js';
+import { SettingsDefaultsManager } from '../../src/shared/SettingsDefaultsManager.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-06-01T00:00:00Z');
+
+const CONFIG: DigestConsolidatorConfig = { afterDays: 30, intervalMs: 60_000, minGroupSize: 2, maxDigestsPerRun: 10 };
+
+const DIGEST_RESPONSE = `<digest>
+  <title>Cache layer</title>
+  <summary>The cache is an LRU with write-through.</summary>
+  <facts><fact>Capacity is 100 entries</fact></facts>
+</digest>`;
+
+function fakeAgents(respond: (prompt: string) => string): { agents: DigestAgents; prompts: string[] } {
+  const prompts: string[] = [];
+  const agent = {
+    generateText: async (prompt: string) => {
+      prompts.push(prompt);
+      return respond(prompt);
+    }
+  };
+  return { agents: { claude: agent, gemini: agent, openrouter: agent, 'openai-compatible': agent }, prompts };
+}
+
+describe('DigestConsolidator', () => {
+  let store: SessionStore;
+
+  function addObservation(title: string, daysAgo: number, concept = 'caching'): number {
+    return storeObservation(store.db, 'mem-a', 'alpha', {
+      type: 'discovery',
+      title,
+      subtitle: null,
+      facts: ['a fact'],
+      narrative: null,
+      concepts: [concept],
+      files_read: [],
+      files_modified: ['/repo/src/cache/lru.ts'],
+    }, 1, 0, NOW - daysAgo * DAY_MS).id;
+  }
+
+  beforeEach(() => {
+    store = new SessionStore(':memory:');
+    const sessionId = store.createSDKSession('content-a', 'alpha', 'prompt');
+    store.updateMemorySessionId(sessionId, 'mem-a');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should write one digest per group and link its sources', async () => {
+    const first = addObservation('LRU chosen', 40);
+    const second = addObservation('Write-through added', 35);
+    addObservation('Recent tweak', 1);
+    const { agents, prompts } = fakeAgents(() => DIGEST_RESPONSE);
+
+    const result = await new DigestConsolidator(store, agents, CONFIG, () => 'gemini').runOnce(NOW);
+
+    expect(result).toEqual({ provider: 'gemini', digestsCreated: 1, observationsConsolidated: 2, groupsFailed: 0 });
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('LRU chosen');
+    expect(prompts[0]).not.toContain('Recent tweak');
+
+    const [digest] = store.getDigestsByProjects(['alpha'], 5);
+    expect(digest).toMatchObject({ title: 'Cache layer', folder: '/repo/src/cache', concept: 'caching', provider: 'gemini' });
+    expect(store.getDigestById(digest.id)!.source_ids).toEqual([first, second]);
+
+    // Covered observations are not consolidated again
+    const rerun = await new DigestConsolidator(store, agents, CONFIG, () => 'gemini').runOnce(NOW);
+    expect(rerun.digestsCreated).toBe(0);
+  });
+
+  it('should leave a group for the next run when the response has no digest', async () => {
+    addObservation('one', 40);
+    addObservation('two', 40);
+    const { agents } = fakeAgents(() => 'I cannot help with that.');
+
+    const result = await new DigestConsolidator(store, agents, CONFIG, () => 'claude').runOnce(NOW);
+
+    expect(result.groupsFailed).toBe(1);
+    expect(store.getDigestsByProjects(['alpha'], 5)).toEqual([]);
+  });
+
+  it('should continue with other groups when a provider call throws', async () => {
+    addObservation('cache one', 40);
+    addObservation('cache two', 40);
+    addObservation('auth one', 40, 'security');
+    addObservation('auth two', 40, 'security');
+    const { agents } = fakeAgents(prompt => {
+      if (prompt.includes('cache one')) throw new Error('rate limited');
+      return DIGEST_RESPONSE;
+    });
+
+    const result = await new DigestConsolidator(store, agents, CONFIG, () => 'claude').runOnce(NOW);
+
+    expect(result).toMatchObject({ digestsCreated: 1, groupsFailed: 1 });
+  });
+
+  it('should only load a config when enabled', () => {
+    const defaults = SettingsDefaultsManager.getAllDefaults();
+
+    expect(DigestConsolidator.loadConfig(defaults)).toBeNull();
+    expect(DigestConsolidator.loadConfig({
+      ...defaults,
+      CLAUDE_MEM_CONSOLIDATION_ENABLED: 'true',
+      CLAUDE_MEM_CONSOLIDATION_INTERVAL_MINUTES: '1',
+    })).toEqual({ afterDays: 30, intervalMs: 360 * 60 * 1000, minGroupSize: 5, maxDigestsPerRun: 10 });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * FileContextService tests
+ *
+ * Tests the memories the PreToolUse hook injects before a file is edited or read:
+ * which observations qualify, their order, the token cap and per-session dedupe.
+ *
+ * Sources:
+ * - Implementation from src/services/worker/FileContextService.ts
+ * - By-file search from src/services/sqlite/SessionSearch.ts
+ * - Injection log from src/services/sqlite/observations/injections.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionStore } from '../../src/services/sqlite/SessionStore.js';
+import { SessionSearch } from '../../src/services/sqlite/SessionSearch.js';
+import { storeObservation } from '../../src/services/sqlite/Observations.js';
+import type { ObservationInput } from '../../src/services/sqlite/observations/types.js';
+import { FileContextService } from '../../src/services/worker/FileContextService.js';
+import { estimateTokens } from '../../src/shared/timeline-formatting.js';
+
+const NOW = Date.parse('2025-06-01T00:00:00Z');
+
+describe('FileContextService', () => {
+  let dir: string;
+  let store: SessionStore;
+  let sessionSearch: SessionSearch;
+  let service: FileContextService;
+  let tick = 0;
+
+  function addObservation(overrides: Partial<Omit<ObservationInput, 'origin' | 'quality_score'>> = {}): number {
+    return storeObservation(store.db, 'mem-a', 'alpha', {
+      type: 'discovery',
+      title: 'Untitled',
+      subtitle: null,
+      facts: [],
+      narrative: null,
+      concepts: [],
+      files_read: [],
+      files_modified: ['/repo/src/auth/session.ts'],
+      ...overrides,
+    }, 1, 0, NOW + tick++ * 1000).id;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-mem-file-context-'));
+    const dbPath = join(dir, 'test.db');
+    store = new SessionStore(dbPath);
+    const sessionId = store.createSDKSession('content-a', 'alpha', 'prompt');
+    store.updateMemorySessionId(sessionId, 'mem-a');
+    sessionSearch = new SessionSearch(dbPath);
+    service = new FileContextService(sessionSearch, store);
+    tick = 0;
+  });
+
+  afterEach(() => {
+    sessionSearch.close();
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should surface gotchas, decisions and bugfixes for the file, gotchas first', () => {
+    const decision = addObservation({ type: 'decision', title: 'Sessions expire after 24h' });
+    const gotcha = addObservation({ type: 'discovery', title: 'Token refresh races logout', concepts: ['gotcha'] });
+    const bugfix = addObservation({ type: 'bugfix', title: 'Fixed double cookie write' });
+    addObservation({ type: 'change', title: 'Renamed helpers' });
+    addObservation({ type: 'decision', title: 'Other file', files_modified: ['/repo/src/db.ts'] });
+
+    const result = service.getFileContext({ filePath: 'src/auth/session.ts', projects: ['alpha'], maxTokens: 500 });
+
+    expect(result.observationIds).toEqual([gotcha, decision, bugfix]);
+    expect(result.context).toContain('# [claude-mem] memories about src/auth/session.ts');
+    expect(result.context).toContain(`#${gotcha}`);
+    expect(result.context).toContain('[gotcha] Token refresh races logout');
+    expect(result.context).not.toContain('Renamed helpers');
+    expect(result.context).toContain(`get_observations(ids=[${gotcha}, ${decision}, ${bugfix}])`);
+  });
+
+  it('should not inject the same memory twice in one session', () => {
+    const first = addObservation({ type: 'decision', title: 'Sessions expire after 24h' });
+    const request = { filePath: 'src/auth/session.ts', projects: ['alpha'], contentSessionId: 'claude-1', maxTokens: 500 };
+
+    expect(service.getFileContext(request).observationIds).toEqual([first]);
+    expect(service.getFileContext(request)).toEqual({ context: '', observationIds: [] });
+
+    const second = addObservation({ type: 'bugfix', title: 'Fixed double cookie write' });
+    expect(service.getFileContext(request).observationIds).toEqual([second]);
+    expect(service.getFileContext({ ...request, contentSessionId: 'claude-2' }).observationIds).toEqual([first, second]);
+  });
+
+  it('should remember injected memories across worker restarts', () => {
+    addObservation({ type: 'decision', title: 'Sessions expire after 24h' });
+    const request = { filePath: 'src/auth/session.ts', projects: ['alpha'], contentSessionId: 'claude-1', maxTokens: 500 };
+    service.getFileContext(request);
+
+    const restarted = new FileContextService(sessionSearch, store);
+
+    expect(restarted.getFileContext(request)).toEqual({ context: '', observationIds: [] });
+    expect(store.getFileContextInjectedIds('claude-1')).toHaveLength(1);
+  });
+
+  it('should stay under the token cap', () => {
+    for (let i = 0; i < 20; i++) {
+      addObservation({ type: 'decision', title: `Decision number ${i} about how sessions are stored and refreshed` });
+    }
+
+    const result = service.getFileContext({ filePath: 'src/auth/session.ts', projects: ['alpha'], maxTokens: 100 });
+
+    expect(result.observationIds.length).toBeGreaterThan(0);
+    expect(result.observationIds.length).toBeLessThan(20);
+    expect(estimateTokens(result.context)).toBeLessThanOrEqual(100);
+  });
+
+  it('should return no context when not even one memory fits', () => {
+    addObservation({ type: 'decision', title: 'A decision with a reasonably long title that will not fit' });
+
+    const result = service.getFileContext({ filePath: 'src/auth/session.ts', projects: ['alpha'], maxTokens: 10 });
+
+    expect(result).toEqual({ context: '', observationIds: [] });
+  });
+});
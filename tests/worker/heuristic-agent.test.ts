@@ -0,0 +1,226 @@
+/**
+ * Heuristic extraction tests
+ *
+ * Covers the rule-based extractor (tool event → observations) and HeuristicAgent
+ * draining a queue into the shared store path without an LLM.
+ *
+ * Sources:
+ * - Rules from src/sdk/heuristics.ts
+ * - Agent from src/services/worker/HeuristicAgent.ts
+ * - Mocking patterns from tests/worker/openai-compatible-agent.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+
+// Complete no-op logger (other test files replace the module with partial mocks)
+mock.module('../../src/utils/logger.js', () => ({
+  logger: {
+    info: () => {},
+    debug: () => {},
+    warn: () => {},
+    error: () => {},
+    success: () => {},
+    failure: () => {},
+    dataIn: () => {},
+    dataOut: () => {},
+    timing: () => {},
+    formatTool: (toolName: string) => toolName,
+  },
+}));
+
+// Import after mocks
+import { extractHeuristicObservations, isTestCommand } from '../../src/sdk/heuristics.js';
+import { HeuristicAgent } from '../../src/services/worker/HeuristicAgent.js';
+import { ModeManager } from '../../src/services/domain/ModeManager.js';
+import type { DatabaseManager } from '../../src/services/worker/DatabaseManager.js';
+import type { SessionManager } from '../../src/services/worker/SessionManager.js';
+
+const mockMode = {
+  name: 'code',
+  prompts: {},
+  observation_types: [{ id: 'bugfix' }, { id: 'change' }, { id: 'discovery' }],
+  observation_concepts: [{ id: 'how-it-works' }, { id: 'what-changed' }, { id: 'problem-solution' }]
+};
+
+describe('Heuristic extraction', () => {
+  let modeManagerSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    modeManagerSpy = spyOn(ModeManager, 'getInstance').mockImplementation(() => ({
+      getActiveMode: () => mockMode,
+    } as any));
+  });
+
+  afterEach(() => {
+    modeManagerSpy.mockRestore();
+    mock.restore();
+  });
+
+  describe('extractHeuristicObservations', () => {
+    it('should turn an Edit into a change with a diff-derived title', () => {
+      const [obs] = extractHeuristicObservations({
+        tool_name: 'Edit',
+        tool_input: {
+          file_path: '/repo/src/cache.ts',
+          old_string: 'const ttl = 10;\nexport { ttl };',
+          new_string: 'const ttl = 60;\nconst max = 100;\nexport { ttl };'
+        },
+        tool_response: {},
+        cwd: '/repo'
+      });
+
+      expect(obs).toMatchObject({
+        type: 'change',
+        title: 'Edited cache.ts (+2 −1 lines)',
+        subtitle: 'const ttl = 60;',
+        concepts: ['what-changed'],
+        files_modified: ['src/cache.ts'],
+        files_read: [],
+        origin: 'heuristic'
+      });
+    });
+
+    it('should sum the edits of a MultiEdit', () => {
+      const [obs] = extractHeuristicObservations({
+        tool_name: 'MultiEdit',
+        tool_input: {
+          file_path: '/elsewhere/a.ts',
+          edits: [
+            { old_string: 'a', new_string: 'b' },
+            { old_string: 'c', new_string: '' }
+          ]
+        },
+        tool_response: {},
+        cwd: '/repo'
+      });
+
+      expect(obs.title).toBe('Edited a.ts (+1 −2 lines)');
+      expect(obs.files_modified).toEqual(['/elsewhere/a.ts']);
+    });
+
+    it('should describe a Write as created or rewritten', () => {
+      const [created] = extractHeuristicObservations({
+        tool_name: 'Write',
+        tool_input: JSON.stringify({ file_path: 'docs/guide.md', content: '# Guide\n\nText' }),
+        tool_response: { type: 'create' }
+      });
+
+      expect(created).toMatchObject({ type: 'change', title: 'Created guide.md', facts: ['docs/guide.md: 3 lines written'] });
+    });
+
+    it('should list the file of a Read as a discovery', () => {
+      const [obs] = extractHeuristicObservations({
+        tool_name: 'Read',
+        tool_input: { file_path: '/repo/README.md' },
+        tool_response: 'file contents',
+        cwd: '/repo'
+      });
+
+      expect(obs).toMatchObject({ type: 'discovery', title: 'Read README.md', files_read: ['README.md'], files_modified: [] });
+    });
+
+    it('should record pass/fail facts for test runs', () => {
+      const [obs] = extractHeuristicObservations({
+        tool_name: 'Bash',
+        tool_input: { command: 'bun test tests/cache.test.ts' },
+        tool_response: {
+          stdout: '(pass) cache > hits\n(fail) cache > expires entries\n\n 11 pass\n 1 fail\n',
+          stderr: ''
+        }
+      });
+
+      expect(obs).toMatchObject({
+        type: 'discovery',
+        title: 'Tests failed: bun test tests/cache.test.ts',
+        facts: ['11 passed, 1 failed', 'Failing: cache > expires entries'],
+        concepts: ['problem-solution']
+      });
+    });
+
+    it('should report passing pytest runs', () => {
+      const [obs] = extractHeuristicObservations({
+        tool_name: 'Bash',
+        tool_input: { command: 'python -m pytest -q' },
+        tool_response: { stdout: '........\n8 passed in 0.42s\n', stderr: '' }
+      });
+
+      expect(obs.title).toBe('Tests passed: python -m pytest -q');
+      expect(obs.facts).toEqual(['8 passed, 0 failed']);
+    });
+
+    it('should ignore other commands and tools', () => {
+      expect(extractHeuristicObservations({ tool_name: 'Bash', tool_input: { command: 'ls -la' }, tool_response: {} })).toEqual([]);
+      expect(extractHeuristicObservations({ tool_name: 'WebFetch', tool_input: { url: 'https://example.com' }, tool_response: {} })).toEqual([]);
+      expect(extractHeuristicObservations({ tool_name: 'Edit', tool_input: {}, tool_response: {} })).toEqual([]);
+    });
+
+    it('should fall back to the first mode type when a type is not in the mode', () => {
+      modeManagerSpy.mockImplementation(() => ({
+        getActiveMode: () => ({ ...mockMode, observation_types: [{ id: 'finding' }], observation_concepts: [] }),
+      } as any));
+
+      const [obs] = extractHeuristicObservations({ tool_name: 'Read', tool_input: { file_path: 'a.ts' }, tool_response: '' });
+
+      expect(obs.type).toBe('finding');
+      expect(obs.concepts).toEqual([]);
+    });
+  });
+
+  describe('isTestCommand', () => {
+    it('should recognize common test runners', () => {
+      for (const command of ['npm test', 'pnpm run test -- --watch=false', 'npx vitest run', 'go test ./...', 'cargo test', 'make check']) {
+        expect(isTestCommand(command)).toBe(true);
+      }
+      for (const command of ['npm install', 'git status', 'cat test.txt']) {
+        expect(isTestCommand(command)).toBe(false);
+      }
+    });
+  });
+
+  describe('HeuristicAgent', () => {
+    it('should store heuristic observations for queued tool events and skip summaries', async () => {
+      const mockStoreObservations = mock(() => ({ observationIds: [7], summaryId: null, createdAtEpoch: 1700000000000 }));
+      const mockEnsureMemorySessionId = mock((session: any) => { session.memorySessionId = 'heuristic-content-1'; });
+      const messages = [
+        { type: 'observation', tool_name: 'Read', tool_input: { file_path: '/repo/a.ts' }, tool_response: '', cwd: '/repo', prompt_number: 3 },
+        { type: 'observation', tool_name: 'Glob', tool_input: { pattern: '*.ts' }, tool_response: [] },
+        { type: 'summarize', last_assistant_message: 'done' }
+      ];
+
+      const dbManager = {
+        getSessionStore: () => ({ storeObservations: mockStoreObservations }),
+        getChromaSync: () => ({ syncObservation: mock(() => Promise.resolve()) })
+      } as unknown as DatabaseManager;
+      const sessionManager = {
+        getMessageIterator: async function* () { yield* messages; },
+        ensureMemorySessionId: mockEnsureMemorySessionId
+      } as unknown as SessionManager;
+
+      const session: any = {
+        sessionDbId: 1,
+        contentSessionId: 'content-1',
+        memorySessionId: null,
+        project: 'repo',
+        lastPromptNumber: 1,
+        earliestPendingTimestamp: null,
+        inFlightMessages: [],
+        conversationHistory: [],
+        currentProvider: 'heuristic'
+      };
+
+      await new HeuristicAgent(dbManager, sessionManager).startSession(session);
+
+      expect(mockEnsureMemorySessionId).toHaveBeenCalledWith(session, 'heuristic');
+      expect(mockStoreObservations).toHaveBeenCalledTimes(1);
+      const [memorySessionId, project, observations, summary, promptNumber, tokens] = mockStoreObservations.mock.calls[0] as any[];
+      expect(memorySessionId).toBe('heuristic-content-1');
+      expect(project).toBe('repo');
+      expect(observations).toHaveLength(1);
+      expect(observations[0]).toMatchObject({ title: 'Read a.ts', origin: 'heuristic' });
+      expect(summary).toBeNull();
+      expect(promptNumber).toBe(3);
+      expect(tokens).toBe(0);
+      expect(session.conversationHistory).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * OpenAICompatibleAgent tests
+ *
+ * Runs the agent against a mock OpenAI-compatible server (Bun.serve on a random port)
+ * to cover the request format and the XML round-trip into ResponseProcessor.
+ *
+ * Sources:
+ * - Implementation from src/services/worker/OpenAICompatibleAgent.ts
+ * - Mocking patterns from tests/gemini_agent.test.ts
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import type { Server } from 'bun';
+
+// Complete no-op logger (other test files replace the module with partial mocks)
+mock.module('../../src/utils/logger.js', () => ({
+  logger: {
+    info: () => {},
+    debug: () => {},
+    warn: () => {},
+    error: () => {},
+    success: () => {},
+    failure: () => {},
+    dataIn: () => {},
+    dataOut: () => {},
+    timing: () => {},
+    formatTool: (toolName: string) => toolName,
+  },
+}));
+
+// Import after mocks
+import { OpenAICompatibleAgent } from '../../src/services/worker/OpenAICompatibleAgent.js';
+import { DatabaseManager } from '../../src/services/worker/DatabaseManager.js';
+import { SessionManager } from '../../src/services/worker/SessionManager.js';
+import { ModeManager } from '../../src/services/domain/ModeManager.js';
+import { SettingsDefaultsManager } from '../../src/shared/SettingsDefaultsManager.js';
+
+const mockMode = {
+  name: 'code',
+  prompts: {
+    init: 'init prompt',
+    observation: 'obs prompt',
+    summary: 'summary prompt'
+  },
+  observation_types: [{ id: 'discovery' }, { id: 'bugfix' }],
+  observation_concepts: []
+};
+
+const OBSERVATION_XML = `
+  <observation>
+    <type>discovery</type>
+    <title>Found bug</title>
+    <subtitle>Null pointer</subtitle>
+    <narrative>Found a null pointer in the code</narrative>
+    <facts><fact>Null check missing</fact></facts>
+    <concepts><concept>bug</concept></concepts>
+    <files_read><file>src/main.ts</file></files_read>
+    <files_modified></files_modified>
+  </observation>
+`;
+
+interface RecordedRequest {
+  path: string;
+  authorization: string | null;
+  body: any;
+}
+
+function createSession(overrides: Record<string, unknown> = {}): any {
+  return {
+    sessionDbId: 1,
+    contentSessionId: 'test-session',
+    memorySessionId: 'mem-session-123',
+    project: 'test-project',
+    userPrompt: 'test prompt',
+    conversationHistory: [],
+    lastPromptNumber: 1,
+    cumulativeInputTokens: 0,
+    cumulativeOutputTokens: 0,
+    pendingMessages: [],
+    abortController: new AbortController(),
+    generatorPromise: null,
+    earliestPendingTimestamp: null,
+    inFlightMessages: [],
+    currentProvider: null,
+    startTime: Date.now(),
+    ...overrides
+  };
+}
+
+describe('OpenAICompatibleAgent', () => {
+  let server: Server;
+  let requests: RecordedRequest[];
+  let respond: () => Response;
+  let settings: Record<string, string>;
+
+  let loadFromFileSpy: ReturnType<typeof spyOn>;
+  let modeManagerSpy: ReturnType<typeof spyOn>;
+  let mockStoreObservations: any;
+  let mockEnsureMemorySessionId: any;
+  let agent: OpenAICompatibleAgent;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        requests.push({
+          path: new URL(req.url).pathname,
+          authorization: req.headers.get('authorization'),
+          body: await req.json()
+        });
+        return respond();
+      }
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    requests = [];
+    respond = () => Response.json({
+      choices: [{ message: { role: 'assistant', content: OBSERVATION_XML }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 80, completion_tokens: 20, total_tokens: 100 }
+    });
+    settings = {
+      ...SettingsDefaultsManager.getAllDefaults(),
+      CLAUDE_MEM_PROVIDER: 'openai-compatible',
+      CLAUDE_MEM_OPENAI_COMPATIBLE_BASE_URL: `http://localhost:${server.port}/v1/`,
+      CLAUDE_MEM_OPENAI_COMPATIBLE_MODEL: 'llama3.1',
+      CLAUDE_MEM_DATA_DIR: '/tmp/claude-mem-test',
+    };
+
+    modeManagerSpy = spyOn(ModeManager, 'getInstance').mockImplementation(() => ({
+      getActiveMode: () => mockMode,
+      loadMode: () => {},
+    } as any));
+    loadFromFileSpy = spyOn(SettingsDefaultsManager, 'loadFromFile').mockImplementation(() => settings as any);
+
+    mockStoreObservations = mock(() => ({
+      observationIds: [1],
+      summaryId: null,
+      createdAtEpoch: Date.now()
+    }));
+    mockEnsureMemorySessionId = mock(() => {});
+
+    const mockDbManager = {
+      getSessionStore: () => ({ storeObservations: mockStoreObservations }),
+      getChromaSync: () => ({
+        syncObservation: mock(() => Promise.resolve()),
+        syncSummary: mock(() => Promise.resolve())
+      })
+    } as unknown as DatabaseManager;
+
+    const mockSessionManager = {
+      getMessageIterator: async function* () { yield* []; },
+      getPendingMessageStore: () => ({
+        markProcessed: mock(() => {}),
+        cleanupProcessed: mock(() => 0),
+        resetStuckMessages: mock(() => 0)
+      }),
+      ensureMemorySessionId: mockEnsureMemorySessionId,
+      wakeQueue: mock(() => {})
+    } as unknown as SessionManager;
+
+    agent = new OpenAICompatibleAgent(mockDbManager, mockSessionManager);
+  });
+
+  afterEach(() => {
+    modeManagerSpy.mockRestore();
+    loadFromFileSpy.mockRestore();
+    mock.restore();
+  });
+
+  it('should send chat completions and store the parsed observations', async () => {
+    const session = createSession();
+
+    await agent.startSession(session);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].path).toBe('/v1/chat/completions');
+    expect(requests[0].authorization).toBeNull();
+    expect(requests[0].body).toMatchObject({ model: 'llama3.1', stream: false });
+    expect(requests[0].body.messages).toEqual([{ role: 'user', content: expect.any(String) }]);
+
+    expect(mockEnsureMemorySessionId).toHaveBeenCalledWith(session, 'openai-compatible');
+    expect(mockStoreObservations).toHaveBeenCalledTimes(1);
+    const [memorySessionId, project, observations] = mockStoreObservations.mock.calls[0];
+    expect(memorySessionId).toBe('mem-session-123');
+    expect(project).toBe('test-project');
+    expect(observations).toHaveLength(1);
+    expect(observations[0]).toMatchObject({
+      type: 'discovery',
+      title: 'Found bug',
+      facts: ['Null check missing'],
+      files_read: ['src/main.ts']
+    });
+
+    expect(session.conversationHistory).toHaveLength(2);
+    expect(session.conversationHistory[1]).toEqual({ role: 'assistant', content: OBSERVATION_XML });
+    expect(session.cumulativeInputTokens).toBe(70);
+  });
+
+  it('should send the bearer token when an API key is configured', async () => {
+    settings.CLAUDE_MEM_OPENAI_COMPATIBLE_API_KEY = 'local-secret';
+
+    await agent.startSession(createSession());
+
+    expect(requests[0].authorization).toBe('Bearer local-secret');
+  });
+
+  it('should trim history to the configured context window', async () => {
+    settings.CLAUDE_MEM_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES = '3';
+    const history = Array.from({ length: 6 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `turn ${i}`
+    }));
+
+    await agent.startSession(createSession({ conversationHistory: history, lastPromptNumber: 2 }));
+
+    const messages = requests[0].body.messages;
+    expect(messages).toHaveLength(3);
+    expect(messages[0]).toEqual({ role: 'user', content: 'turn 4' });
+    expect(messages[1]).toEqual({ role: 'assistant', content: 'turn 5' });
+  });
+
+  it('should surface server errors when fallback is disabled', async () => {
+    respond = () => new Response('model "llama3.1" not found', { status: 404 });
+
+    await expect(agent.startSession(createSession())).rejects.toThrow('OpenAI-compatible API error: 404');
+    expect(mockStoreObservations).not.toHaveBeenCalled();
+  });
+
+  it('should generate text for a single prompt', async () => {
+    respond = () => Response.json({ choices: [{ message: { content: '<digest>ok</digest>' } }] });
+
+    const text = await agent.generateText('Summarize these observations');
+
+    expect(text).toBe('<digest>ok</digest>');
+    expect(requests[0].body.messages).toEqual([{ role: 'user', content: 'Summarize these observations' }]);
+  });
+});
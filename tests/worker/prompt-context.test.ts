@@ -0,0 +1,138 @@
+/**
+ * PromptContextService tests
+ *
+ * Tests prompt-time retrieval: the similarity threshold, top-k, per-session dedupe,
+ * the token budget and the per-prompt injection log. Vector search is replaced by
+ * fixed similarity scores.
+ *
+ * Sources:
+ * - Implementation from src/services/worker/PromptContextService.ts
+ * - Injection log from src/services/sqlite/prompts/injections.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { SessionStore } from '../../src/services/sqlite/SessionStore.js';
+import { storeObservation } from '../../src/services/sqlite/Observations.js';
+import type { ChromaSync } from '../../src/services/sync/ChromaSync.js';
+import { PromptContextService } from '../../src/services/worker/PromptContextService.js';
+import type { PromptContextRequest } from '../../src/services/worker/PromptContextService.js';
+import { logger } from '../../src/utils/logger.js';
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('PromptContextService', () => {
+  let store: SessionStore;
+  let matches: Array<{ id: number; similarity: number }>;
+  let queries: Array<{ query: string; where: unknown }>;
+  let service: PromptContextService;
+
+  function addObservation(title: string): number {
+    return storeObservation(store.db, 'mem-a', 'alpha', {
+      type: 'decision',
+      title,
+      subtitle: null,
+      facts: [],
+      narrative: null,
+      concepts: [],
+      files_read: [],
+      files_modified: [],
+    }, 1).id;
+  }
+
+  function request(overrides: Partial<PromptContextRequest> = {}): PromptContextRequest {
+    return {
+      contentSessionId: 'claude-1',
+      promptNumber: 1,
+      prompt: 'how did we handle token refresh?',
+      projects: ['alpha'],
+      topK: 3,
+      minSimilarity: 0.5,
+      maxTokens: 400,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+    ];
+    store = new SessionStore(':memory:');
+    const sessionId = store.createSDKSession('content-a', 'alpha', 'prompt');
+    store.updateMemorySessionId(sessionId, 'mem-a');
+
+    matches = [];
+    queries = [];
+    const chromaSync = {
+      queryObservationSimilarity: async (query: string, _limit: number, where: unknown) => {
+        queries.push({ query, where });
+        return matches;
+      }
+    } as unknown as ChromaSync;
+    service = new PromptContextService(chromaSync, store);
+  });
+
+  afterEach(() => {
+    store.close();
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should inject the top-k matches above the threshold, most similar first', async () => {
+    const refresh = addObservation('Refresh tokens rotate on use');
+    const expiry = addObservation('Sessions expire after 24h');
+    const weak = addObservation('Viewer uses React');
+    const extra = addObservation('Logout clears both tokens');
+    matches = [
+      { id: refresh, similarity: 0.82 },
+      { id: expiry, similarity: 0.64 },
+      { id: extra, similarity: 0.6 },
+      { id: weak, similarity: 0.31 },
+    ];
+
+    const result = await service.getPromptContext(request({ topK: 2 }));
+
+    expect(result.injections).toEqual([
+      { observationId: refresh, similarity: 0.82 },
+      { observationId: expiry, similarity: 0.64 },
+    ]);
+    expect(result.context).toContain('# [claude-mem] memories related to this prompt');
+    expect(result.context).toContain('Refresh tokens rotate on use (82% match)');
+    expect(result.context).not.toContain('Viewer uses React');
+    expect(queries[0]).toEqual({ query: 'how did we handle token refresh?', where: { project: 'alpha' } });
+  });
+
+  it('should log injections per prompt and not repeat them in the session', async () => {
+    const refresh = addObservation('Refresh tokens rotate on use');
+    matches = [{ id: refresh, similarity: 0.82 }];
+
+    await service.getPromptContext(request());
+    const second = await service.getPromptContext(request({ promptNumber: 2 }));
+    const otherSession = await service.getPromptContext(request({ contentSessionId: 'claude-2' }));
+
+    expect(second).toEqual({ context: '', injections: [] });
+    expect(otherSession.injections.map(injection => injection.observationId)).toEqual([refresh]);
+    expect(service.getInjections('claude-1')).toMatchObject([
+      { content_session_id: 'claude-1', prompt_number: 1, observation_id: refresh, similarity: 0.82 },
+    ]);
+  });
+
+  it('should skip the search for prompts that are entirely private', async () => {
+    const result = await service.getPromptContext(request({ prompt: '<private>my api key</private>' }));
+
+    expect(result).toEqual({ context: '', injections: [] });
+    expect(queries).toHaveLength(0);
+  });
+
+  it('should stay within the token budget', async () => {
+    matches = Array.from({ length: 10 }, (_, i) => ({
+      id: addObservation(`Decision ${i} about how refresh tokens are stored, rotated and revoked`),
+      similarity: 0.9 - i * 0.01,
+    }));
+
+    const result = await service.getPromptContext(request({ topK: 10, maxTokens: 100 }));
+
+    expect(result.injections.length).toBeGreaterThan(0);
+    expect(result.injections.length).toBeLessThan(10);
+    expect(Math.ceil(result.context.length / 4)).toBeLessThanOrEqual(100);
+    expect(store.getInjectedObservationIds('claude-1')).toHaveLength(result.injections.length);
+  });
+});
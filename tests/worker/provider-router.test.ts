@@ -0,0 +1,199 @@
+/**
+ * ProviderRouter tests
+ *
+ * Tests routing rules and budget enforcement against an in-memory store, with
+ * settings supplied through a SettingsDefaultsManager.loadFromFile spy.
+ *
+ * Sources:
+ * - Implementation from src/services/worker/ProviderRouter.ts
+ * - Cost estimation from src/services/worker/agents/UsageRecorder.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+
+// Complete no-op logger (other test files replace the module with partial mocks)
+mock.module('../../src/utils/logger.js', () => ({
+  logger: {
+    info: () => {},
+    debug: () => {},
+    warn: () => {},
+    error: () => {},
+    success: () => {},
+    failure: () => {},
+    dataIn: () => {},
+    dataOut: () => {},
+    timing: () => {},
+    formatTool: (toolName: string) => toolName,
+  },
+}));
+
+// Import after mocks
+import { SessionStore } from '../../src/services/sqlite/SessionStore.js';
+import { ProviderRouter } from '../../src/services/worker/ProviderRouter.js';
+import { estimateProviderCost } from '../../src/services/worker/agents/UsageRecorder.js';
+import type { DatabaseManager } from '../../src/services/worker/DatabaseManager.js';
+import { SettingsDefaultsManager } from '../../src/shared/SettingsDefaultsManager.js';
+
+const NOW = new Date(2025, 5, 15, 12, 0, 0).getTime();
+
+describe('ProviderRouter', () => {
+  let store: SessionStore;
+  let router: ProviderRouter;
+  let settings: Record<string, string>;
+  let loadFromFileSpy: ReturnType<typeof spyOn>;
+  let savedOpenRouterKey: string | undefined;
+
+  beforeEach(() => {
+    savedOpenRouterKey = process.env.OPENROUTER_API_KEY;
+    delete process.env.OPENROUTER_API_KEY;
+
+    settings = {
+      ...SettingsDefaultsManager.getAllDefaults(),
+      CLAUDE_MEM_PROVIDER: 'claude',
+      CLAUDE_MEM_GEMINI_API_KEY: 'gemini-key',
+      CLAUDE_MEM_OPENROUTER_API_KEY: '',
+    };
+    loadFromFileSpy = spyOn(SettingsDefaultsManager, 'loadFromFile').mockImplementation(() => settings as any);
+
+    store = new SessionStore(':memory:');
+    router = new ProviderRouter({ getSessionStore: () => store } as unknown as DatabaseManager);
+  });
+
+  afterEach(() => {
+    store.close();
+    loadFromFileSpy.mockRestore();
+    if (savedOpenRouterKey !== undefined) {
+      process.env.OPENROUTER_API_KEY = savedOpenRouterKey;
+    }
+  });
+
+  function spend(costUsd: number, at: number = NOW): void {
+    store.recordProviderUsage({ provider: 'claude', sessionDbId: 1, tokens: 1000, costUsd });
+    store.db.run('UPDATE provider_usage SET created_at_epoch = ? WHERE id = last_insert_rowid()', [at]);
+  }
+
+  describe('routing rules', () => {
+    it('should use CLAUDE_MEM_PROVIDER without rules', () => {
+      expect(router.selectProvider('observation', NOW)).toBe('claude');
+      expect(router.selectProvider('summarize', NOW)).toBe('claude');
+    });
+
+    it('should route each message type by its rule', () => {
+      settings.CLAUDE_MEM_ROUTING_OBSERVATION_PROVIDER = 'gemini';
+      settings.CLAUDE_MEM_ROUTING_SUMMARY_PROVIDER = 'claude';
+
+      expect(router.selectProvider('observation', NOW)).toBe('gemini');
+      expect(router.selectProvider('summarize', NOW)).toBe('claude');
+    });
+
+    it('should fall back to the default when the rule names an unconfigured provider', () => {
+      settings.CLAUDE_MEM_ROUTING_OBSERVATION_PROVIDER = 'openrouter';
+
+      expect(router.selectProvider('observation', NOW)).toBe('claude');
+    });
+  });
+
+  describe('budgets', () => {
+    it('should report spend for the current day and month', () => {
+      settings.CLAUDE_MEM_BUDGET_DAILY_USD = '1';
+      spend(0.25);
+      spend(0.5, new Date(2025, 5, 1, 9, 0, 0).getTime());
+      spend(2, new Date(2025, 4, 31, 9, 0, 0).getTime());
+
+      const status = router.getBudgetStatus(NOW);
+
+      expect(status.daily).toMatchObject({ limitUsd: 1, spentUsd: 0.25, exhausted: false });
+      expect(status.monthly).toMatchObject({ limitUsd: 0, spentUsd: 0.75, exhausted: false });
+      expect(status.state).toBe('normal');
+    });
+
+    it('should degrade every message type when a budget is exhausted', () => {
+      settings.CLAUDE_MEM_BUDGET_DAILY_USD = '1';
+      settings.CLAUDE_MEM_ROUTING_SUMMARY_PROVIDER = 'claude';
+      spend(1.5);
+
+      expect(router.getBudgetStatus(NOW)).toMatchObject({ state: 'degraded', degradeProvider: 'gemini' });
+      expect(router.selectProvider('summarize', NOW)).toBe('gemini');
+      expect(router.selectProvider('observation', NOW)).toBe('gemini');
+
+      // A new day resets the daily budget
+      expect(router.selectProvider('summarize', NOW + 24 * 60 * 60 * 1000)).toBe('claude');
+    });
+
+    it('should pause when the action is pause', () => {
+      settings.CLAUDE_MEM_BUDGET_MONTHLY_USD = '5';
+      settings.CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION = 'pause';
+      spend(5);
+
+      expect(router.getBudgetStatus(NOW).state).toBe('paused');
+      expect(router.selectProvider('observation', NOW)).toBeNull();
+    });
+
+    it('should pause when the degrade provider is not configured', () => {
+      settings.CLAUDE_MEM_BUDGET_DAILY_USD = '1';
+      settings.CLAUDE_MEM_BUDGET_DEGRADE_PROVIDER = 'openrouter';
+      spend(1);
+
+      expect(router.selectProvider('observation', NOW)).toBeNull();
+    });
+  });
+
+  describe('extraction mode', () => {
+    it('should route everything to the heuristic extractor in heuristic mode', () => {
+      settings.CLAUDE_MEM_EXTRACTION_MODE = 'heuristic';
+
+      expect(router.selectProvider('observation', NOW)).toBe('heuristic');
+      expect(router.selectProvider('summarize', NOW)).toBe('heuristic');
+    });
+
+    it('should use heuristics instead of pausing in hybrid mode', () => {
+      settings.CLAUDE_MEM_EXTRACTION_MODE = 'hybrid';
+      settings.CLAUDE_MEM_BUDGET_DAILY_USD = '1';
+      settings.CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION = 'pause';
+      spend(1);
+
+      expect(router.selectProvider('observation', NOW)).toBe('heuristic');
+    });
+
+    it('should skip a failed provider for the cooldown in hybrid mode only', () => {
+      router.reportProviderFailure('claude', NOW);
+
+      expect(router.selectProvider('observation', NOW)).toBe('claude');
+
+      settings.CLAUDE_MEM_EXTRACTION_MODE = 'hybrid';
+      expect(router.selectProvider('observation', NOW + 60_000)).toBe('heuristic');
+      expect(router.selectProvider('observation', NOW + 6 * 60_000)).toBe('claude');
+    });
+  });
+
+  describe('provider override', () => {
+    it('should prefer the override of a replayed message over rules and mode', () => {
+      settings.CLAUDE_MEM_ROUTING_OBSERVATION_PROVIDER = 'claude';
+
+      expect(router.selectProvider('observation', NOW, 'gemini')).toBe('gemini');
+
+      settings.CLAUDE_MEM_EXTRACTION_MODE = 'heuristic';
+      expect(router.selectProvider('observation', NOW, 'gemini')).toBe('gemini');
+    });
+
+    it('should ignore an unconfigured override or one over an exhausted budget', () => {
+      expect(router.selectProvider('observation', NOW, 'openrouter')).toBe('claude');
+
+      settings.CLAUDE_MEM_BUDGET_DAILY_USD = '1';
+      settings.CLAUDE_MEM_BUDGET_EXHAUSTED_ACTION = 'pause';
+      spend(1);
+      expect(router.selectProvider('observation', NOW, 'gemini')).toBeNull();
+      expect(router.selectProvider('observation', NOW, 'heuristic')).toBe('heuristic');
+    });
+  });
+
+  describe('estimateProviderCost', () => {
+    it('should price tokens per million with the provider setting', () => {
+      const defaults = SettingsDefaultsManager.getAllDefaults();
+
+      expect(estimateProviderCost('claude', 1_000_000, { ...defaults, CLAUDE_MEM_COST_PER_MTOK_CLAUDE: '3' })).toBe(3);
+      expect(estimateProviderCost('gemini', 500_000, { ...defaults, CLAUDE_MEM_COST_PER_MTOK_GEMINI: '0.2' })).toBeCloseTo(0.1);
+      expect(estimateProviderCost('openrouter', 1_000_000, { ...defaults, CLAUDE_MEM_COST_PER_MTOK_OPENROUTER: 'free' })).toBe(0);
+    });
+  });
+});
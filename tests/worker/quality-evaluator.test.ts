@@ -0,0 +1,156 @@
+/**
+ * Observation quality tests
+ *
+ * Covers scoring, near-duplicate suppression within a session, and the context
+ * threshold that hides low-scoring observations.
+ *
+ * Sources:
+ * - Evaluator from src/services/worker/agents/QualityEvaluator.ts
+ * - Context filter from src/services/context/ObservationCompiler.ts
+ * - In-memory store pattern from tests/sqlite/digests.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+
+// Complete no-op logger (other test files replace the module with partial mocks)
+mock.module('../../src/utils/logger.js', () => ({
+  logger: {
+    info: () => {},
+    debug: () => {},
+    warn: () => {},
+    error: () => {},
+    success: () => {},
+    failure: () => {},
+    dataIn: () => {},
+    dataOut: () => {},
+    timing: () => {},
+    formatTool: (toolName: string) => toolName,
+  },
+}));
+
+// Import after mocks
+import { assessObservation, evaluateObservations } from '../../src/services/worker/agents/QualityEvaluator.js';
+import { SessionStore } from '../../src/services/sqlite/SessionStore.js';
+import { SettingsDefaultsManager } from '../../src/shared/SettingsDefaultsManager.js';
+import { queryObservations } from '../../src/services/context/ObservationCompiler.js';
+import type { ContextConfig } from '../../src/services/context/types.js';
+import type { ParsedObservation } from '../../src/sdk/parser.js';
+import type { DatabaseManager } from '../../src/services/worker/DatabaseManager.js';
+
+function createObservation(overrides: Partial<ParsedObservation> = {}): ParsedObservation {
+  return {
+    type: 'discovery',
+    title: 'Session cache is keyed by project',
+    subtitle: 'Cache lookups ignore the worktree path',
+    facts: ['Cache key is the project name', 'Worktrees share one entry'],
+    narrative: 'The session cache in SessionManager keys entries by project name only, so two worktrees of the same repository share cached sessions. This explains the stale prompts seen after switching worktrees.',
+    concepts: ['how-it-works'],
+    files_read: ['src/services/worker/SessionManager.ts'],
+    files_modified: [],
+    ...overrides,
+  };
+}
+
+describe('QualityEvaluator', () => {
+  let store: SessionStore;
+  let dbManager: DatabaseManager;
+  let session: any;
+  let settings: ReturnType<typeof SettingsDefaultsManager.getAllDefaults>;
+
+  beforeEach(() => {
+    store = new SessionStore(':memory:');
+    const sessionDbId = store.createSDKSession('content-1', 'alpha', 'prompt');
+    store.updateMemorySessionId(sessionDbId, 'memory-1');
+    session = { sessionDbId, memorySessionId: 'memory-1' };
+    dbManager = { getSessionStore: () => store } as unknown as DatabaseManager;
+    settings = SettingsDefaultsManager.getAllDefaults();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  describe('assessObservation', () => {
+    it('should score complete, novel observations above sparse ones', () => {
+      const complete = assessObservation(createObservation(), []);
+      const sparse = assessObservation(createObservation({
+        subtitle: null, facts: [], narrative: null, concepts: [], files_read: []
+      }), []);
+
+      expect(complete.score).toBeGreaterThan(0.9);
+      expect(sparse.score).toBeLessThan(0.6);
+      expect(complete.similarity).toBe(0);
+    });
+
+    it('should lower the score of observations similar to earlier ones', () => {
+      const observation = createObservation();
+      const earlier = [[observation.type, observation.title, observation.subtitle, observation.narrative, ...observation.facts].join(' ')];
+
+      const repeated = assessObservation(observation, earlier);
+
+      expect(repeated.similarity).toBe(1);
+      expect(repeated.score).toBeLessThan(assessObservation(observation, []).score - 0.3);
+    });
+  });
+
+  describe('evaluateObservations', () => {
+    it('should drop near-duplicates of stored observations and within the batch', () => {
+      const read = createObservation({ title: 'Read SessionManager.ts', subtitle: null, facts: [], narrative: null });
+      store.storeObservation('memory-1', 'alpha', read);
+
+      const kept = evaluateObservations(
+        [read, createObservation(), createObservation()],
+        session,
+        dbManager,
+        settings
+      );
+
+      expect(kept).toHaveLength(1);
+      expect(kept[0].title).toBe('Session cache is keyed by project');
+      expect(kept[0].quality_score).toBeGreaterThan(0.9);
+    });
+
+    it('should keep duplicates when suppression is disabled', () => {
+      settings.CLAUDE_MEM_QUALITY_DUPLICATE_SIMILARITY = '0';
+
+      const kept = evaluateObservations([createObservation(), createObservation()], session, dbManager, settings);
+
+      expect(kept).toHaveLength(2);
+      expect(kept[1].quality_score).toBeLessThan(kept[0].quality_score!);
+    });
+
+    it('should return observations unscored when recent observations cannot be loaded', () => {
+      const brokenDbManager = {
+        getSessionStore: () => { throw new Error('database locked'); }
+      } as unknown as DatabaseManager;
+
+      const kept = evaluateObservations([createObservation()], session, brokenDbManager, settings);
+
+      expect(kept).toHaveLength(1);
+      expect(kept[0].quality_score).toBeUndefined();
+    });
+  });
+
+  describe('context threshold', () => {
+    it('should hide observations below the minimum quality but keep unscored ones', () => {
+      const high = store.storeObservation('memory-1', 'alpha', { ...createObservation({ title: 'high' }), quality_score: 0.9 });
+      store.storeObservation('memory-1', 'alpha', { ...createObservation({ title: 'low' }), quality_score: 0.2 });
+      const legacy = store.storeObservation('memory-1', 'alpha', createObservation({ title: 'legacy' }));
+
+      const config = {
+        totalObservationCount: 10,
+        observationTypes: new Set(['discovery']),
+        observationConcepts: new Set(['how-it-works']),
+        showTeamMemories: true,
+        ranking: 'recency',
+        preferDigests: false,
+        minQuality: 0.5,
+      } as ContextConfig;
+
+      const ids = queryObservations(store, 'alpha', config).map(obs => obs.id).sort();
+      expect(ids).toEqual([high.id, legacy.id].sort());
+      expect(queryObservations(store, 'alpha', { ...config, minQuality: 0 })).toHaveLength(3);
+      expect(store.getObservationById(high.id)?.quality_score).toBe(0.9);
+    });
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Queue scheduling tests
+ * Tests summary priority (migration 32), coalescing of consecutive tool events,
+ * the in-flight limit of SessionQueueProcessor, and intake admission in QueuePolicy
+ *
+ * Sources:
+ * - API patterns from src/services/queue/SessionQueueProcessor.ts and src/services/queue/QueuePolicy.ts
+ * - In-memory store pattern from tests/sqlite/pending-dead-letters.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from 'bun:test';
+
+mock.module('../../src/utils/logger.js', () => ({
+  logger: {
+    info: () => {},
+    debug: () => {},
+    warn: () => {},
+    error: () => {},
+    success: () => {},
+    failure: () => {},
+    dataIn: () => {},
+    dataOut: () => {},
+    timing: () => {},
+    formatTool: (toolName: string) => toolName,
+  },
+}));
+
+import { EventEmitter } from 'events';
+import { ClaudeMemDatabase } from '../../src/services/sqlite/Database.js';
+import { PendingMessageStore, MESSAGE_PRIORITY } from '../../src/services/sqlite/PendingMessageStore.js';
+import { createSDKSession } from '../../src/services/sqlite/Sessions.js';
+import { SessionQueueProcessor } from '../../src/services/queue/SessionQueueProcessor.js';
+import {
+  loadQueuePolicy,
+  admitObservation,
+  getQueueMetrics,
+  resetQueueMetrics,
+  type QueuePolicy
+} from '../../src/services/queue/QueuePolicy.js';
+import { SettingsDefaultsManager } from '../../src/shared/SettingsDefaultsManager.js';
+import type { PendingMessageWithId } from '../../src/services/worker-types.js';
+import type { Database } from 'bun:sqlite';
+
+const LOW_VALUE_TOOLS = new Set(['Read', 'Grep']);
+
+describe('Queue scheduling', () => {
+  let db: Database;
+  let store: PendingMessageStore;
+  let events: EventEmitter;
+  let processor: SessionQueueProcessor;
+  let controller: AbortController;
+
+  beforeEach(() => {
+    db = new ClaudeMemDatabase(':memory:').db;
+    store = new PendingMessageStore(db, 3);
+    events = new EventEmitter();
+    processor = new SessionQueueProcessor(store, events);
+    controller = new AbortController();
+    createSDKSession(db, 'content-1', 'alpha', 'prompt');
+    resetQueueMetrics();
+  });
+
+  afterEach(() => {
+    controller.abort();
+    db.close();
+  });
+
+  function enqueueTool(toolName: string): number {
+    return store.enqueue(1, 'content-1', {
+      type: 'observation',
+      tool_name: toolName,
+      tool_input: { file_path: 'src/index.ts' },
+      tool_response: 'ok'
+    });
+  }
+
+  function enqueueSummary(priority: number): number {
+    return store.enqueue(1, 'content-1', { type: 'summarize', last_assistant_message: 'done' }, priority);
+  }
+
+  describe('priority', () => {
+    it('should claim a prioritized summary before older observations', async () => {
+      enqueueTool('Edit');
+      enqueueTool('Bash');
+      enqueueSummary(MESSAGE_PRIORITY.summary);
+
+      const iterator = processor.createIterator(1, controller.signal);
+      const first = await iterator.next();
+      const second = await iterator.next();
+
+      expect(first.value.type).toBe('summarize');
+      expect(second.value.tool_name).toBe('Edit');
+      expect(getQueueMetrics().prioritized).toBe(1);
+    });
+
+    it('should keep queue order for summaries queued without priority', async () => {
+      enqueueTool('Edit');
+      enqueueSummary(MESSAGE_PRIORITY.normal);
+
+      const first = await processor.createIterator(1, controller.signal).next();
+
+      expect(first.value.tool_name).toBe('Edit');
+      expect(getQueueMetrics().prioritized).toBe(0);
+    });
+
+    it('should not count a summary at the head of the queue as prioritized', async () => {
+      enqueueSummary(MESSAGE_PRIORITY.summary);
+      enqueueTool('Edit');
+
+      await processor.createIterator(1, controller.signal).next();
+
+      expect(getQueueMetrics().prioritized).toBe(0);
+    });
+  });
+
+  describe('coalescing', () => {
+    it('should batch consecutive low-value tool events up to the maximum', async () => {
+      enqueueTool('Read');
+      enqueueTool('Grep');
+      enqueueTool('Read');
+      enqueueTool('Read');
+
+      const iterator = processor.createIterator(1, controller.signal, {
+        coalesce: { toolNames: LOW_VALUE_TOOLS, max: 3 }
+      });
+      const { value: batch } = await iterator.next();
+
+      expect(batch.tool_name).toBe('Read');
+      expect(batch._coalesced!.map((m: PendingMessageWithId) => m.tool_name)).toEqual(['Grep', 'Read']);
+      expect(store.getPendingCount(1)).toBe(1);
+      expect(getQueueMetrics()).toMatchObject({ batches: 1, coalesced: 2 });
+    });
+
+    it('should stop a batch at the first event of another tool', async () => {
+      enqueueTool('Read');
+      enqueueTool('Edit');
+      enqueueTool('Read');
+
+      const iterator = processor.createIterator(1, controller.signal, {
+        coalesce: { toolNames: LOW_VALUE_TOOLS, max: 5 }
+      });
+      const first = await iterator.next();
+      const second = await iterator.next();
+
+      expect(first.value._coalesced).toBeUndefined();
+      expect(second.value.tool_name).toBe('Edit');
+      expect(getQueueMetrics().batches).toBe(0);
+    });
+
+    it('should not batch events routed to another provider', async () => {
+      enqueueTool('Read');
+      const replayedId = enqueueTool('Read');
+      db.run(`UPDATE pending_messages SET provider_override = 'gemini' WHERE id = ?`, [replayedId]);
+
+      const { value } = await processor.createIterator(1, controller.signal, {
+        coalesce: { toolNames: LOW_VALUE_TOOLS, max: 5 }
+      }).next();
+
+      expect(value._coalesced).toBeUndefined();
+      expect(store.getPendingCount(1)).toBe(1);
+    });
+  });
+
+  describe('in-flight limit', () => {
+    it('should wait for a message event while the session has no capacity', async () => {
+      enqueueTool('Edit');
+      enqueueTool('Bash');
+      let inFlight = 1;
+
+      const iterator = processor.createIterator(1, controller.signal, {
+        hasCapacity: () => inFlight < 1
+      });
+      const next = iterator.next();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(store.getPendingCount(1)).toBe(2);
+      expect(getQueueMetrics().deferred).toBe(1);
+
+      inFlight = 0;
+      events.emit('message');
+      const { value } = await next;
+
+      expect(value.tool_name).toBe('Edit');
+      expect(store.getPendingCount(1)).toBe(1);
+    });
+  });
+
+  describe('intake admission', () => {
+    function policy(overrides: Partial<QueuePolicy>): QueuePolicy {
+      return { ...loadQueuePolicy(SettingsDefaultsManager.getAllDefaults()), ...overrides };
+    }
+
+    it('should admit every observation below the cap or without one', () => {
+      expect(admitObservation(policy({ maxPending: 10 }), 9)).toEqual({ admitted: true, sampled: false });
+      expect(admitObservation(policy({ maxPending: 0 }), 10_000)).toEqual({ admitted: true, sampled: false });
+    });
+
+    it('should drop every observation over the cap with the drop action', () => {
+      const decision = admitObservation(policy({ maxPending: 10, overflowAction: 'drop' }), 10, () => 0);
+
+      expect(decision).toEqual({ admitted: false, reason: 'queue_full' });
+      expect(getQueueMetrics().dropped).toBe(1);
+    });
+
+    it('should keep the sampled fraction of observations over the cap', () => {
+      const sampling = policy({ maxPending: 10, overflowAction: 'sample', sampleRate: 0.25 });
+
+      expect(admitObservation(sampling, 20, () => 0.1)).toEqual({ admitted: true, sampled: true });
+      expect(admitObservation(sampling, 20, () => 0.5)).toEqual({ admitted: false, reason: 'sampled_out' });
+      expect(getQueueMetrics()).toMatchObject({ sampled: 1, dropped: 1 });
+    });
+
+    it('should read the policy from settings and clamp invalid values', () => {
+      const loaded = loadQueuePolicy({
+        ...SettingsDefaultsManager.getAllDefaults(),
+        CLAUDE_MEM_QUEUE_MAX_IN_FLIGHT: '-3',
+        CLAUDE_MEM_QUEUE_COALESCE_TOOLS: ' Read, Glob ,',
+        CLAUDE_MEM_QUEUE_COALESCE_MAX: '99',
+        CLAUDE_MEM_QUEUE_SAMPLE_RATE: '1.5',
+        CLAUDE_MEM_QUEUE_OVERFLOW_ACTION: 'drop'
+      });
+
+      expect(loaded.summaryFirst).toBe(true);
+      expect(loaded.maxInFlight).toBe(0);
+      expect([...loaded.coalesceTools]).toEqual(['Read', 'Glob']);
+      expect(loaded.coalesceMax).toBe(20);
+      expect(loaded.sampleRate).toBe(1);
+      expect(loaded.overflowAction).toBe('drop');
+    });
+  });
+});
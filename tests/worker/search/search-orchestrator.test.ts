@@ -157,9 +157,28 @@ describe('SearchOrchestrator', () => {
           query: 'test query'
         });
 
-        // Chroma failed, should have fallen back
+        // Chroma failed, should have fallen back to FTS5 keyword search
         expect(result.fellBack).toBe(true);
         expect(result.usedChroma).toBe(false);
+        expect(result.strategy).toBe('fts');
+      });
+
+      it('should fuse Chroma and FTS rankings when strategy is rrf', async () => {
+        const keywordOnly = { ...mockObservation, id: 2, rank: -3, snippet: 'a **test** match' };
+        mockSessionSearch.searchObservations = mock(() => [keywordOnly, { ...mockObservation, rank: -1 }]);
+
+        const result = await orchestrator.search({
+          query: 'test',
+          type: 'observations',
+          strategy: 'rrf'
+        });
+
+        expect(result.strategy).toBe('rrf');
+        expect(result.usedChroma).toBe(true);
+        expect(mockChromaSync.queryChroma).toHaveBeenCalled();
+        // #1 is ranked by both lists, so it outscores #2 which only FTS found
+        expect(result.results.observations.map(obs => obs.id)).toEqual([1, 2]);
+        expect(result.results.observations[0].score).toBe(1);
       });
 
       it('should normalize comma-separated concepts', async () => {
@@ -313,14 +332,16 @@ describe('SearchOrchestrator', () => {
     });
 
     describe('search', () => {
-      it('should return empty results for query search without Chroma', async () => {
+      it('should use FTS keyword search for query search without Chroma', async () => {
         const result = await orchestrator.search({
           query: 'semantic query'
         });
 
-        // No Chroma available, can't do semantic search
-        expect(result.results.observations).toHaveLength(0);
+        // No Chroma available, falls through to FTS5 keyword search
+        expect(result.strategy).toBe('fts');
         expect(result.usedChroma).toBe(false);
+        const callArgs = mockSessionSearch.searchObservations.mock.calls[0];
+        expect(callArgs[0]).toBe('"semantic" "query"');
       });
 
       it('should still work for filter-only queries', async () => {
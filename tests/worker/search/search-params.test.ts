@@ -0,0 +1,69 @@
+/**
+ * Search parameter tests
+ * Tests URL-friendly normalization and the JSON Schemas published for the MCP tools
+ *
+ * Sources:
+ * - Implementation from src/services/worker/search/SearchParams.ts
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  SEARCH_PARAMS,
+  TIMELINE_PARAMS,
+  GET_OBSERVATIONS_PARAMS,
+  normalizeSearchParams,
+  buildInputSchema
+} from '../../../src/services/worker/search/SearchParams.js';
+
+describe('SearchParams', () => {
+  describe('normalizeSearchParams', () => {
+    it('should split comma-separated lists and parse numeric strings', () => {
+      const normalized = normalizeSearchParams({
+        query: 'auth',
+        obs_type: 'decision, bugfix',
+        concepts: ['caching'],
+        files: '',
+        limit: '5',
+        dateStart: '2026-01-01'
+      });
+
+      expect(normalized).toEqual({
+        query: 'auth',
+        obs_type: ['decision', 'bugfix'],
+        concepts: ['caching'],
+        files: '',
+        limit: 5,
+        dateStart: '2026-01-01'
+      });
+    });
+
+    it('should keep session and timestamp anchors as strings', () => {
+      expect(normalizeSearchParams({ anchor: '42' }, TIMELINE_PARAMS).anchor).toBe(42);
+      expect(normalizeSearchParams({ anchor: 'S12' }, TIMELINE_PARAMS).anchor).toBe('S12');
+      expect(normalizeSearchParams({ anchor: '2026-01-01T00:00:00Z' }, TIMELINE_PARAMS).anchor).toBe('2026-01-01T00:00:00Z');
+    });
+  });
+
+  describe('buildInputSchema', () => {
+    it('should describe every search parameter without accepting unknown ones', () => {
+      const schema = buildInputSchema(SEARCH_PARAMS);
+
+      expect(Object.keys(schema.properties)).toEqual(Object.keys(SEARCH_PARAMS));
+      expect(schema.additionalProperties).toBe(false);
+      expect(schema.required).toBeUndefined();
+      expect(schema.properties.limit).toMatchObject({ type: 'integer', minimum: 1 });
+      expect(schema.properties.strategy.enum).toContain('rrf');
+      expect(schema.properties.obs_type.anyOf).toEqual([
+        { type: 'array', items: { type: 'string' } },
+        { type: 'string', description: 'Comma-separated' }
+      ]);
+    });
+
+    it('should require an array of integer IDs for get_observations', () => {
+      const schema = buildInputSchema(GET_OBSERVATIONS_PARAMS, ['ids']);
+
+      expect(schema.required).toEqual(['ids']);
+      expect(schema.properties.ids).toMatchObject({ type: 'array', items: { type: 'integer' } });
+    });
+  });
+});
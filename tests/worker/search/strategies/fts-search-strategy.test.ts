@@ -0,0 +1,175 @@
+/**
+ * FTSSearchStrategy tests
+ * Runs keyword search against a real SQLite database with FTS5 tables
+ *
+ * Sources:
+ * - FTSSearchStrategy implementation from src/services/worker/search/strategies/FTSSearchStrategy.ts
+ * - FTS query paths and buildFtsMatchQuery from src/services/sqlite/SessionSearch.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ClaudeMemDatabase } from '../../../../src/services/sqlite/Database.js';
+import { SessionSearch, buildFtsMatchQuery } from '../../../../src/services/sqlite/SessionSearch.js';
+import { storeObservation } from '../../../../src/services/sqlite/Observations.js';
+import { storeSummary } from '../../../../src/services/sqlite/Summaries.js';
+import { saveUserPrompt } from '../../../../src/services/sqlite/prompts/store.js';
+import { createSDKSession, updateMemorySessionId } from '../../../../src/services/sqlite/Sessions.js';
+import { FTSSearchStrategy } from '../../../../src/services/worker/search/strategies/FTSSearchStrategy.js';
+import type { ObservationInput } from '../../../../src/services/sqlite/observations/types.js';
+
+describe('buildFtsMatchQuery', () => {
+  it('should quote plain words as an implicit AND', () => {
+    expect(buildFtsMatchQuery('worker port')).toBe('"worker" "port"');
+  });
+
+  it('should keep phrases and prefix markers', () => {
+    expect(buildFtsMatchQuery('"session store" migra*')).toBe('"session store" "migra"*');
+  });
+
+  it('should turn -term and NOT term into exclusions', () => {
+    expect(buildFtsMatchQuery('worker -windows NOT "console popup"')).toBe('("worker") NOT "windows" NOT "console popup"');
+  });
+
+  it('should neutralize FTS5 operators and punctuation in user input', () => {
+    expect(buildFtsMatchQuery('src/foo.ts OR bar(')).toBe('"src/foo.ts" "OR" "bar("');
+  });
+
+  it('should return null when only exclusions remain', () => {
+    expect(buildFtsMatchQuery('-windows')).toBeNull();
+    expect(buildFtsMatchQuery('   ')).toBeNull();
+  });
+});
+
+describe('FTSSearchStrategy', () => {
+  let dir: string;
+  let database: ClaudeMemDatabase;
+  let sessionSearch: SessionSearch;
+  let strategy: FTSSearchStrategy;
+
+  function storeTestObservation(overrides: Partial<ObservationInput>): number {
+    return storeObservation(database.db, 'mem-fts', 'test-project', {
+      type: 'discovery',
+      title: 'Untitled',
+      subtitle: null,
+      facts: [],
+      narrative: null,
+      concepts: [],
+      files_read: [],
+      files_modified: [],
+      ...overrides,
+    }, 1).id;
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-mem-fts-'));
+    const dbPath = join(dir, 'test.db');
+    database = new ClaudeMemDatabase(dbPath);
+    const sessionId = createSDKSession(database.db, 'content-fts', 'test-project', 'initial prompt');
+    updateMemorySessionId(database.db, sessionId, 'mem-fts');
+
+    sessionSearch = new SessionSearch(dbPath);
+    strategy = new FTSSearchStrategy(sessionSearch);
+  });
+
+  afterEach(() => {
+    sessionSearch.close();
+    database.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should configure BM25 weights only when the stored setting differs', () => {
+    const rank = () => (database.db.prepare("SELECT v FROM observations_fts_config WHERE k = 'rank'").get() as { v: string }).v;
+    const dataVersion = () => (database.db.prepare('PRAGMA data_version').get() as { data_version: number }).data_version;
+    expect(rank()).toStartWith('bm25(10, 5');
+
+    // Opening another connection does not write when the weights are already stored
+    const before = dataVersion();
+    new SessionSearch(join(dir, 'test.db')).close();
+    expect(dataVersion()).toBe(before);
+
+    database.db.run("INSERT INTO observations_fts(observations_fts, rank) VALUES('rank', 'bm25()')");
+    new SessionSearch(join(dir, 'test.db')).close();
+    expect(rank()).toStartWith('bm25(10, 5');
+  });
+
+  it('should only handle searches with query text', () => {
+    expect(strategy.canHandle({ query: 'worker' })).toBe(true);
+    expect(strategy.canHandle({ project: 'test-project' })).toBe(false);
+  });
+
+  it('should rank title matches above body matches', async () => {
+    const bodyMatch = storeTestObservation({ title: 'Viewer cards', narrative: 'Mentions the worker once in passing' });
+    const titleMatch = storeTestObservation({ title: 'Worker restart loop', narrative: 'Port conflict on startup' });
+
+    const result = await strategy.search({ query: 'worker', searchType: 'observations' });
+
+    expect(result.strategy).toBe('fts');
+    expect(result.usedChroma).toBe(false);
+    expect(result.results.observations.map(obs => obs.id)).toEqual([titleMatch, bodyMatch]);
+    expect(result.results.observations[0].score).toBe(1);
+    expect(result.results.observations[1].score).toBeLessThan(1);
+  });
+
+  it('should support phrase, prefix and exclusion syntax', async () => {
+    const phrase = storeTestObservation({ title: 'Session store migrations run in the constructor' });
+    storeTestObservation({ title: 'Store for the session list' });
+    const excluded = storeTestObservation({ title: 'Migration runner on windows' });
+    const prefixed = storeTestObservation({ title: 'Migrating settings to the new format' });
+
+    const phraseResult = await strategy.search({ query: '"session store"', searchType: 'observations' });
+    expect(phraseResult.results.observations.map(obs => obs.id)).toEqual([phrase]);
+
+    const prefixResult = await strategy.search({ query: 'migra* -windows', searchType: 'observations' });
+    const ids = prefixResult.results.observations.map(obs => obs.id);
+    expect(ids).toContain(phrase);
+    expect(ids).toContain(prefixed);
+    expect(ids).not.toContain(excluded);
+  });
+
+  it('should highlight matched terms in snippets', async () => {
+    storeTestObservation({ title: 'Chroma fallback', narrative: 'Keyword search takes over when the vector store is down' });
+
+    const result = await strategy.search({ query: 'keyword', searchType: 'observations' });
+
+    expect(result.results.observations[0].snippet).toContain('**Keyword**');
+  });
+
+  it('should search summaries and prompts', async () => {
+    storeSummary(database.db, 'mem-fts', 'test-project', {
+      request: 'Add keyword search',
+      investigated: 'FTS5 tables',
+      learned: 'BM25 ranks lower for better matches',
+      completed: 'Strategy added',
+      next_steps: 'Fusion',
+      notes: null,
+    }, 1);
+    saveUserPrompt(database.db, 'content-fts', 2, 'please add keyword search to memory');
+
+    const result = await strategy.search({ query: 'keyword' });
+
+    expect(result.results.sessions).toHaveLength(1);
+    expect(result.results.prompts).toHaveLength(1);
+    expect(result.results.prompts[0].snippet).toContain('**keyword**');
+  });
+
+  it('should apply structured filters alongside the match', async () => {
+    storeTestObservation({ type: 'bugfix', title: 'Worker crash fixed' });
+    const decision = storeTestObservation({ type: 'decision', title: 'Worker runs on Bun' });
+
+    const result = await strategy.search({ query: 'worker', searchType: 'observations', obsType: ['decision'] });
+
+    expect(result.results.observations.map(obs => obs.id)).toEqual([decision]);
+  });
+
+  it('should return empty results for a pure exclusion query', async () => {
+    storeTestObservation({ title: 'Worker restart loop' });
+
+    const result = await strategy.search({ query: '-worker' });
+
+    expect(result.results.observations).toHaveLength(0);
+    expect(result.strategy).toBe('fts');
+  });
+});
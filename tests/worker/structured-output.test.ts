@@ -0,0 +1,231 @@
+/**
+ * Structured output tests
+ *
+ * Covers the JSON schema generated from the active mode, validation of JSON
+ * responses, and the repair loop with its parser metrics.
+ *
+ * Sources:
+ * - Schema from src/sdk/schema.ts
+ * - JSON parsing from src/sdk/parser.ts
+ * - Repair loop from src/services/worker/agents/StructuredOutput.ts
+ * - Mocking patterns from tests/worker/heuristic-agent.test.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+
+// Complete no-op logger (other test files replace the module with partial mocks)
+mock.module('../../src/utils/logger.js', () => ({
+  logger: {
+    info: () => {},
+    debug: () => {},
+    warn: () => {},
+    error: () => {},
+    success: () => {},
+    failure: () => {},
+    dataIn: () => {},
+    dataOut: () => {},
+    timing: () => {},
+    formatTool: (toolName: string) => toolName,
+  },
+}));
+
+// Import after mocks
+import { buildObservationSchema, validateAgainstSchema } from '../../src/sdk/schema.js';
+import { parseObservationsJson } from '../../src/sdk/parser.js';
+import { buildInitPrompt } from '../../src/sdk/prompts.js';
+import {
+  parseStructuredObservations,
+  getParserMetrics,
+  resetParserMetrics
+} from '../../src/services/worker/agents/StructuredOutput.js';
+import { ModeManager } from '../../src/services/domain/ModeManager.js';
+import { SettingsDefaultsManager } from '../../src/shared/SettingsDefaultsManager.js';
+
+const mockMode = {
+  name: 'code',
+  prompts: {
+    type_guidance: 'Pick one type',
+    concept_guidance: 'Pick concepts',
+    field_guidance: 'Fill the fields',
+    footer: 'Record observations only',
+    xml_title_placeholder: 'Short title',
+    xml_subtitle_placeholder: 'One sentence',
+    xml_fact_placeholder: 'Concise fact',
+    xml_narrative_placeholder: 'Full context',
+    xml_concept_placeholder: 'concept',
+    xml_file_placeholder: 'path/to/file'
+  },
+  observation_types: [{ id: 'bugfix' }, { id: 'discovery' }],
+  observation_concepts: [{ id: 'how-it-works' }, { id: 'gotcha' }]
+};
+
+const VALID = { type: 'discovery', title: 'Found the cache', facts: ['Cache is per-process'], concepts: ['how-it-works'] };
+const INVALID_TYPE = { type: 'feature', title: 'Added export' };
+
+function response(observations: unknown[]): string {
+  return JSON.stringify({ observations });
+}
+
+function createSession(): any {
+  return {
+    sessionDbId: 1,
+    contentSessionId: 'test-session',
+    conversationHistory: [
+      { role: 'user', content: 'prompt' },
+      { role: 'assistant', content: 'original' }
+    ]
+  };
+}
+
+describe('Structured output', () => {
+  let modeManagerSpy: ReturnType<typeof spyOn>;
+  let settings: ReturnType<typeof SettingsDefaultsManager.getAllDefaults>;
+
+  beforeEach(() => {
+    modeManagerSpy = spyOn(ModeManager, 'getInstance').mockImplementation(() => ({
+      getActiveMode: () => mockMode,
+    } as any));
+    settings = { ...SettingsDefaultsManager.getAllDefaults(), CLAUDE_MEM_OUTPUT_FORMAT: 'json' };
+    resetParserMetrics();
+  });
+
+  afterEach(() => {
+    modeManagerSpy.mockRestore();
+    mock.restore();
+  });
+
+  describe('schema', () => {
+    it('should take type and concept enums from the mode', () => {
+      const item = buildObservationSchema(mockMode as any).properties!.observations.items!;
+
+      expect(item.required).toEqual(['type', 'title']);
+      expect(item.properties!.type.enum).toEqual(['bugfix', 'discovery']);
+      expect(item.properties!.concepts.items!.enum).toEqual(['how-it-works', 'gotcha']);
+      expect(item.properties!.title.description).toBe('Short title');
+    });
+
+    it('should report violations with their JSON path', () => {
+      const schema = buildObservationSchema(mockMode as any);
+
+      const errors = validateAgainstSchema({ observations: [{ ...INVALID_TYPE, title: '', extra: 1 }] }, schema);
+
+      expect(errors).toContain('$.observations[0].type: "feature" is not one of bugfix, discovery');
+      expect(errors).toContain('$.observations[0].title: must not be empty');
+      expect(errors).toContain('$.observations[0].extra: unknown field');
+      expect(validateAgainstSchema({ observations: [VALID] }, schema)).toEqual([]);
+    });
+  });
+
+  describe('parseObservationsJson', () => {
+    it('should keep valid observations and report invalid ones', () => {
+      const result = parseObservationsJson(response([VALID, INVALID_TYPE]));
+
+      expect(result.found).toBe(true);
+      expect(result.observations).toHaveLength(1);
+      expect(result.observations[0]).toMatchObject({
+        type: 'discovery',
+        title: 'Found the cache',
+        subtitle: null,
+        facts: ['Cache is per-process'],
+        files_read: []
+      });
+      expect(result.rejectedCount).toBe(1);
+      expect(result.errors[0]).toContain('$.observations[1].type');
+    });
+
+    it('should read JSON from a fenced block', () => {
+      const result = parseObservationsJson('Here you go:\n```json\n' + response([VALID]) + '\n```');
+
+      expect(result.observations).toHaveLength(1);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should not treat XML responses as JSON', () => {
+      const result = parseObservationsJson('<observation><type>discovery</type><title>{x}</title></observation>');
+
+      expect(result.found).toBe(false);
+    });
+
+    it('should report malformed JSON as one rejected response', () => {
+      const result = parseObservationsJson('{"observations": [');
+
+      expect(result.found).toBe(true);
+      expect(result.rejectedCount).toBe(1);
+      expect(result.errors[0]).toContain('not valid JSON');
+    });
+  });
+
+  describe('parseStructuredObservations', () => {
+    it('should accept a repaired response and replace it in the history', async () => {
+      const repaired = response([VALID, { ...INVALID_TYPE, type: 'bugfix' }]);
+      const repairAgent = { generateText: mock(() => Promise.resolve(repaired)) };
+      const session = createSession();
+
+      const observations = await parseStructuredObservations(response([VALID, INVALID_TYPE]), session, repairAgent, settings);
+
+      expect(observations.map(o => o.type)).toEqual(['discovery', 'bugfix']);
+      expect(repairAgent.generateText).toHaveBeenCalledTimes(1);
+      const [prompt] = repairAgent.generateText.mock.calls[0] as unknown as [string];
+      expect(prompt).toContain('"feature" is not one of bugfix, discovery');
+      expect(session.conversationHistory[1]).toEqual({ role: 'assistant', content: repaired });
+      expect(getParserMetrics()).toEqual({ valid: 1, repaired: 1, dropped: 0 });
+    });
+
+    it('should drop observations still invalid after the last attempt', async () => {
+      settings.CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS = '2';
+      const repairAgent = { generateText: mock(() => Promise.resolve(response([VALID, INVALID_TYPE]))) };
+      const session = createSession();
+
+      const observations = await parseStructuredObservations(response([VALID, INVALID_TYPE]), session, repairAgent, settings);
+
+      expect(observations).toHaveLength(1);
+      expect(repairAgent.generateText).toHaveBeenCalledTimes(2);
+      expect(getParserMetrics()).toEqual({ valid: 1, repaired: 0, dropped: 1 });
+    });
+
+    it('should reject a repair that loses valid observations', async () => {
+      settings.CLAUDE_MEM_OUTPUT_REPAIR_ATTEMPTS = '1';
+      const repairAgent = { generateText: mock(() => Promise.resolve(response([]))) };
+      const session = createSession();
+
+      const observations = await parseStructuredObservations(response([VALID, INVALID_TYPE]), session, repairAgent, settings);
+
+      expect(observations).toHaveLength(1);
+      expect(session.conversationHistory[1].content).toBe('original');
+      expect(getParserMetrics()).toEqual({ valid: 1, repaired: 0, dropped: 1 });
+    });
+
+    it('should keep valid observations when the repair request fails', async () => {
+      const repairAgent = { generateText: mock(() => Promise.reject(new Error('rate limited'))) };
+
+      const observations = await parseStructuredObservations(response([VALID, INVALID_TYPE]), createSession(), repairAgent, settings);
+
+      expect(observations).toHaveLength(1);
+      expect(repairAgent.generateText).toHaveBeenCalledTimes(1);
+      expect(getParserMetrics().dropped).toBe(1);
+    });
+
+    it('should fall back to the XML parser when the response has no JSON', async () => {
+      const repairAgent = { generateText: mock(() => Promise.resolve('')) };
+      const xml = '<observation><type>bugfix</type><title>Fixed race</title></observation>';
+
+      const observations = await parseStructuredObservations(xml, createSession(), repairAgent, settings);
+
+      expect(observations).toHaveLength(1);
+      expect(observations[0]).toMatchObject({ type: 'bugfix', title: 'Fixed race' });
+      expect(repairAgent.generateText).not.toHaveBeenCalled();
+      expect(getParserMetrics()).toEqual({ valid: 0, repaired: 0, dropped: 0 });
+    });
+  });
+
+  describe('prompts', () => {
+    it('should embed the schema instead of the XML template in json mode', () => {
+      const prompt = buildInitPrompt('project', 'session', 'Fix the cache', mockMode as any, 'json');
+
+      expect(prompt).toContain('"enum": [\n');
+      expect(prompt).toContain('"bugfix"');
+      expect(prompt).toContain('{"observations": []}');
+      expect(prompt).not.toContain('<observation>');
+    });
+  });
+});